@@ -12,6 +12,7 @@ module.exports = {
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
   },
+  setupFiles: ['<rootDir>/src/__tests__/setup-env.ts'],
   setupFilesAfterEnv: [],
   coverageDirectory: 'coverage',
   coverageReporters: ['text', 'lcov', 'html'],
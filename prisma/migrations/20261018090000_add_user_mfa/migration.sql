@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "user_mfa" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "enabled_at" TIMESTAMP(3),
+    "last_used_step" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_mfa_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_mfa_user_id_key" ON "user_mfa"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "user_mfa" ADD CONSTRAINT "user_mfa_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN "familyId" TEXT,
+ADD COLUMN "rotatedAt" TIMESTAMP(3);
+
+-- Existing tokens each start their own family
+UPDATE "refresh_tokens" SET "familyId" = "id" WHERE "familyId" IS NULL;
+
+ALTER TABLE "refresh_tokens" ALTER COLUMN "familyId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_familyId_idx" ON "refresh_tokens"("familyId");
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "oauth_clients" ADD COLUMN "token_version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE "oauth_client_roles" (
+    "client_id" TEXT NOT NULL,
+    "role_id" TEXT NOT NULL,
+
+    CONSTRAINT "oauth_client_roles_pkey" PRIMARY KEY ("client_id","role_id")
+);
+
+-- CreateIndex
+CREATE INDEX "oauth_client_roles_role_id_idx" ON "oauth_client_roles"("role_id");
+
+-- AddForeignKey
+ALTER TABLE "oauth_client_roles" ADD CONSTRAINT "oauth_client_roles_client_id_fkey" FOREIGN KEY ("client_id") REFERENCES "oauth_clients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "oauth_client_roles" ADD CONSTRAINT "oauth_client_roles_role_id_fkey" FOREIGN KEY ("role_id") REFERENCES "roles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "email_templates" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "text_body" TEXT NOT NULL,
+    "html_body" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "updated_by" TEXT,
+
+    CONSTRAINT "email_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "email_outbox" (
+    "id" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "text_body" TEXT NOT NULL,
+    "html_body" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "next_attempt_at" TIMESTAMP(3) NOT NULL,
+    "last_error" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "failed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_outbox_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_templates_tenant_id_type_key" ON "email_templates"("tenant_id", "type");
+
+-- CreateIndex
+CREATE INDEX "email_outbox_sent_at_failed_at_next_attempt_at_idx" ON "email_outbox"("sent_at", "failed_at", "next_attempt_at");
+
+-- AddForeignKey
+ALTER TABLE "email_templates" ADD CONSTRAINT "email_templates_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
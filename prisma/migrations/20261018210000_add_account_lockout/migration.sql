@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "tenant_security_settings" ADD COLUMN "lockout_threshold" INTEGER NOT NULL DEFAULT 5,
+ADD COLUMN "lockout_duration_seconds" INTEGER NOT NULL DEFAULT 300,
+ADD COLUMN "lockout_max_duration_seconds" INTEGER NOT NULL DEFAULT 86400;
+
+-- CreateTable
+CREATE TABLE "user_lockouts" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "failed_attempts" INTEGER NOT NULL DEFAULT 0,
+    "lock_count" INTEGER NOT NULL DEFAULT 0,
+    "locked_until" TIMESTAMP(3),
+    "last_failed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "user_lockouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_lockouts_user_id_key" ON "user_lockouts"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "user_lockouts" ADD CONSTRAINT "user_lockouts_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
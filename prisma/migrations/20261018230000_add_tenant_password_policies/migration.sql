@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "tenant_password_policies" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "min_length" INTEGER,
+    "require_uppercase" BOOLEAN,
+    "require_lowercase" BOOLEAN,
+    "require_number" BOOLEAN,
+    "require_special_char" BOOLEAN,
+    "max_history" INTEGER,
+    "expiry_days" INTEGER,
+    "banned_words" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "updated_by" TEXT,
+
+    CONSTRAINT "tenant_password_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenant_password_policies_tenant_id_key" ON "tenant_password_policies"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "tenant_password_policies" ADD CONSTRAINT "tenant_password_policies_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "password_reset_tokens" ADD COLUMN "purpose" TEXT NOT NULL DEFAULT 'password_reset';
+
+-- AlterTable
+ALTER TABLE "tenant_security_settings" ADD COLUMN "magic_link_enabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "password_reset_tokens_user_id_purpose_created_at_idx" ON "password_reset_tokens"("user_id", "purpose", "created_at");
@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "tenant_saml_configs" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "idp_entity_id" TEXT NOT NULL,
+    "idp_sso_url" TEXT NOT NULL,
+    "idp_certificates" TEXT[],
+    "idp_metadata_xml" TEXT,
+    "attribute_mapping" JSONB NOT NULL,
+    "jit_provisioning" BOOLEAN NOT NULL DEFAULT true,
+    "default_role_id" TEXT,
+    "disable_password_login" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "updated_by" TEXT,
+
+    CONSTRAINT "tenant_saml_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "user_identities" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "protocol" TEXT NOT NULL,
+    "connection_id" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "email" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_login_at" TIMESTAMP(3),
+
+    CONSTRAINT "user_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "sso_login_requests" (
+    "id" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "protocol" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "connection_id" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sso_login_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenant_saml_configs_tenant_id_key" ON "tenant_saml_configs"("tenant_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_identities_connection_id_subject_key" ON "user_identities"("connection_id", "subject");
+
+-- CreateIndex
+CREATE INDEX "user_identities_user_id_idx" ON "user_identities"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sso_login_requests_state_key" ON "sso_login_requests"("state");
+
+-- CreateIndex
+CREATE INDEX "sso_login_requests_expires_at_idx" ON "sso_login_requests"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "tenant_saml_configs" ADD CONSTRAINT "tenant_saml_configs_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_identities" ADD CONSTRAINT "user_identities_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "tenant_oidc_connectors" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "issuer" TEXT NOT NULL,
+    "client_id" TEXT NOT NULL,
+    "client_secret_encrypted" TEXT NOT NULL,
+    "scopes" TEXT[],
+    "claim_mapping" JSONB NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "jit_provisioning" BOOLEAN NOT NULL DEFAULT true,
+    "default_role_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "updated_by" TEXT,
+
+    CONSTRAINT "tenant_oidc_connectors_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "sso_login_requests" ADD COLUMN "nonce" TEXT,
+ADD COLUMN "code_verifier" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tenant_oidc_connectors_tenant_id_name_key" ON "tenant_oidc_connectors"("tenant_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "tenant_oidc_connectors" ADD CONSTRAINT "tenant_oidc_connectors_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "external_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "roles" ADD COLUMN "external_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "scim_tokens" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "token_hash" TEXT NOT NULL,
+    "expires_at" TIMESTAMP(3),
+    "last_used_at" TIMESTAMP(3),
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "created_by" TEXT,
+
+    CONSTRAINT "scim_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_tenantId_external_id_key" ON "users"("tenantId", "external_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "roles_tenantId_external_id_key" ON "roles"("tenantId", "external_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scim_tokens_prefix_key" ON "scim_tokens"("prefix");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scim_tokens_token_hash_key" ON "scim_tokens"("token_hash");
+
+-- CreateIndex
+CREATE INDEX "scim_tokens_tenant_id_idx" ON "scim_tokens"("tenant_id");
+
+-- AddForeignKey
+ALTER TABLE "scim_tokens" ADD CONSTRAINT "scim_tokens_tenant_id_fkey" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
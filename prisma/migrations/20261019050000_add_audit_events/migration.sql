@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "audit_events" (
+    "id" TEXT NOT NULL,
+    "tenant_id" TEXT,
+    "actor_id" TEXT,
+    "actor_type" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "target_type" TEXT,
+    "target_id" TEXT,
+    "changes" JSONB,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "outcome" TEXT NOT NULL,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_events_tenant_id_created_at_idx" ON "audit_events"("tenant_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "audit_events_actor_id_idx" ON "audit_events"("actor_id");
+
+-- CreateIndex
+CREATE INDEX "audit_events_action_idx" ON "audit_events"("action");
+
+-- CreateIndex
+CREATE INDEX "audit_events_created_at_idx" ON "audit_events"("created_at");
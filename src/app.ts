@@ -8,12 +8,21 @@ import { ErrorHandler } from './presentation/http/middleware/error-handler';
 import { versionMiddleware } from './presentation/http/middleware/version.middleware';
 import swaggerUi from 'swagger-ui-express';
 import { swaggerSpecV1 } from './presentation/http/swagger/swagger.config';
-import { initializeContainer } from './infrastructure/di/container';
+import { initializeContainer, container } from './infrastructure/di/container';
 import { eventBus } from './infrastructure/events/event-bus';
 import { UserCreatedHandler } from './infrastructure/events/handlers/user-created.handler';
 import { TenantCreatedHandler } from './infrastructure/events/handlers/tenant-created.handler';
+import { MfaRecoveryCodeUsedHandler } from './infrastructure/events/handlers/mfa-recovery-code-used.handler';
+import { RefreshTokenReuseDetectedHandler } from './infrastructure/events/handlers/refresh-token-reuse-detected.handler';
+import { AccountLockedHandler } from './infrastructure/events/handlers/account-locked.handler';
+import { AccountUnlockedHandler } from './infrastructure/events/handlers/account-unlocked.handler';
+import { PasswordChangedHandler } from './infrastructure/events/handlers/password-changed.handler';
 import { Logger, createRequestLoggingMiddleware, createErrorLoggingMiddleware } from './infrastructure/logging/logger';
 import { createMetricsRoutes } from './presentation/http/routes/metrics.routes';
+import { JwtService } from './infrastructure/external/jwt.service';
+import { createWellKnownRoutes } from './presentation/http/routes/well-known.routes';
+import { createScimRoutes } from './presentation/http/routes/scim.routes';
+import { startEmailRetryWorker, stopEmailRetryWorker } from './infrastructure/email/email-retry-worker';
 
 dotenv.config();
 
@@ -23,11 +32,32 @@ Logger.initialize();
 // Initialize Dependency Injection Container FIRST (before any route imports)
 initializeContainer();
 
+// Load the JWT signing keyset now so a broken keyset fails at startup, not on the first login
+JwtService.getKeySet();
+
+// Same for the breached password source: a missing dataset must not silently disable the check
+container.get('IBreachedPasswordChecker');
+
 // Register Domain Event Handlers
-const userCreatedHandler = new UserCreatedHandler();
-const tenantCreatedHandler = new TenantCreatedHandler();
+const userCreatedHandler = new UserCreatedHandler(
+  container.get('EmailService'),
+  container.get('EmailVerificationService'),
+  container.get('IUserRepository'),
+  container.get('ITenantRepository')
+);
+const tenantCreatedHandler = new TenantCreatedHandler(container.get('AuditLogService'));
+const mfaRecoveryCodeUsedHandler = new MfaRecoveryCodeUsedHandler(container.get('AuditLogService'));
+const refreshTokenReuseDetectedHandler = new RefreshTokenReuseDetectedHandler(container.get('AuditLogService'));
+const accountLockedHandler = new AccountLockedHandler(container.get('AuditLogService'));
+const accountUnlockedHandler = new AccountUnlockedHandler();
+const passwordChangedHandler = new PasswordChangedHandler(container.get('AuditLogService'));
 eventBus.subscribe('UserCreated', (event) => userCreatedHandler.handle(event as any));
 eventBus.subscribe('TenantCreated', (event) => tenantCreatedHandler.handle(event as any));
+eventBus.subscribe('MfaRecoveryCodeUsed', (event) => mfaRecoveryCodeUsedHandler.handle(event as any));
+eventBus.subscribe('RefreshTokenReuseDetected', (event) => refreshTokenReuseDetectedHandler.handle(event as any));
+eventBus.subscribe('AccountLocked', (event) => accountLockedHandler.handle(event as any));
+eventBus.subscribe('AccountUnlocked', (event) => accountUnlockedHandler.handle(event as any));
+eventBus.subscribe('PasswordChanged', (event) => passwordChangedHandler.handle(event as any));
 
 // Import and create routes AFTER container initialization
 import { createV1Routes } from './presentation/http/routes/v1';
@@ -85,6 +115,12 @@ app.use('/api/latest', versionMiddleware, v1Routes);
 // Metrics routes
 app.use(createMetricsRoutes());
 
+// Well-known discovery routes (JWKS)
+app.use(createWellKnownRoutes());
+
+// SCIM 2.0 provisioning (tenant SCIM tokens, SCIM error responses)
+app.use('/scim/v2', createScimRoutes());
+
 // Error logging middleware
 app.use(createErrorLoggingMiddleware());
 
@@ -98,6 +134,8 @@ process.on('SIGINT', () => gracefulShutdown('SIGINT'));
 async function gracefulShutdown(signal: string) {
   console.log(`${signal} received, shutting down gracefully...`);
   
+  stopEmailRetryWorker();
+
   // Stop accepting new connections
   const server = (app as any)._server;
   if (server) {
@@ -139,6 +177,7 @@ async function gracefulShutdown(signal: string) {
 async function startServer() {
   try {
     await connectDatabase();
+    startEmailRetryWorker(container.get('EmailService'));
     const server = app.listen(PORT, () => {
       Logger.info(`Server is running on port ${PORT}`, {
         port: PORT,
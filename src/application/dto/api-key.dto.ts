@@ -0,0 +1,20 @@
+export interface CreateApiKeyDto {
+  name: string;
+  scopes: string[];
+  expiresAt?: string;
+}
+
+export interface ApiKeyResponseDto {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  key: string; // Shown only once
+}
@@ -0,0 +1,29 @@
+import { AuditChanges } from '../../domain/entities/audit-event.entity';
+
+export interface AuditLogQueryDto {
+  tenantId?: string; // Super admin only; tenant admins always see their own tenant
+  actorId?: string;
+  action?: string; // Exact action, or a prefix ending with "." (e.g. "user.")
+  outcome?: string;
+  from?: string;
+  to?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface AuditEventResponseDto {
+  id: string;
+  tenantId: string | null;
+  actorId: string | null;
+  actorType: string;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  changes: AuditChanges | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  outcome: string;
+  reason: string | null;
+  metadata: Record<string, unknown> | null;
+  createdAt: Date;
+}
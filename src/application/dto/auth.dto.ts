@@ -1,3 +1,5 @@
+import { MfaMethod } from '../../domain/constants/mfa-policies';
+
 export interface OnboardDto {
   email: string;
   password: string;
@@ -38,3 +40,66 @@ export interface AuthResponseDto {
   };
 }
 
+
+/**
+ * Returned by login instead of tokens when a further step is required
+ * The challenge token is only accepted by the endpoint that completes that step
+ */
+export interface AuthChallengeResponseDto {
+  status: 'mfa_required' | 'mfa_enrollment_required' | 'password_change_required';
+  challengeToken: string;
+  // Second factors the user can answer an "mfa_required" challenge with
+  methods?: MfaMethod[];
+}
+
+export type LoginResponseDto = AuthResponseDto | AuthChallengeResponseDto;
+
+export interface ChangePasswordDto {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface MagicLinkRequestDto {
+  email: string;
+  tenantSlug: string;
+}
+
+export interface MagicLinkLoginDto {
+  token: string;
+}
+
+export interface ExpiredPasswordChangeDto {
+  challengeToken: string;
+  newPassword: string;
+}
+
+export interface RequiredMfaEnrollmentDto {
+  challengeToken: string;
+  code: string;
+}
+
+export interface RequiredMfaEnrollmentResponseDto extends AuthResponseDto {
+  recoveryCodes: string[];
+}
+
+export interface MfaEnrollmentResponseDto {
+  secret: string;
+  provisioningUri: string;
+}
+
+export interface MfaCodeDto {
+  code: string;
+}
+
+export interface MfaRecoveryCodesResponseDto {
+  recoveryCodes: string[];
+}
+
+/**
+ * Second login step: exactly one of code (TOTP) or recoveryCode is provided
+ */
+export interface MfaLoginDto {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
@@ -0,0 +1,16 @@
+import { EmailTemplateType } from '../../domain/constants/email-templates';
+
+export interface UpdateEmailTemplateDto {
+  subject: string;
+  textBody: string;
+  htmlBody?: string | null;
+}
+
+export interface EmailTemplateResponseDto {
+  type: EmailTemplateType;
+  subject: string;
+  textBody: string;
+  htmlBody: string | null;
+  isDefault: boolean; // False when the tenant has its own version
+  updatedAt: Date | null;
+}
@@ -0,0 +1,36 @@
+import { InvitationStatus } from '../../domain/constants/invitations';
+
+export interface CreateInvitationDto {
+  email: string;
+  roleIds: string[];
+}
+
+export interface AcceptInvitationDto {
+  token: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface InvitationResponseDto {
+  id: string;
+  email: string;
+  roleIds: string[];
+  status: InvitationStatus;
+  expiresAt: Date;
+  acceptedAt: Date | null;
+  acceptedUserId: string | null;
+  revokedAt: Date | null;
+  invitedBy: string | null;
+  lastSentAt: Date;
+  createdAt: Date;
+}
+
+/**
+ * What the accept page may show before the invitee signs up
+ */
+export interface InvitationPreviewDto {
+  email: string;
+  tenantName: string;
+  expiresAt: Date;
+}
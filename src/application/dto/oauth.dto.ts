@@ -0,0 +1,74 @@
+export interface CreateOAuthClientDto {
+  name: string;
+  redirectUris: string[];
+  allowedScopes?: string[];
+  confidential?: boolean;
+}
+
+export interface OAuthClientResponseDto {
+  id: string;
+  clientId: string;
+  name: string;
+  redirectUris: string[];
+  allowedScopes: string[];
+  grantTypes: string[];
+  confidential: boolean;
+  createdAt: Date;
+}
+
+export interface CreatedOAuthClientResponseDto extends OAuthClientResponseDto {
+  clientSecret: string | null; // Shown only once
+}
+
+export interface AuthorizationRequestDto {
+  responseType: string;
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  state?: string;
+  codeChallenge: string;
+  codeChallengeMethod: string;
+  nonce?: string;
+}
+
+export interface AuthorizationResponseDto {
+  redirectUri: string;
+}
+
+export interface OAuthTokenRequestDto {
+  grantType: string;
+  clientId?: string;
+  clientSecret?: string;
+  code?: string;
+  redirectUri?: string;
+  codeVerifier?: string;
+  refreshToken?: string;
+  scope?: string;
+}
+
+// Field names follow RFC 6749 section 5.1
+export interface OAuthTokenResponseDto {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token?: string;
+  id_token?: string;
+  scope?: string;
+}
+
+export interface CreateServiceClientDto {
+  name: string;
+  roleIds: string[];
+}
+
+export interface ServiceClientResponseDto {
+  id: string;
+  clientId: string;
+  name: string;
+  roles: Array<{ id: string; name: string }>;
+  createdAt: Date;
+}
+
+export interface CreatedServiceClientResponseDto extends ServiceClientResponseDto {
+  clientSecret: string; // Shown only once
+}
@@ -0,0 +1,39 @@
+/**
+ * Effective password requirements, for frontends to show while a password is chosen
+ * Word lists are not exposed; they are checked when the password is submitted
+ */
+export interface PasswordRequirementsDto {
+  minLength: number;
+  maxLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSpecialChar: boolean;
+  allowedSpecialChars: string;
+  maxHistory: number;
+  expiryDays: number;
+  description: string;
+}
+
+/**
+ * Tenant settings; null fields inherit the global policy
+ */
+export interface PasswordPolicyOverridesDto {
+  minLength: number | null;
+  requireUppercase: boolean | null;
+  requireLowercase: boolean | null;
+  requireNumber: boolean | null;
+  requireSpecialChar: boolean | null;
+  maxHistory: number | null;
+  expiryDays: number | null;
+  bannedWords: string[];
+}
+
+export type UpdateTenantPasswordPolicyDto = Partial<PasswordPolicyOverridesDto>;
+
+export interface TenantPasswordPolicyResponseDto {
+  tenantId: string;
+  overrides: PasswordPolicyOverridesDto;
+  effective: PasswordRequirementsDto;
+  updatedAt: Date | null;
+}
@@ -0,0 +1,98 @@
+export interface CreateScimTokenDto {
+  name: string;
+  expiresAt?: string;
+}
+
+export interface ScimTokenResponseDto {
+  id: string;
+  name: string;
+  prefix: string;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreatedScimTokenResponseDto extends ScimTokenResponseDto {
+  token: string; // Shown only once
+  scimBaseUrl: string; // Configured at the identity provider together with the token
+}
+
+export interface ScimMeta {
+  resourceType: 'User' | 'Group';
+  created: string;
+  lastModified: string;
+  location: string;
+}
+
+export interface ScimMultiValue {
+  value: string;
+  display?: string;
+  type?: string;
+  primary?: boolean;
+  $ref?: string;
+}
+
+export interface ScimAddress {
+  type?: string;
+  streetAddress?: string;
+  locality?: string;
+  formatted?: string;
+  primary?: boolean;
+}
+
+/**
+ * Resources are plain JSON: clients may send attributes this service does not store, which are ignored
+ */
+export interface ScimUserResource {
+  schemas: string[];
+  id?: string;
+  externalId?: string;
+  userName: string;
+  name?: { givenName?: string; familyName?: string; formatted?: string };
+  displayName?: string;
+  active?: boolean;
+  password?: string;
+  emails?: ScimMultiValue[];
+  phoneNumbers?: ScimMultiValue[];
+  addresses?: ScimAddress[];
+  groups?: ScimMultiValue[];
+  meta?: ScimMeta;
+  [attribute: string]: unknown;
+}
+
+export interface ScimGroupResource {
+  schemas: string[];
+  id?: string;
+  externalId?: string;
+  displayName: string;
+  members?: ScimMultiValue[];
+  meta?: ScimMeta;
+  [attribute: string]: unknown;
+}
+
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
+export interface ScimListQuery {
+  filter?: string;
+  startIndex?: string;
+  count?: string;
+  excludedAttributes?: string;
+}
+
+export interface ScimPatchOperation {
+  op: string; // add, replace or remove; clients differ in case
+  path?: string;
+  value?: unknown;
+}
+
+export interface ScimPatchRequest {
+  schemas: string[];
+  Operations: ScimPatchOperation[];
+}
@@ -0,0 +1,8 @@
+export interface SessionResponseDto {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  current: boolean;
+}
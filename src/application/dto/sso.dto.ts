@@ -0,0 +1,115 @@
+import { OidcClaimMapping, SamlAttributeMapping, SsoProtocol } from '../../domain/constants/sso';
+
+/**
+ * Start of an SSO login; the state is bound to the browser before it is sent to the provider
+ */
+export interface SsoLoginStartDto {
+  redirectUrl: string;
+  // OIDC state or SAML AuthnRequest ID
+  state: string;
+}
+
+/**
+ * Settings the tenant registers at its identity provider
+ */
+export interface SamlServiceProviderDto {
+  entityId: string;
+  acsUrl: string;
+  metadataUrl: string;
+}
+
+export interface TenantSamlSettingsDto {
+  enabled: boolean;
+  idpEntityId: string;
+  idpSsoUrl: string;
+  idpCertificates: string[];
+  attributeMapping: SamlAttributeMapping;
+  jitProvisioning: boolean;
+  defaultRoleId: string | null;
+  disablePasswordLogin: boolean;
+  updatedAt: Date;
+}
+
+export interface TenantSamlConfigResponseDto {
+  tenantId: string;
+  serviceProvider: SamlServiceProviderDto;
+  // Where users of the tenant start an SSO login
+  loginUrl: string;
+  // null until the tenant configures its IdP
+  settings: TenantSamlSettingsDto | null;
+}
+
+/**
+ * IdP settings are read from idpMetadataXml when given, otherwise from the individual fields
+ * Omitted fields keep their value
+ */
+export interface UpdateTenantSamlConfigDto {
+  enabled?: boolean;
+  idpMetadataXml?: string;
+  idpEntityId?: string;
+  idpSsoUrl?: string;
+  idpCertificates?: string[];
+  attributeMapping?: Partial<SamlAttributeMapping>;
+  jitProvisioning?: boolean;
+  defaultRoleId?: string | null;
+  disablePasswordLogin?: boolean;
+}
+
+export interface TenantOidcConnectorResponseDto {
+  id: string;
+  tenantId: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  scopes: string[];
+  claimMapping: OidcClaimMapping;
+  enabled: boolean;
+  jitProvisioning: boolean;
+  defaultRoleId: string | null;
+  // Registered at the provider as the allowed redirect URI
+  redirectUri: string;
+  // Where users of the tenant start a login with this connector
+  loginUrl: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateTenantOidcConnectorDto {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes?: string[];
+  claimMapping?: Partial<OidcClaimMapping>;
+  enabled?: boolean;
+  jitProvisioning?: boolean;
+  defaultRoleId?: string | null;
+}
+
+/**
+ * Omitted fields keep their value; the client secret is only replaced when given
+ */
+export type UpdateTenantOidcConnectorDto = Partial<CreateTenantOidcConnectorDto>;
+
+/**
+ * SSO logins offered on a tenant's login page
+ */
+export interface SsoLoginOptionsDto {
+  saml: { loginUrl: string } | null;
+  oidc: { id: string; name: string; loginUrl: string }[];
+}
+
+export interface UserIdentityDto {
+  id: string;
+  protocol: SsoProtocol;
+  connectionId: string;
+  // Connector name, or "SAML" for the tenant's SAML identity provider
+  connectionName: string;
+  email: string | null;
+  createdAt: Date;
+  lastLoginAt: Date | null;
+}
+
+export interface SsoLoginCodeDto {
+  code: string;
+}
@@ -0,0 +1,33 @@
+export interface WebAuthnCredentialDto {
+  id: string;
+  name: string;
+  deviceType: string;
+  backedUp: boolean;
+  transports: string[];
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
+export interface WebAuthnRegistrationDto {
+  // Attestation response from navigator.credentials.create(), as JSON
+  response: unknown;
+  name?: string;
+}
+
+export interface WebAuthnLoginDto {
+  // Assertion response from navigator.credentials.get(), as JSON
+  response: unknown;
+}
+
+export interface WebAuthnMfaOptionsDto {
+  challengeToken: string;
+}
+
+export interface WebAuthnMfaLoginDto {
+  challengeToken: string;
+  response: unknown;
+}
+
+export interface RenameWebAuthnCredentialDto {
+  name: string;
+}
@@ -0,0 +1,72 @@
+import { AuditLogService } from '../audit-log.service';
+import { IAuditEventRepository } from '../../../domain/repositories/iaudit-event-repository';
+
+describe('AuditLogService', () => {
+  const auditEventRepository = { create: jest.fn() };
+  const service = new AuditLogService(auditEventRepository as unknown as IAuditEventRepository);
+  const context = { userAgent: 'Firefox', ipAddress: '10.0.0.1' };
+
+  beforeEach(() => jest.clearAllMocks());
+
+  describe('recordLogin', () => {
+    it('should record a successful login with its method', async () => {
+      await service.recordLogin({ id: 'user-1', tenantId: 'tenant-1' }, context, 'passkey');
+
+      expect(auditEventRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tenantId: 'tenant-1',
+          actorId: 'user-1',
+          actorType: 'user',
+          action: 'auth.login',
+          targetId: 'user-1',
+          ipAddress: '10.0.0.1',
+          outcome: 'success',
+          reason: undefined,
+          metadata: { method: 'passkey' },
+        })
+      );
+    });
+
+    it('should record a refused login as a failure with the reason', async () => {
+      await service.recordLogin({ id: 'user-1', tenantId: 'tenant-1' }, context, 'sso', 'account_unavailable');
+
+      expect(auditEventRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: 'failure', reason: 'account_unavailable', metadata: { method: 'sso' } })
+      );
+    });
+  });
+
+  describe('recordLoginResult', () => {
+    it('should record a step followed by a challenge as challenged, not as a login', async () => {
+      await service.recordLoginResult({ id: 'user-1', tenantId: 'tenant-1' }, context, 'password', {
+        status: 'mfa_required',
+        challengeToken: 'challenge',
+        methods: ['totp'],
+      });
+
+      expect(auditEventRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: 'challenged', reason: 'mfa_required', metadata: { method: 'password' } })
+      );
+    });
+
+    it('should record a step that issued tokens as a successful login', async () => {
+      await service.recordLoginResult({ id: 'user-1', tenantId: 'tenant-1' }, context, 'password', {
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        user: {
+          id: 'user-1',
+          email: 'john@example.com',
+          firstName: 'John',
+          lastName: 'Doe',
+          tenantId: 'tenant-1',
+          roles: [],
+          permissions: [],
+        },
+      });
+
+      expect(auditEventRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ outcome: 'success', reason: undefined, metadata: { method: 'password' } })
+      );
+    });
+  });
+});
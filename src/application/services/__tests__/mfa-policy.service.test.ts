@@ -0,0 +1,114 @@
+import { MfaPolicyService } from '../mfa-policy.service';
+import { AuthTokenService } from '../auth-token.service';
+import { ITenantSecuritySettingsRepository } from '../../../domain/repositories/itenant-security-settings-repository';
+import { IUserMfaRepository } from '../../../domain/repositories/iuser-mfa-repository';
+import { IWebAuthnCredentialRepository } from '../../../domain/repositories/iwebauthn-credential-repository';
+import { TenantSecuritySettingsEntity } from '../../../domain/entities/tenant-security-settings.entity';
+import { UserMfaEntity } from '../../../domain/entities/user-mfa.entity';
+import { UserEntity } from '../../../domain/entities/user.entity';
+import { MFA_POLICIES, MfaPolicy } from '../../../domain/constants/mfa-policies';
+import { ROLE_NAMES } from '../../../domain/constants/role-names';
+import { Email } from '../../../domain/value-objects/email';
+import { Password } from '../../../domain/value-objects/password';
+import { JwtService } from '../../../infrastructure/external/jwt.service';
+
+describe('MfaPolicyService', () => {
+  const tokens = { accessToken: 'access', refreshToken: 'refresh' };
+
+  const createUser = (overrides?: { tenantId?: string | null; isSuperAdmin?: boolean }) =>
+    new UserEntity(
+      'user-1',
+      new Email('john@example.com'),
+      new Password('hashedPassword', true),
+      'John',
+      'Doe',
+      overrides?.tenantId !== undefined ? overrides.tenantId : 'tenant-1',
+      overrides?.isSuperAdmin ?? false,
+      new Date(),
+      new Date()
+    );
+
+  const createService = (options: { policy: MfaPolicy; roles: string[]; totp?: boolean; passkeys?: number }) => {
+    const settings = TenantSecuritySettingsEntity.defaults('tenant-1');
+    const tenantSecuritySettingsRepository = {
+      findByTenantId: jest.fn().mockResolvedValue(
+        new TenantSecuritySettingsEntity('tenant-1', options.policy, false, settings.lockoutPolicy, false, null)
+      ),
+    };
+    const userMfaRepository = {
+      findByUserId: jest
+        .fn()
+        .mockResolvedValue(
+          options.totp ? new UserMfaEntity('mfa-1', 'user-1', 'SECRET', new Date(), null, new Date(), new Date()) : null
+        ),
+    };
+    const webAuthnCredentialRepository = { countByUserId: jest.fn().mockResolvedValue(options.passkeys ?? 0) };
+    const authTokenService = {
+      resolveRolesAndPermissions: jest.fn().mockResolvedValue({ roles: options.roles, permissions: [] }),
+      issueTokens: jest.fn().mockResolvedValue(tokens),
+    };
+
+    return new MfaPolicyService(
+      tenantSecuritySettingsRepository as unknown as ITenantSecuritySettingsRepository,
+      userMfaRepository as unknown as IUserMfaRepository,
+      webAuthnCredentialRepository as unknown as IWebAuthnCredentialRepository,
+      authTokenService as unknown as AuthTokenService
+    );
+  };
+
+  describe('isMfaRequired', () => {
+    it('should only apply the admins policy to admins', async () => {
+      const forAdmin = createService({ policy: MFA_POLICIES.ADMINS, roles: [ROLE_NAMES.ADMIN] });
+      const forEditor = createService({ policy: MFA_POLICIES.ADMINS, roles: ['editor'] });
+
+      await expect(forAdmin.isMfaRequired(createUser())).resolves.toBe(true);
+      await expect(forEditor.isMfaRequired(createUser())).resolves.toBe(false);
+    });
+
+    it('should apply the all policy to every member', async () => {
+      await expect(createService({ policy: MFA_POLICIES.ALL, roles: [] }).isMfaRequired(createUser())).resolves.toBe(true);
+    });
+
+    it('should exempt super admins from tenant policies', async () => {
+      const superAdmin = createUser({ tenantId: null, isSuperAdmin: true });
+
+      await expect(createService({ policy: MFA_POLICIES.ALL, roles: [] }).isMfaRequired(superAdmin)).resolves.toBe(false);
+    });
+  });
+
+  describe('completeLogin', () => {
+    it('should require enrollment when the policy applies and the user has no second factor', async () => {
+      const result = await createService({ policy: MFA_POLICIES.ADMINS, roles: [ROLE_NAMES.ADMIN] }).completeLogin(
+        createUser()
+      );
+
+      expect(result).toMatchObject({ status: 'mfa_enrollment_required' });
+      // The enrollment challenge cannot be used to answer an MFA challenge, and vice versa
+      const { challengeToken } = result as { challengeToken: string };
+      expect(JwtService.verifyMfaChallengeToken(challengeToken, 'mfa_enrollment')).toMatchObject({ userId: 'user-1' });
+      expect(() => JwtService.verifyMfaChallengeToken(challengeToken)).toThrow();
+    });
+
+    it('should issue tokens to users the admins policy does not cover', async () => {
+      await expect(
+        createService({ policy: MFA_POLICIES.ADMINS, roles: ['editor'] }).completeLogin(createUser())
+      ).resolves.toEqual(tokens);
+    });
+
+    it('should ask enrolled users for their second factor', async () => {
+      const result = await createService({ policy: MFA_POLICIES.OFF, roles: [], totp: true, passkeys: 1 }).completeLogin(
+        createUser()
+      );
+
+      expect(result).toMatchObject({ status: 'mfa_required', methods: ['totp', 'webauthn'] });
+    });
+
+    it('should issue tokens to super admins whatever the tenant policy', async () => {
+      const superAdmin = createUser({ tenantId: null, isSuperAdmin: true });
+
+      await expect(createService({ policy: MFA_POLICIES.ALL, roles: [] }).completeLogin(superAdmin)).resolves.toEqual(
+        tokens
+      );
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { OidcSsoService } from '../oidc-sso.service';
+import { IOidcProvider } from '../../../domain/services/ioidc-provider';
+import { ITenantOidcConnectorRepository } from '../../../domain/repositories/itenant-oidc-connector-repository';
+import { ISsoLoginRequestRepository } from '../../../domain/repositories/isso-login-request-repository';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { TenantOidcConnectorEntity } from '../../../domain/entities/tenant-oidc-connector.entity';
+import { DEFAULT_OIDC_CLAIM_MAPPING, SSO_PROTOCOLS } from '../../../domain/constants/sso';
+import { UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+import { ssoConfig } from '../../../infrastructure/config/sso.config';
+
+describe('OidcSsoService', () => {
+  const connector = new TenantOidcConnectorEntity(
+    'connector-1',
+    'tenant-1',
+    'Google',
+    'https://accounts.example.com',
+    'client-id',
+    'client-secret',
+    ['openid', 'email'],
+    DEFAULT_OIDC_CLAIM_MAPPING,
+    true,
+    true,
+    null,
+    new Date(),
+    new Date()
+  );
+  const request = {
+    state: 'state-1',
+    protocol: SSO_PROTOCOLS.OIDC,
+    tenantId: 'tenant-1',
+    connectionId: 'connector-1',
+    nonce: 'nonce-1',
+    codeVerifier: 'verifier-1',
+  };
+
+  let ssoLoginRequestRepository: { save: jest.Mock; consume: jest.Mock };
+  let oidcProvider: { createAuthorizationUrl: jest.Mock; exchangeCode: jest.Mock };
+  let service: OidcSsoService;
+
+  beforeEach(() => {
+    ssoLoginRequestRepository = {
+      save: jest.fn().mockResolvedValue(undefined),
+      consume: jest.fn().mockResolvedValue(request),
+    };
+    oidcProvider = {
+      createAuthorizationUrl: jest.fn().mockResolvedValue('https://accounts.example.com/authorize'),
+      exchangeCode: jest.fn().mockResolvedValue({ sub: 'subject-1', email: 'john@example.com' }),
+    };
+    let counter = 0;
+
+    service = new OidcSsoService(
+      oidcProvider as unknown as IOidcProvider,
+      { findById: jest.fn().mockResolvedValue(connector) } as unknown as ITenantOidcConnectorRepository,
+      ssoLoginRequestRepository as unknown as ISsoLoginRequestRepository,
+      { generate: jest.fn(() => `token-${++counter}`) } as unknown as ISecureTokenGenerator,
+      { ...ssoConfig, baseUrl: 'https://api.example.com' }
+    );
+  });
+
+  it('should hand the state of a new login to the browser', async () => {
+    const start = await service.startLogin(connector);
+
+    expect(start).toEqual({ redirectUrl: 'https://accounts.example.com/authorize', state: 'token-1' });
+    expect(ssoLoginRequestRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ state: 'token-1', tenantId: 'tenant-1', connectionId: 'connector-1' }),
+      expect.any(Date)
+    );
+  });
+
+  it('should accept a callback in the browser that started the login', async () => {
+    const result = await service.validateCallback({ state: 'state-1', code: 'code-1' }, 'state-1');
+
+    expect(result.profile.subject).toBe('subject-1');
+    expect(ssoLoginRequestRepository.consume).toHaveBeenCalledWith('state-1', SSO_PROTOCOLS.OIDC);
+  });
+
+  it.each([
+    ['without the state cookie', undefined],
+    ['with the state of another login', 'state-2'],
+  ])('should reject a callback %s and leave the request unclaimed', async (_case, browserState) => {
+    await expect(service.validateCallback({ state: 'state-1', code: 'code-1' }, browserState)).rejects.toThrow(
+      UnauthorizedException
+    );
+
+    expect(ssoLoginRequestRepository.consume).not.toHaveBeenCalled();
+    expect(oidcProvider.exchangeCode).not.toHaveBeenCalled();
+  });
+});
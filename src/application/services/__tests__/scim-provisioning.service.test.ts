@@ -0,0 +1,150 @@
+import { ScimProvisioningService } from '../scim-provisioning.service';
+import { PasswordPolicyService } from '../password-policy.service';
+import { PasswordHistoryService } from '../password-history.service';
+import { AuditLogService } from '../audit-log.service';
+import { IScimUserRepository, ScimUserRecord } from '../../../domain/repositories/iscim-user-repository';
+import { IScimGroupRepository } from '../../../domain/repositories/iscim-group-repository';
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IRoleRepository } from '../../../domain/repositories/irole-repository';
+import { IUserRoleRepository } from '../../../domain/repositories/iuser-role-repository';
+import { ISessionRepository } from '../../../domain/repositories/isession-repository';
+import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
+import { ITokenVersionRepository } from '../../../domain/repositories/itoken-version-repository';
+import { IPasswordDomainService } from '../../../domain/services/ipassword-domain.service';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { AdminLimitService } from '../../../domain/services/admin-limit.service';
+import { UserEntity } from '../../../domain/entities/user.entity';
+import { Email } from '../../../domain/value-objects/email';
+import { Password } from '../../../domain/value-objects/password';
+import { ROLE_NAMES } from '../../../domain/constants/role-names';
+import { BusinessRuleException, ValidationException } from '../../../domain/exceptions/domain-exceptions';
+
+describe('ScimProvisioningService', () => {
+  const record: ScimUserRecord = {
+    id: 'user-1',
+    tenantId: 'tenant-1',
+    externalId: 'ext-1',
+    email: 'john@example.com',
+    firstName: 'John',
+    lastName: 'Doe',
+    deletedAt: null,
+    profile: { companyName: null, mobileNo: null, phoneNo: null, city: null, address: null },
+    groups: [{ id: 'role-admin', name: ROLE_NAMES.ADMIN }],
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  const account = new UserEntity(
+    'user-1',
+    new Email('john@example.com'),
+    new Password('currentHash', true),
+    'John',
+    'Doe',
+    'tenant-1',
+    false,
+    new Date(),
+    new Date()
+  );
+  const input = (overrides: { active?: boolean; password?: string | null } = {}) => ({
+    user: {
+      externalId: record.externalId,
+      email: record.email,
+      firstName: record.firstName,
+      lastName: record.lastName,
+      profile: record.profile,
+    },
+    active: overrides.active ?? true,
+    password: overrides.password ?? null,
+  });
+
+  let scimUserRepository: { update: jest.Mock; findAccount: jest.Mock; findByExternalId: jest.Mock };
+  let userRepository: { countAdmins: jest.Mock; findByEmailOnly: jest.Mock };
+  let passwordDomainService: { comparePassword: jest.Mock; hashPassword: jest.Mock };
+  let passwordHistoryService: { assertNotReused: jest.Mock; recordChange: jest.Mock };
+  let service: ScimProvisioningService;
+
+  beforeEach(() => {
+    scimUserRepository = {
+      update: jest.fn(async (_id, _tenantId, user) => ({ ...record, deletedAt: user.deletedAt })),
+      findAccount: jest.fn().mockResolvedValue(account),
+      findByExternalId: jest.fn().mockResolvedValue(record),
+    };
+    userRepository = {
+      countAdmins: jest.fn().mockResolvedValue(1),
+      findByEmailOnly: jest.fn().mockResolvedValue({ id: record.id, email: record.email, tenantId: record.tenantId }),
+    };
+    passwordDomainService = {
+      comparePassword: jest.fn().mockResolvedValue(false),
+      hashPassword: jest.fn().mockResolvedValue('newHash'),
+    };
+    passwordHistoryService = {
+      assertNotReused: jest.fn().mockResolvedValue(undefined),
+      recordChange: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new ScimProvisioningService(
+      scimUserRepository as unknown as IScimUserRepository,
+      {} as IScimGroupRepository,
+      userRepository as unknown as IUserRepository,
+      {} as IRoleRepository,
+      {} as IUserRoleRepository,
+      { findActiveByUserId: jest.fn().mockResolvedValue([]) } as unknown as ISessionRepository,
+      { revokeFamily: jest.fn() } as unknown as ITokenRepository,
+      { increment: jest.fn().mockResolvedValue(undefined) } as unknown as ITokenVersionRepository,
+      new AdminLimitService(),
+      passwordDomainService as unknown as IPasswordDomainService,
+      { createPassword: jest.fn().mockResolvedValue(undefined) } as unknown as PasswordPolicyService,
+      passwordHistoryService as unknown as PasswordHistoryService,
+      { generate: jest.fn().mockReturnValue('random') } as unknown as ISecureTokenGenerator,
+      { record: jest.fn().mockResolvedValue(undefined) } as unknown as AuditLogService
+    );
+  });
+
+  describe('deprovisioning', () => {
+    it("should keep the tenant's last admin active", async () => {
+      await expect(service.deprovisionUser(record)).rejects.toThrow(BusinessRuleException);
+      await expect(service.updateUser(record, input({ active: false }))).rejects.toThrow(BusinessRuleException);
+
+      expect(scimUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should deprovision an admin while another one remains', async () => {
+      userRepository.countAdmins.mockResolvedValue(2);
+
+      await service.deprovisionUser(record);
+
+      expect(scimUserRepository.update).toHaveBeenCalledWith(
+        record.id,
+        record.tenantId,
+        expect.objectContaining({ deletedAt: expect.any(Date) })
+      );
+    });
+  });
+
+  describe('passwords', () => {
+    it('should remember the replaced password', async () => {
+      await service.updateUser(record, input({ password: 'NewPassword1!' }));
+
+      expect(passwordHistoryService.assertNotReused).toHaveBeenCalledWith(account, 'NewPassword1!');
+      expect(scimUserRepository.update).toHaveBeenCalledWith(record.id, record.tenantId, expect.any(Object), 'newHash');
+      expect(passwordHistoryService.recordChange).toHaveBeenCalledWith(account, 'currentHash');
+    });
+
+    it('should reject a recently used password', async () => {
+      passwordHistoryService.assertNotReused.mockRejectedValue(new ValidationException('Password was used recently'));
+
+      await expect(service.updateUser(record, input({ password: 'OldPassword1!' }))).rejects.toThrow(ValidationException);
+
+      expect(scimUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('should leave the password alone when a sync resends the current one', async () => {
+      passwordDomainService.comparePassword.mockResolvedValue(true);
+
+      await service.updateUser(record, input({ password: 'CurrentPassword1!' }));
+
+      expect(passwordHistoryService.assertNotReused).not.toHaveBeenCalled();
+      expect(scimUserRepository.update).toHaveBeenCalledWith(record.id, record.tenantId, expect.any(Object), undefined);
+      expect(passwordHistoryService.recordChange).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { IUserLockoutRepository } from '../../domain/repositories/iuser-lockout-repository';
+import { ITenantSecuritySettingsRepository } from '../../domain/repositories/itenant-security-settings-repository';
+import { UserEntity } from '../../domain/entities/user.entity';
+import { UserLockoutEntity } from '../../domain/entities/user-lockout.entity';
+import { DEFAULT_LOCKOUT_POLICY, LockoutPolicy } from '../../domain/constants/account-lockout';
+import { AccountLockedException } from '../../domain/exceptions/domain-exceptions';
+import { AccountLockedEvent } from '../../domain/events/account-locked.event';
+import { eventBus } from '../../infrastructure/events/event-bus';
+import { Logger } from '../../infrastructure/logging/logger';
+
+/**
+ * Application service that locks accounts after repeated failed logins
+ * Each consecutive lock lasts twice as long as the previous one, up to the tenant maximum
+ */
+export class AccountLockoutService {
+  constructor(
+    private userLockoutRepository: IUserLockoutRepository,
+    private tenantSecuritySettingsRepository: ITenantSecuritySettingsRepository
+  ) {}
+
+  /**
+   * Reject the login attempt if the account is locked
+   * @param user - The user logging in
+   * @returns The lockout state, null if the user has no failed attempts
+   */
+  async assertNotLocked(user: UserEntity): Promise<UserLockoutEntity | null> {
+    const lockout = await this.userLockoutRepository.findByUserId(user.id);
+
+    if (lockout?.isLocked()) {
+      Logger.warn('Login attempt on locked account', { userId: user.id });
+      throw new AccountLockedException(lockout.lockedUntil!);
+    }
+
+    return lockout;
+  }
+
+  /**
+   * Count a failed login, locking the account when the tenant threshold is reached
+   * @param user - The user whose password was wrong
+   * @throws AccountLockedException if this failure locked the account
+   */
+  async recordFailedLogin(user: UserEntity): Promise<void> {
+    const policy = await this.getPolicy(user);
+    if (policy.threshold === 0) {
+      return;
+    }
+
+    const lockout = await this.userLockoutRepository.recordFailure(user.id, new Date());
+    if (!lockout.shouldLock(policy)) {
+      return;
+    }
+
+    const lockedUntil = new Date(Date.now() + lockout.nextLockDurationSeconds(policy) * 1000);
+    const locked = await this.userLockoutRepository.lock(user.id, lockedUntil);
+
+    await eventBus.publish(new AccountLockedEvent(user.id, user.tenantId, lockedUntil, locked.lockCount));
+
+    throw new AccountLockedException(lockedUntil);
+  }
+
+  /**
+   * Clear failed attempts and the backoff after a successful login
+   * @param lockout - State returned by assertNotLocked
+   */
+  async recordSuccessfulLogin(lockout: UserLockoutEntity | null): Promise<void> {
+    if (lockout) {
+      await this.userLockoutRepository.reset(lockout.userId);
+    }
+  }
+
+  private async getPolicy(user: UserEntity): Promise<LockoutPolicy> {
+    if (!user.tenantId) {
+      return DEFAULT_LOCKOUT_POLICY;
+    }
+
+    const settings = await this.tenantSecuritySettingsRepository.findByTenantId(user.tenantId);
+    return settings.lockoutPolicy;
+  }
+}
@@ -0,0 +1,118 @@
+import { IAuditEventRepository } from '../../domain/repositories/iaudit-event-repository';
+import { AuditChanges } from '../../domain/entities/audit-event.entity';
+import { UserEntity } from '../../domain/entities/user.entity';
+import { LoginResponseDto } from '../dto/auth.dto';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTOR_TYPES,
+  AUDIT_OUTCOMES,
+  AUDIT_TARGET_TYPES,
+  AuditAction,
+  AuditLoginMethod,
+  AuditOutcome,
+} from '../../domain/constants/audit';
+import { AuditActor, ClientContext } from '../../shared/types';
+import { Logger } from '../../infrastructure/logging/logger';
+
+export interface AuditEntry {
+  action: AuditAction;
+  tenantId: string | null; // Tenant the action affected, which is not always the actor's (super admins)
+  targetType?: string;
+  targetId?: string;
+  changes?: AuditChanges | null;
+  outcome?: AuditOutcome; // Defaults to success
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+const SYSTEM_ACTOR: AuditActor = { actorId: null, actorType: AUDIT_ACTOR_TYPES.SYSTEM };
+
+/**
+ * Application service that writes the audit log
+ * Use cases call it after the action, so entries describe what actually happened rather than what was requested
+ */
+export class AuditLogService {
+  constructor(private auditEventRepository: IAuditEventRepository) {}
+
+  /**
+   * Write an audit event
+   * A failed write is logged, not thrown: the action has already been carried out
+   * @param actor - Who acted; omitted for actions the service takes by itself
+   */
+  async record(actor: AuditActor | undefined, entry: AuditEntry): Promise<void> {
+    const { actorId, actorType, ipAddress, userAgent } = actor ?? SYSTEM_ACTOR;
+
+    try {
+      await this.auditEventRepository.create({
+        tenantId: entry.tenantId,
+        actorId,
+        actorType,
+        action: entry.action,
+        targetType: entry.targetType,
+        targetId: entry.targetId,
+        changes: entry.changes,
+        ipAddress,
+        userAgent,
+        outcome: entry.outcome ?? AUDIT_OUTCOMES.SUCCESS,
+        reason: entry.reason,
+        metadata: entry.metadata,
+      });
+    } catch (error) {
+      Logger.error('Failed to write audit event', error, { action: entry.action, tenantId: entry.tenantId ?? undefined });
+    }
+  }
+
+  /**
+   * Audit a login attempt of a known user; attempts that match no user belong to no tenant and are only logged
+   * @param user - The user signing in (only the ID is needed for users that can no longer be loaded)
+   * @param method - How the user proved their identity
+   * @param failureReason - Why the login was refused; omitted when it succeeded
+   */
+  async recordLogin(
+    user: Pick<UserEntity, 'id' | 'tenantId'>,
+    context: ClientContext | undefined,
+    method: AuditLoginMethod,
+    failureReason?: string
+  ): Promise<void> {
+    await this.writeLogin(user, context, method, failureReason ? AUDIT_OUTCOMES.FAILURE : AUDIT_OUTCOMES.SUCCESS, failureReason);
+  }
+
+  /**
+   * Audit a login step the user passed
+   * A step that only leads to a challenge is recorded as "challenged" with the pending step, not as a login
+   * @param result - What the step returned: tokens, or the challenge of the next step
+   */
+  async recordLoginResult(
+    user: Pick<UserEntity, 'id' | 'tenantId'>,
+    context: ClientContext | undefined,
+    method: AuditLoginMethod,
+    result: LoginResponseDto
+  ): Promise<void> {
+    if ('challengeToken' in result) {
+      await this.writeLogin(user, context, method, AUDIT_OUTCOMES.CHALLENGED, result.status);
+    } else {
+      await this.writeLogin(user, context, method, AUDIT_OUTCOMES.SUCCESS);
+    }
+  }
+
+  private async writeLogin(
+    user: Pick<UserEntity, 'id' | 'tenantId'>,
+    context: ClientContext | undefined,
+    method: AuditLoginMethod,
+    outcome: AuditOutcome,
+    reason?: string
+  ): Promise<void> {
+    await this.record(
+      { ...context, actorId: user.id, actorType: AUDIT_ACTOR_TYPES.USER },
+      {
+        action: AUDIT_ACTIONS.LOGIN,
+        tenantId: user.tenantId,
+        targetType: AUDIT_TARGET_TYPES.USER,
+        targetId: user.id,
+        outcome,
+        reason,
+        metadata: { method },
+      }
+    );
+  }
+}
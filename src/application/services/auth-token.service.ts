@@ -0,0 +1,121 @@
+import { ITokenRepository } from '../../domain/repositories/itoken-repository';
+import { IUserRoleRepository } from '../../domain/repositories/iuser-role-repository';
+import { ISessionRepository } from '../../domain/repositories/isession-repository';
+import { ITokenVersionRepository } from '../../domain/repositories/itoken-version-repository';
+import { UserEntity } from '../../domain/entities/user.entity';
+import { JwtService } from '../../infrastructure/external/jwt.service';
+import { JwtPayload, ClientContext } from '../../shared/types';
+import { AuthResponseDto } from '../dto/auth.dto';
+import { ROLE_NAMES } from '../../domain/constants/role-names';
+
+/**
+ * Application service that issues the standard access/refresh token pair
+ * Shared by every flow that ends in a fully authenticated session
+ */
+export class AuthTokenService {
+  constructor(
+    private tokenRepository: ITokenRepository,
+    private userRoleRepository: IUserRoleRepository,
+    private sessionRepository: ISessionRepository,
+    private tokenVersionRepository: ITokenVersionRepository
+  ) {}
+
+  /**
+   * Resolve the role and permission names carried in the JWT payload
+   * @param user - The authenticated user
+   */
+  async resolveRolesAndPermissions(user: UserEntity): Promise<{ roles: string[]; permissions: string[] }> {
+    if (user.isSuperAdmin) {
+      // Super admin has all permissions
+      return { roles: [ROLE_NAMES.SUPER_ADMIN], permissions: ['*'] };
+    }
+
+    const userWithRoles = await this.userRoleRepository.getUserWithRoles(user.id);
+    if (!userWithRoles) {
+      return { roles: [], permissions: [] };
+    }
+
+    return {
+      roles: userWithRoles.roles.map((r) => r.name),
+      permissions: userWithRoles.roles.flatMap((r) => r.permissions.map((p) => p.name)),
+    };
+  }
+
+  /**
+   * Start a new session and issue its first token pair
+   * @param user - The authenticated user
+   * @param context - Client the session is created from
+   * @returns Auth response with tokens and user summary
+   */
+  async issueTokens(user: UserEntity, context?: ClientContext): Promise<AuthResponseDto> {
+    const session = await this.sessionRepository.create(user.id, context);
+    const result = await this.generateTokens(user, session.id);
+    await this.tokenRepository.save(result.refreshToken, user.id, this.getRefreshTokenExpiry(), session.id);
+    return result;
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair in the same session (token family)
+   * @param user - The token owner
+   * @param currentRefreshToken - The refresh token being exchanged
+   * @param sessionId - Session (token family) of the current refresh token
+   * @param context - Client making the request
+   * @returns Auth response, or null if the token had already been rotated
+   */
+  async rotateTokens(
+    user: UserEntity,
+    currentRefreshToken: string,
+    sessionId: string,
+    context?: ClientContext
+  ): Promise<AuthResponseDto | null> {
+    const result = await this.generateTokens(user, sessionId);
+    const rotated = await this.tokenRepository.rotate(
+      currentRefreshToken,
+      result.refreshToken,
+      this.getRefreshTokenExpiry()
+    );
+    if (!rotated) {
+      return null;
+    }
+
+    await this.sessionRepository.touch(sessionId, context);
+    return result;
+  }
+
+  private async generateTokens(user: UserEntity, sessionId: string): Promise<AuthResponseDto> {
+    const { roles, permissions } = await this.resolveRolesAndPermissions(user);
+
+    const jwtPayload: JwtPayload = {
+      userId: user.id,
+      tenantId: user.tenantId,
+      email: user.email.getValue(),
+      roles,
+      permissions,
+      isSuperAdmin: user.isSuperAdmin,
+      sessionId,
+    };
+
+    // Tokens carry the current version so a later bump revokes them
+    const tokenVersion = (await this.tokenVersionRepository.getVersion(user.id)) ?? 1;
+
+    return {
+      accessToken: JwtService.generateAccessToken(jwtPayload, tokenVersion),
+      refreshToken: JwtService.generateRefreshToken(jwtPayload, tokenVersion),
+      user: {
+        id: user.id,
+        email: user.email.getValue(),
+        firstName: user.firstName,
+        lastName: user.lastName,
+        tenantId: user.tenantId || '',
+        roles,
+        permissions,
+      },
+    };
+  }
+
+  private getRefreshTokenExpiry(): Date {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
+    return expiresAt;
+  }
+}
@@ -0,0 +1,75 @@
+import { ITokenRepository } from '../../domain/repositories/itoken-repository';
+import { ITenantRepository } from '../../domain/repositories/itenant-repository';
+import { UserEntity } from '../../domain/entities/user.entity';
+import { EMAIL_TEMPLATE_TYPES } from '../../domain/constants/email-templates';
+import { emailConfig } from '../../infrastructure/config/email.config';
+import { Logger } from '../../infrastructure/logging/logger';
+import { EmailService } from './email.service';
+
+/**
+ * Application service that issues email verification tokens and mails the verification link
+ */
+export class EmailVerificationService {
+  constructor(
+    private tokenRepository: ITokenRepository,
+    private tenantRepository: ITenantRepository,
+    private emailService: EmailService,
+    private config: typeof emailConfig = emailConfig
+  ) {}
+
+  /**
+   * Send a verification link for the user's current address
+   * Earlier links stay valid until they expire or the address is verified
+   * @returns false if the user asked for too many links recently (nothing is sent)
+   */
+  async sendVerification(user: UserEntity): Promise<boolean> {
+    if (await this.isThrottled(user.id)) {
+      Logger.warn('Email verification resend throttled', { userId: user.id });
+      return false;
+    }
+
+    const { tokenTtlSeconds } = this.config.verification;
+    const token = await this.tokenRepository.generateEmailVerificationToken(
+      user.id,
+      user.email.getValue(),
+      tokenTtlSeconds
+    );
+
+    const tenant = user.tenantId ? await this.tenantRepository.findById(user.tenantId) : null;
+    const verifyUrl = new URL(this.config.links.verifyEmail);
+    verifyUrl.searchParams.set('token', token);
+
+    await this.emailService.send(EMAIL_TEMPLATE_TYPES.EMAIL_VERIFICATION, {
+      to: user.email.getValue(),
+      tenantId: user.tenantId,
+      variables: {
+        firstName: user.firstName,
+        email: user.email.getValue(),
+        tenantName: tenant?.name,
+        verifyUrl: verifyUrl.toString(),
+        expiresInHours: Math.round(tokenTtlSeconds / 3600),
+      },
+    });
+
+    return true;
+  }
+
+  /**
+   * At most one link per cooldown period and maxPerHour links per hour
+   */
+  private async isThrottled(userId: string): Promise<boolean> {
+    const { resendCooldownSeconds, maxPerHour } = this.config.verification;
+    const now = Date.now();
+
+    const recent = await this.tokenRepository.countEmailVerificationTokensSince(
+      userId,
+      new Date(now - resendCooldownSeconds * 1000)
+    );
+    if (recent > 0) {
+      return true;
+    }
+
+    const lastHour = await this.tokenRepository.countEmailVerificationTokensSince(userId, new Date(now - 3600 * 1000));
+    return lastHour >= maxPerHour;
+  }
+}
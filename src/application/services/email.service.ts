@@ -0,0 +1,102 @@
+import { IEmailTemplateRepository } from '../../domain/repositories/iemail-template-repository';
+import { IEmailOutboxRepository } from '../../domain/repositories/iemail-outbox-repository';
+import { IMailTransport, MailMessage } from '../../domain/services/imail-transport';
+import { EmailTemplateType } from '../../domain/constants/email-templates';
+import { EmailTemplateVariables } from '../../domain/entities/email-template.entity';
+import { emailConfig } from '../../infrastructure/config/email.config';
+import { Logger } from '../../infrastructure/logging/logger';
+
+export interface SendEmailOptions {
+  to: string;
+  tenantId: string | null;
+  variables: EmailTemplateVariables;
+}
+
+/**
+ * Application service that renders the tenant's email templates and delivers them
+ * Failed sends are queued for retry instead of failing the calling request
+ */
+export class EmailService {
+  constructor(
+    private emailTemplateRepository: IEmailTemplateRepository,
+    private emailOutboxRepository: IEmailOutboxRepository,
+    private mailTransport: IMailTransport,
+    private config: typeof emailConfig = emailConfig
+  ) {}
+
+  async send(type: EmailTemplateType, options: SendEmailOptions): Promise<void> {
+    const template = await this.emailTemplateRepository.findEffective(options.tenantId, type);
+    // Users without a tenant (super admins) see the application name instead
+    const rendered = template.render({
+      ...options.variables,
+      appName: this.config.appName,
+      tenantName: options.variables.tenantName ?? this.config.appName,
+    });
+
+    const message: MailMessage = {
+      to: options.to,
+      subject: rendered.subject,
+      text: rendered.text,
+      html: rendered.html ?? undefined,
+    };
+
+    try {
+      await this.mailTransport.send(message);
+      Logger.info('Email sent', { type, tenantId: options.tenantId || undefined });
+    } catch (error) {
+      const reason = EmailService.describe(error);
+      await this.emailOutboxRepository.enqueue(message, reason, this.nextAttemptAt(1));
+      Logger.warn('Email delivery failed, queued for retry', {
+        type,
+        tenantId: options.tenantId || undefined,
+        error: reason,
+      });
+    }
+  }
+
+  /**
+   * Retry queued emails whose next attempt is due
+   * @returns Number of emails delivered
+   */
+  async processRetryQueue(now: Date = new Date()): Promise<number> {
+    const due = await this.emailOutboxRepository.findDue(now, this.config.retry.batchSize);
+    let delivered = 0;
+
+    for (const email of due) {
+      // Lease the email for two SMTP timeouts so concurrent workers do not send it twice
+      const leaseUntil = new Date(now.getTime() + this.config.smtp.timeoutMs * 2);
+      if (!(await this.emailOutboxRepository.claim(email.id, now, leaseUntil))) {
+        continue;
+      }
+
+      const attempts = email.attempts + 1;
+      try {
+        await this.mailTransport.send(email.message);
+        await this.emailOutboxRepository.markSent(email.id);
+        delivered++;
+      } catch (error) {
+        const reason = EmailService.describe(error);
+        if (attempts >= this.config.retry.maxAttempts) {
+          await this.emailOutboxRepository.markFailed(email.id, attempts, reason);
+          Logger.error('Email delivery failed permanently', error, { outboxId: email.id, attempts });
+        } else {
+          await this.emailOutboxRepository.reschedule(email.id, attempts, this.nextAttemptAt(attempts, now), reason);
+        }
+      }
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Exponential backoff: base delay, doubled after each failed attempt
+   */
+  private nextAttemptAt(attempts: number, now: Date = new Date()): Date {
+    const delaySeconds = this.config.retry.baseDelaySeconds * 2 ** (attempts - 1);
+    return new Date(now.getTime() + delaySeconds * 1000);
+  }
+
+  private static describe(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,103 @@
+import { ITenantSecuritySettingsRepository } from '../../domain/repositories/itenant-security-settings-repository';
+import { IUserMfaRepository } from '../../domain/repositories/iuser-mfa-repository';
+import { IWebAuthnCredentialRepository } from '../../domain/repositories/iwebauthn-credential-repository';
+import { MFA_METHODS, MfaMethod } from '../../domain/constants/mfa-policies';
+import { UserEntity } from '../../domain/entities/user.entity';
+import { AuthTokenService } from './auth-token.service';
+import { JwtService } from '../../infrastructure/external/jwt.service';
+import { LoginResponseDto } from '../dto/auth.dto';
+import { ClientContext } from '../../shared/types';
+import { Logger } from '../../infrastructure/logging/logger';
+
+/**
+ * Application service that evaluates the tenant MFA policy for a user
+ */
+export class MfaPolicyService {
+  constructor(
+    private tenantSecuritySettingsRepository: ITenantSecuritySettingsRepository,
+    private userMfaRepository: IUserMfaRepository,
+    private webAuthnCredentialRepository: IWebAuthnCredentialRepository,
+    private authTokenService: AuthTokenService
+  ) {}
+
+  /**
+   * Check if the user's tenant requires the user to use MFA
+   * Super admins are not tenant members, so tenant policies never apply to them
+   * @param user - The user to check
+   */
+  async isMfaRequired(user: UserEntity): Promise<boolean> {
+    if (user.isSuperAdmin || !user.tenantId) {
+      return false;
+    }
+
+    const settings = await this.tenantSecuritySettingsRepository.findByTenantId(user.tenantId);
+    const { roles } = await this.authTokenService.resolveRolesAndPermissions(user);
+
+    return settings.requiresMfa(roles);
+  }
+
+  /**
+   * List the second factors the user has set up
+   * Registered passkeys count as a second factor next to TOTP
+   * @param user - The user to check
+   */
+  async getSecondFactors(user: UserEntity): Promise<MfaMethod[]> {
+    const methods: MfaMethod[] = [];
+
+    const mfa = await this.userMfaRepository.findByUserId(user.id);
+    if (mfa?.isEnabled()) {
+      methods.push(MFA_METHODS.TOTP);
+    }
+    if ((await this.webAuthnCredentialRepository.countByUserId(user.id)) > 0) {
+      methods.push(MFA_METHODS.WEBAUTHN);
+    }
+
+    return methods;
+  }
+
+  /**
+   * Check if the user must enroll in MFA before getting a session
+   * @param user - The user to check
+   * @returns true if the policy requires MFA and the user has no second factor
+   */
+  async isEnrollmentRequired(user: UserEntity): Promise<boolean> {
+    if (!(await this.isMfaRequired(user))) {
+      return false;
+    }
+
+    return (await this.getSecondFactors(user)).length === 0;
+  }
+
+  /**
+   * Finish a login whose first step (password or login link) succeeded
+   * @param user - The authenticated user
+   * @param context - Client the session is created for
+   * @returns An MFA challenge when the user has to prove or enroll a second factor, tokens otherwise
+   */
+  async completeLogin(user: UserEntity, context?: ClientContext): Promise<LoginResponseDto> {
+    // Second factor required: hand out a short-lived challenge instead of tokens
+    const methods = await this.getSecondFactors(user);
+    if (methods.length > 0) {
+      Logger.info('MFA challenge issued', { userId: user.id, methods });
+      return {
+        status: 'mfa_required',
+        challengeToken: JwtService.generateMfaChallengeToken(user.id, user.tenantId),
+        methods,
+      };
+    }
+
+    // Tenant policy requires MFA but the user never enrolled: only allow the enrollment flow
+    if (await this.isMfaRequired(user)) {
+      Logger.info('MFA enrollment required by tenant policy', { userId: user.id });
+      return {
+        status: 'mfa_enrollment_required',
+        challengeToken: JwtService.generateMfaChallengeToken(user.id, user.tenantId, 'mfa_enrollment'),
+      };
+    }
+
+    const result = await this.authTokenService.issueTokens(user, context);
+    Logger.info('Tokens generated successfully', { userId: user.id });
+
+    return result;
+  }
+}
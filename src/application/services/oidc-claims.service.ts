@@ -0,0 +1,43 @@
+import { IUserRoleRepository } from '../../domain/repositories/iuser-role-repository';
+import { OIDC_SCOPES } from '../../domain/constants/oauth';
+
+export type OidcClaims = Record<string, unknown> & { sub: string };
+
+/**
+ * Application service that builds OpenID Connect claims from UserWithRoles
+ * Shared by ID tokens and the userinfo endpoint
+ */
+export class OidcClaimsService {
+  constructor(private userRoleRepository: IUserRoleRepository) {}
+
+  /**
+   * @param userId - Subject of the claims
+   * @param scopes - Granted scopes; profile and email claims are only included when granted
+   * @returns Claims, or null if the user no longer exists
+   */
+  async buildClaims(userId: string, scopes: string[]): Promise<OidcClaims | null> {
+    const user = await this.userRoleRepository.getUserWithRoles(userId);
+    if (!user) {
+      return null;
+    }
+
+    const claims: OidcClaims = {
+      sub: user.id,
+      tenant_id: user.tenantId,
+      roles: user.roles.map((role) => role.name),
+    };
+
+    if (scopes.includes(OIDC_SCOPES.PROFILE)) {
+      claims.name = `${user.firstName} ${user.lastName}`.trim();
+      claims.given_name = user.firstName;
+      claims.family_name = user.lastName;
+      claims.updated_at = Math.floor(user.updatedAt.getTime() / 1000);
+    }
+
+    if (scopes.includes(OIDC_SCOPES.EMAIL)) {
+      claims.email = user.email;
+    }
+
+    return claims;
+  }
+}
@@ -0,0 +1,127 @@
+import { ISsoLoginRequestRepository } from '../../domain/repositories/isso-login-request-repository';
+import { ITenantOidcConnectorRepository } from '../../domain/repositories/itenant-oidc-connector-repository';
+import { IOidcProvider } from '../../domain/services/ioidc-provider';
+import { ISecureTokenGenerator } from '../../domain/services/isecure-token-generator';
+import { TenantOidcConnectorEntity } from '../../domain/entities/tenant-oidc-connector.entity';
+import { SsoUserProfile } from '../../domain/entities/tenant-saml-config.entity';
+import { SSO_PROTOCOLS } from '../../domain/constants/sso';
+import { UnauthorizedException } from '../../domain/exceptions/domain-exceptions';
+import { ssoConfig } from '../../infrastructure/config/sso.config';
+import { Logger } from '../../infrastructure/logging/logger';
+import { SsoLoginStartDto } from '../dto/sso.dto';
+
+/**
+ * Result of a verified OIDC callback
+ */
+export interface OidcLoginResult {
+  connector: TenantOidcConnectorEntity;
+  profile: SsoUserProfile;
+  emailVerified: boolean;
+}
+
+/**
+ * Application service for the OpenID Connect relying party side of a tenant's connectors
+ * Every callback must answer a request started here (state) in the same browser, with the matching nonce and PKCE verifier
+ */
+export class OidcSsoService {
+  constructor(
+    private oidcProvider: IOidcProvider,
+    private tenantOidcConnectorRepository: ITenantOidcConnectorRepository,
+    private ssoLoginRequestRepository: ISsoLoginRequestRepository,
+    private secureTokenGenerator: ISecureTokenGenerator,
+    private config: typeof ssoConfig = ssoConfig
+  ) {}
+
+  /**
+   * Redirect URI registered at the provider; one URI serves every connector, the state identifies it
+   */
+  getRedirectUri(): string {
+    return `${this.config.baseUrl}/api/v1/auth/sso/oidc/callback`;
+  }
+
+  /**
+   * Public URL that starts a login with the connector
+   */
+  getLoginUrl(tenantSlug: string, connectorId: string): string {
+    const loginUrl = new URL(`${this.config.baseUrl}/api/v1/auth/sso/oidc/login`);
+    loginUrl.searchParams.set('tenantSlug', tenantSlug);
+    loginUrl.searchParams.set('connectorId', connectorId);
+    return loginUrl.toString();
+  }
+
+  /**
+   * Start an authorization request at the connector's provider
+   * @returns The provider URL to redirect the browser to, and the state the browser must present at the callback
+   */
+  async startLogin(connector: TenantOidcConnectorEntity): Promise<SsoLoginStartDto> {
+    const request = {
+      state: this.secureTokenGenerator.generate(),
+      nonce: this.secureTokenGenerator.generate(),
+      codeVerifier: this.secureTokenGenerator.generate(),
+    };
+    const expiresAt = new Date(Date.now() + this.config.requestTtlSeconds * 1000);
+    await this.ssoLoginRequestRepository.save(
+      {
+        ...request,
+        protocol: SSO_PROTOCOLS.OIDC,
+        tenantId: connector.tenantId,
+        connectionId: connector.id,
+      },
+      expiresAt
+    );
+
+    return {
+      redirectUrl: await this.oidcProvider.createAuthorizationUrl(connector, this.getRedirectUri(), request),
+      state: request.state,
+    };
+  }
+
+  /**
+   * Verify a callback from the provider and redeem its authorization code
+   * @param callbackParams - Query parameters of the callback
+   * @param browserState - State the browser kept when the login started
+   */
+  async validateCallback(callbackParams: Record<string, string>, browserState?: string): Promise<OidcLoginResult> {
+    // Otherwise an attacker could send a victim the callback of their own login (login CSRF)
+    if (!browserState || browserState !== callbackParams.state) {
+      Logger.warn('OIDC callback in a browser that did not start the login');
+      throw new UnauthorizedException('Invalid or expired SSO login');
+    }
+
+    // The request is claimed first, so a callback is processed at most once
+    const request = await this.ssoLoginRequestRepository.consume(callbackParams.state, SSO_PROTOCOLS.OIDC);
+    if (!request || !request.nonce || !request.codeVerifier) {
+      Logger.warn('OIDC callback for an unknown or expired request');
+      throw new UnauthorizedException('Invalid or expired SSO login');
+    }
+
+    if (callbackParams.error) {
+      Logger.warn('OIDC provider returned an error', {
+        tenantId: request.tenantId,
+        connectorId: request.connectionId,
+        error: callbackParams.error,
+      });
+      throw new UnauthorizedException('The identity provider did not complete the login');
+    }
+
+    const connector = await this.tenantOidcConnectorRepository.findById(request.connectionId, request.tenantId);
+    if (!connector?.enabled) {
+      throw new UnauthorizedException('Invalid or expired SSO login');
+    }
+
+    const claims = await this.oidcProvider.exchangeCode(connector, this.getRedirectUri(), callbackParams, {
+      state: request.state,
+      nonce: request.nonce,
+      codeVerifier: request.codeVerifier,
+    });
+    if (!claims || typeof claims.sub !== 'string') {
+      throw new UnauthorizedException('OIDC login could not be verified');
+    }
+
+    return {
+      connector,
+      profile: connector.mapProfile(claims),
+      emailVerified: connector.isEmailVerified(claims),
+    };
+  }
+}
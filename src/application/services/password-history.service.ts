@@ -0,0 +1,55 @@
+import { IPasswordHistoryRepository } from '../../domain/repositories/ipassword-history-repository';
+import { IPasswordDomainService } from '../../domain/services/ipassword-domain.service';
+import { UserEntity } from '../../domain/entities/user.entity';
+import { ValidationException } from '../../domain/exceptions/domain-exceptions';
+import { PasswordPolicyService } from './password-policy.service';
+
+/**
+ * Application service that enforces the password history of the user's tenant policy
+ * The last maxHistory passwords are the current one plus the maxHistory - 1 stored in the history
+ */
+export class PasswordHistoryService {
+  constructor(
+    private passwordHistoryRepository: IPasswordHistoryRepository,
+    private passwordDomainService: IPasswordDomainService,
+    private passwordPolicyService: PasswordPolicyService
+  ) {}
+
+  /**
+   * Reject a new password that matches one of the user's last passwords
+   * @param user - The user changing the password (still holding the current hash)
+   * @param newPassword - The new plain text password
+   * @throws ValidationException if the password was used recently
+   */
+  async assertNotReused(user: UserEntity, newPassword: string): Promise<void> {
+    const { maxHistory } = await this.passwordPolicyService.getEffectivePolicy(user.tenantId);
+    if (maxHistory <= 0) {
+      return;
+    }
+
+    const previous = await this.passwordHistoryRepository.findRecentHashes(user.id, maxHistory - 1);
+    const hashes = [user.getPassword().getValue(), ...previous];
+
+    for (const hash of hashes) {
+      if (await this.passwordDomainService.comparePassword(newPassword, hash)) {
+        throw new ValidationException('Password was used recently', [
+          `Password must differ from your last ${maxHistory} passwords`,
+        ]);
+      }
+    }
+  }
+
+  /**
+   * Remember the password that was just replaced
+   * @param user - The user whose password changed
+   * @param previousHash - Hash of the replaced password
+   */
+  async recordChange(user: UserEntity, previousHash: string): Promise<void> {
+    const { maxHistory } = await this.passwordPolicyService.getEffectivePolicy(user.tenantId);
+    if (maxHistory <= 1) {
+      return;
+    }
+
+    await this.passwordHistoryRepository.add(user.id, previousHash, maxHistory - 1);
+  }
+}
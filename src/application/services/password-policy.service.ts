@@ -0,0 +1,66 @@
+import { ITenantPasswordPolicyRepository } from '../../domain/repositories/itenant-password-policy-repository';
+import { IBreachedPasswordChecker } from '../../domain/services/ibreached-password-checker';
+import { ValidationException } from '../../domain/exceptions/domain-exceptions';
+import { Password } from '../../domain/value-objects/password';
+import { passwordPolicy, PasswordPolicy } from '../../config/password-policy.config';
+import { Logger } from '../../infrastructure/logging/logger';
+
+/**
+ * Application service that resolves the password policy of a tenant
+ * Tenant overrides apply on top of the global policy; users outside any tenant get the global policy
+ * New passwords are also checked against the breached password corpus when a checker is configured
+ */
+export class PasswordPolicyService {
+  constructor(
+    private tenantPasswordPolicyRepository: ITenantPasswordPolicyRepository,
+    private breachedPasswordChecker: IBreachedPasswordChecker | null = null
+  ) {}
+
+  /**
+   * @param tenantId - The tenant, null for users outside any tenant
+   * @returns The policy enforced for the tenant's users
+   */
+  async getEffectivePolicy(tenantId: string | null): Promise<PasswordPolicy> {
+    if (!tenantId) {
+      return passwordPolicy;
+    }
+
+    const tenantPolicy = await this.tenantPasswordPolicyRepository.findByTenantId(tenantId);
+    return tenantPolicy ? tenantPolicy.resolve() : passwordPolicy;
+  }
+
+  /**
+   * Validate a new plain text password against the tenant's policy and the breached password corpus
+   * @param password - The new password
+   * @param tenantId - Tenant of the user the password is for
+   * @throws ValidationException listing the unmet requirements, or if the password is known to be breached
+   */
+  async createPassword(password: string, tenantId: string | null): Promise<Password> {
+    const validated = new Password(password, false, await this.getEffectivePolicy(tenantId));
+    await this.assertNotBreached(password, tenantId);
+    return validated;
+  }
+
+  private async assertNotBreached(password: string, tenantId: string | null): Promise<void> {
+    if (!this.breachedPasswordChecker) {
+      return;
+    }
+
+    let breached: boolean;
+    try {
+      breached = await this.breachedPasswordChecker.isBreached(password);
+    } catch (error) {
+      // An unavailable corpus must not block password changes; the policy checks still applied
+      Logger.error('Breached password check failed, accepting the password', error as Error, {
+        tenantId: tenantId || undefined,
+      });
+      return;
+    }
+
+    if (breached) {
+      throw new ValidationException('Password validation failed', [
+        'This password has appeared in a data breach. Please choose a different password',
+      ]);
+    }
+  }
+}
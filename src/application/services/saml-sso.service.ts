@@ -0,0 +1,105 @@
+import { ISsoLoginRequestRepository } from '../../domain/repositories/isso-login-request-repository';
+import { ISamlProvider, SamlServiceProviderSettings } from '../../domain/services/isaml-provider';
+import { ISecureTokenGenerator } from '../../domain/services/isecure-token-generator';
+import { TenantSamlConfigEntity, SsoUserProfile } from '../../domain/entities/tenant-saml-config.entity';
+import { SSO_PROTOCOLS } from '../../domain/constants/sso';
+import { UnauthorizedException } from '../../domain/exceptions/domain-exceptions';
+import { ssoConfig } from '../../infrastructure/config/sso.config';
+import { Logger } from '../../infrastructure/logging/logger';
+import { SsoLoginStartDto } from '../dto/sso.dto';
+
+/**
+ * Application service for the SAML service provider side of a tenant
+ * Only SP-initiated logins are accepted: every response must answer a request sent from here, in the same browser
+ */
+export class SamlSsoService {
+  constructor(
+    private samlProvider: ISamlProvider,
+    private ssoLoginRequestRepository: ISsoLoginRequestRepository,
+    private secureTokenGenerator: ISecureTokenGenerator,
+    private config: typeof ssoConfig = ssoConfig
+  ) {}
+
+  /**
+   * Service provider settings the tenant registers at its IdP
+   * Built from the tenant ID rather than the slug, since slugs can change
+   */
+  getServiceProvider(tenantId: string): SamlServiceProviderSettings & { metadataUrl: string } {
+    const base = `${this.config.baseUrl}/api/v1/auth/sso/saml/${tenantId}`;
+    return {
+      entityId: `${base}/metadata`,
+      acsUrl: `${base}/acs`,
+      metadataUrl: `${base}/metadata`,
+    };
+  }
+
+  /**
+   * Public URL that starts an SSO login for the tenant's users
+   */
+  getLoginUrl(tenantSlug: string): string {
+    const loginUrl = new URL(`${this.config.baseUrl}/api/v1/auth/sso/saml/login`);
+    loginUrl.searchParams.set('tenantSlug', tenantSlug);
+    return loginUrl.toString();
+  }
+
+  generateMetadata(tenantId: string): string {
+    return this.samlProvider.generateMetadata(this.getServiceProvider(tenantId));
+  }
+
+  /**
+   * Send a new AuthnRequest to the tenant's IdP
+   * @returns The IdP URL to redirect the browser to, and the request ID the browser must present at the ACS
+   */
+  async startLogin(config: TenantSamlConfigEntity): Promise<SsoLoginStartDto> {
+    // xs:ID values must not start with a digit
+    const requestId = `_${this.secureTokenGenerator.generate()}`;
+    const expiresAt = new Date(Date.now() + this.config.requestTtlSeconds * 1000);
+    await this.ssoLoginRequestRepository.save(
+      { state: requestId, protocol: SSO_PROTOCOLS.SAML, tenantId: config.tenantId, connectionId: config.id },
+      expiresAt
+    );
+
+    return {
+      redirectUrl: await this.samlProvider.createLoginUrl(this.getServiceProvider(config.tenantId), config, requestId),
+      state: requestId,
+    };
+  }
+
+  /**
+   * Verify a SAMLResponse posted to the tenant's ACS URL
+   * @param browserState - Request ID the browser kept when the login started
+   * @returns The user profile after attribute mapping
+   */
+  async validateResponse(
+    config: TenantSamlConfigEntity,
+    samlResponse: string,
+    browserState?: string
+  ): Promise<SsoUserProfile> {
+    const requestId = this.samlProvider.readInResponseTo(samlResponse);
+
+    // Otherwise an attacker could post a response to their own login from the victim's browser (login CSRF)
+    if (!requestId || !browserState || browserState !== requestId) {
+      Logger.warn('SAML response in a browser that did not start the login', { tenantId: config.tenantId });
+      throw new UnauthorizedException('Invalid or expired SSO login');
+    }
+
+    // The request is claimed before the signature check, so a response is processed at most once
+    const request = await this.ssoLoginRequestRepository.consume(requestId, SSO_PROTOCOLS.SAML);
+    if (!request || request.tenantId !== config.tenantId || request.connectionId !== config.id) {
+      Logger.warn('SAML response for an unknown or expired request', { tenantId: config.tenantId });
+      throw new UnauthorizedException('Invalid or expired SSO login');
+    }
+
+    const assertion = await this.samlProvider.validateResponse(
+      this.getServiceProvider(config.tenantId),
+      config,
+      samlResponse,
+      requestId
+    );
+    if (!assertion) {
+      throw new UnauthorizedException('SAML response could not be verified');
+    }
+
+    return config.mapProfile(assertion.nameId, assertion.attributes);
+  }
+}
@@ -0,0 +1,184 @@
+import { ScimPath } from '../../domain/value-objects/scim-filter';
+import { SCIM_SCHEMAS, SCIM_ERROR_TYPES } from '../../domain/constants/scim';
+import { ScimException } from '../../domain/exceptions/domain-exceptions';
+import { ScimPatchOperation } from '../dto/scim.dto';
+
+type Resource = Record<string, unknown>;
+type PatchKind = 'add' | 'replace' | 'remove';
+
+const EXTENSION_SCHEMAS = [SCIM_SCHEMAS.ENTERPRISE_USER.toLowerCase()];
+
+const isObject = (value: unknown): value is Resource =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const findKey = (target: Resource, attribute: string): string =>
+  Object.keys(target).find((name) => name.toLowerCase() === attribute.toLowerCase()) ?? attribute;
+
+const itemValue = (item: unknown): unknown => (isObject(item) ? item[findKey(item, 'value')] : item);
+
+/**
+ * Applies SCIM PATCH operations (RFC 7644 section 3.5.2) to a resource
+ * The patched resource is then saved like a PUT, so PATCH and PUT share the same validation
+ */
+export class ScimPatchService {
+  /**
+   * @param resource - Current resource, as returned to clients
+   * @param body - PatchOp request body
+   * @param readOnly - Attributes clients cannot change (besides id and meta)
+   * @returns A patched copy of the resource
+   * @throws ScimException for malformed operations or paths
+   */
+  apply(resource: Resource, body: unknown, readOnly: string[] = []): Resource {
+    const operations = this.readOperations(body);
+    const result = JSON.parse(JSON.stringify(resource)) as Resource;
+    const protectedAttributes = ['id', 'meta', 'schemas', ...readOnly].map((name) => name.toLowerCase());
+
+    for (const operation of operations) {
+      const kind = String(operation.op ?? '').toLowerCase() as PatchKind;
+      if (!['add', 'replace', 'remove'].includes(kind)) {
+        throw new ScimException(SCIM_ERROR_TYPES.INVALID_SYNTAX, `Unsupported patch operation "${operation.op}"`);
+      }
+
+      if (operation.path) {
+        this.applyPath(result, kind, ScimPath.parse(operation.path), operation.value, protectedAttributes);
+        continue;
+      }
+
+      // Without a path the value holds the attributes to add or replace, keyed by (dotted) path
+      if (kind === 'remove') {
+        throw new ScimException(SCIM_ERROR_TYPES.NO_TARGET, 'A remove operation needs a path');
+      }
+      if (!isObject(operation.value)) {
+        throw new ScimException(SCIM_ERROR_TYPES.INVALID_VALUE, 'An operation without a path needs an object value');
+      }
+      for (const [key, value] of Object.entries(operation.value)) {
+        if (EXTENSION_SCHEMAS.includes(key.toLowerCase()) && isObject(value)) {
+          for (const [attribute, attributeValue] of Object.entries(value)) {
+            this.applyPath(result, kind, ScimPath.parse(`${key}:${attribute}`), attributeValue, protectedAttributes);
+          }
+        } else {
+          this.applyPath(result, kind, ScimPath.parse(key), value, protectedAttributes);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  private readOperations(body: unknown): ScimPatchOperation[] {
+    const schemas = isObject(body) ? body.schemas : undefined;
+    if (!Array.isArray(schemas) || !schemas.includes(SCIM_SCHEMAS.PATCH_OP)) {
+      throw new ScimException(SCIM_ERROR_TYPES.INVALID_SYNTAX, `Request body must use the ${SCIM_SCHEMAS.PATCH_OP} schema`);
+    }
+
+    const operations = (body as Resource)[findKey(body as Resource, 'Operations')];
+    if (!Array.isArray(operations) || operations.length === 0 || !operations.every(isObject)) {
+      throw new ScimException(SCIM_ERROR_TYPES.INVALID_SYNTAX, 'Operations must be a non-empty list');
+    }
+
+    return operations.map((operation) => ({
+      op: operation[findKey(operation, 'op')] as string,
+      path: operation[findKey(operation, 'path')] as string | undefined,
+      value: operation[findKey(operation, 'value')],
+    }));
+  }
+
+  private applyPath(resource: Resource, kind: PatchKind, path: ScimPath, value: unknown, readOnly: string[]): void {
+    if (!path.schema && readOnly.includes(path.attribute.toLowerCase())) {
+      throw new ScimException(SCIM_ERROR_TYPES.MUTABILITY, `${path.attribute} cannot be changed`);
+    }
+
+    let target = resource;
+    if (path.schema) {
+      const schemaKey = findKey(resource, path.schema);
+      if (!isObject(resource[schemaKey])) {
+        if (kind === 'remove') return;
+        resource[schemaKey] = {};
+      }
+      target = resource[schemaKey] as Resource;
+    }
+
+    const key = findKey(target, path.attribute);
+
+    if (path.valueFilter) {
+      this.applyToMatchingItems(target, key, kind, path, value);
+      return;
+    }
+
+    if (path.subAttribute) {
+      const parent = target[key];
+      if (kind === 'remove') {
+        if (isObject(parent)) delete parent[findKey(parent, path.subAttribute)];
+        return;
+      }
+      if (!isObject(parent)) target[key] = {};
+      const complex = target[key] as Resource;
+      complex[findKey(complex, path.subAttribute)] = value;
+      return;
+    }
+
+    const current = target[key];
+    if (kind === 'remove') {
+      // Removing listed items of a multi-valued attribute, e.g. members [{ value: "<user id>" }]
+      if (Array.isArray(current) && Array.isArray(value)) {
+        const removed = value.map(itemValue);
+        target[key] = current.filter((item) => !removed.includes(itemValue(item)));
+      } else {
+        delete target[key];
+      }
+      return;
+    }
+
+    if (kind === 'add' && Array.isArray(current)) {
+      const added = Array.isArray(value) ? value : [value];
+      const existing = current.map(itemValue);
+      target[key] = [...current, ...added.filter((item) => !existing.includes(itemValue(item)))];
+    } else if (isObject(current) && isObject(value)) {
+      // Sub-attributes of a complex attribute are merged for add and replace alike
+      for (const [attribute, attributeValue] of Object.entries(value)) {
+        current[findKey(current, attribute)] = attributeValue;
+      }
+    } else {
+      target[key] = value;
+    }
+  }
+
+  /**
+   * Operations on items selected by a value filter, e.g. emails[type eq "work"].value
+   * An add or replace that matches nothing creates the item when the filter only has eq comparisons
+   */
+  private applyToMatchingItems(target: Resource, key: string, kind: PatchKind, path: ScimPath, value: unknown): void {
+    const filter = path.valueFilter!;
+    const items = Array.isArray(target[key]) ? (target[key] as unknown[]) : [];
+    let matched = items.filter((item) => filter.matches(item)) as Resource[];
+
+    if (kind === 'remove') {
+      if (path.subAttribute) {
+        matched.forEach((item) => delete item[findKey(item, path.subAttribute!)]);
+      } else {
+        target[key] = items.filter((item) => !matched.includes(item as Resource));
+      }
+      return;
+    }
+
+    if (matched.length === 0) {
+      const required = filter.getRequiredValues();
+      if (!required) {
+        throw new ScimException(SCIM_ERROR_TYPES.NO_TARGET, `No value of ${path.attribute} matches the filter`);
+      }
+      const item: Resource = { ...required };
+      target[key] = [...items, item];
+      matched = [item];
+    }
+
+    for (const item of matched) {
+      if (path.subAttribute) {
+        item[findKey(item, path.subAttribute)] = value;
+      } else if (isObject(value)) {
+        Object.assign(item, value);
+      } else {
+        throw new ScimException(SCIM_ERROR_TYPES.INVALID_VALUE, `Values of ${path.attribute} must be objects`);
+      }
+    }
+  }
+}
@@ -0,0 +1,403 @@
+import { IScimUserRepository, ScimUserRecord } from '../../domain/repositories/iscim-user-repository';
+import { IScimGroupRepository, ScimGroupRecord } from '../../domain/repositories/iscim-group-repository';
+import { IUserRepository } from '../../domain/repositories/iuser-repository';
+import { IRoleRepository } from '../../domain/repositories/irole-repository';
+import { IUserRoleRepository } from '../../domain/repositories/iuser-role-repository';
+import { ISessionRepository } from '../../domain/repositories/isession-repository';
+import { ITokenRepository } from '../../domain/repositories/itoken-repository';
+import { ITokenVersionRepository } from '../../domain/repositories/itoken-version-repository';
+import { IPasswordDomainService } from '../../domain/services/ipassword-domain.service';
+import { ISecureTokenGenerator } from '../../domain/services/isecure-token-generator';
+import { AdminLimitService } from '../../domain/services/admin-limit.service';
+import { RoleEntity } from '../../domain/entities/role.entity';
+import { UserEntity } from '../../domain/entities/user.entity';
+import { ROLE_NAMES } from '../../domain/constants/role-names';
+import { SCIM_ERROR_TYPES } from '../../domain/constants/scim';
+import { ScimException } from '../../domain/exceptions/domain-exceptions';
+import { UserCreatedEvent } from '../../domain/events/user-created.event';
+import { eventBus } from '../../infrastructure/events/event-bus';
+import { Logger } from '../../infrastructure/logging/logger';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordHistoryService } from './password-history.service';
+import { AuditLogService } from './audit-log.service';
+import { AuditEventEntity } from '../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES, AuditAction } from '../../domain/constants/audit';
+import { AuditActor } from '../../shared/types';
+import { ScimUserInput, ScimGroupInput } from './scim-resource.service';
+import { v4 as uuidv4 } from 'uuid';
+
+const uniqueness = (detail: string) => new ScimException(SCIM_ERROR_TYPES.UNIQUENESS, detail, 409);
+
+const userSnapshot = (user: ScimUserRecord) => ({
+  email: user.email,
+  externalId: user.externalId,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  profile: user.profile,
+  active: !user.deletedAt,
+});
+
+const groupSnapshot = (group: ScimGroupRecord) => ({
+  name: group.name,
+  externalId: group.externalId,
+  memberIds: group.members.map((member) => member.id).sort(),
+});
+
+/**
+ * Application service that writes users and roles on behalf of a tenant's SCIM client
+ *
+ * Business Rules:
+ * - userName (the email) is unique across tenants, externalId within the tenant
+ * - Deactivating or deleting a user only deprovisions it (deletedAt); its sessions and tokens are revoked
+ * - The tenant's last admin cannot be deprovisioned
+ * - Passwords follow the tenant's password policy and history, like passwords set through the API
+ * - The tenant's directory vouches for email addresses, so provisioned users count as verified
+ * - The admin role cannot be renamed or deleted, and keeps between one and the maximum number of admins
+ */
+export class ScimProvisioningService {
+  constructor(
+    private scimUserRepository: IScimUserRepository,
+    private scimGroupRepository: IScimGroupRepository,
+    private userRepository: IUserRepository,
+    private roleRepository: IRoleRepository,
+    private userRoleRepository: IUserRoleRepository,
+    private sessionRepository: ISessionRepository,
+    private tokenRepository: ITokenRepository,
+    private tokenVersionRepository: ITokenVersionRepository,
+    private adminLimitService: AdminLimitService,
+    private passwordDomainService: IPasswordDomainService,
+    private passwordPolicyService: PasswordPolicyService,
+    private passwordHistoryService: PasswordHistoryService,
+    private secureTokenGenerator: ISecureTokenGenerator,
+    private auditLogService: AuditLogService
+  ) {}
+
+  async createUser(tenantId: string, input: ScimUserInput, actor?: AuditActor): Promise<ScimUserRecord> {
+    await this.assertUserUnique(tenantId, input, null);
+
+    // Without a password the user signs in through SSO or sets one with a password reset
+    const hashedPassword = input.password
+      ? await this.hashPassword(input.password, tenantId)
+      : await this.passwordDomainService.hashPassword(this.secureTokenGenerator.generate());
+
+    const now = new Date();
+    const user = await this.scimUserRepository.create(
+      tenantId,
+      { ...input.user, deletedAt: input.active ? null : now },
+      hashedPassword,
+      now
+    );
+
+    Logger.info('User provisioned by SCIM', { userId: user.id, tenantId, active: input.active });
+
+    if (input.active) {
+      await eventBus.publish(new UserCreatedEvent(user.id, user.email, tenantId, false));
+    }
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.USER_CREATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.USER,
+      targetId: user.id,
+      changes: AuditEventEntity.diff(null, userSnapshot(user)),
+    });
+
+    return user;
+  }
+
+  /**
+   * Save the full set of attributes of an existing user (PUT, or the result of a PATCH)
+   */
+  async updateUser(current: ScimUserRecord, input: ScimUserInput, actor?: AuditActor): Promise<ScimUserRecord> {
+    await this.assertUserUnique(current.tenantId, input, current.id);
+    if (!current.deletedAt && !input.active) {
+      await this.assertNotLastAdmin(current);
+    }
+
+    const account = input.password ? await this.scimUserRepository.findAccount(current.id, current.tenantId) : null;
+    const hashedPassword = account ? await this.hashNewPassword(account, input.password!) : undefined;
+    const deletedAt = input.active ? null : current.deletedAt ?? new Date();
+    const user = await this.scimUserRepository.update(
+      current.id,
+      current.tenantId,
+      { ...input.user, deletedAt },
+      hashedPassword
+    );
+    if (account && hashedPassword) {
+      await this.passwordHistoryService.recordChange(account, account.getPassword().getValue());
+    }
+
+    let action: AuditAction = AUDIT_ACTIONS.USER_UPDATED;
+    if (!current.deletedAt && deletedAt) {
+      await this.revokeAccess(user.id);
+      action = AUDIT_ACTIONS.USER_DEPROVISIONED;
+      Logger.info('User deprovisioned by SCIM', { userId: user.id, tenantId: current.tenantId });
+    } else if (current.deletedAt && !deletedAt) {
+      action = AUDIT_ACTIONS.USER_REACTIVATED;
+      Logger.info('User reactivated by SCIM', { userId: user.id, tenantId: current.tenantId });
+    } else if (hashedPassword) {
+      await this.tokenVersionRepository.increment(user.id);
+    }
+
+    // Identity providers resend unchanged users on every sync; only real changes are audited
+    const changes = AuditEventEntity.diff(userSnapshot(current), {
+      ...userSnapshot(user),
+      ...(hashedPassword && { password: hashedPassword }),
+    });
+    if (changes) {
+      await this.auditLogService.record(actor, {
+        action,
+        tenantId: current.tenantId,
+        targetType: AUDIT_TARGET_TYPES.USER,
+        targetId: user.id,
+        changes,
+      });
+    }
+
+    return user;
+  }
+
+  /**
+   * DELETE is a soft deprovisioning: the user keeps its row and can be reactivated with active=true
+   */
+  async deprovisionUser(current: ScimUserRecord, actor?: AuditActor): Promise<void> {
+    if (current.deletedAt) return;
+    await this.assertNotLastAdmin(current);
+
+    await this.scimUserRepository.update(current.id, current.tenantId, {
+      externalId: current.externalId,
+      email: current.email,
+      firstName: current.firstName,
+      lastName: current.lastName,
+      profile: current.profile,
+      deletedAt: new Date(),
+    });
+    await this.revokeAccess(current.id);
+
+    Logger.info('User deprovisioned by SCIM', { userId: current.id, tenantId: current.tenantId });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.USER_DEPROVISIONED,
+      tenantId: current.tenantId,
+      targetType: AUDIT_TARGET_TYPES.USER,
+      targetId: current.id,
+      changes: AuditEventEntity.diff({ active: true }, { active: false }),
+    });
+  }
+
+  async createGroup(tenantId: string, input: ScimGroupInput, actor?: AuditActor): Promise<ScimGroupRecord> {
+    if (await this.roleRepository.findByName(input.displayName, tenantId)) {
+      throw uniqueness(`A group named ${input.displayName} already exists`);
+    }
+    await this.assertGroupExternalIdUnique(tenantId, input.externalId, null);
+
+    const now = new Date();
+    const role = await this.roleRepository.create(new RoleEntity(uuidv4(), input.displayName, null, tenantId, now, now));
+    if (input.externalId) {
+      await this.scimGroupRepository.setExternalId(role.id, tenantId, input.externalId);
+    }
+
+    await this.changeMembers(role.id, role.name, tenantId, [], input.memberIds);
+
+    Logger.info('Role provisioned by SCIM', { roleId: role.id, tenantId, members: input.memberIds.length });
+
+    const group = (await this.scimGroupRepository.findById(role.id, tenantId))!;
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.ROLE_CREATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.ROLE,
+      targetId: role.id,
+      changes: AuditEventEntity.diff(null, groupSnapshot(group)),
+    });
+
+    return group;
+  }
+
+  /**
+   * Save the full set of attributes of an existing group (PUT, or the result of a PATCH)
+   * @param current - Group with its members
+   */
+  async updateGroup(current: ScimGroupRecord, input: ScimGroupInput, actor?: AuditActor): Promise<ScimGroupRecord> {
+    const tenantId = current.tenantId;
+
+    if (input.displayName !== current.name) {
+      if (current.name === ROLE_NAMES.ADMIN) {
+        throw new ScimException(SCIM_ERROR_TYPES.MUTABILITY, 'The admin group cannot be renamed');
+      }
+      if (await this.roleRepository.findByName(input.displayName, tenantId)) {
+        throw uniqueness(`A group named ${input.displayName} already exists`);
+      }
+
+      const role = await this.roleRepository.findById(current.id, tenantId);
+      if (role) {
+        await this.roleRepository.update(
+          new RoleEntity(role.id, input.displayName, role.description, tenantId, role.createdAt, new Date(), role.permissionIds)
+        );
+      }
+    }
+
+    if (input.externalId !== current.externalId) {
+      await this.assertGroupExternalIdUnique(tenantId, input.externalId, current.id);
+      await this.scimGroupRepository.setExternalId(current.id, tenantId, input.externalId);
+    }
+
+    await this.changeMembers(
+      current.id,
+      current.name,
+      tenantId,
+      current.members.map((member) => member.id),
+      input.memberIds
+    );
+
+    const group = (await this.scimGroupRepository.findById(current.id, tenantId))!;
+    const changes = AuditEventEntity.diff(groupSnapshot(current), groupSnapshot(group));
+    if (changes) {
+      const membersOnly = Object.keys(changes.after).every((field) => field === 'memberIds');
+      await this.auditLogService.record(actor, {
+        action: membersOnly ? AUDIT_ACTIONS.ROLE_MEMBERS_CHANGED : AUDIT_ACTIONS.ROLE_UPDATED,
+        tenantId,
+        targetType: AUDIT_TARGET_TYPES.ROLE,
+        targetId: current.id,
+        changes,
+      });
+    }
+
+    return group;
+  }
+
+  /**
+   * Roles are deleted for real: SCIM groups have no deactivated state
+   */
+  async deleteGroup(current: ScimGroupRecord, actor?: AuditActor): Promise<void> {
+    if (current.name === ROLE_NAMES.ADMIN) {
+      throw new ScimException(SCIM_ERROR_TYPES.MUTABILITY, 'The admin group cannot be deleted');
+    }
+
+    await this.roleRepository.delete(current.id, current.tenantId);
+    for (const member of current.members) {
+      await this.tokenVersionRepository.increment(member.id);
+    }
+
+    Logger.info('Role deleted by SCIM', { roleId: current.id, tenantId: current.tenantId });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.ROLE_DELETED,
+      tenantId: current.tenantId,
+      targetType: AUDIT_TARGET_TYPES.ROLE,
+      targetId: current.id,
+      changes: AuditEventEntity.diff(groupSnapshot(current), null),
+    });
+  }
+
+  /**
+   * Give the role to exactly the given users
+   * Access tokens carry roles, so the tokens of every added or removed member are revoked
+   */
+  private async changeMembers(
+    roleId: string,
+    roleName: string,
+    tenantId: string,
+    currentIds: string[],
+    memberIds: string[]
+  ): Promise<void> {
+    const toAdd = memberIds.filter((id) => !currentIds.includes(id));
+    const toRemove = currentIds.filter((id) => !memberIds.includes(id));
+
+    if (toAdd.length > 0) {
+      const known = await this.scimGroupRepository.findTenantUserIds(toAdd, tenantId);
+      const unknown = toAdd.filter((id) => !known.includes(id));
+      if (unknown.length > 0) {
+        throw new ScimException(SCIM_ERROR_TYPES.INVALID_VALUE, `Unknown members: ${unknown.join(', ')}`);
+      }
+    }
+
+    while (toAdd.length > 0 || toRemove.length > 0) {
+      let userId: string;
+      let add: boolean;
+
+      if (roleName === ROLE_NAMES.ADMIN) {
+        // Swap admins one by one so the tenant never has too many or no admins in between
+        const adminCount = await this.userRepository.countAdmins(tenantId);
+        add = toRemove.length === 0 || (toAdd.length > 0 && adminCount <= 1);
+        if (add) {
+          await this.adminLimitService.validateAdminLimit(tenantId, this.userRepository);
+        } else {
+          await this.adminLimitService.validateNotLastAdmin(tenantId, this.userRepository);
+        }
+      } else {
+        add = toAdd.length > 0;
+      }
+
+      if (add) {
+        userId = toAdd.shift()!;
+        await this.userRoleRepository.assignRoles(userId, [roleId]);
+      } else {
+        userId = toRemove.shift()!;
+        await this.userRoleRepository.removeRoles(userId, [roleId]);
+      }
+      await this.tokenVersionRepository.increment(userId);
+    }
+  }
+
+  private async assertUserUnique(tenantId: string, input: ScimUserInput, currentId: string | null): Promise<void> {
+    const existing = await this.userRepository.findByEmailOnly(input.user.email);
+    if (existing && existing.id !== currentId) {
+      throw uniqueness('userName is already in use');
+    }
+
+    if (input.user.externalId) {
+      const byExternalId = await this.scimUserRepository.findByExternalId(input.user.externalId, tenantId);
+      if (byExternalId && byExternalId.id !== currentId) {
+        throw uniqueness('externalId is already in use');
+      }
+    }
+  }
+
+  private async assertGroupExternalIdUnique(tenantId: string, externalId: string | null, currentId: string | null): Promise<void> {
+    if (!externalId) return;
+
+    const existing = await this.scimGroupRepository.findByExternalId(externalId, tenantId);
+    if (existing && existing.id !== currentId) {
+      throw uniqueness('externalId is already in use');
+    }
+  }
+
+  private async hashPassword(password: string, tenantId: string): Promise<string> {
+    await this.passwordPolicyService.createPassword(password, tenantId);
+    return this.passwordDomainService.hashPassword(password);
+  }
+
+  /**
+   * Hash the password sent for an existing user, which must not be one of its last passwords
+   * @returns undefined when the client resends the current password, as identity providers do on every sync
+   */
+  private async hashNewPassword(user: UserEntity, password: string): Promise<string | undefined> {
+    if (await this.passwordDomainService.comparePassword(password, user.getPassword().getValue())) {
+      return undefined;
+    }
+
+    await this.passwordPolicyService.createPassword(password, user.tenantId);
+    await this.passwordHistoryService.assertNotReused(user, password);
+    return this.passwordDomainService.hashPassword(password);
+  }
+
+  /**
+   * A deprovisioned admin no longer counts as one, so the tenant's last admin stays active
+   */
+  private async assertNotLastAdmin(user: ScimUserRecord): Promise<void> {
+    if (user.groups.some((group) => group.name === ROLE_NAMES.ADMIN)) {
+      await this.adminLimitService.validateNotLastAdmin(user.tenantId, this.userRepository);
+    }
+  }
+
+  /**
+   * End every session of a deprovisioned user and revoke its access tokens
+   */
+  private async revokeAccess(userId: string): Promise<void> {
+    const sessions = await this.sessionRepository.findActiveByUserId(userId);
+    for (const session of sessions) {
+      await this.tokenRepository.revokeFamily(session.id);
+    }
+    await this.tokenVersionRepository.increment(userId);
+  }
+}
@@ -0,0 +1,305 @@
+import { ScimUserRecord, SaveScimUser } from '../../domain/repositories/iscim-user-repository';
+import { ScimGroupRecord } from '../../domain/repositories/iscim-group-repository';
+import { ScimFilter } from '../../domain/value-objects/scim-filter';
+import { Email } from '../../domain/value-objects/email';
+import { SCIM_SCHEMAS, SCIM_ERROR_TYPES, SCIM_DEFAULT_PAGE_SIZE } from '../../domain/constants/scim';
+import { ScimException } from '../../domain/exceptions/domain-exceptions';
+import { scimConfig } from '../../infrastructure/config/scim.config';
+import {
+  ScimUserResource,
+  ScimGroupResource,
+  ScimListResponse,
+  ScimListQuery,
+  ScimMultiValue,
+} from '../dto/scim.dto';
+
+export interface ScimUserInput {
+  user: Omit<SaveScimUser, 'deletedAt'>;
+  active: boolean;
+  password: string | null;
+}
+
+export interface ScimGroupInput {
+  displayName: string;
+  externalId: string | null;
+  memberIds: string[];
+}
+
+export interface ScimListOptions {
+  filter: ScimFilter | null;
+  startIndex: number;
+  count: number;
+  includeMembers: boolean;
+}
+
+const invalidValue = (detail: string) => new ScimException(SCIM_ERROR_TYPES.INVALID_VALUE, detail);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Read an attribute of a client resource; attribute names are case-insensitive (RFC 7643 section 2.1)
+ */
+function read(resource: unknown, attribute: string): unknown {
+  if (!isObject(resource)) return undefined;
+  const key = Object.keys(resource).find((name) => name.toLowerCase() === attribute.toLowerCase());
+  return key === undefined ? undefined : resource[key];
+}
+
+function readString(resource: unknown, attribute: string): string | null {
+  const value = read(resource, attribute);
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') {
+    throw invalidValue(`${attribute} must be a string`);
+  }
+  return value.trim() || null;
+}
+
+function readItems(resource: unknown, attribute: string): Record<string, unknown>[] {
+  const value = read(resource, attribute);
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || !value.every(isObject)) {
+    throw invalidValue(`${attribute} must be a list of objects`);
+  }
+  return value;
+}
+
+/**
+ * Pick the item of a multi-valued attribute with the given type, then the primary one, then the first
+ */
+function pickItem(items: Record<string, unknown>[], type?: string): Record<string, unknown> | undefined {
+  const ofType = (item: Record<string, unknown>) => String(read(item, 'type') ?? '').toLowerCase() === type;
+  return (type ? items.find(ofType) : undefined) ?? items.find((item) => read(item, 'primary') === true) ?? items[0];
+}
+
+/**
+ * Maps tenant users and roles to SCIM User and Group resources and back
+ *
+ * User mapping: userName is the email address; name, phone numbers (mobile and work), the first address and
+ * the enterprise extension's organization map to the user and its profile. active is false once deprovisioned.
+ * Group mapping: displayName is the role name; members are the users holding the role.
+ */
+export class ScimResourceService {
+  constructor(private config: typeof scimConfig = scimConfig) {}
+
+  /**
+   * Base URL the tenant's identity provider is configured with
+   */
+  getBaseUrl(): string {
+    return `${this.config.baseUrl}/scim/v2`;
+  }
+
+  toUserResource(record: ScimUserRecord): ScimUserResource {
+    const base = this.getBaseUrl();
+    const fullName = `${record.firstName} ${record.lastName}`.trim();
+    const phoneNumbers: ScimMultiValue[] = [];
+    if (record.profile.mobileNo) phoneNumbers.push({ value: record.profile.mobileNo, type: 'mobile' });
+    if (record.profile.phoneNo) phoneNumbers.push({ value: record.profile.phoneNo, type: 'work' });
+
+    return {
+      schemas: record.profile.companyName ? [SCIM_SCHEMAS.USER, SCIM_SCHEMAS.ENTERPRISE_USER] : [SCIM_SCHEMAS.USER],
+      id: record.id,
+      ...(record.externalId && { externalId: record.externalId }),
+      userName: record.email,
+      name: { givenName: record.firstName, familyName: record.lastName, formatted: fullName },
+      displayName: fullName,
+      active: record.deletedAt === null,
+      emails: [{ value: record.email, type: 'work', primary: true }],
+      ...(phoneNumbers.length > 0 && { phoneNumbers }),
+      ...((record.profile.address || record.profile.city) && {
+        addresses: [
+          {
+            type: 'work',
+            ...(record.profile.address && { streetAddress: record.profile.address }),
+            ...(record.profile.city && { locality: record.profile.city }),
+            primary: true,
+          },
+        ],
+      }),
+      groups: record.groups.map((group) => ({
+        value: group.id,
+        display: group.name,
+        $ref: `${base}/Groups/${group.id}`,
+      })),
+      ...(record.profile.companyName && {
+        [SCIM_SCHEMAS.ENTERPRISE_USER]: { organization: record.profile.companyName },
+      }),
+      meta: {
+        resourceType: 'User',
+        created: record.createdAt.toISOString(),
+        lastModified: record.updatedAt.toISOString(),
+        location: `${base}/Users/${record.id}`,
+      },
+    };
+  }
+
+  /**
+   * @param includeMembers - false when the client excluded the members attribute
+   */
+  toGroupResource(record: ScimGroupRecord, includeMembers: boolean = true): ScimGroupResource {
+    const base = this.getBaseUrl();
+
+    return {
+      schemas: [SCIM_SCHEMAS.GROUP],
+      id: record.id,
+      ...(record.externalId && { externalId: record.externalId }),
+      displayName: record.name,
+      ...(includeMembers && {
+        members: record.members.map((member) => ({
+          value: member.id,
+          display: member.email,
+          $ref: `${base}/Users/${member.id}`,
+        })),
+      }),
+      meta: {
+        resourceType: 'Group',
+        created: record.createdAt.toISOString(),
+        lastModified: record.updatedAt.toISOString(),
+        location: `${base}/Groups/${record.id}`,
+      },
+    };
+  }
+
+  /**
+   * Read the attributes of a User resource sent by a client (POST, PUT or the result of a PATCH)
+   * @throws ScimException (invalidValue) for missing or malformed attributes
+   */
+  readUser(resource: unknown): ScimUserInput {
+    if (!isObject(resource)) {
+      throw new ScimException(SCIM_ERROR_TYPES.INVALID_SYNTAX, 'Request body must be a User resource');
+    }
+
+    const userName = readString(resource, 'userName');
+    if (!userName) {
+      throw invalidValue('userName is required');
+    }
+    let email: string;
+    try {
+      email = new Email(userName).getValue();
+    } catch {
+      throw invalidValue('userName must be an email address');
+    }
+
+    const name = read(resource, 'name');
+    const firstName = readString(name, 'givenName') ?? email.split('@')[0];
+    const lastName = readString(name, 'familyName') ?? '';
+
+    // Some clients send booleans as strings ("False")
+    const rawActive = read(resource, 'active');
+    let active = true;
+    if (typeof rawActive === 'boolean') {
+      active = rawActive;
+    } else if (typeof rawActive === 'string' && ['true', 'false'].includes(rawActive.toLowerCase())) {
+      active = rawActive.toLowerCase() === 'true';
+    } else if (rawActive !== undefined && rawActive !== null) {
+      throw invalidValue('active must be a boolean');
+    }
+
+    const phoneNumbers = readItems(resource, 'phoneNumbers');
+    const mobile = phoneNumbers.find((item) => String(read(item, 'type') ?? '').toLowerCase() === 'mobile');
+    const phone = pickItem(phoneNumbers.filter((item) => item !== mobile), 'work');
+    const address = pickItem(readItems(resource, 'addresses'), 'work');
+    const enterprise = read(resource, SCIM_SCHEMAS.ENTERPRISE_USER);
+
+    return {
+      user: {
+        externalId: readString(resource, 'externalId'),
+        email,
+        firstName,
+        lastName,
+        profile: {
+          companyName: readString(enterprise, 'organization'),
+          mobileNo: readString(mobile, 'value'),
+          phoneNo: readString(phone, 'value'),
+          city: readString(address, 'locality'),
+          address: readString(address, 'streetAddress') ?? readString(address, 'formatted'),
+        },
+      },
+      active,
+      password: readString(resource, 'password'),
+    };
+  }
+
+  /**
+   * Read the attributes of a Group resource sent by a client
+   * @throws ScimException (invalidValue) for missing or malformed attributes
+   */
+  readGroup(resource: unknown): ScimGroupInput {
+    if (!isObject(resource)) {
+      throw new ScimException(SCIM_ERROR_TYPES.INVALID_SYNTAX, 'Request body must be a Group resource');
+    }
+
+    const displayName = readString(resource, 'displayName');
+    if (!displayName) {
+      throw invalidValue('displayName is required');
+    }
+
+    const memberIds = readItems(resource, 'members').map((member) => {
+      const value = readString(member, 'value');
+      if (!value) {
+        throw invalidValue('Every member needs a value (the user id)');
+      }
+      return value;
+    });
+
+    return {
+      displayName,
+      externalId: readString(resource, 'externalId'),
+      memberIds: [...new Set(memberIds)],
+    };
+  }
+
+  /**
+   * Read the query of a list request (RFC 7644 section 3.4.2)
+   * A startIndex below 1 counts as 1; count is capped at the configured maximum
+   */
+  readListQuery(query: ScimListQuery): ScimListOptions {
+    const startIndex = parseInt(query.startIndex ?? '', 10);
+    const count = parseInt(query.count ?? '', 10);
+    const excluded = (query.excludedAttributes ?? '').split(',').map((attribute) => attribute.trim().toLowerCase());
+
+    return {
+      filter: query.filter ? ScimFilter.parse(query.filter) : null,
+      startIndex: isNaN(startIndex) || startIndex < 1 ? 1 : startIndex,
+      count: Math.min(isNaN(count) ? SCIM_DEFAULT_PAGE_SIZE : Math.max(count, 0), this.config.maxResults),
+      includeMembers: !excluded.includes('members'),
+    };
+  }
+
+  toListResponse<T>(resources: T[], totalResults: number, startIndex: number): ScimListResponse<T> {
+    return {
+      schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+      totalResults,
+      startIndex,
+      itemsPerPage: resources.length,
+      Resources: resources,
+    };
+  }
+
+  /**
+   * Features of this service provider (RFC 7643 section 5)
+   */
+  getServiceProviderConfig(): Record<string, unknown> {
+    return {
+      schemas: [SCIM_SCHEMAS.SERVICE_PROVIDER_CONFIG],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: this.config.maxResults },
+      changePassword: { supported: true },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [
+        {
+          type: 'oauthbearertoken',
+          name: 'Bearer token',
+          description: 'Tenant SCIM token in the Authorization header',
+          primary: true,
+        },
+      ],
+      meta: {
+        resourceType: 'ServiceProviderConfig',
+        location: `${this.getBaseUrl()}/ServiceProviderConfig`,
+      },
+    };
+  }
+}
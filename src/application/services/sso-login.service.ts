@@ -0,0 +1,207 @@
+import { IUserRepository } from '../../domain/repositories/iuser-repository';
+import { IUserIdentityRepository } from '../../domain/repositories/iuser-identity-repository';
+import { ITokenRepository } from '../../domain/repositories/itoken-repository';
+import { IPasswordDomainService } from '../../domain/services/ipassword-domain.service';
+import { ISecureTokenGenerator } from '../../domain/services/isecure-token-generator';
+import { UserEntity } from '../../domain/entities/user.entity';
+import { SsoUserProfile } from '../../domain/entities/tenant-saml-config.entity';
+import { SsoProtocol } from '../../domain/constants/sso';
+import { ROLE_NAMES } from '../../domain/constants/role-names';
+import { AUDIT_LOGIN_METHODS } from '../../domain/constants/audit';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '../../domain/exceptions/domain-exceptions';
+import { UserCreatedEvent } from '../../domain/events/user-created.event';
+import { prisma } from '../../infrastructure/config/database';
+import { eventBus } from '../../infrastructure/events/event-bus';
+import { ssoConfig } from '../../infrastructure/config/sso.config';
+import { Logger } from '../../infrastructure/logging/logger';
+import { ClientContext } from '../../shared/types';
+import { AuditLogService } from './audit-log.service';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Tenant connection to an external identity provider
+ */
+export interface SsoConnection {
+  protocol: SsoProtocol;
+  connectionId: string;
+  tenantId: string;
+  jitProvisioning: boolean;
+  defaultRoleId: string | null;
+}
+
+/**
+ * Application service that signs users in with an identity asserted by an external provider
+ */
+export class SsoLoginService {
+  constructor(
+    private userRepository: IUserRepository,
+    private userIdentityRepository: IUserIdentityRepository,
+    private tokenRepository: ITokenRepository,
+    private passwordDomainService: IPasswordDomainService,
+    private secureTokenGenerator: ISecureTokenGenerator,
+    private auditLogService: AuditLogService,
+    private config: typeof ssoConfig = ssoConfig
+  ) {}
+
+  /**
+   * Find the user an external identity signs in as
+   * An identity linked before wins; otherwise a tenant user with the same email is linked,
+   * or a new user is created when the connection allows just-in-time provisioning
+   * Refusals of an account of the tenant are audited; the login itself is audited when its code is exchanged
+   * @param emailVerified - Whether the provider vouches for the email; only verified emails link existing users
+   * @param context - Client of the identity provider callback
+   */
+  async resolveUser(
+    connection: SsoConnection,
+    profile: SsoUserProfile,
+    emailVerified: boolean,
+    context?: ClientContext
+  ): Promise<UserEntity> {
+    const identity = await this.userIdentityRepository.findBySubject(connection.connectionId, profile.subject);
+    if (identity) {
+      const user = await this.userRepository.findById(identity.userId, connection.tenantId);
+      if (!user) {
+        await this.recordRefusal({ id: identity.userId, tenantId: connection.tenantId }, context, 'account_unavailable');
+        throw new ForbiddenException('This account cannot sign in to this organization');
+      }
+      await this.userIdentityRepository.recordLogin(identity.id, profile.email);
+      return user;
+    }
+
+    if (!profile.email) {
+      throw new BadRequestException('The identity provider did not send an email address');
+    }
+
+    const existing = await this.userRepository.findByEmailOnly(profile.email);
+    if (existing) {
+      if (existing.tenantId !== connection.tenantId || !emailVerified) {
+        Logger.warn('SSO identity not linked to an existing account', {
+          tenantId: connection.tenantId,
+          protocol: connection.protocol,
+          emailVerified,
+        });
+        // An account of another tenant is none of this tenant's business
+        if (existing.tenantId === connection.tenantId) {
+          await this.recordRefusal({ id: existing.id, tenantId: connection.tenantId }, context, 'email_not_verified');
+        }
+        throw new ForbiddenException('This account cannot sign in to this organization');
+      }
+
+      // A deprovisioned user is not found and must not be linked either
+      const user = await this.userRepository.findById(existing.id, connection.tenantId);
+      if (!user) {
+        await this.recordRefusal({ id: existing.id, tenantId: connection.tenantId }, context, 'account_unavailable');
+        throw new ForbiddenException('This account cannot sign in to this organization');
+      }
+
+      await this.userIdentityRepository.create({
+        userId: user.id,
+        protocol: connection.protocol,
+        connectionId: connection.connectionId,
+        subject: profile.subject,
+        email: profile.email,
+      });
+      Logger.info('SSO identity linked to existing user', { userId: user.id, protocol: connection.protocol });
+
+      return user;
+    }
+
+    if (!connection.jitProvisioning) {
+      throw new ForbiddenException('No account exists for this user; ask your administrator for an invitation');
+    }
+
+    return this.provisionUser(connection, { ...profile, email: profile.email }, emailVerified);
+  }
+
+  /**
+   * Hand the signed-in user back to the frontend with a short-lived single-use code
+   * The frontend exchanges it for tokens, so tokens never appear in a URL
+   * @returns The frontend callback URL carrying the code
+   */
+  async createLoginRedirect(user: UserEntity): Promise<string> {
+    const code = await this.tokenRepository.generateSsoLoginCode(user.id, this.config.loginCodeTtlSeconds);
+
+    const callbackUrl = new URL(this.config.callbackUrl);
+    callbackUrl.searchParams.set('code', code);
+    return callbackUrl.toString();
+  }
+
+  /**
+   * Audit a refused SSO login of an account of the connection's tenant
+   */
+  private async recordRefusal(
+    user: Pick<UserEntity, 'id' | 'tenantId'>,
+    context: ClientContext | undefined,
+    reason: string
+  ): Promise<void> {
+    await this.auditLogService.recordLogin(user, context, AUDIT_LOGIN_METHODS.SSO, reason);
+  }
+
+  /**
+   * Create a user on first login (just-in-time provisioning)
+   * The user gets a random password nobody knows; a password can be set later through a reset
+   */
+  private async provisionUser(
+    connection: SsoConnection,
+    profile: SsoUserProfile & { email: string },
+    emailVerified: boolean
+  ): Promise<UserEntity> {
+    const hashedPassword = await this.passwordDomainService.hashPassword(this.secureTokenGenerator.generate());
+
+    const userId = uuidv4();
+    const now = new Date();
+    await prisma.$transaction(async (tx) => {
+      await tx.user.create({
+        data: {
+          id: userId,
+          email: profile.email,
+          password: hashedPassword,
+          firstName: profile.firstName ?? profile.email.split('@')[0],
+          lastName: profile.lastName ?? '',
+          tenantId: connection.tenantId,
+          isSuperAdmin: false,
+          emailVerifiedAt: emailVerified ? now : null,
+        },
+      });
+
+      // A default role deleted since the connection was configured is skipped
+      if (connection.defaultRoleId) {
+        const role = await tx.role.findFirst({
+          where: { id: connection.defaultRoleId, tenantId: connection.tenantId, name: { not: ROLE_NAMES.ADMIN } },
+        });
+        if (role) {
+          await tx.userRole.create({ data: { userId, roleId: role.id } });
+        }
+      }
+
+      await tx.userIdentity.create({
+        data: {
+          userId,
+          protocol: connection.protocol,
+          connectionId: connection.connectionId,
+          subject: profile.subject,
+          email: profile.email,
+          lastLoginAt: now,
+        },
+      });
+    });
+
+    Logger.info('User provisioned by SSO login', {
+      userId,
+      tenantId: connection.tenantId,
+      protocol: connection.protocol,
+    });
+
+    await eventBus.publish(new UserCreatedEvent(userId, profile.email, connection.tenantId, false));
+
+    const user = await this.userRepository.findById(userId, connection.tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+    return user;
+  }
+}
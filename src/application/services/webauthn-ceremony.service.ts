@@ -0,0 +1,174 @@
+import { IWebAuthnCredentialRepository } from '../../domain/repositories/iwebauthn-credential-repository';
+import { IWebAuthnChallengeRepository } from '../../domain/repositories/iwebauthn-challenge-repository';
+import { IWebAuthnProvider, WebAuthnCredentialDescriptor } from '../../domain/services/iwebauthn-provider';
+import { UserEntity } from '../../domain/entities/user.entity';
+import { WebAuthnCredentialEntity } from '../../domain/entities/webauthn-credential.entity';
+import {
+  WEBAUTHN_CHALLENGE_TYPES,
+  WebAuthnChallengeType,
+  MAX_WEBAUTHN_CREDENTIALS_PER_USER,
+} from '../../domain/constants/webauthn';
+import {
+  BadRequestException,
+  BusinessRuleException,
+  ConflictException,
+  PasskeyRejectedException,
+  UnauthorizedException,
+} from '../../domain/exceptions/domain-exceptions';
+import { webauthnConfig } from '../../infrastructure/config/webauthn.config';
+import { Logger } from '../../infrastructure/logging/logger';
+
+type AuthenticationChallengeType = Exclude<WebAuthnChallengeType, typeof WEBAUTHN_CHALLENGE_TYPES.REGISTRATION>;
+
+/**
+ * Application service that runs WebAuthn ceremonies
+ * Challenges are stored server side and consumed on first use, so every response can only be verified once
+ */
+export class WebAuthnCeremonyService {
+  constructor(
+    private credentialRepository: IWebAuthnCredentialRepository,
+    private challengeRepository: IWebAuthnChallengeRepository,
+    private webAuthnProvider: IWebAuthnProvider,
+    private config: typeof webauthnConfig = webauthnConfig
+  ) {}
+
+  /**
+   * Create options for registering a new passkey
+   * The user's existing credentials are excluded so the same authenticator is not registered twice
+   */
+  async startRegistration(user: UserEntity): Promise<Record<string, unknown>> {
+    const existing = await this.credentialRepository.findByUserId(user.id);
+    if (existing.length >= MAX_WEBAUTHN_CREDENTIALS_PER_USER) {
+      throw new BusinessRuleException(`A user can register at most ${MAX_WEBAUTHN_CREDENTIALS_PER_USER} passkeys`);
+    }
+
+    const { options, challenge } = await this.webAuthnProvider.generateRegistrationOptions(
+      { id: user.id, name: user.email.getValue(), displayName: user.getFullName() },
+      existing.map(toDescriptor)
+    );
+    await this.saveChallenge(challenge, WEBAUTHN_CHALLENGE_TYPES.REGISTRATION, user.id);
+
+    return options;
+  }
+
+  /**
+   * Verify an attestation response and store the new credential
+   * @param name - Label shown in the user's passkey list
+   */
+  async finishRegistration(user: UserEntity, response: unknown, name?: string): Promise<WebAuthnCredentialEntity> {
+    const parsed = this.webAuthnProvider.parseResponse(response);
+    const challenge = parsed
+      ? await this.challengeRepository.consume(parsed.challenge, WEBAUTHN_CHALLENGE_TYPES.REGISTRATION)
+      : undefined;
+    if (!parsed || !challenge || challenge.userId !== user.id) {
+      throw new BadRequestException('Invalid or expired passkey registration');
+    }
+
+    const verified = await this.webAuthnProvider.verifyRegistration(response, parsed.challenge);
+    if (!verified) {
+      throw new BadRequestException('Passkey registration could not be verified');
+    }
+
+    if (await this.credentialRepository.findByCredentialId(verified.credentialId)) {
+      throw new ConflictException('This passkey is already registered');
+    }
+
+    if ((await this.credentialRepository.countByUserId(user.id)) >= MAX_WEBAUTHN_CREDENTIALS_PER_USER) {
+      throw new BusinessRuleException(`A user can register at most ${MAX_WEBAUTHN_CREDENTIALS_PER_USER} passkeys`);
+    }
+
+    return this.credentialRepository.create({
+      ...verified,
+      userId: user.id,
+      name: name?.trim() || (verified.deviceType === 'multiDevice' ? 'Passkey' : 'Security key'),
+    });
+  }
+
+  /**
+   * Create options for proving possession of a passkey
+   * @param userId - The user who must answer; null lets the authenticator pick a discoverable credential
+   */
+  async startAuthentication(type: AuthenticationChallengeType, userId: string | null): Promise<Record<string, unknown>> {
+    const allowCredentials = userId
+      ? (await this.credentialRepository.findByUserId(userId)).map(toDescriptor)
+      : [];
+    if (userId && allowCredentials.length === 0) {
+      throw new BadRequestException('No passkey is registered for this user');
+    }
+
+    const { options, challenge } = await this.webAuthnProvider.generateAuthenticationOptions(
+      allowCredentials,
+      this.requiresUserVerification(type)
+    );
+    await this.saveChallenge(challenge, type, userId);
+
+    return options;
+  }
+
+  /**
+   * Verify an assertion response against a stored credential
+   * @param userId - The user the challenge was issued for; null for passwordless login
+   * @returns The credential that answered the challenge
+   * @throws PasskeyRejectedException if a registered credential gave an invalid or replayed assertion
+   */
+  async finishAuthentication(
+    type: AuthenticationChallengeType,
+    response: unknown,
+    userId: string | null
+  ): Promise<WebAuthnCredentialEntity> {
+    const parsed = this.webAuthnProvider.parseResponse(response);
+    const challenge = parsed ? await this.challengeRepository.consume(parsed.challenge, type) : undefined;
+    if (!parsed || !challenge || challenge.userId !== userId) {
+      Logger.warn('WebAuthn assertion for an unknown or expired challenge', { type });
+      throw new UnauthorizedException('Invalid or expired passkey challenge');
+    }
+
+    const credential = await this.credentialRepository.findByCredentialId(parsed.credentialId);
+    if (!credential || (userId && credential.userId !== userId)) {
+      Logger.warn('WebAuthn assertion with an unknown credential', { type, credentialId: parsed.credentialId });
+      throw new UnauthorizedException('Passkey could not be verified');
+    }
+
+    const assertion = await this.webAuthnProvider.verifyAuthentication(
+      response,
+      parsed.challenge,
+      credential,
+      this.requiresUserVerification(type)
+    );
+    if (!assertion) {
+      Logger.warn('Invalid WebAuthn assertion', { type, userId: credential.userId, credentialId: credential.id });
+      throw new PasskeyRejectedException(credential.userId);
+    }
+
+    if (!credential.isSignCountValid(assertion.signCount)) {
+      Logger.warn('WebAuthn signature counter did not increase, credential may be cloned', {
+        userId: credential.userId,
+        credentialId: credential.id,
+        storedSignCount: credential.signCount,
+        signCount: assertion.signCount,
+      });
+      throw new PasskeyRejectedException(credential.userId);
+    }
+
+    await this.credentialRepository.recordUse(credential.id, assertion.signCount, assertion.backedUp);
+
+    return credential;
+  }
+
+  /**
+   * A passwordless login replaces both the password and the second factor, so the authenticator
+   * must verify the user (PIN or biometric); as a second factor possession is enough
+   */
+  private requiresUserVerification(type: AuthenticationChallengeType): boolean {
+    return type === WEBAUTHN_CHALLENGE_TYPES.LOGIN;
+  }
+
+  private async saveChallenge(challenge: string, type: WebAuthnChallengeType, userId: string | null): Promise<void> {
+    const expiresAt = new Date(Date.now() + this.config.challengeTtlSeconds * 1000);
+    await this.challengeRepository.save(challenge, type, userId, expiresAt);
+  }
+}
+
+function toDescriptor(credential: WebAuthnCredentialEntity): WebAuthnCredentialDescriptor {
+  return { credentialId: credential.credentialId, transports: credential.transports };
+}
@@ -0,0 +1,44 @@
+import { IApiKeyRepository } from '../../../domain/repositories/iapi-key-repository';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { API_KEY_PREFIX } from '../../../domain/constants/api-keys';
+import { UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+import { JwtPayload } from '../../../shared/types';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for authenticating a request with an X-API-Key header
+ * Returns a principal shaped like a JWT payload so authorization checks work unchanged
+ */
+export class AuthenticateApiKeyUseCase {
+  constructor(
+    private apiKeyRepository: IApiKeyRepository,
+    private secureTokenGenerator: ISecureTokenGenerator
+  ) {}
+
+  async execute(key: string): Promise<JwtPayload> {
+    if (!key.startsWith(`${API_KEY_PREFIX}_`)) {
+      throw new UnauthorizedException('Invalid API key');
+    }
+
+    const apiKey = await this.apiKeyRepository.findByHash(this.secureTokenGenerator.hash(key));
+    const now = new Date();
+    if (!apiKey || !apiKey.isActive(now)) {
+      Logger.warn('Rejected API key', { prefix: apiKey?.prefix });
+      throw new UnauthorizedException('Invalid, expired or revoked API key');
+    }
+
+    if (apiKey.shouldRecordUsage(now)) {
+      await this.apiKeyRepository.recordUsage(apiKey, now);
+    }
+
+    return {
+      userId: apiKey.id,
+      tenantId: apiKey.tenantId,
+      email: '',
+      roles: [],
+      permissions: apiKey.scopes,
+      isSuperAdmin: false,
+      principalType: 'api_key',
+    };
+  }
+}
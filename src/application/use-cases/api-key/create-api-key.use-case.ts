@@ -0,0 +1,103 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { IPermissionRepository } from '../../../domain/repositories/ipermission-repository';
+import { IApiKeyRepository } from '../../../domain/repositories/iapi-key-repository';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { ApiKeyEntity } from '../../../domain/entities/api-key.entity';
+import { API_KEY_PREFIX, API_KEY_DISPLAY_PREFIX_LENGTH } from '../../../domain/constants/api-keys';
+import { NotFoundException, ValidationException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { CreateApiKeyDto, CreatedApiKeyResponseDto, ApiKeyResponseDto } from '../../dto/api-key.dto';
+
+export function toApiKeyResponse(apiKey: ApiKeyEntity): ApiKeyResponseDto {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    expiresAt: apiKey.expiresAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
+
+/**
+ * Use case for creating a tenant API key
+ *
+ * Business Rules:
+ * - Scopes must be permission names that exist in the tenant
+ * - The key is only returned once; only its hash and a short display prefix are stored
+ */
+export class CreateApiKeyUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private permissionRepository: IPermissionRepository,
+    private apiKeyRepository: IApiKeyRepository,
+    private secureTokenGenerator: ISecureTokenGenerator,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant that owns the key
+   * @param dto - Key name, scopes and optional expiry
+   * @param requester - Requesting admin (tenantId is null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    dto: CreateApiKeyDto,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<CreatedApiKeyResponseDto> {
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const scopes = [...new Set(dto.scopes)];
+    const tenantPermissions = new Set((await this.permissionRepository.findAll(tenantId)).map((p) => p.name));
+    const unknownScopes = scopes.filter((scope) => !tenantPermissions.has(scope));
+    if (unknownScopes.length > 0) {
+      throw new ValidationException('Unknown permission scopes', unknownScopes);
+    }
+
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : undefined;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      throw new ValidationException('Expiry must be in the future');
+    }
+
+    const key = this.secureTokenGenerator.generate(API_KEY_PREFIX);
+    const apiKey = await this.apiKeyRepository.create({
+      tenantId,
+      name: dto.name,
+      prefix: key.slice(0, API_KEY_DISPLAY_PREFIX_LENGTH),
+      keyHash: this.secureTokenGenerator.hash(key),
+      scopes,
+      expiresAt,
+      createdBy: requester.userId,
+    });
+
+    Logger.info('API key created', { tenantId, apiKeyId: apiKey.id, prefix: apiKey.prefix });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.API_KEY_CREATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.API_KEY,
+      targetId: apiKey.id,
+      changes: AuditEventEntity.diff(null, { name: apiKey.name, scopes: apiKey.scopes, expiresAt: apiKey.expiresAt }),
+    });
+
+    return {
+      ...toApiKeyResponse(apiKey),
+      key,
+    };
+  }
+}
@@ -0,0 +1,21 @@
+import { IApiKeyRepository } from '../../../domain/repositories/iapi-key-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { ApiKeyResponseDto } from '../../dto/api-key.dto';
+import { toApiKeyResponse } from './create-api-key.use-case';
+
+export class GetApiKeysUseCase {
+  constructor(private apiKeyRepository: IApiKeyRepository) {}
+
+  /**
+   * @param tenantId - Tenant whose keys are listed (revoked and expired keys included)
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   */
+  async execute(tenantId: string, requesterTenantId: string | null): Promise<ApiKeyResponseDto[]> {
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const apiKeys = await this.apiKeyRepository.findByTenantId(tenantId);
+    return apiKeys.map(toApiKeyResponse);
+  }
+}
@@ -0,0 +1,44 @@
+import { IApiKeyRepository } from '../../../domain/repositories/iapi-key-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for revoking an API key
+ * The record is kept (with revokedAt) so the prefix of a leaked key can still be traced
+ */
+export class RevokeApiKeyUseCase {
+  constructor(
+    private apiKeyRepository: IApiKeyRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant that owns the key
+   * @param id - API key ID
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(tenantId: string, id: string, requesterTenantId: string | null, actor?: AuditActor): Promise<void> {
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const apiKey = await this.apiKeyRepository.findById(id, tenantId);
+    if (!apiKey) {
+      throw new NotFoundException('API key', id);
+    }
+
+    await this.apiKeyRepository.revoke(apiKey);
+    Logger.info('API key revoked', { tenantId, apiKeyId: apiKey.id, prefix: apiKey.prefix });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.API_KEY_REVOKED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.API_KEY,
+      targetId: apiKey.id,
+    });
+  }
+}
@@ -0,0 +1,73 @@
+import { IAuditEventRepository } from '../../../domain/repositories/iaudit-event-repository';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AuditOutcome, MAX_AUDIT_LOG_PAGE_SIZE } from '../../../domain/constants/audit';
+import { ValidationException } from '../../../domain/exceptions/domain-exceptions';
+import { AuditLogQueryDto, AuditEventResponseDto } from '../../dto/audit-log.dto';
+import { PaginatedResult } from '../../../shared/types/pagination';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+function toAuditEventResponse(event: AuditEventEntity): AuditEventResponseDto {
+  return {
+    id: event.id,
+    tenantId: event.tenantId,
+    actorId: event.actorId,
+    actorType: event.actorType,
+    action: event.action,
+    targetType: event.targetType,
+    targetId: event.targetId,
+    changes: event.changes,
+    ipAddress: event.ipAddress,
+    userAgent: event.userAgent,
+    outcome: event.outcome,
+    reason: event.reason,
+    metadata: event.metadata,
+    createdAt: event.createdAt,
+  };
+}
+
+/**
+ * Use case for browsing the audit log, newest events first
+ *
+ * Business Rules:
+ * - Tenant admins only see the events of their own tenant
+ * - Super admins see all tenants, including platform-level events, unless they filter by tenant
+ */
+export class GetAuditLogsUseCase {
+  constructor(private auditEventRepository: IAuditEventRepository) {}
+
+  /**
+   * @param query - Filters and page
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   */
+  async execute(
+    query: AuditLogQueryDto,
+    requesterTenantId: string | null
+  ): Promise<PaginatedResult<AuditEventResponseDto>> {
+    const from = query.from ? new Date(query.from) : undefined;
+    const to = query.to ? new Date(query.to) : undefined;
+    if (from && to && from.getTime() > to.getTime()) {
+      throw new ValidationException('The start of the date range must be before its end');
+    }
+
+    const result = await this.auditEventRepository.findAll(
+      {
+        tenantId: requesterTenantId ?? query.tenantId,
+        actorId: query.actorId,
+        action: query.action,
+        outcome: query.outcome as AuditOutcome | undefined,
+        from,
+        to,
+      },
+      {
+        page: query.page || 1,
+        limit: Math.min(query.limit || DEFAULT_PAGE_SIZE, MAX_AUDIT_LOG_PAGE_SIZE),
+      }
+    );
+
+    return {
+      ...result,
+      data: result.data.map(toAuditEventResponse),
+    };
+  }
+}
@@ -0,0 +1,98 @@
+import { ChangePasswordUseCase } from '../change-password.use-case';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { ITokenRepository } from '../../../../domain/repositories/itoken-repository';
+import { ITokenVersionRepository } from '../../../../domain/repositories/itoken-version-repository';
+import { IPasswordDomainService } from '../../../../domain/services/ipassword-domain.service';
+import { UserEntity } from '../../../../domain/entities/user.entity';
+import { Email } from '../../../../domain/value-objects/email';
+import { Password } from '../../../../domain/value-objects/password';
+import { BadRequestException } from '../../../../domain/exceptions/domain-exceptions';
+import { eventBus } from '../../../../infrastructure/events/event-bus';
+import { PasswordHistoryService } from '../../../services/password-history.service';
+import { PasswordPolicyService } from '../../../services/password-policy.service';
+import { AuthTokenService } from '../../../services/auth-token.service';
+import { RevokeSessionsUseCase } from '../../session/revoke-sessions.use-case';
+
+describe('ChangePasswordUseCase', () => {
+  const tokens = {
+    accessToken: 'new-access',
+    refreshToken: 'new-refresh',
+    user: { id: 'user-1', email: 'john@example.com', firstName: 'John', lastName: 'Doe', tenantId: 'tenant-1', roles: [], permissions: [] },
+  };
+  const dto = { currentPassword: 'OldPassword1!', newPassword: 'NewPassword1!' };
+
+  let passwordDomainService: { comparePassword: jest.Mock; hashPassword: jest.Mock };
+  let revokeSessionsUseCase: { execute: jest.Mock };
+  let tokenRepository: { revokeFamily: jest.Mock };
+  let tokenVersionRepository: { increment: jest.Mock };
+  let authTokenService: { issueTokens: jest.Mock };
+  let useCase: ChangePasswordUseCase;
+
+  beforeEach(() => {
+    const user = new UserEntity(
+      'user-1',
+      new Email('john@example.com'),
+      new Password('old-hash', true),
+      'John',
+      'Doe',
+      'tenant-1',
+      false,
+      new Date(),
+      new Date()
+    );
+
+    passwordDomainService = {
+      comparePassword: jest.fn().mockResolvedValue(true),
+      hashPassword: jest.fn().mockResolvedValue('new-hash'),
+    };
+    revokeSessionsUseCase = { execute: jest.fn().mockResolvedValue(2) };
+    tokenRepository = { revokeFamily: jest.fn().mockResolvedValue(undefined) };
+    tokenVersionRepository = { increment: jest.fn().mockResolvedValue(undefined) };
+    authTokenService = { issueTokens: jest.fn().mockResolvedValue(tokens) };
+    jest.spyOn(eventBus, 'publish').mockResolvedValue();
+
+    useCase = new ChangePasswordUseCase(
+      { findById: jest.fn().mockResolvedValue(user), update: jest.fn() } as unknown as IUserRepository,
+      passwordDomainService as unknown as IPasswordDomainService,
+      { assertNotReused: jest.fn(), recordChange: jest.fn() } as unknown as PasswordHistoryService,
+      {
+        createPassword: jest.fn(async (value: string) => new Password(value, true)),
+      } as unknown as PasswordPolicyService,
+      revokeSessionsUseCase as unknown as RevokeSessionsUseCase,
+      tokenRepository as unknown as ITokenRepository,
+      tokenVersionRepository as unknown as ITokenVersionRepository,
+      authTokenService as unknown as AuthTokenService
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should revoke the access tokens issued before the change', async () => {
+    await useCase.execute('user-1', 'tenant-1', dto, 'session-1');
+
+    expect(revokeSessionsUseCase.execute).toHaveBeenCalledWith('user-1', 'tenant-1', 'session-1');
+    expect(tokenVersionRepository.increment).toHaveBeenCalledWith('user-1');
+  });
+
+  it("should replace the caller's session with a fresh token pair of the new version", async () => {
+    const context = { userAgent: 'Firefox', ipAddress: '10.0.0.1' };
+
+    const result = await useCase.execute('user-1', 'tenant-1', dto, 'session-1', context);
+
+    expect(result).toEqual({ ...tokens, revokedSessions: 2 });
+    expect(tokenRepository.revokeFamily).toHaveBeenCalledWith('session-1');
+    expect(authTokenService.issueTokens).toHaveBeenCalledWith(expect.objectContaining({ id: 'user-1' }), context);
+    // Tokens issued before the bump would be rejected straight away
+    expect(tokenVersionRepository.increment.mock.invocationCallOrder[0]).toBeLessThan(
+      authTokenService.issueTokens.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('should not change anything when the current password is wrong', async () => {
+    passwordDomainService.comparePassword.mockResolvedValue(false);
+
+    await expect(useCase.execute('user-1', 'tenant-1', dto, 'session-1')).rejects.toThrow(BadRequestException);
+    expect(tokenVersionRepository.increment).not.toHaveBeenCalled();
+    expect(authTokenService.issueTokens).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,148 @@
+import { MagicLinkLoginUseCase } from '../magic-link-login.use-case';
+import { RequestMagicLinkUseCase } from '../request-magic-link.use-case';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { ITokenRepository } from '../../../../domain/repositories/itoken-repository';
+import { ITenantRepository } from '../../../../domain/repositories/itenant-repository';
+import { ITenantSecuritySettingsRepository } from '../../../../domain/repositories/itenant-security-settings-repository';
+import { UserEntity } from '../../../../domain/entities/user.entity';
+import { TenantEntity } from '../../../../domain/entities/tenant.entity';
+import { TenantSecuritySettingsEntity } from '../../../../domain/entities/tenant-security-settings.entity';
+import { Email } from '../../../../domain/value-objects/email';
+import { Password } from '../../../../domain/value-objects/password';
+import { MFA_POLICIES } from '../../../../domain/constants/mfa-policies';
+import { DEFAULT_LOCKOUT_POLICY } from '../../../../domain/constants/account-lockout';
+import { ForbiddenException, UnauthorizedException } from '../../../../domain/exceptions/domain-exceptions';
+import { emailConfig } from '../../../../infrastructure/config/email.config';
+import { EmailService } from '../../../services/email.service';
+import { MfaPolicyService } from '../../../services/mfa-policy.service';
+import { AccountLockoutService } from '../../../services/account-lockout.service';
+import { AuditLogService } from '../../../services/audit-log.service';
+
+/**
+ * Login links by value; consuming one marks it used, like the Prisma repository
+ */
+class InMemoryMagicLinkTokens {
+  private tokens = new Map<string, { userId: string; usedAt: Date | null }>();
+  private issued = 0;
+
+  async generateMagicLinkToken(userId: string): Promise<string> {
+    const token = `link-${++this.issued}`;
+    this.tokens.set(token, { userId, usedAt: null });
+    return token;
+  }
+
+  async consumeMagicLinkToken(token: string): Promise<string | null> {
+    const record = this.tokens.get(token);
+    if (!record || record.usedAt) return null;
+    record.usedAt = new Date();
+    return record.userId;
+  }
+
+  async countMagicLinkTokensSince(): Promise<number> {
+    return this.issued;
+  }
+}
+
+describe('Magic link login', () => {
+  const user = new UserEntity(
+    'user-1',
+    new Email('john@example.com'),
+    new Password('hashedPassword', true),
+    'John',
+    'Doe',
+    'tenant-1',
+    false,
+    new Date(),
+    new Date()
+  );
+  const tenant = new TenantEntity('tenant-1', 'Acme', 'acme', new Date(), new Date());
+  const tokens = { accessToken: 'access', refreshToken: 'refresh' };
+
+  const buildSettings = (magicLinkEnabled: boolean) =>
+    new TenantSecuritySettingsEntity('tenant-1', MFA_POLICIES.OFF, false, { ...DEFAULT_LOCKOUT_POLICY }, magicLinkEnabled, null);
+
+  let tokenRepository: InMemoryMagicLinkTokens;
+  let settingsRepository: { findByTenantId: jest.Mock };
+  let mfaPolicyService: { completeLogin: jest.Mock };
+  let emailService: { send: jest.Mock };
+  let auditLogService: { recordLogin: jest.Mock; recordLoginResult: jest.Mock };
+  let requestMagicLink: RequestMagicLinkUseCase;
+  let magicLinkLogin: MagicLinkLoginUseCase;
+
+  beforeEach(() => {
+    tokenRepository = new InMemoryMagicLinkTokens();
+    settingsRepository = { findByTenantId: jest.fn().mockResolvedValue(buildSettings(true)) };
+    mfaPolicyService = { completeLogin: jest.fn().mockResolvedValue(tokens) };
+    emailService = { send: jest.fn().mockResolvedValue(undefined) };
+    auditLogService = {
+      recordLogin: jest.fn().mockResolvedValue(undefined),
+      recordLoginResult: jest.fn().mockResolvedValue(undefined),
+    };
+    const userRepository = {
+      findById: jest.fn().mockResolvedValue(user),
+      findByEmail: jest.fn().mockResolvedValue(user),
+    };
+
+    requestMagicLink = new RequestMagicLinkUseCase(
+      userRepository as unknown as IUserRepository,
+      { findBySlug: jest.fn().mockResolvedValue(tenant) } as unknown as ITenantRepository,
+      settingsRepository as unknown as ITenantSecuritySettingsRepository,
+      tokenRepository as unknown as ITokenRepository,
+      emailService as unknown as EmailService,
+      emailConfig
+    );
+    magicLinkLogin = new MagicLinkLoginUseCase(
+      userRepository as unknown as IUserRepository,
+      tokenRepository as unknown as ITokenRepository,
+      settingsRepository as unknown as ITenantSecuritySettingsRepository,
+      { assertNotLocked: jest.fn().mockResolvedValue(null) } as unknown as AccountLockoutService,
+      mfaPolicyService as unknown as MfaPolicyService,
+      auditLogService as unknown as AuditLogService
+    );
+  });
+
+  // The token is the one put in the emailed URL
+  const sendLink = async () => {
+    await requestMagicLink.execute({ email: 'john@example.com', tenantSlug: 'acme' });
+    const [, { variables }] = emailService.send.mock.calls[0];
+    return new URL(variables.magicLinkUrl).searchParams.get('token')!;
+  };
+
+  it('should sign the user in with an emailed link', async () => {
+    const token = await sendLink();
+
+    await expect(magicLinkLogin.execute({ token })).resolves.toEqual(tokens);
+    expect(mfaPolicyService.completeLogin).toHaveBeenCalledWith(user, undefined);
+    expect(auditLogService.recordLoginResult).toHaveBeenCalledWith(user, undefined, 'magic_link', tokens);
+  });
+
+  it('should accept a link only once', async () => {
+    const token = await sendLink();
+
+    await magicLinkLogin.execute({ token });
+
+    await expect(magicLinkLogin.execute({ token })).rejects.toThrow(UnauthorizedException);
+    expect(mfaPolicyService.completeLogin).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not send links for a tenant that has not opted in', async () => {
+    settingsRepository.findByTenantId.mockResolvedValue(buildSettings(false));
+
+    await expect(requestMagicLink.execute({ email: 'john@example.com', tenantSlug: 'acme' })).rejects.toThrow(
+      ForbiddenException
+    );
+    expect(emailService.send).not.toHaveBeenCalled();
+  });
+
+  it('should reject a link once the tenant has turned magic links off, and spend it', async () => {
+    const token = await sendLink();
+    settingsRepository.findByTenantId.mockResolvedValue(buildSettings(false));
+
+    await expect(magicLinkLogin.execute({ token })).rejects.toThrow(UnauthorizedException);
+    expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, undefined, 'magic_link', 'magic_link_disabled');
+
+    settingsRepository.findByTenantId.mockResolvedValue(buildSettings(true));
+    await expect(magicLinkLogin.execute({ token })).rejects.toThrow(UnauthorizedException);
+    expect(mfaPolicyService.completeLogin).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,129 @@
+import { RefreshTokenUseCase } from '../refresh-token.use-case';
+import { ITokenRepository, RefreshTokenRecord } from '../../../../domain/repositories/itoken-repository';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { UserEntity } from '../../../../domain/entities/user.entity';
+import { Email } from '../../../../domain/value-objects/email';
+import { Password } from '../../../../domain/value-objects/password';
+import { UnauthorizedException } from '../../../../domain/exceptions/domain-exceptions';
+import { RefreshTokenReuseDetectedEvent } from '../../../../domain/events/refresh-token-reuse-detected.event';
+import { JwtService } from '../../../../infrastructure/external/jwt.service';
+import { eventBus } from '../../../../infrastructure/events/event-bus';
+import { AuthTokenService } from '../../../services/auth-token.service';
+import { MfaPolicyService } from '../../../services/mfa-policy.service';
+
+/**
+ * Refresh tokens by value, with the same conditional rotation as the Prisma repository
+ */
+class InMemoryTokenRepository {
+  tokens = new Map<string, RefreshTokenRecord>();
+
+  async save(token: string, userId: string, expiresAt: Date, familyId: string): Promise<void> {
+    this.tokens.set(token, { userId, familyId, expiresAt, rotatedAt: null });
+  }
+
+  async findByToken(token: string): Promise<RefreshTokenRecord | null> {
+    const record = this.tokens.get(token);
+    return record ? { ...record } : null;
+  }
+
+  async rotate(token: string, newToken: string, expiresAt: Date): Promise<boolean> {
+    const current = this.tokens.get(token);
+    if (!current || current.rotatedAt) {
+      return false;
+    }
+
+    current.rotatedAt = new Date();
+    this.tokens.set(newToken, { userId: current.userId, familyId: current.familyId, expiresAt, rotatedAt: null });
+    return true;
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    for (const [token, record] of this.tokens) {
+      if (record.familyId === familyId) this.tokens.delete(token);
+    }
+  }
+}
+
+describe('RefreshTokenUseCase', () => {
+  const user = new UserEntity(
+    'user-1',
+    new Email('john@example.com'),
+    new Password('hashedPassword', true),
+    'John',
+    'Doe',
+    'tenant-1',
+    false,
+    new Date(),
+    new Date()
+  );
+  const expiresAt = new Date(Date.now() + 3600 * 1000);
+
+  let tokenRepository: InMemoryTokenRepository;
+  let useCase: RefreshTokenUseCase;
+  let publish: jest.SpyInstance;
+
+  beforeEach(async () => {
+    tokenRepository = new InMemoryTokenRepository();
+    await tokenRepository.save('refresh-0', user.id, expiresAt, 'session-1');
+    await tokenRepository.save('other-session', user.id, expiresAt, 'session-2');
+
+    // Token contents are not under test; each rotation hands out the next token of the sequence
+    let issued = 0;
+    const authTokenService = {
+      rotateTokens: jest.fn(async (_user: UserEntity, current: string) => {
+        const refreshToken = `refresh-${++issued}`;
+        const rotated = await tokenRepository.rotate(current, refreshToken, expiresAt);
+        return rotated ? { accessToken: `access-${issued}`, refreshToken } : null;
+      }),
+    };
+
+    jest.spyOn(JwtService, 'verifyRefreshToken').mockReturnValue({
+      userId: user.id,
+      tenantId: user.tenantId,
+    } as ReturnType<typeof JwtService.verifyRefreshToken>);
+    publish = jest.spyOn(eventBus, 'publish').mockResolvedValue();
+
+    useCase = new RefreshTokenUseCase(
+      tokenRepository as unknown as ITokenRepository,
+      { findById: jest.fn().mockResolvedValue(user) } as unknown as IUserRepository,
+      authTokenService as unknown as AuthTokenService,
+      { isEnrollmentRequired: jest.fn().mockResolvedValue(false) } as unknown as MfaPolicyService
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should rotate the token within its family', async () => {
+    const result = await useCase.execute({ refreshToken: 'refresh-0' });
+
+    expect(result.refreshToken).toBe('refresh-1');
+    expect((await tokenRepository.findByToken('refresh-0'))!.rotatedAt).not.toBeNull();
+    expect(await tokenRepository.findByToken('refresh-1')).toMatchObject({ familyId: 'session-1', rotatedAt: null });
+  });
+
+  it('should revoke the whole family when a rotated token is presented again', async () => {
+    await useCase.execute({ refreshToken: 'refresh-0' });
+    await useCase.execute({ refreshToken: 'refresh-1' });
+
+    await expect(useCase.execute({ refreshToken: 'refresh-0' })).rejects.toThrow(UnauthorizedException);
+
+    // The latest token of the family is gone too, so a thief and the user both have to log in again
+    await expect(useCase.execute({ refreshToken: 'refresh-2' })).rejects.toThrow('Refresh token not found or expired');
+    expect(await tokenRepository.findByToken('other-session')).not.toBeNull();
+    expect(publish).toHaveBeenCalledWith(expect.any(RefreshTokenReuseDetectedEvent));
+    expect(publish.mock.calls[0][0]).toMatchObject({ userId: user.id, familyId: 'session-1' });
+  });
+
+  it('should let only one of two concurrent refreshes win', async () => {
+    const results = await Promise.allSettled([
+      useCase.execute({ refreshToken: 'refresh-0' }),
+      useCase.execute({ refreshToken: 'refresh-0' }),
+    ]);
+
+    expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find((r) => r.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(UnauthorizedException);
+    // Losing the race counts as reuse, so the family is revoked
+    expect(tokenRepository.tokens.has('refresh-1') || tokenRepository.tokens.has('refresh-2')).toBe(false);
+  });
+});
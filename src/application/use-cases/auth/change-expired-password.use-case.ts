@@ -0,0 +1,78 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
+import { ITokenVersionRepository } from '../../../domain/repositories/itoken-version-repository';
+import { IPasswordDomainService } from '../../../domain/services/ipassword-domain.service';
+import { JwtService } from '../../../infrastructure/external/jwt.service';
+import { UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+import { Password } from '../../../domain/value-objects/password';
+import { PasswordHistoryService } from '../../services/password-history.service';
+import { PasswordPolicyService } from '../../services/password-policy.service';
+import { MfaPolicyService } from '../../services/mfa-policy.service';
+import { AccountLockoutService } from '../../services/account-lockout.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_LOGIN_METHODS } from '../../../domain/constants/audit';
+import { ExpiredPasswordChangeDto, LoginResponseDto } from '../../dto/auth.dto';
+import { ClientContext } from '../../../shared/types';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for replacing an expired password
+ * Completes the login that was put on hold, continuing with the second factor if the user has one
+ */
+export class ChangeExpiredPasswordUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private tokenRepository: ITokenRepository,
+    private tokenVersionRepository: ITokenVersionRepository,
+    private passwordDomainService: IPasswordDomainService,
+    private passwordHistoryService: PasswordHistoryService,
+    private passwordPolicyService: PasswordPolicyService,
+    private mfaPolicyService: MfaPolicyService,
+    private accountLockoutService: AccountLockoutService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  async execute(dto: ExpiredPasswordChangeDto, context?: ClientContext): Promise<LoginResponseDto> {
+    let challenge;
+    try {
+      challenge = JwtService.verifyMfaChallengeToken(dto.challengeToken, 'password_change');
+    } catch (error) {
+      Logger.warn('Invalid password change challenge token');
+      throw new UnauthorizedException('Invalid or expired password change challenge');
+    }
+
+    // Once the password was changed the challenge is spent
+    const user = await this.userRepository.findById(challenge.userId, challenge.tenantId);
+    const policy = await this.passwordPolicyService.getEffectivePolicy(challenge.tenantId);
+    if (!user || !user.isPasswordExpired(policy.expiryDays)) {
+      throw new UnauthorizedException('Invalid or expired password change challenge');
+    }
+
+    const lockout = await this.accountLockoutService.assertNotLocked(user);
+
+    const newPassword = await this.passwordPolicyService.createPassword(dto.newPassword, challenge.tenantId);
+    await this.passwordHistoryService.assertNotReused(user, newPassword.getValue());
+    const previousHash = user.getPassword().getValue();
+
+    const hashedPassword = await this.passwordDomainService.hashPassword(newPassword.getValue());
+    user.updatePassword(new Password(hashedPassword, true));
+    await this.userRepository.update(user);
+    await this.passwordHistoryService.recordChange(user, previousHash);
+
+    // Sessions opened with the old password do not survive the change
+    await this.tokenRepository.invalidateAllUserTokens(user.id);
+    await this.tokenVersionRepository.increment(user.id);
+
+    Logger.info('Expired password changed', { userId: user.id });
+
+    const result = await this.mfaPolicyService.completeLogin(user, context);
+    await this.auditLogService.recordLoginResult(user, context, AUDIT_LOGIN_METHODS.PASSWORD, result);
+
+    // Failed attempts are kept while a second factor is pending, like after the password step
+    if (!('challengeToken' in result)) {
+      await this.accountLockoutService.recordSuccessfulLogin(lockout);
+    }
+
+    return result;
+  }
+}
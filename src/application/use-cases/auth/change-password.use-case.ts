@@ -0,0 +1,87 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
+import { ITokenVersionRepository } from '../../../domain/repositories/itoken-version-repository';
+import { IPasswordDomainService } from '../../../domain/services/ipassword-domain.service';
+import { BadRequestException, NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { Password } from '../../../domain/value-objects/password';
+import { PasswordChangedEvent } from '../../../domain/events/password-changed.event';
+import { eventBus } from '../../../infrastructure/events/event-bus';
+import { PasswordHistoryService } from '../../services/password-history.service';
+import { PasswordPolicyService } from '../../services/password-policy.service';
+import { AuthTokenService } from '../../services/auth-token.service';
+import { RevokeSessionsUseCase } from '../session/revoke-sessions.use-case';
+import { AuthResponseDto, ChangePasswordDto } from '../../dto/auth.dto';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { ClientContext } from '../../../shared/types';
+
+/**
+ * Use case for a logged-in user changing their own password
+ * Every session and access token issued with the old password is revoked; the caller stays
+ * signed in with a new token pair
+ */
+export class ChangePasswordUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private passwordDomainService: IPasswordDomainService,
+    private passwordHistoryService: PasswordHistoryService,
+    private passwordPolicyService: PasswordPolicyService,
+    private revokeSessionsUseCase: RevokeSessionsUseCase,
+    private tokenRepository: ITokenRepository,
+    private tokenVersionRepository: ITokenVersionRepository,
+    private authTokenService: AuthTokenService
+  ) {}
+
+  /**
+   * @param userId - The current user
+   * @param tenantId - Tenant of the current user
+   * @param dto - Current and new password
+   * @param sessionId - Session of the access token, replaced by the new one rather than counted as revoked
+   * @param context - Client the new session is created from
+   * @returns Number of revoked sessions and the caller's new tokens
+   */
+  async execute(
+    userId: string,
+    tenantId: string | null,
+    dto: ChangePasswordDto,
+    sessionId?: string,
+    context?: ClientContext
+  ): Promise<AuthResponseDto & { revokedSessions: number }> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    const isValid = await this.passwordDomainService.comparePassword(
+      dto.currentPassword,
+      user.getPassword().getValue()
+    );
+    if (!isValid) {
+      Logger.warn('Password change with invalid current password', { userId: user.id });
+      throw new BadRequestException('Current password is incorrect');
+    }
+
+    const newPassword = await this.passwordPolicyService.createPassword(dto.newPassword, user.tenantId);
+    await this.passwordHistoryService.assertNotReused(user, newPassword.getValue());
+    const previousHash = user.getPassword().getValue();
+
+    const hashedPassword = await this.passwordDomainService.hashPassword(newPassword.getValue());
+    user.updatePassword(new Password(hashedPassword, true));
+    await this.userRepository.update(user);
+    await this.passwordHistoryService.recordChange(user, previousHash);
+
+    const revokedSessions = await this.revokeSessionsUseCase.execute(user.id, user.tenantId, sessionId);
+
+    // Stolen access tokens stop working too, the caller's included; its old refresh tokens go with its session
+    await this.tokenVersionRepository.increment(user.id);
+    if (sessionId) {
+      await this.tokenRepository.revokeFamily(sessionId);
+    }
+    const tokens = await this.authTokenService.issueTokens(user, context);
+
+    await eventBus.publish(new PasswordChangedEvent(user.id, user.tenantId, revokedSessions));
+
+    Logger.info('Password changed', { userId: user.id, revokedSessions });
+
+    return { ...tokens, revokedSessions };
+  }
+}
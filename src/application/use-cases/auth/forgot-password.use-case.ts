@@ -3,6 +3,11 @@ import { ITenantRepository } from '../../../domain/repositories/itenant-reposito
 import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
 import { DomainException } from '../../../domain/exceptions/domain-exceptions';
 import { Email } from '../../../domain/value-objects/email';
+import { EMAIL_TEMPLATE_TYPES } from '../../../domain/constants/email-templates';
+import { EmailService } from '../../services/email.service';
+import { emailConfig } from '../../../infrastructure/config/email.config';
+
+const RESET_TOKEN_TTL_SECONDS = 3600; // 1 hour
 
 export interface ForgotPasswordDto {
   email: string;
@@ -13,12 +18,14 @@ export class ForgotPasswordUseCase {
   constructor(
     private userRepository: IUserRepository,
     private tenantRepository: ITenantRepository,
-    private tokenRepository: ITokenRepository
+    private tokenRepository: ITokenRepository,
+    private emailService: EmailService
   ) {}
 
   async execute(dto: ForgotPasswordDto): Promise<{ message: string }> {
     const email = new Email(dto.email);
     let tenantId: string | null = null;
+    let tenantName: string | undefined;
 
     // If tenant slug provided, validate it
     if (dto.tenantSlug) {
@@ -27,6 +34,7 @@ export class ForgotPasswordUseCase {
         throw new DomainException('Invalid tenant', 400);
       }
       tenantId = tenant.id;
+      tenantName = tenant.name;
     }
 
     // Find user by email and tenant
@@ -39,14 +47,28 @@ export class ForgotPasswordUseCase {
     // Generate reset token (expires in 1 hour)
     const resetToken = await this.tokenRepository.generatePasswordResetToken(
       user.id,
-      3600 // 1 hour
+      RESET_TOKEN_TTL_SECONDS
     );
 
-    // TODO: Send email with reset link
-    // await emailService.sendPasswordResetEmail(user.email.value, resetToken);
-    
-    console.log(`Password reset token for ${user.email.getValue()}: ${resetToken}`);
+    if (!tenantName && user.tenantId) {
+      tenantName = (await this.tenantRepository.findById(user.tenantId))?.name;
+    }
+
+    const resetUrl = new URL(emailConfig.links.passwordReset);
+    resetUrl.searchParams.set('token', resetToken);
+
+    await this.emailService.send(EMAIL_TEMPLATE_TYPES.PASSWORD_RESET, {
+      to: user.email.getValue(),
+      tenantId: user.tenantId,
+      variables: {
+        firstName: user.firstName,
+        email: user.email.getValue(),
+        tenantName,
+        resetUrl: resetUrl.toString(),
+        expiresInMinutes: RESET_TOKEN_TTL_SECONDS / 60,
+      },
+    });
 
     return { message: 'If the email exists, a password reset link has been sent' };
   }
-}
\ No newline at end of file
+}
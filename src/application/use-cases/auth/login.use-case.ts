@@ -1,23 +1,41 @@
 import { IUserRepository } from '../../../domain/repositories/iuser-repository';
 import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
-import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
 import { IUserRoleRepository } from '../../../domain/repositories/iuser-role-repository';
+import { ITenantSecuritySettingsRepository } from '../../../domain/repositories/itenant-security-settings-repository';
+import { ITenantSamlConfigRepository } from '../../../domain/repositories/itenant-saml-config-repository';
 import { IPasswordDomainService } from '../../../domain/services/ipassword-domain.service';
+import { UserEntity } from '../../../domain/entities/user.entity';
+import { Password } from '../../../domain/value-objects/password';
 import { JwtService } from '../../../infrastructure/external/jwt.service';
-import { UnauthorizedException, NotFoundException } from '../../../domain/exceptions/domain-exceptions';
-import { LoginDto, AuthResponseDto } from '../../dto/auth.dto';
+import {
+  UnauthorizedException,
+  NotFoundException,
+  ForbiddenException,
+} from '../../../domain/exceptions/domain-exceptions';
+import { MfaPolicyService } from '../../services/mfa-policy.service';
+import { AccountLockoutService } from '../../services/account-lockout.service';
+import { PasswordPolicyService } from '../../services/password-policy.service';
+import { LoginDto, LoginResponseDto } from '../../dto/auth.dto';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_LOGIN_METHODS } from '../../../domain/constants/audit';
+import { ClientContext } from '../../../shared/types';
 import { Logger } from '../../../infrastructure/logging/logger';
 
 export class LoginUseCase {
   constructor(
     private userRepository: IUserRepository,
     private tenantRepository: ITenantRepository,
-    private tokenRepository: ITokenRepository,
     private userRoleRepository: IUserRoleRepository,
-    private passwordDomainService: IPasswordDomainService
+    private passwordDomainService: IPasswordDomainService,
+    private mfaPolicyService: MfaPolicyService,
+    private tenantSecuritySettingsRepository: ITenantSecuritySettingsRepository,
+    private accountLockoutService: AccountLockoutService,
+    private passwordPolicyService: PasswordPolicyService,
+    private tenantSamlConfigRepository: ITenantSamlConfigRepository,
+    private auditLogService: AuditLogService
   ) { }
 
-  async execute(dto: LoginDto): Promise<AuthResponseDto> {
+  async execute(dto: LoginDto, context?: ClientContext): Promise<LoginResponseDto> {
     Logger.info('User login attempt', { email: dto.email });
     
     // Find tenant if slug provided
@@ -61,6 +79,15 @@ export class LoginUseCase {
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    // Locked accounts are rejected before the password is checked, so guessing gains nothing
+    let lockout;
+    try {
+      lockout = await this.accountLockoutService.assertNotLocked(user);
+    } catch (error) {
+      await this.recordAttempt(user, context, 'account_locked');
+      throw error;
+    }
+
     // Verify password
     const isValid = await this.passwordDomainService.comparePassword(
       dto.password,
@@ -69,62 +96,83 @@ export class LoginUseCase {
 
     if (!isValid) {
       Logger.warn('Invalid password attempt', { email: dto.email });
+      await this.accountLockoutService.recordFailedLogin(user);
+      await this.recordAttempt(user, context, 'invalid_password');
       throw new UnauthorizedException('Invalid credentials');
     }
 
+    await this.upgradePasswordHash(user, dto.password);
+
     Logger.info('User authenticated successfully', { userId: user.id, email: user.email.getValue() });
 
-    // Get user roles and permissions
-    let roles: string[] = [];
-    let permissions: string[] = [];
+    // Checked after the password so the response does not reveal unverified accounts
+    if (user.tenantId && !user.isEmailVerified()) {
+      const settings = await this.tenantSecuritySettingsRepository.findByTenantId(user.tenantId);
+      if (settings.requireEmailVerification) {
+        Logger.warn('Login blocked until email is verified', { userId: user.id });
+        await this.recordAttempt(user, context, 'email_not_verified');
+        throw new ForbiddenException('Email address is not verified');
+      }
+    }
 
-    if (user.isSuperAdmin) {
-      // Super admin has all permissions
-      roles = ['super_admin'];
-      permissions = ['*']; // Wildcard for all permissions
-    } else {
-      const userWithRoles = await this.userRoleRepository.getUserWithRoles(user.id);
-      if (userWithRoles) {
-        roles = userWithRoles.roles.map((r) => r.name);
-        permissions = userWithRoles.roles.flatMap((r) =>
-          r.permissions.map((p) => p.name)
-        );
+    // Tenants that sign in through their IdP can turn password login off
+    if (user.tenantId) {
+      const samlConfig = await this.tenantSamlConfigRepository.findByTenantId(user.tenantId);
+      if (samlConfig?.isPasswordLoginDisabled()) {
+        Logger.warn('Password login blocked by tenant SSO settings', { userId: user.id });
+        await this.recordAttempt(user, context, 'password_login_disabled');
+        throw new ForbiddenException('Password login is disabled for this organization; sign in with SSO');
       }
     }
 
-    // Generate tokens
-    const jwtPayload = {
-      userId: user.id,
-      tenantId: user.tenantId,
-      email: user.email.getValue(),
-      roles,
-      permissions,
-      isSuperAdmin: user.isSuperAdmin,
-    };
-
-    const accessToken = JwtService.generateAccessToken(jwtPayload);
-    const refreshToken = JwtService.generateRefreshToken(jwtPayload);
-
-    // Save refresh token
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
-    await this.tokenRepository.save(refreshToken, user.id, expiresAt);
-    
-    Logger.info('Tokens generated successfully', { userId: user.id });
-
-    return {
-      accessToken,
-      refreshToken,
-      user: {
-        id: user.id,
-        email: user.email.getValue(),
-        firstName: user.firstName,
-        lastName: user.lastName,
-        tenantId: user.tenantId || '',
-        roles,
-        permissions,
-      },
-    };
+    // An expired password has to be replaced before the second factor and the session
+    const { expiryDays } = await this.passwordPolicyService.getEffectivePolicy(user.tenantId);
+    if (user.isPasswordExpired(expiryDays)) {
+      Logger.info('Password change required by expiry policy', { userId: user.id });
+      const challenge: LoginResponseDto = {
+        status: 'password_change_required',
+        challengeToken: JwtService.generateMfaChallengeToken(user.id, user.tenantId, 'password_change'),
+      };
+      await this.auditLogService.recordLoginResult(user, context, AUDIT_LOGIN_METHODS.PASSWORD, challenge);
+      return challenge;
+    }
+
+    const result = await this.mfaPolicyService.completeLogin(user, context);
+    await this.auditLogService.recordLoginResult(user, context, AUDIT_LOGIN_METHODS.PASSWORD, result);
+
+    // Failed attempts are kept while a second factor is pending, so they add up with wrong codes
+    if (!('challengeToken' in result)) {
+      await this.accountLockoutService.recordSuccessfulLogin(lockout);
+    }
+
+    return result;
+  }
+
+  /**
+   * Audit a refused password login of a known user
+   * @param failureReason - Why the login was refused
+   */
+  private async recordAttempt(user: UserEntity, context: ClientContext | undefined, failureReason: string): Promise<void> {
+    await this.auditLogService.recordLogin(user, context, AUDIT_LOGIN_METHODS.PASSWORD, failureReason);
+  }
+
+  /**
+   * Re-hash with the current algorithm and cost while the plain password is at hand
+   * Failures are only logged; the old hash keeps working
+   */
+  private async upgradePasswordHash(user: UserEntity, password: string): Promise<void> {
+    if (!this.passwordDomainService.needsRehash(user.getPassword().getValue())) {
+      return;
+    }
+
+    try {
+      const hashedPassword = await this.passwordDomainService.hashPassword(password);
+      user.replacePasswordHash(new Password(hashedPassword, true));
+      await this.userRepository.update(user);
+      Logger.info('Password hash upgraded', { userId: user.id });
+    } catch (error) {
+      Logger.error('Password hash upgrade failed', error as Error, { userId: user.id });
+    }
   }
 }
 
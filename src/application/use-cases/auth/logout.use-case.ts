@@ -5,7 +5,13 @@ export class LogoutUseCase {
   constructor(private tokenRepository: ITokenRepository) {}
 
   async execute(dto: RefreshTokenDto): Promise<void> {
+    // Revoke the whole family so earlier rotations of this session cannot be replayed either
+    const tokenData = await this.tokenRepository.findByToken(dto.refreshToken);
+    if (tokenData) {
+      await this.tokenRepository.revokeFamily(tokenData.familyId);
+      return;
+    }
+
     await this.tokenRepository.delete(dto.refreshToken);
   }
 }
-
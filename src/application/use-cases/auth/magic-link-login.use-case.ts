@@ -0,0 +1,76 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
+import { ITenantSecuritySettingsRepository } from '../../../domain/repositories/itenant-security-settings-repository';
+import { UserEntity } from '../../../domain/entities/user.entity';
+import { ForbiddenException, UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+import { MfaPolicyService } from '../../services/mfa-policy.service';
+import { AccountLockoutService } from '../../services/account-lockout.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_LOGIN_METHODS } from '../../../domain/constants/audit';
+import { MagicLinkLoginDto, LoginResponseDto } from '../../dto/auth.dto';
+import { ClientContext } from '../../../shared/types';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for signing in with an emailed login link
+ * The link replaces the password only; MFA and the tenant's other login policies still apply
+ */
+export class MagicLinkLoginUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private tokenRepository: ITokenRepository,
+    private tenantSecuritySettingsRepository: ITenantSecuritySettingsRepository,
+    private accountLockoutService: AccountLockoutService,
+    private mfaPolicyService: MfaPolicyService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  async execute(dto: MagicLinkLoginDto, context?: ClientContext): Promise<LoginResponseDto> {
+    // Consuming the token first makes the link single-use even if the login fails below
+    const userId = await this.tokenRepository.consumeMagicLinkToken(dto.token);
+    if (!userId) {
+      Logger.warn('Invalid magic link login attempt');
+      throw new UnauthorizedException('Invalid or expired login link');
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user || !user.tenantId) {
+      throw new UnauthorizedException('Invalid or expired login link');
+    }
+
+    // The tenant may have turned magic links off after this one was sent
+    const settings = await this.tenantSecuritySettingsRepository.findByTenantId(user.tenantId);
+    if (!settings.magicLinkEnabled) {
+      await this.recordAttempt(user, context, 'magic_link_disabled');
+      throw new UnauthorizedException('Invalid or expired login link');
+    }
+
+    try {
+      await this.accountLockoutService.assertNotLocked(user);
+    } catch (error) {
+      await this.recordAttempt(user, context, 'account_locked');
+      throw error;
+    }
+
+    if (settings.requireEmailVerification && !user.isEmailVerified()) {
+      Logger.warn('Login blocked until email is verified', { userId: user.id });
+      await this.recordAttempt(user, context, 'email_not_verified');
+      throw new ForbiddenException('Email address is not verified');
+    }
+
+    Logger.info('User authenticated with magic link', { userId: user.id, email: user.email.getValue() });
+
+    const result = await this.mfaPolicyService.completeLogin(user, context);
+    await this.auditLogService.recordLoginResult(user, context, AUDIT_LOGIN_METHODS.MAGIC_LINK, result);
+
+    return result;
+  }
+
+  /**
+   * Audit a refused login with a valid link; invalid links cannot be tied to a user and are only logged
+   * @param failureReason - Why the login was refused
+   */
+  private async recordAttempt(user: UserEntity, context: ClientContext | undefined, failureReason: string): Promise<void> {
+    await this.auditLogService.recordLogin(user, context, AUDIT_LOGIN_METHODS.MAGIC_LINK, failureReason);
+  }
+}
@@ -11,6 +11,7 @@ import { Email } from '../../../domain/value-objects/email';
 import { Password } from '../../../domain/value-objects/password';
 import { ConflictException, NotFoundException, BusinessRuleException } from '../../../domain/exceptions/domain-exceptions';
 import { OnboardDto } from '../../dto/auth.dto';
+import { PasswordPolicyService } from '../../services/password-policy.service';
 import { prisma } from '../../../infrastructure/config/database';
 import { eventBus } from '../../../infrastructure/events/event-bus';
 import { UserCreatedEvent } from '../../../domain/events/user-created.event';
@@ -35,7 +36,8 @@ export class OnboardUseCase {
     private roleRepository: IRoleRepository,
     private permissionRepository: IPermissionRepository,
     private systemConfigRepository: ISystemConfigRepository,
-    private passwordDomainService: IPasswordDomainService
+    private passwordDomainService: IPasswordDomainService,
+    private passwordPolicyService: PasswordPolicyService
   ) { }
 
   async execute(dto: OnboardDto): Promise<void> {
@@ -62,6 +64,9 @@ export class OnboardUseCase {
       throw new ConflictException('User with this email already exists');
     }
 
+    // The super admin is not part of any tenant, so the global password policy applies
+    await this.passwordPolicyService.createPassword(dto.password, null);
+
     // Hash password (outside transaction as it's not a DB operation)
     const hashedPassword = await this.passwordDomainService.hashPassword(dto.password);
 
@@ -1,19 +1,32 @@
 import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
 import { IUserRepository } from '../../../domain/repositories/iuser-repository';
-import { IUserRoleRepository } from '../../../domain/repositories/iuser-role-repository';
 import { JwtService } from '../../../infrastructure/external/jwt.service';
 import { UnauthorizedException, NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { AuthTokenService } from '../../services/auth-token.service';
+import { MfaPolicyService } from '../../services/mfa-policy.service';
 import { RefreshTokenDto, AuthResponseDto } from '../../dto/auth.dto';
+import { ClientContext } from '../../../shared/types';
+import { eventBus } from '../../../infrastructure/events/event-bus';
+import { RefreshTokenReuseDetectedEvent } from '../../../domain/events/refresh-token-reuse-detected.event';
 import { Logger } from '../../../infrastructure/logging/logger';
 
+/**
+ * Use case for exchanging a refresh token for a new token pair
+ *
+ * Business Rules:
+ * - Every refresh rotates the token; the new one joins the same token family
+ * - Presenting a token that was already rotated is treated as theft:
+ *   the whole family is revoked and a RefreshTokenReuseDetected event is emitted
+ */
 export class RefreshTokenUseCase {
   constructor(
     private tokenRepository: ITokenRepository,
     private userRepository: IUserRepository,
-    private userRoleRepository: IUserRoleRepository
+    private authTokenService: AuthTokenService,
+    private mfaPolicyService: MfaPolicyService
   ) { }
 
-  async execute(dto: RefreshTokenDto): Promise<AuthResponseDto> {
+  async execute(dto: RefreshTokenDto, context?: ClientContext): Promise<AuthResponseDto> {
     Logger.debug('Refreshing token', { userId: 'unknown' });
     
     // Verify refresh token
@@ -33,62 +46,41 @@ export class RefreshTokenUseCase {
       throw new UnauthorizedException('Refresh token not found or expired');
     }
 
+    if (tokenData.rotatedAt) {
+      return this.handleReuse(tokenData.userId, payload.tenantId, tokenData.familyId);
+    }
+
     // Get user
     const user = await this.userRepository.findById(payload.userId, payload.tenantId);
     if (!user) {
       throw new NotFoundException('User', payload.userId);
     }
 
-    // Get user roles and permissions
-    let roles: string[] = [];
-    let permissions: string[] = [];
-
-    if (user.isSuperAdmin) {
-      // Super admin has all permissions
-      roles = ['super_admin'];
-      permissions = ['*']; // Wildcard for all permissions
-    } else {
-      const userWithRoles = await this.userRoleRepository.getUserWithRoles(user.id);
-      if (userWithRoles) {
-        roles = userWithRoles.roles.map((r) => r.name);
-        permissions = userWithRoles.roles.flatMap((r) =>
-          r.permissions.map((p) => p.name)
-        );
-      }
+    // Sessions created before the tenant turned on MFA must not outlive the policy change
+    if (await this.mfaPolicyService.isEnrollmentRequired(user)) {
+      Logger.warn('Refresh rejected: MFA enrollment required', { userId: user.id });
+      await this.tokenRepository.revokeFamily(tokenData.familyId);
+      throw new UnauthorizedException('MFA enrollment required. Please log in again.');
     }
 
-    // Generate new tokens
-    const jwtPayload = {
-      userId: user.id,
-      tenantId: user.tenantId,
-      email: user.email.getValue(),
-      roles,
-      permissions,
-      isSuperAdmin: user.isSuperAdmin,
-    };
-
-    const accessToken = JwtService.generateAccessToken(jwtPayload);
-    const newRefreshToken = JwtService.generateRefreshToken(jwtPayload);
+    // Rotate within the family; losing the race to a concurrent refresh also counts as reuse
+    const result = await this.authTokenService.rotateTokens(
+      user,
+      dto.refreshToken,
+      tokenData.familyId,
+      context
+    );
+    if (!result) {
+      return this.handleReuse(user.id, user.tenantId, tokenData.familyId);
+    }
 
-    // Delete old refresh token and save new one
-    await this.tokenRepository.delete(dto.refreshToken);
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7);
-    await this.tokenRepository.save(newRefreshToken, user.id, expiresAt);
+    return result;
+  }
 
-    return {
-      accessToken,
-      refreshToken: newRefreshToken,
-      user: {
-        id: user.id,
-        email: user.email.getValue(),
-        firstName: user.firstName,
-        lastName: user.lastName,
-        tenantId: user.tenantId || '',
-        roles,
-        permissions,
-      },
-    };
+  private async handleReuse(userId: string, tenantId: string | null, familyId: string): Promise<never> {
+    Logger.warn('Rotated refresh token presented again, revoking token family', { userId });
+    await this.tokenRepository.revokeFamily(familyId);
+    await eventBus.publish(new RefreshTokenReuseDetectedEvent(userId, tenantId, familyId));
+    throw new UnauthorizedException('Refresh token has already been used');
   }
 }
-
@@ -12,6 +12,7 @@ import { Password } from '../../../domain/value-objects/password';
 import { ConflictException, NotFoundException, BusinessRuleException } from '../../../domain/exceptions/domain-exceptions';
 import { IPermissionRepository } from '../../../domain/repositories/ipermission-repository';
 import { RegisterDto } from '../../dto/auth.dto';
+import { PasswordPolicyService } from '../../services/password-policy.service';
 import { prisma } from '../../../infrastructure/config/database';
 import { eventBus } from '../../../infrastructure/events/event-bus';
 import { TenantCreatedEvent } from '../../../domain/events/tenant-created.event';
@@ -43,7 +44,8 @@ export class RegisterUseCase {
     private systemConfigRepository: ISystemConfigRepository,
     private adminLimitService: AdminLimitService,
     private passwordDomainService: IPasswordDomainService,
-    private tenantSetupService: TenantSetupService
+    private tenantSetupService: TenantSetupService,
+    private passwordPolicyService: PasswordPolicyService
   ) { }
 
   async execute(dto: RegisterDto): Promise<void> {
@@ -59,6 +61,9 @@ export class RegisterUseCase {
       throw new ConflictException('Tenant slug already exists');
     }
 
+    // New tenants start on the global password policy
+    await this.passwordPolicyService.createPassword(dto.password, null);
+
     // Wrap all database operations in a transaction to ensure atomicity
     let tenantId!: string;
     let userId!: string;
@@ -0,0 +1,73 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantSecuritySettingsRepository } from '../../../domain/repositories/itenant-security-settings-repository';
+import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
+import { DomainException, ForbiddenException } from '../../../domain/exceptions/domain-exceptions';
+import { Email } from '../../../domain/value-objects/email';
+import { EMAIL_TEMPLATE_TYPES } from '../../../domain/constants/email-templates';
+import { EmailService } from '../../services/email.service';
+import { MagicLinkRequestDto } from '../../dto/auth.dto';
+import { emailConfig } from '../../../infrastructure/config/email.config';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+const MAGIC_LINK_SENT_MESSAGE = 'If the email exists, a login link has been sent';
+
+/**
+ * Use case for emailing a passwordless login link
+ * Only available in tenants that enabled magic link login
+ */
+export class RequestMagicLinkUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private tenantRepository: ITenantRepository,
+    private tenantSecuritySettingsRepository: ITenantSecuritySettingsRepository,
+    private tokenRepository: ITokenRepository,
+    private emailService: EmailService,
+    private config: typeof emailConfig = emailConfig
+  ) {}
+
+  async execute(dto: MagicLinkRequestDto): Promise<{ message: string }> {
+    const tenant = await this.tenantRepository.findBySlug(dto.tenantSlug);
+    if (!tenant) {
+      throw new DomainException('Invalid tenant', 400);
+    }
+
+    const settings = await this.tenantSecuritySettingsRepository.findByTenantId(tenant.id);
+    if (!settings.magicLinkEnabled) {
+      throw new ForbiddenException('Magic link login is not enabled for this tenant');
+    }
+
+    const user = await this.userRepository.findByEmail(new Email(dto.email).getValue(), tenant.id);
+    if (!user) {
+      // Don't reveal if user exists for security
+      return { message: MAGIC_LINK_SENT_MESSAGE };
+    }
+
+    const { tokenTtlSeconds, maxPerHour } = this.config.magicLink;
+    const sentLastHour = await this.tokenRepository.countMagicLinkTokensSince(user.id, new Date(Date.now() - 3600 * 1000));
+    if (sentLastHour >= maxPerHour) {
+      Logger.warn('Magic link request throttled', { userId: user.id });
+      return { message: MAGIC_LINK_SENT_MESSAGE };
+    }
+
+    const token = await this.tokenRepository.generateMagicLinkToken(user.id, tokenTtlSeconds);
+    const magicLinkUrl = new URL(this.config.links.magicLink);
+    magicLinkUrl.searchParams.set('token', token);
+
+    await this.emailService.send(EMAIL_TEMPLATE_TYPES.MAGIC_LINK, {
+      to: user.email.getValue(),
+      tenantId: user.tenantId,
+      variables: {
+        firstName: user.firstName,
+        email: user.email.getValue(),
+        tenantName: tenant.name,
+        magicLinkUrl: magicLinkUrl.toString(),
+        expiresInMinutes: Math.round(tokenTtlSeconds / 60),
+      },
+    });
+
+    Logger.info('Magic link sent', { userId: user.id, tenantId: tenant.id });
+
+    return { message: MAGIC_LINK_SENT_MESSAGE };
+  }
+}
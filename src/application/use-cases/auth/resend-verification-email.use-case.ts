@@ -0,0 +1,45 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { DomainException } from '../../../domain/exceptions/domain-exceptions';
+import { Email } from '../../../domain/value-objects/email';
+import { EmailVerificationService } from '../../services/email-verification.service';
+
+export interface ResendVerificationEmailDto {
+  email: string;
+  tenantSlug?: string;
+}
+
+const RESPONSE_MESSAGE = 'If the email exists and is not verified, a verification link has been sent';
+
+/**
+ * Use case for requesting a new verification link without being signed in
+ * (users of tenants that block login until verification cannot authenticate)
+ */
+export class ResendVerificationEmailUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private tenantRepository: ITenantRepository,
+    private emailVerificationService: EmailVerificationService
+  ) {}
+
+  async execute(dto: ResendVerificationEmailDto): Promise<{ message: string }> {
+    const email = new Email(dto.email);
+    let tenantId: string | null = null;
+
+    if (dto.tenantSlug) {
+      const tenant = await this.tenantRepository.findBySlug(dto.tenantSlug);
+      if (!tenant) {
+        throw new DomainException('Invalid tenant', 400);
+      }
+      tenantId = tenant.id;
+    }
+
+    // Same response whether the user exists, is verified or is throttled
+    const user = await this.userRepository.findByEmail(email.getValue(), tenantId);
+    if (user && !user.isEmailVerified()) {
+      await this.emailVerificationService.sendVerification(user);
+    }
+
+    return { message: RESPONSE_MESSAGE };
+  }
+}
@@ -1,8 +1,11 @@
 import { IUserRepository } from '../../../domain/repositories/iuser-repository';
 import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
+import { ITokenVersionRepository } from '../../../domain/repositories/itoken-version-repository';
 import { IPasswordHasher } from '../../../domain/services/ipassword-hasher';
 import { DomainException } from '../../../domain/exceptions/domain-exceptions';
 import { Password } from '../../../domain/value-objects/password';
+import { PasswordHistoryService } from '../../services/password-history.service';
+import { PasswordPolicyService } from '../../services/password-policy.service';
 
 export interface ResetPasswordDto {
   token: string;
@@ -13,7 +16,10 @@ export class ResetPasswordUseCase {
   constructor(
     private userRepository: IUserRepository,
     private tokenRepository: ITokenRepository,
-    private passwordHasher: IPasswordHasher
+    private passwordHasher: IPasswordHasher,
+    private tokenVersionRepository: ITokenVersionRepository,
+    private passwordHistoryService: PasswordHistoryService,
+    private passwordPolicyService: PasswordPolicyService
   ) {}
 
   async execute(dto: ResetPasswordDto): Promise<{ message: string }> {
@@ -30,19 +36,24 @@ export class ResetPasswordUseCase {
     }
 
     // Create new password
-    const newPassword = new Password(dto.password);
+    const newPassword = await this.passwordPolicyService.createPassword(dto.password, user.tenantId);
+    await this.passwordHistoryService.assertNotReused(user, newPassword.getValue());
+    const previousHash = user.getPassword().getValue();
+
     const hashedPassword = await this.passwordHasher.hash(newPassword.getValue());
-    const hashedPasswordObj = new Password(hashedPassword);
+    const hashedPasswordObj = new Password(hashedPassword, true);
 
     // Update user password
     user.updatePassword(hashedPasswordObj);
     await this.userRepository.update(user);
+    await this.passwordHistoryService.recordChange(user, previousHash);
 
     // Invalidate the reset token
     await this.tokenRepository.invalidatePasswordResetToken(dto.token);
 
     // Invalidate all user sessions for security
     await this.tokenRepository.invalidateAllUserTokens(userId);
+    await this.tokenVersionRepository.increment(userId);
 
     return { message: 'Password reset successfully' };
   }
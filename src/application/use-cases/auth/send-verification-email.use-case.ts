@@ -0,0 +1,34 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import {
+  ConflictException,
+  NotFoundException,
+  TooManyRequestsException,
+} from '../../../domain/exceptions/domain-exceptions';
+import { EmailVerificationService } from '../../services/email-verification.service';
+
+/**
+ * Use case for a signed-in user asking for a new verification link
+ */
+export class SendVerificationEmailUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private emailVerificationService: EmailVerificationService
+  ) {}
+
+  async execute(userId: string, tenantId: string | null): Promise<{ message: string }> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    if (user.isEmailVerified()) {
+      throw new ConflictException('Email address is already verified');
+    }
+
+    if (!(await this.emailVerificationService.sendVerification(user))) {
+      throw new TooManyRequestsException('A verification email was sent recently, please try again later');
+    }
+
+    return { message: 'Verification email sent' };
+  }
+}
@@ -1,13 +1,17 @@
 import { JwtService } from '../../../infrastructure/external/jwt.service';
 import { IUserRepository } from '../../../domain/repositories/iuser-repository';
 import { IUserRoleRepository } from '../../../domain/repositories/iuser-role-repository';
+import { ITokenVersionRepository } from '../../../domain/repositories/itoken-version-repository';
 import { UnauthorizedException, NotFoundException } from '../../../domain/exceptions/domain-exceptions';
-import { JwtPayload } from '../../../shared/types';
+import { IOAuthClientRepository } from '../../../domain/repositories/ioauth-client-repository';
+import { JwtPayload, PrincipalType } from '../../../shared/types';
 
 export interface ValidateTokenResponse {
   valid: boolean;
   expired?: boolean;
   invalid?: boolean;
+  revoked?: boolean;
+  principalType?: PrincipalType;
   user?: {
     id: string;
     email: string;
@@ -18,13 +22,22 @@ export interface ValidateTokenResponse {
     permissions: string[];
     isSuperAdmin: boolean;
   };
+  serviceClient?: {
+    id: string;
+    clientId: string;
+    tenantId: string;
+    roles: string[];
+    permissions: string[];
+  };
   message?: string;
 }
 
 export class ValidateTokenUseCase {
   constructor(
     private userRepository: IUserRepository,
-    private userRoleRepository: IUserRoleRepository
+    private userRoleRepository: IUserRoleRepository,
+    private tokenVersionRepository: ITokenVersionRepository,
+    private oauthClientRepository: IOAuthClientRepository
   ) {}
 
   async execute(token: string): Promise<ValidateTokenResponse> {
@@ -48,7 +61,7 @@ export class ValidateTokenUseCase {
     }
 
     // Try to verify token
-    let payload: JwtPayload;
+    let payload: JwtPayload & { version?: number };
     try {
       payload = JwtService.verifyToken(token);
     } catch (error: any) {
@@ -78,8 +91,21 @@ export class ValidateTokenUseCase {
       };
     }
 
-    // Token is valid, now check if user still exists
+    if (payload.principalType === 'service') {
+      return this.validateServiceToken(payload);
+    }
+
+    // Token is valid, now check if user still exists and the token was not revoked
     try {
+      const currentVersion = await this.tokenVersionRepository.getVersion(payload.userId);
+      if (currentVersion !== null && (payload.version ?? 1) !== currentVersion) {
+        return {
+          valid: false,
+          revoked: true,
+          message: 'Token has been revoked',
+        };
+      }
+
       const user = await this.userRepository.findById(payload.userId, payload.tenantId);
       if (!user) {
         return {
@@ -108,6 +134,7 @@ export class ValidateTokenUseCase {
 
       return {
         valid: true,
+        principalType: 'user',
         user: {
           id: user.id,
           email: user.email.getValue(),
@@ -128,5 +155,48 @@ export class ValidateTokenUseCase {
       };
     }
   }
-}
 
+  /**
+   * Service principal tokens (client_credentials) identify an OAuth client instead of a user
+   */
+  private async validateServiceToken(payload: JwtPayload & { version?: number }): Promise<ValidateTokenResponse> {
+    try {
+      const currentVersion = await this.tokenVersionRepository.getServiceClientVersion(payload.userId);
+      const client = currentVersion === null ? null : await this.oauthClientRepository.findById(payload.userId);
+      if (!client) {
+        return {
+          valid: false,
+          invalid: true,
+          message: 'Service client associated with token no longer exists',
+        };
+      }
+
+      if ((payload.version ?? 1) !== currentVersion) {
+        return {
+          valid: false,
+          revoked: true,
+          message: 'Token has been revoked',
+        };
+      }
+
+      return {
+        valid: true,
+        principalType: 'service',
+        serviceClient: {
+          id: client.id,
+          clientId: client.clientId,
+          tenantId: client.tenantId,
+          roles: payload.roles,
+          permissions: payload.permissions,
+        },
+        message: 'Token is valid',
+      };
+    } catch (error) {
+      return {
+        valid: false,
+        invalid: true,
+        message: 'Failed to verify service client associated with token',
+      };
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
+import { BadRequestException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+export interface VerifyEmailDto {
+  token: string;
+}
+
+/**
+ * Use case for confirming an email address with the token from the verification link
+ */
+export class VerifyEmailUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private tokenRepository: ITokenRepository
+  ) {}
+
+  async execute(dto: VerifyEmailDto): Promise<{ message: string }> {
+    const record = await this.tokenRepository.validateEmailVerificationToken(dto.token);
+    if (!record) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    // Fails if the email was changed after the link was sent
+    const verified = await this.userRepository.markEmailVerified(record.userId, record.email, new Date());
+    if (!verified) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    await this.tokenRepository.invalidateEmailVerificationTokens(record.userId);
+    Logger.info('Email address verified', { userId: record.userId });
+
+    return { message: 'Email address verified successfully' };
+  }
+}
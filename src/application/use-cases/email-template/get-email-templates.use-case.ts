@@ -0,0 +1,38 @@
+import { IEmailTemplateRepository } from '../../../domain/repositories/iemail-template-repository';
+import { EmailTemplateEntity } from '../../../domain/entities/email-template.entity';
+import { EMAIL_TEMPLATE_TYPE_VALUES } from '../../../domain/constants/email-templates';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { EmailTemplateResponseDto } from '../../dto/email-template.dto';
+
+export function toEmailTemplateResponse(template: EmailTemplateEntity): EmailTemplateResponseDto {
+  return {
+    type: template.type,
+    subject: template.subject,
+    textBody: template.textBody,
+    htmlBody: template.htmlBody,
+    isDefault: template.isDefault(),
+    updatedAt: template.updatedAt,
+  };
+}
+
+/**
+ * Use case for listing the templates a tenant's emails are rendered with
+ */
+export class GetEmailTemplatesUseCase {
+  constructor(private emailTemplateRepository: IEmailTemplateRepository) {}
+
+  /**
+   * @param tenantId - Tenant whose templates are listed (one per type, built-in where not overridden)
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   */
+  async execute(tenantId: string, requesterTenantId: string | null): Promise<EmailTemplateResponseDto[]> {
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const templates = await Promise.all(
+      EMAIL_TEMPLATE_TYPE_VALUES.map((type) => this.emailTemplateRepository.findEffective(tenantId, type))
+    );
+    return templates.map(toEmailTemplateResponse);
+  }
+}
@@ -0,0 +1,52 @@
+import { IEmailTemplateRepository } from '../../../domain/repositories/iemail-template-repository';
+import { EmailTemplateType } from '../../../domain/constants/email-templates';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { EmailTemplateResponseDto } from '../../dto/email-template.dto';
+import { toEmailTemplateResponse } from './get-email-templates.use-case';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for dropping a tenant's template override so the built-in template applies again
+ */
+export class ResetEmailTemplateUseCase {
+  constructor(
+    private emailTemplateRepository: IEmailTemplateRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    type: EmailTemplateType,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<EmailTemplateResponseDto> {
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const current = await this.emailTemplateRepository.findEffective(tenantId, type);
+    await this.emailTemplateRepository.delete(tenantId, type);
+    Logger.info('Email template reset to default', { tenantId, type, updatedBy: requester.userId });
+
+    const reset = await this.emailTemplateRepository.findEffective(tenantId, type);
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.EMAIL_TEMPLATE_RESET,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.EMAIL_TEMPLATE,
+      targetId: type,
+      changes: AuditEventEntity.diff(
+        { ...toEmailTemplateResponse(current), updatedAt: undefined },
+        { ...toEmailTemplateResponse(reset), updatedAt: undefined }
+      ),
+    });
+
+    return toEmailTemplateResponse(reset);
+  }
+}
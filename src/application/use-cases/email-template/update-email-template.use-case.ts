@@ -0,0 +1,73 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { IEmailTemplateRepository } from '../../../domain/repositories/iemail-template-repository';
+import { EmailTemplateType } from '../../../domain/constants/email-templates';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { EmailTemplateResponseDto, UpdateEmailTemplateDto } from '../../dto/email-template.dto';
+import { toEmailTemplateResponse } from './get-email-templates.use-case';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for overriding one of a tenant's email templates
+ */
+export class UpdateEmailTemplateUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private emailTemplateRepository: IEmailTemplateRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant whose template is changed
+   * @param type - Template type
+   * @param dto - New subject and bodies
+   * @param requester - Requesting admin (tenantId is null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    type: EmailTemplateType,
+    dto: UpdateEmailTemplateDto,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<EmailTemplateResponseDto> {
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const current = await this.emailTemplateRepository.findEffective(tenantId, type);
+    const saved = await this.emailTemplateRepository.save(
+      tenantId,
+      type,
+      {
+        subject: dto.subject,
+        textBody: dto.textBody,
+        htmlBody: dto.htmlBody || null,
+      },
+      requester.userId
+    );
+
+    Logger.info('Email template updated', { tenantId, type, updatedBy: requester.userId });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.EMAIL_TEMPLATE_UPDATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.EMAIL_TEMPLATE,
+      targetId: type,
+      changes: AuditEventEntity.diff(
+        { ...toEmailTemplateResponse(current), updatedAt: undefined },
+        { ...toEmailTemplateResponse(saved), updatedAt: undefined }
+      ),
+    });
+
+    return toEmailTemplateResponse(saved);
+  }
+}
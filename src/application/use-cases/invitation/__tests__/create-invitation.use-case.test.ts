@@ -0,0 +1,50 @@
+import { CreateInvitationUseCase } from '../create-invitation.use-case';
+import { ITenantRepository } from '../../../../domain/repositories/itenant-repository';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { IRoleRepository } from '../../../../domain/repositories/irole-repository';
+import { IInvitationRepository } from '../../../../domain/repositories/iinvitation-repository';
+import { ISecureTokenGenerator } from '../../../../domain/services/isecure-token-generator';
+import { AdminLimitService } from '../../../../domain/services/admin-limit.service';
+import { TenantEntity } from '../../../../domain/entities/tenant.entity';
+import { ConflictException } from '../../../../domain/exceptions/domain-exceptions';
+import { EmailService } from '../../../services/email.service';
+import { AuditLogService } from '../../../services/audit-log.service';
+
+describe('CreateInvitationUseCase', () => {
+  const tenant = new TenantEntity('tenant-1', 'Acme', 'acme', new Date(), new Date());
+  const requester = { userId: 'admin-1', tenantId: 'tenant-1' };
+
+  let userRepository: { findByEmailOnly: jest.Mock };
+  let invitationRepository: { findPendingByEmail: jest.Mock; create: jest.Mock };
+  let emailService: { send: jest.Mock };
+  let useCase: CreateInvitationUseCase;
+
+  beforeEach(() => {
+    userRepository = { findByEmailOnly: jest.fn().mockResolvedValue(null) };
+    invitationRepository = { findPendingByEmail: jest.fn().mockResolvedValue([]), create: jest.fn() };
+    emailService = { send: jest.fn() };
+
+    useCase = new CreateInvitationUseCase(
+      { findById: jest.fn().mockResolvedValue(tenant) } as unknown as ITenantRepository,
+      userRepository as unknown as IUserRepository,
+      {} as IRoleRepository,
+      invitationRepository as unknown as IInvitationRepository,
+      {} as AdminLimitService,
+      {} as ISecureTokenGenerator,
+      emailService as unknown as EmailService,
+      {} as AuditLogService
+    );
+  });
+
+  it('should refuse an address used in another tenant or by a removed user', async () => {
+    userRepository.findByEmailOnly.mockResolvedValue({ id: 'user-2', email: 'ada@example.com', tenantId: 'tenant-2' });
+
+    await expect(
+      useCase.execute('tenant-1', { email: 'ada@example.com', roleIds: [] }, requester)
+    ).rejects.toThrow(ConflictException);
+
+    expect(userRepository.findByEmailOnly).toHaveBeenCalledWith('ada@example.com');
+    expect(invitationRepository.create).not.toHaveBeenCalled();
+    expect(emailService.send).not.toHaveBeenCalled();
+  });
+});
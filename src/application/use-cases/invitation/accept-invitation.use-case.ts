@@ -0,0 +1,166 @@
+import { IInvitationRepository } from '../../../domain/repositories/iinvitation-repository';
+import { IUserRoleRepository } from '../../../domain/repositories/iuser-role-repository';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { IPasswordDomainService } from '../../../domain/services/ipassword-domain.service';
+import { ROLE_NAMES } from '../../../domain/constants/role-names';
+import {
+  BadRequestException,
+  BusinessRuleException,
+  ConflictException,
+  NotFoundException,
+} from '../../../domain/exceptions/domain-exceptions';
+import { UserCreatedEvent } from '../../../domain/events/user-created.event';
+import { prisma } from '../../../infrastructure/config/database';
+import { eventBus } from '../../../infrastructure/events/event-bus';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AcceptInvitationDto } from '../../dto/invitation.dto';
+import { UserResponseDto } from '../../dto/user.dto';
+import { PasswordPolicyService } from '../../services/password-policy.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_ACTIONS, AUDIT_ACTOR_TYPES, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { ClientContext } from '../../../shared/types';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Use case for accepting an invitation: the invitee creates their account with their own password
+ *
+ * Business Rules:
+ * - The invitation must be pending (not accepted, revoked or expired)
+ * - The invited roles that still exist are assigned; the admin limit is checked again
+ * - The email counts as verified, since the invitee received the link there
+ * - Accepting and creating the user happen in one transaction, so a link works only once
+ */
+export class AcceptInvitationUseCase {
+  constructor(
+    private invitationRepository: IInvitationRepository,
+    private userRoleRepository: IUserRoleRepository,
+    private secureTokenGenerator: ISecureTokenGenerator,
+    private passwordDomainService: IPasswordDomainService,
+    private passwordPolicyService: PasswordPolicyService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param context - Client of the invitee, for the audit log
+   */
+  async execute(dto: AcceptInvitationDto, context?: ClientContext): Promise<UserResponseDto> {
+    const tokenHash = this.secureTokenGenerator.hash(dto.token);
+    const invitation = await this.invitationRepository.findByTokenHash(tokenHash);
+    if (!invitation || !invitation.isPending()) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    const tenantId = invitation.tenantId;
+    const existingUser = await prisma.user.findFirst({
+      where: { email: invitation.email },
+    });
+    if (existingUser) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    await this.passwordPolicyService.createPassword(dto.password, tenantId);
+
+    // Hash password (outside transaction as it's not a DB operation)
+    const hashedPassword = await this.passwordDomainService.hashPassword(dto.password);
+
+    const userId = uuidv4();
+    const now = new Date();
+    await prisma.$transaction(async (tx) => {
+      // Claim the invitation; fails if it was accepted or revoked concurrently
+      const { count } = await tx.invitation.updateMany({
+        where: {
+          id: invitation.id,
+          tokenHash,
+          acceptedAt: null,
+          revokedAt: null,
+          expiresAt: { gt: now },
+        },
+        data: { acceptedAt: now, acceptedUserId: userId },
+      });
+      if (count === 0) {
+        throw new BadRequestException('Invalid or expired invitation');
+      }
+
+      // Roles deleted since the invitation was sent are skipped
+      const roles = await tx.role.findMany({
+        where: { id: { in: invitation.roleIds }, tenantId },
+      });
+
+      if (roles.some((role) => role.name === ROLE_NAMES.ADMIN)) {
+        const adminCount = await tx.userRole.count({
+          where: {
+            role: {
+              name: ROLE_NAMES.ADMIN,
+              tenantId,
+            },
+          },
+        });
+
+        if (adminCount >= 2) {
+          throw new BusinessRuleException('Maximum 2 admins allowed per tenant');
+        }
+      }
+
+      await tx.user.create({
+        data: {
+          id: userId,
+          email: invitation.email,
+          password: hashedPassword,
+          firstName: dto.firstName,
+          lastName: dto.lastName,
+          tenantId,
+          isSuperAdmin: false,
+          emailVerifiedAt: now,
+          createdBy: invitation.invitedBy,
+        },
+      });
+
+      if (roles.length > 0) {
+        await tx.userRole.createMany({
+          data: roles.map((role) => ({
+            userId,
+            roleId: role.id,
+          })),
+          skipDuplicates: true,
+        });
+      }
+    });
+
+    Logger.info('Invitation accepted', { tenantId, invitationId: invitation.id, userId });
+
+    // The invitee acts as the account they just created
+    await this.auditLogService.record(
+      { ...context, actorId: userId, actorType: AUDIT_ACTOR_TYPES.USER },
+      {
+        action: AUDIT_ACTIONS.INVITATION_ACCEPTED,
+        tenantId,
+        targetType: AUDIT_TARGET_TYPES.INVITATION,
+        targetId: invitation.id,
+        metadata: { userId },
+      }
+    );
+
+    // Emit domain event (outside transaction)
+    await eventBus.publish(new UserCreatedEvent(userId, invitation.email, tenantId, false));
+
+    const userWithRoles = await this.userRoleRepository.getUserWithRoles(userId);
+    if (!userWithRoles) {
+      throw new NotFoundException('User', userId);
+    }
+
+    return {
+      id: userWithRoles.id,
+      email: userWithRoles.email,
+      firstName: userWithRoles.firstName,
+      lastName: userWithRoles.lastName,
+      tenantId: userWithRoles.tenantId,
+      roles: userWithRoles.roles.map((role) => ({
+        id: role.id,
+        name: role.name,
+        description: role.description,
+      })),
+      createdAt: userWithRoles.createdAt,
+      updatedAt: userWithRoles.updatedAt,
+    };
+  }
+}
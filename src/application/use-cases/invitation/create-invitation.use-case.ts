@@ -0,0 +1,165 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IRoleRepository } from '../../../domain/repositories/irole-repository';
+import { IInvitationRepository } from '../../../domain/repositories/iinvitation-repository';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { AdminLimitService } from '../../../domain/services/admin-limit.service';
+import { InvitationEntity } from '../../../domain/entities/invitation.entity';
+import { TenantEntity } from '../../../domain/entities/tenant.entity';
+import { Email } from '../../../domain/value-objects/email';
+import { INVITATION_TOKEN_PREFIX } from '../../../domain/constants/invitations';
+import { EMAIL_TEMPLATE_TYPES } from '../../../domain/constants/email-templates';
+import { ROLE_NAMES } from '../../../domain/constants/role-names';
+import { ConflictException, NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { emailConfig } from '../../../infrastructure/config/email.config';
+import { invitationConfig } from '../../../infrastructure/config/invitation.config';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { EmailService } from '../../services/email.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { CreateInvitationDto, InvitationResponseDto } from '../../dto/invitation.dto';
+
+export function toInvitationResponse(invitation: InvitationEntity): InvitationResponseDto {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    roleIds: invitation.roleIds,
+    status: invitation.getStatus(),
+    expiresAt: invitation.expiresAt,
+    acceptedAt: invitation.acceptedAt,
+    acceptedUserId: invitation.acceptedUserId,
+    revokedAt: invitation.revokedAt,
+    invitedBy: invitation.invitedBy,
+    lastSentAt: invitation.lastSentAt,
+    createdAt: invitation.createdAt,
+  };
+}
+
+export function invitationExpiresAt(now: Date = new Date()): Date {
+  return new Date(now.getTime() + invitationConfig.ttlDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Mail the accept link of an invitation
+ * @param token - Plaintext accept token (only its hash is stored)
+ * @param inviterName - Name shown as the sender of the invitation
+ */
+export async function sendInvitationEmail(
+  emailService: EmailService,
+  invitation: InvitationEntity,
+  token: string,
+  tenant: TenantEntity,
+  inviterName: string
+): Promise<void> {
+  const acceptUrl = new URL(emailConfig.links.acceptInvitation);
+  acceptUrl.searchParams.set('token', token);
+
+  await emailService.send(EMAIL_TEMPLATE_TYPES.INVITATION, {
+    to: invitation.email,
+    tenantId: invitation.tenantId,
+    variables: {
+      email: invitation.email,
+      tenantName: tenant.name,
+      inviterName,
+      acceptUrl: acceptUrl.toString(),
+      expiresInDays: invitationConfig.ttlDays,
+    },
+  });
+}
+
+/**
+ * Use case for inviting an email address to join a tenant
+ *
+ * Business Rules:
+ * - The address must not belong to any user, in any tenant or removed, or have a pending invitation
+ * - Roles must exist in the tenant; the admin limit applies to invited admins too
+ * - The invitee chooses their own password when accepting
+ */
+export class CreateInvitationUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private userRepository: IUserRepository,
+    private roleRepository: IRoleRepository,
+    private invitationRepository: IInvitationRepository,
+    private adminLimitService: AdminLimitService,
+    private secureTokenGenerator: ISecureTokenGenerator,
+    private emailService: EmailService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant the invitee joins
+   * @param dto - Invited email and roles
+   * @param requester - Requesting admin (tenantId is null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    dto: CreateInvitationDto,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<InvitationResponseDto> {
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const email = new Email(dto.email).getValue();
+
+    // Emails are unique across tenants, and removed users keep theirs
+    if (await this.userRepository.findByEmailOnly(email)) {
+      throw new ConflictException('User with this email already exists');
+    }
+
+    const now = new Date();
+    if ((await this.invitationRepository.findPendingByEmail(tenantId, email, now)).length > 0) {
+      throw new ConflictException('A pending invitation for this email already exists');
+    }
+
+    const roleIds = [...new Set(dto.roleIds)];
+    for (const roleId of roleIds) {
+      const role = await this.roleRepository.findById(roleId, tenantId);
+      if (!role) {
+        throw new NotFoundException('Role', roleId);
+      }
+      if (role.name === ROLE_NAMES.ADMIN) {
+        await this.adminLimitService.validateAdminLimit(tenantId, this.userRepository);
+      }
+    }
+
+    const token = this.secureTokenGenerator.generate(INVITATION_TOKEN_PREFIX);
+    const invitation = await this.invitationRepository.create({
+      tenantId,
+      email,
+      roleIds,
+      tokenHash: this.secureTokenGenerator.hash(token),
+      expiresAt: invitationExpiresAt(now),
+      invitedBy: requester.userId,
+    });
+
+    const inviter = await this.userRepository.findById(requester.userId);
+    await sendInvitationEmail(this.emailService, invitation, token, tenant, inviter?.getFullName() || tenant.name);
+
+    Logger.info('Invitation created', { tenantId, invitationId: invitation.id, invitedBy: requester.userId });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.INVITATION_CREATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.INVITATION,
+      targetId: invitation.id,
+      changes: AuditEventEntity.diff(null, {
+        email: invitation.email,
+        roleIds: invitation.roleIds,
+        expiresAt: invitation.expiresAt,
+      }),
+    });
+
+    return toInvitationResponse(invitation);
+  }
+}
@@ -0,0 +1,30 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { IInvitationRepository } from '../../../domain/repositories/iinvitation-repository';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { BadRequestException } from '../../../domain/exceptions/domain-exceptions';
+import { InvitationPreviewDto } from '../../dto/invitation.dto';
+
+/**
+ * Use case for showing an invitation on the accept page before the invitee signs up
+ */
+export class GetInvitationPreviewUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private invitationRepository: IInvitationRepository,
+    private secureTokenGenerator: ISecureTokenGenerator
+  ) {}
+
+  async execute(token: string): Promise<InvitationPreviewDto> {
+    const invitation = await this.invitationRepository.findByTokenHash(this.secureTokenGenerator.hash(token));
+    const tenant = invitation?.isPending() ? await this.tenantRepository.findById(invitation.tenantId) : null;
+    if (!invitation || !tenant) {
+      throw new BadRequestException('Invalid or expired invitation');
+    }
+
+    return {
+      email: invitation.email,
+      tenantName: tenant.name,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+}
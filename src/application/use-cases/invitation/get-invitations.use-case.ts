@@ -0,0 +1,29 @@
+import { IInvitationRepository } from '../../../domain/repositories/iinvitation-repository';
+import { INVITATION_STATUS_VALUES, InvitationStatus } from '../../../domain/constants/invitations';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { InvitationResponseDto } from '../../dto/invitation.dto';
+import { toInvitationResponse } from './create-invitation.use-case';
+
+export class GetInvitationsUseCase {
+  constructor(private invitationRepository: IInvitationRepository) {}
+
+  /**
+   * @param tenantId - Tenant whose invitations are listed
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   * @param status - Only return invitations with this status
+   */
+  async execute(
+    tenantId: string,
+    requesterTenantId: string | null,
+    status?: InvitationStatus
+  ): Promise<InvitationResponseDto[]> {
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const invitations = (await this.invitationRepository.findByTenantId(tenantId)).map(toInvitationResponse);
+    return status && INVITATION_STATUS_VALUES.includes(status)
+      ? invitations.filter((invitation) => invitation.status === status)
+      : invitations;
+  }
+}
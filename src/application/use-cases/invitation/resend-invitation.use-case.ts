@@ -0,0 +1,85 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IInvitationRepository } from '../../../domain/repositories/iinvitation-repository';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { INVITATION_TOKEN_PREFIX } from '../../../domain/constants/invitations';
+import {
+  BusinessRuleException,
+  NotFoundException,
+  TooManyRequestsException,
+} from '../../../domain/exceptions/domain-exceptions';
+import { invitationConfig } from '../../../infrastructure/config/invitation.config';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { EmailService } from '../../services/email.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { InvitationResponseDto } from '../../dto/invitation.dto';
+import { invitationExpiresAt, sendInvitationEmail, toInvitationResponse } from './create-invitation.use-case';
+
+/**
+ * Use case for sending an invitation again
+ * The invitation gets a new accept link and a new expiry; the previous link stops working
+ */
+export class ResendInvitationUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private userRepository: IUserRepository,
+    private invitationRepository: IInvitationRepository,
+    private secureTokenGenerator: ISecureTokenGenerator,
+    private emailService: EmailService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    invitationId: string,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<InvitationResponseDto> {
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    const invitation = tenant ? await this.invitationRepository.findById(invitationId, tenantId) : null;
+    if (!tenant || !invitation) {
+      throw new NotFoundException('Invitation', invitationId);
+    }
+
+    const now = new Date();
+    if (!invitation.canResend(now)) {
+      throw new BusinessRuleException(`Cannot resend an invitation that is ${invitation.getStatus(now)}`);
+    }
+
+    if (now.getTime() - invitation.lastSentAt.getTime() < invitationConfig.resendCooldownSeconds * 1000) {
+      throw new TooManyRequestsException('The invitation was sent recently, please try again later');
+    }
+
+    const token = this.secureTokenGenerator.generate(INVITATION_TOKEN_PREFIX);
+    const renewed = await this.invitationRepository.renew(
+      invitation.id,
+      this.secureTokenGenerator.hash(token),
+      invitationExpiresAt(now)
+    );
+
+    const inviter = await this.userRepository.findById(requester.userId);
+    await sendInvitationEmail(this.emailService, renewed, token, tenant, inviter?.getFullName() || tenant.name);
+
+    Logger.info('Invitation resent', { tenantId, invitationId, requestedBy: requester.userId });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.INVITATION_RESENT,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.INVITATION,
+      targetId: invitation.id,
+      changes: AuditEventEntity.diff({ expiresAt: invitation.expiresAt }, { expiresAt: renewed.expiresAt }),
+    });
+
+    return toInvitationResponse(renewed);
+  }
+}
@@ -0,0 +1,49 @@
+import { IInvitationRepository } from '../../../domain/repositories/iinvitation-repository';
+import { BusinessRuleException, NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+
+export class RevokeInvitationUseCase {
+  constructor(
+    private invitationRepository: IInvitationRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant that owns the invitation
+   * @param invitationId - Invitation to revoke (its accept link stops working)
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    invitationId: string,
+    requesterTenantId: string | null,
+    actor?: AuditActor
+  ): Promise<void> {
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const invitation = await this.invitationRepository.findById(invitationId, tenantId);
+    if (!invitation) {
+      throw new NotFoundException('Invitation', invitationId);
+    }
+
+    if (invitation.acceptedAt) {
+      throw new BusinessRuleException('Cannot revoke an accepted invitation');
+    }
+
+    await this.invitationRepository.revoke(invitation.id);
+    Logger.info('Invitation revoked', { tenantId, invitationId });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.INVITATION_REVOKED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.INVITATION,
+      targetId: invitation.id,
+    });
+  }
+}
@@ -0,0 +1,72 @@
+import { CompleteRequiredMfaEnrollmentUseCase } from '../complete-required-mfa-enrollment.use-case';
+import { ActivateMfaUseCase } from '../activate-mfa.use-case';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { UserEntity } from '../../../../domain/entities/user.entity';
+import { UserLockoutEntity } from '../../../../domain/entities/user-lockout.entity';
+import { Email } from '../../../../domain/value-objects/email';
+import { Password } from '../../../../domain/value-objects/password';
+import { UnauthorizedException } from '../../../../domain/exceptions/domain-exceptions';
+import { JwtService } from '../../../../infrastructure/external/jwt.service';
+import { AuthTokenService } from '../../../services/auth-token.service';
+import { AccountLockoutService } from '../../../services/account-lockout.service';
+import { AuditLogService } from '../../../services/audit-log.service';
+
+describe('CompleteRequiredMfaEnrollmentUseCase', () => {
+  const user = new UserEntity(
+    'user-1',
+    new Email('john@example.com'),
+    new Password('hashedPassword', true),
+    'John',
+    'Doe',
+    'tenant-1',
+    false,
+    new Date(),
+    new Date()
+  );
+  const tokens = { accessToken: 'access', refreshToken: 'refresh' };
+  const lockout = new UserLockoutEntity(user.id, 3, 0, null, new Date());
+
+  let activateMfaUseCase: { execute: jest.Mock };
+  let accountLockoutService: { assertNotLocked: jest.Mock; recordSuccessfulLogin: jest.Mock };
+  let auditLogService: { recordLogin: jest.Mock };
+  let useCase: CompleteRequiredMfaEnrollmentUseCase;
+
+  const complete = () =>
+    useCase.execute({
+      challengeToken: JwtService.generateMfaChallengeToken(user.id, user.tenantId, 'mfa_enrollment'),
+      code: '123456',
+    });
+
+  beforeEach(() => {
+    activateMfaUseCase = { execute: jest.fn().mockResolvedValue({ recoveryCodes: ['aaaaa-bbbbb'] }) };
+    accountLockoutService = {
+      assertNotLocked: jest.fn().mockResolvedValue(lockout),
+      recordSuccessfulLogin: jest.fn().mockResolvedValue(undefined),
+    };
+    auditLogService = { recordLogin: jest.fn().mockResolvedValue(undefined) };
+
+    useCase = new CompleteRequiredMfaEnrollmentUseCase(
+      { findById: jest.fn().mockResolvedValue(user) } as unknown as IUserRepository,
+      activateMfaUseCase as unknown as ActivateMfaUseCase,
+      { issueTokens: jest.fn().mockResolvedValue(tokens) } as unknown as AuthTokenService,
+      accountLockoutService as unknown as AccountLockoutService,
+      auditLogService as unknown as AuditLogService
+    );
+  });
+
+  it('should clear the failed attempts once the login completes', async () => {
+    await expect(complete()).resolves.toEqual({ ...tokens, recoveryCodes: ['aaaaa-bbbbb'] });
+
+    expect(accountLockoutService.recordSuccessfulLogin).toHaveBeenCalledWith(lockout);
+    expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, undefined, 'totp');
+  });
+
+  it('should keep the failed attempts when the code is wrong', async () => {
+    activateMfaUseCase.execute.mockRejectedValue(new UnauthorizedException('Invalid MFA code'));
+
+    await expect(complete()).rejects.toThrow(UnauthorizedException);
+
+    expect(accountLockoutService.recordSuccessfulLogin).not.toHaveBeenCalled();
+    expect(auditLogService.recordLogin).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+import { VerifyMfaLoginUseCase } from '../verify-mfa-login.use-case';
+import { RegenerateRecoveryCodesUseCase } from '../regenerate-recovery-codes.use-case';
+import { IMfaRecoveryCodeRepository } from '../../../../domain/repositories/imfa-recovery-code-repository';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { IUserMfaRepository } from '../../../../domain/repositories/iuser-mfa-repository';
+import { ITotpProvider } from '../../../../domain/services/itotp-provider';
+import { UserEntity } from '../../../../domain/entities/user.entity';
+import { UserMfaEntity } from '../../../../domain/entities/user-mfa.entity';
+import { Email } from '../../../../domain/value-objects/email';
+import { Password } from '../../../../domain/value-objects/password';
+import { UnauthorizedException } from '../../../../domain/exceptions/domain-exceptions';
+import { RecoveryCodeService } from '../../../../infrastructure/external/recovery-code.service';
+import { JwtService } from '../../../../infrastructure/external/jwt.service';
+import { AuthTokenService } from '../../../services/auth-token.service';
+import { AccountLockoutService } from '../../../services/account-lockout.service';
+import { AuditLogService } from '../../../services/audit-log.service';
+
+/**
+ * Stores codes the way the Prisma repository does: hashes only, spent codes keep a usedAt
+ */
+class InMemoryRecoveryCodeRepository implements IMfaRecoveryCodeRepository {
+  codes: { userId: string; codeHash: string; usedAt: Date | null }[] = [];
+
+  async replaceAll(userId: string, codeHashes: string[]): Promise<void> {
+    this.codes = [
+      ...this.codes.filter((code) => code.userId !== userId),
+      ...codeHashes.map((codeHash) => ({ userId, codeHash, usedAt: null })),
+    ];
+  }
+
+  async consume(userId: string, codeHash: string): Promise<boolean> {
+    const code = this.codes.find((c) => c.userId === userId && c.codeHash === codeHash && c.usedAt === null);
+    if (!code) return false;
+    code.usedAt = new Date();
+    return true;
+  }
+
+  async countUnused(userId: string): Promise<number> {
+    return this.codes.filter((code) => code.userId === userId && code.usedAt === null).length;
+  }
+
+  async deleteByUserId(userId: string): Promise<void> {
+    this.codes = this.codes.filter((code) => code.userId !== userId);
+  }
+}
+
+describe('VerifyMfaLoginUseCase', () => {
+  const user = new UserEntity(
+    'user-1',
+    new Email('john@example.com'),
+    new Password('hashedPassword', true),
+    'John',
+    'Doe',
+    'tenant-1',
+    false,
+    new Date(),
+    new Date()
+  );
+  const mfa = new UserMfaEntity('mfa-1', user.id, 'SECRET', new Date(), null, new Date(), new Date());
+  const tokens = { accessToken: 'access', refreshToken: 'refresh' };
+
+  let recoveryCodeRepository: InMemoryRecoveryCodeRepository;
+  let recoveryCodeGenerator: RecoveryCodeService;
+  let totpProvider: { verify: jest.Mock };
+  let accountLockoutService: { assertNotLocked: jest.Mock; recordFailedLogin: jest.Mock; recordSuccessfulLogin: jest.Mock };
+  let auditLogService: { recordLogin: jest.Mock };
+  let useCase: VerifyMfaLoginUseCase;
+
+  const userMfaRepository = {
+    findByUserId: jest.fn().mockResolvedValue(mfa),
+    recordUsedStep: jest.fn().mockResolvedValue(undefined),
+  };
+  const userRepository = { findById: jest.fn().mockResolvedValue(user) };
+
+  const login = (recoveryCode: string) =>
+    useCase.execute({ challengeToken: JwtService.generateMfaChallengeToken(user.id, user.tenantId), recoveryCode });
+
+  const enroll = async () => {
+    const codes = recoveryCodeGenerator.generateSet();
+    await recoveryCodeRepository.replaceAll(user.id, codes.map((code) => recoveryCodeGenerator.hash(code)));
+    return codes;
+  };
+
+  beforeEach(() => {
+    recoveryCodeRepository = new InMemoryRecoveryCodeRepository();
+    recoveryCodeGenerator = new RecoveryCodeService();
+    totpProvider = { verify: jest.fn().mockReturnValue(1) };
+    accountLockoutService = {
+      assertNotLocked: jest.fn().mockResolvedValue(null),
+      recordFailedLogin: jest.fn().mockResolvedValue(undefined),
+      recordSuccessfulLogin: jest.fn().mockResolvedValue(undefined),
+    };
+    auditLogService = { recordLogin: jest.fn().mockResolvedValue(undefined) };
+
+    useCase = new VerifyMfaLoginUseCase(
+      userRepository as unknown as IUserRepository,
+      userMfaRepository as unknown as IUserMfaRepository,
+      recoveryCodeRepository,
+      totpProvider as unknown as ITotpProvider,
+      recoveryCodeGenerator,
+      { issueTokens: jest.fn().mockResolvedValue(tokens) } as unknown as AuthTokenService,
+      accountLockoutService as unknown as AccountLockoutService,
+      auditLogService as unknown as AuditLogService
+    );
+  });
+
+  describe('audit', () => {
+    const verify = (code: string) =>
+      useCase.execute(
+        { challengeToken: JwtService.generateMfaChallengeToken(user.id, user.tenantId), code },
+        { ipAddress: '10.0.0.1' }
+      );
+
+    it('should record the second factor that completed the login', async () => {
+      await expect(verify('123456')).resolves.toEqual(tokens);
+
+      expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, { ipAddress: '10.0.0.1' }, 'totp');
+    });
+
+    it('should record a wrong code as a failed login', async () => {
+      totpProvider.verify.mockReturnValue(null);
+
+      await expect(verify('000000')).rejects.toThrow(UnauthorizedException);
+
+      expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, { ipAddress: '10.0.0.1' }, 'totp', 'invalid_mfa_code');
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should accept a recovery code only once', async () => {
+      const [code] = await enroll();
+
+      await expect(login(code)).resolves.toEqual(tokens);
+      await expect(login(code)).rejects.toThrow(UnauthorizedException);
+      expect(await recoveryCodeRepository.countUnused(user.id)).toBe(9);
+    });
+
+    it('should store and compare hashes, not the codes', async () => {
+      const [code] = await enroll();
+
+      expect(recoveryCodeRepository.codes.map((c) => c.codeHash)).not.toContain(code);
+      // The hash is taken of the normalized code, so formatting does not matter
+      await expect(login(` ${code.toUpperCase().replace('-', '')} `)).resolves.toEqual(tokens);
+    });
+
+    it('should reject a code that was never issued', async () => {
+      await enroll();
+
+      await expect(login('aaaaa-aaaaa')).rejects.toThrow(UnauthorizedException);
+      expect(accountLockoutService.recordFailedLogin).toHaveBeenCalledWith(user);
+      expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, undefined, 'recovery_code', 'invalid_recovery_code');
+    });
+
+    it('should invalidate the previous codes when they are regenerated', async () => {
+      const oldCodes = await enroll();
+
+      const regenerate = new RegenerateRecoveryCodesUseCase(
+        userMfaRepository as unknown as IUserMfaRepository,
+        recoveryCodeRepository,
+        totpProvider as unknown as ITotpProvider,
+        recoveryCodeGenerator
+      );
+      const { recoveryCodes } = await regenerate.execute(user.id, { code: '123456' });
+
+      await expect(login(oldCodes[1])).rejects.toThrow(UnauthorizedException);
+      await expect(login(recoveryCodes[0])).resolves.toEqual(tokens);
+    });
+  });
+});
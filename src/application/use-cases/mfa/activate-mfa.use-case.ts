@@ -0,0 +1,49 @@
+import { IUserMfaRepository } from '../../../domain/repositories/iuser-mfa-repository';
+import { IMfaRecoveryCodeRepository } from '../../../domain/repositories/imfa-recovery-code-repository';
+import { ITotpProvider } from '../../../domain/services/itotp-provider';
+import { IRecoveryCodeGenerator } from '../../../domain/services/irecovery-code-generator';
+import { BadRequestException, ConflictException } from '../../../domain/exceptions/domain-exceptions';
+import { MfaCodeDto, MfaRecoveryCodesResponseDto } from '../../dto/auth.dto';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for confirming a pending TOTP enrollment
+ * MFA is turned on only once the user proves the authenticator produces valid codes.
+ * The initial set of recovery codes is returned here and never again.
+ */
+export class ActivateMfaUseCase {
+  constructor(
+    private userMfaRepository: IUserMfaRepository,
+    private recoveryCodeRepository: IMfaRecoveryCodeRepository,
+    private totpProvider: ITotpProvider,
+    private recoveryCodeGenerator: IRecoveryCodeGenerator
+  ) {}
+
+  async execute(userId: string, dto: MfaCodeDto): Promise<MfaRecoveryCodesResponseDto> {
+    const mfa = await this.userMfaRepository.findByUserId(userId);
+    if (!mfa) {
+      throw new BadRequestException('No pending MFA enrollment. Start enrollment first.');
+    }
+
+    if (mfa.isEnabled()) {
+      throw new ConflictException('MFA is already enabled for this user');
+    }
+
+    const step = this.totpProvider.verify(mfa.secret, dto.code);
+    if (step === null) {
+      throw new BadRequestException('Invalid MFA code');
+    }
+
+    await this.userMfaRepository.enable(userId, step);
+
+    const recoveryCodes = this.recoveryCodeGenerator.generateSet();
+    await this.recoveryCodeRepository.replaceAll(
+      userId,
+      recoveryCodes.map((code) => this.recoveryCodeGenerator.hash(code))
+    );
+
+    Logger.info('MFA enabled', { userId });
+
+    return { recoveryCodes };
+  }
+}
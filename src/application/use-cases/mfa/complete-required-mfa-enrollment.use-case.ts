@@ -0,0 +1,53 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { JwtService } from '../../../infrastructure/external/jwt.service';
+import { UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+import { AuthTokenService } from '../../services/auth-token.service';
+import { AccountLockoutService } from '../../services/account-lockout.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_LOGIN_METHODS } from '../../../domain/constants/audit';
+import { RequiredMfaEnrollmentDto, RequiredMfaEnrollmentResponseDto } from '../../dto/auth.dto';
+import { ClientContext } from '../../../shared/types';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { ActivateMfaUseCase } from './activate-mfa.use-case';
+
+/**
+ * Use case for finishing a forced enrollment
+ * Activates MFA with the first code and completes the login that was put on hold
+ */
+export class CompleteRequiredMfaEnrollmentUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private activateMfaUseCase: ActivateMfaUseCase,
+    private authTokenService: AuthTokenService,
+    private accountLockoutService: AccountLockoutService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  async execute(dto: RequiredMfaEnrollmentDto, context?: ClientContext): Promise<RequiredMfaEnrollmentResponseDto> {
+    let challenge;
+    try {
+      challenge = JwtService.verifyMfaChallengeToken(dto.challengeToken, 'mfa_enrollment');
+    } catch (error) {
+      Logger.warn('Invalid MFA enrollment challenge token');
+      throw new UnauthorizedException('Invalid or expired MFA enrollment challenge');
+    }
+
+    const user = await this.userRepository.findById(challenge.userId, challenge.tenantId);
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired MFA enrollment challenge');
+    }
+
+    const lockout = await this.accountLockoutService.assertNotLocked(user);
+
+    const { recoveryCodes } = await this.activateMfaUseCase.execute(user.id, { code: dto.code });
+    const tokens = await this.authTokenService.issueTokens(user, context);
+
+    // The failures kept while the login was on hold are cleared once it completes
+    await this.accountLockoutService.recordSuccessfulLogin(lockout);
+
+    Logger.info('Required MFA enrollment completed', { userId: user.id });
+    await this.auditLogService.recordLogin(user, context, AUDIT_LOGIN_METHODS.TOTP);
+
+    return { ...tokens, recoveryCodes };
+  }
+}
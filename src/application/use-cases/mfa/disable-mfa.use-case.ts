@@ -0,0 +1,74 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IUserMfaRepository } from '../../../domain/repositories/iuser-mfa-repository';
+import { IMfaRecoveryCodeRepository } from '../../../domain/repositories/imfa-recovery-code-repository';
+import { ITotpProvider } from '../../../domain/services/itotp-provider';
+import {
+  BadRequestException,
+  UnauthorizedException,
+  NotFoundException,
+  BusinessRuleException,
+} from '../../../domain/exceptions/domain-exceptions';
+import { MFA_METHODS } from '../../../domain/constants/mfa-policies';
+import { MfaPolicyService } from '../../services/mfa-policy.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { MfaCodeDto } from '../../dto/auth.dto';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for turning off MFA
+ * Requires a current code so a hijacked access token alone cannot remove the second factor.
+ * Not allowed while the tenant MFA policy applies to the user, unless a passkey remains as second factor.
+ */
+export class DisableMfaUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private userMfaRepository: IUserMfaRepository,
+    private recoveryCodeRepository: IMfaRecoveryCodeRepository,
+    private totpProvider: ITotpProvider,
+    private mfaPolicyService: MfaPolicyService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param actor - The user and client, for the audit log
+   */
+  async execute(userId: string, tenantId: string | null, dto: MfaCodeDto, actor?: AuditActor): Promise<void> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+
+    const mfa = await this.userMfaRepository.findByUserId(userId);
+    if (!mfa || !mfa.isEnabled()) {
+      throw new BadRequestException('MFA is not enabled for this user');
+    }
+
+    const step = this.totpProvider.verify(mfa.secret, dto.code);
+    if (step === null || !mfa.canUseStep(step)) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+
+    const remainingFactors = (await this.mfaPolicyService.getSecondFactors(user)).filter(
+      (method) => method !== MFA_METHODS.TOTP
+    );
+    if (remainingFactors.length === 0 && (await this.mfaPolicyService.isMfaRequired(user))) {
+      throw new BusinessRuleException('MFA is required by your organization and cannot be disabled');
+    }
+
+    await this.userMfaRepository.delete(userId);
+    await this.recoveryCodeRepository.deleteByUserId(userId);
+    Logger.info('MFA disabled', { userId });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.MFA_DISABLED,
+      tenantId: user.tenantId,
+      targetType: AUDIT_TARGET_TYPES.USER,
+      targetId: userId,
+      changes: AuditEventEntity.diff({ mfaEnabled: true }, { mfaEnabled: false }),
+    });
+  }
+}
@@ -0,0 +1,45 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IUserMfaRepository } from '../../../domain/repositories/iuser-mfa-repository';
+import { ITotpProvider } from '../../../domain/services/itotp-provider';
+import { NotFoundException, ConflictException } from '../../../domain/exceptions/domain-exceptions';
+import { MfaEnrollmentResponseDto } from '../../dto/auth.dto';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for starting TOTP enrollment
+ *
+ * Business Rules:
+ * - A user with MFA already enabled must disable it before enrolling again
+ * - Starting a new enrollment replaces any previous pending secret
+ * - MFA stays off until the enrollment is activated with a valid code
+ */
+export class EnrollMfaUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private userMfaRepository: IUserMfaRepository,
+    private totpProvider: ITotpProvider,
+    private issuer: string
+  ) {}
+
+  async execute(userId: string, tenantId: string | null): Promise<MfaEnrollmentResponseDto> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    const existing = await this.userMfaRepository.findByUserId(userId);
+    if (existing?.isEnabled()) {
+      throw new ConflictException('MFA is already enabled for this user');
+    }
+
+    const secret = this.totpProvider.generateSecret();
+    await this.userMfaRepository.savePending(userId, secret);
+
+    Logger.info('MFA enrollment started', { userId });
+
+    return {
+      secret,
+      provisioningUri: this.totpProvider.buildProvisioningUri(secret, user.email.getValue(), this.issuer),
+    };
+  }
+}
@@ -0,0 +1,26 @@
+import { IUserMfaRepository } from '../../../domain/repositories/iuser-mfa-repository';
+import { IMfaRecoveryCodeRepository } from '../../../domain/repositories/imfa-recovery-code-repository';
+
+export interface RecoveryCodeStatusDto {
+  mfaEnabled: boolean;
+  remaining: number;
+}
+
+export class GetRecoveryCodeStatusUseCase {
+  constructor(
+    private userMfaRepository: IUserMfaRepository,
+    private recoveryCodeRepository: IMfaRecoveryCodeRepository
+  ) {}
+
+  async execute(userId: string): Promise<RecoveryCodeStatusDto> {
+    const mfa = await this.userMfaRepository.findByUserId(userId);
+    if (!mfa || !mfa.isEnabled()) {
+      return { mfaEnabled: false, remaining: 0 };
+    }
+
+    return {
+      mfaEnabled: true,
+      remaining: await this.recoveryCodeRepository.countUnused(userId),
+    };
+  }
+}
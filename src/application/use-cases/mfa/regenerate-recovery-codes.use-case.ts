@@ -0,0 +1,43 @@
+import { IUserMfaRepository } from '../../../domain/repositories/iuser-mfa-repository';
+import { IMfaRecoveryCodeRepository } from '../../../domain/repositories/imfa-recovery-code-repository';
+import { ITotpProvider } from '../../../domain/services/itotp-provider';
+import { IRecoveryCodeGenerator } from '../../../domain/services/irecovery-code-generator';
+import { BadRequestException, UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+import { MfaCodeDto, MfaRecoveryCodesResponseDto } from '../../dto/auth.dto';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for replacing a user's recovery codes
+ * All previous codes, used or not, stop working
+ */
+export class RegenerateRecoveryCodesUseCase {
+  constructor(
+    private userMfaRepository: IUserMfaRepository,
+    private recoveryCodeRepository: IMfaRecoveryCodeRepository,
+    private totpProvider: ITotpProvider,
+    private recoveryCodeGenerator: IRecoveryCodeGenerator
+  ) {}
+
+  async execute(userId: string, dto: MfaCodeDto): Promise<MfaRecoveryCodesResponseDto> {
+    const mfa = await this.userMfaRepository.findByUserId(userId);
+    if (!mfa || !mfa.isEnabled()) {
+      throw new BadRequestException('MFA is not enabled for this user');
+    }
+
+    const step = this.totpProvider.verify(mfa.secret, dto.code);
+    if (step === null || !mfa.canUseStep(step)) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+    await this.userMfaRepository.recordUsedStep(userId, step);
+
+    const recoveryCodes = this.recoveryCodeGenerator.generateSet();
+    await this.recoveryCodeRepository.replaceAll(
+      userId,
+      recoveryCodes.map((code) => this.recoveryCodeGenerator.hash(code))
+    );
+
+    Logger.info('MFA recovery codes regenerated', { userId });
+
+    return { recoveryCodes };
+  }
+}
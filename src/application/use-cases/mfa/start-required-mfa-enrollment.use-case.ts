@@ -0,0 +1,25 @@
+import { JwtService } from '../../../infrastructure/external/jwt.service';
+import { UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+import { MfaEnrollmentResponseDto } from '../../dto/auth.dto';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { EnrollMfaUseCase } from './enroll-mfa.use-case';
+
+/**
+ * Use case for starting the forced enrollment of a user who logged in without MFA
+ * while the tenant policy requires it. Authenticated by the "mfa_enrollment" challenge token.
+ */
+export class StartRequiredMfaEnrollmentUseCase {
+  constructor(private enrollMfaUseCase: EnrollMfaUseCase) {}
+
+  async execute(challengeToken: string): Promise<MfaEnrollmentResponseDto> {
+    let challenge;
+    try {
+      challenge = JwtService.verifyMfaChallengeToken(challengeToken, 'mfa_enrollment');
+    } catch (error) {
+      Logger.warn('Invalid MFA enrollment challenge token');
+      throw new UnauthorizedException('Invalid or expired MFA enrollment challenge');
+    }
+
+    return this.enrollMfaUseCase.execute(challenge.userId, challenge.tenantId);
+  }
+}
@@ -0,0 +1,114 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IUserMfaRepository } from '../../../domain/repositories/iuser-mfa-repository';
+import { IMfaRecoveryCodeRepository } from '../../../domain/repositories/imfa-recovery-code-repository';
+import { ITotpProvider } from '../../../domain/services/itotp-provider';
+import { IRecoveryCodeGenerator } from '../../../domain/services/irecovery-code-generator';
+import { UserMfaEntity } from '../../../domain/entities/user-mfa.entity';
+import { UserEntity } from '../../../domain/entities/user.entity';
+import { JwtService } from '../../../infrastructure/external/jwt.service';
+import { UnauthorizedException, BadRequestException } from '../../../domain/exceptions/domain-exceptions';
+import { AuthTokenService } from '../../services/auth-token.service';
+import { AccountLockoutService } from '../../services/account-lockout.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_LOGIN_METHODS } from '../../../domain/constants/audit';
+import { MfaLoginDto, AuthResponseDto } from '../../dto/auth.dto';
+import { eventBus } from '../../../infrastructure/events/event-bus';
+import { MfaRecoveryCodeUsedEvent } from '../../../domain/events/mfa-recovery-code-used.event';
+import { ClientContext } from '../../../shared/types';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for the second step of an MFA login
+ * Exchanges the "mfa_pending" challenge token and a TOTP or recovery code for the access/refresh pair
+ * Wrong codes count as failed logins, so guessing is stopped by the account lockout
+ */
+export class VerifyMfaLoginUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private userMfaRepository: IUserMfaRepository,
+    private recoveryCodeRepository: IMfaRecoveryCodeRepository,
+    private totpProvider: ITotpProvider,
+    private recoveryCodeGenerator: IRecoveryCodeGenerator,
+    private authTokenService: AuthTokenService,
+    private accountLockoutService: AccountLockoutService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  async execute(dto: MfaLoginDto, context?: ClientContext): Promise<AuthResponseDto> {
+    if (!dto.code && !dto.recoveryCode) {
+      throw new BadRequestException('Either an MFA code or a recovery code is required');
+    }
+
+    let challenge;
+    try {
+      challenge = JwtService.verifyMfaChallengeToken(dto.challengeToken);
+    } catch (error) {
+      Logger.warn('Invalid MFA challenge token');
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    const user = await this.userRepository.findById(challenge.userId, challenge.tenantId);
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    const mfa = await this.userMfaRepository.findByUserId(user.id);
+    if (!mfa || !mfa.isEnabled()) {
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    const method = dto.code ? AUDIT_LOGIN_METHODS.TOTP : AUDIT_LOGIN_METHODS.RECOVERY_CODE;
+
+    // A new challenge is cheap to get with the password, so the limit is per account, not per challenge
+    let lockout;
+    try {
+      lockout = await this.accountLockoutService.assertNotLocked(user);
+    } catch (error) {
+      await this.auditLogService.recordLogin(user, context, method, 'account_locked');
+      throw error;
+    }
+
+    const valid = dto.code
+      ? await this.verifyTotpCode(mfa, dto.code)
+      : await this.consumeRecoveryCode(user, dto.recoveryCode!);
+    if (!valid) {
+      await this.accountLockoutService.recordFailedLogin(user);
+      await this.auditLogService.recordLogin(user, context, method, dto.code ? 'invalid_mfa_code' : 'invalid_recovery_code');
+      throw new UnauthorizedException(dto.code ? 'Invalid MFA code' : 'Invalid recovery code');
+    }
+
+    await this.accountLockoutService.recordSuccessfulLogin(lockout);
+
+    const result = await this.authTokenService.issueTokens(user, context);
+    Logger.info('MFA login completed', { userId: user.id });
+    await this.auditLogService.recordLogin(user, context, method);
+
+    return result;
+  }
+
+  private async verifyTotpCode(mfa: UserMfaEntity, code: string): Promise<boolean> {
+    const step = this.totpProvider.verify(mfa.secret, code);
+    if (step === null || !mfa.canUseStep(step)) {
+      Logger.warn('Invalid MFA code attempt', { userId: mfa.userId });
+      return false;
+    }
+
+    await this.userMfaRepository.recordUsedStep(mfa.userId, step);
+    return true;
+  }
+
+  private async consumeRecoveryCode(user: UserEntity, recoveryCode: string): Promise<boolean> {
+    const consumed = await this.recoveryCodeRepository.consume(
+      user.id,
+      this.recoveryCodeGenerator.hash(recoveryCode)
+    );
+    if (!consumed) {
+      Logger.warn('Invalid MFA recovery code attempt', { userId: user.id });
+      return false;
+    }
+
+    const remainingCodes = await this.recoveryCodeRepository.countUnused(user.id);
+    await eventBus.publish(new MfaRecoveryCodeUsedEvent(user.id, user.tenantId, remainingCodes));
+    return true;
+  }
+}
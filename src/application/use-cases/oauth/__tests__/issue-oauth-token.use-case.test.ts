@@ -0,0 +1,110 @@
+import { IssueOAuthTokenUseCase } from '../issue-oauth-token.use-case';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { IOAuthClientRepository } from '../../../../domain/repositories/ioauth-client-repository';
+import { IOAuthAuthorizationCodeRepository } from '../../../../domain/repositories/ioauth-authorization-code-repository';
+import { ITokenVersionRepository } from '../../../../domain/repositories/itoken-version-repository';
+import { ISecureTokenGenerator } from '../../../../domain/services/isecure-token-generator';
+import { OAuthClientEntity } from '../../../../domain/entities/oauth-client.entity';
+import { OAUTH_GRANT_TYPES } from '../../../../domain/constants/oauth';
+import { OAuthException } from '../../../../domain/exceptions/domain-exceptions';
+import { JwtService } from '../../../../infrastructure/external/jwt.service';
+import { RoleWithPermissions } from '../../../../shared/types';
+import { AuthTokenService } from '../../../services/auth-token.service';
+import { OidcClaimsService } from '../../../services/oidc-claims.service';
+import { RefreshTokenUseCase } from '../../auth/refresh-token.use-case';
+
+describe('IssueOAuthTokenUseCase', () => {
+  const buildClient = (clientSecretHash: string | null) =>
+    new OAuthClientEntity(
+      'client-db-id',
+      'tenant-1',
+      'reporting-service',
+      clientSecretHash,
+      'Reporting',
+      [],
+      [],
+      [OAUTH_GRANT_TYPES.CLIENT_CREDENTIALS],
+      new Date(),
+      new Date()
+    );
+  const buildRole = (name: string, permissions: string[]): RoleWithPermissions => ({
+    id: `role-${name}`,
+    name,
+    description: null,
+    tenantId: 'tenant-1',
+    permissions: permissions.map((p) => ({ id: p, name: p, resource: p.split(':')[0], action: p.split(':')[1] })),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  let oauthClientRepository: { findByClientId: jest.Mock; getRoles: jest.Mock };
+  let tokenVersionRepository: { getServiceClientVersion: jest.Mock };
+  let useCase: IssueOAuthTokenUseCase;
+
+  const requestToken = (clientSecret?: string) =>
+    useCase.execute({ grantType: OAUTH_GRANT_TYPES.CLIENT_CREDENTIALS, clientId: 'reporting-service', clientSecret });
+
+  beforeEach(() => {
+    oauthClientRepository = {
+      findByClientId: jest.fn().mockResolvedValue(buildClient('secret-hash')),
+      getRoles: jest
+        .fn()
+        .mockResolvedValue([
+          buildRole('reporting', ['users:read', 'audit-logs:read']),
+          buildRole('viewer', ['users:read']),
+        ]),
+    };
+    tokenVersionRepository = { getServiceClientVersion: jest.fn().mockResolvedValue(3) };
+
+    useCase = new IssueOAuthTokenUseCase(
+      {} as IUserRepository,
+      oauthClientRepository as unknown as IOAuthClientRepository,
+      {} as IOAuthAuthorizationCodeRepository,
+      { matches: jest.fn((secret: string) => secret === 'secret') } as unknown as ISecureTokenGenerator,
+      tokenVersionRepository as unknown as ITokenVersionRepository,
+      {} as AuthTokenService,
+      {} as OidcClaimsService,
+      {} as RefreshTokenUseCase
+    );
+  });
+
+  describe('client_credentials', () => {
+    it('should issue a service token with the permissions of the client roles', async () => {
+      const response = await requestToken('secret');
+
+      expect(response).not.toHaveProperty('refresh_token');
+      const payload = JwtService.verifyToken(response.access_token);
+      expect(payload).toMatchObject({
+        userId: 'client-db-id',
+        tenantId: 'tenant-1',
+        principalType: 'service',
+        clientId: 'reporting-service',
+        roles: ['reporting', 'viewer'],
+        isSuperAdmin: false,
+      });
+      expect(payload.permissions).toEqual(['users:read', 'audit-logs:read']);
+      expect(payload.sessionId).toBeUndefined();
+    });
+
+    it("should stamp the token with the client's current version", async () => {
+      const response = await requestToken('secret');
+
+      expect(tokenVersionRepository.getServiceClientVersion).toHaveBeenCalledWith('client-db-id');
+      expect(JwtService.verifyToken(response.access_token).version).toBe(3);
+    });
+
+    it('should reject a public client even when the grant is configured', async () => {
+      oauthClientRepository.findByClientId.mockResolvedValue(buildClient(null));
+
+      await expect(requestToken()).rejects.toMatchObject({ error: 'unauthorized_client' });
+      expect(oauthClientRepository.getRoles).not.toHaveBeenCalled();
+    });
+
+    it('should reject a confidential client with a wrong secret', async () => {
+      const error = await requestToken('wrong').catch((e) => e);
+
+      expect(error).toBeInstanceOf(OAuthException);
+      expect(error).toMatchObject({ error: 'invalid_client', statusCode: 401 });
+    });
+  });
+});
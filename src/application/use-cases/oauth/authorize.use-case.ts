@@ -0,0 +1,68 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IOAuthAuthorizationCodeRepository } from '../../../domain/repositories/ioauth-authorization-code-repository';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { OAuthException, UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+import { oidcConfig } from '../../../infrastructure/config/oidc.config';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuthorizationRequestDto, AuthorizationResponseDto } from '../../dto/oauth.dto';
+import { ValidateAuthorizationRequestUseCase } from './validate-authorization-request.use-case';
+
+/**
+ * Use case for completing the authorization step for a signed-in user
+ * Called by the login page once the user has authenticated; returns the client redirect carrying the code
+ */
+export class AuthorizeUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private oauthAuthorizationCodeRepository: IOAuthAuthorizationCodeRepository,
+    private secureTokenGenerator: ISecureTokenGenerator,
+    private validateAuthorizationRequestUseCase: ValidateAuthorizationRequestUseCase
+  ) {}
+
+  async execute(
+    userId: string,
+    tenantId: string | null,
+    dto: AuthorizationRequestDto
+  ): Promise<AuthorizationResponseDto> {
+    const { client, scopes } = await this.validateAuthorizationRequestUseCase.execute(dto);
+
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new UnauthorizedException('User not found');
+    }
+
+    // Clients only sign in users of their own tenant
+    if (user.tenantId !== client.tenantId) {
+      Logger.warn('Authorization denied: user does not belong to the client tenant', {
+        userId,
+        clientId: client.clientId,
+      });
+      throw new OAuthException('access_denied', 'User is not a member of the client tenant', 403);
+    }
+
+    const code = this.secureTokenGenerator.generate();
+    await this.oauthAuthorizationCodeRepository.create({
+      codeHash: this.secureTokenGenerator.hash(code),
+      clientId: client.id,
+      userId: user.id,
+      redirectUri: dto.redirectUri,
+      scope: scopes.join(' '),
+      codeChallenge: dto.codeChallenge,
+      codeChallengeMethod: dto.codeChallengeMethod,
+      nonce: dto.nonce,
+      expiresAt: new Date(Date.now() + oidcConfig.authorizationCodeTtlSeconds * 1000),
+    });
+
+    const redirectUri = new URL(dto.redirectUri);
+    redirectUri.searchParams.set('code', code);
+    if (dto.state) {
+      redirectUri.searchParams.set('state', dto.state);
+    }
+    // RFC 9207 issuer identification, protects clients talking to several providers
+    redirectUri.searchParams.set('iss', oidcConfig.issuer);
+
+    Logger.info('Authorization code issued', { userId: user.id, clientId: client.clientId });
+
+    return { redirectUri: redirectUri.toString() };
+  }
+}
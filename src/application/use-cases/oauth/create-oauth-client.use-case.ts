@@ -0,0 +1,102 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { IOAuthClientRepository } from '../../../domain/repositories/ioauth-client-repository';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { OAuthClientEntity } from '../../../domain/entities/oauth-client.entity';
+import { OAUTH_GRANT_TYPES, OIDC_SCOPES, SUPPORTED_OIDC_SCOPES } from '../../../domain/constants/oauth';
+import { NotFoundException, ValidationException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import {
+  CreateOAuthClientDto,
+  CreatedOAuthClientResponseDto,
+  OAuthClientResponseDto,
+} from '../../dto/oauth.dto';
+
+export function toOAuthClientResponse(client: OAuthClientEntity): OAuthClientResponseDto {
+  return {
+    id: client.id,
+    clientId: client.clientId,
+    name: client.name,
+    redirectUris: client.redirectUris,
+    allowedScopes: client.allowedScopes,
+    grantTypes: client.grantTypes,
+    confidential: client.isConfidential(),
+    createdAt: client.createdAt,
+  };
+}
+
+/**
+ * Use case for registering an OAuth/OIDC client (relying party) of a tenant
+ *
+ * Business Rules:
+ * - Confidential clients receive a secret that is only returned once; only its hash is stored
+ * - Public clients (SPAs, mobile apps) have no secret and must use PKCE
+ */
+export class CreateOAuthClientUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private oauthClientRepository: IOAuthClientRepository,
+    private secureTokenGenerator: ISecureTokenGenerator,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant that owns the client
+   * @param dto - Client registration
+   * @param requester - Requesting admin (tenantId is null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    dto: CreateOAuthClientDto,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<CreatedOAuthClientResponseDto> {
+    // Tenant admins can only register clients for their own tenant
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const allowedScopes = dto.allowedScopes ?? SUPPORTED_OIDC_SCOPES;
+    if (!allowedScopes.includes(OIDC_SCOPES.OPENID)) {
+      throw new ValidationException(`Allowed scopes must include "${OIDC_SCOPES.OPENID}"`);
+    }
+
+    const confidential = dto.confidential ?? true;
+    const clientSecret = confidential ? this.secureTokenGenerator.generate() : null;
+
+    const client = await this.oauthClientRepository.create({
+      tenantId,
+      clientId: this.secureTokenGenerator.generate('client'),
+      clientSecretHash: clientSecret ? this.secureTokenGenerator.hash(clientSecret) : null,
+      name: dto.name,
+      redirectUris: dto.redirectUris,
+      allowedScopes,
+      grantTypes: [OAUTH_GRANT_TYPES.AUTHORIZATION_CODE, OAUTH_GRANT_TYPES.REFRESH_TOKEN],
+      createdBy: requester.userId,
+    });
+
+    Logger.info('OAuth client created', { tenantId, clientId: client.clientId, createdBy: requester.userId });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.OAUTH_CLIENT_CREATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.OAUTH_CLIENT,
+      targetId: client.id,
+      changes: AuditEventEntity.diff(null, { ...toOAuthClientResponse(client), id: undefined, createdAt: undefined }),
+    });
+
+    return {
+      ...toOAuthClientResponse(client),
+      clientSecret,
+    };
+  }
+}
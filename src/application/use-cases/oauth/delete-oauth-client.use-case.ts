@@ -0,0 +1,56 @@
+import { IOAuthClientRepository } from '../../../domain/repositories/ioauth-client-repository';
+import { ITokenVersionRepository } from '../../../domain/repositories/itoken-version-repository';
+import { OAUTH_GRANT_TYPES } from '../../../domain/constants/oauth';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { toOAuthClientResponse } from './create-oauth-client.use-case';
+
+/**
+ * Use case for removing an OAuth client
+ * Pending authorization codes are deleted with it; user tokens already issued expire normally,
+ * while client_credentials tokens are revoked immediately
+ */
+export class DeleteOAuthClientUseCase {
+  constructor(
+    private oauthClientRepository: IOAuthClientRepository,
+    private tokenVersionRepository: ITokenVersionRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant that owns the client
+   * @param id - Client record ID
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(tenantId: string, id: string, requesterTenantId: string | null, actor?: AuditActor): Promise<void> {
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const client = await this.oauthClientRepository.findById(id, tenantId);
+    if (!client) {
+      throw new NotFoundException('OAuth client', id);
+    }
+
+    // Bump before deleting so the cached version no longer matches outstanding tokens
+    if (client.supportsGrant(OAUTH_GRANT_TYPES.CLIENT_CREDENTIALS)) {
+      await this.tokenVersionRepository.incrementServiceClient(client.id);
+    }
+
+    await this.oauthClientRepository.delete(client.id);
+    Logger.info('OAuth client deleted', { tenantId, clientId: client.clientId });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.OAUTH_CLIENT_DELETED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.OAUTH_CLIENT,
+      targetId: client.id,
+      changes: AuditEventEntity.diff({ ...toOAuthClientResponse(client), id: undefined, createdAt: undefined }, null),
+    });
+  }
+}
@@ -0,0 +1,21 @@
+import { IOAuthClientRepository } from '../../../domain/repositories/ioauth-client-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { OAuthClientResponseDto } from '../../dto/oauth.dto';
+import { toOAuthClientResponse } from './create-oauth-client.use-case';
+
+export class GetOAuthClientsUseCase {
+  constructor(private oauthClientRepository: IOAuthClientRepository) {}
+
+  /**
+   * @param tenantId - Tenant whose clients are listed
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   */
+  async execute(tenantId: string, requesterTenantId: string | null): Promise<OAuthClientResponseDto[]> {
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const clients = await this.oauthClientRepository.findByTenantId(tenantId);
+    return clients.map(toOAuthClientResponse);
+  }
+}
@@ -0,0 +1,34 @@
+import { IOAuthClientRepository } from '../../../domain/repositories/ioauth-client-repository';
+import { OAUTH_GRANT_TYPES } from '../../../domain/constants/oauth';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { ServiceClientResponseDto } from '../../dto/oauth.dto';
+
+export class GetServiceClientsUseCase {
+  constructor(private oauthClientRepository: IOAuthClientRepository) {}
+
+  /**
+   * @param tenantId - Tenant whose service clients are listed
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   */
+  async execute(tenantId: string, requesterTenantId: string | null): Promise<ServiceClientResponseDto[]> {
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const clients = await this.oauthClientRepository.findByTenantId(tenantId);
+    const serviceClients = clients.filter((client) => client.supportsGrant(OAUTH_GRANT_TYPES.CLIENT_CREDENTIALS));
+
+    return Promise.all(
+      serviceClients.map(async (client) => {
+        const roles = await this.oauthClientRepository.getRoles(client.id);
+        return {
+          id: client.id,
+          clientId: client.clientId,
+          name: client.name,
+          roles: roles.map((role) => ({ id: role.id, name: role.name })),
+          createdAt: client.createdAt,
+        };
+      })
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { SUPPORTED_OIDC_SCOPES } from '../../../domain/constants/oauth';
+import { OidcClaims, OidcClaimsService } from '../../services/oidc-claims.service';
+
+/**
+ * Use case for the OpenID Connect userinfo endpoint
+ * Access tokens do not record the granted scopes, so every supported claim is returned
+ */
+export class GetUserInfoUseCase {
+  constructor(private oidcClaimsService: OidcClaimsService) {}
+
+  async execute(userId: string): Promise<OidcClaims> {
+    const claims = await this.oidcClaimsService.buildClaims(userId, SUPPORTED_OIDC_SCOPES);
+    if (!claims) {
+      throw new NotFoundException('User', userId);
+    }
+    return claims;
+  }
+}
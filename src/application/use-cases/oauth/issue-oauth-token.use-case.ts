@@ -0,0 +1,189 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IOAuthClientRepository } from '../../../domain/repositories/ioauth-client-repository';
+import { IOAuthAuthorizationCodeRepository } from '../../../domain/repositories/ioauth-authorization-code-repository';
+import { ITokenVersionRepository } from '../../../domain/repositories/itoken-version-repository';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { OAuthClientEntity } from '../../../domain/entities/oauth-client.entity';
+import { OAUTH_GRANT_TYPES, OIDC_SCOPES } from '../../../domain/constants/oauth';
+import { DomainException, OAuthException } from '../../../domain/exceptions/domain-exceptions';
+import { JwtService } from '../../../infrastructure/external/jwt.service';
+import { verifyPkceChallenge } from '../../../infrastructure/external/pkce';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { ClientContext, JwtPayload } from '../../../shared/types';
+import { AuthTokenService } from '../../services/auth-token.service';
+import { OidcClaimsService } from '../../services/oidc-claims.service';
+import { AuthResponseDto } from '../../dto/auth.dto';
+import { OAuthTokenRequestDto, OAuthTokenResponseDto } from '../../dto/oauth.dto';
+import { RefreshTokenUseCase } from '../auth/refresh-token.use-case';
+
+/**
+ * Use case for the OAuth 2.0 token endpoint
+ *
+ * Business Rules:
+ * - Confidential clients must authenticate with their secret; public clients are identified by client_id
+ * - Authorization codes are single-use and must be redeemed by the same client, with the same
+ *   redirect URI and the PKCE verifier matching the original challenge
+ * - Refresh tokens go through the regular rotation (and reuse detection) of RefreshTokenUseCase
+ * - client_credentials issues an access token for the client itself (a service principal) with the
+ *   permissions of its roles; there is no refresh token, the client simply requests a new one
+ */
+export class IssueOAuthTokenUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private oauthClientRepository: IOAuthClientRepository,
+    private oauthAuthorizationCodeRepository: IOAuthAuthorizationCodeRepository,
+    private secureTokenGenerator: ISecureTokenGenerator,
+    private tokenVersionRepository: ITokenVersionRepository,
+    private authTokenService: AuthTokenService,
+    private oidcClaimsService: OidcClaimsService,
+    private refreshTokenUseCase: RefreshTokenUseCase
+  ) {}
+
+  async execute(dto: OAuthTokenRequestDto, context?: ClientContext): Promise<OAuthTokenResponseDto> {
+    const client = await this.authenticateClient(dto);
+
+    if (!client.supportsGrant(dto.grantType)) {
+      throw new OAuthException('unauthorized_client', 'Grant type not allowed for this client');
+    }
+
+    switch (dto.grantType) {
+      case OAUTH_GRANT_TYPES.AUTHORIZATION_CODE:
+        return this.exchangeAuthorizationCode(client, dto, context);
+      case OAUTH_GRANT_TYPES.REFRESH_TOKEN:
+        return this.exchangeRefreshToken(client, dto, context);
+      case OAUTH_GRANT_TYPES.CLIENT_CREDENTIALS:
+        return this.issueServiceToken(client);
+      default:
+        throw new OAuthException('unsupported_grant_type', 'Unsupported grant_type');
+    }
+  }
+
+  private async authenticateClient(dto: OAuthTokenRequestDto): Promise<OAuthClientEntity> {
+    const client = dto.clientId ? await this.oauthClientRepository.findByClientId(dto.clientId) : null;
+    if (!client) {
+      throw new OAuthException('invalid_client', 'Client authentication failed', 401);
+    }
+
+    if (client.isConfidential()) {
+      if (!dto.clientSecret || !this.secureTokenGenerator.matches(dto.clientSecret, client.clientSecretHash!)) {
+        Logger.warn('OAuth client authentication failed', { clientId: client.clientId });
+        throw new OAuthException('invalid_client', 'Client authentication failed', 401);
+      }
+    }
+
+    return client;
+  }
+
+  private async exchangeAuthorizationCode(
+    client: OAuthClientEntity,
+    dto: OAuthTokenRequestDto,
+    context?: ClientContext
+  ): Promise<OAuthTokenResponseDto> {
+    if (!dto.code || !dto.redirectUri || !dto.codeVerifier) {
+      throw new OAuthException('invalid_request', 'code, redirect_uri and code_verifier are required');
+    }
+
+    const code = await this.oauthAuthorizationCodeRepository.consume(this.secureTokenGenerator.hash(dto.code));
+    if (
+      !code ||
+      code.isExpired() ||
+      code.clientId !== client.id ||
+      code.redirectUri !== dto.redirectUri ||
+      !verifyPkceChallenge(dto.codeVerifier, code.codeChallenge, code.codeChallengeMethod)
+    ) {
+      Logger.warn('Invalid authorization code redeemed', { clientId: client.clientId });
+      throw new OAuthException('invalid_grant', 'Authorization code is invalid or expired');
+    }
+
+    const user = await this.userRepository.findById(code.userId, client.tenantId);
+    if (!user) {
+      throw new OAuthException('invalid_grant', 'Authorization code is invalid or expired');
+    }
+
+    const tokens = await this.authTokenService.issueTokens(user, context);
+    const scopes = code.getScopes();
+
+    const response = this.toTokenResponse(tokens, scopes);
+    if (scopes.includes(OIDC_SCOPES.OPENID)) {
+      const claims = await this.oidcClaimsService.buildClaims(user.id, scopes);
+      if (claims) {
+        response.id_token = JwtService.generateIdToken(
+          code.nonce ? { ...claims, nonce: code.nonce } : claims,
+          client.clientId
+        );
+      }
+    }
+
+    Logger.info('Authorization code exchanged', { userId: user.id, clientId: client.clientId });
+    return response;
+  }
+
+  private async exchangeRefreshToken(
+    client: OAuthClientEntity,
+    dto: OAuthTokenRequestDto,
+    context?: ClientContext
+  ): Promise<OAuthTokenResponseDto> {
+    if (!dto.refreshToken) {
+      throw new OAuthException('invalid_request', 'refresh_token is required');
+    }
+
+    // A client may only refresh sessions of users in its own tenant
+    const payload = JwtService.decodeToken(dto.refreshToken);
+    if (!payload || payload.tenantId !== client.tenantId) {
+      throw new OAuthException('invalid_grant', 'Refresh token is invalid or expired');
+    }
+
+    let tokens: AuthResponseDto;
+    try {
+      tokens = await this.refreshTokenUseCase.execute({ refreshToken: dto.refreshToken }, context);
+    } catch (error) {
+      if (error instanceof DomainException) {
+        throw new OAuthException('invalid_grant', 'Refresh token is invalid or expired');
+      }
+      throw error;
+    }
+
+    return this.toTokenResponse(tokens);
+  }
+
+  private async issueServiceToken(client: OAuthClientEntity): Promise<OAuthTokenResponseDto> {
+    // Public clients cannot keep a secret, so they can never act on their own behalf
+    if (!client.isConfidential()) {
+      throw new OAuthException('unauthorized_client', 'Public clients cannot use client_credentials');
+    }
+
+    const roles = await this.oauthClientRepository.getRoles(client.id);
+    const payload: JwtPayload = {
+      userId: client.id,
+      tenantId: client.tenantId,
+      email: '',
+      roles: roles.map((role) => role.name),
+      permissions: [...new Set(roles.flatMap((role) => role.permissions.map((p) => p.name)))],
+      isSuperAdmin: false,
+      principalType: 'service',
+      clientId: client.clientId,
+    };
+
+    const tokenVersion = (await this.tokenVersionRepository.getServiceClientVersion(client.id)) ?? 1;
+    const accessToken = JwtService.generateAccessToken(payload, tokenVersion);
+
+    Logger.info('Service client token issued', { tenantId: client.tenantId, clientId: client.clientId });
+
+    return this.toTokenResponse({ accessToken });
+  }
+
+  private toTokenResponse(
+    tokens: Pick<AuthResponseDto, 'accessToken'> & Partial<Pick<AuthResponseDto, 'refreshToken'>>,
+    scopes?: string[]
+  ): OAuthTokenResponseDto {
+    const exp = JwtService.decodeToken(tokens.accessToken)?.exp;
+
+    return {
+      access_token: tokens.accessToken,
+      token_type: 'Bearer',
+      expires_in: exp ? exp - Math.floor(Date.now() / 1000) : 0,
+      ...(tokens.refreshToken ? { refresh_token: tokens.refreshToken } : {}),
+      ...(scopes ? { scope: scopes.join(' ') } : {}),
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import { IOAuthClientRepository } from '../../../domain/repositories/ioauth-client-repository';
+import { OAuthClientEntity } from '../../../domain/entities/oauth-client.entity';
+import { OAUTH_GRANT_TYPES, OIDC_SCOPES, PKCE_METHOD_S256 } from '../../../domain/constants/oauth';
+import { OAuthException } from '../../../domain/exceptions/domain-exceptions';
+import { AuthorizationRequestDto } from '../../dto/oauth.dto';
+
+export interface ValidatedAuthorizationRequest {
+  client: OAuthClientEntity;
+  scopes: string[];
+}
+
+/**
+ * Use case for checking an OpenID Connect authorization request
+ *
+ * Business Rules:
+ * - Only the authorization code flow is supported, and PKCE (S256) is mandatory for every client
+ * - The redirect URI must exactly match one registered for the client
+ * - The "openid" scope is required; scopes the client is not allowed to use are dropped
+ */
+export class ValidateAuthorizationRequestUseCase {
+  constructor(private oauthClientRepository: IOAuthClientRepository) {}
+
+  async execute(dto: AuthorizationRequestDto): Promise<ValidatedAuthorizationRequest> {
+    if (!dto.clientId || !dto.redirectUri) {
+      throw new OAuthException('invalid_request', 'client_id and redirect_uri are required');
+    }
+
+    const client = await this.oauthClientRepository.findByClientId(dto.clientId);
+    if (!client) {
+      throw new OAuthException('invalid_client', 'Unknown client');
+    }
+
+    if (!client.isRedirectUriAllowed(dto.redirectUri)) {
+      throw new OAuthException('invalid_request', 'redirect_uri is not registered for this client');
+    }
+
+    if (dto.responseType !== 'code' || !client.supportsGrant(OAUTH_GRANT_TYPES.AUTHORIZATION_CODE)) {
+      throw new OAuthException('unsupported_response_type', 'Only response_type=code is supported');
+    }
+
+    const scopes = client.filterScopes((dto.scope || '').split(' ').filter(Boolean));
+    if (!scopes.includes(OIDC_SCOPES.OPENID)) {
+      throw new OAuthException('invalid_scope', `The "${OIDC_SCOPES.OPENID}" scope is required`);
+    }
+
+    if (!dto.codeChallenge || dto.codeChallengeMethod !== PKCE_METHOD_S256) {
+      throw new OAuthException('invalid_request', `PKCE with code_challenge_method=${PKCE_METHOD_S256} is required`);
+    }
+
+    return { client, scopes };
+  }
+}
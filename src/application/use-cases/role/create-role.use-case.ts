@@ -3,15 +3,20 @@ import { IPermissionRepository } from '../../../domain/repositories/ipermission-
 import { RoleEntity } from '../../../domain/entities/role.entity';
 import { ConflictException, NotFoundException } from '../../../domain/exceptions/domain-exceptions';
 import { CreateRoleDto, RoleResponseDto } from '../../dto/role.dto';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
 import { v4 as uuidv4 } from 'uuid';
 
 export class CreateRoleUseCase {
   constructor(
     private roleRepository: IRoleRepository,
-    private permissionRepository: IPermissionRepository
+    private permissionRepository: IPermissionRepository,
+    private auditLogService: AuditLogService
   ) {}
 
-  async execute(dto: CreateRoleDto, tenantId: string): Promise<RoleResponseDto> {
+  async execute(dto: CreateRoleDto, tenantId: string, actor?: AuditActor): Promise<RoleResponseDto> {
     // Check if role name already exists in tenant
     const existingRole = await this.roleRepository.findByName(dto.name, tenantId);
     if (existingRole) {
@@ -38,6 +43,18 @@ export class CreateRoleUseCase {
     );
     await this.roleRepository.create(role);
 
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.ROLE_CREATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.ROLE,
+      targetId: role.id,
+      changes: AuditEventEntity.diff(null, {
+        name: role.name,
+        description: role.description,
+        permissionIds: role.permissionIds,
+      }),
+    });
+
     // Return role with permissions
     const roleWithPermissions = await this.roleRepository.getRoleWithPermissions(role.id, tenantId);
 
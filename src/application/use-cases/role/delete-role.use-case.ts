@@ -1,16 +1,34 @@
 import { IRoleRepository } from '../../../domain/repositories/irole-repository';
 import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
 
 export class DeleteRoleUseCase {
-  constructor(private roleRepository: IRoleRepository) {}
+  constructor(
+    private roleRepository: IRoleRepository,
+    private auditLogService: AuditLogService
+  ) {}
 
-  async execute(roleId: string, tenantId: string): Promise<void> {
+  async execute(roleId: string, tenantId: string, actor?: AuditActor): Promise<void> {
     const role = await this.roleRepository.findById(roleId, tenantId);
     if (!role) {
       throw new NotFoundException('Role', roleId);
     }
 
     await this.roleRepository.delete(roleId, tenantId);
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.ROLE_DELETED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.ROLE,
+      targetId: roleId,
+      changes: AuditEventEntity.diff(
+        { name: role.name, description: role.description, permissionIds: role.permissionIds },
+        null
+      ),
+    });
   }
 }
 
@@ -3,14 +3,19 @@ import { IPermissionRepository } from '../../../domain/repositories/ipermission-
 import { RoleEntity } from '../../../domain/entities/role.entity';
 import { NotFoundException, ConflictException } from '../../../domain/exceptions/domain-exceptions';
 import { UpdateRoleDto, RoleResponseDto } from '../../dto/role.dto';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
 
 export class UpdateRoleUseCase {
   constructor(
     private roleRepository: IRoleRepository,
-    private permissionRepository: IPermissionRepository
+    private permissionRepository: IPermissionRepository,
+    private auditLogService: AuditLogService
   ) {}
 
-  async execute(roleId: string, dto: UpdateRoleDto, tenantId: string): Promise<RoleResponseDto> {
+  async execute(roleId: string, dto: UpdateRoleDto, tenantId: string, actor?: AuditActor): Promise<RoleResponseDto> {
     const role = await this.roleRepository.findById(roleId, tenantId);
     if (!role) {
       throw new NotFoundException('Role', roleId);
@@ -67,6 +72,21 @@ export class UpdateRoleUseCase {
       throw new NotFoundException('Role', roleId);
     }
 
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.ROLE_UPDATED,
+      tenantId: role.tenantId,
+      targetType: AUDIT_TARGET_TYPES.ROLE,
+      targetId: roleId,
+      changes: AuditEventEntity.diff(
+        { name: role.name, description: role.description, permissionIds: [...role.permissionIds].sort() },
+        {
+          name: updatedRole.name,
+          description: updatedRole.description,
+          permissionIds: [...updatedRole.permissionIds].sort(),
+        }
+      ),
+    });
+
     return {
       id: roleWithPermissions.id,
       name: roleWithPermissions.name,
@@ -0,0 +1,35 @@
+import { IScimTokenRepository } from '../../../domain/repositories/iscim-token-repository';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { SCIM_TOKEN_PREFIX } from '../../../domain/constants/scim';
+import { UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for authenticating a SCIM request with its bearer token
+ * @returns The tenant the request provisions
+ */
+export class AuthenticateScimTokenUseCase {
+  constructor(
+    private scimTokenRepository: IScimTokenRepository,
+    private secureTokenGenerator: ISecureTokenGenerator
+  ) {}
+
+  async execute(token: string): Promise<string> {
+    if (!token.startsWith(`${SCIM_TOKEN_PREFIX}_`)) {
+      throw new UnauthorizedException('Invalid SCIM token');
+    }
+
+    const scimToken = await this.scimTokenRepository.findByHash(this.secureTokenGenerator.hash(token));
+    const now = new Date();
+    if (!scimToken || !scimToken.isActive(now)) {
+      Logger.warn('Rejected SCIM token', { prefix: scimToken?.prefix });
+      throw new UnauthorizedException('Invalid, expired or revoked SCIM token');
+    }
+
+    if (scimToken.shouldRecordUsage(now)) {
+      await this.scimTokenRepository.recordUsage(scimToken, now);
+    }
+
+    return scimToken.tenantId;
+  }
+}
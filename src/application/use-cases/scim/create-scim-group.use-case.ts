@@ -0,0 +1,21 @@
+import { ScimProvisioningService } from '../../services/scim-provisioning.service';
+import { ScimResourceService } from '../../services/scim-resource.service';
+import { ScimGroupResource } from '../../dto/scim.dto';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for provisioning a group (POST /Groups)
+ * The group becomes a tenant role without permissions; tenant admins grant them afterwards
+ */
+export class CreateScimGroupUseCase {
+  constructor(
+    private scimProvisioningService: ScimProvisioningService,
+    private scimResourceService: ScimResourceService
+  ) {}
+
+  async execute(tenantId: string, body: unknown, actor?: AuditActor): Promise<ScimGroupResource> {
+    const input = this.scimResourceService.readGroup(body);
+    const group = await this.scimProvisioningService.createGroup(tenantId, input, actor);
+    return this.scimResourceService.toGroupResource(group);
+  }
+}
@@ -0,0 +1,108 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { IScimTokenRepository } from '../../../domain/repositories/iscim-token-repository';
+import { ISecureTokenGenerator } from '../../../domain/services/isecure-token-generator';
+import { ScimTokenEntity } from '../../../domain/entities/scim-token.entity';
+import {
+  SCIM_TOKEN_PREFIX,
+  SCIM_TOKEN_DISPLAY_PREFIX_LENGTH,
+  MAX_SCIM_TOKENS_PER_TENANT,
+} from '../../../domain/constants/scim';
+import {
+  NotFoundException,
+  ValidationException,
+  BusinessRuleException,
+} from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { ScimResourceService } from '../../services/scim-resource.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { CreateScimTokenDto, CreatedScimTokenResponseDto, ScimTokenResponseDto } from '../../dto/scim.dto';
+
+export function toScimTokenResponse(token: ScimTokenEntity): ScimTokenResponseDto {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+    revokedAt: token.revokedAt,
+    createdAt: token.createdAt,
+  };
+}
+
+/**
+ * Use case for creating the bearer token a tenant's identity provider provisions users with
+ *
+ * Business Rules:
+ * - A tenant has a limited number of active tokens; a second one allows rotating without an outage
+ * - The token is only returned once; only its hash and a short display prefix are stored
+ */
+export class CreateScimTokenUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private scimTokenRepository: IScimTokenRepository,
+    private secureTokenGenerator: ISecureTokenGenerator,
+    private scimResourceService: ScimResourceService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant the token provisions
+   * @param dto - Token name and optional expiry
+   * @param requester - Requesting admin (tenantId is null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    dto: CreateScimTokenDto,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<CreatedScimTokenResponseDto> {
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const now = new Date();
+    const expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : undefined;
+    if (expiresAt && expiresAt.getTime() <= now.getTime()) {
+      throw new ValidationException('Expiry must be in the future');
+    }
+
+    if ((await this.scimTokenRepository.countActiveByTenantId(tenantId, now)) >= MAX_SCIM_TOKENS_PER_TENANT) {
+      throw new BusinessRuleException(
+        `A tenant can have at most ${MAX_SCIM_TOKENS_PER_TENANT} active SCIM tokens; revoke one first`
+      );
+    }
+
+    const token = this.secureTokenGenerator.generate(SCIM_TOKEN_PREFIX);
+    const scimToken = await this.scimTokenRepository.create({
+      tenantId,
+      name: dto.name,
+      prefix: token.slice(0, SCIM_TOKEN_DISPLAY_PREFIX_LENGTH),
+      tokenHash: this.secureTokenGenerator.hash(token),
+      expiresAt,
+      createdBy: requester.userId,
+    });
+
+    Logger.info('SCIM token created', { tenantId, scimTokenId: scimToken.id, prefix: scimToken.prefix });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.SCIM_TOKEN_CREATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.SCIM_TOKEN,
+      targetId: scimToken.id,
+    });
+
+    return {
+      ...toScimTokenResponse(scimToken),
+      token,
+      scimBaseUrl: this.scimResourceService.getBaseUrl(),
+    };
+  }
+}
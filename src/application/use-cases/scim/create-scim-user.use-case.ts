@@ -0,0 +1,20 @@
+import { ScimProvisioningService } from '../../services/scim-provisioning.service';
+import { ScimResourceService } from '../../services/scim-resource.service';
+import { ScimUserResource } from '../../dto/scim.dto';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for provisioning a user (POST /Users)
+ */
+export class CreateScimUserUseCase {
+  constructor(
+    private scimProvisioningService: ScimProvisioningService,
+    private scimResourceService: ScimResourceService
+  ) {}
+
+  async execute(tenantId: string, body: unknown, actor?: AuditActor): Promise<ScimUserResource> {
+    const input = this.scimResourceService.readUser(body);
+    const user = await this.scimProvisioningService.createUser(tenantId, input, actor);
+    return this.scimResourceService.toUserResource(user);
+  }
+}
@@ -0,0 +1,23 @@
+import { IScimGroupRepository } from '../../../domain/repositories/iscim-group-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { ScimProvisioningService } from '../../services/scim-provisioning.service';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for deleting a group (DELETE /Groups/:id), which deletes the role
+ */
+export class DeleteScimGroupUseCase {
+  constructor(
+    private scimGroupRepository: IScimGroupRepository,
+    private scimProvisioningService: ScimProvisioningService
+  ) {}
+
+  async execute(tenantId: string, id: string, actor?: AuditActor): Promise<void> {
+    const group = await this.scimGroupRepository.findById(id, tenantId);
+    if (!group) {
+      throw new NotFoundException('Group', id);
+    }
+
+    await this.scimProvisioningService.deleteGroup(group, actor);
+  }
+}
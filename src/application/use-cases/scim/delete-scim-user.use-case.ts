@@ -0,0 +1,24 @@
+import { IScimUserRepository } from '../../../domain/repositories/iscim-user-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { ScimProvisioningService } from '../../services/scim-provisioning.service';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for deleting a user (DELETE /Users/:id)
+ * The user is only deprovisioned (deletedAt), so its history stays and the client can reactivate it
+ */
+export class DeleteScimUserUseCase {
+  constructor(
+    private scimUserRepository: IScimUserRepository,
+    private scimProvisioningService: ScimProvisioningService
+  ) {}
+
+  async execute(tenantId: string, id: string, actor?: AuditActor): Promise<void> {
+    const user = await this.scimUserRepository.findById(id, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', id);
+    }
+
+    await this.scimProvisioningService.deprovisionUser(user, actor);
+  }
+}
@@ -0,0 +1,24 @@
+import { IScimGroupRepository } from '../../../domain/repositories/iscim-group-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { ScimResourceService } from '../../services/scim-resource.service';
+import { ScimGroupResource, ScimListQuery } from '../../dto/scim.dto';
+
+export class GetScimGroupUseCase {
+  constructor(
+    private scimGroupRepository: IScimGroupRepository,
+    private scimResourceService: ScimResourceService
+  ) {}
+
+  /**
+   * @param query - Only excludedAttributes is read
+   */
+  async execute(tenantId: string, id: string, query: ScimListQuery = {}): Promise<ScimGroupResource> {
+    const { includeMembers } = this.scimResourceService.readListQuery({ excludedAttributes: query.excludedAttributes });
+    const group = await this.scimGroupRepository.findById(id, tenantId, includeMembers);
+    if (!group) {
+      throw new NotFoundException('Group', id);
+    }
+
+    return this.scimResourceService.toGroupResource(group, includeMembers);
+  }
+}
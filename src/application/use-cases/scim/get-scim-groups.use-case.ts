@@ -0,0 +1,31 @@
+import { IScimGroupRepository } from '../../../domain/repositories/iscim-group-repository';
+import { ScimResourceService } from '../../services/scim-resource.service';
+import { ScimListQuery, ScimListResponse, ScimGroupResource } from '../../dto/scim.dto';
+
+/**
+ * Use case for listing and filtering the roles of a tenant as SCIM groups (GET /Groups)
+ * Clients usually send excludedAttributes=members, which skips loading the members
+ */
+export class GetScimGroupsUseCase {
+  constructor(
+    private scimGroupRepository: IScimGroupRepository,
+    private scimResourceService: ScimResourceService
+  ) {}
+
+  async execute(tenantId: string, query: ScimListQuery): Promise<ScimListResponse<ScimGroupResource>> {
+    const options = this.scimResourceService.readListQuery(query);
+    const page = await this.scimGroupRepository.findAll(
+      tenantId,
+      options.filter,
+      options.startIndex,
+      options.count,
+      options.includeMembers
+    );
+
+    return this.scimResourceService.toListResponse(
+      page.resources.map((group) => this.scimResourceService.toGroupResource(group, options.includeMembers)),
+      page.total,
+      options.startIndex
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { IScimTokenRepository } from '../../../domain/repositories/iscim-token-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { ScimTokenResponseDto } from '../../dto/scim.dto';
+import { toScimTokenResponse } from './create-scim-token.use-case';
+
+export class GetScimTokensUseCase {
+  constructor(private scimTokenRepository: IScimTokenRepository) {}
+
+  /**
+   * @param tenantId - Tenant whose tokens are listed (revoked and expired tokens included)
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   */
+  async execute(tenantId: string, requesterTenantId: string | null): Promise<ScimTokenResponseDto[]> {
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tokens = await this.scimTokenRepository.findByTenantId(tenantId);
+    return tokens.map(toScimTokenResponse);
+  }
+}
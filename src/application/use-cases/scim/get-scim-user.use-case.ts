@@ -0,0 +1,23 @@
+import { IScimUserRepository } from '../../../domain/repositories/iscim-user-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { ScimResourceService } from '../../services/scim-resource.service';
+import { ScimUserResource } from '../../dto/scim.dto';
+
+export class GetScimUserUseCase {
+  constructor(
+    private scimUserRepository: IScimUserRepository,
+    private scimResourceService: ScimResourceService
+  ) {}
+
+  /**
+   * Deprovisioned users are returned with active=false
+   */
+  async execute(tenantId: string, id: string): Promise<ScimUserResource> {
+    const user = await this.scimUserRepository.findById(id, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', id);
+    }
+
+    return this.scimResourceService.toUserResource(user);
+  }
+}
@@ -0,0 +1,25 @@
+import { IScimUserRepository } from '../../../domain/repositories/iscim-user-repository';
+import { ScimResourceService } from '../../services/scim-resource.service';
+import { ScimListQuery, ScimListResponse, ScimUserResource } from '../../dto/scim.dto';
+
+/**
+ * Use case for listing and filtering the users of a tenant (GET /Users)
+ * Clients look users up with filters like userName eq "..." before creating them
+ */
+export class GetScimUsersUseCase {
+  constructor(
+    private scimUserRepository: IScimUserRepository,
+    private scimResourceService: ScimResourceService
+  ) {}
+
+  async execute(tenantId: string, query: ScimListQuery): Promise<ScimListResponse<ScimUserResource>> {
+    const options = this.scimResourceService.readListQuery(query);
+    const page = await this.scimUserRepository.findAll(tenantId, options.filter, options.startIndex, options.count);
+
+    return this.scimResourceService.toListResponse(
+      page.resources.map((user) => this.scimResourceService.toUserResource(user)),
+      page.total,
+      options.startIndex
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { IScimGroupRepository } from '../../../domain/repositories/iscim-group-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { ScimProvisioningService } from '../../services/scim-provisioning.service';
+import { ScimResourceService } from '../../services/scim-resource.service';
+import { ScimPatchService } from '../../services/scim-patch.service';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for patching a group (PATCH /Groups/:id)
+ * Identity providers add and remove members one by one through this endpoint
+ */
+export class PatchScimGroupUseCase {
+  constructor(
+    private scimGroupRepository: IScimGroupRepository,
+    private scimProvisioningService: ScimProvisioningService,
+    private scimResourceService: ScimResourceService,
+    private scimPatchService: ScimPatchService
+  ) {}
+
+  async execute(tenantId: string, id: string, body: unknown, actor?: AuditActor): Promise<void> {
+    const current = await this.scimGroupRepository.findById(id, tenantId);
+    if (!current) {
+      throw new NotFoundException('Group', id);
+    }
+
+    const patched = this.scimPatchService.apply(this.scimResourceService.toGroupResource(current), body);
+    await this.scimProvisioningService.updateGroup(current, this.scimResourceService.readGroup(patched), actor);
+  }
+}
@@ -0,0 +1,31 @@
+import { IScimUserRepository } from '../../../domain/repositories/iscim-user-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { ScimProvisioningService } from '../../services/scim-provisioning.service';
+import { ScimResourceService } from '../../services/scim-resource.service';
+import { ScimPatchService } from '../../services/scim-patch.service';
+import { ScimUserResource } from '../../dto/scim.dto';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for patching a user (PATCH /Users/:id)
+ * Identity providers deprovision users with replace active=false; group memberships are patched on the groups
+ */
+export class PatchScimUserUseCase {
+  constructor(
+    private scimUserRepository: IScimUserRepository,
+    private scimProvisioningService: ScimProvisioningService,
+    private scimResourceService: ScimResourceService,
+    private scimPatchService: ScimPatchService
+  ) {}
+
+  async execute(tenantId: string, id: string, body: unknown, actor?: AuditActor): Promise<ScimUserResource> {
+    const current = await this.scimUserRepository.findById(id, tenantId);
+    if (!current) {
+      throw new NotFoundException('User', id);
+    }
+
+    const patched = this.scimPatchService.apply(this.scimResourceService.toUserResource(current), body, ['groups']);
+    const user = await this.scimProvisioningService.updateUser(current, this.scimResourceService.readUser(patched), actor);
+    return this.scimResourceService.toUserResource(user);
+  }
+}
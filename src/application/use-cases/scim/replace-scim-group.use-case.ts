@@ -0,0 +1,29 @@
+import { IScimGroupRepository } from '../../../domain/repositories/iscim-group-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { ScimProvisioningService } from '../../services/scim-provisioning.service';
+import { ScimResourceService } from '../../services/scim-resource.service';
+import { ScimGroupResource } from '../../dto/scim.dto';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for replacing a group (PUT /Groups/:id)
+ * The members in the body become the role's only holders
+ */
+export class ReplaceScimGroupUseCase {
+  constructor(
+    private scimGroupRepository: IScimGroupRepository,
+    private scimProvisioningService: ScimProvisioningService,
+    private scimResourceService: ScimResourceService
+  ) {}
+
+  async execute(tenantId: string, id: string, body: unknown, actor?: AuditActor): Promise<ScimGroupResource> {
+    const current = await this.scimGroupRepository.findById(id, tenantId);
+    if (!current) {
+      throw new NotFoundException('Group', id);
+    }
+
+    const input = this.scimResourceService.readGroup(body);
+    const group = await this.scimProvisioningService.updateGroup(current, input, actor);
+    return this.scimResourceService.toGroupResource(group);
+  }
+}
@@ -0,0 +1,29 @@
+import { IScimUserRepository } from '../../../domain/repositories/iscim-user-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { ScimProvisioningService } from '../../services/scim-provisioning.service';
+import { ScimResourceService } from '../../services/scim-resource.service';
+import { ScimUserResource } from '../../dto/scim.dto';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for replacing a user (PUT /Users/:id)
+ * Attributes left out of the body are cleared; active=false deprovisions the user
+ */
+export class ReplaceScimUserUseCase {
+  constructor(
+    private scimUserRepository: IScimUserRepository,
+    private scimProvisioningService: ScimProvisioningService,
+    private scimResourceService: ScimResourceService
+  ) {}
+
+  async execute(tenantId: string, id: string, body: unknown, actor?: AuditActor): Promise<ScimUserResource> {
+    const current = await this.scimUserRepository.findById(id, tenantId);
+    if (!current) {
+      throw new NotFoundException('User', id);
+    }
+
+    const input = this.scimResourceService.readUser(body);
+    const user = await this.scimProvisioningService.updateUser(current, input, actor);
+    return this.scimResourceService.toUserResource(user);
+  }
+}
@@ -0,0 +1,44 @@
+import { IScimTokenRepository } from '../../../domain/repositories/iscim-token-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for revoking a SCIM token
+ * The record is kept (with revokedAt) so the prefix of a leaked token can still be traced
+ */
+export class RevokeScimTokenUseCase {
+  constructor(
+    private scimTokenRepository: IScimTokenRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant that owns the token
+   * @param id - SCIM token ID
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(tenantId: string, id: string, requesterTenantId: string | null, actor?: AuditActor): Promise<void> {
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const token = await this.scimTokenRepository.findById(id, tenantId);
+    if (!token) {
+      throw new NotFoundException('SCIM token', id);
+    }
+
+    await this.scimTokenRepository.revoke(token);
+    Logger.info('SCIM token revoked', { tenantId, scimTokenId: token.id, prefix: token.prefix });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.SCIM_TOKEN_REVOKED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.SCIM_TOKEN,
+      targetId: token.id,
+    });
+  }
+}
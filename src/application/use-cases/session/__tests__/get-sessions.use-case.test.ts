@@ -0,0 +1,59 @@
+import { GetSessionsUseCase } from '../get-sessions.use-case';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { ISessionRepository } from '../../../../domain/repositories/isession-repository';
+import { UserEntity } from '../../../../domain/entities/user.entity';
+import { SessionEntity } from '../../../../domain/entities/session.entity';
+import { Email } from '../../../../domain/value-objects/email';
+import { Password } from '../../../../domain/value-objects/password';
+import { NotFoundException } from '../../../../domain/exceptions/domain-exceptions';
+
+describe('GetSessionsUseCase', () => {
+  const user = new UserEntity(
+    'user-1',
+    new Email('john@example.com'),
+    new Password('hashedPassword', true),
+    'John',
+    'Doe',
+    'tenant-1',
+    false,
+    new Date(),
+    new Date()
+  );
+  const sessions = [
+    new SessionEntity('session-1', user.id, 'Firefox', '10.0.0.1', new Date(), new Date()),
+    new SessionEntity('session-2', user.id, 'Safari', '10.0.0.2', new Date(), new Date()),
+  ];
+
+  // Users are only found within their own tenant; undefined is the super admin's unscoped lookup
+  const userRepository = {
+    findById: jest.fn(async (id: string, tenantId?: string | null) =>
+      id === user.id && (tenantId === undefined || tenantId === user.tenantId) ? user : null
+    ),
+  };
+  const sessionRepository = { findActiveByUserId: jest.fn().mockResolvedValue(sessions) };
+  const useCase = new GetSessionsUseCase(
+    userRepository as unknown as IUserRepository,
+    sessionRepository as unknown as ISessionRepository
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should list the active sessions and flag the current one', async () => {
+    const result = await useCase.execute(user.id, 'tenant-1', 'session-2');
+
+    expect(sessionRepository.findActiveByUserId).toHaveBeenCalledWith(user.id);
+    expect(result.map((s) => [s.id, s.current])).toEqual([
+      ['session-1', false],
+      ['session-2', true],
+    ]);
+  });
+
+  it('should not list the sessions of a user in another tenant', async () => {
+    await expect(useCase.execute(user.id, 'tenant-2')).rejects.toThrow(NotFoundException);
+    expect(sessionRepository.findActiveByUserId).not.toHaveBeenCalled();
+  });
+
+  it('should let a super admin list sessions in any tenant', async () => {
+    await expect(useCase.execute(user.id, undefined)).resolves.toHaveLength(2);
+  });
+});
@@ -0,0 +1,71 @@
+import { RevokeSessionUseCase } from '../revoke-session.use-case';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { ISessionRepository } from '../../../../domain/repositories/isession-repository';
+import { ITokenRepository } from '../../../../domain/repositories/itoken-repository';
+import { UserEntity } from '../../../../domain/entities/user.entity';
+import { SessionEntity } from '../../../../domain/entities/session.entity';
+import { Email } from '../../../../domain/value-objects/email';
+import { Password } from '../../../../domain/value-objects/password';
+import { NotFoundException } from '../../../../domain/exceptions/domain-exceptions';
+import { AuditLogService } from '../../../services/audit-log.service';
+
+describe('RevokeSessionUseCase', () => {
+  const user = new UserEntity(
+    'user-1',
+    new Email('john@example.com'),
+    new Password('hashedPassword', true),
+    'John',
+    'Doe',
+    'tenant-1',
+    false,
+    new Date(),
+    new Date()
+  );
+  const sessions = new Map([
+    ['session-1', new SessionEntity('session-1', user.id, 'Firefox', null, new Date(), new Date())],
+    ['session-other', new SessionEntity('session-other', 'user-2', 'Safari', null, new Date(), new Date())],
+  ]);
+
+  const userRepository = {
+    findById: jest.fn(async (id: string, tenantId?: string | null) =>
+      id === user.id && (tenantId === undefined || tenantId === user.tenantId) ? user : null
+    ),
+  };
+  const sessionRepository = { findById: jest.fn(async (id: string) => sessions.get(id) ?? null) };
+  const tokenRepository = { revokeFamily: jest.fn().mockResolvedValue(undefined) };
+  const auditLogService = { record: jest.fn().mockResolvedValue(undefined) };
+  const useCase = new RevokeSessionUseCase(
+    userRepository as unknown as IUserRepository,
+    sessionRepository as unknown as ISessionRepository,
+    tokenRepository as unknown as ITokenRepository,
+    auditLogService as unknown as AuditLogService
+  );
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should revoke the token family of the session', async () => {
+    await useCase.execute(user.id, 'session-1', 'tenant-1');
+
+    expect(tokenRepository.revokeFamily).toHaveBeenCalledWith('session-1');
+    expect(auditLogService.record).toHaveBeenCalledWith(
+      undefined,
+      expect.objectContaining({ action: 'session.revoked', tenantId: 'tenant-1', targetId: 'session-1' })
+    );
+  });
+
+  it("should not revoke another user's session through this user", async () => {
+    await expect(useCase.execute(user.id, 'session-other', 'tenant-1')).rejects.toThrow(NotFoundException);
+    expect(tokenRepository.revokeFamily).not.toHaveBeenCalled();
+    expect(auditLogService.record).not.toHaveBeenCalled();
+  });
+
+  it('should not revoke sessions of a user in another tenant', async () => {
+    await expect(useCase.execute(user.id, 'session-1', 'tenant-2')).rejects.toThrow(NotFoundException);
+    expect(sessionRepository.findById).not.toHaveBeenCalled();
+    expect(tokenRepository.revokeFamily).not.toHaveBeenCalled();
+  });
+
+  it('should reject an unknown session', async () => {
+    await expect(useCase.execute(user.id, 'session-unknown', 'tenant-1')).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,38 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { ISessionRepository } from '../../../domain/repositories/isession-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { SessionResponseDto } from '../../dto/session.dto';
+
+export class GetSessionsUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private sessionRepository: ISessionRepository
+  ) {}
+
+  /**
+   * @param userId - Owner of the sessions
+   * @param tenantId - Tenant the user must belong to (undefined for super admin)
+   * @param currentSessionId - Session of the caller, flagged as current in the result
+   */
+  async execute(
+    userId: string,
+    tenantId?: string | null,
+    currentSessionId?: string
+  ): Promise<SessionResponseDto[]> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    const sessions = await this.sessionRepository.findActiveByUserId(user.id);
+
+    return sessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+}
@@ -0,0 +1,50 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { ISessionRepository } from '../../../domain/repositories/isession-repository';
+import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for revoking a single session
+ * The session's refresh and access tokens stop working immediately; other sessions of the user are kept
+ */
+export class RevokeSessionUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private sessionRepository: ISessionRepository,
+    private tokenRepository: ITokenRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param userId - Owner of the session
+   * @param sessionId - Session to revoke
+   * @param tenantId - Tenant the user must belong to (undefined for super admin)
+   * @param actor - The user or admin and client, for the audit log
+   */
+  async execute(userId: string, sessionId: string, tenantId?: string | null, actor?: AuditActor): Promise<void> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    const session = await this.sessionRepository.findById(sessionId);
+    if (!session || session.userId !== user.id) {
+      throw new NotFoundException('Session', sessionId);
+    }
+
+    await this.tokenRepository.revokeFamily(session.id);
+    Logger.info('Session revoked', { userId: user.id });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.SESSION_REVOKED,
+      tenantId: user.tenantId,
+      targetType: AUDIT_TARGET_TYPES.SESSION,
+      targetId: session.id,
+      metadata: { userId: user.id },
+    });
+  }
+}
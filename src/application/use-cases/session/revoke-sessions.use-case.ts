@@ -0,0 +1,65 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { ISessionRepository } from '../../../domain/repositories/isession-repository';
+import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
+import { ITokenVersionRepository } from '../../../domain/repositories/itoken-version-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for revoking all sessions of a user, optionally keeping one (the caller's own)
+ * Revoking every session is a force logout: issued access tokens are revoked as well
+ */
+export class RevokeSessionsUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private sessionRepository: ISessionRepository,
+    private tokenRepository: ITokenRepository,
+    private tokenVersionRepository: ITokenVersionRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param userId - Owner of the sessions
+   * @param tenantId - Tenant the user must belong to (undefined for super admin)
+   * @param exceptSessionId - Session to keep
+   * @param actor - The user or admin and client, for the audit log
+   * @returns Number of revoked sessions
+   */
+  async execute(
+    userId: string,
+    tenantId?: string | null,
+    exceptSessionId?: string,
+    actor?: AuditActor
+  ): Promise<number> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    const sessions = await this.sessionRepository.findActiveByUserId(user.id);
+    const toRevoke = sessions.filter((session) => session.id !== exceptSessionId);
+
+    for (const session of toRevoke) {
+      await this.tokenRepository.revokeFamily(session.id);
+    }
+
+    if (!exceptSessionId) {
+      await this.tokenVersionRepository.increment(user.id);
+    }
+
+    Logger.info('Sessions revoked', { userId: user.id, count: toRevoke.length });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.SESSIONS_REVOKED,
+      tenantId: user.tenantId,
+      targetType: AUDIT_TARGET_TYPES.USER,
+      targetId: user.id,
+      metadata: { count: toRevoke.length, keptSessionId: exceptSessionId ?? null },
+    });
+
+    return toRevoke.length;
+  }
+}
@@ -0,0 +1,104 @@
+import { ExchangeSsoLoginCodeUseCase } from '../exchange-sso-login-code.use-case';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { ITokenRepository } from '../../../../domain/repositories/itoken-repository';
+import { ITenantSecuritySettingsRepository } from '../../../../domain/repositories/itenant-security-settings-repository';
+import { UserEntity } from '../../../../domain/entities/user.entity';
+import { TenantSecuritySettingsEntity } from '../../../../domain/entities/tenant-security-settings.entity';
+import { Email } from '../../../../domain/value-objects/email';
+import { Password } from '../../../../domain/value-objects/password';
+import { MFA_POLICIES } from '../../../../domain/constants/mfa-policies';
+import { DEFAULT_LOCKOUT_POLICY } from '../../../../domain/constants/account-lockout';
+import {
+  AccountLockedException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '../../../../domain/exceptions/domain-exceptions';
+import { MfaPolicyService } from '../../../services/mfa-policy.service';
+import { AccountLockoutService } from '../../../services/account-lockout.service';
+import { AuditLogService } from '../../../services/audit-log.service';
+
+describe('ExchangeSsoLoginCodeUseCase', () => {
+  const user = new UserEntity(
+    'user-1',
+    new Email('john@example.com'),
+    new Password('hashedPassword', true),
+    'John',
+    'Doe',
+    'tenant-1',
+    false,
+    new Date(),
+    new Date()
+  );
+  const tokens = { accessToken: 'access', refreshToken: 'refresh' };
+  const challenge = { status: 'mfa_required', challengeToken: 'challenge', methods: ['totp'] };
+  const context = { userAgent: 'Firefox', ipAddress: '10.0.0.1' };
+
+  let tokenRepository: { consumeSsoLoginCode: jest.Mock };
+  let settingsRepository: { findByTenantId: jest.Mock };
+  let accountLockoutService: { assertNotLocked: jest.Mock };
+  let mfaPolicyService: { completeLogin: jest.Mock };
+  let auditLogService: { recordLogin: jest.Mock; recordLoginResult: jest.Mock };
+  let useCase: ExchangeSsoLoginCodeUseCase;
+
+  beforeEach(() => {
+    tokenRepository = { consumeSsoLoginCode: jest.fn().mockResolvedValue(user.id) };
+    settingsRepository = { findByTenantId: jest.fn().mockResolvedValue(TenantSecuritySettingsEntity.defaults('tenant-1')) };
+    accountLockoutService = { assertNotLocked: jest.fn().mockResolvedValue(null) };
+    mfaPolicyService = { completeLogin: jest.fn().mockResolvedValue(tokens) };
+    auditLogService = {
+      recordLogin: jest.fn().mockResolvedValue(undefined),
+      recordLoginResult: jest.fn().mockResolvedValue(undefined),
+    };
+
+    useCase = new ExchangeSsoLoginCodeUseCase(
+      { findById: jest.fn().mockResolvedValue(user) } as unknown as IUserRepository,
+      tokenRepository as unknown as ITokenRepository,
+      settingsRepository as unknown as ITenantSecuritySettingsRepository,
+      accountLockoutService as unknown as AccountLockoutService,
+      mfaPolicyService as unknown as MfaPolicyService,
+      auditLogService as unknown as AuditLogService
+    );
+  });
+
+  it('should issue tokens and audit the SSO login', async () => {
+    await expect(useCase.execute({ code: 'code-1' }, context)).resolves.toEqual(tokens);
+
+    expect(mfaPolicyService.completeLogin).toHaveBeenCalledWith(user, context);
+    expect(auditLogService.recordLoginResult).toHaveBeenCalledWith(user, context, 'sso', tokens);
+  });
+
+  it("should ask for the tenant's second factor", async () => {
+    mfaPolicyService.completeLogin.mockResolvedValue(challenge);
+
+    await expect(useCase.execute({ code: 'code-1' }, context)).resolves.toEqual(challenge);
+    expect(auditLogService.recordLoginResult).toHaveBeenCalledWith(user, context, 'sso', challenge);
+  });
+
+  it('should refuse a locked account', async () => {
+    accountLockoutService.assertNotLocked.mockRejectedValue(new AccountLockedException(new Date(Date.now() + 60000)));
+
+    await expect(useCase.execute({ code: 'code-1' }, context)).rejects.toThrow(AccountLockedException);
+
+    expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, context, 'sso', 'account_locked');
+    expect(mfaPolicyService.completeLogin).not.toHaveBeenCalled();
+  });
+
+  it('should refuse an unverified email when the tenant requires verification', async () => {
+    settingsRepository.findByTenantId.mockResolvedValue(
+      new TenantSecuritySettingsEntity('tenant-1', MFA_POLICIES.OFF, true, { ...DEFAULT_LOCKOUT_POLICY }, false, null)
+    );
+
+    await expect(useCase.execute({ code: 'code-1' }, context)).rejects.toThrow(ForbiddenException);
+
+    expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, context, 'sso', 'email_not_verified');
+    expect(mfaPolicyService.completeLogin).not.toHaveBeenCalled();
+  });
+
+  it('should reject a spent or unknown code without an audit event', async () => {
+    tokenRepository.consumeSsoLoginCode.mockResolvedValue(null);
+
+    await expect(useCase.execute({ code: 'code-1' }, context)).rejects.toThrow(UnauthorizedException);
+    expect(auditLogService.recordLogin).not.toHaveBeenCalled();
+    expect(auditLogService.recordLoginResult).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,52 @@
+import { SSO_PROTOCOLS } from '../../../domain/constants/sso';
+import { OidcSsoService } from '../../services/oidc-sso.service';
+import { SsoLoginService } from '../../services/sso-login.service';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { ClientContext } from '../../../shared/types';
+
+/**
+ * Use case for the OIDC redirect URI: redeems the authorization code and signs the user in
+ * The user is found by linked identity, or by email when the provider marks it as verified,
+ * or created when JIT provisioning is on. Unlike a tenant's SAML IdP, social providers are not
+ * trusted for unverified emails, so those never link to an existing account.
+ * The callback is only accepted in the browser that started the login (browserState).
+ * @returns The frontend URL carrying a one-time login code
+ */
+export class CompleteOidcLoginUseCase {
+  constructor(
+    private oidcSsoService: OidcSsoService,
+    private ssoLoginService: SsoLoginService
+  ) {}
+
+  async execute(
+    callbackParams: Record<string, string>,
+    browserState: string | undefined,
+    context?: ClientContext
+  ): Promise<string> {
+    const { connector, profile, emailVerified } = await this.oidcSsoService.validateCallback(
+      callbackParams,
+      browserState
+    );
+
+    const user = await this.ssoLoginService.resolveUser(
+      {
+        protocol: SSO_PROTOCOLS.OIDC,
+        connectionId: connector.id,
+        tenantId: connector.tenantId,
+        jitProvisioning: connector.jitProvisioning,
+        defaultRoleId: connector.defaultRoleId,
+      },
+      profile,
+      emailVerified,
+      context
+    );
+
+    Logger.info('User authenticated with OIDC', {
+      userId: user.id,
+      tenantId: connector.tenantId,
+      connectorId: connector.id,
+    });
+
+    return this.ssoLoginService.createLoginRedirect(user);
+  }
+}
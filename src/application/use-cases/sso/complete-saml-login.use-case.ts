@@ -0,0 +1,53 @@
+import { ITenantSamlConfigRepository } from '../../../domain/repositories/itenant-saml-config-repository';
+import { SSO_PROTOCOLS } from '../../../domain/constants/sso';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { SamlSsoService } from '../../services/saml-sso.service';
+import { SsoLoginService } from '../../services/sso-login.service';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { ClientContext } from '../../../shared/types';
+
+/**
+ * Use case for the assertion consumer service: verifies the IdP's SAMLResponse and signs the user in
+ * The user is found by linked identity or tenant email, or created when JIT provisioning is on.
+ * The tenant's IdP is trusted for the email address, so it counts as verified.
+ * The response is only accepted in the browser that started the login (browserState).
+ * @returns The frontend URL carrying a one-time login code
+ */
+export class CompleteSamlLoginUseCase {
+  constructor(
+    private tenantSamlConfigRepository: ITenantSamlConfigRepository,
+    private samlSsoService: SamlSsoService,
+    private ssoLoginService: SsoLoginService
+  ) {}
+
+  async execute(
+    tenantId: string,
+    samlResponse: string,
+    browserState: string | undefined,
+    context?: ClientContext
+  ): Promise<string> {
+    const config = await this.tenantSamlConfigRepository.findByTenantId(tenantId);
+    if (!config?.enabled) {
+      throw new NotFoundException('SAML configuration', tenantId);
+    }
+
+    const profile = await this.samlSsoService.validateResponse(config, samlResponse, browserState);
+
+    const user = await this.ssoLoginService.resolveUser(
+      {
+        protocol: SSO_PROTOCOLS.SAML,
+        connectionId: config.id,
+        tenantId,
+        jitProvisioning: config.jitProvisioning,
+        defaultRoleId: config.defaultRoleId,
+      },
+      profile,
+      true,
+      context
+    );
+
+    Logger.info('User authenticated with SAML', { userId: user.id, tenantId });
+
+    return this.ssoLoginService.createLoginRedirect(user);
+  }
+}
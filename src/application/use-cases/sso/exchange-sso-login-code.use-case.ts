@@ -0,0 +1,72 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
+import { ITenantSecuritySettingsRepository } from '../../../domain/repositories/itenant-security-settings-repository';
+import { UserEntity } from '../../../domain/entities/user.entity';
+import { ForbiddenException, UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+import { MfaPolicyService } from '../../services/mfa-policy.service';
+import { AccountLockoutService } from '../../services/account-lockout.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_LOGIN_METHODS } from '../../../domain/constants/audit';
+import { SsoLoginCodeDto } from '../../dto/sso.dto';
+import { LoginResponseDto } from '../../dto/auth.dto';
+import { ClientContext } from '../../../shared/types';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for exchanging the one-time code of an SSO login for the access/refresh pair
+ * The provider replaces the password only: social OIDC providers know nothing of the tenant's
+ * second factor, so MFA, the account lockout and the email verification rule apply as for other logins
+ */
+export class ExchangeSsoLoginCodeUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private tokenRepository: ITokenRepository,
+    private tenantSecuritySettingsRepository: ITenantSecuritySettingsRepository,
+    private accountLockoutService: AccountLockoutService,
+    private mfaPolicyService: MfaPolicyService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  async execute(dto: SsoLoginCodeDto, context?: ClientContext): Promise<LoginResponseDto> {
+    const userId = await this.tokenRepository.consumeSsoLoginCode(dto.code);
+    if (!userId) {
+      Logger.warn('Invalid SSO login code');
+      throw new UnauthorizedException('Invalid or expired SSO login code');
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user || !user.tenantId) {
+      throw new UnauthorizedException('Invalid or expired SSO login code');
+    }
+
+    try {
+      await this.accountLockoutService.assertNotLocked(user);
+    } catch (error) {
+      await this.recordAttempt(user, context, 'account_locked');
+      throw error;
+    }
+
+    // Just-in-time users whose provider does not vouch for the email start unverified
+    const settings = await this.tenantSecuritySettingsRepository.findByTenantId(user.tenantId);
+    if (settings.requireEmailVerification && !user.isEmailVerified()) {
+      Logger.warn('Login blocked until email is verified', { userId: user.id });
+      await this.recordAttempt(user, context, 'email_not_verified');
+      throw new ForbiddenException('Email address is not verified');
+    }
+
+    Logger.info('SSO login code exchanged', { userId: user.id });
+
+    const result = await this.mfaPolicyService.completeLogin(user, context);
+    await this.auditLogService.recordLoginResult(user, context, AUDIT_LOGIN_METHODS.SSO, result);
+
+    return result;
+  }
+
+  /**
+   * Audit a refused exchange of a valid code
+   * @param failureReason - Why the login was refused
+   */
+  private async recordAttempt(user: UserEntity, context: ClientContext | undefined, failureReason: string): Promise<void> {
+    await this.auditLogService.recordLogin(user, context, AUDIT_LOGIN_METHODS.SSO, failureReason);
+  }
+}
@@ -0,0 +1,24 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { SamlSsoService } from '../../services/saml-sso.service';
+
+/**
+ * Use case for publishing the service provider metadata of a tenant
+ * Available before the IdP is configured, since the IdP needs it first
+ * @returns Metadata XML
+ */
+export class GetSamlMetadataUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private samlSsoService: SamlSsoService
+  ) {}
+
+  async execute(tenantId: string): Promise<string> {
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    return this.samlSsoService.generateMetadata(tenant.id);
+  }
+}
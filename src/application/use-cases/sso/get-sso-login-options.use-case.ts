@@ -0,0 +1,41 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantSamlConfigRepository } from '../../../domain/repositories/itenant-saml-config-repository';
+import { ITenantOidcConnectorRepository } from '../../../domain/repositories/itenant-oidc-connector-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { SamlSsoService } from '../../services/saml-sso.service';
+import { OidcSsoService } from '../../services/oidc-sso.service';
+import { SsoLoginOptionsDto } from '../../dto/sso.dto';
+
+/**
+ * Use case for listing the SSO logins of a tenant, so the login page can show a button for each
+ */
+export class GetSsoLoginOptionsUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private tenantSamlConfigRepository: ITenantSamlConfigRepository,
+    private tenantOidcConnectorRepository: ITenantOidcConnectorRepository,
+    private samlSsoService: SamlSsoService,
+    private oidcSsoService: OidcSsoService
+  ) {}
+
+  async execute(tenantSlug: string): Promise<SsoLoginOptionsDto> {
+    const tenant = await this.tenantRepository.findBySlug(tenantSlug);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantSlug);
+    }
+
+    const samlConfig = await this.tenantSamlConfigRepository.findByTenantId(tenant.id);
+    const connectors = await this.tenantOidcConnectorRepository.findByTenantId(tenant.id);
+
+    return {
+      saml: samlConfig?.enabled ? { loginUrl: this.samlSsoService.getLoginUrl(tenant.slug) } : null,
+      oidc: connectors
+        .filter((connector) => connector.enabled)
+        .map((connector) => ({
+          id: connector.id,
+          name: connector.name,
+          loginUrl: this.oidcSsoService.getLoginUrl(tenant.slug, connector.id),
+        })),
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantOidcConnectorRepository } from '../../../domain/repositories/itenant-oidc-connector-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { OidcSsoService } from '../../services/oidc-sso.service';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { SsoLoginStartDto } from '../../dto/sso.dto';
+
+/**
+ * Use case for starting a login with one of the tenant's OpenID Connect connectors
+ * @returns The provider URL to redirect the browser to, and the state to bind to the browser
+ */
+export class StartOidcLoginUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private tenantOidcConnectorRepository: ITenantOidcConnectorRepository,
+    private oidcSsoService: OidcSsoService
+  ) {}
+
+  async execute(tenantSlug: string, connectorId: string): Promise<SsoLoginStartDto> {
+    const tenant = await this.tenantRepository.findBySlug(tenantSlug);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantSlug);
+    }
+
+    const connector = await this.tenantOidcConnectorRepository.findById(connectorId, tenant.id);
+    if (!connector?.enabled) {
+      throw new NotFoundException('OIDC connector', connectorId);
+    }
+
+    Logger.info('OIDC login started', { tenantId: tenant.id, connectorId });
+
+    return this.oidcSsoService.startLogin(connector);
+  }
+}
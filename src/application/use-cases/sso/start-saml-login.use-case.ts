@@ -0,0 +1,34 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantSamlConfigRepository } from '../../../domain/repositories/itenant-saml-config-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { SamlSsoService } from '../../services/saml-sso.service';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { SsoLoginStartDto } from '../../dto/sso.dto';
+
+/**
+ * Use case for starting an SSO login at the tenant's SAML identity provider
+ * @returns The IdP URL to redirect the browser to, and the request ID to bind to the browser
+ */
+export class StartSamlLoginUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private tenantSamlConfigRepository: ITenantSamlConfigRepository,
+    private samlSsoService: SamlSsoService
+  ) {}
+
+  async execute(tenantSlug: string): Promise<SsoLoginStartDto> {
+    const tenant = await this.tenantRepository.findBySlug(tenantSlug);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantSlug);
+    }
+
+    const config = await this.tenantSamlConfigRepository.findByTenantId(tenant.id);
+    if (!config?.enabled) {
+      throw new NotFoundException('SAML configuration', tenantSlug);
+    }
+
+    Logger.info('SAML login started', { tenantId: tenant.id });
+
+    return this.samlSsoService.startLogin(config);
+  }
+}
@@ -0,0 +1,172 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { IRoleRepository } from '../../../domain/repositories/irole-repository';
+import {
+  ITenantOidcConnectorRepository,
+  SaveTenantOidcConnector,
+} from '../../../domain/repositories/itenant-oidc-connector-repository';
+import { IOidcProvider } from '../../../domain/services/ioidc-provider';
+import {
+  DEFAULT_OIDC_CLAIM_MAPPING,
+  DEFAULT_OIDC_SCOPES,
+  MAX_OIDC_CONNECTORS_PER_TENANT,
+} from '../../../domain/constants/sso';
+import { ROLE_NAMES } from '../../../domain/constants/role-names';
+import {
+  NotFoundException,
+  ValidationException,
+  BusinessRuleException,
+  ConflictException,
+} from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { OidcSsoService } from '../../services/oidc-sso.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { CreateTenantOidcConnectorDto, TenantOidcConnectorResponseDto } from '../../dto/sso.dto';
+import { toTenantOidcConnectorResponse } from './get-tenant-oidc-connectors.use-case';
+
+/**
+ * Use case for adding an OpenID Connect provider to a tenant
+ *
+ * Business Rules:
+ * - The issuer must publish a discovery document for the authorization code flow
+ * - Connector names are unique within the tenant, and a tenant has at most MAX_OIDC_CONNECTORS_PER_TENANT
+ * - The "openid" scope is always requested
+ * - Users created on first login can get a default role, but never the admin role
+ */
+export class CreateTenantOidcConnectorUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private roleRepository: IRoleRepository,
+    private tenantOidcConnectorRepository: ITenantOidcConnectorRepository,
+    private oidcProvider: IOidcProvider,
+    private oidcSsoService: OidcSsoService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant the connector is added to
+   * @param dto - Connector settings
+   * @param requester - Requesting admin (tenantId is null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    dto: CreateTenantOidcConnectorDto,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<TenantOidcConnectorResponseDto> {
+    // Tenant admins can only change their own tenant
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    if ((await this.tenantOidcConnectorRepository.countByTenantId(tenantId)) >= MAX_OIDC_CONNECTORS_PER_TENANT) {
+      throw new BusinessRuleException(`A tenant can have at most ${MAX_OIDC_CONNECTORS_PER_TENANT} OIDC connectors`);
+    }
+
+    const connector: SaveTenantOidcConnector = {
+      name: dto.name.trim(),
+      issuer: dto.issuer.trim(),
+      clientId: dto.clientId.trim(),
+      clientSecret: dto.clientSecret,
+      scopes: withOpenIdScope(dto.scopes ?? DEFAULT_OIDC_SCOPES),
+      claimMapping: { ...DEFAULT_OIDC_CLAIM_MAPPING, ...dto.claimMapping },
+      enabled: dto.enabled ?? true,
+      jitProvisioning: dto.jitProvisioning ?? true,
+      defaultRoleId: dto.defaultRoleId ?? null,
+    };
+
+    await validateOidcConnector(
+      tenantId,
+      connector,
+      { issuerChanged: true, defaultRoleChanged: !!connector.defaultRoleId },
+      this.tenantOidcConnectorRepository,
+      this.roleRepository,
+      this.oidcProvider
+    );
+
+    const created = await this.tenantOidcConnectorRepository.create(tenantId, connector, requester.userId);
+
+    Logger.info('Tenant OIDC connector created', {
+      tenantId,
+      connectorId: created.id,
+      issuer: created.issuer,
+      updatedBy: requester.userId,
+    });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.OIDC_CONNECTOR_CREATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.OIDC_CONNECTOR,
+      targetId: created.id,
+      changes: AuditEventEntity.diff(null, oidcConnectorSnapshot(created)),
+    });
+
+    return toTenantOidcConnectorResponse(tenant, created, this.oidcSsoService);
+  }
+}
+
+/**
+ * Scopes are sent as given, with "openid" added since the login relies on the ID token
+ */
+export function withOpenIdScope(scopes: string[]): string[] {
+  return [...new Set(['openid', ...scopes.map((scope) => scope.trim()).filter(Boolean)])];
+}
+
+/**
+ * Connector settings as written to the audit log (the client secret is redacted there)
+ */
+export function oidcConnectorSnapshot(connector: SaveTenantOidcConnector): SaveTenantOidcConnector {
+  return {
+    name: connector.name,
+    issuer: connector.issuer,
+    clientId: connector.clientId,
+    clientSecret: connector.clientSecret,
+    scopes: connector.scopes,
+    claimMapping: connector.claimMapping,
+    enabled: connector.enabled,
+    jitProvisioning: connector.jitProvisioning,
+    defaultRoleId: connector.defaultRoleId,
+  };
+}
+
+/**
+ * Rules shared by creating and updating a connector
+ * @param connectorId - Connector being updated; its own name does not conflict
+ */
+export async function validateOidcConnector(
+  tenantId: string,
+  connector: SaveTenantOidcConnector,
+  changes: { issuerChanged: boolean; defaultRoleChanged: boolean; connectorId?: string },
+  tenantOidcConnectorRepository: ITenantOidcConnectorRepository,
+  roleRepository: IRoleRepository,
+  oidcProvider: IOidcProvider
+): Promise<void> {
+  const sameName = await tenantOidcConnectorRepository.findByName(tenantId, connector.name);
+  if (sameName && sameName.id !== changes.connectorId) {
+    throw new ConflictException('An OIDC connector with this name already exists');
+  }
+
+  if (connector.defaultRoleId && changes.defaultRoleChanged) {
+    const role = await roleRepository.findById(connector.defaultRoleId, tenantId);
+    if (!role) {
+      throw new NotFoundException('Role', connector.defaultRoleId);
+    }
+    if (role.name === ROLE_NAMES.ADMIN) {
+      throw new BusinessRuleException('The admin role cannot be assigned to users created by SSO');
+    }
+  }
+
+  if (changes.issuerChanged && !(await oidcProvider.validateIssuer(connector.issuer))) {
+    throw new ValidationException('Invalid OIDC connector', [
+      'issuer must publish an OpenID Connect discovery document supporting the authorization code flow',
+    ]);
+  }
+}
@@ -10,6 +10,7 @@ import { UserEntity } from '../../../domain/entities/user.entity';
 import { Email } from '../../../domain/value-objects/email';
 import { Password } from '../../../domain/value-objects/password';
 import { ConflictException } from '../../../domain/exceptions/domain-exceptions';
+import { PasswordPolicyService } from '../../services/password-policy.service';
 import { prisma } from '../../../infrastructure/config/database';
 import { eventBus } from '../../../infrastructure/events/event-bus';
 import { TenantCreatedEvent } from '../../../domain/events/tenant-created.event';
@@ -35,7 +36,8 @@ export class CreateTenantUseCase {
     private userRoleRepository: IUserRoleRepository,
     private permissionRepository: IPermissionRepository,
     private passwordDomainService: IPasswordDomainService,
-    private tenantSetupService: TenantSetupService
+    private tenantSetupService: TenantSetupService,
+    private passwordPolicyService: PasswordPolicyService
   ) { }
 
   async execute(dto: CreateTenantDto): Promise<TenantEntity> {
@@ -45,6 +47,9 @@ export class CreateTenantUseCase {
       throw new ConflictException('Tenant slug already exists');
     }
 
+    // New tenants start on the global password policy
+    await this.passwordPolicyService.createPassword(dto.adminPassword, null);
+
     // Hash password (outside transaction as it's not a DB operation)
     const hashedPassword = await this.passwordDomainService.hashPassword(dto.adminPassword);
 
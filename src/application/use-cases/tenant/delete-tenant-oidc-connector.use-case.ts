@@ -0,0 +1,64 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantOidcConnectorRepository } from '../../../domain/repositories/itenant-oidc-connector-repository';
+import { IUserIdentityRepository } from '../../../domain/repositories/iuser-identity-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { oidcConnectorSnapshot } from './create-tenant-oidc-connector.use-case';
+
+/**
+ * Use case for removing an OpenID Connect connector of a tenant
+ * Identities linked through the connector are unlinked; the users keep their accounts
+ */
+export class DeleteTenantOidcConnectorUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private tenantOidcConnectorRepository: ITenantOidcConnectorRepository,
+    private userIdentityRepository: IUserIdentityRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant the connector belongs to
+   * @param connectorId - Connector to remove
+   * @param requester - Requesting admin (tenantId is null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    connectorId: string,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<void> {
+    // Tenant admins can only change their own tenant
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const connector = await this.tenantOidcConnectorRepository.findById(connectorId, tenantId);
+    if (!connector) {
+      throw new NotFoundException('OIDC connector', connectorId);
+    }
+
+    await this.userIdentityRepository.deleteByConnectionId(connector.id);
+    await this.tenantOidcConnectorRepository.delete(connector.id);
+
+    Logger.info('Tenant OIDC connector removed', { tenantId, connectorId, updatedBy: requester.userId });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.OIDC_CONNECTOR_DELETED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.OIDC_CONNECTOR,
+      targetId: connector.id,
+      changes: AuditEventEntity.diff(oidcConnectorSnapshot(connector), null),
+    });
+  }
+}
@@ -0,0 +1,62 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantSamlConfigRepository } from '../../../domain/repositories/itenant-saml-config-repository';
+import { IUserIdentityRepository } from '../../../domain/repositories/iuser-identity-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { toTenantSamlSettings } from './get-tenant-saml-config.use-case';
+
+/**
+ * Use case for removing the SAML configuration of a tenant
+ * Identities linked through the IdP are unlinked; the users keep their accounts and password login is available again
+ */
+export class DeleteTenantSamlConfigUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private tenantSamlConfigRepository: ITenantSamlConfigRepository,
+    private userIdentityRepository: IUserIdentityRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant whose configuration is removed
+   * @param requester - Requesting admin (tenantId is null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<void> {
+    // Tenant admins can only change their own tenant
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const config = await this.tenantSamlConfigRepository.findByTenantId(tenantId);
+    if (!config) {
+      throw new NotFoundException('SAML configuration', tenantId);
+    }
+
+    await this.userIdentityRepository.deleteByConnectionId(config.id);
+    await this.tenantSamlConfigRepository.delete(tenantId);
+
+    Logger.info('Tenant SAML configuration removed', { tenantId, updatedBy: requester.userId });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.SAML_CONFIG_DELETED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.SAML_CONFIG,
+      targetId: config.id,
+      changes: AuditEventEntity.diff({ ...toTenantSamlSettings(config), updatedAt: undefined }, null),
+    });
+  }
+}
@@ -1,16 +1,32 @@
 import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
 import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
 
 export class DeleteTenantUseCase {
-  constructor(private tenantRepository: ITenantRepository) {}
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private auditLogService: AuditLogService
+  ) {}
 
-  async execute(tenantId: string): Promise<void> {
+  async execute(tenantId: string, actor?: AuditActor): Promise<void> {
     const tenant = await this.tenantRepository.findById(tenantId);
     if (!tenant) {
       throw new NotFoundException('Tenant', tenantId);
     }
 
     await this.tenantRepository.delete(tenantId);
+
+    // The events of the tenant stay queryable by super admins after it is gone
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.TENANT_DELETED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.TENANT,
+      targetId: tenantId,
+      changes: AuditEventEntity.diff({ name: tenant.name, slug: tenant.slug }, null),
+    });
   }
 }
 
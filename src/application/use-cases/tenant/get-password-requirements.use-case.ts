@@ -0,0 +1,45 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { PasswordPolicy, getPasswordRequirements } from '../../../config/password-policy.config';
+import { PasswordPolicyService } from '../../services/password-policy.service';
+import { PasswordRequirementsDto } from '../../dto/password-policy.dto';
+
+/**
+ * Use case for the public lookup of the password requirements of a tenant
+ * Without a tenant slug the global requirements are returned
+ */
+export class GetPasswordRequirementsUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private passwordPolicyService: PasswordPolicyService
+  ) {}
+
+  async execute(tenantSlug?: string): Promise<PasswordRequirementsDto> {
+    let tenantId: string | null = null;
+    if (tenantSlug) {
+      const tenant = await this.tenantRepository.findBySlug(tenantSlug);
+      if (!tenant) {
+        throw new NotFoundException('Tenant', tenantSlug);
+      }
+      tenantId = tenant.id;
+    }
+
+    const policy = await this.passwordPolicyService.getEffectivePolicy(tenantId);
+    return toPasswordRequirementsResponse(policy);
+  }
+}
+
+export function toPasswordRequirementsResponse(policy: PasswordPolicy): PasswordRequirementsDto {
+  return {
+    minLength: policy.minLength,
+    maxLength: policy.maxLength,
+    requireUppercase: policy.requireUppercase,
+    requireLowercase: policy.requireLowercase,
+    requireNumber: policy.requireNumber,
+    requireSpecialChar: policy.requireSpecialChar,
+    allowedSpecialChars: policy.allowedSpecialChars,
+    maxHistory: policy.maxHistory,
+    expiryDays: policy.expiryDays,
+    description: getPasswordRequirements(policy),
+  };
+}
@@ -0,0 +1,60 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantOidcConnectorRepository } from '../../../domain/repositories/itenant-oidc-connector-repository';
+import { TenantEntity } from '../../../domain/entities/tenant.entity';
+import { TenantOidcConnectorEntity } from '../../../domain/entities/tenant-oidc-connector.entity';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { OidcSsoService } from '../../services/oidc-sso.service';
+import { TenantOidcConnectorResponseDto } from '../../dto/sso.dto';
+
+export class GetTenantOidcConnectorsUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private tenantOidcConnectorRepository: ITenantOidcConnectorRepository,
+    private oidcSsoService: OidcSsoService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant whose connectors are requested
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   */
+  async execute(tenantId: string, requesterTenantId: string | null): Promise<TenantOidcConnectorResponseDto[]> {
+    // Tenant admins can only see their own tenant
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const connectors = await this.tenantOidcConnectorRepository.findByTenantId(tenantId);
+    return connectors.map((connector) => toTenantOidcConnectorResponse(tenant, connector, this.oidcSsoService));
+  }
+}
+
+/**
+ * The client secret is write-only and never part of a response
+ */
+export function toTenantOidcConnectorResponse(
+  tenant: TenantEntity,
+  connector: TenantOidcConnectorEntity,
+  oidcSsoService: OidcSsoService
+): TenantOidcConnectorResponseDto {
+  return {
+    id: connector.id,
+    tenantId: connector.tenantId,
+    name: connector.name,
+    issuer: connector.issuer,
+    clientId: connector.clientId,
+    scopes: connector.scopes,
+    claimMapping: connector.claimMapping,
+    enabled: connector.enabled,
+    jitProvisioning: connector.jitProvisioning,
+    defaultRoleId: connector.defaultRoleId,
+    redirectUri: oidcSsoService.getRedirectUri(),
+    loginUrl: oidcSsoService.getLoginUrl(tenant.slug, connector.id),
+    createdAt: connector.createdAt,
+    updatedAt: connector.updatedAt,
+  };
+}
@@ -0,0 +1,54 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantPasswordPolicyRepository } from '../../../domain/repositories/itenant-password-policy-repository';
+import { TenantPasswordPolicyEntity } from '../../../domain/entities/tenant-password-policy.entity';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { TenantPasswordPolicyResponseDto } from '../../dto/password-policy.dto';
+import { toPasswordRequirementsResponse } from './get-password-requirements.use-case';
+
+export class GetTenantPasswordPolicyUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private tenantPasswordPolicyRepository: ITenantPasswordPolicyRepository
+  ) {}
+
+  /**
+   * @param tenantId - Tenant whose policy is requested
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   */
+  async execute(tenantId: string, requesterTenantId: string | null): Promise<TenantPasswordPolicyResponseDto> {
+    // Tenant admins can only see their own tenant
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const policy =
+      (await this.tenantPasswordPolicyRepository.findByTenantId(tenantId)) ??
+      new TenantPasswordPolicyEntity(tenantId, {}, null);
+
+    return toTenantPasswordPolicyResponse(policy);
+  }
+}
+
+export function toTenantPasswordPolicyResponse(policy: TenantPasswordPolicyEntity): TenantPasswordPolicyResponseDto {
+  const { overrides } = policy;
+  return {
+    tenantId: policy.tenantId,
+    overrides: {
+      minLength: overrides.minLength ?? null,
+      requireUppercase: overrides.requireUppercase ?? null,
+      requireLowercase: overrides.requireLowercase ?? null,
+      requireNumber: overrides.requireNumber ?? null,
+      requireSpecialChar: overrides.requireSpecialChar ?? null,
+      maxHistory: overrides.maxHistory ?? null,
+      expiryDays: overrides.expiryDays ?? null,
+      bannedWords: overrides.bannedWords ?? [],
+    },
+    effective: toPasswordRequirementsResponse(policy.resolve()),
+    updatedAt: policy.updatedAt,
+  };
+}
@@ -0,0 +1,61 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantSamlConfigRepository } from '../../../domain/repositories/itenant-saml-config-repository';
+import { TenantEntity } from '../../../domain/entities/tenant.entity';
+import { TenantSamlConfigEntity } from '../../../domain/entities/tenant-saml-config.entity';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { SamlSsoService } from '../../services/saml-sso.service';
+import { TenantSamlConfigResponseDto, TenantSamlSettingsDto } from '../../dto/sso.dto';
+
+export class GetTenantSamlConfigUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private tenantSamlConfigRepository: ITenantSamlConfigRepository,
+    private samlSsoService: SamlSsoService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant whose configuration is requested
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   */
+  async execute(tenantId: string, requesterTenantId: string | null): Promise<TenantSamlConfigResponseDto> {
+    // Tenant admins can only see their own tenant
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const config = await this.tenantSamlConfigRepository.findByTenantId(tenantId);
+    return toTenantSamlConfigResponse(tenant, config, this.samlSsoService);
+  }
+}
+
+export function toTenantSamlConfigResponse(
+  tenant: TenantEntity,
+  config: TenantSamlConfigEntity | null,
+  samlSsoService: SamlSsoService
+): TenantSamlConfigResponseDto {
+  return {
+    tenantId: tenant.id,
+    serviceProvider: samlSsoService.getServiceProvider(tenant.id),
+    loginUrl: samlSsoService.getLoginUrl(tenant.slug),
+    settings: config ? toTenantSamlSettings(config) : null,
+  };
+}
+
+export function toTenantSamlSettings(config: TenantSamlConfigEntity): TenantSamlSettingsDto {
+  return {
+    enabled: config.enabled,
+    idpEntityId: config.idpEntityId,
+    idpSsoUrl: config.idpSsoUrl,
+    idpCertificates: config.idpCertificates,
+    attributeMapping: config.attributeMapping,
+    jitProvisioning: config.jitProvisioning,
+    defaultRoleId: config.defaultRoleId,
+    disablePasswordLogin: config.disablePasswordLogin,
+    updatedAt: config.updatedAt,
+  };
+}
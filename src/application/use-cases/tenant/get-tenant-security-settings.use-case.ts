@@ -0,0 +1,55 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantSecuritySettingsRepository } from '../../../domain/repositories/itenant-security-settings-repository';
+import { TenantSecuritySettingsEntity } from '../../../domain/entities/tenant-security-settings.entity';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+
+export interface TenantSecuritySettingsDto {
+  tenantId: string;
+  mfaPolicy: string;
+  requireEmailVerification: boolean;
+  lockoutThreshold: number;
+  lockoutDurationSeconds: number;
+  lockoutMaxDurationSeconds: number;
+  magicLinkEnabled: boolean;
+  updatedAt: Date | null;
+}
+
+export class GetTenantSecuritySettingsUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private tenantSecuritySettingsRepository: ITenantSecuritySettingsRepository
+  ) {}
+
+  /**
+   * @param tenantId - Tenant whose settings are requested
+   * @param requesterTenantId - Tenant of the requesting admin (null for super admin)
+   */
+  async execute(tenantId: string, requesterTenantId: string | null): Promise<TenantSecuritySettingsDto> {
+    // Tenant admins can only see their own tenant
+    if (requesterTenantId && requesterTenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const settings = await this.tenantSecuritySettingsRepository.findByTenantId(tenantId);
+
+    return toTenantSecuritySettingsResponse(settings);
+  }
+}
+
+export function toTenantSecuritySettingsResponse(settings: TenantSecuritySettingsEntity): TenantSecuritySettingsDto {
+  return {
+    tenantId: settings.tenantId,
+    mfaPolicy: settings.mfaPolicy,
+    requireEmailVerification: settings.requireEmailVerification,
+    lockoutThreshold: settings.lockoutPolicy.threshold,
+    lockoutDurationSeconds: settings.lockoutPolicy.durationSeconds,
+    lockoutMaxDurationSeconds: settings.lockoutPolicy.maxDurationSeconds,
+    magicLinkEnabled: settings.magicLinkEnabled,
+    updatedAt: settings.updatedAt,
+  };
+}
@@ -0,0 +1,59 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantPasswordPolicyRepository } from '../../../domain/repositories/itenant-password-policy-repository';
+import { TenantPasswordPolicyEntity } from '../../../domain/entities/tenant-password-policy.entity';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { TenantPasswordPolicyResponseDto } from '../../dto/password-policy.dto';
+import { toTenantPasswordPolicyResponse } from './get-tenant-password-policy.use-case';
+
+/**
+ * Use case for dropping all password policy overrides of a tenant
+ */
+export class ResetTenantPasswordPolicyUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private tenantPasswordPolicyRepository: ITenantPasswordPolicyRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant whose policy is reset
+   * @param requester - Requesting admin (tenantId is null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   * @returns The policy in effect afterwards (the global one)
+   */
+  async execute(
+    tenantId: string,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<TenantPasswordPolicyResponseDto> {
+    // Tenant admins can only change their own tenant
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const current = await this.tenantPasswordPolicyRepository.findByTenantId(tenantId);
+    await this.tenantPasswordPolicyRepository.delete(tenantId);
+
+    Logger.info('Tenant password policy reset to the global policy', { tenantId, updatedBy: requester.userId });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.PASSWORD_POLICY_RESET,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.TENANT,
+      targetId: tenantId,
+      changes: AuditEventEntity.diff(current?.overrides ?? {}, {}),
+    });
+
+    return toTenantPasswordPolicyResponse(new TenantPasswordPolicyEntity(tenantId, {}, null));
+  }
+}
@@ -0,0 +1,103 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantPasswordPolicyRepository } from '../../../domain/repositories/itenant-password-policy-repository';
+import { TenantPasswordPolicyEntity } from '../../../domain/entities/tenant-password-policy.entity';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { PasswordPolicyOverrides } from '../../../config/password-policy.config';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { TenantPasswordPolicyResponseDto, UpdateTenantPasswordPolicyDto } from '../../dto/password-policy.dto';
+import { toTenantPasswordPolicyResponse } from './get-tenant-password-policy.use-case';
+
+/**
+ * Apply one requested setting: null removes the override, undefined keeps it
+ */
+function applyOverride<K extends keyof PasswordPolicyOverrides>(
+  overrides: PasswordPolicyOverrides,
+  key: K,
+  value: PasswordPolicyOverrides[K] | null | undefined
+): void {
+  if (value === null) {
+    delete overrides[key];
+  } else if (value !== undefined) {
+    overrides[key] = value;
+  }
+}
+
+/**
+ * Use case for changing the password policy overrides of a tenant
+ * Omitted fields keep their value, null fields go back to the global policy.
+ * New rules apply to passwords set from now on; expiry applies at the next login.
+ */
+export class UpdateTenantPasswordPolicyUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private tenantPasswordPolicyRepository: ITenantPasswordPolicyRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant whose policy is changed
+   * @param dto - Changed settings
+   * @param requester - Requesting admin (tenantId is null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    dto: UpdateTenantPasswordPolicyDto,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<TenantPasswordPolicyResponseDto> {
+    // Tenant admins can only change their own tenant
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const current = await this.tenantPasswordPolicyRepository.findByTenantId(tenantId);
+    const overrides: PasswordPolicyOverrides = { ...current?.overrides };
+
+    for (const key of [
+      'minLength',
+      'requireUppercase',
+      'requireLowercase',
+      'requireNumber',
+      'requireSpecialChar',
+      'maxHistory',
+      'expiryDays',
+    ] as const) {
+      applyOverride(overrides, key, dto[key]);
+    }
+
+    if (dto.bannedWords !== undefined) {
+      overrides.bannedWords = [...new Set((dto.bannedWords ?? []).map((word) => word.trim().toLowerCase()))];
+    }
+
+    const saved = await this.tenantPasswordPolicyRepository.save(
+      new TenantPasswordPolicyEntity(tenantId, overrides, new Date()),
+      requester.userId
+    );
+
+    Logger.info('Tenant password policy updated', {
+      tenantId,
+      overrides: { ...saved.overrides, bannedWords: saved.overrides.bannedWords?.length ?? 0 },
+      updatedBy: requester.userId,
+    });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.PASSWORD_POLICY_UPDATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.TENANT,
+      targetId: tenantId,
+      changes: AuditEventEntity.diff(current?.overrides ?? {}, saved.overrides),
+    });
+
+    return toTenantPasswordPolicyResponse(saved);
+  }
+}
@@ -0,0 +1,142 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { IRoleRepository } from '../../../domain/repositories/irole-repository';
+import {
+  ITenantSamlConfigRepository,
+  SaveTenantSamlConfig,
+} from '../../../domain/repositories/itenant-saml-config-repository';
+import { ISamlProvider } from '../../../domain/services/isaml-provider';
+import { DEFAULT_SAML_ATTRIBUTE_MAPPING } from '../../../domain/constants/sso';
+import { ROLE_NAMES } from '../../../domain/constants/role-names';
+import {
+  NotFoundException,
+  ValidationException,
+  BusinessRuleException,
+} from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { SamlSsoService } from '../../services/saml-sso.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { TenantSamlConfigResponseDto, UpdateTenantSamlConfigDto } from '../../dto/sso.dto';
+import { toTenantSamlConfigResponse, toTenantSamlSettings } from './get-tenant-saml-config.use-case';
+
+/**
+ * Use case for configuring the SAML identity provider of a tenant
+ *
+ * Business Rules:
+ * - Uploaded IdP metadata replaces the entity ID, SSO URL and certificates given field by field
+ * - SSO can only be enabled once the IdP entity ID, SSO URL and a signing certificate are known
+ * - Users created on first login can get a default role, but never the admin role
+ * - Password login can be turned off; it stays available while SSO itself is disabled
+ */
+export class UpdateTenantSamlConfigUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private roleRepository: IRoleRepository,
+    private tenantSamlConfigRepository: ITenantSamlConfigRepository,
+    private samlProvider: ISamlProvider,
+    private samlSsoService: SamlSsoService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant whose configuration is changed
+   * @param dto - Changed settings
+   * @param requester - Requesting admin (tenantId is null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    dto: UpdateTenantSamlConfigDto,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<TenantSamlConfigResponseDto> {
+    // Tenant admins can only change their own tenant
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const current = await this.tenantSamlConfigRepository.findByTenantId(tenantId);
+    const config: SaveTenantSamlConfig = {
+      enabled: dto.enabled ?? current?.enabled ?? false,
+      idpEntityId: dto.idpEntityId?.trim() ?? current?.idpEntityId ?? '',
+      idpSsoUrl: dto.idpSsoUrl?.trim() ?? current?.idpSsoUrl ?? '',
+      idpCertificates: current?.idpCertificates ?? [],
+      idpMetadataXml: current?.idpMetadataXml ?? null,
+      attributeMapping: {
+        ...(current?.attributeMapping ?? DEFAULT_SAML_ATTRIBUTE_MAPPING),
+        ...dto.attributeMapping,
+      },
+      jitProvisioning: dto.jitProvisioning ?? current?.jitProvisioning ?? true,
+      defaultRoleId: dto.defaultRoleId !== undefined ? dto.defaultRoleId : current?.defaultRoleId ?? null,
+      disablePasswordLogin: dto.disablePasswordLogin ?? current?.disablePasswordLogin ?? false,
+    };
+
+    if (dto.idpCertificates !== undefined) {
+      config.idpCertificates = dto.idpCertificates.map((certificate) => {
+        const pem = this.samlProvider.normalizeCertificate(certificate);
+        if (!pem) {
+          throw new ValidationException('Invalid SAML configuration', ['idpCertificates must be X.509 certificates']);
+        }
+        return pem;
+      });
+    }
+
+    if (dto.idpMetadataXml !== undefined) {
+      const metadata = this.samlProvider.parseIdpMetadata(dto.idpMetadataXml);
+      if (!metadata) {
+        throw new ValidationException('Invalid SAML configuration', [
+          'idpMetadataXml must be IdP metadata with an entity ID, an HTTP-Redirect SSO service and a signing certificate',
+        ]);
+      }
+      config.idpEntityId = metadata.entityId;
+      config.idpSsoUrl = metadata.ssoUrl;
+      config.idpCertificates = metadata.certificates;
+      config.idpMetadataXml = dto.idpMetadataXml;
+    }
+
+    if (config.enabled && (!config.idpEntityId || !config.idpSsoUrl || config.idpCertificates.length === 0)) {
+      throw new BusinessRuleException('SSO cannot be enabled before the IdP entity ID, SSO URL and certificate are set');
+    }
+
+    if (config.defaultRoleId && dto.defaultRoleId !== undefined) {
+      const role = await this.roleRepository.findById(config.defaultRoleId, tenantId);
+      if (!role) {
+        throw new NotFoundException('Role', config.defaultRoleId);
+      }
+      if (role.name === ROLE_NAMES.ADMIN) {
+        throw new BusinessRuleException('The admin role cannot be assigned to users created by SSO');
+      }
+    }
+
+    const saved = await this.tenantSamlConfigRepository.save(tenantId, config, requester.userId);
+
+    Logger.info('Tenant SAML configuration updated', {
+      tenantId,
+      enabled: saved.enabled,
+      idpEntityId: saved.idpEntityId,
+      jitProvisioning: saved.jitProvisioning,
+      disablePasswordLogin: saved.disablePasswordLogin,
+      updatedBy: requester.userId,
+    });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.SAML_CONFIG_UPDATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.SAML_CONFIG,
+      targetId: saved.id,
+      changes: AuditEventEntity.diff(
+        current && { ...toTenantSamlSettings(current), updatedAt: undefined },
+        { ...toTenantSamlSettings(saved), updatedAt: undefined }
+      ),
+    });
+
+    return toTenantSamlConfigResponse(tenant, saved, this.samlSsoService);
+  }
+}
@@ -0,0 +1,101 @@
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { ITenantSecuritySettingsRepository } from '../../../domain/repositories/itenant-security-settings-repository';
+import { TenantSecuritySettingsEntity } from '../../../domain/entities/tenant-security-settings.entity';
+import { MfaPolicy } from '../../../domain/constants/mfa-policies';
+import { NotFoundException, ValidationException } from '../../../domain/exceptions/domain-exceptions';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+import { TenantSecuritySettingsDto, toTenantSecuritySettingsResponse } from './get-tenant-security-settings.use-case';
+
+export interface UpdateTenantSecuritySettingsDto {
+  mfaPolicy?: MfaPolicy;
+  requireEmailVerification?: boolean;
+  lockoutThreshold?: number;
+  lockoutDurationSeconds?: number;
+  lockoutMaxDurationSeconds?: number;
+  magicLinkEnabled?: boolean;
+}
+
+/**
+ * Use case for changing the security policies of a tenant
+ * Policy changes apply at the next login or token refresh of each user
+ */
+export class UpdateTenantSecuritySettingsUseCase {
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private tenantSecuritySettingsRepository: ITenantSecuritySettingsRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param tenantId - Tenant whose settings are changed
+   * @param dto - New settings
+   * @param requester - Requesting admin (tenantId is null for super admin)
+   * @param actor - Requesting admin and client, for the audit log
+   */
+  async execute(
+    tenantId: string,
+    dto: UpdateTenantSecuritySettingsDto,
+    requester: { userId: string; tenantId: string | null },
+    actor?: AuditActor
+  ): Promise<TenantSecuritySettingsDto> {
+    // Tenant admins can only change their own tenant
+    if (requester.tenantId && requester.tenantId !== tenantId) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const tenant = await this.tenantRepository.findById(tenantId);
+    if (!tenant) {
+      throw new NotFoundException('Tenant', tenantId);
+    }
+
+    const current = await this.tenantSecuritySettingsRepository.findByTenantId(tenantId);
+    const lockoutPolicy = {
+      threshold: dto.lockoutThreshold ?? current.lockoutPolicy.threshold,
+      durationSeconds: dto.lockoutDurationSeconds ?? current.lockoutPolicy.durationSeconds,
+      maxDurationSeconds: dto.lockoutMaxDurationSeconds ?? current.lockoutPolicy.maxDurationSeconds,
+    };
+
+    if (lockoutPolicy.maxDurationSeconds < lockoutPolicy.durationSeconds) {
+      throw new ValidationException('Invalid lockout settings', [
+        'lockoutMaxDurationSeconds must be greater than or equal to lockoutDurationSeconds',
+      ]);
+    }
+
+    const updated = new TenantSecuritySettingsEntity(
+      tenantId,
+      dto.mfaPolicy ?? current.mfaPolicy,
+      dto.requireEmailVerification ?? current.requireEmailVerification,
+      lockoutPolicy,
+      dto.magicLinkEnabled ?? current.magicLinkEnabled,
+      new Date()
+    );
+
+    const saved = await this.tenantSecuritySettingsRepository.save(updated, requester.userId);
+
+    Logger.info('Tenant security settings updated', {
+      tenantId,
+      mfaPolicy: saved.mfaPolicy,
+      requireEmailVerification: saved.requireEmailVerification,
+      lockoutPolicy: saved.lockoutPolicy,
+      magicLinkEnabled: saved.magicLinkEnabled,
+      updatedBy: requester.userId,
+    });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.SECURITY_SETTINGS_UPDATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.TENANT,
+      targetId: tenantId,
+      changes: AuditEventEntity.diff(
+        { ...toTenantSecuritySettingsResponse(current), updatedAt: undefined },
+        { ...toTenantSecuritySettingsResponse(saved), updatedAt: undefined }
+      ),
+    });
+
+    return toTenantSecuritySettingsResponse(saved);
+  }
+}
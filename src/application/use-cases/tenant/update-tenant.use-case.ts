@@ -1,6 +1,10 @@
 import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
 import { TenantEntity } from '../../../domain/entities/tenant.entity';
 import { NotFoundException, ConflictException } from '../../../domain/exceptions/domain-exceptions';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
 
 export interface UpdateTenantDto {
   name: string;
@@ -8,9 +12,12 @@ export interface UpdateTenantDto {
 }
 
 export class UpdateTenantUseCase {
-  constructor(private tenantRepository: ITenantRepository) {}
+  constructor(
+    private tenantRepository: ITenantRepository,
+    private auditLogService: AuditLogService
+  ) {}
 
-  async execute(tenantId: string, dto: UpdateTenantDto): Promise<TenantEntity> {
+  async execute(tenantId: string, dto: UpdateTenantDto, actor?: AuditActor): Promise<TenantEntity> {
     const tenant = await this.tenantRepository.findById(tenantId);
     if (!tenant) {
       throw new NotFoundException('Tenant', tenantId);
@@ -33,7 +40,17 @@ export class UpdateTenantUseCase {
       new Date()
     );
 
-    return await this.tenantRepository.update(updatedTenant);
+    const saved = await this.tenantRepository.update(updatedTenant);
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.TENANT_UPDATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.TENANT,
+      targetId: tenantId,
+      changes: AuditEventEntity.diff({ name: tenant.name, slug: tenant.slug }, { name: saved.name, slug: saved.slug }),
+    });
+
+    return saved;
   }
 }
 
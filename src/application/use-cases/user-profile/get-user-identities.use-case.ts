@@ -0,0 +1,48 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IUserIdentityRepository } from '../../../domain/repositories/iuser-identity-repository';
+import { ITenantSamlConfigRepository } from '../../../domain/repositories/itenant-saml-config-repository';
+import { ITenantOidcConnectorRepository } from '../../../domain/repositories/itenant-oidc-connector-repository';
+import { SSO_PROTOCOLS } from '../../../domain/constants/sso';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { UserIdentityDto } from '../../dto/sso.dto';
+
+/**
+ * Use case for listing the external identities (SAML / OIDC) linked to a user
+ */
+export class GetUserIdentitiesUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private userIdentityRepository: IUserIdentityRepository,
+    private tenantSamlConfigRepository: ITenantSamlConfigRepository,
+    private tenantOidcConnectorRepository: ITenantOidcConnectorRepository
+  ) {}
+
+  async execute(userId: string, tenantId: string): Promise<UserIdentityDto[]> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    const identities = await this.userIdentityRepository.findByUserId(user.id);
+    if (identities.length === 0 || !user.tenantId) {
+      return [];
+    }
+
+    const samlConfig = await this.tenantSamlConfigRepository.findByTenantId(user.tenantId);
+    const connectors = await this.tenantOidcConnectorRepository.findByTenantId(user.tenantId);
+    const connectorNames = new Map(connectors.map((connector) => [connector.id, connector.name]));
+
+    return identities.map((identity) => ({
+      id: identity.id,
+      protocol: identity.protocol,
+      connectionId: identity.connectionId,
+      connectionName:
+        identity.protocol === SSO_PROTOCOLS.SAML && identity.connectionId === samlConfig?.id
+          ? 'SAML'
+          : connectorNames.get(identity.connectionId) ?? identity.protocol.toUpperCase(),
+      email: identity.email,
+      createdAt: identity.createdAt,
+      lastLoginAt: identity.lastLoginAt,
+    }));
+  }
+}
@@ -0,0 +1,132 @@
+import { UpdateUserUseCase } from '../update-user.use-case';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { IRoleRepository } from '../../../../domain/repositories/irole-repository';
+import { IUserRoleRepository } from '../../../../domain/repositories/iuser-role-repository';
+import { ITokenVersionRepository } from '../../../../domain/repositories/itoken-version-repository';
+import { AdminLimitService } from '../../../../domain/services/admin-limit.service';
+import { IPasswordDomainService } from '../../../../domain/services/ipassword-domain.service';
+import { UserEntity } from '../../../../domain/entities/user.entity';
+import { Email } from '../../../../domain/value-objects/email';
+import { Password } from '../../../../domain/value-objects/password';
+import { EMAIL_TEMPLATE_TYPES } from '../../../../domain/constants/email-templates';
+import { EmailService } from '../../../services/email.service';
+import { EmailVerificationService } from '../../../services/email-verification.service';
+import { PasswordHistoryService } from '../../../services/password-history.service';
+import { PasswordPolicyService } from '../../../services/password-policy.service';
+import { AuditLogService } from '../../../services/audit-log.service';
+
+const tx = { user: { update: jest.fn() }, userRole: { deleteMany: jest.fn(), createMany: jest.fn() } };
+
+jest.mock('../../../../infrastructure/config/database', () => ({
+  prisma: { $transaction: jest.fn((callback: (client: unknown) => Promise<unknown>) => callback(tx)) },
+}));
+
+/**
+ * Serves users from a cache until it is invalidated, like the Redis-backed repository
+ */
+class CachingUserRepository {
+  stored: UserEntity;
+  private cached: UserEntity | null;
+
+  constructor(user: UserEntity) {
+    this.stored = user;
+    this.cached = user;
+  }
+
+  async findById(): Promise<UserEntity | null> {
+    return this.cached ?? this.stored;
+  }
+
+  async findByEmail(): Promise<UserEntity | null> {
+    return null;
+  }
+
+  async invalidateCache(): Promise<void> {
+    this.cached = null;
+  }
+}
+
+describe('UpdateUserUseCase', () => {
+  const buildUser = (email: string, emailVerifiedAt: Date | null) =>
+    new UserEntity(
+      'user-1',
+      new Email(email),
+      new Password('hashedPassword', true),
+      'John',
+      'Doe',
+      'tenant-1',
+      false,
+      new Date(),
+      new Date(),
+      emailVerifiedAt
+    );
+
+  let userRepository: CachingUserRepository;
+  let emailService: { send: jest.Mock };
+  let emailVerificationService: { sendVerification: jest.Mock };
+  let useCase: UpdateUserUseCase;
+
+  beforeEach(() => {
+    userRepository = new CachingUserRepository(buildUser('old@example.com', new Date()));
+    // The transaction writes the new address, verification reset
+    tx.user.update.mockImplementation(async ({ data }) => {
+      if (data.email) userRepository.stored = buildUser(data.email, data.emailVerifiedAt);
+    });
+    emailService = { send: jest.fn().mockResolvedValue(undefined) };
+    emailVerificationService = { sendVerification: jest.fn().mockResolvedValue(true) };
+
+    const userRoleRepository = {
+      getUserWithRoles: jest.fn(async () => ({
+        id: 'user-1',
+        email: userRepository.stored.email.getValue(),
+        firstName: 'John',
+        lastName: 'Doe',
+        tenantId: 'tenant-1',
+        isSuperAdmin: false,
+        roles: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })),
+    };
+
+    useCase = new UpdateUserUseCase(
+      userRepository as unknown as IUserRepository,
+      {} as IRoleRepository,
+      userRoleRepository as unknown as IUserRoleRepository,
+      {} as AdminLimitService,
+      {} as IPasswordDomainService,
+      { increment: jest.fn() } as unknown as ITokenVersionRepository,
+      emailService as unknown as EmailService,
+      emailVerificationService as unknown as EmailVerificationService,
+      {} as PasswordHistoryService,
+      {} as PasswordPolicyService,
+      { record: jest.fn() } as unknown as AuditLogService
+    );
+  });
+
+  describe('email change', () => {
+    it('should send the verification mail to the new address', async () => {
+      await useCase.execute('user-1', { email: 'new@example.com' }, 'tenant-1');
+
+      const [verified] = emailVerificationService.sendVerification.mock.calls[0] as [UserEntity];
+      expect(verified.email.getValue()).toBe('new@example.com');
+      // A stale cached copy would still count as verified
+      expect(verified.emailVerifiedAt).toBeNull();
+    });
+
+    it('should tell the old address about the change', async () => {
+      await useCase.execute('user-1', { email: 'new@example.com' }, 'tenant-1');
+
+      expect(emailService.send).toHaveBeenCalledWith(
+        EMAIL_TEMPLATE_TYPES.EMAIL_CHANGE,
+        expect.objectContaining({ to: 'old@example.com', variables: expect.objectContaining({ newEmail: 'new@example.com' }) })
+      );
+    });
+
+    it('should not send a verification mail when the address is unchanged', async () => {
+      await useCase.execute('user-1', { email: 'old@example.com', firstName: 'Johnny' }, 'tenant-1');
+
+      expect(emailVerificationService.sendVerification).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -8,10 +8,15 @@ import { Email } from '../../../domain/value-objects/email';
 import { Password } from '../../../domain/value-objects/password';
 import { ConflictException, NotFoundException, BadRequestException, BusinessRuleException } from '../../../domain/exceptions/domain-exceptions';
 import { CreateUserDto, UserResponseDto } from '../../dto/user.dto';
+import { PasswordPolicyService } from '../../services/password-policy.service';
 import { prisma } from '../../../infrastructure/config/database';
 import { eventBus } from '../../../infrastructure/events/event-bus';
 import { UserCreatedEvent } from '../../../domain/events/user-created.event';
 import { ROLE_NAMES } from '../../../domain/constants/role-names';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -35,10 +40,12 @@ export class CreateUserUseCase {
     private roleRepository: IRoleRepository,
     private userRoleRepository: IUserRoleRepository,
     private adminLimitService: AdminLimitService,
-    private passwordDomainService: IPasswordDomainService
+    private passwordDomainService: IPasswordDomainService,
+    private passwordPolicyService: PasswordPolicyService,
+    private auditLogService: AuditLogService
   ) {}
 
-  async execute(dto: CreateUserDto, tenantId: string | undefined): Promise<UserResponseDto> {
+  async execute(dto: CreateUserDto, tenantId: string | undefined, actor?: AuditActor): Promise<UserResponseDto> {
     if (!tenantId) {
       throw new BadRequestException('Tenant ID is required for creating users');
     }
@@ -54,6 +61,8 @@ export class CreateUserUseCase {
       throw new ConflictException('User with this email already exists');
     }
 
+    await this.passwordPolicyService.createPassword(dto.password, tenantId);
+
     // Hash password (outside transaction as it's not a DB operation)
     const hashedPassword = await this.passwordDomainService.hashPassword(dto.password);
 
@@ -115,6 +124,19 @@ export class CreateUserUseCase {
     // Emit domain event (outside transaction)
     await eventBus.publish(new UserCreatedEvent(userId!, dto.email, tenantId, false));
 
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.USER_CREATED,
+      tenantId,
+      targetType: AUDIT_TARGET_TYPES.USER,
+      targetId: userId!,
+      changes: AuditEventEntity.diff(null, {
+        email: dto.email,
+        firstName: dto.firstName,
+        lastName: dto.lastName,
+        roleIds: dto.roleIds,
+      }),
+    });
+
     // Return user with roles (read operation, outside transaction)
     const userWithRoles = await this.userRoleRepository.getUserWithRoles(userId!);
 
@@ -1,17 +1,24 @@
 import { IUserRepository } from '../../../domain/repositories/iuser-repository';
 import { IUserRoleRepository } from '../../../domain/repositories/iuser-role-repository';
+import { ITokenVersionRepository } from '../../../domain/repositories/itoken-version-repository';
 import { AdminLimitService } from '../../../domain/services/admin-limit.service';
 import { NotFoundException, ForbiddenException } from '../../../domain/exceptions/domain-exceptions';
 import { ROLE_NAMES } from '../../../domain/constants/role-names';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
 
 export class DeleteUserUseCase {
   constructor(
     private userRepository: IUserRepository,
     private userRoleRepository: IUserRoleRepository,
-    private adminLimitService: AdminLimitService
+    private adminLimitService: AdminLimitService,
+    private tokenVersionRepository: ITokenVersionRepository,
+    private auditLogService: AuditLogService
   ) {}
 
-  async execute(userId: string, tenantId?: string | null): Promise<void> {
+  async execute(userId: string, tenantId?: string | null, actor?: AuditActor): Promise<void> {
     const user = await this.userRepository.findById(userId, tenantId);
     if (!user) {
       throw new NotFoundException('User', userId);
@@ -43,7 +50,20 @@ export class DeleteUserUseCase {
       }
     }
 
+    // Revoke access tokens first; the cached version outlives the row and keeps rejecting them
+    await this.tokenVersionRepository.increment(userId);
     await this.userRepository.delete(userId, effectiveTenantId!);
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.USER_DELETED,
+      tenantId: effectiveTenantId,
+      targetType: AUDIT_TARGET_TYPES.USER,
+      targetId: userId,
+      changes: AuditEventEntity.diff(
+        { email: user.email.getValue(), firstName: user.firstName, lastName: user.lastName },
+        null
+      ),
+    });
   }
 }
 
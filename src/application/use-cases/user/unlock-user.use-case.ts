@@ -0,0 +1,65 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IUserLockoutRepository } from '../../../domain/repositories/iuser-lockout-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { AccountUnlockedEvent } from '../../../domain/events/account-unlocked.event';
+import { eventBus } from '../../../infrastructure/events/event-bus';
+import { Logger } from '../../../infrastructure/logging/logger';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
+
+/**
+ * Use case for lifting the lockout of an account before it expires
+ * Also clears the failed attempts and the backoff, so the next lock starts at the base duration
+ */
+export class UnlockUserUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private userLockoutRepository: IUserLockoutRepository,
+    private auditLogService: AuditLogService
+  ) {}
+
+  /**
+   * @param userId - User to unlock
+   * @param tenantId - Tenant the user must belong to (undefined for super admin)
+   * @param unlockedBy - Requesting admin
+   * @param actor - Requesting admin and client, for the audit log
+   * @returns true if the account was locked
+   */
+  async execute(
+    userId: string,
+    tenantId: string | null | undefined,
+    unlockedBy: string,
+    actor?: AuditActor
+  ): Promise<boolean> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    const lockout = await this.userLockoutRepository.findByUserId(user.id);
+    if (!lockout) {
+      return false;
+    }
+
+    await this.userLockoutRepository.reset(user.id);
+
+    const wasLocked = lockout.isLocked();
+    if (wasLocked) {
+      await eventBus.publish(new AccountUnlockedEvent(user.id, user.tenantId, unlockedBy));
+    }
+
+    Logger.info('Account lockout cleared', { userId: user.id, wasLocked, unlockedBy });
+
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.USER_UNLOCKED,
+      tenantId: user.tenantId,
+      targetType: AUDIT_TARGET_TYPES.USER,
+      targetId: user.id,
+      changes: AuditEventEntity.diff({ locked: wasLocked }, { locked: false }),
+    });
+
+    return wasLocked;
+  }
+}
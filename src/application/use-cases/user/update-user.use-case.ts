@@ -1,6 +1,7 @@
 import { IUserRepository } from '../../../domain/repositories/iuser-repository';
 import { IRoleRepository } from '../../../domain/repositories/irole-repository';
 import { IUserRoleRepository } from '../../../domain/repositories/iuser-role-repository';
+import { ITokenVersionRepository } from '../../../domain/repositories/itoken-version-repository';
 import { AdminLimitService } from '../../../domain/services/admin-limit.service';
 import { IPasswordDomainService } from '../../../domain/services/ipassword-domain.service';
 import { UserEntity } from '../../../domain/entities/user.entity';
@@ -10,6 +11,15 @@ import { NotFoundException, ConflictException, BusinessRuleException } from '../
 import { UpdateUserDto, UserResponseDto } from '../../dto/user.dto';
 import { prisma } from '../../../infrastructure/config/database';
 import { ROLE_NAMES } from '../../../domain/constants/role-names';
+import { EMAIL_TEMPLATE_TYPES } from '../../../domain/constants/email-templates';
+import { EmailService } from '../../services/email.service';
+import { EmailVerificationService } from '../../services/email-verification.service';
+import { PasswordHistoryService } from '../../services/password-history.service';
+import { PasswordPolicyService } from '../../services/password-policy.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+import { AuditActor } from '../../../shared/types';
 
 export class UpdateUserUseCase {
   constructor(
@@ -17,10 +27,21 @@ export class UpdateUserUseCase {
     private roleRepository: IRoleRepository,
     private userRoleRepository: IUserRoleRepository,
     private adminLimitService: AdminLimitService,
-    private passwordDomainService: IPasswordDomainService
+    private passwordDomainService: IPasswordDomainService,
+    private tokenVersionRepository: ITokenVersionRepository,
+    private emailService: EmailService,
+    private emailVerificationService: EmailVerificationService,
+    private passwordHistoryService: PasswordHistoryService,
+    private passwordPolicyService: PasswordPolicyService,
+    private auditLogService: AuditLogService
   ) {}
 
-  async execute(userId: string, dto: UpdateUserDto, tenantId?: string | null): Promise<UserResponseDto> {
+  async execute(
+    userId: string,
+    dto: UpdateUserDto,
+    tenantId?: string | null,
+    actor?: AuditActor
+  ): Promise<UserResponseDto> {
     const user = await this.userRepository.findById(userId, tenantId);
     if (!user) {
       throw new NotFoundException('User', userId);
@@ -37,8 +58,12 @@ export class UpdateUserUseCase {
       throw new NotFoundException('User', userId);
     }
 
+    const previousEmail = user.email.getValue();
+    const previousRoleIds = (await this.userRoleRepository.getUserWithRoles(userId))?.roles.map((r) => r.id) ?? [];
+    const emailChanged = !!dto.email && dto.email !== previousEmail;
+
     // Check email uniqueness if updating email
-    if (dto.email && dto.email !== user.email.getValue()) {
+    if (dto.email && emailChanged) {
       const existingUser = await this.userRepository.findByEmail(dto.email, effectiveTenantId);
       if (existingUser && existingUser.id !== userId) {
         throw new ConflictException('User with this email already exists');
@@ -65,6 +90,11 @@ export class UpdateUserUseCase {
       }
     }
 
+    if (dto.password) {
+      await this.passwordPolicyService.createPassword(dto.password, user.tenantId);
+      await this.passwordHistoryService.assertNotReused(user, dto.password);
+    }
+
     // Hash password if provided (outside transaction as it's not a DB operation)
     const hashedPassword = dto.password
       ? await this.passwordDomainService.hashPassword(dto.password)
@@ -76,8 +106,9 @@ export class UpdateUserUseCase {
       await tx.user.update({
         where: { id: userId },
         data: {
-          ...(dto.email && { email: dto.email }),
-          ...(hashedPassword && { password: hashedPassword }),
+          // A new address has to be verified again
+          ...(dto.email && emailChanged && { email: dto.email, emailVerifiedAt: null }),
+          ...(hashedPassword && { password: hashedPassword, passwordChangedAt: new Date() }),
           ...(dto.firstName !== undefined && { firstName: dto.firstName }),
           ...(dto.lastName !== undefined && { lastName: dto.lastName }),
         },
@@ -103,6 +134,40 @@ export class UpdateUserUseCase {
       }
     });
 
+    // The transaction bypasses the repository, so its cached copies (by ID and by both addresses) are stale
+    await this.userRepository.invalidateCache(
+      userId,
+      user.tenantId,
+      emailChanged ? [previousEmail, dto.email!] : [previousEmail]
+    );
+
+    if (hashedPassword) {
+      await this.passwordHistoryService.recordChange(user, user.getPassword().getValue());
+    }
+
+    // Access tokens carry roles and permissions, so they must be reissued after a role or password change
+    if (dto.roleIds || hashedPassword) {
+      await this.tokenVersionRepository.increment(userId);
+    }
+
+    // Tell the old address, so an unexpected change can be reported
+    if (emailChanged) {
+      await this.emailService.send(EMAIL_TEMPLATE_TYPES.EMAIL_CHANGE, {
+        to: previousEmail,
+        tenantId: user.tenantId,
+        variables: {
+          firstName: dto.firstName ?? user.firstName,
+          email: previousEmail,
+          newEmail: dto.email,
+        },
+      });
+
+      const updatedUser = await this.userRepository.findById(userId);
+      if (updatedUser) {
+        await this.emailVerificationService.sendVerification(updatedUser);
+      }
+    }
+
     // Return updated user (read operation, outside transaction)
     const userWithRoles = await this.userRoleRepository.getUserWithRoles(userId);
 
@@ -110,6 +175,24 @@ export class UpdateUserUseCase {
       throw new NotFoundException('User', user.id);
     }
 
+    // A new password shows up as a redacted field that only exists after the change
+    await this.auditLogService.record(actor, {
+      action: AUDIT_ACTIONS.USER_UPDATED,
+      tenantId: user.tenantId,
+      targetType: AUDIT_TARGET_TYPES.USER,
+      targetId: userId,
+      changes: AuditEventEntity.diff(
+        { email: previousEmail, firstName: user.firstName, lastName: user.lastName, roleIds: [...previousRoleIds].sort() },
+        {
+          email: userWithRoles.email,
+          firstName: userWithRoles.firstName,
+          lastName: userWithRoles.lastName,
+          roleIds: userWithRoles.roles.map((r) => r.id).sort(),
+          ...(hashedPassword && { password: hashedPassword }),
+        }
+      ),
+    });
+
     return {
       id: userWithRoles.id,
       email: userWithRoles.email,
@@ -0,0 +1,102 @@
+import { FinishWebAuthnLoginUseCase } from '../finish-webauthn-login.use-case';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { ITenantSecuritySettingsRepository } from '../../../../domain/repositories/itenant-security-settings-repository';
+import { UserEntity } from '../../../../domain/entities/user.entity';
+import { WebAuthnCredentialEntity } from '../../../../domain/entities/webauthn-credential.entity';
+import { TenantSecuritySettingsEntity } from '../../../../domain/entities/tenant-security-settings.entity';
+import { Email } from '../../../../domain/value-objects/email';
+import { Password } from '../../../../domain/value-objects/password';
+import {
+  AccountLockedException,
+  PasskeyRejectedException,
+  UnauthorizedException,
+} from '../../../../domain/exceptions/domain-exceptions';
+import { WebAuthnCeremonyService } from '../../../services/webauthn-ceremony.service';
+import { AccountLockoutService } from '../../../services/account-lockout.service';
+import { AuthTokenService } from '../../../services/auth-token.service';
+import { AuditLogService } from '../../../services/audit-log.service';
+
+describe('FinishWebAuthnLoginUseCase', () => {
+  const user = new UserEntity(
+    'user-1',
+    new Email('john@example.com'),
+    new Password('hashedPassword', true),
+    'John',
+    'Doe',
+    'tenant-1',
+    false,
+    new Date(),
+    new Date()
+  );
+  const credential = new WebAuthnCredentialEntity(
+    'cred-1',
+    user.id,
+    'credential-id',
+    new Uint8Array(),
+    1,
+    [],
+    'multiDevice',
+    true,
+    null,
+    'Laptop',
+    null,
+    new Date()
+  );
+  const tokens = { accessToken: 'access', refreshToken: 'refresh' };
+  const context = { userAgent: 'Firefox', ipAddress: '10.0.0.1' };
+
+  let ceremonyService: { finishAuthentication: jest.Mock };
+  let accountLockoutService: { assertNotLocked: jest.Mock };
+  let authTokenService: { issueTokens: jest.Mock };
+  let auditLogService: { recordLogin: jest.Mock };
+  let useCase: FinishWebAuthnLoginUseCase;
+
+  beforeEach(() => {
+    ceremonyService = { finishAuthentication: jest.fn().mockResolvedValue(credential) };
+    accountLockoutService = { assertNotLocked: jest.fn().mockResolvedValue(null) };
+    authTokenService = { issueTokens: jest.fn().mockResolvedValue(tokens) };
+    auditLogService = { recordLogin: jest.fn().mockResolvedValue(undefined) };
+
+    useCase = new FinishWebAuthnLoginUseCase(
+      { findById: jest.fn().mockResolvedValue(user) } as unknown as IUserRepository,
+      ceremonyService as unknown as WebAuthnCeremonyService,
+      {
+        findByTenantId: jest.fn().mockResolvedValue(TenantSecuritySettingsEntity.defaults('tenant-1')),
+      } as unknown as ITenantSecuritySettingsRepository,
+      accountLockoutService as unknown as AccountLockoutService,
+      authTokenService as unknown as AuthTokenService,
+      auditLogService as unknown as AuditLogService
+    );
+  });
+
+  it('should issue tokens and audit the passkey login', async () => {
+    await expect(useCase.execute({ response: {} }, context)).resolves.toEqual(tokens);
+
+    expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, context, 'passkey', undefined);
+  });
+
+  it("should audit a rejected assertion against the passkey's owner", async () => {
+    ceremonyService.finishAuthentication.mockRejectedValue(new PasskeyRejectedException(user.id));
+
+    await expect(useCase.execute({ response: {} }, context)).rejects.toThrow(UnauthorizedException);
+
+    expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, context, 'passkey', 'passkey_rejected');
+    expect(authTokenService.issueTokens).not.toHaveBeenCalled();
+  });
+
+  it('should not audit an assertion that names no registered passkey', async () => {
+    ceremonyService.finishAuthentication.mockRejectedValue(new UnauthorizedException('Invalid or expired passkey challenge'));
+
+    await expect(useCase.execute({ response: {} }, context)).rejects.toThrow(UnauthorizedException);
+
+    expect(auditLogService.recordLogin).not.toHaveBeenCalled();
+  });
+
+  it('should audit a login refused because the account is locked', async () => {
+    accountLockoutService.assertNotLocked.mockRejectedValue(new AccountLockedException(new Date(Date.now() + 60000)));
+
+    await expect(useCase.execute({ response: {} }, context)).rejects.toThrow(AccountLockedException);
+
+    expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, context, 'passkey', 'account_locked');
+  });
+});
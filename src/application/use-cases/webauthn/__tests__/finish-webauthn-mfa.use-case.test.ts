@@ -0,0 +1,87 @@
+import { FinishWebAuthnMfaUseCase } from '../finish-webauthn-mfa.use-case';
+import { IUserRepository } from '../../../../domain/repositories/iuser-repository';
+import { UserEntity } from '../../../../domain/entities/user.entity';
+import { UserLockoutEntity } from '../../../../domain/entities/user-lockout.entity';
+import { Email } from '../../../../domain/value-objects/email';
+import { Password } from '../../../../domain/value-objects/password';
+import {
+  AccountLockedException,
+  PasskeyRejectedException,
+  UnauthorizedException,
+} from '../../../../domain/exceptions/domain-exceptions';
+import { JwtService } from '../../../../infrastructure/external/jwt.service';
+import { WebAuthnCeremonyService } from '../../../services/webauthn-ceremony.service';
+import { AccountLockoutService } from '../../../services/account-lockout.service';
+import { AuthTokenService } from '../../../services/auth-token.service';
+import { AuditLogService } from '../../../services/audit-log.service';
+
+describe('FinishWebAuthnMfaUseCase', () => {
+  const user = new UserEntity(
+    'user-1',
+    new Email('john@example.com'),
+    new Password('hashedPassword', true),
+    'John',
+    'Doe',
+    'tenant-1',
+    false,
+    new Date(),
+    new Date()
+  );
+  const tokens = { accessToken: 'access', refreshToken: 'refresh' };
+  const lockout = new UserLockoutEntity(user.id, 2, 0, null, new Date());
+
+  let ceremonyService: { finishAuthentication: jest.Mock };
+  let accountLockoutService: { assertNotLocked: jest.Mock; recordFailedLogin: jest.Mock; recordSuccessfulLogin: jest.Mock };
+  let authTokenService: { issueTokens: jest.Mock };
+  let auditLogService: { recordLogin: jest.Mock };
+  let useCase: FinishWebAuthnMfaUseCase;
+
+  const finish = () =>
+    useCase.execute({ challengeToken: JwtService.generateMfaChallengeToken(user.id, user.tenantId), response: {} });
+
+  beforeEach(() => {
+    ceremonyService = { finishAuthentication: jest.fn().mockResolvedValue(undefined) };
+    accountLockoutService = {
+      assertNotLocked: jest.fn().mockResolvedValue(lockout),
+      recordFailedLogin: jest.fn().mockResolvedValue(undefined),
+      recordSuccessfulLogin: jest.fn().mockResolvedValue(undefined),
+    };
+    authTokenService = { issueTokens: jest.fn().mockResolvedValue(tokens) };
+    auditLogService = { recordLogin: jest.fn().mockResolvedValue(undefined) };
+
+    useCase = new FinishWebAuthnMfaUseCase(
+      { findById: jest.fn().mockResolvedValue(user) } as unknown as IUserRepository,
+      ceremonyService as unknown as WebAuthnCeremonyService,
+      authTokenService as unknown as AuthTokenService,
+      accountLockoutService as unknown as AccountLockoutService,
+      auditLogService as unknown as AuditLogService
+    );
+  });
+
+  it('should issue tokens and clear the failed attempts', async () => {
+    await expect(finish()).resolves.toEqual(tokens);
+
+    expect(accountLockoutService.recordSuccessfulLogin).toHaveBeenCalledWith(lockout);
+    expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, undefined, 'passkey_mfa', undefined);
+  });
+
+  it('should count a rejected assertion as a failed login', async () => {
+    ceremonyService.finishAuthentication.mockRejectedValue(new PasskeyRejectedException(user.id));
+
+    await expect(finish()).rejects.toThrow(UnauthorizedException);
+
+    expect(accountLockoutService.recordFailedLogin).toHaveBeenCalledWith(user);
+    expect(accountLockoutService.recordSuccessfulLogin).not.toHaveBeenCalled();
+    expect(authTokenService.issueTokens).not.toHaveBeenCalled();
+    expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, undefined, 'passkey_mfa', 'passkey_rejected');
+  });
+
+  it('should refuse a locked account before verifying the assertion', async () => {
+    accountLockoutService.assertNotLocked.mockRejectedValue(new AccountLockedException(new Date(Date.now() + 60000)));
+
+    await expect(finish()).rejects.toThrow(AccountLockedException);
+
+    expect(ceremonyService.finishAuthentication).not.toHaveBeenCalled();
+    expect(auditLogService.recordLogin).toHaveBeenCalledWith(user, undefined, 'passkey_mfa', 'account_locked');
+  });
+});
@@ -0,0 +1,42 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IWebAuthnCredentialRepository } from '../../../domain/repositories/iwebauthn-credential-repository';
+import { MFA_METHODS } from '../../../domain/constants/mfa-policies';
+import { NotFoundException, BusinessRuleException } from '../../../domain/exceptions/domain-exceptions';
+import { MfaPolicyService } from '../../services/mfa-policy.service';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for removing one of the user's passkeys
+ * The last second factor cannot be removed while the tenant MFA policy applies to the user.
+ */
+export class DeleteWebAuthnCredentialUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private credentialRepository: IWebAuthnCredentialRepository,
+    private mfaPolicyService: MfaPolicyService
+  ) {}
+
+  async execute(userId: string, tenantId: string | null, credentialId: string): Promise<void> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    const credentials = await this.credentialRepository.findByUserId(user.id);
+    if (!credentials.some((credential) => credential.id === credentialId)) {
+      throw new NotFoundException('Passkey', credentialId);
+    }
+
+    if (credentials.length === 1) {
+      const methods = await this.mfaPolicyService.getSecondFactors(user);
+      if (!methods.includes(MFA_METHODS.TOTP) && (await this.mfaPolicyService.isMfaRequired(user))) {
+        throw new BusinessRuleException(
+          'MFA is required by your organization; set up another second factor before removing this passkey'
+        );
+      }
+    }
+
+    await this.credentialRepository.delete(credentialId, user.id);
+    Logger.info('Passkey removed', { userId: user.id, credentialId });
+  }
+}
@@ -0,0 +1,89 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { ITenantSecuritySettingsRepository } from '../../../domain/repositories/itenant-security-settings-repository';
+import { UserEntity } from '../../../domain/entities/user.entity';
+import { WEBAUTHN_CHALLENGE_TYPES } from '../../../domain/constants/webauthn';
+import { AUDIT_LOGIN_METHODS } from '../../../domain/constants/audit';
+import {
+  ForbiddenException,
+  PasskeyRejectedException,
+  UnauthorizedException,
+} from '../../../domain/exceptions/domain-exceptions';
+import { WebAuthnCeremonyService } from '../../services/webauthn-ceremony.service';
+import { AccountLockoutService } from '../../services/account-lockout.service';
+import { AuthTokenService } from '../../services/auth-token.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { WebAuthnLoginDto } from '../../dto/webauthn.dto';
+import { AuthResponseDto } from '../../dto/auth.dto';
+import { ClientContext } from '../../../shared/types';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for finishing a passwordless login with a passkey
+ * A user-verified passkey proves possession and the user's PIN or biometric at once,
+ * so it satisfies the tenant MFA policy and tokens are issued directly
+ */
+export class FinishWebAuthnLoginUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private webAuthnCeremonyService: WebAuthnCeremonyService,
+    private tenantSecuritySettingsRepository: ITenantSecuritySettingsRepository,
+    private accountLockoutService: AccountLockoutService,
+    private authTokenService: AuthTokenService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  async execute(dto: WebAuthnLoginDto, context?: ClientContext): Promise<AuthResponseDto> {
+    let credential;
+    try {
+      credential = await this.webAuthnCeremonyService.finishAuthentication(
+        WEBAUTHN_CHALLENGE_TYPES.LOGIN,
+        dto.response,
+        null
+      );
+    } catch (error) {
+      // Only a registered passkey ties the attempt to a user; unknown challenges and credentials are only logged
+      if (error instanceof PasskeyRejectedException) {
+        const owner = await this.userRepository.findById(error.userId);
+        if (owner) {
+          await this.recordAttempt(owner, context, 'passkey_rejected');
+        }
+      }
+      throw error;
+    }
+
+    const user = await this.userRepository.findById(credential.userId);
+    if (!user) {
+      throw new UnauthorizedException('Passkey could not be verified');
+    }
+
+    try {
+      await this.accountLockoutService.assertNotLocked(user);
+    } catch (error) {
+      await this.recordAttempt(user, context, 'account_locked');
+      throw error;
+    }
+
+    if (user.tenantId) {
+      const settings = await this.tenantSecuritySettingsRepository.findByTenantId(user.tenantId);
+      if (settings.requireEmailVerification && !user.isEmailVerified()) {
+        Logger.warn('Login blocked until email is verified', { userId: user.id });
+        await this.recordAttempt(user, context, 'email_not_verified');
+        throw new ForbiddenException('Email address is not verified');
+      }
+    }
+
+    await this.recordAttempt(user, context);
+    const result = await this.authTokenService.issueTokens(user, context);
+    Logger.info('User authenticated with passkey', { userId: user.id, credentialId: credential.id });
+
+    return result;
+  }
+
+  /**
+   * Audit a passkey login of a known user
+   * @param failureReason - Why the login was refused; omitted when the passkey was accepted
+   */
+  private async recordAttempt(user: UserEntity, context: ClientContext | undefined, failureReason?: string): Promise<void> {
+    await this.auditLogService.recordLogin(user, context, AUDIT_LOGIN_METHODS.PASSKEY, failureReason);
+  }
+}
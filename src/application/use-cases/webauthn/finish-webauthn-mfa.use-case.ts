@@ -0,0 +1,79 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { UserEntity } from '../../../domain/entities/user.entity';
+import { WEBAUTHN_CHALLENGE_TYPES } from '../../../domain/constants/webauthn';
+import { PasskeyRejectedException, UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+import { JwtService } from '../../../infrastructure/external/jwt.service';
+import { WebAuthnCeremonyService } from '../../services/webauthn-ceremony.service';
+import { AuthTokenService } from '../../services/auth-token.service';
+import { AccountLockoutService } from '../../services/account-lockout.service';
+import { AuditLogService } from '../../services/audit-log.service';
+import { AUDIT_LOGIN_METHODS } from '../../../domain/constants/audit';
+import { WebAuthnMfaLoginDto } from '../../dto/webauthn.dto';
+import { AuthResponseDto } from '../../dto/auth.dto';
+import { ClientContext } from '../../../shared/types';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for the second step of an MFA login answered with a passkey
+ * Exchanges the "mfa_pending" challenge token and a passkey assertion for the access/refresh pair
+ * Rejected assertions count as failed logins, like wrong TOTP codes
+ */
+export class FinishWebAuthnMfaUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private webAuthnCeremonyService: WebAuthnCeremonyService,
+    private authTokenService: AuthTokenService,
+    private accountLockoutService: AccountLockoutService,
+    private auditLogService: AuditLogService
+  ) {}
+
+  async execute(dto: WebAuthnMfaLoginDto, context?: ClientContext): Promise<AuthResponseDto> {
+    let challenge;
+    try {
+      challenge = JwtService.verifyMfaChallengeToken(dto.challengeToken);
+    } catch (error) {
+      Logger.warn('Invalid MFA challenge token');
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    const user = await this.userRepository.findById(challenge.userId, challenge.tenantId);
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    // Same limit as wrong TOTP codes: the challenge can be renewed with the password
+    let lockout;
+    try {
+      lockout = await this.accountLockoutService.assertNotLocked(user);
+    } catch (error) {
+      await this.recordAttempt(user, context, 'account_locked');
+      throw error;
+    }
+
+    try {
+      await this.webAuthnCeremonyService.finishAuthentication(WEBAUTHN_CHALLENGE_TYPES.MFA, dto.response, user.id);
+    } catch (error) {
+      if (error instanceof PasskeyRejectedException) {
+        await this.accountLockoutService.recordFailedLogin(user);
+        await this.recordAttempt(user, context, 'passkey_rejected');
+      }
+      throw error;
+    }
+
+    await this.accountLockoutService.recordSuccessfulLogin(lockout);
+
+    const result = await this.authTokenService.issueTokens(user, context);
+    Logger.info('MFA login completed', { userId: user.id, method: 'webauthn' });
+    await this.recordAttempt(user, context);
+
+    return result;
+  }
+
+  /**
+   * Audit a passkey answer to the second factor challenge
+   * @param failureReason - Why the login was refused; omitted when the passkey was accepted
+   */
+  private async recordAttempt(user: UserEntity, context: ClientContext | undefined, failureReason?: string): Promise<void> {
+    await this.auditLogService.recordLogin(user, context, AUDIT_LOGIN_METHODS.PASSKEY_MFA, failureReason);
+  }
+}
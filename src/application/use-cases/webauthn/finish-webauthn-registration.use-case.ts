@@ -0,0 +1,28 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { WebAuthnCeremonyService } from '../../services/webauthn-ceremony.service';
+import { WebAuthnRegistrationDto, WebAuthnCredentialDto } from '../../dto/webauthn.dto';
+import { toWebAuthnCredentialResponse } from './get-webauthn-credentials.use-case';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for verifying the authenticator's attestation and storing the new passkey
+ */
+export class FinishWebAuthnRegistrationUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private webAuthnCeremonyService: WebAuthnCeremonyService
+  ) {}
+
+  async execute(userId: string, tenantId: string | null, dto: WebAuthnRegistrationDto): Promise<WebAuthnCredentialDto> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    const credential = await this.webAuthnCeremonyService.finishRegistration(user, dto.response, dto.name);
+    Logger.info('Passkey registered', { userId: user.id, credentialId: credential.id });
+
+    return toWebAuthnCredentialResponse(credential);
+  }
+}
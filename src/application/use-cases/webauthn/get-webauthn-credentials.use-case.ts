@@ -0,0 +1,37 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IWebAuthnCredentialRepository } from '../../../domain/repositories/iwebauthn-credential-repository';
+import { WebAuthnCredentialEntity } from '../../../domain/entities/webauthn-credential.entity';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { WebAuthnCredentialDto } from '../../dto/webauthn.dto';
+
+export function toWebAuthnCredentialResponse(credential: WebAuthnCredentialEntity): WebAuthnCredentialDto {
+  return {
+    id: credential.id,
+    name: credential.name,
+    deviceType: credential.deviceType,
+    backedUp: credential.backedUp,
+    transports: credential.transports,
+    createdAt: credential.createdAt,
+    lastUsedAt: credential.lastUsedAt,
+  };
+}
+
+/**
+ * Use case for listing the passkeys registered by a user
+ */
+export class GetWebAuthnCredentialsUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private credentialRepository: IWebAuthnCredentialRepository
+  ) {}
+
+  async execute(userId: string, tenantId: string | null): Promise<WebAuthnCredentialDto[]> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    const credentials = await this.credentialRepository.findByUserId(user.id);
+    return credentials.map(toWebAuthnCredentialResponse);
+  }
+}
@@ -0,0 +1,34 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { IWebAuthnCredentialRepository } from '../../../domain/repositories/iwebauthn-credential-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { RenameWebAuthnCredentialDto, WebAuthnCredentialDto } from '../../dto/webauthn.dto';
+import { toWebAuthnCredentialResponse } from './get-webauthn-credentials.use-case';
+
+/**
+ * Use case for changing the label of one of the user's passkeys
+ */
+export class RenameWebAuthnCredentialUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private credentialRepository: IWebAuthnCredentialRepository
+  ) {}
+
+  async execute(
+    userId: string,
+    tenantId: string | null,
+    credentialId: string,
+    dto: RenameWebAuthnCredentialDto
+  ): Promise<WebAuthnCredentialDto> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    const credential = await this.credentialRepository.rename(credentialId, user.id, dto.name.trim());
+    if (!credential) {
+      throw new NotFoundException('Passkey', credentialId);
+    }
+
+    return toWebAuthnCredentialResponse(credential);
+  }
+}
@@ -0,0 +1,15 @@
+import { WEBAUTHN_CHALLENGE_TYPES } from '../../../domain/constants/webauthn';
+import { WebAuthnCeremonyService } from '../../services/webauthn-ceremony.service';
+
+/**
+ * Use case for starting a passwordless login with a passkey
+ * No user is named up front; the authenticator offers its discoverable credentials for this site
+ * @returns Options for navigator.credentials.get()
+ */
+export class StartWebAuthnLoginUseCase {
+  constructor(private webAuthnCeremonyService: WebAuthnCeremonyService) {}
+
+  async execute(): Promise<Record<string, unknown>> {
+    return this.webAuthnCeremonyService.startAuthentication(WEBAUTHN_CHALLENGE_TYPES.LOGIN, null);
+  }
+}
@@ -0,0 +1,36 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { WEBAUTHN_CHALLENGE_TYPES } from '../../../domain/constants/webauthn';
+import { UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+import { JwtService } from '../../../infrastructure/external/jwt.service';
+import { WebAuthnCeremonyService } from '../../services/webauthn-ceremony.service';
+import { WebAuthnMfaOptionsDto } from '../../dto/webauthn.dto';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Use case for answering an MFA challenge with a passkey instead of a TOTP code
+ * Authenticated by the "mfa_pending" challenge token; only the user's own passkeys are allowed
+ * @returns Options for navigator.credentials.get()
+ */
+export class StartWebAuthnMfaUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private webAuthnCeremonyService: WebAuthnCeremonyService
+  ) {}
+
+  async execute(dto: WebAuthnMfaOptionsDto): Promise<Record<string, unknown>> {
+    let challenge;
+    try {
+      challenge = JwtService.verifyMfaChallengeToken(dto.challengeToken);
+    } catch (error) {
+      Logger.warn('Invalid MFA challenge token');
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    const user = await this.userRepository.findById(challenge.userId, challenge.tenantId);
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired MFA challenge');
+    }
+
+    return this.webAuthnCeremonyService.startAuthentication(WEBAUTHN_CHALLENGE_TYPES.MFA, user.id);
+  }
+}
@@ -0,0 +1,23 @@
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { NotFoundException } from '../../../domain/exceptions/domain-exceptions';
+import { WebAuthnCeremonyService } from '../../services/webauthn-ceremony.service';
+
+/**
+ * Use case for starting the registration of a passkey by a signed-in user
+ * @returns Options for navigator.credentials.create()
+ */
+export class StartWebAuthnRegistrationUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private webAuthnCeremonyService: WebAuthnCeremonyService
+  ) {}
+
+  async execute(userId: string, tenantId: string | null): Promise<Record<string, unknown>> {
+    const user = await this.userRepository.findById(userId, tenantId);
+    if (!user) {
+      throw new NotFoundException('User', userId);
+    }
+
+    return this.webAuthnCeremonyService.startRegistration(user);
+  }
+}
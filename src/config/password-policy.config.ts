@@ -14,10 +14,29 @@ export interface PasswordPolicy {
   requireSpecialChar: boolean;
   allowedSpecialChars: string;
   commonPasswords: string[];
+  bannedWords: string[]; // Organization specific words, e.g. product or company names
   maxHistory: number; // Number of previous passwords to check
   expiryDays: number; // Password expiry in days (0 = never expires)
 }
 
+/**
+ * Settings a tenant may override; unset fields inherit the global policy
+ * Banned words are added to the global list instead of replacing it
+ */
+export type PasswordPolicyOverrides = Partial<
+  Pick<
+    PasswordPolicy,
+    | 'minLength'
+    | 'requireUppercase'
+    | 'requireLowercase'
+    | 'requireNumber'
+    | 'requireSpecialChar'
+    | 'maxHistory'
+    | 'expiryDays'
+    | 'bannedWords'
+  >
+>;
+
 /**
  * Default password policy
  * Can be overridden by environment variables
@@ -60,62 +79,100 @@ export const passwordPolicy: PasswordPolicy = {
     'hello',
     'whatever',
   ],
+
+  // Extra words to block (comma separated)
+  bannedWords: (process.env.PASSWORD_BANNED_WORDS || '')
+    .split(',')
+    .map((word) => word.trim().toLowerCase())
+    .filter((word) => word.length > 0),
   
   // Password history and expiry
   maxHistory: parseInt(process.env.PASSWORD_MAX_HISTORY || '5', 10),
   expiryDays: parseInt(process.env.PASSWORD_EXPIRY_DAYS || '0', 10), // 0 = never expires
 };
 
+/**
+ * Apply tenant overrides to a policy
+ * @param overrides - Tenant settings (undefined and null fields inherit)
+ * @param base - Policy the overrides apply to
+ * @returns The effective policy
+ */
+export function resolvePasswordPolicy(
+  overrides: PasswordPolicyOverrides,
+  base: PasswordPolicy = passwordPolicy
+): PasswordPolicy {
+  return {
+    ...base,
+    minLength: overrides.minLength ?? base.minLength,
+    requireUppercase: overrides.requireUppercase ?? base.requireUppercase,
+    requireLowercase: overrides.requireLowercase ?? base.requireLowercase,
+    requireNumber: overrides.requireNumber ?? base.requireNumber,
+    requireSpecialChar: overrides.requireSpecialChar ?? base.requireSpecialChar,
+    maxHistory: overrides.maxHistory ?? base.maxHistory,
+    expiryDays: overrides.expiryDays ?? base.expiryDays,
+    bannedWords: [...new Set([...base.bannedWords, ...(overrides.bannedWords ?? [])])],
+  };
+}
+
 /**
  * Validate password against policy
  * @param password - Password to validate
+ * @param policy - Policy to apply (the global policy by default)
  * @returns Object with isValid flag and array of error messages
  */
-export function validatePasswordPolicy(password: string): {
+export function validatePasswordPolicy(
+  password: string,
+  policy: PasswordPolicy = passwordPolicy
+): {
   isValid: boolean;
   errors: string[];
 } {
   const errors: string[] = [];
 
   // Check length
-  if (password.length < passwordPolicy.minLength) {
-    errors.push(`Password must be at least ${passwordPolicy.minLength} characters long`);
+  if (password.length < policy.minLength) {
+    errors.push(`Password must be at least ${policy.minLength} characters long`);
   }
-  if (password.length > passwordPolicy.maxLength) {
-    errors.push(`Password must not exceed ${passwordPolicy.maxLength} characters`);
+  if (password.length > policy.maxLength) {
+    errors.push(`Password must not exceed ${policy.maxLength} characters`);
   }
 
   // Check uppercase
-  if (passwordPolicy.requireUppercase && !/[A-Z]/.test(password)) {
+  if (policy.requireUppercase && !/[A-Z]/.test(password)) {
     errors.push('Password must contain at least one uppercase letter');
   }
 
   // Check lowercase
-  if (passwordPolicy.requireLowercase && !/[a-z]/.test(password)) {
+  if (policy.requireLowercase && !/[a-z]/.test(password)) {
     errors.push('Password must contain at least one lowercase letter');
   }
 
   // Check number
-  if (passwordPolicy.requireNumber && !/[0-9]/.test(password)) {
+  if (policy.requireNumber && !/[0-9]/.test(password)) {
     errors.push('Password must contain at least one number');
   }
 
   // Check special character
-  if (passwordPolicy.requireSpecialChar) {
-    const specialCharRegex = new RegExp(`[${passwordPolicy.allowedSpecialChars.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&')}]`);
+  if (policy.requireSpecialChar) {
+    const specialCharRegex = new RegExp(`[${policy.allowedSpecialChars.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&')}]`);
     if (!specialCharRegex.test(password)) {
       errors.push(
-        `Password must contain at least one special character (${passwordPolicy.allowedSpecialChars})`
+        `Password must contain at least one special character (${policy.allowedSpecialChars})`
       );
     }
   }
 
   // Check common passwords
   const lowerPassword = password.toLowerCase();
-  if (passwordPolicy.commonPasswords.some(common => lowerPassword.includes(common))) {
+  if (policy.commonPasswords.some(common => lowerPassword.includes(common))) {
     errors.push('Password is too common. Please choose a more secure password');
   }
 
+  // Check banned words
+  if (policy.bannedWords.some(word => lowerPassword.includes(word.toLowerCase()))) {
+    errors.push('Password contains a word that is not allowed');
+  }
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -124,26 +181,27 @@ export function validatePasswordPolicy(password: string): {
 
 /**
  * Generate password requirements description for user feedback
+ * @param policy - Policy to describe (the global policy by default)
  */
-export function getPasswordRequirements(): string {
+export function getPasswordRequirements(policy: PasswordPolicy = passwordPolicy): string {
   const requirements: string[] = [];
   
-  requirements.push(`at least ${passwordPolicy.minLength} characters`);
+  requirements.push(`at least ${policy.minLength} characters`);
   
-  if (passwordPolicy.requireUppercase) {
+  if (policy.requireUppercase) {
     requirements.push('one uppercase letter');
   }
   
-  if (passwordPolicy.requireLowercase) {
+  if (policy.requireLowercase) {
     requirements.push('one lowercase letter');
   }
   
-  if (passwordPolicy.requireNumber) {
+  if (policy.requireNumber) {
     requirements.push('one number');
   }
   
-  if (passwordPolicy.requireSpecialChar) {
-    requirements.push(`one special character (${passwordPolicy.allowedSpecialChars})`);
+  if (policy.requireSpecialChar) {
+    requirements.push(`one special character (${policy.allowedSpecialChars})`);
   }
   
   return requirements.join(', ');
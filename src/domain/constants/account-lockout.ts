@@ -0,0 +1,23 @@
+/**
+ * Constants for account lockout after repeated failed logins
+ */
+
+export interface LockoutPolicy {
+  // Failed logins before the account locks; 0 disables lockout
+  threshold: number;
+  // Duration of the first lock, doubled on each consecutive lock
+  durationSeconds: number;
+  maxDurationSeconds: number;
+}
+
+// Applied to tenants without saved settings and to users outside any tenant
+export const DEFAULT_LOCKOUT_POLICY: LockoutPolicy = {
+  threshold: 5,
+  durationSeconds: 300,
+  maxDurationSeconds: 86400,
+};
+
+// Failed logins older than this no longer count towards the threshold
+export const LOCKOUT_FAILURE_WINDOW_SECONDS = 900;
+
+export const ACCOUNT_LOCKED_ERROR_CODE = 'ACCOUNT_LOCKED';
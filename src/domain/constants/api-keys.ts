@@ -0,0 +1,12 @@
+/**
+ * Constants for tenant API keys
+ */
+
+// Keys look like "ak_<random>"; the prefix makes leaked keys easy to recognize in scanners and logs
+export const API_KEY_PREFIX = 'ak';
+
+// Number of leading characters stored in clear text to identify a key
+export const API_KEY_DISPLAY_PREFIX_LENGTH = 12;
+
+// last_used_at is written at most once per interval to avoid a database write on every request
+export const API_KEY_USAGE_RECORD_INTERVAL_MS = 60 * 1000;
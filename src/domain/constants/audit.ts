@@ -0,0 +1,105 @@
+/**
+ * Constants for the audit log
+ */
+
+// Actions are "<resource>.<verb>" so they can be filtered by prefix (e.g. "user.")
+export const AUDIT_ACTIONS = {
+  LOGIN: 'auth.login',
+  REFRESH_TOKEN_REUSED: 'auth.refresh_token_reused',
+  MFA_RECOVERY_CODE_USED: 'auth.mfa_recovery_code_used',
+  USER_CREATED: 'user.created',
+  USER_UPDATED: 'user.updated',
+  USER_DELETED: 'user.deleted',
+  USER_DEPROVISIONED: 'user.deprovisioned',
+  USER_REACTIVATED: 'user.reactivated',
+  USER_LOCKED: 'user.locked',
+  USER_UNLOCKED: 'user.unlocked',
+  PASSWORD_CHANGED: 'user.password_changed',
+  ROLE_CREATED: 'role.created',
+  ROLE_UPDATED: 'role.updated',
+  ROLE_DELETED: 'role.deleted',
+  ROLE_MEMBERS_CHANGED: 'role.members_changed',
+  TENANT_CREATED: 'tenant.created',
+  TENANT_UPDATED: 'tenant.updated',
+  TENANT_DELETED: 'tenant.deleted',
+  SECURITY_SETTINGS_UPDATED: 'tenant.security_settings_updated',
+  PASSWORD_POLICY_UPDATED: 'tenant.password_policy_updated',
+  PASSWORD_POLICY_RESET: 'tenant.password_policy_reset',
+  API_KEY_CREATED: 'api_key.created',
+  API_KEY_REVOKED: 'api_key.revoked',
+  SCIM_TOKEN_CREATED: 'scim_token.created',
+  SCIM_TOKEN_REVOKED: 'scim_token.revoked',
+  SAML_CONFIG_UPDATED: 'saml_config.updated',
+  SAML_CONFIG_DELETED: 'saml_config.deleted',
+  OIDC_CONNECTOR_CREATED: 'oidc_connector.created',
+  OIDC_CONNECTOR_UPDATED: 'oidc_connector.updated',
+  OIDC_CONNECTOR_DELETED: 'oidc_connector.deleted',
+  MFA_DISABLED: 'user.mfa_disabled',
+  SESSION_REVOKED: 'session.revoked',
+  SESSIONS_REVOKED: 'user.sessions_revoked',
+  INVITATION_CREATED: 'invitation.created',
+  INVITATION_RESENT: 'invitation.resent',
+  INVITATION_REVOKED: 'invitation.revoked',
+  INVITATION_ACCEPTED: 'invitation.accepted',
+  OAUTH_CLIENT_CREATED: 'oauth_client.created',
+  OAUTH_CLIENT_DELETED: 'oauth_client.deleted',
+  SERVICE_CLIENT_CREATED: 'service_client.created',
+  SERVICE_CLIENT_ROLES_UPDATED: 'service_client.roles_updated',
+  EMAIL_TEMPLATE_UPDATED: 'email_template.updated',
+  EMAIL_TEMPLATE_RESET: 'email_template.reset',
+} as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[keyof typeof AUDIT_ACTIONS];
+
+export const AUDIT_OUTCOMES = {
+  SUCCESS: 'success',
+  FAILURE: 'failure',
+  // The first factor was accepted, another step (second factor, password change) is pending
+  CHALLENGED: 'challenged',
+} as const;
+
+export type AuditOutcome = typeof AUDIT_OUTCOMES[keyof typeof AUDIT_OUTCOMES];
+
+export const AUDIT_OUTCOME_VALUES: AuditOutcome[] = Object.values(AUDIT_OUTCOMES);
+
+export const AUDIT_TARGET_TYPES = {
+  USER: 'user',
+  ROLE: 'role',
+  TENANT: 'tenant',
+  API_KEY: 'api_key',
+  SCIM_TOKEN: 'scim_token',
+  SAML_CONFIG: 'saml_config',
+  OIDC_CONNECTOR: 'oidc_connector',
+  SESSION: 'session',
+  INVITATION: 'invitation',
+  OAUTH_CLIENT: 'oauth_client',
+  EMAIL_TEMPLATE: 'email_template',
+} as const;
+
+// How the user proved their identity, kept in the metadata of login events
+export const AUDIT_LOGIN_METHODS = {
+  PASSWORD: 'password',
+  MAGIC_LINK: 'magic_link',
+  PASSKEY: 'passkey',
+  SSO: 'sso',
+  // Second factors
+  TOTP: 'totp',
+  RECOVERY_CODE: 'recovery_code',
+  PASSKEY_MFA: 'passkey_mfa',
+} as const;
+
+export type AuditLoginMethod = typeof AUDIT_LOGIN_METHODS[keyof typeof AUDIT_LOGIN_METHODS];
+
+// Actor types for events without an authenticated request principal
+export const AUDIT_ACTOR_TYPES = {
+  USER: 'user',
+  SCIM: 'scim',
+  SYSTEM: 'system',
+} as const;
+
+// Fields whose values never go into the changes of an event (matched case-insensitively, as substrings)
+export const AUDIT_REDACTED_FIELDS = ['password', 'secret', 'token', 'hash', 'privatekey'];
+
+export const AUDIT_REDACTED_VALUE = '[REDACTED]';
+
+export const MAX_AUDIT_LOG_PAGE_SIZE = 100;
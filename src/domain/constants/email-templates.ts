@@ -0,0 +1,15 @@
+/**
+ * Types of transactional emails; each has a built-in template that tenants can override
+ */
+export const EMAIL_TEMPLATE_TYPES = {
+  PASSWORD_RESET: 'password_reset',
+  WELCOME: 'welcome',
+  INVITATION: 'invitation',
+  EMAIL_CHANGE: 'email_change',
+  EMAIL_VERIFICATION: 'email_verification',
+  MAGIC_LINK: 'magic_link',
+} as const;
+
+export type EmailTemplateType = typeof EMAIL_TEMPLATE_TYPES[keyof typeof EMAIL_TEMPLATE_TYPES];
+
+export const EMAIL_TEMPLATE_TYPE_VALUES: EmailTemplateType[] = Object.values(EMAIL_TEMPLATE_TYPES);
@@ -0,0 +1,17 @@
+/**
+ * Constants for user invitations
+ */
+
+export const INVITATION_STATUSES = {
+  PENDING: 'pending',
+  ACCEPTED: 'accepted',
+  EXPIRED: 'expired',
+  REVOKED: 'revoked',
+} as const;
+
+export type InvitationStatus = typeof INVITATION_STATUSES[keyof typeof INVITATION_STATUSES];
+
+export const INVITATION_STATUS_VALUES: InvitationStatus[] = Object.values(INVITATION_STATUSES);
+
+// Accept tokens look like "inv_<random>"
+export const INVITATION_TOKEN_PREFIX = 'inv';
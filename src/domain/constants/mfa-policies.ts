@@ -0,0 +1,25 @@
+/**
+ * Constants for per-tenant MFA enforcement policies
+ */
+export const MFA_POLICIES = {
+  // MFA is optional for everyone
+  OFF: 'off',
+  // Users with the admin role must use MFA
+  ADMINS: 'admins',
+  // Every user in the tenant must use MFA
+  ALL: 'all',
+} as const;
+
+export type MfaPolicy = typeof MFA_POLICIES[keyof typeof MFA_POLICIES];
+
+export const MFA_POLICY_VALUES: MfaPolicy[] = Object.values(MFA_POLICIES);
+
+/**
+ * Second factors a user can answer an MFA challenge with
+ */
+export const MFA_METHODS = {
+  TOTP: 'totp',
+  WEBAUTHN: 'webauthn',
+} as const;
+
+export type MfaMethod = typeof MFA_METHODS[keyof typeof MFA_METHODS];
@@ -0,0 +1,22 @@
+/**
+ * Constants for the OAuth 2.0 / OpenID Connect provider
+ */
+export const OAUTH_GRANT_TYPES = {
+  AUTHORIZATION_CODE: 'authorization_code',
+  REFRESH_TOKEN: 'refresh_token',
+  // Machine-to-machine access by tenant service clients
+  CLIENT_CREDENTIALS: 'client_credentials',
+} as const;
+
+export type OAuthGrantType = typeof OAUTH_GRANT_TYPES[keyof typeof OAUTH_GRANT_TYPES];
+
+export const OIDC_SCOPES = {
+  OPENID: 'openid',
+  PROFILE: 'profile',
+  EMAIL: 'email',
+} as const;
+
+export const SUPPORTED_OIDC_SCOPES: string[] = Object.values(OIDC_SCOPES);
+
+// Only S256 is accepted; "plain" offers no protection against code interception
+export const PKCE_METHOD_S256 = 'S256';
@@ -0,0 +1,44 @@
+/**
+ * Constants for SCIM 2.0 provisioning (RFC 7643 / RFC 7644)
+ */
+
+export const SCIM_SCHEMAS = {
+  USER: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  GROUP: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  ENTERPRISE_USER: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+  LIST_RESPONSE: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  PATCH_OP: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  ERROR: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  SERVICE_PROVIDER_CONFIG: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+} as const;
+
+// scimType values of error responses (RFC 7644 section 3.12)
+export const SCIM_ERROR_TYPES = {
+  INVALID_FILTER: 'invalidFilter',
+  INVALID_PATH: 'invalidPath',
+  INVALID_VALUE: 'invalidValue',
+  INVALID_SYNTAX: 'invalidSyntax',
+  NO_TARGET: 'noTarget',
+  MUTABILITY: 'mutability',
+  UNIQUENESS: 'uniqueness',
+  TOO_MANY: 'tooMany',
+} as const;
+
+export type ScimErrorType = typeof SCIM_ERROR_TYPES[keyof typeof SCIM_ERROR_TYPES];
+
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+// Tokens look like "scim_<random>", like API keys ("ak_")
+export const SCIM_TOKEN_PREFIX = 'scim';
+
+// Number of leading characters stored in clear text to identify a token
+export const SCIM_TOKEN_DISPLAY_PREFIX_LENGTH = 14;
+
+// last_used_at is written at most once per interval; provisioning runs send many requests in a row
+export const SCIM_TOKEN_USAGE_RECORD_INTERVAL_MS = 60 * 1000;
+
+// Active tokens per tenant; more than one allows rotating without a provisioning outage
+export const MAX_SCIM_TOKENS_PER_TENANT = 5;
+
+// Page size when the client does not send a count
+export const SCIM_DEFAULT_PAGE_SIZE = 100;
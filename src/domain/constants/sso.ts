@@ -0,0 +1,41 @@
+/**
+ * Constants for single sign-on through external identity providers
+ */
+export const SSO_PROTOCOLS = {
+  SAML: 'saml',
+  OIDC: 'oidc',
+} as const;
+
+export type SsoProtocol = typeof SSO_PROTOCOLS[keyof typeof SSO_PROTOCOLS];
+
+export interface SamlAttributeMapping {
+  email: string;
+  firstName: string;
+  lastName: string;
+}
+
+// Claim names sent by ADFS / Entra ID; other IdPs usually need their own mapping
+export const DEFAULT_SAML_ATTRIBUTE_MAPPING: SamlAttributeMapping = {
+  email: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+  firstName: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/givenname',
+  lastName: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/surname',
+};
+
+export interface OidcClaimMapping {
+  email: string;
+  emailVerified: string;
+  firstName: string;
+  lastName: string;
+}
+
+// Standard claims (OpenID Connect Core 5.1)
+export const DEFAULT_OIDC_CLAIM_MAPPING: OidcClaimMapping = {
+  email: 'email',
+  emailVerified: 'email_verified',
+  firstName: 'given_name',
+  lastName: 'family_name',
+};
+
+export const DEFAULT_OIDC_SCOPES = ['openid', 'email', 'profile'];
+
+export const MAX_OIDC_CONNECTORS_PER_TENANT = 10;
@@ -0,0 +1,15 @@
+/**
+ * Constants for WebAuthn (passkey) ceremonies
+ */
+export const WEBAUTHN_CHALLENGE_TYPES = {
+  // Adding a passkey to a signed-in account
+  REGISTRATION: 'registration',
+  // Passwordless login; the credential identifies the user
+  LOGIN: 'login',
+  // Second factor after a password or login link
+  MFA: 'mfa',
+} as const;
+
+export type WebAuthnChallengeType = typeof WEBAUTHN_CHALLENGE_TYPES[keyof typeof WEBAUTHN_CHALLENGE_TYPES];
+
+export const MAX_WEBAUTHN_CREDENTIALS_PER_USER = 10;
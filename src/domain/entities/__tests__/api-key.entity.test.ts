@@ -0,0 +1,46 @@
+import { ApiKeyEntity } from '../api-key.entity';
+
+describe('ApiKeyEntity', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+
+  const createApiKey = (overrides?: Partial<ApiKeyEntity>) => {
+    return new ApiKeyEntity(
+      'key-1',
+      'tenant-1',
+      'CI pipeline',
+      'ak_abcdefghi',
+      'hash',
+      ['user.read'],
+      overrides?.expiresAt ?? null,
+      overrides?.lastUsedAt ?? null,
+      overrides?.revokedAt ?? null,
+      now
+    );
+  };
+
+  describe('isActive', () => {
+    it('should be active without expiry or revocation', () => {
+      expect(createApiKey().isActive(now)).toBe(true);
+    });
+
+    it('should be inactive once revoked', () => {
+      expect(createApiKey({ revokedAt: now }).isActive(now)).toBe(false);
+    });
+
+    it('should be inactive from the expiry time on', () => {
+      expect(createApiKey({ expiresAt: new Date(now.getTime() + 1000) }).isActive(now)).toBe(true);
+      expect(createApiKey({ expiresAt: now }).isActive(now)).toBe(false);
+    });
+  });
+
+  describe('shouldRecordUsage', () => {
+    it('should record the first use', () => {
+      expect(createApiKey().shouldRecordUsage(now)).toBe(true);
+    });
+
+    it('should throttle usage recording to once per minute', () => {
+      expect(createApiKey({ lastUsedAt: new Date(now.getTime() - 30 * 1000) }).shouldRecordUsage(now)).toBe(false);
+      expect(createApiKey({ lastUsedAt: new Date(now.getTime() - 60 * 1000) }).shouldRecordUsage(now)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { AuditEventEntity } from '../audit-event.entity';
+import { AUDIT_REDACTED_VALUE } from '../../constants/audit';
+
+describe('AuditEventEntity', () => {
+  describe('diff', () => {
+    it('should return null when nothing changed', () => {
+      const snapshot = { name: 'Editors', permissionIds: ['a', 'b'] };
+      expect(AuditEventEntity.diff(snapshot, { ...snapshot, permissionIds: ['a', 'b'] })).toBeNull();
+    });
+
+    it('should only keep the fields that changed', () => {
+      const changes = AuditEventEntity.diff(
+        { name: 'Editors', description: 'Edit content', permissionIds: ['a'] },
+        { name: 'Writers', description: 'Edit content', permissionIds: ['a', 'b'] }
+      );
+
+      expect(changes).toEqual({
+        before: { name: 'Editors', permissionIds: ['a'] },
+        after: { name: 'Writers', permissionIds: ['a', 'b'] },
+      });
+    });
+
+    it('should describe a created or deleted resource on one side only', () => {
+      expect(AuditEventEntity.diff(null, { email: 'john@example.com' })).toEqual({
+        before: {},
+        after: { email: 'john@example.com' },
+      });
+      expect(AuditEventEntity.diff({ email: 'john@example.com' }, null)).toEqual({
+        before: { email: 'john@example.com' },
+        after: {},
+      });
+    });
+
+    it('should store dates as ISO strings', () => {
+      const changes = AuditEventEntity.diff(
+        { expiresAt: new Date('2026-10-18T12:00:00Z') },
+        { expiresAt: new Date('2026-11-18T12:00:00Z') }
+      );
+
+      expect(changes!.after.expiresAt).toBe('2026-11-18T12:00:00.000Z');
+      expect(AuditEventEntity.diff({ at: new Date(0) }, { at: new Date(0) })).toBeNull();
+    });
+
+    it('should redact the values of secret fields', () => {
+      const changes = AuditEventEntity.diff({ email: 'a@b.com' }, { email: 'a@b.com', password: '$2b$12$hash' });
+
+      expect(changes).toEqual({ before: {}, after: { password: AUDIT_REDACTED_VALUE } });
+      expect(AuditEventEntity.diff({ clientSecret: 'x' }, { clientSecret: 'y' })).toEqual({
+        before: { clientSecret: AUDIT_REDACTED_VALUE },
+        after: { clientSecret: AUDIT_REDACTED_VALUE },
+      });
+    });
+
+    it('should record a field set to null', () => {
+      expect(AuditEventEntity.diff({ description: 'Old' }, { description: null })).toEqual({
+        before: { description: 'Old' },
+        after: { description: null },
+      });
+    });
+  });
+});
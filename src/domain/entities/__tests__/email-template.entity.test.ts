@@ -0,0 +1,47 @@
+import { EmailTemplateEntity } from '../email-template.entity';
+
+describe('EmailTemplateEntity', () => {
+  const createTemplate = (htmlBody: string | null = '<p>Hi {{firstName}}</p>') => {
+    return new EmailTemplateEntity(
+      'tenant-1',
+      'welcome',
+      'Welcome to {{tenantName}}',
+      'Hi {{ firstName }}, sign in at {{loginUrl}}',
+      htmlBody,
+      new Date('2026-10-18T12:00:00Z')
+    );
+  };
+
+  it('should fill placeholders in subject and bodies', () => {
+    const rendered = createTemplate().render({ firstName: 'Ada', tenantName: 'Acme', loginUrl: 'https://app/login' });
+
+    expect(rendered.subject).toBe('Welcome to Acme');
+    expect(rendered.text).toBe('Hi Ada, sign in at https://app/login');
+    expect(rendered.html).toBe('<p>Hi Ada</p>');
+  });
+
+  it('should render unknown variables as empty strings', () => {
+    expect(createTemplate().render({}).text).toBe('Hi , sign in at ');
+  });
+
+  it('should escape values in the HTML body only', () => {
+    const rendered = createTemplate().render({ firstName: '<b>"Ada"</b>' });
+
+    expect(rendered.html).toBe('<p>Hi &lt;b&gt;&quot;Ada&quot;&lt;/b&gt;</p>');
+    expect(rendered.text).toContain('<b>"Ada"</b>');
+  });
+
+  it('should keep the subject on one line', () => {
+    const rendered = createTemplate().render({ tenantName: 'Acme\r\nBcc: victim@example.com' });
+
+    expect(rendered.subject).toBe('Welcome to Acme Bcc: victim@example.com');
+  });
+
+  it('should render no HTML part when the template has none', () => {
+    expect(createTemplate(null).render({}).html).toBeNull();
+  });
+
+  it('should only be a default without tenant', () => {
+    expect(createTemplate().isDefault()).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { InvitationEntity } from '../invitation.entity';
+
+describe('InvitationEntity', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+  const tomorrow = new Date('2026-10-19T12:00:00Z');
+
+  const createInvitation = (overrides?: Partial<InvitationEntity>) => {
+    return new InvitationEntity(
+      'invitation-1',
+      'tenant-1',
+      'ada@example.com',
+      ['role-1'],
+      overrides?.expiresAt ?? tomorrow,
+      overrides?.acceptedAt ?? null,
+      overrides?.acceptedUserId ?? null,
+      overrides?.revokedAt ?? null,
+      'admin-1',
+      now,
+      now
+    );
+  };
+
+  describe('getStatus', () => {
+    it('should be pending before the expiry', () => {
+      expect(createInvitation().getStatus(now)).toBe('pending');
+    });
+
+    it('should be expired from the expiry time on', () => {
+      expect(createInvitation({ expiresAt: now }).getStatus(now)).toBe('expired');
+    });
+
+    it('should be accepted once accepted, even after the expiry', () => {
+      const invitation = createInvitation({ acceptedAt: now, acceptedUserId: 'user-1' });
+      expect(invitation.getStatus(new Date('2026-12-01T00:00:00Z'))).toBe('accepted');
+    });
+
+    it('should be revoked once revoked', () => {
+      expect(createInvitation({ revokedAt: now }).getStatus(now)).toBe('revoked');
+    });
+  });
+
+  describe('canResend', () => {
+    it('should allow resending pending and expired invitations', () => {
+      expect(createInvitation().canResend(now)).toBe(true);
+      expect(createInvitation({ expiresAt: now }).canResend(now)).toBe(true);
+    });
+
+    it('should not allow resending accepted or revoked invitations', () => {
+      expect(createInvitation({ acceptedAt: now }).canResend(now)).toBe(false);
+      expect(createInvitation({ revokedAt: now }).canResend(now)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { TenantOidcConnectorEntity } from '../tenant-oidc-connector.entity';
+import { DEFAULT_OIDC_CLAIM_MAPPING, DEFAULT_OIDC_SCOPES } from '../../constants/sso';
+
+describe('TenantOidcConnectorEntity', () => {
+  const createConnector = (claimMapping = DEFAULT_OIDC_CLAIM_MAPPING) => {
+    return new TenantOidcConnectorEntity(
+      'connector-1',
+      'tenant-1',
+      'Google',
+      'https://accounts.google.com',
+      'client-id',
+      'client-secret',
+      DEFAULT_OIDC_SCOPES,
+      claimMapping,
+      true,
+      true,
+      null,
+      new Date('2026-10-18T12:00:00Z'),
+      new Date('2026-10-18T12:00:00Z')
+    );
+  };
+
+  describe('mapProfile', () => {
+    it('should read the standard claims', () => {
+      const profile = createConnector().mapProfile({
+        sub: '1234567890',
+        email: 'Jane.Doe@Example.com',
+        given_name: 'Jane',
+        family_name: 'Doe',
+      });
+
+      expect(profile).toEqual({
+        subject: '1234567890',
+        email: 'jane.doe@example.com',
+        firstName: 'Jane',
+        lastName: 'Doe',
+      });
+    });
+
+    it('should use the configured claim names', () => {
+      const connector = createConnector({ ...DEFAULT_OIDC_CLAIM_MAPPING, email: 'upn', firstName: 'name' });
+      const profile = connector.mapProfile({ sub: 'abc', upn: 'jane@corp.example', email: 'other@example.com', name: 'Jane' });
+
+      expect(profile.email).toBe('jane@corp.example');
+      expect(profile.firstName).toBe('Jane');
+      expect(profile.lastName).toBeNull();
+    });
+
+    it('should never use the email as subject', () => {
+      const profile = createConnector().mapProfile({ sub: 'abc', email: 'jane@example.com' });
+
+      expect(profile.subject).toBe('abc');
+    });
+  });
+
+  describe('isEmailVerified', () => {
+    it('should accept boolean and string values', () => {
+      expect(createConnector().isEmailVerified({ email_verified: true })).toBe(true);
+      expect(createConnector().isEmailVerified({ email_verified: 'true' })).toBe(true);
+    });
+
+    it('should treat a missing or false claim as unverified', () => {
+      expect(createConnector().isEmailVerified({})).toBe(false);
+      expect(createConnector().isEmailVerified({ email_verified: false })).toBe(false);
+      expect(createConnector().isEmailVerified({ email_verified: 'false' })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { TenantPasswordPolicyEntity } from '../tenant-password-policy.entity';
+import { PasswordPolicy, validatePasswordPolicy } from '../../../config/password-policy.config';
+
+describe('TenantPasswordPolicyEntity', () => {
+  const base: PasswordPolicy = {
+    minLength: 8,
+    maxLength: 128,
+    requireUppercase: true,
+    requireLowercase: true,
+    requireNumber: true,
+    requireSpecialChar: true,
+    allowedSpecialChars: '@$!%*?&',
+    commonPasswords: [],
+    maxHistory: 5,
+    expiryDays: 0,
+    bannedWords: ['password'],
+  };
+
+  describe('resolve', () => {
+    it('should follow the global policy without overrides', () => {
+      const policy = new TenantPasswordPolicyEntity('tenant-1', {}, null);
+      expect(policy.resolve(base)).toEqual(base);
+    });
+
+    it('should apply the tenant overrides', () => {
+      const policy = new TenantPasswordPolicyEntity(
+        'tenant-1',
+        { minLength: 12, requireSpecialChar: false, expiryDays: 90 },
+        new Date()
+      );
+      const resolved = policy.resolve(base);
+
+      expect(resolved.minLength).toBe(12);
+      expect(resolved.requireSpecialChar).toBe(false);
+      expect(resolved.expiryDays).toBe(90);
+      expect(resolved.requireUppercase).toBe(true);
+      expect(resolved.maxHistory).toBe(5);
+    });
+
+    it('should add the tenant banned words to the global ones', () => {
+      const policy = new TenantPasswordPolicyEntity('tenant-1', { bannedWords: ['acme', 'password'] }, new Date());
+      expect(policy.resolve(base).bannedWords).toEqual(['password', 'acme']);
+    });
+
+    it('should reject passwords containing a banned word', () => {
+      const policy = new TenantPasswordPolicyEntity('tenant-1', { bannedWords: ['acme'] }, new Date());
+      const result = validatePasswordPolicy('MyAcme2026!x', policy.resolve(base));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toContain('Password contains a word that is not allowed');
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { TenantSamlConfigEntity } from '../tenant-saml-config.entity';
+import { DEFAULT_SAML_ATTRIBUTE_MAPPING } from '../../constants/sso';
+
+describe('TenantSamlConfigEntity', () => {
+  const createConfig = (enabled: boolean, disablePasswordLogin: boolean) => {
+    return new TenantSamlConfigEntity(
+      'config-1',
+      'tenant-1',
+      enabled,
+      'https://idp.example.com/metadata',
+      'https://idp.example.com/sso',
+      ['-----BEGIN CERTIFICATE-----\nMIIB\n-----END CERTIFICATE-----'],
+      null,
+      { ...DEFAULT_SAML_ATTRIBUTE_MAPPING, firstName: 'givenName' },
+      true,
+      null,
+      disablePasswordLogin,
+      new Date('2026-10-18T12:00:00Z')
+    );
+  };
+
+  describe('isPasswordLoginDisabled', () => {
+    it('should disable password login while SSO is enabled', () => {
+      expect(createConfig(true, true).isPasswordLoginDisabled()).toBe(true);
+    });
+
+    it('should keep password login while SSO is disabled', () => {
+      expect(createConfig(false, true).isPasswordLoginDisabled()).toBe(false);
+    });
+
+    it('should keep password login unless the tenant turned it off', () => {
+      expect(createConfig(true, false).isPasswordLoginDisabled()).toBe(false);
+    });
+  });
+
+  describe('mapProfile', () => {
+    it('should read the mapped attributes', () => {
+      const profile = createConfig(true, false).mapProfile('user-42', {
+        [DEFAULT_SAML_ATTRIBUTE_MAPPING.email]: 'Jane.Doe@Example.com',
+        givenName: ['Jane', 'J.'],
+        [DEFAULT_SAML_ATTRIBUTE_MAPPING.lastName]: ' Doe ',
+      });
+
+      expect(profile).toEqual({
+        subject: 'user-42',
+        email: 'jane.doe@example.com',
+        firstName: 'Jane',
+        lastName: 'Doe',
+      });
+    });
+
+    it('should fall back to a NameID that is an email address', () => {
+      const profile = createConfig(true, false).mapProfile('Jane.Doe@example.com', {});
+
+      expect(profile.email).toBe('jane.doe@example.com');
+      expect(profile.firstName).toBeNull();
+      expect(profile.lastName).toBeNull();
+    });
+
+    it('should leave the email empty for opaque NameIDs without an email attribute', () => {
+      const profile = createConfig(true, false).mapProfile('a1b2c3', { givenName: '' });
+
+      expect(profile.email).toBeNull();
+      expect(profile.firstName).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { UserLockoutEntity } from '../user-lockout.entity';
+import { LOCKOUT_FAILURE_WINDOW_SECONDS, LockoutPolicy } from '../../constants/account-lockout';
+
+describe('UserLockoutEntity', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+  const policy: LockoutPolicy = { threshold: 5, durationSeconds: 300, maxDurationSeconds: 3600 };
+
+  const createLockout = (overrides?: Partial<UserLockoutEntity>) => {
+    return new UserLockoutEntity(
+      'user-1',
+      overrides?.failedAttempts ?? 0,
+      overrides?.lockCount ?? 0,
+      overrides?.lockedUntil ?? null,
+      overrides?.lastFailedAt ?? null
+    );
+  };
+
+  describe('isLocked', () => {
+    it('should not be locked without a lock time', () => {
+      expect(createLockout().isLocked(now)).toBe(false);
+    });
+
+    it('should be locked until the lock time', () => {
+      const lockout = createLockout({ lockedUntil: new Date('2026-10-18T12:05:00Z') });
+      expect(lockout.isLocked(now)).toBe(true);
+    });
+
+    it('should be unlocked once the lock time has passed', () => {
+      const lockout = createLockout({ lockedUntil: now });
+      expect(lockout.isLocked(now)).toBe(false);
+    });
+  });
+
+  describe('shouldLock', () => {
+    it('should lock when the failed attempts reach the threshold', () => {
+      expect(createLockout({ failedAttempts: 4 }).shouldLock(policy)).toBe(false);
+      expect(createLockout({ failedAttempts: 5 }).shouldLock(policy)).toBe(true);
+    });
+
+    it('should never lock when the threshold is 0', () => {
+      expect(createLockout({ failedAttempts: 50 }).shouldLock({ ...policy, threshold: 0 })).toBe(false);
+    });
+  });
+
+  describe('nextLockDurationSeconds', () => {
+    it('should use the policy duration for the first lock', () => {
+      expect(createLockout().nextLockDurationSeconds(policy)).toBe(300);
+    });
+
+    it('should double the duration for each consecutive lock', () => {
+      expect(createLockout({ lockCount: 1 }).nextLockDurationSeconds(policy)).toBe(600);
+      expect(createLockout({ lockCount: 2 }).nextLockDurationSeconds(policy)).toBe(1200);
+    });
+
+    it('should cap the duration at the policy maximum', () => {
+      expect(createLockout({ lockCount: 4 }).nextLockDurationSeconds(policy)).toBe(3600);
+      expect(createLockout({ lockCount: 1000 }).nextLockDurationSeconds(policy)).toBe(3600);
+    });
+  });
+
+  describe('failureWindowStart', () => {
+    it('should only count failures within the window before the new one', () => {
+      const start = UserLockoutEntity.failureWindowStart(now);
+      expect(now.getTime() - start.getTime()).toBe(LOCKOUT_FAILURE_WINDOW_SECONDS * 1000);
+    });
+  });
+});
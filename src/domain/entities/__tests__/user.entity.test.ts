@@ -13,6 +13,8 @@ describe('UserEntity', () => {
     isSuperAdmin?: boolean;
     createdAt?: Date;
     updatedAt?: Date;
+    emailVerifiedAt?: Date | null;
+    passwordChangedAt?: Date | null;
   }) => {
     return new UserEntity(
       overrides?.id || 'user-1',
@@ -23,7 +25,9 @@ describe('UserEntity', () => {
       overrides?.tenantId !== undefined ? overrides.tenantId : 'tenant-1',
       overrides?.isSuperAdmin || false,
       overrides?.createdAt || new Date(),
-      overrides?.updatedAt || new Date()
+      overrides?.updatedAt || new Date(),
+      overrides?.emailVerifiedAt ?? null,
+      overrides?.passwordChangedAt ?? null
     );
   };
 
@@ -34,6 +38,40 @@ describe('UserEntity', () => {
     });
   });
 
+  describe('isEmailVerified', () => {
+    it('should return false until the email is verified', () => {
+      expect(createUser().isEmailVerified()).toBe(false);
+    });
+
+    it('should return true once the email is verified', () => {
+      expect(createUser({ emailVerifiedAt: new Date() }).isEmailVerified()).toBe(true);
+    });
+  });
+
+  describe('isPasswordExpired', () => {
+    const now = new Date('2026-10-18T12:00:00Z');
+
+    it('should never expire when expiry is disabled', () => {
+      const user = createUser({ passwordChangedAt: new Date('2020-01-01T00:00:00Z') });
+      expect(user.isPasswordExpired(0, now)).toBe(false);
+    });
+
+    it('should not expire without a password change time', () => {
+      expect(createUser().isPasswordExpired(90, now)).toBe(false);
+    });
+
+    it('should expire once the password is older than the expiry days', () => {
+      expect(createUser({ passwordChangedAt: new Date('2026-07-21T12:00:01Z') }).isPasswordExpired(90, now)).toBe(false);
+      expect(createUser({ passwordChangedAt: new Date('2026-07-20T12:00:00Z') }).isPasswordExpired(90, now)).toBe(true);
+    });
+
+    it('should restart the expiry period when the password is updated', () => {
+      const user = createUser({ passwordChangedAt: new Date('2020-01-01T00:00:00Z') });
+      user.updatePassword(new Password('newHashedPassword', true));
+      expect(user.isPasswordExpired(90)).toBe(false);
+    });
+  });
+
   describe('isSuperAdminUser', () => {
     it('should return true for super admin', () => {
       const user = createUser({ isSuperAdmin: true });
@@ -0,0 +1,40 @@
+import { WebAuthnCredentialEntity } from '../webauthn-credential.entity';
+
+describe('WebAuthnCredentialEntity', () => {
+  const createCredential = (signCount: number) => {
+    return new WebAuthnCredentialEntity(
+      'credential-1',
+      'user-1',
+      'Y3JlZGVudGlhbC1pZA',
+      new Uint8Array([1, 2, 3]),
+      signCount,
+      ['internal'],
+      'multiDevice',
+      true,
+      null,
+      'Passkey',
+      null,
+      new Date('2026-10-18T12:00:00Z')
+    );
+  };
+
+  describe('isSignCountValid', () => {
+    it('should accept authenticators that do not implement a counter', () => {
+      expect(createCredential(0).isSignCountValid(0)).toBe(true);
+    });
+
+    it('should accept an increasing counter', () => {
+      expect(createCredential(0).isSignCountValid(1)).toBe(true);
+      expect(createCredential(41).isSignCountValid(42)).toBe(true);
+    });
+
+    it('should reject a counter that did not increase', () => {
+      expect(createCredential(42).isSignCountValid(42)).toBe(false);
+    });
+
+    it('should reject a counter that went backwards', () => {
+      expect(createCredential(42).isSignCountValid(7)).toBe(false);
+      expect(createCredential(42).isSignCountValid(0)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { API_KEY_USAGE_RECORD_INTERVAL_MS } from '../constants/api-keys';
+
+/**
+ * API key entity
+ * A long-lived credential of a tenant carrying a subset of its permission names
+ */
+export class ApiKeyEntity {
+  constructor(
+    public readonly id: string,
+    public readonly tenantId: string,
+    public readonly name: string,
+    public readonly prefix: string,
+    public readonly keyHash: string,
+    public readonly scopes: string[],
+    public readonly expiresAt: Date | null,
+    public readonly lastUsedAt: Date | null,
+    public readonly revokedAt: Date | null,
+    public readonly createdAt: Date
+  ) {}
+
+  isRevoked(): boolean {
+    return this.revokedAt !== null;
+  }
+
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt !== null && this.expiresAt.getTime() <= now.getTime();
+  }
+
+  isActive(now: Date = new Date()): boolean {
+    return !this.isRevoked() && !this.isExpired(now);
+  }
+
+  shouldRecordUsage(now: Date = new Date()): boolean {
+    return this.lastUsedAt === null || now.getTime() - this.lastUsedAt.getTime() >= API_KEY_USAGE_RECORD_INTERVAL_MS;
+  }
+}
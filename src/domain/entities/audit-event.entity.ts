@@ -0,0 +1,64 @@
+import { AUDIT_REDACTED_FIELDS, AUDIT_REDACTED_VALUE, AuditOutcome } from '../constants/audit';
+import { AuditActorType } from '../../shared/types';
+
+export interface AuditChanges {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+const isRedacted = (field: string): boolean =>
+  AUDIT_REDACTED_FIELDS.some((name) => field.toLowerCase().includes(name));
+
+const normalize = (value: unknown): unknown => (value instanceof Date ? value.toISOString() : value);
+
+/**
+ * Audit event entity
+ * An action taken in a tenant (or on the platform), by whom, from where and whether it succeeded
+ */
+export class AuditEventEntity {
+  constructor(
+    public readonly id: string,
+    public readonly tenantId: string | null,
+    public readonly actorId: string | null,
+    public readonly actorType: AuditActorType,
+    public readonly action: string,
+    public readonly targetType: string | null,
+    public readonly targetId: string | null,
+    public readonly changes: AuditChanges | null,
+    public readonly ipAddress: string | null,
+    public readonly userAgent: string | null,
+    public readonly outcome: AuditOutcome,
+    public readonly reason: string | null,
+    public readonly metadata: Record<string, unknown> | null,
+    public readonly createdAt: Date
+  ) {}
+
+  /**
+   * Fields of a resource that differ between two snapshots
+   * Values are compared as JSON; values of secret fields are replaced so only the fact they changed is kept
+   * @returns null if nothing changed
+   */
+  static diff(before: object | null, after: object | null): AuditChanges | null {
+    const previous = (before ?? {}) as Record<string, unknown>;
+    const next = (after ?? {}) as Record<string, unknown>;
+    const changes: AuditChanges = { before: {}, after: {} };
+
+    for (const field of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+      const oldValue = normalize(previous[field]);
+      const newValue = normalize(next[field]);
+      if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+        continue;
+      }
+
+      if (field in previous) {
+        changes.before[field] = isRedacted(field) ? AUDIT_REDACTED_VALUE : oldValue ?? null;
+      }
+      if (field in next) {
+        changes.after[field] = isRedacted(field) ? AUDIT_REDACTED_VALUE : newValue ?? null;
+      }
+    }
+
+    const changed = Object.keys(changes.before).length > 0 || Object.keys(changes.after).length > 0;
+    return changed ? changes : null;
+  }
+}
@@ -0,0 +1,62 @@
+import { EmailTemplateType } from '../constants/email-templates';
+
+export type EmailTemplateVariables = Record<string, string | number | null | undefined>;
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string | null;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Email template entity
+ * Subject and bodies use {{variable}} placeholders; unknown variables render as empty strings
+ */
+export class EmailTemplateEntity {
+  constructor(
+    public readonly tenantId: string | null, // Null for the built-in defaults
+    public readonly type: EmailTemplateType,
+    public readonly subject: string,
+    public readonly textBody: string,
+    public readonly htmlBody: string | null,
+    public readonly updatedAt: Date | null
+  ) {}
+
+  isDefault(): boolean {
+    return this.tenantId === null;
+  }
+
+  render(variables: EmailTemplateVariables): RenderedEmail {
+    return {
+      // Header values must stay on one line
+      subject: EmailTemplateEntity.fill(this.subject, variables, (value) => value.replace(/[\r\n]+/g, ' ')),
+      text: EmailTemplateEntity.fill(this.textBody, variables, (value) => value),
+      html: this.htmlBody
+        ? EmailTemplateEntity.fill(this.htmlBody, variables, (value) =>
+            value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+          )
+        : null,
+    };
+  }
+
+  private static fill(
+    template: string,
+    variables: EmailTemplateVariables,
+    encode: (value: string) => string
+  ): string {
+    return template.replace(PLACEHOLDER_PATTERN, (_, name: string) => {
+      const value = variables[name];
+      return value === null || value === undefined ? '' : encode(String(value));
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { INVITATION_STATUSES, InvitationStatus } from '../constants/invitations';
+
+/**
+ * Invitation entity
+ * An admin's offer for an email address to join a tenant with preselected roles
+ */
+export class InvitationEntity {
+  constructor(
+    public readonly id: string,
+    public readonly tenantId: string,
+    public readonly email: string,
+    public readonly roleIds: string[],
+    public readonly expiresAt: Date,
+    public readonly acceptedAt: Date | null,
+    public readonly acceptedUserId: string | null,
+    public readonly revokedAt: Date | null,
+    public readonly invitedBy: string | null,
+    public readonly lastSentAt: Date,
+    public readonly createdAt: Date
+  ) {}
+
+  getStatus(now: Date = new Date()): InvitationStatus {
+    if (this.acceptedAt) {
+      return INVITATION_STATUSES.ACCEPTED;
+    }
+    if (this.revokedAt) {
+      return INVITATION_STATUSES.REVOKED;
+    }
+    if (this.expiresAt.getTime() <= now.getTime()) {
+      return INVITATION_STATUSES.EXPIRED;
+    }
+    return INVITATION_STATUSES.PENDING;
+  }
+
+  isPending(now: Date = new Date()): boolean {
+    return this.getStatus(now) === INVITATION_STATUSES.PENDING;
+  }
+
+  /**
+   * Expired invitations can be sent again with a new link; accepted and revoked ones cannot
+   */
+  canResend(now: Date = new Date()): boolean {
+    const status = this.getStatus(now);
+    return status === INVITATION_STATUSES.PENDING || status === INVITATION_STATUSES.EXPIRED;
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Authorization code issued at the end of the authorization step
+ * Single-use and short-lived; bound to the client, redirect URI and PKCE challenge
+ */
+export class OAuthAuthorizationCodeEntity {
+  constructor(
+    public readonly id: string,
+    public readonly clientId: string,
+    public readonly userId: string,
+    public readonly redirectUri: string,
+    public readonly scope: string,
+    public readonly codeChallenge: string,
+    public readonly codeChallengeMethod: string,
+    public readonly nonce: string | null,
+    public readonly expiresAt: Date,
+    public readonly createdAt: Date
+  ) {}
+
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime();
+  }
+
+  getScopes(): string[] {
+    return this.scope.split(' ').filter(Boolean);
+  }
+}
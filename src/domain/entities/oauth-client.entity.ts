@@ -0,0 +1,43 @@
+/**
+ * OAuth client entity
+ * An application of a tenant that signs users in through this service
+ */
+export class OAuthClientEntity {
+  constructor(
+    public readonly id: string,
+    public readonly tenantId: string,
+    public readonly clientId: string,
+    public readonly clientSecretHash: string | null,
+    public readonly name: string,
+    public readonly redirectUris: string[],
+    public readonly allowedScopes: string[],
+    public readonly grantTypes: string[],
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * Confidential clients authenticate with a secret; public clients rely on PKCE alone
+   */
+  isConfidential(): boolean {
+    return this.clientSecretHash !== null;
+  }
+
+  /**
+   * Redirect URIs must match a registered one exactly (no prefix or wildcard matching)
+   */
+  isRedirectUriAllowed(redirectUri: string): boolean {
+    return this.redirectUris.includes(redirectUri);
+  }
+
+  supportsGrant(grantType: string): boolean {
+    return this.grantTypes.includes(grantType);
+  }
+
+  /**
+   * Keep only the requested scopes the client is allowed to use
+   */
+  filterScopes(requested: string[]): string[] {
+    return requested.filter((scope) => this.allowedScopes.includes(scope));
+  }
+}
@@ -0,0 +1,35 @@
+import { SCIM_TOKEN_USAGE_RECORD_INTERVAL_MS } from '../constants/scim';
+
+/**
+ * SCIM token entity
+ * Bearer token a tenant's identity provider uses to provision users and groups
+ */
+export class ScimTokenEntity {
+  constructor(
+    public readonly id: string,
+    public readonly tenantId: string,
+    public readonly name: string,
+    public readonly prefix: string,
+    public readonly tokenHash: string,
+    public readonly expiresAt: Date | null,
+    public readonly lastUsedAt: Date | null,
+    public readonly revokedAt: Date | null,
+    public readonly createdAt: Date
+  ) {}
+
+  isRevoked(): boolean {
+    return this.revokedAt !== null;
+  }
+
+  isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt !== null && this.expiresAt.getTime() <= now.getTime();
+  }
+
+  isActive(now: Date = new Date()): boolean {
+    return !this.isRevoked() && !this.isExpired(now);
+  }
+
+  shouldRecordUsage(now: Date = new Date()): boolean {
+    return this.lastUsedAt === null || now.getTime() - this.lastUsedAt.getTime() >= SCIM_TOKEN_USAGE_RECORD_INTERVAL_MS;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Session entity
+ * A session is one login and all the refresh tokens rotated from it (a token family)
+ */
+export class SessionEntity {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly userAgent: string | null,
+    public readonly ipAddress: string | null,
+    public readonly createdAt: Date,
+    public readonly lastUsedAt: Date
+  ) {}
+}
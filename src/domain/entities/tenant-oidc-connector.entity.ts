@@ -0,0 +1,54 @@
+import { OidcClaimMapping } from '../constants/sso';
+import { SsoUserProfile } from './tenant-saml-config.entity';
+
+/**
+ * Tenant OpenID Connect connector entity
+ * This service is the relying party; the provider is found through the issuer's discovery document
+ */
+export class TenantOidcConnectorEntity {
+  constructor(
+    public readonly id: string,
+    public readonly tenantId: string,
+    public readonly name: string,
+    public readonly issuer: string,
+    public readonly clientId: string,
+    public readonly clientSecret: string,
+    public readonly scopes: string[],
+    public readonly claimMapping: OidcClaimMapping,
+    public readonly enabled: boolean,
+    public readonly jitProvisioning: boolean,
+    public readonly defaultRoleId: string | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * Build the user profile from the ID token (and userinfo) claims
+   * The subject is always the "sub" claim, which is stable at the provider, unlike the email
+   * @param claims - Verified claims of the login
+   */
+  mapProfile(claims: Record<string, unknown>): SsoUserProfile {
+    const read = (name: string): string | null => {
+      const value = claims[name];
+      return typeof value === 'string' && value.trim() ? value.trim() : null;
+    };
+
+    const email = read(this.claimMapping.email);
+
+    return {
+      subject: String(claims.sub),
+      email: email ? email.toLowerCase() : null,
+      firstName: read(this.claimMapping.firstName),
+      lastName: read(this.claimMapping.lastName),
+    };
+  }
+
+  /**
+   * Whether the provider vouches for the email address
+   * Some providers send the claim as a string
+   */
+  isEmailVerified(claims: Record<string, unknown>): boolean {
+    const value = claims[this.claimMapping.emailVerified];
+    return value === true || value === 'true';
+  }
+}
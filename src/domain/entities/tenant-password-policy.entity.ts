@@ -0,0 +1,26 @@
+import {
+  PasswordPolicy,
+  PasswordPolicyOverrides,
+  passwordPolicy,
+  resolvePasswordPolicy,
+} from '../../config/password-policy.config';
+
+/**
+ * Tenant password policy entity
+ * Holds the settings a tenant overrides; everything else follows the global policy
+ */
+export class TenantPasswordPolicyEntity {
+  constructor(
+    public readonly tenantId: string,
+    public readonly overrides: PasswordPolicyOverrides,
+    public readonly updatedAt: Date | null
+  ) {}
+
+  /**
+   * Policy enforced for the tenant's users
+   * @param base - Global policy
+   */
+  resolve(base: PasswordPolicy = passwordPolicy): PasswordPolicy {
+    return resolvePasswordPolicy(this.overrides, base);
+  }
+}
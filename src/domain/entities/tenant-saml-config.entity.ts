@@ -0,0 +1,61 @@
+import { SamlAttributeMapping } from '../constants/sso';
+
+/**
+ * Profile of a user as asserted by an identity provider, after attribute mapping
+ */
+export interface SsoUserProfile {
+  subject: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+/**
+ * Tenant SAML configuration entity
+ * The tenant is the service provider's side of the trust; the IdP settings come from its metadata
+ */
+export class TenantSamlConfigEntity {
+  constructor(
+    public readonly id: string,
+    public readonly tenantId: string,
+    public readonly enabled: boolean,
+    public readonly idpEntityId: string,
+    public readonly idpSsoUrl: string,
+    public readonly idpCertificates: string[],
+    public readonly idpMetadataXml: string | null,
+    public readonly attributeMapping: SamlAttributeMapping,
+    public readonly jitProvisioning: boolean,
+    public readonly defaultRoleId: string | null,
+    public readonly disablePasswordLogin: boolean,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * Password login is only turned off while SSO is actually available
+   */
+  isPasswordLoginDisabled(): boolean {
+    return this.enabled && this.disablePasswordLogin;
+  }
+
+  /**
+   * Build the user profile from the assertion's attributes
+   * Falls back to the NameID for the email when it is an email address
+   * @param nameId - Subject NameID of the assertion
+   * @param attributes - Attribute statements of the assertion (multi-valued attributes use the first value)
+   */
+  mapProfile(nameId: string, attributes: Record<string, unknown>): SsoUserProfile {
+    const read = (name: string): string | null => {
+      const value = Array.isArray(attributes[name]) ? (attributes[name] as unknown[])[0] : attributes[name];
+      return typeof value === 'string' && value.trim() ? value.trim() : null;
+    };
+
+    const email = read(this.attributeMapping.email) ?? (nameId.includes('@') ? nameId : null);
+
+    return {
+      subject: nameId,
+      email: email ? email.toLowerCase() : null,
+      firstName: read(this.attributeMapping.firstName),
+      lastName: read(this.attributeMapping.lastName),
+    };
+  }
+}
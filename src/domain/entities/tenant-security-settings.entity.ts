@@ -0,0 +1,42 @@
+import { MFA_POLICIES, MfaPolicy } from '../constants/mfa-policies';
+import { ROLE_NAMES } from '../constants/role-names';
+import { DEFAULT_LOCKOUT_POLICY, LockoutPolicy } from '../constants/account-lockout';
+
+/**
+ * Tenant security settings entity
+ * Holds the security policies a tenant enforces on its users
+ */
+export class TenantSecuritySettingsEntity {
+  constructor(
+    public readonly tenantId: string,
+    public readonly mfaPolicy: MfaPolicy,
+    public readonly requireEmailVerification: boolean,
+    public readonly lockoutPolicy: LockoutPolicy,
+    public readonly magicLinkEnabled: boolean,
+    public readonly updatedAt: Date | null
+  ) {}
+
+  /**
+   * Settings applied to tenants that never saved their own
+   * @param tenantId - The tenant ID
+   */
+  static defaults(tenantId: string): TenantSecuritySettingsEntity {
+    return new TenantSecuritySettingsEntity(tenantId, MFA_POLICIES.OFF, false, { ...DEFAULT_LOCKOUT_POLICY }, false, null);
+  }
+
+  /**
+   * Check if the MFA policy applies to a user with the given roles
+   * @param roleNames - Names of the roles the user has
+   * @returns true if the user must use MFA
+   */
+  requiresMfa(roleNames: string[]): boolean {
+    switch (this.mfaPolicy) {
+      case MFA_POLICIES.ALL:
+        return true;
+      case MFA_POLICIES.ADMINS:
+        return roleNames.includes(ROLE_NAMES.ADMIN);
+      default:
+        return false;
+    }
+  }
+}
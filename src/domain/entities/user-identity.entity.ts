@@ -0,0 +1,17 @@
+import { SsoProtocol } from '../constants/sso';
+
+/**
+ * User identity entity (the account at an external identity provider linked to a user)
+ */
+export class UserIdentityEntity {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly protocol: SsoProtocol,
+    public readonly connectionId: string,
+    public readonly subject: string,
+    public readonly email: string | null,
+    public readonly createdAt: Date,
+    public readonly lastLoginAt: Date | null
+  ) {}
+}
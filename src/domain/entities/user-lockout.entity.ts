@@ -0,0 +1,51 @@
+import { LOCKOUT_FAILURE_WINDOW_SECONDS, LockoutPolicy } from '../constants/account-lockout';
+
+/**
+ * User lockout entity tracking failed logins of an account
+ * failedAttempts counts failures since the last successful login or lock, and starts again
+ * after a quiet window without failures; lockCount the consecutive locks used for the exponential backoff
+ */
+export class UserLockoutEntity {
+  constructor(
+    public readonly userId: string,
+    public readonly failedAttempts: number,
+    public readonly lockCount: number,
+    public readonly lockedUntil: Date | null,
+    public readonly lastFailedAt: Date | null
+  ) {}
+
+  /**
+   * Check if the account is currently locked
+   * @param now - Reference time
+   */
+  isLocked(now: Date = new Date()): boolean {
+    return this.lockedUntil !== null && this.lockedUntil > now;
+  }
+
+  /**
+   * Check if the failed attempts reached the policy threshold
+   * @param policy - Lockout policy of the user's tenant
+   */
+  shouldLock(policy: LockoutPolicy): boolean {
+    return policy.threshold > 0 && this.failedAttempts >= policy.threshold;
+  }
+
+  /**
+   * Earliest failure time that still counts: a failure after a longer quiet period starts a new count
+   * @param at - Time of the new failure
+   */
+  static failureWindowStart(at: Date): Date {
+    return new Date(at.getTime() - LOCKOUT_FAILURE_WINDOW_SECONDS * 1000);
+  }
+
+  /**
+   * Duration of the next lock: the policy duration doubled for each previous consecutive lock,
+   * capped at the policy maximum
+   * @param policy - Lockout policy of the user's tenant
+   * @returns Lock duration in seconds
+   */
+  nextLockDurationSeconds(policy: LockoutPolicy): number {
+    const exponent = Math.min(this.lockCount, 30);
+    return Math.min(policy.durationSeconds * 2 ** exponent, policy.maxDurationSeconds);
+  }
+}
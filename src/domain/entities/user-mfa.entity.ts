@@ -0,0 +1,33 @@
+/**
+ * User MFA entity holding a user's TOTP enrollment
+ * A pending enrollment has a secret but no enabledAt timestamp
+ */
+export class UserMfaEntity {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly secret: string,
+    public readonly enabledAt: Date | null,
+    public readonly lastUsedStep: number | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * Check if the enrollment has been confirmed with a valid code
+   * @returns true if MFA is active for the user
+   */
+  isEnabled(): boolean {
+    return this.enabledAt !== null;
+  }
+
+  /**
+   * Check if a TOTP time step may be accepted
+   * Rejects replay of a code that was already used in the same or an earlier step
+   * @param step - The time step the submitted code matched
+   * @returns true if the step has not been used yet
+   */
+  canUseStep(step: number): boolean {
+    return this.lastUsedStep === null || step > this.lastUsedStep;
+  }
+}
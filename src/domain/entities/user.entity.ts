@@ -15,11 +15,22 @@ export class UserEntity {
     public readonly tenantId: string | null,
     public readonly isSuperAdmin: boolean,
     public readonly createdAt: Date,
-    public readonly updatedAt: Date
+    public readonly updatedAt: Date,
+    public readonly emailVerifiedAt: Date | null = null,
+    public passwordChangedAt: Date | null = null
   ) {}
 
   updatePassword(newPassword: Password): void {
     this.password = newPassword;
+    this.passwordChangedAt = new Date();
+  }
+
+  /**
+   * Store a new hash of the same password (e.g. after a hashing upgrade)
+   * Unlike updatePassword this does not restart the password's expiry
+   */
+  replacePasswordHash(hashedPassword: Password): void {
+    this.password = hashedPassword;
   }
 
   getPassword(): Password {
@@ -30,6 +41,23 @@ export class UserEntity {
     return `${this.firstName} ${this.lastName}`;
   }
 
+  isEmailVerified(): boolean {
+    return this.emailVerifiedAt !== null;
+  }
+
+  /**
+   * Check if the password is older than the allowed age
+   * @param expiryDays - Maximum password age in days (0 = never expires)
+   * @param now - Reference time
+   * @returns true if the user must change the password before logging in
+   */
+  isPasswordExpired(expiryDays: number, now: Date = new Date()): boolean {
+    if (expiryDays <= 0 || !this.passwordChangedAt) {
+      return false;
+    }
+    return now.getTime() - this.passwordChangedAt.getTime() >= expiryDays * 24 * 60 * 60 * 1000;
+  }
+
   isSuperAdminUser(): boolean {
     return this.isSuperAdmin;
   }
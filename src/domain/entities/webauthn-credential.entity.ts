@@ -0,0 +1,32 @@
+/**
+ * WebAuthn credential entity (a passkey or security key registered by a user)
+ */
+export class WebAuthnCredentialEntity {
+  constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly credentialId: string,
+    public readonly publicKey: Uint8Array,
+    public readonly signCount: number,
+    public readonly transports: string[],
+    public readonly deviceType: string,
+    public readonly backedUp: boolean,
+    public readonly aaguid: string | null,
+    public readonly name: string,
+    public readonly lastUsedAt: Date | null,
+    public readonly createdAt: Date
+  ) {}
+
+  /**
+   * Check the signature counter reported by an assertion
+   * Authenticators without a counter always report 0; otherwise the counter must increase,
+   * a lower or equal value means the credential may have been cloned
+   * @param newSignCount - Counter from the assertion
+   */
+  isSignCountValid(newSignCount: number): boolean {
+    if (this.signCount === 0 && newSignCount === 0) {
+      return true;
+    }
+    return newSignCount > this.signCount;
+  }
+}
@@ -0,0 +1,20 @@
+import { DomainEvent } from './domain-event';
+
+/**
+ * Event emitted when an account is locked after too many failed logins
+ */
+export class AccountLockedEvent extends DomainEvent {
+  constructor(
+    public readonly userId: string,
+    public readonly tenantId: string | null,
+    public readonly lockedUntil: Date,
+    public readonly lockCount: number,
+    eventId?: string
+  ) {
+    super(eventId);
+  }
+
+  getEventName(): string {
+    return 'AccountLocked';
+  }
+}
@@ -0,0 +1,19 @@
+import { DomainEvent } from './domain-event';
+
+/**
+ * Event emitted when an admin lifts the lockout of an account
+ */
+export class AccountUnlockedEvent extends DomainEvent {
+  constructor(
+    public readonly userId: string,
+    public readonly tenantId: string | null,
+    public readonly unlockedBy: string,
+    eventId?: string
+  ) {
+    super(eventId);
+  }
+
+  getEventName(): string {
+    return 'AccountUnlocked';
+  }
+}
@@ -0,0 +1,19 @@
+import { DomainEvent } from './domain-event';
+
+/**
+ * Event emitted when a user signs in with an MFA recovery code
+ */
+export class MfaRecoveryCodeUsedEvent extends DomainEvent {
+  constructor(
+    public readonly userId: string,
+    public readonly tenantId: string | null,
+    public readonly remainingCodes: number,
+    eventId?: string
+  ) {
+    super(eventId);
+  }
+
+  getEventName(): string {
+    return 'MfaRecoveryCodeUsed';
+  }
+}
@@ -0,0 +1,19 @@
+import { DomainEvent } from './domain-event';
+
+/**
+ * Event emitted when a logged-in user changes their own password
+ */
+export class PasswordChangedEvent extends DomainEvent {
+  constructor(
+    public readonly userId: string,
+    public readonly tenantId: string | null,
+    public readonly revokedSessions: number,
+    eventId?: string
+  ) {
+    super(eventId);
+  }
+
+  getEventName(): string {
+    return 'PasswordChanged';
+  }
+}
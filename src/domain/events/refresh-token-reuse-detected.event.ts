@@ -0,0 +1,20 @@
+import { DomainEvent } from './domain-event';
+
+/**
+ * Event emitted when an already rotated refresh token is presented again.
+ * The whole token family has been revoked by the time this is published.
+ */
+export class RefreshTokenReuseDetectedEvent extends DomainEvent {
+  constructor(
+    public readonly userId: string,
+    public readonly tenantId: string | null,
+    public readonly familyId: string,
+    eventId?: string
+  ) {
+    super(eventId);
+  }
+
+  getEventName(): string {
+    return 'RefreshTokenReuseDetected';
+  }
+}
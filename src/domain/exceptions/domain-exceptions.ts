@@ -1,12 +1,18 @@
+import { ACCOUNT_LOCKED_ERROR_CODE } from '../constants/account-lockout';
+import { ScimErrorType } from '../constants/scim';
+
 export class DomainException extends Error {
   public readonly statusCode: number;
   public readonly errors?: string[];
+  // Machine-readable code for errors clients must tell apart from others with the same status
+  public readonly code?: string;
 
-  constructor(message: string, statusCode: number = 500, errors?: string[]) {
+  constructor(message: string, statusCode: number = 500, errors?: string[], code?: string) {
     super(message);
     this.name = this.constructor.name;
     this.statusCode = statusCode;
     this.errors = errors;
+    this.code = code;
     Error.captureStackTrace(this, this.constructor);
   }
 }
@@ -54,8 +60,67 @@ export class BadRequestException extends DomainException {
   }
 }
 
+export class TooManyRequestsException extends DomainException {
+  constructor(message: string = 'Too many requests') {
+    super(message, 429);
+  }
+}
+
+/**
+ * Login refused because the account is temporarily locked after repeated failed attempts
+ */
+export class AccountLockedException extends DomainException {
+  constructor(public readonly lockedUntil: Date) {
+    super('Account is temporarily locked due to too many failed login attempts', 423, undefined, ACCOUNT_LOCKED_ERROR_CODE);
+  }
+
+  /**
+   * Seconds until the lock expires, for the Retry-After header
+   */
+  getRetryAfterSeconds(now: Date = new Date()): number {
+    return Math.max(1, Math.ceil((this.lockedUntil.getTime() - now.getTime()) / 1000));
+  }
+}
+
+/**
+ * A registered passkey failed verification; names its owner so the attempt can be attributed
+ */
+export class PasskeyRejectedException extends UnauthorizedException {
+  constructor(public readonly userId: string) {
+    super('Passkey could not be verified');
+  }
+}
+
 export class InternalServerException extends DomainException {
   constructor(message: string = 'Internal Server Error') {
     super(message, 500);
   }
 }
+
+/**
+ * Error of the OAuth 2.0 / OpenID Connect endpoints
+ * Rendered in the RFC 6749 format ({ error, error_description }) instead of the API envelope
+ */
+export class OAuthException extends DomainException {
+  constructor(
+    public readonly error: string,
+    description: string,
+    statusCode: number = 400
+  ) {
+    super(description, statusCode);
+  }
+}
+
+/**
+ * Error of the SCIM provisioning endpoints
+ * Rendered as a SCIM error response ({ schemas, status, scimType, detail }) instead of the API envelope
+ */
+export class ScimException extends DomainException {
+  constructor(
+    public readonly scimType: ScimErrorType | null,
+    detail: string,
+    statusCode: number = 400
+  ) {
+    super(detail, statusCode);
+  }
+}
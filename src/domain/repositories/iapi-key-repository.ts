@@ -0,0 +1,23 @@
+import { ApiKeyEntity } from '../entities/api-key.entity';
+
+export interface CreateApiKeyData {
+  tenantId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  scopes: string[];
+  expiresAt?: Date;
+  createdBy?: string;
+}
+
+export interface IApiKeyRepository {
+  create(data: CreateApiKeyData): Promise<ApiKeyEntity>;
+  /**
+   * Look up a key by the hash of its plaintext (checked on every API key request)
+   */
+  findByHash(keyHash: string): Promise<ApiKeyEntity | null>;
+  findById(id: string, tenantId: string): Promise<ApiKeyEntity | null>;
+  findByTenantId(tenantId: string): Promise<ApiKeyEntity[]>;
+  revoke(apiKey: ApiKeyEntity): Promise<void>;
+  recordUsage(apiKey: ApiKeyEntity, usedAt: Date): Promise<void>;
+}
@@ -0,0 +1,36 @@
+import { AuditEventEntity, AuditChanges } from '../entities/audit-event.entity';
+import { AuditOutcome } from '../constants/audit';
+import { AuditActorType } from '../../shared/types';
+import { PaginationParams, PaginatedResult } from '../../shared/types/pagination';
+
+export interface CreateAuditEventData {
+  tenantId: string | null;
+  actorId: string | null;
+  actorType: AuditActorType;
+  action: string;
+  targetType?: string;
+  targetId?: string;
+  changes?: AuditChanges | null;
+  ipAddress?: string;
+  userAgent?: string;
+  outcome: AuditOutcome;
+  reason?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AuditEventFilter {
+  tenantId?: string; // Absent for the cross-tenant view
+  actorId?: string;
+  action?: string; // Exact action, or a prefix ending with "." (e.g. "user.")
+  outcome?: AuditOutcome;
+  from?: Date;
+  to?: Date;
+}
+
+export interface IAuditEventRepository {
+  create(data: CreateAuditEventData): Promise<AuditEventEntity>;
+  /**
+   * Events matching the filter, newest first
+   */
+  findAll(filter: AuditEventFilter, pagination: PaginationParams): Promise<PaginatedResult<AuditEventEntity>>;
+}
@@ -0,0 +1,26 @@
+import { MailMessage } from '../services/imail-transport';
+
+export interface OutboxEmail {
+  id: string;
+  message: MailMessage;
+  attempts: number;
+}
+
+/**
+ * Retry queue for emails whose delivery failed
+ */
+export interface IEmailOutboxRepository {
+  enqueue(message: MailMessage, error: string, nextAttemptAt: Date): Promise<void>;
+  /**
+   * Pending emails whose next attempt is due, oldest first
+   */
+  findDue(now: Date, limit: number): Promise<OutboxEmail[]>;
+  /**
+   * Push the next attempt to leaseUntil so other instances skip the email while it is being sent
+   * @returns false if another instance claimed it first
+   */
+  claim(id: string, now: Date, leaseUntil: Date): Promise<boolean>;
+  markSent(id: string): Promise<void>;
+  reschedule(id: string, attempts: number, nextAttemptAt: Date, error: string): Promise<void>;
+  markFailed(id: string, attempts: number, error: string): Promise<void>;
+}
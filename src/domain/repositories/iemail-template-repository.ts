@@ -0,0 +1,25 @@
+import { EmailTemplateEntity } from '../entities/email-template.entity';
+import { EmailTemplateType } from '../constants/email-templates';
+
+export interface SaveEmailTemplateData {
+  subject: string;
+  textBody: string;
+  htmlBody: string | null;
+}
+
+export interface IEmailTemplateRepository {
+  /**
+   * @returns The tenant's override, or the built-in template if there is none (or no tenant)
+   */
+  findEffective(tenantId: string | null, type: EmailTemplateType): Promise<EmailTemplateEntity>;
+  save(
+    tenantId: string,
+    type: EmailTemplateType,
+    data: SaveEmailTemplateData,
+    updatedBy?: string
+  ): Promise<EmailTemplateEntity>;
+  /**
+   * Remove the tenant's override so the built-in template applies again
+   */
+  delete(tenantId: string, type: EmailTemplateType): Promise<void>;
+}
@@ -0,0 +1,29 @@
+import { InvitationEntity } from '../entities/invitation.entity';
+
+export interface CreateInvitationData {
+  tenantId: string;
+  email: string;
+  roleIds: string[];
+  tokenHash: string;
+  expiresAt: Date;
+  invitedBy?: string;
+}
+
+export interface IInvitationRepository {
+  create(data: CreateInvitationData): Promise<InvitationEntity>;
+  findById(id: string, tenantId: string): Promise<InvitationEntity | null>;
+  /**
+   * Look up an invitation by the hash of its accept token
+   */
+  findByTokenHash(tokenHash: string): Promise<InvitationEntity | null>;
+  findByTenantId(tenantId: string): Promise<InvitationEntity[]>;
+  /**
+   * Invitations for the address that are neither accepted, revoked nor expired
+   */
+  findPendingByEmail(tenantId: string, email: string, now: Date): Promise<InvitationEntity[]>;
+  /**
+   * Replace the accept token (the previous link stops working) and extend the expiry
+   */
+  renew(id: string, tokenHash: string, expiresAt: Date): Promise<InvitationEntity>;
+  revoke(id: string): Promise<void>;
+}
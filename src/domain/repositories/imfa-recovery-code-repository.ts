@@ -0,0 +1,13 @@
+export interface IMfaRecoveryCodeRepository {
+  /**
+   * Replace all recovery codes of a user with a new set of hashes
+   */
+  replaceAll(userId: string, codeHashes: string[]): Promise<void>;
+  /**
+   * Mark an unused code as used
+   * @returns true if the code existed and had not been used yet
+   */
+  consume(userId: string, codeHash: string): Promise<boolean>;
+  countUnused(userId: string): Promise<number>;
+  deleteByUserId(userId: string): Promise<void>;
+}
@@ -0,0 +1,23 @@
+import { OAuthAuthorizationCodeEntity } from '../entities/oauth-authorization-code.entity';
+
+export interface CreateAuthorizationCodeData {
+  codeHash: string;
+  clientId: string;
+  userId: string;
+  redirectUri: string;
+  scope: string;
+  codeChallenge: string;
+  codeChallengeMethod: string;
+  nonce?: string;
+  expiresAt: Date;
+}
+
+export interface IOAuthAuthorizationCodeRepository {
+  create(data: CreateAuthorizationCodeData): Promise<void>;
+  /**
+   * Atomically mark the code as used and return it
+   * @returns null if the code does not exist or was already used
+   */
+  consume(codeHash: string): Promise<OAuthAuthorizationCodeEntity | null>;
+  deleteExpired(): Promise<void>;
+}
@@ -0,0 +1,29 @@
+import { OAuthClientEntity } from '../entities/oauth-client.entity';
+import { RoleWithPermissions } from '../../shared/types/role-with-permissions';
+
+export interface CreateOAuthClientData {
+  tenantId: string;
+  clientId: string;
+  clientSecretHash: string | null;
+  name: string;
+  redirectUris: string[];
+  allowedScopes: string[];
+  grantTypes: string[];
+  createdBy?: string;
+}
+
+export interface IOAuthClientRepository {
+  create(data: CreateOAuthClientData): Promise<OAuthClientEntity>;
+  findByClientId(clientId: string): Promise<OAuthClientEntity | null>;
+  findById(id: string, tenantId?: string | null): Promise<OAuthClientEntity | null>;
+  findByTenantId(tenantId: string): Promise<OAuthClientEntity[]>;
+  delete(id: string): Promise<void>;
+  /**
+   * Roles of a service client (client_credentials grant)
+   */
+  getRoles(id: string): Promise<RoleWithPermissions[]>;
+  /**
+   * Replace the roles of a service client
+   */
+  setRoles(id: string, roleIds: string[]): Promise<void>;
+}
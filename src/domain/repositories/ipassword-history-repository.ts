@@ -0,0 +1,10 @@
+export interface IPasswordHistoryRepository {
+  /**
+   * Hashes of the user's previous passwords, most recent first
+   */
+  findRecentHashes(userId: string, limit: number): Promise<string[]>;
+  /**
+   * Store a replaced password and drop entries beyond the most recent `keep`
+   */
+  add(userId: string, passwordHash: string, keep: number): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import { ScimFilter } from '../value-objects/scim-filter';
+import { ScimPage } from './iscim-user-repository';
+
+/**
+ * Tenant role as seen by SCIM clients (a SCIM group)
+ */
+export interface ScimGroupRecord {
+  id: string;
+  tenantId: string;
+  externalId: string | null;
+  name: string;
+  /**
+   * Empty when the members were not requested
+   */
+  members: { id: string; email: string }[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IScimGroupRepository {
+  findById(id: string, tenantId: string, includeMembers?: boolean): Promise<ScimGroupRecord | null>;
+  /**
+   * @param startIndex - 1-based index of the first result
+   * @throws ScimException (invalidFilter) for attributes that cannot be filtered on
+   */
+  findAll(
+    tenantId: string,
+    filter: ScimFilter | null,
+    startIndex: number,
+    count: number,
+    includeMembers: boolean
+  ): Promise<ScimPage<ScimGroupRecord>>;
+  findByExternalId(externalId: string, tenantId: string): Promise<ScimGroupRecord | null>;
+  setExternalId(id: string, tenantId: string, externalId: string | null): Promise<void>;
+  /**
+   * IDs of the given users that are members of the tenant (unknown IDs are left out)
+   */
+  findTenantUserIds(userIds: string[], tenantId: string): Promise<string[]>;
+}
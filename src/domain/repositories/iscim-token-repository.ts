@@ -0,0 +1,23 @@
+import { ScimTokenEntity } from '../entities/scim-token.entity';
+
+export interface CreateScimTokenData {
+  tenantId: string;
+  name: string;
+  prefix: string;
+  tokenHash: string;
+  expiresAt?: Date;
+  createdBy?: string;
+}
+
+export interface IScimTokenRepository {
+  create(data: CreateScimTokenData): Promise<ScimTokenEntity>;
+  /**
+   * Look up a token by the hash of its plaintext (checked on every SCIM request)
+   */
+  findByHash(tokenHash: string): Promise<ScimTokenEntity | null>;
+  findById(id: string, tenantId: string): Promise<ScimTokenEntity | null>;
+  findByTenantId(tenantId: string): Promise<ScimTokenEntity[]>;
+  countActiveByTenantId(tenantId: string, now: Date): Promise<number>;
+  revoke(token: ScimTokenEntity): Promise<void>;
+  recordUsage(token: ScimTokenEntity, usedAt: Date): Promise<void>;
+}
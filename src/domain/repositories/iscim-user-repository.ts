@@ -0,0 +1,67 @@
+import { ScimFilter } from '../value-objects/scim-filter';
+import { UserEntity } from '../entities/user.entity';
+
+/**
+ * Profile fields exchanged with SCIM clients
+ */
+export interface ScimUserProfile {
+  companyName: string | null;
+  mobileNo: string | null;
+  phoneNo: string | null;
+  city: string | null;
+  address: string | null;
+}
+
+/**
+ * Tenant user as seen by SCIM clients, including deprovisioned users
+ */
+export interface ScimUserRecord {
+  id: string;
+  tenantId: string;
+  externalId: string | null;
+  email: string;
+  firstName: string;
+  lastName: string;
+  deletedAt: Date | null;
+  profile: ScimUserProfile;
+  groups: { id: string; name: string }[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Attributes a SCIM client writes; deletedAt deprovisions (or reactivates) the user
+ */
+export interface SaveScimUser {
+  externalId: string | null;
+  email: string;
+  firstName: string;
+  lastName: string;
+  deletedAt: Date | null;
+  profile: ScimUserProfile;
+}
+
+export interface ScimPage<T> {
+  resources: T[];
+  total: number;
+}
+
+export interface IScimUserRepository {
+  findById(id: string, tenantId: string): Promise<ScimUserRecord | null>;
+  /**
+   * @param startIndex - 1-based index of the first result
+   * @throws ScimException (invalidFilter) for attributes that cannot be filtered on
+   */
+  findAll(tenantId: string, filter: ScimFilter | null, startIndex: number, count: number): Promise<ScimPage<ScimUserRecord>>;
+  findByExternalId(externalId: string, tenantId: string): Promise<ScimUserRecord | null>;
+  /**
+   * The user with its password hash, deprovisioned or not (for the password history)
+   */
+  findAccount(id: string, tenantId: string): Promise<UserEntity | null>;
+  /**
+   * @param hashedPassword - Password hash of the new user
+   * @param emailVerifiedAt - The tenant's directory vouches for the address
+   */
+  create(tenantId: string, user: SaveScimUser, hashedPassword: string, emailVerifiedAt: Date): Promise<ScimUserRecord>;
+  update(id: string, tenantId: string, user: SaveScimUser, hashedPassword?: string): Promise<ScimUserRecord>;
+}
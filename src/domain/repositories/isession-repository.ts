@@ -0,0 +1,15 @@
+import { SessionEntity } from '../entities/session.entity';
+import { ClientContext } from '../../shared/types/client-context';
+
+/**
+ * Sessions are revoked through ITokenRepository.revokeFamily, which also removes the session
+ */
+export interface ISessionRepository {
+  create(userId: string, context?: ClientContext): Promise<SessionEntity>;
+  findById(id: string): Promise<SessionEntity | null>;
+  /**
+   * Sessions of the user that still hold a usable refresh token, most recently used first
+   */
+  findActiveByUserId(userId: string): Promise<SessionEntity[]>;
+  touch(id: string, context?: ClientContext): Promise<void>;
+}
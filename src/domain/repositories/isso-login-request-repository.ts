@@ -0,0 +1,20 @@
+import { SsoProtocol } from '../constants/sso';
+
+export interface SsoLoginRequest {
+  state: string;
+  protocol: SsoProtocol;
+  tenantId: string;
+  connectionId: string;
+  // OIDC only: bound to the authorization request
+  nonce?: string | null;
+  codeVerifier?: string | null;
+}
+
+export interface ISsoLoginRequestRepository {
+  save(request: SsoLoginRequest, expiresAt: Date): Promise<void>;
+  /**
+   * Remove an unexpired request of the given protocol, so the provider's answer is only accepted once
+   * @returns The request, undefined if no such request exists
+   */
+  consume(state: string, protocol: SsoProtocol): Promise<SsoLoginRequest | undefined>;
+}
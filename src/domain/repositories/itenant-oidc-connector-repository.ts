@@ -0,0 +1,24 @@
+import { TenantOidcConnectorEntity } from '../entities/tenant-oidc-connector.entity';
+import { OidcClaimMapping } from '../constants/sso';
+
+export interface SaveTenantOidcConnector {
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  claimMapping: OidcClaimMapping;
+  enabled: boolean;
+  jitProvisioning: boolean;
+  defaultRoleId: string | null;
+}
+
+export interface ITenantOidcConnectorRepository {
+  findById(id: string, tenantId?: string | null): Promise<TenantOidcConnectorEntity | null>;
+  findByTenantId(tenantId: string): Promise<TenantOidcConnectorEntity[]>;
+  findByName(tenantId: string, name: string): Promise<TenantOidcConnectorEntity | null>;
+  countByTenantId(tenantId: string): Promise<number>;
+  create(tenantId: string, connector: SaveTenantOidcConnector, updatedBy?: string): Promise<TenantOidcConnectorEntity>;
+  update(id: string, connector: SaveTenantOidcConnector, updatedBy?: string): Promise<TenantOidcConnectorEntity>;
+  delete(id: string): Promise<void>;
+}
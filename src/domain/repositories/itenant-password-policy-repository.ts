@@ -0,0 +1,10 @@
+import { TenantPasswordPolicyEntity } from '../entities/tenant-password-policy.entity';
+
+export interface ITenantPasswordPolicyRepository {
+  /**
+   * Get the overrides of a tenant, null when the tenant uses the global policy
+   */
+  findByTenantId(tenantId: string): Promise<TenantPasswordPolicyEntity | null>;
+  save(policy: TenantPasswordPolicyEntity, updatedBy?: string): Promise<TenantPasswordPolicyEntity>;
+  delete(tenantId: string): Promise<void>;
+}
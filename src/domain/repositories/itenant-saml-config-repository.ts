@@ -0,0 +1,20 @@
+import { TenantSamlConfigEntity } from '../entities/tenant-saml-config.entity';
+import { SamlAttributeMapping } from '../constants/sso';
+
+export interface SaveTenantSamlConfig {
+  enabled: boolean;
+  idpEntityId: string;
+  idpSsoUrl: string;
+  idpCertificates: string[];
+  idpMetadataXml: string | null;
+  attributeMapping: SamlAttributeMapping;
+  jitProvisioning: boolean;
+  defaultRoleId: string | null;
+  disablePasswordLogin: boolean;
+}
+
+export interface ITenantSamlConfigRepository {
+  findByTenantId(tenantId: string): Promise<TenantSamlConfigEntity | null>;
+  save(tenantId: string, config: SaveTenantSamlConfig, updatedBy?: string): Promise<TenantSamlConfigEntity>;
+  delete(tenantId: string): Promise<void>;
+}
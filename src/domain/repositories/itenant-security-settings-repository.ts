@@ -0,0 +1,9 @@
+import { TenantSecuritySettingsEntity } from '../entities/tenant-security-settings.entity';
+
+export interface ITenantSecuritySettingsRepository {
+  /**
+   * Get the settings of a tenant, falling back to defaults when none were saved
+   */
+  findByTenantId(tenantId: string): Promise<TenantSecuritySettingsEntity>;
+  save(settings: TenantSecuritySettingsEntity, updatedBy?: string): Promise<TenantSecuritySettingsEntity>;
+}
@@ -1,6 +1,34 @@
+export interface RefreshTokenRecord {
+  userId: string;
+  familyId: string;
+  expiresAt: Date;
+  rotatedAt: Date | null;
+}
+
+export interface EmailVerificationTokenRecord {
+  userId: string;
+  email: string;
+}
+
 export interface ITokenRepository {
-  save(token: string, userId: string, expiresAt: Date): Promise<void>;
-  findByToken(token: string): Promise<{ userId: string; expiresAt: Date } | null>;
+  /**
+   * Store a refresh token in a token family (the id of the session it belongs to)
+   */
+  save(token: string, userId: string, expiresAt: Date, familyId: string): Promise<void>;
+  findByToken(token: string): Promise<RefreshTokenRecord | null>;
+  /**
+   * Mark a token as rotated and store its successor in the same family
+   * @returns false if the token was already rotated (the successor is not stored)
+   */
+  rotate(token: string, newToken: string, expiresAt: Date): Promise<boolean>;
+  /**
+   * Delete every token of the family and end the session it belongs to
+   */
+  revokeFamily(familyId: string): Promise<void>;
+  /**
+   * Whether the session of the family still exists, checked for access tokens carrying a session id
+   */
+  isFamilyActive(familyId: string): Promise<boolean>;
   delete(token: string): Promise<void>;
   deleteByUserId(userId: string): Promise<void>;
   deleteExpired(): Promise<void>;
@@ -8,5 +36,40 @@ export interface ITokenRepository {
   validatePasswordResetToken(token: string): Promise<string | null>;
   invalidatePasswordResetToken(token: string): Promise<void>;
   invalidateAllUserTokens(userId: string): Promise<void>;
+  /**
+   * Signed single-use login link token, stored alongside the password reset tokens
+   */
+  generateMagicLinkToken(userId: string, expiresInSeconds: number): Promise<string>;
+  /**
+   * Validate a login link token and mark it used in one step
+   * @returns The user ID, or null if the token is invalid, expired or already used
+   */
+  consumeMagicLinkToken(token: string): Promise<string | null>;
+  /**
+   * Number of login link tokens issued to the user since the given time (request throttling)
+   */
+  countMagicLinkTokensSince(userId: string, since: Date): Promise<number>;
+  /**
+   * Signed single-use code handed to the frontend after an SSO login, exchanged for tokens
+   */
+  generateSsoLoginCode(userId: string, expiresInSeconds: number): Promise<string>;
+  /**
+   * Validate an SSO login code and mark it used in one step
+   * @returns The user ID, or null if the code is invalid, expired or already used
+   */
+  consumeSsoLoginCode(code: string): Promise<string | null>;
+  /**
+   * Signed single-use token that proves ownership of the given address
+   */
+  generateEmailVerificationToken(userId: string, email: string, expiresInSeconds: number): Promise<string>;
+  validateEmailVerificationToken(token: string): Promise<EmailVerificationTokenRecord | null>;
+  /**
+   * Mark every unused verification token of the user as used
+   */
+  invalidateEmailVerificationTokens(userId: string): Promise<void>;
+  /**
+   * Number of verification tokens issued to the user since the given time (resend throttling)
+   */
+  countEmailVerificationTokensSince(userId: string, since: Date): Promise<number>;
 }
 
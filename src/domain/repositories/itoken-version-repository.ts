@@ -0,0 +1,23 @@
+/**
+ * Per-principal (user or service client) access token version
+ * Access tokens carry the version they were issued with and are rejected once it is bumped
+ */
+export interface ITokenVersionRepository {
+  /**
+   * @returns The current version, or null if the user no longer exists
+   */
+  getVersion(userId: string): Promise<number | null>;
+  /**
+   * Invalidate every access token issued to the user so far
+   */
+  increment(userId: string): Promise<void>;
+  /**
+   * @param id - OAuth client record ID
+   * @returns The current version, or null if the client no longer exists
+   */
+  getServiceClientVersion(id: string): Promise<number | null>;
+  /**
+   * Invalidate every client_credentials token issued to the service client so far
+   */
+  incrementServiceClient(id: string): Promise<void>;
+}
@@ -0,0 +1,24 @@
+import { UserIdentityEntity } from '../entities/user-identity.entity';
+import { SsoProtocol } from '../constants/sso';
+
+export interface NewUserIdentity {
+  userId: string;
+  protocol: SsoProtocol;
+  connectionId: string;
+  subject: string;
+  email: string | null;
+}
+
+export interface IUserIdentityRepository {
+  findBySubject(connectionId: string, subject: string): Promise<UserIdentityEntity | null>;
+  findByUserId(userId: string): Promise<UserIdentityEntity[]>;
+  create(identity: NewUserIdentity): Promise<UserIdentityEntity>;
+  /**
+   * Store the time of a login and the email the provider currently reports
+   */
+  recordLogin(id: string, email: string | null): Promise<void>;
+  /**
+   * Unlink every identity of a connection (when the connection is removed)
+   */
+  deleteByConnectionId(connectionId: string): Promise<void>;
+}
@@ -0,0 +1,18 @@
+import { UserLockoutEntity } from '../entities/user-lockout.entity';
+
+export interface IUserLockoutRepository {
+  findByUserId(userId: string): Promise<UserLockoutEntity | null>;
+  /**
+   * Atomically count a failed login; earlier failures outside the failure window are dropped first
+   * @returns The lockout state including this failure
+   */
+  recordFailure(userId: string, at: Date): Promise<UserLockoutEntity>;
+  /**
+   * Lock the account until the given time, resetting the failure count and incrementing the lock count
+   */
+  lock(userId: string, lockedUntil: Date): Promise<UserLockoutEntity>;
+  /**
+   * Clear failures and locks (successful login or admin unlock)
+   */
+  reset(userId: string): Promise<void>;
+}
@@ -0,0 +1,12 @@
+import { UserMfaEntity } from '../entities/user-mfa.entity';
+
+export interface IUserMfaRepository {
+  findByUserId(userId: string): Promise<UserMfaEntity | null>;
+  /**
+   * Create or replace a pending (not yet enabled) enrollment for the user
+   */
+  savePending(userId: string, secret: string): Promise<UserMfaEntity>;
+  enable(userId: string, step: number): Promise<void>;
+  recordUsedStep(userId: string, step: number): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
@@ -13,7 +13,17 @@ export interface IUserRepository {
   findAll(tenantId: string, pagination?: PaginationParams): Promise<PaginatedResult<UserEntity>>;
   create(user: UserEntity): Promise<UserEntity>;
   update(user: UserEntity): Promise<UserEntity>;
+  /**
+   * Mark the user's email as verified, if it is still the given address
+   * @returns false if the user no longer has that email
+   */
+  markEmailVerified(id: string, email: string, verifiedAt: Date): Promise<boolean>;
   delete(id: string, tenantId: string): Promise<void>;
+  /**
+   * Drop the cached copies of the user, after it was changed outside this repository (transactions)
+   * @param emails - Every address the user may be cached under
+   */
+  invalidateCache(id: string, tenantId: string | null, emails: string[]): Promise<void>;
   countAdmins(tenantId: string): Promise<number>;
   findUsersByRole(roleId: string, tenantId: string): Promise<UserEntity[]>;
 }
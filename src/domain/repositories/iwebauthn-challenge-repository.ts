@@ -0,0 +1,10 @@
+import { WebAuthnChallengeType } from '../constants/webauthn';
+
+export interface IWebAuthnChallengeRepository {
+  save(challenge: string, type: WebAuthnChallengeType, userId: string | null, expiresAt: Date): Promise<void>;
+  /**
+   * Remove an unexpired challenge of the given type, so it can only be answered once
+   * @returns The user the challenge was issued for (null for passwordless login), undefined if no such challenge exists
+   */
+  consume(challenge: string, type: WebAuthnChallengeType): Promise<{ userId: string | null } | undefined>;
+}
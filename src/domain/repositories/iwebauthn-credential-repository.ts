@@ -0,0 +1,32 @@
+import { WebAuthnCredentialEntity } from '../entities/webauthn-credential.entity';
+
+export interface NewWebAuthnCredential {
+  userId: string;
+  credentialId: string;
+  publicKey: Uint8Array;
+  signCount: number;
+  transports: string[];
+  deviceType: string;
+  backedUp: boolean;
+  aaguid: string | null;
+  name: string;
+}
+
+export interface IWebAuthnCredentialRepository {
+  findByCredentialId(credentialId: string): Promise<WebAuthnCredentialEntity | null>;
+  findByUserId(userId: string): Promise<WebAuthnCredentialEntity[]>;
+  countByUserId(userId: string): Promise<number>;
+  create(credential: NewWebAuthnCredential): Promise<WebAuthnCredentialEntity>;
+  /**
+   * @returns The renamed credential, null if the user has no credential with this id
+   */
+  rename(id: string, userId: string, name: string): Promise<WebAuthnCredentialEntity | null>;
+  /**
+   * Store the counter and backup state of a successful assertion
+   */
+  recordUse(id: string, signCount: number, backedUp: boolean): Promise<void>;
+  /**
+   * @returns false if the user has no credential with this id
+   */
+  delete(id: string, userId: string): Promise<boolean>;
+}
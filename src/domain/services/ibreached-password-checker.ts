@@ -0,0 +1,11 @@
+/**
+ * Interface for checking a password against a corpus of breached passwords
+ * Lookups use SHA-1 k-anonymity ranges, so a remote corpus never sees the full hash
+ */
+export interface IBreachedPasswordChecker {
+  /**
+   * @returns Whether the password appears in the corpus often enough to be rejected
+   * Rejects if the corpus cannot be queried
+   */
+  isBreached(password: string): Promise<boolean>;
+}
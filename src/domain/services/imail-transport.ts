@@ -0,0 +1,17 @@
+/**
+ * Interface for delivering an email message (SMTP, file, in-memory, ...)
+ * This abstraction allows the application layer to stay independent of the delivery mechanism
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string | null;
+}
+
+export interface IMailTransport {
+  /**
+   * Deliver a message; rejects if the message was not accepted
+   */
+  send(message: MailMessage): Promise<void>;
+}
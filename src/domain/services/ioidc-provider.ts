@@ -0,0 +1,41 @@
+import { TenantOidcConnectorEntity } from '../entities/tenant-oidc-connector.entity';
+
+/**
+ * Values bound to one authorization request; the callback must match all of them
+ */
+export interface OidcAuthorizationRequest {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * Interface for the OpenID Connect relying party side (authorization code flow with PKCE)
+ * This abstraction allows the domain layer to depend on an interface rather than infrastructure
+ */
+export interface IOidcProvider {
+  /**
+   * Check that the issuer publishes a discovery document supporting the authorization code flow
+   */
+  validateIssuer(issuer: string): Promise<boolean>;
+  /**
+   * Build the provider URL that starts the authorization request
+   */
+  createAuthorizationUrl(
+    connector: TenantOidcConnectorEntity,
+    redirectUri: string,
+    request: OidcAuthorizationRequest
+  ): Promise<string>;
+  /**
+   * Redeem the authorization code and verify the ID token (signature, issuer, audience, expiry, nonce)
+   * Userinfo claims are added when the ID token does not carry the email
+   * @param callbackParams - Query parameters of the callback
+   * @returns The verified claims, or null if the code or ID token is invalid
+   */
+  exchangeCode(
+    connector: TenantOidcConnectorEntity,
+    redirectUri: string,
+    callbackParams: Record<string, string>,
+    request: OidcAuthorizationRequest
+  ): Promise<Record<string, unknown> | null>;
+}
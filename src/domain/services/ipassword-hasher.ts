@@ -1,3 +1,4 @@
+
 /**
  * Interface for password hashing operations
  * This abstraction allows the domain layer to depend on an interface rather than infrastructure
@@ -5,5 +6,8 @@
 export interface IPasswordHasher {
   hash(password: string): Promise<string>;
   compare(password: string, hashedPassword: string): Promise<boolean>;
+  /**
+   * Whether a stored hash uses an outdated algorithm or cost and should be replaced at the next login
+   */
+  needsRehash(hashedPassword: string): boolean;
 }
-
@@ -0,0 +1,14 @@
+/**
+ * Interface for generating and hashing MFA recovery codes
+ * This abstraction allows the domain layer to depend on an interface rather than infrastructure
+ */
+export interface IRecoveryCodeGenerator {
+  /**
+   * Generate a full set of plaintext codes (shown to the user once)
+   */
+  generateSet(): string[];
+  /**
+   * Hash a code for storage or lookup; formatting differences (case, dashes, spaces) are ignored
+   */
+  hash(code: string): string;
+}
@@ -0,0 +1,58 @@
+import { TenantSamlConfigEntity } from '../entities/tenant-saml-config.entity';
+
+export interface SamlServiceProviderSettings {
+  entityId: string;
+  acsUrl: string;
+}
+
+export interface SamlIdpMetadata {
+  entityId: string;
+  ssoUrl: string;
+  certificates: string[];
+}
+
+export interface SamlAssertion {
+  nameId: string;
+  attributes: Record<string, unknown>;
+}
+
+/**
+ * Interface for the SAML 2.0 service provider protocol (requests, responses and metadata)
+ * This abstraction allows the domain layer to depend on an interface rather than infrastructure
+ */
+export interface ISamlProvider {
+  /**
+   * Read the entity ID, HTTP-Redirect SSO URL and signing certificates from IdP metadata
+   * @returns null if the XML is not usable IdP metadata
+   */
+  parseIdpMetadata(xml: string): SamlIdpMetadata | null;
+  /**
+   * Turn a PEM or bare base64 X.509 certificate into PEM
+   * @returns null if it is not a certificate
+   */
+  normalizeCertificate(certificate: string): string | null;
+  /**
+   * Build the IdP URL that carries a new AuthnRequest (HTTP-Redirect binding)
+   * @param requestId - ID of the AuthnRequest; the response must answer it
+   */
+  createLoginUrl(
+    sp: SamlServiceProviderSettings,
+    config: TenantSamlConfigEntity,
+    requestId: string
+  ): Promise<string>;
+  /**
+   * Read which AuthnRequest a SAMLResponse claims to answer (not yet verified)
+   */
+  readInResponseTo(samlResponse: string): string | null;
+  /**
+   * Verify the signature, audience, timestamps and InResponseTo of a SAMLResponse (HTTP-POST binding)
+   * @returns The asserted subject and attributes, or null if the response is invalid
+   */
+  validateResponse(
+    sp: SamlServiceProviderSettings,
+    config: TenantSamlConfigEntity,
+    samlResponse: string,
+    requestId: string
+  ): Promise<SamlAssertion | null>;
+  generateMetadata(sp: SamlServiceProviderSettings): string;
+}
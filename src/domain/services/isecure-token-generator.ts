@@ -0,0 +1,19 @@
+/**
+ * Interface for generating high-entropy opaque tokens (authorization codes, client secrets, ...)
+ * Only hashes are stored; the plaintext is handed out once
+ */
+export interface ISecureTokenGenerator {
+  /**
+   * Generate a URL-safe random token
+   * @param prefix - Optional readable prefix, e.g. to identify the token type
+   */
+  generate(prefix?: string): string;
+  /**
+   * Hash a token for storage or lookup
+   */
+  hash(token: string): string;
+  /**
+   * Constant-time check of a presented token against a stored hash
+   */
+  matches(token: string, hash: string): boolean;
+}
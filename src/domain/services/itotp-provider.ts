@@ -0,0 +1,13 @@
+/**
+ * Interface for TOTP (RFC 6238) operations
+ * This abstraction allows the domain layer to depend on an interface rather than infrastructure
+ */
+export interface ITotpProvider {
+  generateSecret(): string;
+  buildProvisioningUri(secret: string, accountName: string, issuer: string): string;
+  /**
+   * Verify a code against a secret
+   * @returns The matched time step, or null if the code is invalid
+   */
+  verify(secret: string, code: string): number | null;
+}
@@ -0,0 +1,62 @@
+export interface WebAuthnCredentialDescriptor {
+  credentialId: string;
+  transports: string[];
+}
+
+export interface WebAuthnOptions {
+  // JSON for navigator.credentials.create() / get()
+  options: Record<string, unknown>;
+  challenge: string;
+}
+
+export interface VerifiedWebAuthnRegistration {
+  credentialId: string;
+  publicKey: Uint8Array;
+  signCount: number;
+  transports: string[];
+  deviceType: string;
+  backedUp: boolean;
+  aaguid: string | null;
+}
+
+export interface VerifiedWebAuthnAssertion {
+  signCount: number;
+  backedUp: boolean;
+  userVerified: boolean;
+}
+
+/**
+ * Interface for WebAuthn ceremonies (creating options and verifying authenticator responses)
+ * This abstraction allows the domain layer to depend on an interface rather than infrastructure
+ */
+export interface IWebAuthnProvider {
+  generateRegistrationOptions(
+    user: { id: string; name: string; displayName: string },
+    excludeCredentials: WebAuthnCredentialDescriptor[]
+  ): Promise<WebAuthnOptions>;
+  /**
+   * @returns The new credential, or null if the response is invalid
+   */
+  verifyRegistration(response: unknown, expectedChallenge: string): Promise<VerifiedWebAuthnRegistration | null>;
+  /**
+   * @param allowCredentials - Credentials the user may answer with; empty for discoverable credentials (passwordless login)
+   * @param requireUserVerification - Demand a PIN or biometric check on the authenticator
+   */
+  generateAuthenticationOptions(
+    allowCredentials: WebAuthnCredentialDescriptor[],
+    requireUserVerification: boolean
+  ): Promise<WebAuthnOptions>;
+  /**
+   * @returns The assertion result, or null if the signature or client data is invalid
+   */
+  verifyAuthentication(
+    response: unknown,
+    expectedChallenge: string,
+    credential: { credentialId: string; publicKey: Uint8Array; signCount: number; transports: string[] },
+    requireUserVerification: boolean
+  ): Promise<VerifiedWebAuthnAssertion | null>;
+  /**
+   * Read the challenge and credential id an authenticator response claims to answer (not yet verified)
+   */
+  parseResponse(response: unknown): { challenge: string; credentialId: string } | null;
+}
@@ -11,5 +11,9 @@ export class PasswordDomainService implements IPasswordDomainService {
   async comparePassword(password: string, hashedPassword: string): Promise<boolean> {
     return this.passwordHasher.compare(password, hashedPassword);
   }
+
+  needsRehash(hashedPassword: string): boolean {
+    return this.passwordHasher.needsRehash(hashedPassword);
+  }
 }
 
@@ -0,0 +1,137 @@
+import { ScimFilter, ScimPath } from '../scim-filter';
+import { ScimException } from '../../exceptions/domain-exceptions';
+
+describe('ScimFilter Value Object', () => {
+  describe('parse', () => {
+    it('should parse a comparison', () => {
+      const filter = ScimFilter.parse('userName eq "john@example.com"');
+      expect(filter.root).toEqual({ type: 'compare', attribute: 'userName', operator: 'eq', value: 'john@example.com' });
+    });
+
+    it('should strip the core schema URN from attribute names', () => {
+      const filter = ScimFilter.parse('urn:ietf:params:scim:schemas:core:2.0:User:userName eq "a@b.com"');
+      expect(filter.root).toMatchObject({ attribute: 'userName' });
+    });
+
+    it('should give "and" precedence over "or"', () => {
+      const filter = ScimFilter.parse('a eq 1 or b eq 2 and c eq 3');
+      expect(filter.root).toMatchObject({ type: 'or', right: { type: 'and' } });
+    });
+
+    it('should parse not, grouping, presence and value paths', () => {
+      const filter = ScimFilter.parse('not (active eq false) and (title pr or emails[type eq "work"])');
+      expect(filter.root).toMatchObject({
+        type: 'and',
+        left: { type: 'not' },
+        right: { type: 'or', left: { type: 'present' }, right: { type: 'valuePath', attribute: 'emails' } },
+      });
+    });
+
+    it('should read booleans, numbers, null and escaped strings', () => {
+      expect(ScimFilter.parse('active eq True').root).toMatchObject({ value: true });
+      expect(ScimFilter.parse('count ge 10').root).toMatchObject({ value: 10 });
+      expect(ScimFilter.parse('externalId eq null').root).toMatchObject({ value: null });
+      expect(ScimFilter.parse('displayName eq "a \\"b\\""').root).toMatchObject({ value: 'a "b"' });
+    });
+
+    it('should throw ScimException for malformed filters', () => {
+      expect(() => ScimFilter.parse('')).toThrow(ScimException);
+      expect(() => ScimFilter.parse('userName eq')).toThrow(ScimException);
+      expect(() => ScimFilter.parse('userName like "a"')).toThrow(ScimException);
+      expect(() => ScimFilter.parse('userName eq "a" and')).toThrow(ScimException);
+      expect(() => ScimFilter.parse('(userName eq "a"')).toThrow(ScimException);
+      expect(() => ScimFilter.parse('userName eq "unterminated')).toThrow(ScimException);
+      expect(() => ScimFilter.parse('userName eq unquoted')).toThrow(ScimException);
+    });
+
+    it('should report errors as invalidFilter', () => {
+      try {
+        ScimFilter.parse('userName zz "a"');
+        fail('Expected ScimException');
+      } catch (error) {
+        expect((error as ScimException).scimType).toBe('invalidFilter');
+        expect((error as ScimException).statusCode).toBe(400);
+      }
+    });
+  });
+
+  describe('matches', () => {
+    const user = {
+      userName: 'John@Example.com',
+      active: true,
+      name: { givenName: 'John' },
+      emails: [
+        { value: 'john@example.com', type: 'work' },
+        { value: 'john@home.example', type: 'home' },
+      ],
+    };
+
+    it('should compare strings case-insensitively', () => {
+      expect(ScimFilter.parse('username eq "john@example.com"').matches(user)).toBe(true);
+      expect(ScimFilter.parse('userName sw "JOHN"').matches(user)).toBe(true);
+      expect(ScimFilter.parse('userName ew ".org"').matches(user)).toBe(false);
+    });
+
+    it('should read sub-attributes and multi-valued attributes', () => {
+      expect(ScimFilter.parse('name.givenName eq "john"').matches(user)).toBe(true);
+      expect(ScimFilter.parse('emails.value co "home"').matches(user)).toBe(true);
+      expect(ScimFilter.parse('emails[type eq "home" and value co "home"]').matches(user)).toBe(true);
+      expect(ScimFilter.parse('emails[type eq "other"]').matches(user)).toBe(false);
+    });
+
+    it('should evaluate logical operators and presence', () => {
+      expect(ScimFilter.parse('active eq true and not (userName eq "x")').matches(user)).toBe(true);
+      expect(ScimFilter.parse('title pr or name.givenName pr').matches(user)).toBe(true);
+      expect(ScimFilter.parse('title pr').matches(user)).toBe(false);
+    });
+  });
+
+  describe('getRequiredValues', () => {
+    it('should return the values of an eq-only filter', () => {
+      expect(ScimFilter.parse('type eq "work" and primary eq true').getRequiredValues()).toEqual({
+        type: 'work',
+        primary: true,
+      });
+    });
+
+    it('should return null when the filter does not pin down the values', () => {
+      expect(ScimFilter.parse('type eq "work" or type eq "home"').getRequiredValues()).toBeNull();
+      expect(ScimFilter.parse('value co "a"').getRequiredValues()).toBeNull();
+    });
+  });
+});
+
+describe('ScimPath Value Object', () => {
+  it('should parse attributes and sub-attributes', () => {
+    const path = ScimPath.parse('name.givenName');
+    expect(path).toMatchObject({ schema: null, attribute: 'name', subAttribute: 'givenName', valueFilter: null });
+  });
+
+  it('should parse value filters with a trailing sub-attribute', () => {
+    const path = ScimPath.parse('emails[type eq "work"].value');
+    expect(path).toMatchObject({ attribute: 'emails', subAttribute: 'value' });
+    expect(path.valueFilter!.matches({ type: 'work' })).toBe(true);
+  });
+
+  it('should split extension schema URNs from the attribute', () => {
+    const path = ScimPath.parse('urn:ietf:params:scim:schemas:extension:enterprise:2.0:User:organization');
+    expect(path).toMatchObject({
+      schema: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+      attribute: 'organization',
+    });
+  });
+
+  it('should treat core schema attributes as unqualified', () => {
+    expect(ScimPath.parse('urn:ietf:params:scim:schemas:core:2.0:User:active')).toMatchObject({
+      schema: null,
+      attribute: 'active',
+    });
+  });
+
+  it('should throw ScimException for invalid paths', () => {
+    expect(() => ScimPath.parse('')).toThrow(ScimException);
+    expect(() => ScimPath.parse('name.givenName[type eq "a"]')).toThrow(ScimException);
+    expect(() => ScimPath.parse('emails[type eq]')).toThrow(ScimException);
+    expect(() => ScimPath.parse('a b')).toThrow(ScimException);
+  });
+});
@@ -1,19 +1,25 @@
 import { ValidationException } from '../exceptions/domain-exceptions';
-import { validatePasswordPolicy, passwordPolicy } from '../../config/password-policy.config';
+import { validatePasswordPolicy, passwordPolicy, PasswordPolicy } from '../../config/password-policy.config';
 
 export class Password {
   private readonly value: string;
 
-  constructor(password: string, isHashed: boolean = false) {
+  /**
+   * @param password - Plain text password, or a hash when isHashed is set
+   * @param isHashed - Skip policy validation for stored hashes
+   * @param policy - Policy of the user's tenant (the global policy by default)
+   */
+  constructor(password: string, isHashed: boolean = false, policy: PasswordPolicy = passwordPolicy) {
     if (!isHashed) {
-      const validation = validatePasswordPolicy(password);
+      const validation = validatePasswordPolicy(password, policy);
       if (!validation.isValid) {
         throw new ValidationException(
-          `Password requirements: ${passwordPolicy.minLength}+ characters, ` +
-          `${passwordPolicy.requireUppercase ? 'uppercase, ' : ''}` +
-          `${passwordPolicy.requireLowercase ? 'lowercase, ' : ''}` +
-          `${passwordPolicy.requireNumber ? 'number, ' : ''}` +
-          `${passwordPolicy.requireSpecialChar ? `special char (${passwordPolicy.allowedSpecialChars})` : ''}`
+          `Password requirements: ${policy.minLength}+ characters, ` +
+          `${policy.requireUppercase ? 'uppercase, ' : ''}` +
+          `${policy.requireLowercase ? 'lowercase, ' : ''}` +
+          `${policy.requireNumber ? 'number, ' : ''}` +
+          `${policy.requireSpecialChar ? `special char (${policy.allowedSpecialChars})` : ''}`,
+          validation.errors
         );
       }
     }
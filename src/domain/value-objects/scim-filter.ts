@@ -0,0 +1,336 @@
+import { ScimException } from '../exceptions/domain-exceptions';
+import { SCIM_ERROR_TYPES } from '../constants/scim';
+
+export type ScimCompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+export type ScimFilterValue = string | number | boolean | null;
+
+/**
+ * Parsed filter expression (RFC 7644 section 3.4.2.2)
+ * Attribute names are kept as written, without the core schema URN; they are compared case-insensitively
+ */
+export type ScimFilterNode =
+  | { type: 'compare'; attribute: string; operator: ScimCompareOperator; value: ScimFilterValue }
+  | { type: 'present'; attribute: string }
+  | { type: 'and' | 'or'; left: ScimFilterNode; right: ScimFilterNode }
+  | { type: 'not'; expression: ScimFilterNode }
+  | { type: 'valuePath'; attribute: string; filter: ScimFilterNode };
+
+const COMPARE_OPERATORS: ScimCompareOperator[] = ['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le'];
+const CORE_SCHEMA_PREFIX = /^urn:ietf:params:scim:schemas:core:2\.0:(user|group):/i;
+const MAX_FILTER_LENGTH = 1000;
+const NUMBER = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+const TOKEN = /\s*(?:([()[\]])|("(?:[^"\\]|\\.)*")|([^\s()[\]"]+))/y;
+
+type Token = { kind: 'punct' | 'string' | 'word'; text: string };
+
+const invalidFilter = (detail: string) => new ScimException(SCIM_ERROR_TYPES.INVALID_FILTER, detail);
+
+/**
+ * Strip the core User/Group schema URN from a fully qualified attribute name
+ */
+export function stripCoreSchema(attribute: string): string {
+  return attribute.replace(CORE_SCHEMA_PREFIX, '');
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < expression.length) {
+    if (!expression.slice(TOKEN.lastIndex).trim()) {
+      break;
+    }
+    const match = TOKEN.exec(expression);
+    if (!match) {
+      throw invalidFilter('Unterminated string in filter');
+    }
+    if (match[1]) tokens.push({ kind: 'punct', text: match[1] });
+    else if (match[2]) tokens.push({ kind: 'string', text: match[2] });
+    else tokens.push({ kind: 'word', text: match[3] });
+  }
+  return tokens;
+}
+
+/**
+ * Recursive descent parser; "not" binds tighter than "and", which binds tighter than "or"
+ */
+class FilterParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ScimFilterNode {
+    const node = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw invalidFilter(`Unexpected "${this.tokens[this.position].text}" in filter`);
+    }
+    return node;
+  }
+
+  private peekWord(): string | null {
+    const token = this.tokens[this.position];
+    return token?.kind === 'word' ? token.text.toLowerCase() : null;
+  }
+
+  private expect(text: string): void {
+    const token = this.tokens[this.position++];
+    if (token?.kind !== 'punct' || token.text !== text) {
+      throw invalidFilter(`Expected "${text}" in filter`);
+    }
+  }
+
+  private parseOr(): ScimFilterNode {
+    let left = this.parseAnd();
+    while (this.peekWord() === 'or') {
+      this.position++;
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ScimFilterNode {
+    let left = this.parseUnary();
+    while (this.peekWord() === 'and') {
+      this.position++;
+      left = { type: 'and', left, right: this.parseUnary() };
+    }
+    return left;
+  }
+
+  private parseUnary(): ScimFilterNode {
+    const token = this.tokens[this.position];
+    if (!token) {
+      throw invalidFilter('Incomplete filter');
+    }
+
+    if (token.kind === 'word' && token.text.toLowerCase() === 'not') {
+      this.position++;
+      this.expect('(');
+      const expression = this.parseOr();
+      this.expect(')');
+      return { type: 'not', expression };
+    }
+
+    if (token.kind === 'punct' && token.text === '(') {
+      this.position++;
+      const expression = this.parseOr();
+      this.expect(')');
+      return expression;
+    }
+
+    return this.parseAttributeExpression();
+  }
+
+  private parseAttributeExpression(): ScimFilterNode {
+    const token = this.tokens[this.position++];
+    if (token.kind !== 'word') {
+      throw invalidFilter(`Expected an attribute name, found "${token.text}"`);
+    }
+    const attribute = stripCoreSchema(token.text);
+
+    const next = this.tokens[this.position];
+    if (next?.kind === 'punct' && next.text === '[') {
+      this.position++;
+      const filter = this.parseOr();
+      this.expect(']');
+      return { type: 'valuePath', attribute, filter };
+    }
+
+    const operator = this.peekWord();
+    if (!operator) {
+      throw invalidFilter(`Expected an operator after "${attribute}"`);
+    }
+    this.position++;
+
+    if (operator === 'pr') {
+      return { type: 'present', attribute };
+    }
+    if (!COMPARE_OPERATORS.includes(operator as ScimCompareOperator)) {
+      throw invalidFilter(`Unsupported operator "${operator}"`);
+    }
+
+    return { type: 'compare', attribute, operator: operator as ScimCompareOperator, value: this.parseValue() };
+  }
+
+  private parseValue(): ScimFilterValue {
+    const token = this.tokens[this.position++];
+    if (!token || token.kind === 'punct') {
+      throw invalidFilter('Expected a comparison value');
+    }
+    if (token.kind === 'string') {
+      return JSON.parse(token.text);
+    }
+
+    const word = token.text.toLowerCase();
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    if (NUMBER.test(word)) return Number(word);
+    throw invalidFilter(`Invalid comparison value "${token.text}"`);
+  }
+}
+
+/**
+ * Read an attribute of a resource or multi-valued item, matching names case-insensitively
+ */
+function readAttribute(item: unknown, attribute: string): unknown {
+  let current: unknown = item;
+  for (const segment of attribute.split('.')) {
+    if (Array.isArray(current)) {
+      return current.map((entry) => readAttribute(entry, segment));
+    }
+    if (!current || typeof current !== 'object') {
+      return undefined;
+    }
+    const key = Object.keys(current).find((name) => name.toLowerCase() === segment.toLowerCase());
+    current = key === undefined ? undefined : (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function compare(actual: unknown, operator: ScimCompareOperator, expected: ScimFilterValue): boolean {
+  if (Array.isArray(actual)) {
+    return actual.some((entry) => compare(entry, operator, expected));
+  }
+
+  // String comparisons are case-insensitive (caseExact is false for the attributes matched in memory)
+  const left = typeof actual === 'string' ? actual.toLowerCase() : actual;
+  const right = typeof expected === 'string' ? expected.toLowerCase() : expected;
+
+  switch (operator) {
+    case 'eq':
+      return left === right || (right === null && left === undefined);
+    case 'ne':
+      return !compare(actual, 'eq', expected);
+    case 'co':
+      return typeof left === 'string' && typeof right === 'string' && left.includes(right);
+    case 'sw':
+      return typeof left === 'string' && typeof right === 'string' && left.startsWith(right);
+    case 'ew':
+      return typeof left === 'string' && typeof right === 'string' && left.endsWith(right);
+    default:
+      if (left === null || left === undefined || right === null || typeof left !== typeof right) {
+        return false;
+      }
+      if (operator === 'gt') return (left as string | number) > right;
+      if (operator === 'ge') return (left as string | number) >= right;
+      if (operator === 'lt') return (left as string | number) < right;
+      return (left as string | number) <= right;
+  }
+}
+
+function evaluate(node: ScimFilterNode, item: unknown): boolean {
+  switch (node.type) {
+    case 'and':
+      return evaluate(node.left, item) && evaluate(node.right, item);
+    case 'or':
+      return evaluate(node.left, item) || evaluate(node.right, item);
+    case 'not':
+      return !evaluate(node.expression, item);
+    case 'present': {
+      const value = readAttribute(item, node.attribute);
+      return Array.isArray(value)
+        ? value.some((entry) => entry !== undefined && entry !== null && entry !== '')
+        : value !== undefined && value !== null && value !== '';
+    }
+    case 'valuePath': {
+      const values = readAttribute(item, node.attribute);
+      return Array.isArray(values) && values.some((entry) => evaluate(node.filter, entry));
+    }
+    default:
+      return compare(readAttribute(item, node.attribute), node.operator, node.value);
+  }
+}
+
+/**
+ * SCIM filter value object
+ * Parsed from the "filter" query parameter and from value selection filters in PATCH paths
+ */
+export class ScimFilter {
+  private constructor(public readonly root: ScimFilterNode) {}
+
+  /**
+   * @throws ScimException (invalidFilter) if the expression cannot be parsed
+   */
+  static parse(expression: string): ScimFilter {
+    if (!expression || !expression.trim()) {
+      throw invalidFilter('Filter is empty');
+    }
+    if (expression.length > MAX_FILTER_LENGTH) {
+      throw invalidFilter(`Filter exceeds ${MAX_FILTER_LENGTH} characters`);
+    }
+    return new ScimFilter(new FilterParser(tokenize(expression)).parse());
+  }
+
+  /**
+   * Evaluate the filter against a resource or an item of a multi-valued attribute
+   */
+  matches(item: unknown): boolean {
+    return evaluate(this.root, item);
+  }
+
+  /**
+   * Attribute values a filter made of "eq" comparisons joined by "and" requires
+   * Used to create the item a PATCH path like emails[type eq "work"].value targets when none exists yet
+   */
+  getRequiredValues(): Record<string, ScimFilterValue> | null {
+    const values: Record<string, ScimFilterValue> = {};
+    const collect = (node: ScimFilterNode): boolean => {
+      if (node.type === 'and') {
+        return collect(node.left) && collect(node.right);
+      }
+      if (node.type === 'compare' && node.operator === 'eq' && !node.attribute.includes('.')) {
+        values[node.attribute] = node.value;
+        return true;
+      }
+      return false;
+    };
+    return collect(this.root) ? values : null;
+  }
+}
+
+/**
+ * Attribute path of a PATCH operation (RFC 7644 section 3.5.2)
+ * e.g. "name.givenName", "emails[type eq \"work\"].value" or "urn:...:enterprise:2.0:User:organization"
+ */
+export class ScimPath {
+  private constructor(
+    public readonly schema: string | null,
+    public readonly attribute: string,
+    public readonly subAttribute: string | null,
+    public readonly valueFilter: ScimFilter | null
+  ) {}
+
+  /**
+   * @throws ScimException (invalidPath) if the path cannot be parsed
+   */
+  static parse(path: string): ScimPath {
+    const invalidPath = () => new ScimException(SCIM_ERROR_TYPES.INVALID_PATH, `Invalid path "${path}"`);
+
+    let rest = stripCoreSchema(path.trim());
+    let schema: string | null = null;
+
+    // Extension attributes are prefixed with the schema URN; the attribute follows the last colon
+    if (/^urn:/i.test(rest)) {
+      const bracket = rest.indexOf('[');
+      const separator = rest.lastIndexOf(':', bracket === -1 ? rest.length : bracket);
+      schema = rest.slice(0, separator);
+      rest = rest.slice(separator + 1);
+    }
+
+    const match = /^([A-Za-z$][\w$-]*)(?:\.([A-Za-z$][\w$-]*))?(?:\[(.+)\](?:\.([A-Za-z$][\w$-]*))?)?$/.exec(rest);
+    if (!match || (match[2] && match[3])) {
+      throw invalidPath();
+    }
+
+    let valueFilter: ScimFilter | null = null;
+    if (match[3]) {
+      try {
+        valueFilter = ScimFilter.parse(match[3]);
+      } catch {
+        throw invalidPath();
+      }
+    }
+
+    return new ScimPath(schema, match[1], match[2] ?? match[4] ?? null, valueFilter);
+  }
+}
@@ -0,0 +1,23 @@
+import os from 'os';
+import path from 'path';
+import { createBreachedPasswordChecker } from '../breached-password-checker.factory';
+import { breachedPasswordConfig } from '../../config/breached-password.config';
+import { LocalBreachedPasswordChecker } from '../local-breached-password.checker';
+
+describe('createBreachedPasswordChecker', () => {
+  it('should return no checker when the check is disabled', () => {
+    expect(createBreachedPasswordChecker({ ...breachedPasswordConfig, source: 'none' })).toBeNull();
+  });
+
+  it('should refuse the local source without its dataset', () => {
+    const config = { ...breachedPasswordConfig, source: 'local' as const, datasetDirectory: path.join(os.tmpdir(), 'missing-dataset') };
+
+    expect(() => createBreachedPasswordChecker(config)).toThrow('Breached password dataset not found');
+  });
+
+  it('should read an existing dataset', () => {
+    const config = { ...breachedPasswordConfig, source: 'local' as const, datasetDirectory: os.tmpdir() };
+
+    expect(createBreachedPasswordChecker(config)).toBeInstanceOf(LocalBreachedPasswordChecker);
+  });
+});
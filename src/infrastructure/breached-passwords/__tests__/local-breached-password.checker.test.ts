@@ -0,0 +1,46 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalBreachedPasswordChecker } from '../local-breached-password.checker';
+import { findSuffixCount, toRangeQuery } from '../sha1-range';
+
+describe('LocalBreachedPasswordChecker', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'breached-passwords-'));
+    // SHA-1("password") = 5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8
+    fs.writeFileSync(
+      path.join(directory, '5BAA6.txt'),
+      '003D68EB55068C33ACE09247EE4C639306B:3\r\n1E4C9B93F3F0682250B6CF8331B7EE68FD8:9545824\r\n'
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should split the SHA-1 hash into a 5 character prefix and the suffix', () => {
+    expect(toRangeQuery('password')).toEqual({ prefix: '5BAA6', suffix: '1E4C9B93F3F0682250B6CF8331B7EE68FD8' });
+  });
+
+  it('should ignore padding entries', () => {
+    expect(findSuffixCount('ABC:0\nDEF:2', 'ABC')).toBe(0);
+    expect(findSuffixCount('ABC:0\nDEF:2', 'DEF')).toBe(2);
+  });
+
+  it('should report a password listed in its range file', async () => {
+    const checker = new LocalBreachedPasswordChecker(directory, 1);
+    await expect(checker.isBreached('password')).resolves.toBe(true);
+  });
+
+  it('should accept passwords seen fewer times than the minimum count', async () => {
+    const checker = new LocalBreachedPasswordChecker(directory, 10000000);
+    await expect(checker.isBreached('password')).resolves.toBe(false);
+  });
+
+  it('should accept passwords whose range file does not exist', async () => {
+    const checker = new LocalBreachedPasswordChecker(directory, 1);
+    await expect(checker.isBreached('a-Very-unusual-passphrase-2026!')).resolves.toBe(false);
+  });
+});
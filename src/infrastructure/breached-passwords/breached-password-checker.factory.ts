@@ -0,0 +1,30 @@
+import fs from 'fs';
+import { IBreachedPasswordChecker } from '../../domain/services/ibreached-password-checker';
+import { breachedPasswordConfig } from '../config/breached-password.config';
+import { LocalBreachedPasswordChecker } from './local-breached-password.checker';
+import { RangeApiBreachedPasswordChecker } from './range-api-breached-password.checker';
+
+/**
+ * Create the checker selected by BREACHED_PASSWORD_SOURCE, or null when the check is disabled
+ * @throws Error if the local source is selected and its dataset is missing
+ */
+export function createBreachedPasswordChecker(
+  config: typeof breachedPasswordConfig = breachedPasswordConfig
+): IBreachedPasswordChecker | null {
+  switch (config.source) {
+    case 'local':
+      // Without the dataset every password would pass, so the check would be off without anyone noticing
+      if (!fs.existsSync(config.datasetDirectory)) {
+        throw new Error(
+          `Breached password dataset not found at "${config.datasetDirectory}" (set BREACHED_PASSWORD_DATASET_DIR or BREACHED_PASSWORD_SOURCE=none)`
+        );
+      }
+      return new LocalBreachedPasswordChecker(config.datasetDirectory, config.minCount);
+    case 'hibp':
+      return new RangeApiBreachedPasswordChecker(config.rangeApiUrl, config.minCount, config.timeoutMs);
+    case 'none':
+      return null;
+    default:
+      throw new Error(`Unknown BREACHED_PASSWORD_SOURCE "${config.source}" (expected local, hibp or none)`);
+  }
+}
@@ -0,0 +1,32 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { IBreachedPasswordChecker } from '../../domain/services/ibreached-password-checker';
+import { findSuffixCount, toRangeQuery } from './sha1-range';
+
+/**
+ * Looks passwords up in an offline dataset: one <PREFIX>.txt file per range, in the format of the
+ * range API (as written by the Pwned Passwords downloader), so no request leaves the network
+ * A prefix without a file has no breached passwords.
+ */
+export class LocalBreachedPasswordChecker implements IBreachedPasswordChecker {
+  constructor(
+    private directory: string,
+    private minCount: number
+  ) {}
+
+  async isBreached(password: string): Promise<boolean> {
+    const { prefix, suffix } = toRangeQuery(password);
+
+    let range: string;
+    try {
+      range = await fs.readFile(path.join(this.directory, `${prefix}.txt`), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+
+    return findSuffixCount(range, suffix) >= this.minCount;
+  }
+}
@@ -0,0 +1,28 @@
+import { IBreachedPasswordChecker } from '../../domain/services/ibreached-password-checker';
+import { findSuffixCount, toRangeQuery } from './sha1-range';
+
+/**
+ * Queries a Have I Been Pwned compatible range API (GET <url>/<PREFIX>)
+ * Only the 5 character hash prefix is sent; padding hides the size of the range from observers.
+ */
+export class RangeApiBreachedPasswordChecker implements IBreachedPasswordChecker {
+  constructor(
+    private baseUrl: string,
+    private minCount: number,
+    private timeoutMs: number
+  ) {}
+
+  async isBreached(password: string): Promise<boolean> {
+    const { prefix, suffix } = toRangeQuery(password);
+
+    const response = await fetch(`${this.baseUrl}/${prefix}`, {
+      headers: { 'Add-Padding': 'true', 'User-Agent': 'auth-service' },
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`Breached password range API responded with ${response.status}`);
+    }
+
+    return findSuffixCount(await response.text(), suffix) >= this.minCount;
+  }
+}
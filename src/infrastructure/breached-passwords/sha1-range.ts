@@ -0,0 +1,28 @@
+import crypto from 'crypto';
+
+export const RANGE_PREFIX_LENGTH = 5;
+
+/**
+ * Split the SHA-1 of a password into the range prefix that is looked up and the suffix that stays local
+ */
+export function toRangeQuery(password: string): { prefix: string; suffix: string } {
+  const hash = crypto.createHash('sha1').update(password, 'utf8').digest('hex').toUpperCase();
+  return { prefix: hash.slice(0, RANGE_PREFIX_LENGTH), suffix: hash.slice(RANGE_PREFIX_LENGTH) };
+}
+
+/**
+ * Find a suffix in a range listing ("SUFFIX:COUNT" per line)
+ * @returns How often the password was seen, 0 when it is not listed (padding entries have count 0)
+ */
+export function findSuffixCount(range: string, suffix: string): number {
+  for (const line of range.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator === -1) {
+      continue;
+    }
+    if (line.slice(0, separator).trim().toUpperCase() === suffix) {
+      return parseInt(line.slice(separator + 1), 10) || 0;
+    }
+  }
+  return 0;
+}
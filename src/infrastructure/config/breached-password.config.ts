@@ -0,0 +1,12 @@
+export type BreachedPasswordSource = 'local' | 'hibp' | 'none';
+
+export const breachedPasswordConfig = {
+  // local reads an offline dataset (works air-gapped); hibp queries a range API; none (default) disables the check
+  source: (process.env.BREACHED_PASSWORD_SOURCE || 'none') as BreachedPasswordSource,
+  // Passwords seen fewer times than this are accepted
+  minCount: parseInt(process.env.BREACHED_PASSWORD_MIN_COUNT || '1', 10),
+  // Directory of <PREFIX>.txt range files, each line SUFFIX:COUNT
+  datasetDirectory: process.env.BREACHED_PASSWORD_DATASET_DIR || './data/breached-passwords',
+  rangeApiUrl: (process.env.BREACHED_PASSWORD_RANGE_API_URL || 'https://api.pwnedpasswords.com/range').replace(/\/$/, ''),
+  timeoutMs: parseInt(process.env.BREACHED_PASSWORD_TIMEOUT_MS || '3000', 10),
+};
@@ -0,0 +1,49 @@
+export type MailTransportType = 'smtp' | 'file' | 'memory';
+
+// file and memory never deliver, and file keeps reset, invitation and login links in plain text on disk
+if (process.env.NODE_ENV === 'production' && process.env.MAIL_TRANSPORT !== 'smtp') {
+  throw new Error('MAIL_TRANSPORT must be set to smtp in production');
+}
+
+const frontendUrl = (process.env.APP_FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+
+export const emailConfig = {
+  // smtp (required in production); file writes .eml files for local development; memory keeps messages for tests
+  transport: (process.env.MAIL_TRANSPORT || 'file') as MailTransportType,
+  from: process.env.MAIL_FROM || 'Auth Service <no-reply@localhost>',
+  appName: process.env.MAIL_APP_NAME || process.env.SERVICE_NAME || 'Auth Service',
+  smtp: {
+    host: process.env.SMTP_HOST || 'localhost',
+    port: parseInt(process.env.SMTP_PORT || '587', 10),
+    // true: TLS from the first byte (port 465); false: upgrade with STARTTLS when offered
+    secure: process.env.SMTP_SECURE === 'true',
+    requireTls: process.env.SMTP_REQUIRE_TLS !== 'false',
+    user: process.env.SMTP_USER || '',
+    password: process.env.SMTP_PASSWORD || '',
+    timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '10000', 10),
+  },
+  fileDirectory: process.env.MAIL_FILE_DIR || './tmp/mail',
+  retry: {
+    maxAttempts: parseInt(process.env.MAIL_RETRY_MAX_ATTEMPTS || '6', 10),
+    baseDelaySeconds: parseInt(process.env.MAIL_RETRY_BASE_DELAY || '60', 10), // Doubles after each failure
+    intervalMs: parseInt(process.env.MAIL_RETRY_INTERVAL_MS || '30000', 10),
+    batchSize: parseInt(process.env.MAIL_RETRY_BATCH_SIZE || '20', 10),
+  },
+  // Links in emails point to the frontend, which calls the API
+  links: {
+    login: process.env.MAIL_LOGIN_URL || `${frontendUrl}/login`,
+    passwordReset: process.env.MAIL_PASSWORD_RESET_URL || `${frontendUrl}/reset-password`,
+    verifyEmail: process.env.MAIL_VERIFY_EMAIL_URL || `${frontendUrl}/verify-email`,
+    acceptInvitation: process.env.MAIL_ACCEPT_INVITATION_URL || `${frontendUrl}/accept-invitation`,
+    magicLink: process.env.MAIL_MAGIC_LINK_URL || `${frontendUrl}/magic-link`,
+  },
+  verification: {
+    tokenTtlSeconds: parseInt(process.env.EMAIL_VERIFICATION_TTL || '86400', 10), // 24 hours
+    resendCooldownSeconds: parseInt(process.env.EMAIL_VERIFICATION_RESEND_COOLDOWN || '60', 10),
+    maxPerHour: parseInt(process.env.EMAIL_VERIFICATION_MAX_PER_HOUR || '5', 10),
+  },
+  magicLink: {
+    tokenTtlSeconds: parseInt(process.env.MAGIC_LINK_TTL || '900', 10), // 15 minutes
+    maxPerHour: parseInt(process.env.MAGIC_LINK_MAX_PER_HOUR || '5', 10),
+  },
+};
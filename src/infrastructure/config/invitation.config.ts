@@ -0,0 +1,5 @@
+export const invitationConfig = {
+  ttlDays: parseInt(process.env.INVITATION_TTL_DAYS || '7', 10),
+  // Minimum time between two sends of the same invitation
+  resendCooldownSeconds: parseInt(process.env.INVITATION_RESEND_COOLDOWN || '60', 10),
+};
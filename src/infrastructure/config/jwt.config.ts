@@ -12,7 +12,11 @@ export const jwtConfig = {
   refreshSecret: process.env.JWT_REFRESH_SECRET,
   accessExpiresIn: process.env.JWT_ACCESS_EXPIRES_IN || '24h',
   refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d',
+  mfaChallengeExpiresIn: process.env.JWT_MFA_CHALLENGE_EXPIRES_IN || '5m',
   algorithm: 'HS256' as const,
+  // Asymmetric access token signing (RS256/ES256); HS256 with the shared secret when unset
+  keysetPath: process.env.JWT_KEYSET_PATH,
+  keyRotationOverlapSeconds: parseInt(process.env.JWT_KEY_ROTATION_OVERLAP_SECONDS || '172800', 10), // 2 days default
   issuer: 'auth-system',
   audience: 'auth-system-users',
 };
@@ -0,0 +1,11 @@
+// MFA secrets are encrypted at rest; fall back to the JWT secret so existing deployments keep booting
+const encryptionKey = process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET;
+
+if (!encryptionKey || encryptionKey.length < 32) {
+  throw new Error('MFA_ENCRYPTION_KEY must be at least 32 characters long');
+}
+
+export const mfaConfig = {
+  issuer: process.env.MFA_ISSUER || process.env.SERVICE_NAME || 'auth-service',
+  encryptionKey,
+};
@@ -0,0 +1,12 @@
+const port = process.env.PORT || '3000';
+
+export const oidcConfig = {
+  // ID tokens are only signed with the asymmetric keyset, never the shared secret, so the provider needs one
+  enabled: Boolean(process.env.JWT_KEYSET_PATH),
+  // Public base URL of this service; used as the "iss" claim and to build discovery URLs
+  issuer: (process.env.OIDC_ISSUER || `http://localhost:${port}`).replace(/\/$/, ''),
+  // Login page that collects credentials and then calls POST /auth/authorize
+  loginUrl: process.env.OIDC_LOGIN_URL || 'http://localhost:5173/oauth/login',
+  authorizationCodeTtlSeconds: parseInt(process.env.OIDC_AUTHORIZATION_CODE_TTL || '60', 10),
+  idTokenExpiresIn: process.env.OIDC_ID_TOKEN_EXPIRES_IN || '1h',
+};
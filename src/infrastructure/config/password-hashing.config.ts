@@ -0,0 +1,14 @@
+export type PasswordHashAlgorithmName = 'argon2id' | 'bcrypt';
+
+export const passwordHashingConfig = {
+  // New hashes use this algorithm; hashes of the other one still verify and are upgraded at login
+  algorithm: (process.env.PASSWORD_HASH_ALGORITHM || 'argon2id') as PasswordHashAlgorithmName,
+  argon2: {
+    memoryCost: parseInt(process.env.ARGON2_MEMORY_COST || '65536', 10), // KiB
+    timeCost: parseInt(process.env.ARGON2_TIME_COST || '3', 10),
+    parallelism: parseInt(process.env.ARGON2_PARALLELISM || '4', 10),
+  },
+  bcrypt: {
+    rounds: parseInt(process.env.BCRYPT_ROUNDS || '12', 10),
+  },
+};
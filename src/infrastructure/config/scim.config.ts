@@ -0,0 +1,8 @@
+const port = process.env.PORT || '3000';
+
+export const scimConfig = {
+  // Public base URL of this API; resource locations are built from it (the SCIM base URL is <baseUrl>/scim/v2)
+  baseUrl: (process.env.SCIM_BASE_URL || process.env.SSO_BASE_URL || process.env.OIDC_ISSUER || `http://localhost:${port}`).replace(/\/$/, ''),
+  // Largest page a list request returns, whatever count the client asks for
+  maxResults: parseInt(process.env.SCIM_MAX_RESULTS || '200', 10),
+};
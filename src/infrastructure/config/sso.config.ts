@@ -0,0 +1,25 @@
+const port = process.env.PORT || '3000';
+const frontendUrl = (process.env.APP_FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+
+const readPem = (value: string | undefined): string | null => (value ? value.replace(/\\n/g, '\n') : null);
+
+export const ssoConfig = {
+  // Public base URL of this API; service provider entity IDs and callback URLs are built from it
+  baseUrl: (process.env.SSO_BASE_URL || process.env.OIDC_ISSUER || `http://localhost:${port}`).replace(/\/$/, ''),
+  // Frontend page that receives the one-time login code after a successful SSO login
+  callbackUrl: process.env.SSO_CALLBACK_URL || `${frontendUrl}/sso/callback`,
+  requestTtlSeconds: parseInt(process.env.SSO_REQUEST_TTL || '600', 10), // 10 minutes to finish the login at the IdP
+  loginCodeTtlSeconds: parseInt(process.env.SSO_LOGIN_CODE_TTL || '60', 10),
+  saml: {
+    // Optional key pair used to sign AuthnRequests (PEM, "\n" escapes allowed)
+    privateKey: readPem(process.env.SAML_SP_PRIVATE_KEY),
+    certificate: readPem(process.env.SAML_SP_CERTIFICATE),
+    clockSkewMs: parseInt(process.env.SAML_CLOCK_SKEW_MS || '60000', 10),
+  },
+  oidc: {
+    // Provider discovery documents (and their signing keys) are re-read after this many seconds
+    discoveryCacheSeconds: parseInt(process.env.OIDC_DISCOVERY_CACHE_TTL || '3600', 10),
+    httpTimeoutMs: parseInt(process.env.OIDC_PROVIDER_TIMEOUT_MS || '5000', 10),
+    clockSkewSeconds: parseInt(process.env.OIDC_CLOCK_SKEW_SECONDS || '60', 10),
+  },
+};
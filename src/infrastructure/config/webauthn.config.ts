@@ -0,0 +1,10 @@
+const frontendUrl = (process.env.APP_FRONTEND_URL || 'http://localhost:5173').replace(/\/$/, '');
+
+export const webauthnConfig = {
+  // Relying party ID: the domain passkeys are bound to (the frontend's host or a parent domain)
+  rpId: process.env.WEBAUTHN_RP_ID || new URL(frontendUrl).hostname,
+  rpName: process.env.WEBAUTHN_RP_NAME || process.env.MAIL_APP_NAME || process.env.SERVICE_NAME || 'Auth Service',
+  // Origins the browser may report in client data, comma separated
+  origins: (process.env.WEBAUTHN_ORIGINS || frontendUrl).split(',').map((origin) => origin.trim().replace(/\/$/, '')),
+  challengeTtlSeconds: parseInt(process.env.WEBAUTHN_CHALLENGE_TTL || '300', 10), // 5 minutes
+};
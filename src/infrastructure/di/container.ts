@@ -84,11 +84,62 @@ export function initializeContainer(): void {
   const { UserRoleRepository } = require('../persistence/user-role.repository');
   const { SystemConfigRepository } = require('../persistence/system-config.repository');
   const { UserProfileRepository } = require('../persistence/user-profile.repository');
+  const { UserMfaRepository } = require('../persistence/user-mfa.repository');
+  const { MfaRecoveryCodeRepository } = require('../persistence/mfa-recovery-code.repository');
+  const { TenantSecuritySettingsRepository } = require('../persistence/tenant-security-settings.repository');
+  const { SessionRepository } = require('../persistence/session.repository');
+  const { TokenVersionRepository } = require('../persistence/token-version.repository');
+  const { OAuthClientRepository } = require('../persistence/oauth-client.repository');
+  const { OAuthAuthorizationCodeRepository } = require('../persistence/oauth-authorization-code.repository');
+  const { ApiKeyRepository } = require('../persistence/api-key.repository');
+  const { EmailTemplateRepository } = require('../persistence/email-template.repository');
+  const { EmailOutboxRepository } = require('../persistence/email-outbox.repository');
+  const { InvitationRepository } = require('../persistence/invitation.repository');
+  const { UserLockoutRepository } = require('../persistence/user-lockout.repository');
+  const { PasswordHistoryRepository } = require('../persistence/password-history.repository');
+  const { TenantPasswordPolicyRepository } = require('../persistence/tenant-password-policy.repository');
+  const { WebAuthnCredentialRepository } = require('../persistence/webauthn-credential.repository');
+  const { WebAuthnChallengeRepository } = require('../persistence/webauthn-challenge.repository');
+  const { TenantSamlConfigRepository } = require('../persistence/tenant-saml-config.repository');
+  const { UserIdentityRepository } = require('../persistence/user-identity.repository');
+  const { SsoLoginRequestRepository } = require('../persistence/sso-login-request.repository');
+  const { TenantOidcConnectorRepository } = require('../persistence/tenant-oidc-connector.repository');
+  const { ScimTokenRepository } = require('../persistence/scim-token.repository');
+  const { ScimUserRepository } = require('../persistence/scim-user.repository');
+  const { ScimGroupRepository } = require('../persistence/scim-group.repository');
+  const { AuditEventRepository } = require('../persistence/audit-event.repository');
   const { getCacheInstance } = require('../cache/redis-cache.repository');
 
   // Services
-  const { PasswordService } = require('../external/password.service');
+  const { createPasswordHasher } = require('../external/password-hasher.factory');
   const { JwtService } = require('../external/jwt.service');
+  const { TotpService } = require('../external/totp.service');
+  const { RecoveryCodeService } = require('../external/recovery-code.service');
+  const { SecureTokenService } = require('../external/secure-token.service');
+  const { WebAuthnService } = require('../external/webauthn.service');
+  const { SamlService } = require('../external/saml.service');
+  const { OidcService } = require('../external/oidc.service');
+  const { mfaConfig } = require('../config/mfa.config');
+  const { createMailTransport } = require('../email/mail-transport.factory');
+  const { createBreachedPasswordChecker } = require('../breached-passwords/breached-password-checker.factory');
+
+  // Application Services
+  const { AuthTokenService } = require('../../application/services/auth-token.service');
+  const { MfaPolicyService } = require('../../application/services/mfa-policy.service');
+  const { OidcClaimsService } = require('../../application/services/oidc-claims.service');
+  const { EmailService } = require('../../application/services/email.service');
+  const { EmailVerificationService } = require('../../application/services/email-verification.service');
+  const { AccountLockoutService } = require('../../application/services/account-lockout.service');
+  const { PasswordPolicyService } = require('../../application/services/password-policy.service');
+  const { PasswordHistoryService } = require('../../application/services/password-history.service');
+  const { WebAuthnCeremonyService } = require('../../application/services/webauthn-ceremony.service');
+  const { SsoLoginService } = require('../../application/services/sso-login.service');
+  const { SamlSsoService } = require('../../application/services/saml-sso.service');
+  const { OidcSsoService } = require('../../application/services/oidc-sso.service');
+  const { ScimResourceService } = require('../../application/services/scim-resource.service');
+  const { ScimPatchService } = require('../../application/services/scim-patch.service');
+  const { ScimProvisioningService } = require('../../application/services/scim-provisioning.service');
+  const { AuditLogService } = require('../../application/services/audit-log.service');
   
   // Domain Services
   const { AdminLimitService } = require('../../domain/services/admin-limit.service');
@@ -103,7 +154,101 @@ export function initializeContainer(): void {
   const { LogoutUseCase } = require('../../application/use-cases/auth/logout.use-case');
   const { ValidateTokenUseCase } = require('../../application/use-cases/auth/validate-token.use-case');
   const { ForgotPasswordUseCase } = require('../../application/use-cases/auth/forgot-password.use-case');
+  const { RequestMagicLinkUseCase } = require('../../application/use-cases/auth/request-magic-link.use-case');
+  const { MagicLinkLoginUseCase } = require('../../application/use-cases/auth/magic-link-login.use-case');
+  const { VerifyEmailUseCase } = require('../../application/use-cases/auth/verify-email.use-case');
+  const { ResendVerificationEmailUseCase } = require('../../application/use-cases/auth/resend-verification-email.use-case');
+  const { SendVerificationEmailUseCase } = require('../../application/use-cases/auth/send-verification-email.use-case');
   const { ResetPasswordUseCase } = require('../../application/use-cases/auth/reset-password.use-case');
+  const { ChangeExpiredPasswordUseCase } = require('../../application/use-cases/auth/change-expired-password.use-case');
+  const { ChangePasswordUseCase } = require('../../application/use-cases/auth/change-password.use-case');
+
+  // Use Cases - MFA
+  const { EnrollMfaUseCase } = require('../../application/use-cases/mfa/enroll-mfa.use-case');
+  const { ActivateMfaUseCase } = require('../../application/use-cases/mfa/activate-mfa.use-case');
+  const { DisableMfaUseCase } = require('../../application/use-cases/mfa/disable-mfa.use-case');
+  const { VerifyMfaLoginUseCase } = require('../../application/use-cases/mfa/verify-mfa-login.use-case');
+  const { RegenerateRecoveryCodesUseCase } = require('../../application/use-cases/mfa/regenerate-recovery-codes.use-case');
+  const { GetRecoveryCodeStatusUseCase } = require('../../application/use-cases/mfa/get-recovery-code-status.use-case');
+  const { StartRequiredMfaEnrollmentUseCase } = require('../../application/use-cases/mfa/start-required-mfa-enrollment.use-case');
+  const { CompleteRequiredMfaEnrollmentUseCase } = require('../../application/use-cases/mfa/complete-required-mfa-enrollment.use-case');
+
+  // Use Cases - WebAuthn
+  const { StartWebAuthnRegistrationUseCase } = require('../../application/use-cases/webauthn/start-webauthn-registration.use-case');
+  const { FinishWebAuthnRegistrationUseCase } = require('../../application/use-cases/webauthn/finish-webauthn-registration.use-case');
+  const { StartWebAuthnLoginUseCase } = require('../../application/use-cases/webauthn/start-webauthn-login.use-case');
+  const { FinishWebAuthnLoginUseCase } = require('../../application/use-cases/webauthn/finish-webauthn-login.use-case');
+  const { StartWebAuthnMfaUseCase } = require('../../application/use-cases/webauthn/start-webauthn-mfa.use-case');
+  const { FinishWebAuthnMfaUseCase } = require('../../application/use-cases/webauthn/finish-webauthn-mfa.use-case');
+  const { GetWebAuthnCredentialsUseCase } = require('../../application/use-cases/webauthn/get-webauthn-credentials.use-case');
+  const { RenameWebAuthnCredentialUseCase } = require('../../application/use-cases/webauthn/rename-webauthn-credential.use-case');
+  const { DeleteWebAuthnCredentialUseCase } = require('../../application/use-cases/webauthn/delete-webauthn-credential.use-case');
+
+  // Use Cases - SSO
+  const { GetSamlMetadataUseCase } = require('../../application/use-cases/sso/get-saml-metadata.use-case');
+  const { StartSamlLoginUseCase } = require('../../application/use-cases/sso/start-saml-login.use-case');
+  const { CompleteSamlLoginUseCase } = require('../../application/use-cases/sso/complete-saml-login.use-case');
+  const { ExchangeSsoLoginCodeUseCase } = require('../../application/use-cases/sso/exchange-sso-login-code.use-case');
+  const { StartOidcLoginUseCase } = require('../../application/use-cases/sso/start-oidc-login.use-case');
+  const { CompleteOidcLoginUseCase } = require('../../application/use-cases/sso/complete-oidc-login.use-case');
+  const { GetSsoLoginOptionsUseCase } = require('../../application/use-cases/sso/get-sso-login-options.use-case');
+  
+  // Use Cases - Session
+  const { GetSessionsUseCase } = require('../../application/use-cases/session/get-sessions.use-case');
+  const { RevokeSessionUseCase } = require('../../application/use-cases/session/revoke-session.use-case');
+  const { RevokeSessionsUseCase } = require('../../application/use-cases/session/revoke-sessions.use-case');
+
+  // Use Cases - OAuth / OpenID Connect
+  const { CreateOAuthClientUseCase } = require('../../application/use-cases/oauth/create-oauth-client.use-case');
+  const { GetOAuthClientsUseCase } = require('../../application/use-cases/oauth/get-oauth-clients.use-case');
+  const { DeleteOAuthClientUseCase } = require('../../application/use-cases/oauth/delete-oauth-client.use-case');
+  const { ValidateAuthorizationRequestUseCase } = require('../../application/use-cases/oauth/validate-authorization-request.use-case');
+  const { AuthorizeUseCase } = require('../../application/use-cases/oauth/authorize.use-case');
+  const { IssueOAuthTokenUseCase } = require('../../application/use-cases/oauth/issue-oauth-token.use-case');
+  const { GetUserInfoUseCase } = require('../../application/use-cases/oauth/get-user-info.use-case');
+  const { CreateServiceClientUseCase } = require('../../application/use-cases/oauth/create-service-client.use-case');
+  const { GetServiceClientsUseCase } = require('../../application/use-cases/oauth/get-service-clients.use-case');
+  const { UpdateServiceClientRolesUseCase } = require('../../application/use-cases/oauth/update-service-client-roles.use-case');
+
+  // Use Cases - API Key
+  const { CreateApiKeyUseCase } = require('../../application/use-cases/api-key/create-api-key.use-case');
+  const { GetApiKeysUseCase } = require('../../application/use-cases/api-key/get-api-keys.use-case');
+  const { RevokeApiKeyUseCase } = require('../../application/use-cases/api-key/revoke-api-key.use-case');
+  const { AuthenticateApiKeyUseCase } = require('../../application/use-cases/api-key/authenticate-api-key.use-case');
+
+  // Use Cases - SCIM
+  const { CreateScimTokenUseCase } = require('../../application/use-cases/scim/create-scim-token.use-case');
+  const { GetScimTokensUseCase } = require('../../application/use-cases/scim/get-scim-tokens.use-case');
+  const { RevokeScimTokenUseCase } = require('../../application/use-cases/scim/revoke-scim-token.use-case');
+  const { AuthenticateScimTokenUseCase } = require('../../application/use-cases/scim/authenticate-scim-token.use-case');
+  const { GetScimUsersUseCase } = require('../../application/use-cases/scim/get-scim-users.use-case');
+  const { GetScimUserUseCase } = require('../../application/use-cases/scim/get-scim-user.use-case');
+  const { CreateScimUserUseCase } = require('../../application/use-cases/scim/create-scim-user.use-case');
+  const { ReplaceScimUserUseCase } = require('../../application/use-cases/scim/replace-scim-user.use-case');
+  const { PatchScimUserUseCase } = require('../../application/use-cases/scim/patch-scim-user.use-case');
+  const { DeleteScimUserUseCase } = require('../../application/use-cases/scim/delete-scim-user.use-case');
+  const { GetScimGroupsUseCase } = require('../../application/use-cases/scim/get-scim-groups.use-case');
+  const { GetScimGroupUseCase } = require('../../application/use-cases/scim/get-scim-group.use-case');
+  const { CreateScimGroupUseCase } = require('../../application/use-cases/scim/create-scim-group.use-case');
+  const { ReplaceScimGroupUseCase } = require('../../application/use-cases/scim/replace-scim-group.use-case');
+  const { PatchScimGroupUseCase } = require('../../application/use-cases/scim/patch-scim-group.use-case');
+  const { DeleteScimGroupUseCase } = require('../../application/use-cases/scim/delete-scim-group.use-case');
+
+  // Use Cases - Audit Log
+  const { GetAuditLogsUseCase } = require('../../application/use-cases/audit-log/get-audit-logs.use-case');
+
+  // Use Cases - Invitation
+  const { CreateInvitationUseCase } = require('../../application/use-cases/invitation/create-invitation.use-case');
+  const { GetInvitationsUseCase } = require('../../application/use-cases/invitation/get-invitations.use-case');
+  const { ResendInvitationUseCase } = require('../../application/use-cases/invitation/resend-invitation.use-case');
+  const { RevokeInvitationUseCase } = require('../../application/use-cases/invitation/revoke-invitation.use-case');
+  const { GetInvitationPreviewUseCase } = require('../../application/use-cases/invitation/get-invitation-preview.use-case');
+  const { AcceptInvitationUseCase } = require('../../application/use-cases/invitation/accept-invitation.use-case');
+
+  // Use Cases - Email Template
+  const { GetEmailTemplatesUseCase } = require('../../application/use-cases/email-template/get-email-templates.use-case');
+  const { UpdateEmailTemplateUseCase } = require('../../application/use-cases/email-template/update-email-template.use-case');
+  const { ResetEmailTemplateUseCase } = require('../../application/use-cases/email-template/reset-email-template.use-case');
   
   // Use Cases - User
   const { CreateUserUseCase } = require('../../application/use-cases/user/create-user.use-case');
@@ -111,6 +256,7 @@ export function initializeContainer(): void {
   const { GetUserUseCase } = require('../../application/use-cases/user/get-user.use-case');
   const { UpdateUserUseCase } = require('../../application/use-cases/user/update-user.use-case');
   const { DeleteUserUseCase } = require('../../application/use-cases/user/delete-user.use-case');
+  const { UnlockUserUseCase } = require('../../application/use-cases/user/unlock-user.use-case');
   
   // Use Cases - Role
   const { CreateRoleUseCase } = require('../../application/use-cases/role/create-role.use-case');
@@ -125,6 +271,19 @@ export function initializeContainer(): void {
   const { GetTenantsUseCase } = require('../../application/use-cases/tenant/get-tenants.use-case');
   const { UpdateTenantUseCase } = require('../../application/use-cases/tenant/update-tenant.use-case');
   const { DeleteTenantUseCase } = require('../../application/use-cases/tenant/delete-tenant.use-case');
+  const { GetTenantSecuritySettingsUseCase } = require('../../application/use-cases/tenant/get-tenant-security-settings.use-case');
+  const { UpdateTenantSecuritySettingsUseCase } = require('../../application/use-cases/tenant/update-tenant-security-settings.use-case');
+  const { GetTenantPasswordPolicyUseCase } = require('../../application/use-cases/tenant/get-tenant-password-policy.use-case');
+  const { UpdateTenantPasswordPolicyUseCase } = require('../../application/use-cases/tenant/update-tenant-password-policy.use-case');
+  const { ResetTenantPasswordPolicyUseCase } = require('../../application/use-cases/tenant/reset-tenant-password-policy.use-case');
+  const { GetPasswordRequirementsUseCase } = require('../../application/use-cases/tenant/get-password-requirements.use-case');
+  const { GetTenantSamlConfigUseCase } = require('../../application/use-cases/tenant/get-tenant-saml-config.use-case');
+  const { UpdateTenantSamlConfigUseCase } = require('../../application/use-cases/tenant/update-tenant-saml-config.use-case');
+  const { DeleteTenantSamlConfigUseCase } = require('../../application/use-cases/tenant/delete-tenant-saml-config.use-case');
+  const { GetTenantOidcConnectorsUseCase } = require('../../application/use-cases/tenant/get-tenant-oidc-connectors.use-case');
+  const { CreateTenantOidcConnectorUseCase } = require('../../application/use-cases/tenant/create-tenant-oidc-connector.use-case');
+  const { UpdateTenantOidcConnectorUseCase } = require('../../application/use-cases/tenant/update-tenant-oidc-connector.use-case');
+  const { DeleteTenantOidcConnectorUseCase } = require('../../application/use-cases/tenant/delete-tenant-oidc-connector.use-case');
   
   // Use Cases - Permission
   const { CreatePermissionUseCase } = require('../../application/use-cases/permission/create-permission.use-case');
@@ -134,6 +293,7 @@ export function initializeContainer(): void {
   const { CreateUserProfileUseCase } = require('../../application/use-cases/user-profile/create-user-profile.use-case');
   const { UpdateUserProfileUseCase } = require('../../application/use-cases/user-profile/update-user-profile.use-case');
   const { GetUserProfileUseCase } = require('../../application/use-cases/user-profile/get-user-profile.use-case');
+  const { GetUserIdentitiesUseCase } = require('../../application/use-cases/user-profile/get-user-identities.use-case');
 
   // Get cache instance
   const cacheInstance = getCacheInstance();
@@ -153,13 +313,67 @@ export function initializeContainer(): void {
   container.bindClass('IUserRoleRepository', UserRoleRepository);
   container.bindClass('ISystemConfigRepository', SystemConfigRepository);
   container.bindClass('IUserProfileRepository', UserProfileRepository);
+  container.bindClass('IUserMfaRepository', UserMfaRepository);
+  container.bindClass('IMfaRecoveryCodeRepository', MfaRecoveryCodeRepository);
+  container.bindClass('ISessionRepository', SessionRepository);
+  container.bind('ITokenVersionRepository', () => {
+    return new TokenVersionRepository(cacheInstance);
+  });
+  container.bind('ITenantSecuritySettingsRepository', () => {
+    return new TenantSecuritySettingsRepository(cacheInstance);
+  });
+  container.bindClass('IOAuthClientRepository', OAuthClientRepository);
+  container.bindClass('IOAuthAuthorizationCodeRepository', OAuthAuthorizationCodeRepository);
+  container.bind('IApiKeyRepository', () => {
+    return new ApiKeyRepository(cacheInstance);
+  });
+  container.bind('IEmailTemplateRepository', () => {
+    return new EmailTemplateRepository(cacheInstance);
+  });
+  container.bindClass('IEmailOutboxRepository', EmailOutboxRepository);
+  container.bindClass('IInvitationRepository', InvitationRepository);
+  container.bindClass('IUserLockoutRepository', UserLockoutRepository);
+  container.bindClass('IPasswordHistoryRepository', PasswordHistoryRepository);
+  container.bind('ITenantPasswordPolicyRepository', () => {
+    return new TenantPasswordPolicyRepository(cacheInstance);
+  });
+  container.bindClass('IWebAuthnCredentialRepository', WebAuthnCredentialRepository);
+  container.bindClass('IWebAuthnChallengeRepository', WebAuthnChallengeRepository);
+  container.bind('ITenantSamlConfigRepository', () => {
+    return new TenantSamlConfigRepository(cacheInstance);
+  });
+  container.bindClass('IUserIdentityRepository', UserIdentityRepository);
+  container.bindClass('ISsoLoginRequestRepository', SsoLoginRequestRepository);
+  container.bindClass('ITenantOidcConnectorRepository', TenantOidcConnectorRepository);
+  container.bind('IScimTokenRepository', () => {
+    return new ScimTokenRepository(cacheInstance);
+  });
+  container.bind('IScimUserRepository', () => {
+    return new ScimUserRepository(cacheInstance);
+  });
+  container.bindClass('IScimGroupRepository', ScimGroupRepository);
+  container.bindClass('IAuditEventRepository', AuditEventRepository);
   container.bind('ICacheRepository', () => cacheInstance, true);
 
   // Register Services
   container.bind('JwtService', () => JwtService, false);
   
-  // Register IPasswordHasher (infrastructure implementation)
-  container.bind('IPasswordHasher', () => new PasswordService(), true);
+  // Register IPasswordHasher (selected by PASSWORD_HASH_ALGORITHM)
+  container.bind('IPasswordHasher', () => createPasswordHasher(), true);
+
+  // Register ITotpProvider (infrastructure implementation)
+  container.bind('ITotpProvider', () => new TotpService(), true);
+  container.bind('IRecoveryCodeGenerator', () => new RecoveryCodeService(), true);
+  container.bind('ISecureTokenGenerator', () => new SecureTokenService(), true);
+  container.bind('IWebAuthnProvider', () => new WebAuthnService(), true);
+  container.bind('ISamlProvider', () => new SamlService(), true);
+  container.bind('IOidcProvider', () => new OidcService(), true);
+
+  // Register IMailTransport (selected by MAIL_TRANSPORT)
+  container.bind('IMailTransport', () => createMailTransport(), true);
+
+  // Register IBreachedPasswordChecker (selected by BREACHED_PASSWORD_SOURCE, null when disabled)
+  container.bind('IBreachedPasswordChecker', () => createBreachedPasswordChecker(), true);
   
   // Register Domain Services
   container.bindClass('AdminLimitService', AdminLimitService);
@@ -170,6 +384,115 @@ export function initializeContainer(): void {
     return new TenantSetupService(container.get('IPermissionRepository'));
   });
 
+  // Register Application Services
+  container.bind('AuthTokenService', () => {
+    return new AuthTokenService(
+      container.get('ITokenRepository'),
+      container.get('IUserRoleRepository'),
+      container.get('ISessionRepository'),
+      container.get('ITokenVersionRepository')
+    );
+  });
+  container.bind('MfaPolicyService', () => {
+    return new MfaPolicyService(
+      container.get('ITenantSecuritySettingsRepository'),
+      container.get('IUserMfaRepository'),
+      container.get('IWebAuthnCredentialRepository'),
+      container.get('AuthTokenService')
+    );
+  });
+  container.bind('WebAuthnCeremonyService', () => {
+    return new WebAuthnCeremonyService(
+      container.get('IWebAuthnCredentialRepository'),
+      container.get('IWebAuthnChallengeRepository'),
+      container.get('IWebAuthnProvider')
+    );
+  });
+  container.bind('SsoLoginService', () => {
+    return new SsoLoginService(
+      container.get('IUserRepository'),
+      container.get('IUserIdentityRepository'),
+      container.get('ITokenRepository'),
+      container.get('PasswordDomainService'),
+      container.get('ISecureTokenGenerator'),
+      container.get('AuditLogService')
+    );
+  });
+  container.bind('SamlSsoService', () => {
+    return new SamlSsoService(
+      container.get('ISamlProvider'),
+      container.get('ISsoLoginRequestRepository'),
+      container.get('ISecureTokenGenerator')
+    );
+  });
+  container.bind('OidcSsoService', () => {
+    return new OidcSsoService(
+      container.get('IOidcProvider'),
+      container.get('ITenantOidcConnectorRepository'),
+      container.get('ISsoLoginRequestRepository'),
+      container.get('ISecureTokenGenerator')
+    );
+  });
+  container.bind('AccountLockoutService', () => {
+    return new AccountLockoutService(
+      container.get('IUserLockoutRepository'),
+      container.get('ITenantSecuritySettingsRepository')
+    );
+  });
+  container.bind('PasswordPolicyService', () => {
+    return new PasswordPolicyService(
+      container.get('ITenantPasswordPolicyRepository'),
+      container.get('IBreachedPasswordChecker')
+    );
+  });
+  container.bind('PasswordHistoryService', () => {
+    return new PasswordHistoryService(
+      container.get('IPasswordHistoryRepository'),
+      container.get('PasswordDomainService'),
+      container.get('PasswordPolicyService')
+    );
+  });
+  container.bind('OidcClaimsService', () => {
+    return new OidcClaimsService(container.get('IUserRoleRepository'));
+  });
+  container.bind('AuditLogService', () => {
+    return new AuditLogService(container.get('IAuditEventRepository'));
+  });
+  container.bind('ScimResourceService', () => new ScimResourceService(), true);
+  container.bind('ScimPatchService', () => new ScimPatchService(), true);
+  container.bind('ScimProvisioningService', () => {
+    return new ScimProvisioningService(
+      container.get('IScimUserRepository'),
+      container.get('IScimGroupRepository'),
+      container.get('IUserRepository'),
+      container.get('IRoleRepository'),
+      container.get('IUserRoleRepository'),
+      container.get('ISessionRepository'),
+      container.get('ITokenRepository'),
+      container.get('ITokenVersionRepository'),
+      container.get('AdminLimitService'),
+      container.get('PasswordDomainService'),
+      container.get('PasswordPolicyService'),
+      container.get('PasswordHistoryService'),
+      container.get('ISecureTokenGenerator'),
+      container.get('AuditLogService')
+    );
+  });
+  container.bind('EmailService', () => {
+    return new EmailService(
+      container.get('IEmailTemplateRepository'),
+      container.get('IEmailOutboxRepository'),
+      container.get('IMailTransport')
+    );
+  });
+  container.bind('EmailVerificationService', () => {
+    return new EmailVerificationService(
+      container.get('ITokenRepository'),
+      container.get('ITenantRepository'),
+      container.get('EmailService')
+    );
+  });
+
   // Register Use Cases - Auth
   container.bind('OnboardUseCase', () => {
     return new OnboardUseCase(
@@ -178,7 +501,8 @@ export function initializeContainer(): void {
       container.get('IRoleRepository'),
       container.get('IPermissionRepository'),
       container.get('ISystemConfigRepository'),
-      container.get('PasswordDomainService')
+      container.get('PasswordDomainService'),
+      container.get('PasswordPolicyService')
     );
   });
 
@@ -192,7 +516,8 @@ export function initializeContainer(): void {
       container.get('ISystemConfigRepository'),
       container.get('AdminLimitService'),
       container.get('PasswordDomainService'),
-      container.get('TenantSetupService')
+      container.get('TenantSetupService'),
+      container.get('PasswordPolicyService')
     );
   });
 
@@ -200,9 +525,14 @@ export function initializeContainer(): void {
     return new LoginUseCase(
       container.get('IUserRepository'),
       container.get('ITenantRepository'),
-      container.get('ITokenRepository'),
       container.get('IUserRoleRepository'),
-      container.get('PasswordDomainService')
+      container.get('PasswordDomainService'),
+      container.get('MfaPolicyService'),
+      container.get('ITenantSecuritySettingsRepository'),
+      container.get('AccountLockoutService'),
+      container.get('PasswordPolicyService'),
+      container.get('ITenantSamlConfigRepository'),
+      container.get('AuditLogService')
     );
   });
 
@@ -210,7 +540,8 @@ export function initializeContainer(): void {
     return new RefreshTokenUseCase(
       container.get('ITokenRepository'),
       container.get('IUserRepository'),
-      container.get('IUserRoleRepository')
+      container.get('AuthTokenService'),
+      container.get('MfaPolicyService')
     );
   });
 
@@ -221,7 +552,9 @@ export function initializeContainer(): void {
   container.bind('ValidateTokenUseCase', () => {
     return new ValidateTokenUseCase(
       container.get('IUserRepository'),
-      container.get('IUserRoleRepository')
+      container.get('IUserRoleRepository'),
+      container.get('ITokenVersionRepository'),
+      container.get('IOAuthClientRepository')
     );
   });
 
@@ -229,18 +562,618 @@ export function initializeContainer(): void {
     return new ForgotPasswordUseCase(
       container.get('IUserRepository'),
       container.get('ITenantRepository'),
+      container.get('ITokenRepository'),
+      container.get('EmailService')
+    );
+  });
+
+  container.bind('RequestMagicLinkUseCase', () => {
+    return new RequestMagicLinkUseCase(
+      container.get('IUserRepository'),
+      container.get('ITenantRepository'),
+      container.get('ITenantSecuritySettingsRepository'),
+      container.get('ITokenRepository'),
+      container.get('EmailService')
+    );
+  });
+
+  container.bind('MagicLinkLoginUseCase', () => {
+    return new MagicLinkLoginUseCase(
+      container.get('IUserRepository'),
+      container.get('ITokenRepository'),
+      container.get('ITenantSecuritySettingsRepository'),
+      container.get('AccountLockoutService'),
+      container.get('MfaPolicyService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('VerifyEmailUseCase', () => {
+    return new VerifyEmailUseCase(
+      container.get('IUserRepository'),
       container.get('ITokenRepository')
     );
   });
 
+  container.bind('ResendVerificationEmailUseCase', () => {
+    return new ResendVerificationEmailUseCase(
+      container.get('IUserRepository'),
+      container.get('ITenantRepository'),
+      container.get('EmailVerificationService')
+    );
+  });
+
+  container.bind('SendVerificationEmailUseCase', () => {
+    return new SendVerificationEmailUseCase(
+      container.get('IUserRepository'),
+      container.get('EmailVerificationService')
+    );
+  });
+
   container.bind('ResetPasswordUseCase', () => {
     return new ResetPasswordUseCase(
       container.get('IUserRepository'),
       container.get('ITokenRepository'),
-      container.get('IPasswordHasher')
+      container.get('IPasswordHasher'),
+      container.get('ITokenVersionRepository'),
+      container.get('PasswordHistoryService'),
+      container.get('PasswordPolicyService')
+    );
+  });
+
+  container.bind('ChangeExpiredPasswordUseCase', () => {
+    return new ChangeExpiredPasswordUseCase(
+      container.get('IUserRepository'),
+      container.get('ITokenRepository'),
+      container.get('ITokenVersionRepository'),
+      container.get('PasswordDomainService'),
+      container.get('PasswordHistoryService'),
+      container.get('PasswordPolicyService'),
+      container.get('MfaPolicyService'),
+      container.get('AccountLockoutService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('ChangePasswordUseCase', () => {
+    return new ChangePasswordUseCase(
+      container.get('IUserRepository'),
+      container.get('PasswordDomainService'),
+      container.get('PasswordHistoryService'),
+      container.get('PasswordPolicyService'),
+      container.get('RevokeSessionsUseCase'),
+      container.get('ITokenRepository'),
+      container.get('ITokenVersionRepository'),
+      container.get('AuthTokenService')
+    );
+  });
+
+  // Register Use Cases - MFA
+  container.bind('EnrollMfaUseCase', () => {
+    return new EnrollMfaUseCase(
+      container.get('IUserRepository'),
+      container.get('IUserMfaRepository'),
+      container.get('ITotpProvider'),
+      mfaConfig.issuer
+    );
+  });
+
+  container.bind('ActivateMfaUseCase', () => {
+    return new ActivateMfaUseCase(
+      container.get('IUserMfaRepository'),
+      container.get('IMfaRecoveryCodeRepository'),
+      container.get('ITotpProvider'),
+      container.get('IRecoveryCodeGenerator')
+    );
+  });
+
+  container.bind('DisableMfaUseCase', () => {
+    return new DisableMfaUseCase(
+      container.get('IUserRepository'),
+      container.get('IUserMfaRepository'),
+      container.get('IMfaRecoveryCodeRepository'),
+      container.get('ITotpProvider'),
+      container.get('MfaPolicyService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('VerifyMfaLoginUseCase', () => {
+    return new VerifyMfaLoginUseCase(
+      container.get('IUserRepository'),
+      container.get('IUserMfaRepository'),
+      container.get('IMfaRecoveryCodeRepository'),
+      container.get('ITotpProvider'),
+      container.get('IRecoveryCodeGenerator'),
+      container.get('AuthTokenService'),
+      container.get('AccountLockoutService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('RegenerateRecoveryCodesUseCase', () => {
+    return new RegenerateRecoveryCodesUseCase(
+      container.get('IUserMfaRepository'),
+      container.get('IMfaRecoveryCodeRepository'),
+      container.get('ITotpProvider'),
+      container.get('IRecoveryCodeGenerator')
+    );
+  });
+
+  container.bind('GetRecoveryCodeStatusUseCase', () => {
+    return new GetRecoveryCodeStatusUseCase(
+      container.get('IUserMfaRepository'),
+      container.get('IMfaRecoveryCodeRepository')
+    );
+  });
+
+  container.bind('StartRequiredMfaEnrollmentUseCase', () => {
+    return new StartRequiredMfaEnrollmentUseCase(container.get('EnrollMfaUseCase'));
+  });
+
+  container.bind('CompleteRequiredMfaEnrollmentUseCase', () => {
+    return new CompleteRequiredMfaEnrollmentUseCase(
+      container.get('IUserRepository'),
+      container.get('ActivateMfaUseCase'),
+      container.get('AuthTokenService'),
+      container.get('AccountLockoutService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  // Register Use Cases - WebAuthn
+  container.bind('StartWebAuthnRegistrationUseCase', () => {
+    return new StartWebAuthnRegistrationUseCase(
+      container.get('IUserRepository'),
+      container.get('WebAuthnCeremonyService')
+    );
+  });
+
+  container.bind('FinishWebAuthnRegistrationUseCase', () => {
+    return new FinishWebAuthnRegistrationUseCase(
+      container.get('IUserRepository'),
+      container.get('WebAuthnCeremonyService')
+    );
+  });
+
+  container.bind('StartWebAuthnLoginUseCase', () => {
+    return new StartWebAuthnLoginUseCase(container.get('WebAuthnCeremonyService'));
+  });
+
+  container.bind('FinishWebAuthnLoginUseCase', () => {
+    return new FinishWebAuthnLoginUseCase(
+      container.get('IUserRepository'),
+      container.get('WebAuthnCeremonyService'),
+      container.get('ITenantSecuritySettingsRepository'),
+      container.get('AccountLockoutService'),
+      container.get('AuthTokenService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('StartWebAuthnMfaUseCase', () => {
+    return new StartWebAuthnMfaUseCase(
+      container.get('IUserRepository'),
+      container.get('WebAuthnCeremonyService')
+    );
+  });
+
+  container.bind('FinishWebAuthnMfaUseCase', () => {
+    return new FinishWebAuthnMfaUseCase(
+      container.get('IUserRepository'),
+      container.get('WebAuthnCeremonyService'),
+      container.get('AuthTokenService'),
+      container.get('AccountLockoutService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('GetWebAuthnCredentialsUseCase', () => {
+    return new GetWebAuthnCredentialsUseCase(
+      container.get('IUserRepository'),
+      container.get('IWebAuthnCredentialRepository')
+    );
+  });
+
+  container.bind('RenameWebAuthnCredentialUseCase', () => {
+    return new RenameWebAuthnCredentialUseCase(
+      container.get('IUserRepository'),
+      container.get('IWebAuthnCredentialRepository')
+    );
+  });
+
+  container.bind('DeleteWebAuthnCredentialUseCase', () => {
+    return new DeleteWebAuthnCredentialUseCase(
+      container.get('IUserRepository'),
+      container.get('IWebAuthnCredentialRepository'),
+      container.get('MfaPolicyService')
+    );
+  });
+
+  // Register Use Cases - SSO
+  container.bind('GetSamlMetadataUseCase', () => {
+    return new GetSamlMetadataUseCase(
+      container.get('ITenantRepository'),
+      container.get('SamlSsoService')
+    );
+  });
+
+  container.bind('StartSamlLoginUseCase', () => {
+    return new StartSamlLoginUseCase(
+      container.get('ITenantRepository'),
+      container.get('ITenantSamlConfigRepository'),
+      container.get('SamlSsoService')
+    );
+  });
+
+  container.bind('CompleteSamlLoginUseCase', () => {
+    return new CompleteSamlLoginUseCase(
+      container.get('ITenantSamlConfigRepository'),
+      container.get('SamlSsoService'),
+      container.get('SsoLoginService')
+    );
+  });
+
+  container.bind('ExchangeSsoLoginCodeUseCase', () => {
+    return new ExchangeSsoLoginCodeUseCase(
+      container.get('IUserRepository'),
+      container.get('ITokenRepository'),
+      container.get('ITenantSecuritySettingsRepository'),
+      container.get('AccountLockoutService'),
+      container.get('MfaPolicyService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('StartOidcLoginUseCase', () => {
+    return new StartOidcLoginUseCase(
+      container.get('ITenantRepository'),
+      container.get('ITenantOidcConnectorRepository'),
+      container.get('OidcSsoService')
+    );
+  });
+
+  container.bind('CompleteOidcLoginUseCase', () => {
+    return new CompleteOidcLoginUseCase(
+      container.get('OidcSsoService'),
+      container.get('SsoLoginService')
+    );
+  });
+
+  container.bind('GetSsoLoginOptionsUseCase', () => {
+    return new GetSsoLoginOptionsUseCase(
+      container.get('ITenantRepository'),
+      container.get('ITenantSamlConfigRepository'),
+      container.get('ITenantOidcConnectorRepository'),
+      container.get('SamlSsoService'),
+      container.get('OidcSsoService')
+    );
+  });
+
+  // Register Use Cases - Session
+  container.bind('GetSessionsUseCase', () => {
+    return new GetSessionsUseCase(
+      container.get('IUserRepository'),
+      container.get('ISessionRepository')
+    );
+  });
+
+  container.bind('RevokeSessionUseCase', () => {
+    return new RevokeSessionUseCase(
+      container.get('IUserRepository'),
+      container.get('ISessionRepository'),
+      container.get('ITokenRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('RevokeSessionsUseCase', () => {
+    return new RevokeSessionsUseCase(
+      container.get('IUserRepository'),
+      container.get('ISessionRepository'),
+      container.get('ITokenRepository'),
+      container.get('ITokenVersionRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  // Register Use Cases - OAuth / OpenID Connect
+  container.bind('CreateOAuthClientUseCase', () => {
+    return new CreateOAuthClientUseCase(
+      container.get('ITenantRepository'),
+      container.get('IOAuthClientRepository'),
+      container.get('ISecureTokenGenerator'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('GetOAuthClientsUseCase', () => {
+    return new GetOAuthClientsUseCase(container.get('IOAuthClientRepository'));
+  });
+
+  container.bind('DeleteOAuthClientUseCase', () => {
+    return new DeleteOAuthClientUseCase(
+      container.get('IOAuthClientRepository'),
+      container.get('ITokenVersionRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('ValidateAuthorizationRequestUseCase', () => {
+    return new ValidateAuthorizationRequestUseCase(container.get('IOAuthClientRepository'));
+  });
+
+  container.bind('AuthorizeUseCase', () => {
+    return new AuthorizeUseCase(
+      container.get('IUserRepository'),
+      container.get('IOAuthAuthorizationCodeRepository'),
+      container.get('ISecureTokenGenerator'),
+      container.get('ValidateAuthorizationRequestUseCase')
+    );
+  });
+
+  container.bind('IssueOAuthTokenUseCase', () => {
+    return new IssueOAuthTokenUseCase(
+      container.get('IUserRepository'),
+      container.get('IOAuthClientRepository'),
+      container.get('IOAuthAuthorizationCodeRepository'),
+      container.get('ISecureTokenGenerator'),
+      container.get('ITokenVersionRepository'),
+      container.get('AuthTokenService'),
+      container.get('OidcClaimsService'),
+      container.get('RefreshTokenUseCase')
+    );
+  });
+
+  container.bind('GetUserInfoUseCase', () => {
+    return new GetUserInfoUseCase(container.get('OidcClaimsService'));
+  });
+
+  container.bind('CreateServiceClientUseCase', () => {
+    return new CreateServiceClientUseCase(
+      container.get('ITenantRepository'),
+      container.get('IRoleRepository'),
+      container.get('IOAuthClientRepository'),
+      container.get('ISecureTokenGenerator'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('GetServiceClientsUseCase', () => {
+    return new GetServiceClientsUseCase(container.get('IOAuthClientRepository'));
+  });
+
+  container.bind('UpdateServiceClientRolesUseCase', () => {
+    return new UpdateServiceClientRolesUseCase(
+      container.get('IRoleRepository'),
+      container.get('IOAuthClientRepository'),
+      container.get('ITokenVersionRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  // Register Use Cases - API Key
+  container.bind('CreateApiKeyUseCase', () => {
+    return new CreateApiKeyUseCase(
+      container.get('ITenantRepository'),
+      container.get('IPermissionRepository'),
+      container.get('IApiKeyRepository'),
+      container.get('ISecureTokenGenerator'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('GetApiKeysUseCase', () => {
+    return new GetApiKeysUseCase(container.get('IApiKeyRepository'));
+  });
+
+  container.bind('RevokeApiKeyUseCase', () => {
+    return new RevokeApiKeyUseCase(
+      container.get('IApiKeyRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('AuthenticateApiKeyUseCase', () => {
+    return new AuthenticateApiKeyUseCase(
+      container.get('IApiKeyRepository'),
+      container.get('ISecureTokenGenerator')
+    );
+  });
+
+  // Register Use Cases - SCIM
+  container.bind('CreateScimTokenUseCase', () => {
+    return new CreateScimTokenUseCase(
+      container.get('ITenantRepository'),
+      container.get('IScimTokenRepository'),
+      container.get('ISecureTokenGenerator'),
+      container.get('ScimResourceService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('GetScimTokensUseCase', () => {
+    return new GetScimTokensUseCase(container.get('IScimTokenRepository'));
+  });
+
+  container.bind('RevokeScimTokenUseCase', () => {
+    return new RevokeScimTokenUseCase(
+      container.get('IScimTokenRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('AuthenticateScimTokenUseCase', () => {
+    return new AuthenticateScimTokenUseCase(
+      container.get('IScimTokenRepository'),
+      container.get('ISecureTokenGenerator')
+    );
+  });
+
+  container.bind('GetScimUsersUseCase', () => {
+    return new GetScimUsersUseCase(
+      container.get('IScimUserRepository'),
+      container.get('ScimResourceService')
+    );
+  });
+
+  container.bind('GetScimUserUseCase', () => {
+    return new GetScimUserUseCase(
+      container.get('IScimUserRepository'),
+      container.get('ScimResourceService')
+    );
+  });
+
+  container.bind('CreateScimUserUseCase', () => {
+    return new CreateScimUserUseCase(
+      container.get('ScimProvisioningService'),
+      container.get('ScimResourceService')
+    );
+  });
+
+  container.bind('ReplaceScimUserUseCase', () => {
+    return new ReplaceScimUserUseCase(
+      container.get('IScimUserRepository'),
+      container.get('ScimProvisioningService'),
+      container.get('ScimResourceService')
+    );
+  });
+
+  container.bind('PatchScimUserUseCase', () => {
+    return new PatchScimUserUseCase(
+      container.get('IScimUserRepository'),
+      container.get('ScimProvisioningService'),
+      container.get('ScimResourceService'),
+      container.get('ScimPatchService')
+    );
+  });
+
+  container.bind('DeleteScimUserUseCase', () => {
+    return new DeleteScimUserUseCase(
+      container.get('IScimUserRepository'),
+      container.get('ScimProvisioningService')
+    );
+  });
+
+  container.bind('GetScimGroupsUseCase', () => {
+    return new GetScimGroupsUseCase(
+      container.get('IScimGroupRepository'),
+      container.get('ScimResourceService')
+    );
+  });
+
+  container.bind('GetScimGroupUseCase', () => {
+    return new GetScimGroupUseCase(
+      container.get('IScimGroupRepository'),
+      container.get('ScimResourceService')
+    );
+  });
+
+  container.bind('CreateScimGroupUseCase', () => {
+    return new CreateScimGroupUseCase(
+      container.get('ScimProvisioningService'),
+      container.get('ScimResourceService')
+    );
+  });
+
+  container.bind('ReplaceScimGroupUseCase', () => {
+    return new ReplaceScimGroupUseCase(
+      container.get('IScimGroupRepository'),
+      container.get('ScimProvisioningService'),
+      container.get('ScimResourceService')
+    );
+  });
+
+  container.bind('PatchScimGroupUseCase', () => {
+    return new PatchScimGroupUseCase(
+      container.get('IScimGroupRepository'),
+      container.get('ScimProvisioningService'),
+      container.get('ScimResourceService'),
+      container.get('ScimPatchService')
+    );
+  });
+
+  container.bind('DeleteScimGroupUseCase', () => {
+    return new DeleteScimGroupUseCase(
+      container.get('IScimGroupRepository'),
+      container.get('ScimProvisioningService')
+    );
+  });
+
+  // Register Use Cases - Audit Log
+  container.bind('GetAuditLogsUseCase', () => {
+    return new GetAuditLogsUseCase(container.get('IAuditEventRepository'));
+  });
+
+  // Register Use Cases - Invitation
+  container.bind('CreateInvitationUseCase', () => {
+    return new CreateInvitationUseCase(
+      container.get('ITenantRepository'),
+      container.get('IUserRepository'),
+      container.get('IRoleRepository'),
+      container.get('IInvitationRepository'),
+      container.get('AdminLimitService'),
+      container.get('ISecureTokenGenerator'),
+      container.get('EmailService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('GetInvitationsUseCase', () => {
+    return new GetInvitationsUseCase(container.get('IInvitationRepository'));
+  });
+
+  container.bind('ResendInvitationUseCase', () => {
+    return new ResendInvitationUseCase(
+      container.get('ITenantRepository'),
+      container.get('IUserRepository'),
+      container.get('IInvitationRepository'),
+      container.get('ISecureTokenGenerator'),
+      container.get('EmailService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('RevokeInvitationUseCase', () => {
+    return new RevokeInvitationUseCase(container.get('IInvitationRepository'), container.get('AuditLogService'));
+  });
+
+  container.bind('GetInvitationPreviewUseCase', () => {
+    return new GetInvitationPreviewUseCase(
+      container.get('ITenantRepository'),
+      container.get('IInvitationRepository'),
+      container.get('ISecureTokenGenerator')
     );
   });
 
+  container.bind('AcceptInvitationUseCase', () => {
+    return new AcceptInvitationUseCase(
+      container.get('IInvitationRepository'),
+      container.get('IUserRoleRepository'),
+      container.get('ISecureTokenGenerator'),
+      container.get('PasswordDomainService'),
+      container.get('PasswordPolicyService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  // Register Use Cases - Email Template
+  container.bind('GetEmailTemplatesUseCase', () => {
+    return new GetEmailTemplatesUseCase(container.get('IEmailTemplateRepository'));
+  });
+
+  container.bind('UpdateEmailTemplateUseCase', () => {
+    return new UpdateEmailTemplateUseCase(
+      container.get('ITenantRepository'),
+      container.get('IEmailTemplateRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('ResetEmailTemplateUseCase', () => {
+    return new ResetEmailTemplateUseCase(container.get('IEmailTemplateRepository'), container.get('AuditLogService'));
+  });
+
   // Register Use Cases - User
   container.bind('CreateUserUseCase', () => {
     return new CreateUserUseCase(
@@ -248,7 +1181,9 @@ export function initializeContainer(): void {
       container.get('IRoleRepository'),
       container.get('IUserRoleRepository'),
       container.get('AdminLimitService'),
-      container.get('PasswordDomainService')
+      container.get('PasswordDomainService'),
+      container.get('PasswordPolicyService'),
+      container.get('AuditLogService')
     );
   });
 
@@ -272,7 +1207,13 @@ export function initializeContainer(): void {
       container.get('IRoleRepository'),
       container.get('IUserRoleRepository'),
       container.get('AdminLimitService'),
-      container.get('PasswordDomainService')
+      container.get('PasswordDomainService'),
+      container.get('ITokenVersionRepository'),
+      container.get('EmailService'),
+      container.get('EmailVerificationService'),
+      container.get('PasswordHistoryService'),
+      container.get('PasswordPolicyService'),
+      container.get('AuditLogService')
     );
   });
 
@@ -280,7 +1221,17 @@ export function initializeContainer(): void {
     return new DeleteUserUseCase(
       container.get('IUserRepository'),
       container.get('IUserRoleRepository'),
-      container.get('AdminLimitService')
+      container.get('AdminLimitService'),
+      container.get('ITokenVersionRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('UnlockUserUseCase', () => {
+    return new UnlockUserUseCase(
+      container.get('IUserRepository'),
+      container.get('IUserLockoutRepository'),
+      container.get('AuditLogService')
     );
   });
 
@@ -288,7 +1239,8 @@ export function initializeContainer(): void {
   container.bind('CreateRoleUseCase', () => {
     return new CreateRoleUseCase(
       container.get('IRoleRepository'),
-      container.get('IPermissionRepository')
+      container.get('IPermissionRepository'),
+      container.get('AuditLogService')
     );
   });
 
@@ -303,12 +1255,16 @@ export function initializeContainer(): void {
   container.bind('UpdateRoleUseCase', () => {
     return new UpdateRoleUseCase(
       container.get('IRoleRepository'),
-      container.get('IPermissionRepository')
+      container.get('IPermissionRepository'),
+      container.get('AuditLogService')
     );
   });
 
   container.bind('DeleteRoleUseCase', () => {
-    return new DeleteRoleUseCase(container.get('IRoleRepository'));
+    return new DeleteRoleUseCase(
+      container.get('IRoleRepository'),
+      container.get('AuditLogService')
+    );
   });
 
   container.bind('CreateRoleForTenantUseCase', () => {
@@ -327,7 +1283,8 @@ export function initializeContainer(): void {
       container.get('IUserRoleRepository'),
       container.get('IPermissionRepository'),
       container.get('PasswordDomainService'),
-      container.get('TenantSetupService')
+      container.get('TenantSetupService'),
+      container.get('PasswordPolicyService')
     );
   });
 
@@ -336,11 +1293,129 @@ export function initializeContainer(): void {
   });
 
   container.bind('UpdateTenantUseCase', () => {
-    return new UpdateTenantUseCase(container.get('ITenantRepository'));
+    return new UpdateTenantUseCase(
+      container.get('ITenantRepository'),
+      container.get('AuditLogService')
+    );
   });
 
   container.bind('DeleteTenantUseCase', () => {
-    return new DeleteTenantUseCase(container.get('ITenantRepository'));
+    return new DeleteTenantUseCase(
+      container.get('ITenantRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('GetTenantSecuritySettingsUseCase', () => {
+    return new GetTenantSecuritySettingsUseCase(
+      container.get('ITenantRepository'),
+      container.get('ITenantSecuritySettingsRepository')
+    );
+  });
+
+  container.bind('UpdateTenantSecuritySettingsUseCase', () => {
+    return new UpdateTenantSecuritySettingsUseCase(
+      container.get('ITenantRepository'),
+      container.get('ITenantSecuritySettingsRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('GetTenantPasswordPolicyUseCase', () => {
+    return new GetTenantPasswordPolicyUseCase(
+      container.get('ITenantRepository'),
+      container.get('ITenantPasswordPolicyRepository')
+    );
+  });
+
+  container.bind('UpdateTenantPasswordPolicyUseCase', () => {
+    return new UpdateTenantPasswordPolicyUseCase(
+      container.get('ITenantRepository'),
+      container.get('ITenantPasswordPolicyRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('ResetTenantPasswordPolicyUseCase', () => {
+    return new ResetTenantPasswordPolicyUseCase(
+      container.get('ITenantRepository'),
+      container.get('ITenantPasswordPolicyRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('GetPasswordRequirementsUseCase', () => {
+    return new GetPasswordRequirementsUseCase(
+      container.get('ITenantRepository'),
+      container.get('PasswordPolicyService')
+    );
+  });
+
+  container.bind('GetTenantSamlConfigUseCase', () => {
+    return new GetTenantSamlConfigUseCase(
+      container.get('ITenantRepository'),
+      container.get('ITenantSamlConfigRepository'),
+      container.get('SamlSsoService')
+    );
+  });
+
+  container.bind('UpdateTenantSamlConfigUseCase', () => {
+    return new UpdateTenantSamlConfigUseCase(
+      container.get('ITenantRepository'),
+      container.get('IRoleRepository'),
+      container.get('ITenantSamlConfigRepository'),
+      container.get('ISamlProvider'),
+      container.get('SamlSsoService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('DeleteTenantSamlConfigUseCase', () => {
+    return new DeleteTenantSamlConfigUseCase(
+      container.get('ITenantRepository'),
+      container.get('ITenantSamlConfigRepository'),
+      container.get('IUserIdentityRepository'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('GetTenantOidcConnectorsUseCase', () => {
+    return new GetTenantOidcConnectorsUseCase(
+      container.get('ITenantRepository'),
+      container.get('ITenantOidcConnectorRepository'),
+      container.get('OidcSsoService')
+    );
+  });
+
+  container.bind('CreateTenantOidcConnectorUseCase', () => {
+    return new CreateTenantOidcConnectorUseCase(
+      container.get('ITenantRepository'),
+      container.get('IRoleRepository'),
+      container.get('ITenantOidcConnectorRepository'),
+      container.get('IOidcProvider'),
+      container.get('OidcSsoService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('UpdateTenantOidcConnectorUseCase', () => {
+    return new UpdateTenantOidcConnectorUseCase(
+      container.get('ITenantRepository'),
+      container.get('IRoleRepository'),
+      container.get('ITenantOidcConnectorRepository'),
+      container.get('IOidcProvider'),
+      container.get('OidcSsoService'),
+      container.get('AuditLogService')
+    );
+  });
+
+  container.bind('DeleteTenantOidcConnectorUseCase', () => {
+    return new DeleteTenantOidcConnectorUseCase(
+      container.get('ITenantRepository'),
+      container.get('ITenantOidcConnectorRepository'),
+      container.get('IUserIdentityRepository'),
+      container.get('AuditLogService')
+    );
   });
 
   // Register Use Cases - Permission
@@ -384,4 +1459,13 @@ export function initializeContainer(): void {
       container.get('IUserRepository')
     );
   });
+
+  container.bind('GetUserIdentitiesUseCase', () => {
+    return new GetUserIdentitiesUseCase(
+      container.get('IUserRepository'),
+      container.get('IUserIdentityRepository'),
+      container.get('ITenantSamlConfigRepository'),
+      container.get('ITenantOidcConnectorRepository')
+    );
+  });
 }
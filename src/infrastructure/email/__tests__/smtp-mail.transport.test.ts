@@ -0,0 +1,114 @@
+import net from 'net';
+import { SmtpMailTransport, SmtpOptions } from '../smtp-mail.transport';
+
+/**
+ * Scripted SMTP server that records the commands it receives
+ */
+function startServer(replies: { ehlo: string[]; auth?: string }) {
+  const commands: string[] = [];
+  let data = '';
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    let inData = false;
+
+    socket.write('220 test ESMTP\r\n');
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString();
+      let index: number;
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+
+        if (inData) {
+          if (line === '.') {
+            inData = false;
+            socket.write('250 queued\r\n');
+          } else {
+            data += `${line}\r\n`;
+          }
+          continue;
+        }
+
+        commands.push(line);
+        const verb = line.split(' ')[0].toUpperCase();
+        if (verb === 'EHLO') {
+          socket.write(replies.ehlo.map((l, i) => `250${i < replies.ehlo.length - 1 ? '-' : ' '}${l}\r\n`).join(''));
+        } else if (verb === 'AUTH') {
+          socket.write(replies.auth ?? '235 ok\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 go ahead\r\n');
+        } else if (verb === 'STARTTLS') {
+          socket.write('454 TLS not available\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 bye\r\n');
+        } else {
+          socket.write('250 ok\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise<{ server: net.Server; port: number; commands: string[]; getData: () => string }>((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port, commands, getData: () => data });
+    });
+  });
+}
+
+describe('SmtpMailTransport', () => {
+  const options = (port: number, overrides: Partial<SmtpOptions> = {}): SmtpOptions => ({
+    host: '127.0.0.1',
+    port,
+    secure: false,
+    requireTls: false,
+    user: '',
+    password: '',
+    timeoutMs: 2000,
+    ...overrides,
+  });
+
+  const message = { to: 'ada@example.com', subject: 'Hello', text: '.leading dot\nsecond line' };
+
+  it('should deliver a message with the SMTP envelope', async () => {
+    const { server, port, commands, getData } = await startServer({ ehlo: ['test', 'AUTH PLAIN'] });
+    try {
+      const transport = new SmtpMailTransport(
+        options(port, { user: 'mailer', password: 'secret' }),
+        'Auth <no-reply@example.com>'
+      );
+      await transport.send(message);
+
+      expect(commands[1]).toBe(`AUTH PLAIN ${Buffer.from('\u0000mailer\u0000secret').toString('base64')}`);
+      expect(commands).toContain('MAIL FROM:<no-reply@example.com>');
+      expect(commands).toContain('RCPT TO:<ada@example.com>');
+      expect(getData()).toContain('Subject: Hello');
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should refuse to send without STARTTLS when TLS is required', async () => {
+    const { server, port, commands } = await startServer({ ehlo: ['test'] });
+    try {
+      const transport = new SmtpMailTransport(options(port, { requireTls: true }), 'no-reply@example.com');
+
+      await expect(transport.send(message)).rejects.toThrow();
+      expect(commands.some((command) => command.startsWith('MAIL FROM'))).toBe(false);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should fail on a rejected command', async () => {
+    const { server, port } = await startServer({ ehlo: ['test', 'AUTH PLAIN'], auth: '535 bad credentials\r\n' });
+    try {
+      const transport = new SmtpMailTransport(options(port, { user: 'mailer', password: 'wrong' }), 'no-reply@example.com');
+
+      await expect(transport.send(message)).rejects.toThrow('535');
+    } finally {
+      server.close();
+    }
+  });
+});
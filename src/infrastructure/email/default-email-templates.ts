@@ -0,0 +1,135 @@
+import { EmailTemplateEntity } from '../../domain/entities/email-template.entity';
+import { EMAIL_TEMPLATE_TYPES, EmailTemplateType } from '../../domain/constants/email-templates';
+
+/**
+ * Built-in templates, used when a tenant has not customized a message
+ *
+ * Variables available to every template: firstName, email, tenantName, appName
+ * - password_reset: resetUrl, expiresInMinutes
+ * - welcome: loginUrl
+ * - invitation: inviterName, acceptUrl, expiresInDays
+ * - email_change: newEmail
+ * - email_verification: verifyUrl, expiresInHours
+ * - magic_link: magicLinkUrl, expiresInMinutes
+ */
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateType, EmailTemplateEntity> = {
+  [EMAIL_TEMPLATE_TYPES.PASSWORD_RESET]: new EmailTemplateEntity(
+    null,
+    EMAIL_TEMPLATE_TYPES.PASSWORD_RESET,
+    'Reset your {{appName}} password',
+    [
+      'Hi {{firstName}},',
+      '',
+      'We received a request to reset the password of your {{tenantName}} account.',
+      'Open the link below to choose a new password. It expires in {{expiresInMinutes}} minutes.',
+      '',
+      '{{resetUrl}}',
+      '',
+      'If you did not request this, you can ignore this email.',
+    ].join('\n'),
+    [
+      '<p>Hi {{firstName}},</p>',
+      '<p>We received a request to reset the password of your {{tenantName}} account.</p>',
+      '<p><a href="{{resetUrl}}">Choose a new password</a> (expires in {{expiresInMinutes}} minutes).</p>',
+      '<p>If you did not request this, you can ignore this email.</p>',
+    ].join('\n'),
+    null
+  ),
+  [EMAIL_TEMPLATE_TYPES.WELCOME]: new EmailTemplateEntity(
+    null,
+    EMAIL_TEMPLATE_TYPES.WELCOME,
+    'Welcome to {{tenantName}}',
+    [
+      'Hi {{firstName}},',
+      '',
+      'Your {{appName}} account for {{tenantName}} has been created.',
+      'You can sign in with {{email}} at:',
+      '',
+      '{{loginUrl}}',
+    ].join('\n'),
+    [
+      '<p>Hi {{firstName}},</p>',
+      '<p>Your {{appName}} account for {{tenantName}} has been created.</p>',
+      '<p>You can sign in with {{email}} <a href="{{loginUrl}}">here</a>.</p>',
+    ].join('\n'),
+    null
+  ),
+  [EMAIL_TEMPLATE_TYPES.INVITATION]: new EmailTemplateEntity(
+    null,
+    EMAIL_TEMPLATE_TYPES.INVITATION,
+    '{{inviterName}} invited you to {{tenantName}}',
+    [
+      'Hi,',
+      '',
+      '{{inviterName}} invited you to join {{tenantName}} on {{appName}}.',
+      'Accept the invitation within {{expiresInDays}} days:',
+      '',
+      '{{acceptUrl}}',
+    ].join('\n'),
+    [
+      '<p>Hi,</p>',
+      '<p>{{inviterName}} invited you to join {{tenantName}} on {{appName}}.</p>',
+      '<p><a href="{{acceptUrl}}">Accept the invitation</a> within {{expiresInDays}} days.</p>',
+    ].join('\n'),
+    null
+  ),
+  [EMAIL_TEMPLATE_TYPES.EMAIL_CHANGE]: new EmailTemplateEntity(
+    null,
+    EMAIL_TEMPLATE_TYPES.EMAIL_CHANGE,
+    'Your {{appName}} email address was changed',
+    [
+      'Hi {{firstName}},',
+      '',
+      'The email address of your {{tenantName}} account was changed to {{newEmail}}.',
+      'If you did not make this change, contact your administrator immediately.',
+    ].join('\n'),
+    [
+      '<p>Hi {{firstName}},</p>',
+      '<p>The email address of your {{tenantName}} account was changed to {{newEmail}}.</p>',
+      '<p>If you did not make this change, contact your administrator immediately.</p>',
+    ].join('\n'),
+    null
+  ),
+  [EMAIL_TEMPLATE_TYPES.EMAIL_VERIFICATION]: new EmailTemplateEntity(
+    null,
+    EMAIL_TEMPLATE_TYPES.EMAIL_VERIFICATION,
+    'Verify your {{appName}} email address',
+    [
+      'Hi {{firstName}},',
+      '',
+      'Please confirm that {{email}} is the address of your {{tenantName}} account.',
+      'Open the link below within {{expiresInHours}} hours:',
+      '',
+      '{{verifyUrl}}',
+      '',
+      'If you did not create this account, you can ignore this email.',
+    ].join('\n'),
+    [
+      '<p>Hi {{firstName}},</p>',
+      '<p>Please confirm that {{email}} is the address of your {{tenantName}} account.</p>',
+      '<p><a href="{{verifyUrl}}">Verify your email address</a> (expires in {{expiresInHours}} hours).</p>',
+      '<p>If you did not create this account, you can ignore this email.</p>',
+    ].join('\n'),
+    null
+  ),
+  [EMAIL_TEMPLATE_TYPES.MAGIC_LINK]: new EmailTemplateEntity(
+    null,
+    EMAIL_TEMPLATE_TYPES.MAGIC_LINK,
+    'Sign in to {{appName}}',
+    [
+      'Hi {{firstName}},',
+      '',
+      'Open the link below to sign in to your {{tenantName}} account. It expires in {{expiresInMinutes}} minutes and works once.',
+      '',
+      '{{magicLinkUrl}}',
+      '',
+      'If you did not request this, you can ignore this email.',
+    ].join('\n'),
+    [
+      '<p>Hi {{firstName}},</p>',
+      '<p><a href="{{magicLinkUrl}}">Sign in to your {{tenantName}} account</a> (expires in {{expiresInMinutes}} minutes, works once).</p>',
+      '<p>If you did not request this, you can ignore this email.</p>',
+    ].join('\n'),
+    null
+  ),
+};
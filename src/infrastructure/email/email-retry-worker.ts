@@ -0,0 +1,44 @@
+import { EmailService } from '../../application/services/email.service';
+import { emailConfig } from '../config/email.config';
+import { Logger } from '../logging/logger';
+
+let retryInterval: NodeJS.Timeout | null = null;
+let running = false;
+
+/**
+ * Start periodic delivery of queued emails
+ */
+export function startEmailRetryWorker(emailService: EmailService): void {
+  if (retryInterval) {
+    return;
+  }
+
+  retryInterval = setInterval(async () => {
+    // Skip a tick while the previous batch is still sending
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      const delivered = await emailService.processRetryQueue();
+      if (delivered > 0) {
+        Logger.info('Queued emails delivered', { delivered });
+      }
+    } catch (error) {
+      Logger.error('Failed to process email retry queue', error);
+    } finally {
+      running = false;
+    }
+  }, emailConfig.retry.intervalMs);
+}
+
+/**
+ * Stop the email retry worker
+ */
+export function stopEmailRetryWorker(): void {
+  if (retryInterval) {
+    clearInterval(retryInterval);
+    retryInterval = null;
+  }
+}
@@ -0,0 +1,21 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { IMailTransport, MailMessage } from '../../domain/services/imail-transport';
+import { buildMimeMessage } from './mime';
+
+/**
+ * Writes each message as an .eml file; useful in development to inspect what would be sent
+ */
+export class FileMailTransport implements IMailTransport {
+  constructor(
+    private directory: string,
+    private from: string
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.eml`;
+    await fs.writeFile(path.join(this.directory, fileName), buildMimeMessage(this.from, message), 'utf8');
+  }
+}
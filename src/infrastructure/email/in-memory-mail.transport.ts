@@ -0,0 +1,16 @@
+import { IMailTransport, MailMessage } from '../../domain/services/imail-transport';
+
+/**
+ * Keeps messages in memory; intended for tests
+ */
+export class InMemoryMailTransport implements IMailTransport {
+  readonly sent: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push({ ...message });
+  }
+
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
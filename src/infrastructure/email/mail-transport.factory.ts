@@ -0,0 +1,21 @@
+import { IMailTransport } from '../../domain/services/imail-transport';
+import { emailConfig } from '../config/email.config';
+import { SmtpMailTransport } from './smtp-mail.transport';
+import { FileMailTransport } from './file-mail.transport';
+import { InMemoryMailTransport } from './in-memory-mail.transport';
+
+/**
+ * Create the transport selected by MAIL_TRANSPORT
+ */
+export function createMailTransport(config: typeof emailConfig = emailConfig): IMailTransport {
+  switch (config.transport) {
+    case 'smtp':
+      return new SmtpMailTransport(config.smtp, config.from);
+    case 'file':
+      return new FileMailTransport(config.fileDirectory, config.from);
+    case 'memory':
+      return new InMemoryMailTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${config.transport}" (expected smtp, file or memory)`);
+  }
+}
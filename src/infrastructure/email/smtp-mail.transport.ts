@@ -0,0 +1,46 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { IMailTransport, MailMessage } from '../../domain/services/imail-transport';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  requireTls: boolean;
+  user: string;
+  password: string;
+  timeoutMs: number;
+}
+
+/**
+ * Delivers messages to an SMTP relay through nodemailer (one connection per message)
+ */
+export class SmtpMailTransport implements IMailTransport {
+  private transporter: Transporter;
+
+  constructor(
+    options: SmtpOptions,
+    private from: string
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      // secure: TLS from the first byte; otherwise STARTTLS is used when offered, and insisted on with requireTLS
+      secure: options.secure,
+      requireTLS: options.requireTls,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+      connectionTimeout: options.timeoutMs,
+      greetingTimeout: options.timeoutMs,
+      socketTimeout: options.timeoutMs,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html ?? undefined,
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import { AccountLockedEvent } from '../../../domain/events/account-locked.event';
+import { EventHandler } from '../event-handler';
+import { Logger } from '../../logging/logger';
+import { metricsService } from '../../metrics/metrics.service';
+import { AuditLogService } from '../../../application/services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+
+/**
+ * Handler for AccountLockedEvent
+ * Repeated failed logins may be a password guessing attack, so locks are logged as security events
+ * and kept in the tenant's audit log
+ */
+export class AccountLockedHandler extends EventHandler<AccountLockedEvent> {
+  constructor(private auditLogService: AuditLogService) {
+    super();
+  }
+
+  async handle(event: AccountLockedEvent): Promise<void> {
+    metricsService.recordAccountLockout('locked');
+
+    Logger.warn('[SECURITY] Account locked after repeated failed logins', {
+      eventId: event.eventId,
+      userId: event.userId,
+      tenantId: event.tenantId || undefined,
+      lockedUntil: event.lockedUntil.toISOString(),
+      lockCount: event.lockCount,
+      occurredAt: event.occurredAt.toISOString(),
+    });
+
+    // Locked by the service itself, not by whoever sent the failed logins
+    await this.auditLogService.record(undefined, {
+      action: AUDIT_ACTIONS.USER_LOCKED,
+      tenantId: event.tenantId,
+      targetType: AUDIT_TARGET_TYPES.USER,
+      targetId: event.userId,
+      changes: AuditEventEntity.diff(null, { lockedUntil: event.lockedUntil, lockCount: event.lockCount }),
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import { AccountUnlockedEvent } from '../../../domain/events/account-unlocked.event';
+import { EventHandler } from '../event-handler';
+import { Logger } from '../../logging/logger';
+import { metricsService } from '../../metrics/metrics.service';
+
+/**
+ * Handler for AccountUnlockedEvent
+ * Writes an audit entry for every lock lifted by an admin
+ */
+export class AccountUnlockedHandler extends EventHandler<AccountUnlockedEvent> {
+  async handle(event: AccountUnlockedEvent): Promise<void> {
+    metricsService.recordAccountLockout('unlocked');
+
+    Logger.warn('[AUDIT] Account unlocked by admin', {
+      eventId: event.eventId,
+      userId: event.userId,
+      tenantId: event.tenantId || undefined,
+      unlockedBy: event.unlockedBy,
+      occurredAt: event.occurredAt.toISOString(),
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import { MfaRecoveryCodeUsedEvent } from '../../../domain/events/mfa-recovery-code-used.event';
+import { EventHandler } from '../event-handler';
+import { Logger } from '../../logging/logger';
+import { AuditLogService } from '../../../application/services/audit-log.service';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+
+/**
+ * Handler for MfaRecoveryCodeUsedEvent
+ * Writes an audit entry for every recovery code spent
+ */
+export class MfaRecoveryCodeUsedHandler extends EventHandler<MfaRecoveryCodeUsedEvent> {
+  constructor(private auditLogService: AuditLogService) {
+    super();
+  }
+
+  async handle(event: MfaRecoveryCodeUsedEvent): Promise<void> {
+    Logger.warn('[AUDIT] MFA recovery code used', {
+      eventId: event.eventId,
+      userId: event.userId,
+      tenantId: event.tenantId || undefined,
+      remainingCodes: event.remainingCodes,
+      occurredAt: event.occurredAt.toISOString(),
+    });
+
+    await this.auditLogService.record(
+      { actorId: event.userId, actorType: 'user' },
+      {
+        action: AUDIT_ACTIONS.MFA_RECOVERY_CODE_USED,
+        tenantId: event.tenantId,
+        targetType: AUDIT_TARGET_TYPES.USER,
+        targetId: event.userId,
+      }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { PasswordChangedEvent } from '../../../domain/events/password-changed.event';
+import { EventHandler } from '../event-handler';
+import { Logger } from '../../logging/logger';
+import { AuditLogService } from '../../../application/services/audit-log.service';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+
+/**
+ * Handler for PasswordChangedEvent
+ * Writes an audit entry for every password change
+ */
+export class PasswordChangedHandler extends EventHandler<PasswordChangedEvent> {
+  constructor(private auditLogService: AuditLogService) {
+    super();
+  }
+
+  async handle(event: PasswordChangedEvent): Promise<void> {
+    Logger.info('[AUDIT] Password changed', {
+      eventId: event.eventId,
+      userId: event.userId,
+      tenantId: event.tenantId || undefined,
+      revokedSessions: event.revokedSessions,
+      occurredAt: event.occurredAt.toISOString(),
+    });
+
+    await this.auditLogService.record(
+      { actorId: event.userId, actorType: 'user' },
+      {
+        action: AUDIT_ACTIONS.PASSWORD_CHANGED,
+        tenantId: event.tenantId,
+        targetType: AUDIT_TARGET_TYPES.USER,
+        targetId: event.userId,
+      }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { RefreshTokenReuseDetectedEvent } from '../../../domain/events/refresh-token-reuse-detected.event';
+import { EventHandler } from '../event-handler';
+import { Logger } from '../../logging/logger';
+import { AuditLogService } from '../../../application/services/audit-log.service';
+import { AUDIT_ACTIONS, AUDIT_OUTCOMES, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
+
+/**
+ * Handler for RefreshTokenReuseDetectedEvent
+ * Reuse of a rotated refresh token usually means it was stolen, so it is logged as a security incident
+ */
+export class RefreshTokenReuseDetectedHandler extends EventHandler<RefreshTokenReuseDetectedEvent> {
+  constructor(private auditLogService: AuditLogService) {
+    super();
+  }
+
+  async handle(event: RefreshTokenReuseDetectedEvent): Promise<void> {
+    Logger.warn('[SECURITY] Refresh token reuse detected, token family revoked', {
+      eventId: event.eventId,
+      userId: event.userId,
+      tenantId: event.tenantId || undefined,
+      familyId: event.familyId,
+      occurredAt: event.occurredAt.toISOString(),
+    });
+
+    // Whoever presented the token is unknown: it may be the user or the thief
+    await this.auditLogService.record(undefined, {
+      action: AUDIT_ACTIONS.REFRESH_TOKEN_REUSED,
+      tenantId: event.tenantId,
+      targetType: AUDIT_TARGET_TYPES.USER,
+      targetId: event.userId,
+      outcome: AUDIT_OUTCOMES.FAILURE,
+      reason: 'token_family_revoked',
+    });
+  }
+}
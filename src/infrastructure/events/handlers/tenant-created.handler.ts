@@ -1,16 +1,28 @@
 import { TenantCreatedEvent } from '../../../domain/events/tenant-created.event';
 import { EventHandler } from '../event-handler';
+import { AuditLogService } from '../../../application/services/audit-log.service';
+import { AuditEventEntity } from '../../../domain/entities/audit-event.entity';
+import { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } from '../../../domain/constants/audit';
 
 /**
  * Handler for TenantCreatedEvent
- * Can be extended to add logging, notifications, etc.
+ * Logs the new tenant and writes the first entry of its audit log
  */
 export class TenantCreatedHandler extends EventHandler<TenantCreatedEvent> {
+  constructor(private auditLogService: AuditLogService) {
+    super();
+  }
+
   async handle(event: TenantCreatedEvent): Promise<void> {
     // Log the event (in production, you might want to use a proper logging service)
     console.log(`[TenantCreatedEvent] Tenant ${event.tenantId} (${event.tenantName}) created with slug ${event.tenantSlug}`);
-    
-    // Future: Add audit logging, send notifications, etc.
+
+    await this.auditLogService.record(undefined, {
+      action: AUDIT_ACTIONS.TENANT_CREATED,
+      tenantId: event.tenantId,
+      targetType: AUDIT_TARGET_TYPES.TENANT,
+      targetId: event.tenantId,
+      changes: AuditEventEntity.diff(null, { name: event.tenantName, slug: event.tenantSlug }),
+    });
   }
 }
-
@@ -1,16 +1,51 @@
 import { UserCreatedEvent } from '../../../domain/events/user-created.event';
 import { EventHandler } from '../event-handler';
+import { IUserRepository } from '../../../domain/repositories/iuser-repository';
+import { ITenantRepository } from '../../../domain/repositories/itenant-repository';
+import { EMAIL_TEMPLATE_TYPES } from '../../../domain/constants/email-templates';
+import { EmailService } from '../../../application/services/email.service';
+import { EmailVerificationService } from '../../../application/services/email-verification.service';
+import { emailConfig } from '../../config/email.config';
+import { Logger } from '../../logging/logger';
 
 /**
  * Handler for UserCreatedEvent
- * Can be extended to add logging, notifications, etc.
+ * Logs the new account, sends the tenant's welcome email and a link to verify the address
  */
 export class UserCreatedHandler extends EventHandler<UserCreatedEvent> {
+  constructor(
+    private emailService: EmailService,
+    private emailVerificationService: EmailVerificationService,
+    private userRepository: IUserRepository,
+    private tenantRepository: ITenantRepository
+  ) {
+    super();
+  }
+
   async handle(event: UserCreatedEvent): Promise<void> {
-    // Log the event (in production, you might want to use a proper logging service)
-    console.log(`[UserCreatedEvent] User ${event.userId} created for tenant ${event.tenantId || 'N/A'}`);
-    
-    // Future: Add audit logging, send notifications, etc.
+    Logger.info('User created', { userId: event.userId, tenantId: event.tenantId || undefined });
+
+    try {
+      const user = await this.userRepository.findById(event.userId, event.tenantId);
+      const tenant = event.tenantId ? await this.tenantRepository.findById(event.tenantId) : null;
+
+      await this.emailService.send(EMAIL_TEMPLATE_TYPES.WELCOME, {
+        to: event.email,
+        tenantId: event.tenantId,
+        variables: {
+          firstName: user?.firstName,
+          email: event.email,
+          tenantName: tenant?.name,
+          loginUrl: emailConfig.links.login,
+        },
+      });
+
+      if (user && !user.isEmailVerified()) {
+        await this.emailVerificationService.sendVerification(user);
+      }
+    } catch (error) {
+      // The account exists either way; a missing email must not fail the request
+      Logger.error('Failed to send welcome email', error, { userId: event.userId });
+    }
   }
 }
-
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { JwtKeySet } from '../jwt-keyset';
+
+describe('JwtKeySet', () => {
+  const ecPem = crypto
+    .generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+    .privateKey.export({ format: 'pem', type: 'pkcs8' })
+    .toString();
+  const rsaPem = crypto
+    .generateKeyPairSync('rsa', { modulusLength: 2048 })
+    .privateKey.export({ format: 'pem', type: 'pkcs8' })
+    .toString();
+
+  const overlapSeconds = 3600;
+  const retiredAt = '2026-01-01T00:00:00.000Z';
+
+  const buildKeySet = () =>
+    new JwtKeySet(
+      [
+        JwtKeySet.createKey({ kid: 'new', alg: 'ES256' }, ecPem),
+        JwtKeySet.createKey({ kid: 'old', alg: 'RS256', retiredAt }, rsaPem),
+      ],
+      'new',
+      overlapSeconds
+    );
+
+  it('should sign with the active key', () => {
+    const signingKey = buildKeySet().getSigningKey();
+    expect(signingKey.kid).toBe('new');
+    expect(signingKey.alg).toBe('ES256');
+  });
+
+  it('should keep a retired key for verification during the overlap window', () => {
+    const keySet = buildKeySet();
+    const withinWindow = new Date(Date.parse(retiredAt) + (overlapSeconds - 1) * 1000);
+    const afterWindow = new Date(Date.parse(retiredAt) + (overlapSeconds + 1) * 1000);
+
+    expect(keySet.getVerificationKey('old', withinWindow)?.alg).toBe('RS256');
+    expect(keySet.getVerificationKey('old', afterWindow)).toBeNull();
+    expect(keySet.getVerificationKey('unknown', withinWindow)).toBeNull();
+  });
+
+  it('should publish only usable public keys in the JWKS', () => {
+    const keySet = buildKeySet();
+    const afterWindow = new Date(Date.parse(retiredAt) + (overlapSeconds + 1) * 1000);
+
+    const jwks = keySet.toJwks(afterWindow);
+    expect(jwks.keys).toHaveLength(1);
+    expect(jwks.keys[0]).toMatchObject({ kid: 'new', alg: 'ES256', use: 'sig', kty: 'EC', crv: 'P-256' });
+    expect(jwks.keys[0]).not.toHaveProperty('d');
+  });
+
+  it('should reject a key that does not match its algorithm', () => {
+    expect(() => JwtKeySet.createKey({ kid: 'bad', alg: 'RS256' }, ecPem)).toThrow(/RSA key/);
+  });
+
+  it('should reject a retired active key', () => {
+    expect(
+      () => new JwtKeySet([JwtKeySet.createKey({ kid: 'old', alg: 'RS256', retiredAt }, rsaPem)], 'old', overlapSeconds)
+    ).toThrow(/retired/);
+  });
+});
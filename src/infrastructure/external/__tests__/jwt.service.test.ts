@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { JwtService } from '../jwt.service';
+import { JwtKeySet } from '../jwt-keyset';
+
+describe('JwtService', () => {
+  describe('generateIdToken', () => {
+    afterEach(() => JwtService.setKeySet(null));
+
+    it('should sign with the active key of the keyset', () => {
+      const pem = crypto
+        .generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+        .privateKey.export({ format: 'pem', type: 'pkcs8' })
+        .toString();
+      JwtService.setKeySet(new JwtKeySet([JwtKeySet.createKey({ kid: 'k1', alg: 'ES256' }, pem)], 'k1', 3600));
+
+      const idToken = JwtService.generateIdToken({ sub: 'user-1', nonce: 'n-1' }, 'client-1');
+
+      const decoded = jwt.decode(idToken, { complete: true })!;
+      expect(decoded.header).toMatchObject({ alg: 'ES256', kid: 'k1' });
+      expect(decoded.payload).toMatchObject({ sub: 'user-1', aud: 'client-1', nonce: 'n-1' });
+    });
+
+    it('should refuse to sign with the shared secret when there is no keyset', () => {
+      JwtService.setKeySet(null);
+
+      expect(() => JwtService.generateIdToken({ sub: 'user-1' }, 'client-1')).toThrow(/keyset/);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { PasswordService } from '../password.service';
+import { Argon2PasswordHasher } from '../argon2-password.hasher';
+import { BcryptPasswordHasher } from '../bcrypt-password.hasher';
+
+describe('PasswordService', () => {
+  const argon2 = new Argon2PasswordHasher({ memoryCost: 19456, timeCost: 2, parallelism: 1 });
+  const bcrypt = new BcryptPasswordHasher(12);
+  const service = new PasswordService(argon2, [bcrypt]);
+
+  it('should hash new passwords with Argon2id', async () => {
+    const hash = await service.hash('Correct-Horse-1');
+
+    expect(hash.startsWith('$argon2id$')).toBe(true);
+    await expect(service.compare('Correct-Horse-1', hash)).resolves.toBe(true);
+    await expect(service.compare('Wrong-Horse-1', hash)).resolves.toBe(false);
+    expect(service.needsRehash(hash)).toBe(false);
+  });
+
+  it('should verify bcrypt hashes and report them for rehashing', async () => {
+    const hash = await bcrypt.hash('Correct-Horse-1');
+
+    await expect(service.compare('Correct-Horse-1', hash)).resolves.toBe(true);
+    expect(service.needsRehash(hash)).toBe(true);
+  });
+
+  it('should report Argon2id hashes with a lower cost for rehashing', async () => {
+    const stronger = new PasswordService(new Argon2PasswordHasher({ memoryCost: 19456, timeCost: 3, parallelism: 1 }));
+    const hash = await argon2.hash('Correct-Horse-1');
+
+    await expect(stronger.compare('Correct-Horse-1', hash)).resolves.toBe(true);
+    expect(stronger.needsRehash(hash)).toBe(true);
+  });
+
+  it('should reject hashes of unsupported algorithms', async () => {
+    await expect(service.compare('Correct-Horse-1', '$1$abc$def')).resolves.toBe(false);
+  });
+
+  it('should refuse weak cost settings', () => {
+    expect(() => new BcryptPasswordHasher(10)).toThrow('BCRYPT_ROUNDS');
+    expect(() => new Argon2PasswordHasher({ memoryCost: 4096, timeCost: 1, parallelism: 1 })).toThrow('ARGON2_MEMORY_COST');
+  });
+});
@@ -0,0 +1,28 @@
+import { computePkceChallenge, verifyPkceChallenge } from '../pkce';
+
+describe('PKCE', () => {
+  // RFC 7636 Appendix B example
+  const verifier = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk';
+  const challenge = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM';
+
+  it('should match the RFC 7636 S256 example', () => {
+    expect(computePkceChallenge(verifier)).toBe(challenge);
+  });
+
+  it('should accept the matching verifier', () => {
+    expect(verifyPkceChallenge(verifier, challenge, 'S256')).toBe(true);
+  });
+
+  it('should reject a different verifier', () => {
+    expect(verifyPkceChallenge(verifier.replace('d', 'e'), challenge, 'S256')).toBe(false);
+  });
+
+  it('should reject the plain method', () => {
+    expect(verifyPkceChallenge(verifier, verifier, 'plain')).toBe(false);
+  });
+
+  it('should reject verifiers that are too short', () => {
+    const short = 'abc';
+    expect(verifyPkceChallenge(short, computePkceChallenge(short), 'S256')).toBe(false);
+  });
+});
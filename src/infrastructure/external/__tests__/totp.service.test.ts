@@ -0,0 +1,66 @@
+import { TotpService } from '../totp.service';
+
+describe('TotpService', () => {
+  // RFC 6238 Appendix B test seed (ASCII "12345678901234567890")
+  const rfcSecret = TotpService.base32Encode(Buffer.from('12345678901234567890'));
+
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+      expect(TotpService.base32Decode(TotpService.base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should reject invalid characters', () => {
+      expect(() => TotpService.base32Decode('ABC1')).toThrow();
+    });
+  });
+
+  describe('generateCode', () => {
+    it('should match RFC 6238 SHA1 test vectors', () => {
+      const totp = new TotpService({ digits: 8 });
+      const key = TotpService.base32Decode(rfcSecret);
+
+      expect(totp.generateCode(key, Math.floor(59 / 30))).toBe('94287082');
+      expect(totp.generateCode(key, Math.floor(1111111109 / 30))).toBe('07081804');
+      expect(totp.generateCode(key, Math.floor(1234567890 / 30))).toBe('89005924');
+    });
+  });
+
+  describe('verify', () => {
+    const totp = new TotpService();
+    const timestamp = 1234567890 * 1000;
+    const key = TotpService.base32Decode(rfcSecret);
+    const step = Math.floor(1234567890 / 30);
+
+    it('should return the matched step for a current code', () => {
+      const code = totp.generateCode(key, step);
+      expect(totp.verify(rfcSecret, code, timestamp)).toBe(step);
+    });
+
+    it('should accept codes within the drift window', () => {
+      const code = totp.generateCode(key, step - 1);
+      expect(totp.verify(rfcSecret, code, timestamp)).toBe(step - 1);
+    });
+
+    it('should reject codes outside the drift window', () => {
+      const code = totp.generateCode(key, step - 2);
+      expect(totp.verify(rfcSecret, code, timestamp)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(totp.verify(rfcSecret, 'abcdef', timestamp)).toBeNull();
+      expect(totp.verify(rfcSecret, '12345', timestamp)).toBeNull();
+    });
+  });
+
+  describe('buildProvisioningUri', () => {
+    it('should build an otpauth URI with issuer and account label', () => {
+      const totp = new TotpService();
+      const uri = totp.buildProvisioningUri('JBSWY3DPEHPK3PXP', 'user@example.com', 'Acme');
+
+      expect(uri.startsWith('otpauth://totp/Acme%3Auser%40example.com?')).toBe(true);
+      expect(uri).toContain('secret=JBSWY3DPEHPK3PXP');
+      expect(uri).toContain('issuer=Acme');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { WebAuthnService } from '../webauthn.service';
+
+describe('WebAuthnService', () => {
+  const service = new WebAuthnService();
+  const clientDataJSON = Buffer.from(JSON.stringify({ type: 'webauthn.get', challenge: 'abc' })).toString('base64url');
+  const assertion = {
+    id: 'credential-id',
+    rawId: 'credential-id',
+    type: 'public-key',
+    clientExtensionResults: {},
+    response: { clientDataJSON, authenticatorData: 'AAAA', signature: 'AAAA' },
+  };
+  const credential = { credentialId: 'credential-id', publicKey: new Uint8Array(), signCount: 0, transports: [] };
+
+  it('should read the claimed challenge and credential of a response', () => {
+    expect(service.parseResponse(assertion)).toEqual({ challenge: 'abc', credentialId: 'credential-id' });
+  });
+
+  it('should reject a registration response without an attestation', async () => {
+    await expect(service.verifyRegistration(assertion, 'abc')).resolves.toBeNull();
+  });
+
+  it('should reject an assertion response that is missing fields', async () => {
+    const withoutSignature = { clientDataJSON, authenticatorData: 'AAAA' };
+
+    await expect(
+      service.verifyAuthentication({ ...assertion, response: withoutSignature }, 'abc', credential, false)
+    ).resolves.toBeNull();
+    await expect(
+      service.verifyAuthentication({ ...assertion, type: 'password' }, 'abc', credential, false)
+    ).resolves.toBeNull();
+  });
+});
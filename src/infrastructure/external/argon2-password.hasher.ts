@@ -0,0 +1,41 @@
+import argon2 from 'argon2';
+import { PasswordHashAlgorithm } from './password.service';
+
+export interface Argon2Options {
+  memoryCost: number; // KiB
+  timeCost: number;
+  parallelism: number;
+}
+
+export class Argon2PasswordHasher implements PasswordHashAlgorithm {
+  // OWASP minimum for Argon2id: 19 MiB of memory with 2 iterations
+  private static readonly MIN_MEMORY_COST = 19456;
+  private static readonly MIN_TIME_COST = 2;
+
+  readonly name = 'argon2id';
+
+  constructor(private options: Argon2Options) {
+    if (options.memoryCost < Argon2PasswordHasher.MIN_MEMORY_COST || options.timeCost < Argon2PasswordHasher.MIN_TIME_COST) {
+      throw new Error(
+        `ARGON2_MEMORY_COST must be at least ${Argon2PasswordHasher.MIN_MEMORY_COST} and ARGON2_TIME_COST at least ` +
+        `${Argon2PasswordHasher.MIN_TIME_COST} for security. Current values: ${options.memoryCost}, ${options.timeCost}`
+      );
+    }
+  }
+
+  canVerify(hashedPassword: string): boolean {
+    return hashedPassword.startsWith('$argon2id$');
+  }
+
+  async hash(password: string): Promise<string> {
+    return argon2.hash(password, { type: argon2.argon2id, ...this.options });
+  }
+
+  async compare(password: string, hashedPassword: string): Promise<boolean> {
+    return argon2.verify(hashedPassword, password);
+  }
+
+  needsRehash(hashedPassword: string): boolean {
+    return argon2.needsRehash(hashedPassword, this.options);
+  }
+}
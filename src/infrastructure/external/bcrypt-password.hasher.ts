@@ -0,0 +1,33 @@
+import bcrypt from 'bcrypt';
+import { PasswordHashAlgorithm } from './password.service';
+
+export class BcryptPasswordHasher implements PasswordHashAlgorithm {
+  private static readonly MIN_SALT_ROUNDS = 12;
+
+  readonly name = 'bcrypt';
+
+  constructor(private rounds: number) {
+    // Validate minimum rounds for security
+    if (rounds < BcryptPasswordHasher.MIN_SALT_ROUNDS) {
+      throw new Error(
+        `BCRYPT_ROUNDS must be at least ${BcryptPasswordHasher.MIN_SALT_ROUNDS} for security. Current value: ${rounds}`
+      );
+    }
+  }
+
+  canVerify(hashedPassword: string): boolean {
+    return /^\$2[aby]\$\d{2}\$/.test(hashedPassword);
+  }
+
+  async hash(password: string): Promise<string> {
+    return bcrypt.hash(password, this.rounds);
+  }
+
+  async compare(password: string, hashedPassword: string): Promise<boolean> {
+    return bcrypt.compare(password, hashedPassword);
+  }
+
+  needsRehash(hashedPassword: string): boolean {
+    return bcrypt.getRounds(hashedPassword) < this.rounds;
+  }
+}
@@ -0,0 +1,136 @@
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export type JwtSigningAlgorithm = 'RS256' | 'ES256';
+
+// One entry of the keyset file
+export interface JwtKeyDefinition {
+  kid: string;
+  alg: JwtSigningAlgorithm;
+  privateKeyPath: string; // PEM file, relative paths resolve against the keyset file
+  retiredAt?: string; // ISO date the key stopped signing; it verifies until the overlap window ends
+}
+
+export interface JwtKeysetFile {
+  activeKid: string;
+  keys: JwtKeyDefinition[];
+}
+
+export interface JwtSigningKey {
+  kid: string;
+  alg: JwtSigningAlgorithm;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  retiredAt: Date | null;
+}
+
+/**
+ * Keyset for asymmetric JWT signing
+ *
+ * Rotation: add a new key, point activeKid at it and set retiredAt on the previous one.
+ * Retired keys stay valid for verification (and in the JWKS) for the overlap window,
+ * which must be at least as long as the access token lifetime.
+ */
+export class JwtKeySet {
+  private readonly keysByKid: Map<string, JwtSigningKey>;
+
+  constructor(
+    keys: JwtSigningKey[],
+    private readonly activeKid: string,
+    private readonly overlapSeconds: number
+  ) {
+    this.keysByKid = new Map(keys.map((key) => [key.kid, key]));
+
+    const active = this.keysByKid.get(activeKid);
+    if (!active) {
+      throw new Error(`JWT keyset: active key "${activeKid}" not found`);
+    }
+    if (active.retiredAt) {
+      throw new Error(`JWT keyset: active key "${activeKid}" is retired`);
+    }
+  }
+
+  static fromFile(keysetPath: string, overlapSeconds: number): JwtKeySet {
+    const file = JSON.parse(fs.readFileSync(keysetPath, 'utf8')) as JwtKeysetFile;
+    const baseDir = path.dirname(keysetPath);
+
+    const keys = file.keys.map((definition) => {
+      const pem = fs.readFileSync(path.resolve(baseDir, definition.privateKeyPath), 'utf8');
+      return JwtKeySet.createKey(definition, pem);
+    });
+
+    return new JwtKeySet(keys, file.activeKid, overlapSeconds);
+  }
+
+  static createKey(definition: Omit<JwtKeyDefinition, 'privateKeyPath'>, privateKeyPem: string): JwtSigningKey {
+    const privateKey = crypto.createPrivateKey(privateKeyPem);
+    JwtKeySet.assertKeyMatchesAlgorithm(definition.kid, definition.alg, privateKey);
+
+    return {
+      kid: definition.kid,
+      alg: definition.alg,
+      privateKey,
+      publicKey: crypto.createPublicKey(privateKey),
+      retiredAt: definition.retiredAt ? new Date(definition.retiredAt) : null,
+    };
+  }
+
+  getSigningKey(): JwtSigningKey {
+    return this.keysByKid.get(this.activeKid)!;
+  }
+
+  /**
+   * Get the key that may verify a token with the given kid
+   * @returns null for unknown keys and keys past their overlap window
+   */
+  getVerificationKey(kid: string, now: Date = new Date()): JwtSigningKey | null {
+    const key = this.keysByKid.get(kid);
+    if (!key || !this.isUsableForVerification(key, now)) {
+      return null;
+    }
+    return key;
+  }
+
+  /**
+   * Public keys as a JSON Web Key Set (RFC 7517)
+   */
+  toJwks(now: Date = new Date()): { keys: Record<string, unknown>[] } {
+    const keys = Array.from(this.keysByKid.values())
+      .filter((key) => this.isUsableForVerification(key, now))
+      .map((key) => ({
+        ...key.publicKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+      }));
+
+    return { keys };
+  }
+
+  private isUsableForVerification(key: JwtSigningKey, now: Date): boolean {
+    if (!key.retiredAt) {
+      return true;
+    }
+    return now.getTime() < key.retiredAt.getTime() + this.overlapSeconds * 1000;
+  }
+
+  private static assertKeyMatchesAlgorithm(kid: string, alg: JwtSigningAlgorithm, key: KeyObject): void {
+    if (alg === 'RS256') {
+      const modulusLength = key.asymmetricKeyDetails?.modulusLength ?? 0;
+      if (key.asymmetricKeyType !== 'rsa' || modulusLength < 2048) {
+        throw new Error(`JWT keyset: key "${kid}" must be an RSA key of at least 2048 bits for RS256`);
+      }
+      return;
+    }
+
+    if (alg === 'ES256') {
+      if (key.asymmetricKeyType !== 'ec' || key.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+        throw new Error(`JWT keyset: key "${kid}" must be an EC P-256 key for ES256`);
+      }
+      return;
+    }
+
+    throw new Error(`JWT keyset: unsupported algorithm "${alg}" for key "${kid}"`);
+  }
+}
@@ -1,20 +1,74 @@
 import jwt from 'jsonwebtoken';
 import { jwtConfig } from '../config/jwt.config';
 import { JwtPayload } from '../../shared/types';
+import { JwtKeySet } from './jwt-keyset';
+import { oidcConfig } from '../config/oidc.config';
 
 // Extended payload with token type and version
 export interface ExtendedJwtPayload extends JwtPayload {
   type: 'access' | 'refresh';
   version?: number;
+  iat?: number;
+  exp?: number;
+}
+
+// Short-lived token proving the password step succeeded while a second factor is pending.
+// 'mfa_enrollment' is issued instead when the tenant requires MFA and the user has not enrolled yet,
+// 'password_change' when the password has expired and must be replaced first.
+export type MfaChallengeType = 'mfa_pending' | 'mfa_enrollment' | 'password_change';
+
+export interface MfaChallengePayload {
+  userId: string;
+  tenantId: string | null;
+  type: MfaChallengeType;
 }
 
 export class JwtService {
+  private static keySet: JwtKeySet | null | undefined;
+
+  /**
+   * Keyset for asymmetric access tokens, loaded once; null when HS256 is used
+   */
+  static getKeySet(): JwtKeySet | null {
+    if (this.keySet === undefined) {
+      this.keySet = jwtConfig.keysetPath
+        ? JwtKeySet.fromFile(jwtConfig.keysetPath, jwtConfig.keyRotationOverlapSeconds)
+        : null;
+    }
+    return this.keySet;
+  }
+
+  /**
+   * Replace the keyset (used after rotation and in tests)
+   */
+  static setKeySet(keySet: JwtKeySet | null): void {
+    this.keySet = keySet;
+  }
+
+  /**
+   * Public verification keys as a JWKS document (empty when HS256 is used)
+   */
+  static getJwks(): { keys: Record<string, unknown>[] } {
+    return this.getKeySet()?.toJwks() ?? { keys: [] };
+  }
+
   static generateAccessToken(payload: JwtPayload, tokenVersion: number = 1): string {
     const extendedPayload: ExtendedJwtPayload = {
       ...payload,
       type: 'access',
       version: tokenVersion,
     };
+
+    const keySet = this.getKeySet();
+    if (keySet) {
+      const signingKey = keySet.getSigningKey();
+      return jwt.sign(extendedPayload, signingKey.privateKey, {
+        algorithm: signingKey.alg,
+        keyid: signingKey.kid,
+        expiresIn: jwtConfig.accessExpiresIn,
+      } as jwt.SignOptions);
+    }
+
     return jwt.sign(extendedPayload, jwtConfig.secret, {
       expiresIn: jwtConfig.accessExpiresIn,
     } as jwt.SignOptions);
@@ -31,9 +85,59 @@ export class JwtService {
     } as jwt.SignOptions);
   }
 
+  /**
+   * OpenID Connect ID token, signed with the same key as access tokens
+   * Relying parties verify it with the JWKS, so it is never signed with the shared HS256 secret
+   * @param claims - User claims (sub, email, ...) plus nonce when the client sent one
+   * @param audience - Client ID of the relying party
+   */
+  static generateIdToken(claims: Record<string, unknown> & { sub: string }, audience: string): string {
+    const { sub, ...rest } = claims;
+    const options = {
+      issuer: oidcConfig.issuer,
+      subject: sub,
+      audience,
+      expiresIn: oidcConfig.idTokenExpiresIn,
+    };
+
+    const keySet = this.getKeySet();
+    if (!keySet) {
+      throw new Error('ID tokens require an asymmetric keyset (JWT_KEYSET_PATH)');
+    }
+
+    const signingKey = keySet.getSigningKey();
+    return jwt.sign(rest, signingKey.privateKey, {
+      ...options,
+      algorithm: signingKey.alg,
+      keyid: signingKey.kid,
+    } as jwt.SignOptions);
+  }
+
+  /**
+   * Algorithm of access tokens; ID tokens, and so the discovery document, always use the keyset's
+   */
+  static getSigningAlgorithm(): string {
+    return this.getKeySet()?.getSigningKey().alg ?? 'HS256';
+  }
+
+  static generateMfaChallengeToken(
+    userId: string,
+    tenantId: string | null,
+    type: MfaChallengeType = 'mfa_pending'
+  ): string {
+    const payload: MfaChallengePayload = {
+      userId,
+      tenantId,
+      type,
+    };
+    return jwt.sign(payload, jwtConfig.secret, {
+      expiresIn: jwtConfig.mfaChallengeExpiresIn,
+    } as jwt.SignOptions);
+  }
+
   static verifyToken(token: string): ExtendedJwtPayload {
     try {
-      const decoded = jwt.verify(token, jwtConfig.secret) as ExtendedJwtPayload;
+      const decoded = this.verifyAccessTokenSignature(token);
       // Verify token type
       if (decoded.type !== 'access') {
         throw new Error('Invalid token type: expected access token');
@@ -79,6 +183,44 @@ export class JwtService {
     }
   }
 
+  static verifyMfaChallengeToken(
+    token: string,
+    type: MfaChallengeType = 'mfa_pending'
+  ): MfaChallengePayload {
+    try {
+      const decoded = jwt.verify(token, jwtConfig.secret) as MfaChallengePayload;
+      if (decoded.type !== type) {
+        throw new Error('Invalid token type: expected MFA challenge token');
+      }
+      return decoded;
+    } catch (error: any) {
+      if (error.name === 'TokenExpiredError') {
+        const expiredError = new Error('MFA challenge has expired');
+        (expiredError as any).name = 'TokenExpiredError';
+        throw expiredError;
+      }
+      throw error;
+    }
+  }
+
+  private static verifyAccessTokenSignature(token: string): ExtendedJwtPayload {
+    const keySet = this.getKeySet();
+    if (!keySet) {
+      return jwt.verify(token, jwtConfig.secret, { algorithms: ['HS256'] }) as ExtendedJwtPayload;
+    }
+
+    // Pin the algorithm to the key so a token cannot pick its own verification method
+    const header = jwt.decode(token, { complete: true })?.header;
+    const key = header?.kid ? keySet.getVerificationKey(header.kid) : null;
+    if (!key) {
+      const unknownKeyError = new Error('Token signing key is unknown or retired');
+      (unknownKeyError as any).name = 'JsonWebTokenError';
+      throw unknownKeyError;
+    }
+
+    return jwt.verify(token, key.publicKey, { algorithms: [key.alg] }) as ExtendedJwtPayload;
+  }
+
   static decodeToken(token: string): ExtendedJwtPayload | null {
     try {
       return jwt.decode(token) as ExtendedJwtPayload;
@@ -0,0 +1,107 @@
+import { BaseClient, Issuer, custom, generators } from 'openid-client';
+import { IOidcProvider, OidcAuthorizationRequest } from '../../domain/services/ioidc-provider';
+import { TenantOidcConnectorEntity } from '../../domain/entities/tenant-oidc-connector.entity';
+import { ssoConfig } from '../config/sso.config';
+import { Logger } from '../logging/logger';
+
+interface CachedIssuer {
+  issuer: Issuer<BaseClient>;
+  expiresAt: number;
+}
+
+export class OidcService implements IOidcProvider {
+  private readonly issuers = new Map<string, CachedIssuer>();
+
+  constructor(private config: typeof ssoConfig.oidc = ssoConfig.oidc) {
+    custom.setHttpOptionsDefaults({ timeout: this.config.httpTimeoutMs });
+  }
+
+  async validateIssuer(issuer: string): Promise<boolean> {
+    try {
+      const discovered = await this.discover(issuer, true);
+      const responseTypes = discovered.metadata.response_types_supported as string[] | undefined;
+      return !!discovered.metadata.authorization_endpoint && (!responseTypes || responseTypes.includes('code'));
+    } catch (error) {
+      Logger.warn('OIDC discovery failed', {
+        issuer,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+  }
+
+  async createAuthorizationUrl(
+    connector: TenantOidcConnectorEntity,
+    redirectUri: string,
+    request: OidcAuthorizationRequest
+  ): Promise<string> {
+    const client = await this.createClient(connector, redirectUri);
+    return client.authorizationUrl({
+      scope: connector.scopes.join(' '),
+      state: request.state,
+      nonce: request.nonce,
+      code_challenge: generators.codeChallenge(request.codeVerifier),
+      code_challenge_method: 'S256',
+    });
+  }
+
+  async exchangeCode(
+    connector: TenantOidcConnectorEntity,
+    redirectUri: string,
+    callbackParams: Record<string, string>,
+    request: OidcAuthorizationRequest
+  ): Promise<Record<string, unknown> | null> {
+    try {
+      const client = await this.createClient(connector, redirectUri);
+      const tokenSet = await client.callback(redirectUri, callbackParams, {
+        state: request.state,
+        nonce: request.nonce,
+        code_verifier: request.codeVerifier,
+        response_type: 'code',
+      });
+
+      const claims: Record<string, unknown> = { ...tokenSet.claims() };
+      // Providers such as Google only put profile claims into the ID token for some scopes
+      if (!claims[connector.claimMapping.email] && tokenSet.access_token && client.issuer.metadata.userinfo_endpoint) {
+        // openid-client checks that the userinfo "sub" matches the ID token
+        const userinfo = await client.userinfo(tokenSet);
+        return { ...userinfo, ...claims };
+      }
+
+      return claims;
+    } catch (error) {
+      Logger.warn('OIDC code exchange failed', {
+        tenantId: connector.tenantId,
+        connectorId: connector.id,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  private async createClient(connector: TenantOidcConnectorEntity, redirectUri: string): Promise<BaseClient> {
+    const issuer = await this.discover(connector.issuer);
+    const client = new issuer.Client({
+      client_id: connector.clientId,
+      client_secret: connector.clientSecret,
+      redirect_uris: [redirectUri],
+      response_types: ['code'],
+    });
+    client[custom.clock_tolerance] = this.config.clockSkewSeconds;
+    return client;
+  }
+
+  /**
+   * Discovery documents are cached per issuer; the Issuer also keeps the provider's signing keys
+   */
+  private async discover(issuerUrl: string, refresh = false): Promise<Issuer<BaseClient>> {
+    const cached = this.issuers.get(issuerUrl);
+    if (cached && !refresh && cached.expiresAt > Date.now()) {
+      return cached.issuer;
+    }
+
+    const issuer = await Issuer.discover(issuerUrl);
+    this.issuers.set(issuerUrl, { issuer, expiresAt: Date.now() + this.config.discoveryCacheSeconds * 1000 });
+    return issuer;
+  }
+}
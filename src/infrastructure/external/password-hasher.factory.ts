@@ -0,0 +1,19 @@
+import { IPasswordHasher } from '../../domain/services/ipassword-hasher';
+import { passwordHashingConfig } from '../config/password-hashing.config';
+import { PasswordService } from './password.service';
+import { Argon2PasswordHasher } from './argon2-password.hasher';
+import { BcryptPasswordHasher } from './bcrypt-password.hasher';
+
+/**
+ * Create the hasher for PASSWORD_HASH_ALGORITHM; the other algorithm stays available for existing hashes
+ */
+export function createPasswordHasher(config: typeof passwordHashingConfig = passwordHashingConfig): IPasswordHasher {
+  switch (config.algorithm) {
+    case 'argon2id':
+      return new PasswordService(new Argon2PasswordHasher(config.argon2), [new BcryptPasswordHasher(config.bcrypt.rounds)]);
+    case 'bcrypt':
+      return new PasswordService(new BcryptPasswordHasher(config.bcrypt.rounds), [new Argon2PasswordHasher(config.argon2)]);
+    default:
+      throw new Error(`Unknown PASSWORD_HASH_ALGORITHM "${config.algorithm}" (expected argon2id or bcrypt)`);
+  }
+}
@@ -1,24 +1,45 @@
-import bcrypt from 'bcrypt';
 import { IPasswordHasher } from '../../domain/services/ipassword-hasher';
+import { Logger } from '../logging/logger';
 
+/**
+ * A single hashing algorithm, recognised by the prefix of the hashes it produces
+ */
+export interface PasswordHashAlgorithm extends IPasswordHasher {
+  readonly name: string;
+  canVerify(hashedPassword: string): boolean;
+}
+
+/**
+ * Hashes new passwords with the configured algorithm and verifies hashes of every supported algorithm
+ * Hashes of another algorithm, or with a lower cost, are reported for rehashing.
+ */
 export class PasswordService implements IPasswordHasher {
-  private static readonly MIN_SALT_ROUNDS = 12;
+  constructor(
+    private currentAlgorithm: PasswordHashAlgorithm,
+    private legacyAlgorithms: PasswordHashAlgorithm[] = []
+  ) {}
 
   async hash(password: string): Promise<string> {
-    const rounds = parseInt(process.env.BCRYPT_ROUNDS || '12', 10);
-    
-    // Validate minimum rounds for security
-    if (rounds < PasswordService.MIN_SALT_ROUNDS) {
-      throw new Error(
-        `BCRYPT_ROUNDS must be at least ${PasswordService.MIN_SALT_ROUNDS} for security. Current value: ${rounds}`
-      );
-    }
-    
-    return bcrypt.hash(password, rounds);
+    return this.currentAlgorithm.hash(password);
   }
 
   async compare(password: string, hashedPassword: string): Promise<boolean> {
-    return bcrypt.compare(password, hashedPassword);
+    const algorithm = this.findAlgorithm(hashedPassword);
+    if (!algorithm) {
+      Logger.warn('Password hash of an unsupported algorithm', { prefix: hashedPassword.split('$')[1] });
+      return false;
+    }
+    return algorithm.compare(password, hashedPassword);
   }
-}
 
+  needsRehash(hashedPassword: string): boolean {
+    if (!this.currentAlgorithm.canVerify(hashedPassword)) {
+      return true;
+    }
+    return this.currentAlgorithm.needsRehash(hashedPassword);
+  }
+
+  private findAlgorithm(hashedPassword: string): PasswordHashAlgorithm | undefined {
+    return [this.currentAlgorithm, ...this.legacyAlgorithms].find((algorithm) => algorithm.canVerify(hashedPassword));
+  }
+}
@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+import { PKCE_METHOD_S256 } from '../../domain/constants/oauth';
+
+// RFC 7636 section 4.1: 43-128 characters from the unreserved set
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+/**
+ * Compute the S256 code challenge of a PKCE code verifier
+ */
+export function computePkceChallenge(codeVerifier: string): string {
+  return crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * Verify a PKCE code verifier against the challenge sent in the authorization request
+ */
+export function verifyPkceChallenge(codeVerifier: string, codeChallenge: string, method: string): boolean {
+  if (method !== PKCE_METHOD_S256 || !CODE_VERIFIER_PATTERN.test(codeVerifier)) {
+    return false;
+  }
+
+  const expected = Buffer.from(codeChallenge);
+  const actual = Buffer.from(computePkceChallenge(codeVerifier));
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
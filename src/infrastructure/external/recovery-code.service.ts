@@ -0,0 +1,27 @@
+import crypto from 'crypto';
+import { IRecoveryCodeGenerator } from '../../domain/services/irecovery-code-generator';
+
+// Lowercase alphabet without look-alike characters (0/o, 1/l/i)
+const ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const CODE_LENGTH = 10;
+const CODES_PER_SET = 10;
+
+export class RecoveryCodeService implements IRecoveryCodeGenerator {
+  generateSet(): string[] {
+    return Array.from({ length: CODES_PER_SET }, () => this.generateCode());
+  }
+
+  hash(code: string): string {
+    const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private generateCode(): string {
+    let code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += ALPHABET[crypto.randomInt(ALPHABET.length)];
+    }
+    // Display as xxxxx-xxxxx for readability
+    return `${code.slice(0, CODE_LENGTH / 2)}-${code.slice(CODE_LENGTH / 2)}`;
+  }
+}
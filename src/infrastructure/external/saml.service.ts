@@ -0,0 +1,166 @@
+import { SAML, SamlConfig, ValidateInResponseTo, generateServiceProviderMetadata } from '@node-saml/node-saml';
+import { DOMParser } from '@xmldom/xmldom';
+import { X509Certificate } from 'crypto';
+import {
+  ISamlProvider,
+  SamlAssertion,
+  SamlIdpMetadata,
+  SamlServiceProviderSettings,
+} from '../../domain/services/isaml-provider';
+import { TenantSamlConfigEntity } from '../../domain/entities/tenant-saml-config.entity';
+import { ssoConfig } from '../config/sso.config';
+import { Logger } from '../logging/logger';
+
+const METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+const HTTP_REDIRECT_BINDING = 'urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect';
+
+export class SamlService implements ISamlProvider {
+  constructor(private config: typeof ssoConfig.saml = ssoConfig.saml) {}
+
+  parseIdpMetadata(xml: string): SamlIdpMetadata | null {
+    const document = this.parseXml(xml);
+    const entity = document?.getElementsByTagNameNS(METADATA_NS, 'EntityDescriptor')[0];
+    const idpDescriptor = entity?.getElementsByTagNameNS(METADATA_NS, 'IDPSSODescriptor')[0];
+    if (!entity || !idpDescriptor) {
+      return null;
+    }
+
+    const ssoService = Array.from(idpDescriptor.getElementsByTagNameNS(METADATA_NS, 'SingleSignOnService')).find(
+      (service) => service.getAttribute('Binding') === HTTP_REDIRECT_BINDING
+    );
+
+    // Keys without a "use" attribute may be used for signing as well
+    const certificates = Array.from(idpDescriptor.getElementsByTagNameNS(METADATA_NS, 'KeyDescriptor'))
+      .filter((key) => !key.getAttribute('use') || key.getAttribute('use') === 'signing')
+      .flatMap((key) => Array.from(key.getElementsByTagNameNS(XMLDSIG_NS, 'X509Certificate')))
+      .map((certificate) => this.normalizeCertificate(certificate.textContent || ''))
+      .filter((certificate): certificate is string => certificate !== null);
+
+    const entityId = entity.getAttribute('entityID');
+    const ssoUrl = ssoService?.getAttribute('Location');
+    if (!entityId || !ssoUrl || certificates.length === 0) {
+      return null;
+    }
+
+    return { entityId, ssoUrl, certificates: [...new Set(certificates)] };
+  }
+
+  normalizeCertificate(certificate: string): string | null {
+    const body = certificate
+      .replace(/-----(BEGIN|END) CERTIFICATE-----/g, '')
+      .replace(/\s+/g, '');
+    if (!body) {
+      return null;
+    }
+
+    const lines = body.match(/.{1,64}/g) ?? [];
+    const pem = `-----BEGIN CERTIFICATE-----\n${lines.join('\n')}\n-----END CERTIFICATE-----`;
+    try {
+      new X509Certificate(pem);
+      return pem;
+    } catch {
+      return null;
+    }
+  }
+
+  async createLoginUrl(
+    sp: SamlServiceProviderSettings,
+    config: TenantSamlConfigEntity,
+    requestId: string
+  ): Promise<string> {
+    const saml = this.createSaml(sp, config, requestId);
+    return saml.getAuthorizeUrlAsync('', undefined, {});
+  }
+
+  readInResponseTo(samlResponse: string): string | null {
+    const document = this.parseXml(Buffer.from(samlResponse, 'base64').toString('utf8'));
+    return document?.documentElement?.getAttribute('InResponseTo') || null;
+  }
+
+  async validateResponse(
+    sp: SamlServiceProviderSettings,
+    config: TenantSamlConfigEntity,
+    samlResponse: string,
+    requestId: string
+  ): Promise<SamlAssertion | null> {
+    try {
+      const saml = this.createSaml(sp, config, requestId);
+      const { profile } = await saml.validatePostResponseAsync({ SAMLResponse: samlResponse });
+      if (!profile?.nameID) {
+        return null;
+      }
+
+      return {
+        nameId: profile.nameID,
+        attributes: (profile.attributes as Record<string, unknown> | undefined) ?? {},
+      };
+    } catch (error) {
+      Logger.warn('SAML response validation failed', {
+        tenantId: config.tenantId,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  generateMetadata(sp: SamlServiceProviderSettings): string {
+    return generateServiceProviderMetadata({
+      issuer: sp.entityId,
+      callbackUrl: sp.acsUrl,
+      wantAssertionsSigned: true,
+      ...this.signingOptions(),
+      publicCerts: this.config.certificate,
+    });
+  }
+
+  /**
+   * One SAML instance per request: the only accepted InResponseTo is the request the caller
+   * already claimed from its own store, so node-saml's in-memory request cache is not used
+   */
+  private createSaml(sp: SamlServiceProviderSettings, config: TenantSamlConfigEntity, requestId: string): SAML {
+    const samlConfig: SamlConfig = {
+      issuer: sp.entityId,
+      callbackUrl: sp.acsUrl,
+      audience: sp.entityId,
+      entryPoint: config.idpSsoUrl,
+      idpIssuer: config.idpEntityId,
+      idpCert: config.idpCertificates,
+      wantAssertionsSigned: true,
+      wantAuthnResponseSigned: false,
+      acceptedClockSkewMs: this.config.clockSkewMs,
+      disableRequestedAuthnContext: true,
+      generateUniqueId: () => requestId,
+      validateInResponseTo: ValidateInResponseTo.always,
+      cacheProvider: {
+        saveAsync: async (_key, value) => ({ value, createdAt: Date.now() }),
+        getAsync: async (key) => (key === requestId ? new Date().toISOString() : null),
+        removeAsync: async (key) => key,
+      },
+      ...this.signingOptions(),
+    };
+
+    return new SAML(samlConfig);
+  }
+
+  private signingOptions(): { privateKey?: string; signatureAlgorithm?: 'sha256' } {
+    return this.config.privateKey ? { privateKey: this.config.privateKey, signatureAlgorithm: 'sha256' } : {};
+  }
+
+  private parseXml(xml: string): Document | null {
+    let failed = false;
+    const document = new DOMParser({
+      errorHandler: {
+        warning: () => undefined,
+        error: () => {
+          failed = true;
+        },
+        fatalError: () => {
+          failed = true;
+        },
+      },
+    }).parseFromString(xml, 'text/xml');
+
+    return failed || !document?.documentElement ? null : (document as unknown as Document);
+  }
+}
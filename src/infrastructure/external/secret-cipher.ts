@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+
+/**
+ * Symmetric encryption (AES-256-GCM) for secrets that must be readable again,
+ * such as TOTP seeds. Output format: iv.authTag.ciphertext (base64url)
+ */
+export class SecretCipher {
+  private readonly key: Buffer;
+
+  constructor(secret: string, context: string) {
+    // Derive a purpose-bound key so the same secret never encrypts two kinds of data
+    this.key = crypto.createHash('sha256').update(`${context}:${secret}`).digest();
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+    return [iv, authTag, ciphertext].map((part) => part.toString('base64url')).join('.');
+  }
+
+  decrypt(payload: string): string {
+    const [iv, authTag, ciphertext] = payload.split('.').map((part) => Buffer.from(part, 'base64url'));
+    if (!iv || !authTag || !ciphertext) {
+      throw new Error('Malformed encrypted secret');
+    }
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.key, iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+  }
+}
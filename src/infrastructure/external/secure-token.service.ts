@@ -0,0 +1,22 @@
+import crypto from 'crypto';
+import { ISecureTokenGenerator } from '../../domain/services/isecure-token-generator';
+
+const TOKEN_BYTES = 32;
+
+export class SecureTokenService implements ISecureTokenGenerator {
+  generate(prefix?: string): string {
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+    return prefix ? `${prefix}_${token}` : token;
+  }
+
+  hash(token: string): string {
+    // 256 bits of entropy make a slow hash unnecessary
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  matches(token: string, hash: string): boolean {
+    const expected = Buffer.from(hash, 'hex');
+    const actual = Buffer.from(this.hash(token), 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+}
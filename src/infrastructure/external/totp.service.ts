@@ -0,0 +1,126 @@
+import crypto from 'crypto';
+import { ITotpProvider } from '../../domain/services/itotp-provider';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  digits: number;
+  period: number; // Time step in seconds
+  window: number; // Number of steps accepted before/after the current one (clock drift)
+  secretBytes: number;
+}
+
+const DEFAULT_OPTIONS: TotpOptions = {
+  digits: 6,
+  period: 30,
+  window: 1,
+  secretBytes: 20,
+};
+
+/**
+ * TOTP implementation (RFC 6238, HMAC-SHA1) compatible with common authenticator apps
+ */
+export class TotpService implements ITotpProvider {
+  private readonly options: TotpOptions;
+
+  constructor(options: Partial<TotpOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  generateSecret(): string {
+    return TotpService.base32Encode(crypto.randomBytes(this.options.secretBytes));
+  }
+
+  buildProvisioningUri(secret: string, accountName: string, issuer: string): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: String(this.options.digits),
+      period: String(this.options.period),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  verify(secret: string, code: string, timestamp: number = Date.now()): number | null {
+    const normalized = code.replace(/\s+/g, '');
+    if (!new RegExp(`^\\d{${this.options.digits}}$`).test(normalized)) {
+      return null;
+    }
+
+    const key = TotpService.base32Decode(secret);
+    const currentStep = Math.floor(timestamp / 1000 / this.options.period);
+
+    for (let offset = -this.options.window; offset <= this.options.window; offset++) {
+      const step = currentStep + offset;
+      const expected = this.generateCode(key, step);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Generate the code for a given time step (HOTP, RFC 4226)
+   */
+  generateCode(key: Buffer, step: number): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+
+    const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return (binary % 10 ** this.options.digits).toString().padStart(this.options.digits, '0');
+  }
+
+  static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  static base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error(`Invalid base32 character: ${char}`);
+      }
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
@@ -0,0 +1,186 @@
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  GenerateRegistrationOptionsOpts,
+  VerifyAuthenticationResponseOpts,
+  VerifyRegistrationResponseOpts,
+} from '@simplewebauthn/server';
+import {
+  IWebAuthnProvider,
+  VerifiedWebAuthnAssertion,
+  VerifiedWebAuthnRegistration,
+  WebAuthnCredentialDescriptor,
+  WebAuthnOptions,
+} from '../../domain/services/iwebauthn-provider';
+import { webauthnConfig } from '../config/webauthn.config';
+import { Logger } from '../logging/logger';
+
+type AuthenticatorTransport = NonNullable<
+  NonNullable<GenerateRegistrationOptionsOpts['excludeCredentials']>[number]['transports']
+>[number];
+
+type RegistrationResponseJSON = VerifyRegistrationResponseOpts['response'];
+type AuthenticationResponseJSON = VerifyAuthenticationResponseOpts['response'];
+
+export class WebAuthnService implements IWebAuthnProvider {
+  constructor(private config: typeof webauthnConfig = webauthnConfig) {}
+
+  async generateRegistrationOptions(
+    user: { id: string; name: string; displayName: string },
+    excludeCredentials: WebAuthnCredentialDescriptor[]
+  ): Promise<WebAuthnOptions> {
+    const options = await generateRegistrationOptions({
+      rpName: this.config.rpName,
+      rpID: this.config.rpId,
+      userID: new Uint8Array(Buffer.from(user.id, 'utf8')),
+      userName: user.name,
+      userDisplayName: user.displayName,
+      timeout: this.config.challengeTtlSeconds * 1000,
+      attestationType: 'none',
+      excludeCredentials: excludeCredentials.map(toDescriptor),
+      // Discoverable credentials allow login without typing an email
+      authenticatorSelection: { residentKey: 'preferred', userVerification: 'preferred' },
+    });
+
+    return { options: options as unknown as Record<string, unknown>, challenge: options.challenge };
+  }
+
+  async verifyRegistration(response: unknown, expectedChallenge: string): Promise<VerifiedWebAuthnRegistration | null> {
+    if (!isRegistrationResponse(response)) {
+      Logger.warn('WebAuthn registration response is malformed');
+      return null;
+    }
+
+    try {
+      const { verified, registrationInfo } = await verifyRegistrationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: this.config.origins,
+        expectedRPID: this.config.rpId,
+        requireUserVerification: false,
+      });
+      if (!verified || !registrationInfo) {
+        return null;
+      }
+
+      return {
+        credentialId: registrationInfo.credentialID,
+        publicKey: registrationInfo.credentialPublicKey,
+        signCount: registrationInfo.counter,
+        transports: response.response.transports ?? [],
+        deviceType: registrationInfo.credentialDeviceType,
+        backedUp: registrationInfo.credentialBackedUp,
+        aaguid: registrationInfo.aaguid,
+      };
+    } catch (error) {
+      Logger.warn('WebAuthn registration response rejected', { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  async generateAuthenticationOptions(
+    allowCredentials: WebAuthnCredentialDescriptor[],
+    requireUserVerification: boolean
+  ): Promise<WebAuthnOptions> {
+    const options = await generateAuthenticationOptions({
+      rpID: this.config.rpId,
+      allowCredentials: allowCredentials.map(toDescriptor),
+      timeout: this.config.challengeTtlSeconds * 1000,
+      userVerification: requireUserVerification ? 'required' : 'preferred',
+    });
+
+    return { options: options as unknown as Record<string, unknown>, challenge: options.challenge };
+  }
+
+  async verifyAuthentication(
+    response: unknown,
+    expectedChallenge: string,
+    credential: { credentialId: string; publicKey: Uint8Array; signCount: number; transports: string[] },
+    requireUserVerification: boolean
+  ): Promise<VerifiedWebAuthnAssertion | null> {
+    if (!isAuthenticationResponse(response)) {
+      Logger.warn('WebAuthn assertion response is malformed');
+      return null;
+    }
+
+    try {
+      const { verified, authenticationInfo } = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge,
+        expectedOrigin: this.config.origins,
+        expectedRPID: this.config.rpId,
+        authenticator: {
+          credentialID: credential.credentialId,
+          credentialPublicKey: credential.publicKey,
+          counter: credential.signCount,
+          transports: credential.transports as AuthenticatorTransport[],
+        },
+        requireUserVerification,
+      });
+      if (!verified) {
+        return null;
+      }
+
+      return {
+        signCount: authenticationInfo.newCounter,
+        backedUp: authenticationInfo.credentialBackedUp,
+        userVerified: authenticationInfo.userVerified,
+      };
+    } catch (error) {
+      Logger.warn('WebAuthn assertion rejected', { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  parseResponse(response: unknown): { challenge: string; credentialId: string } | null {
+    const credential = response as { id?: unknown; response?: { clientDataJSON?: unknown } } | null;
+    if (typeof credential?.id !== 'string' || typeof credential.response?.clientDataJSON !== 'string') {
+      return null;
+    }
+
+    try {
+      const clientData = JSON.parse(Buffer.from(credential.response.clientDataJSON, 'base64url').toString('utf8'));
+      return typeof clientData?.challenge === 'string'
+        ? { challenge: clientData.challenge, credentialId: credential.id }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+function toDescriptor(credential: WebAuthnCredentialDescriptor) {
+  return { id: credential.credentialId, transports: credential.transports as AuthenticatorTransport[] };
+}
+
+/**
+ * Check the fields every PublicKeyCredential JSON has, plus the given response fields
+ */
+function hasCredentialShape(value: unknown, responseFields: string[]): boolean {
+  const credential = value as Record<string, unknown> | null;
+  const response = credential?.response as Record<string, unknown> | null | undefined;
+  return (
+    typeof credential?.id === 'string' &&
+    typeof credential.rawId === 'string' &&
+    credential.type === 'public-key' &&
+    typeof credential.clientExtensionResults === 'object' &&
+    credential.clientExtensionResults !== null &&
+    typeof response === 'object' &&
+    response !== null &&
+    ['clientDataJSON', ...responseFields].every((field) => typeof response[field] === 'string')
+  );
+}
+
+function isRegistrationResponse(value: unknown): value is RegistrationResponseJSON {
+  const transports = (value as { response?: { transports?: unknown } } | null)?.response?.transports;
+  return (
+    hasCredentialShape(value, ['attestationObject']) &&
+    (transports === undefined || (Array.isArray(transports) && transports.every((t) => typeof t === 'string')))
+  );
+}
+
+function isAuthenticationResponse(value: unknown): value is AuthenticationResponseJSON {
+  return hasCredentialShape(value, ['authenticatorData', 'signature']);
+}
@@ -33,6 +33,7 @@ export class MetricsService {
   private loginCounter!: Counter<string>;
   private passwordResetCounter!: Counter<string>;
   private tokenRefreshCounter!: Counter<string>;
+  private accountLockoutCounter!: Counter<string>;
 
   // Error Metrics
   private errorCounter!: Counter<string>;
@@ -163,6 +164,13 @@ export class MetricsService {
       labelNames: ['action', 'status'],
       registers: [this.register],
     });
+
+    this.accountLockoutCounter = new Counter({
+      name: 'account_lockouts_total',
+      help: 'Total number of account locks and admin unlocks',
+      labelNames: ['action'],
+      registers: [this.register],
+    });
   }
 
   /**
@@ -249,6 +257,13 @@ export class MetricsService {
     this.tokenRefreshCounter.inc({ action: 'refresh', status });
   }
 
+  /**
+   * Record account lock or unlock
+   */
+  recordAccountLockout(action: 'locked' | 'unlocked'): void {
+    this.accountLockoutCounter.inc({ action });
+  }
+
   /**
    * Record error
    */
@@ -0,0 +1,30 @@
+import { MfaRecoveryCodeRepository } from '../mfa-recovery-code.repository';
+import { prisma } from '../../config/database';
+
+jest.mock('../../config/database', () => ({
+  prisma: { mfaRecoveryCode: { updateMany: jest.fn() } },
+}));
+
+describe('MfaRecoveryCodeRepository', () => {
+  const updateMany = prisma.mfaRecoveryCode.updateMany as jest.Mock;
+
+  beforeEach(() => updateMany.mockReset());
+
+  describe('consume', () => {
+    it('should only spend a code that is still unused', async () => {
+      updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(new MfaRecoveryCodeRepository().consume('user-1', 'hash')).resolves.toBe(true);
+      expect(updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-1', codeHash: 'hash', usedAt: null },
+        data: { usedAt: expect.any(Date) },
+      });
+    });
+
+    it('should report a spent or unknown code, so concurrent requests cannot both use it', async () => {
+      updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(new MfaRecoveryCodeRepository().consume('user-1', 'hash')).resolves.toBe(false);
+    });
+  });
+});
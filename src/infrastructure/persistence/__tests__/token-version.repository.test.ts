@@ -0,0 +1,67 @@
+import { TokenVersionRepository } from '../token-version.repository';
+import { ICacheRepository } from '../../../domain/repositories/icache-repository';
+import { prisma } from '../../config/database';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    user: { findUnique: jest.fn(), update: jest.fn() },
+    oAuthClient: { findUnique: jest.fn() },
+  },
+}));
+
+describe('TokenVersionRepository', () => {
+  const cache = { get: jest.fn(), set: jest.fn() };
+  const repository = new TokenVersionRepository(cache as unknown as ICacheRepository);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    cache.get.mockResolvedValue(null);
+  });
+
+  describe('getVersion', () => {
+    it('should return and cache the version of an active user', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ tokenVersion: 2, deletedAt: null });
+
+      await expect(repository.getVersion('user-1')).resolves.toBe(2);
+      expect(cache.set).toHaveBeenCalledWith('token-version:user-1', 2, expect.any(Number));
+    });
+
+    it('should return null for a deleted user', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(repository.getVersion('user-1')).resolves.toBeNull();
+    });
+
+    it('should return null for a deprovisioned user without caching it', async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({ tokenVersion: 2, deletedAt: new Date() });
+
+      await expect(repository.getVersion('user-1')).resolves.toBeNull();
+      expect(cache.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('increment', () => {
+    it('should write the new version through the cache', async () => {
+      (prisma.user.update as jest.Mock).mockResolvedValue({ tokenVersion: 3 });
+
+      await repository.increment('user-1');
+
+      expect(cache.set).toHaveBeenCalledWith('token-version:user-1', 3, expect.any(Number));
+    });
+  });
+
+  describe('getServiceClientVersion', () => {
+    it('should keep client versions apart from user versions', async () => {
+      (prisma.oAuthClient.findUnique as jest.Mock).mockResolvedValue({ tokenVersion: 5 });
+
+      await expect(repository.getServiceClientVersion('client-1')).resolves.toBe(5);
+      expect(cache.set).toHaveBeenCalledWith('token-version:client:client-1', 5, expect.any(Number));
+    });
+
+    it('should return null for a deleted client', async () => {
+      (prisma.oAuthClient.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(repository.getServiceClientVersion('client-1')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { TokenRepository } from '../token.repository';
+import { ICacheRepository } from '../../../domain/repositories/icache-repository';
+import { prisma } from '../../config/database';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    $transaction: jest.fn(),
+    refreshToken: { findMany: jest.fn() },
+    session: { deleteMany: jest.fn(), findUnique: jest.fn(), findMany: jest.fn() },
+  },
+}));
+
+describe('TokenRepository', () => {
+  const cache = { get: jest.fn(), set: jest.fn(), delete: jest.fn() };
+  const tx = {
+    refreshToken: { findUnique: jest.fn(), updateMany: jest.fn(), create: jest.fn() },
+  };
+  const repository = new TokenRepository(cache as unknown as ICacheRepository);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.$transaction as jest.Mock).mockImplementation((callback) => callback(tx));
+    tx.refreshToken.findUnique.mockResolvedValue({ token: 'old', userId: 'user-1', familyId: 'session-1' });
+  });
+
+  describe('rotate', () => {
+    it('should mark the token rotated and store its successor in the same family', async () => {
+      tx.refreshToken.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(repository.rotate('old', 'new', new Date())).resolves.toBe(true);
+      expect(tx.refreshToken.updateMany).toHaveBeenCalledWith({
+        where: { token: 'old', rotatedAt: null },
+        data: { rotatedAt: expect.any(Date) },
+      });
+      expect(tx.refreshToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ token: 'new', userId: 'user-1', familyId: 'session-1' }),
+      });
+      expect(cache.delete).toHaveBeenCalledWith('token:old');
+    });
+
+    it('should not store a successor when a concurrent refresh rotated the token first', async () => {
+      tx.refreshToken.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(repository.rotate('old', 'new', new Date())).resolves.toBe(false);
+      expect(tx.refreshToken.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeFamily', () => {
+    it('should end the session and evict every token of the family from the cache', async () => {
+      (prisma.refreshToken.findMany as jest.Mock).mockResolvedValue([{ token: 'a' }, { token: 'b' }]);
+
+      await repository.revokeFamily('session-1');
+
+      expect(prisma.session.deleteMany).toHaveBeenCalledWith({ where: { id: 'session-1' } });
+      expect(cache.delete).toHaveBeenCalledWith('token:a');
+      expect(cache.delete).toHaveBeenCalledWith('token:b');
+      // Access tokens of the session are checked against this entry
+      expect(cache.set).toHaveBeenCalledWith('token-family:session-1', false, expect.any(Number));
+    });
+  });
+
+  describe('deleteByUserId', () => {
+    it('should mark every deleted session inactive in the cache', async () => {
+      (prisma.session.findMany as jest.Mock).mockResolvedValue([
+        { id: 'session-1', refreshTokens: [{ token: 'a' }] },
+        { id: 'session-2', refreshTokens: [] },
+      ]);
+
+      await repository.deleteByUserId('user-1');
+
+      expect(prisma.session.deleteMany).toHaveBeenCalledWith({ where: { userId: 'user-1' } });
+      expect(cache.set).toHaveBeenCalledWith('token-family:session-1', false, expect.any(Number));
+      expect(cache.set).toHaveBeenCalledWith('token-family:session-2', false, expect.any(Number));
+      expect(cache.delete).toHaveBeenCalledWith('token:a');
+    });
+  });
+
+  describe('isFamilyActive', () => {
+    it('should answer from the cache when the family is known', async () => {
+      cache.get.mockResolvedValue(false);
+
+      await expect(repository.isFamilyActive('session-1')).resolves.toBe(false);
+      expect(prisma.session.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should look up the session and cache the result', async () => {
+      cache.get.mockResolvedValue(null);
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue({ id: 'session-1' });
+
+      await expect(repository.isFamilyActive('session-1')).resolves.toBe(true);
+      expect(cache.set).toHaveBeenCalledWith('token-family:session-1', true, expect.any(Number));
+    });
+
+    it('should report a deleted session as inactive', async () => {
+      cache.get.mockResolvedValue(null);
+      (prisma.session.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(repository.isFamilyActive('session-1')).resolves.toBe(false);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { UserLockoutRepository } from '../user-lockout.repository';
+import { LOCKOUT_FAILURE_WINDOW_SECONDS } from '../../../domain/constants/account-lockout';
+import { prisma } from '../../config/database';
+
+jest.mock('../../config/database', () => ({
+  prisma: {
+    userLockout: { updateMany: jest.fn(), upsert: jest.fn() },
+  },
+}));
+
+describe('UserLockoutRepository', () => {
+  const repository = new UserLockoutRepository();
+  const at = new Date('2026-10-18T12:00:00Z');
+
+  beforeEach(() => jest.clearAllMocks());
+
+  describe('recordFailure', () => {
+    it('should restart the count when the last failure is older than the failure window', async () => {
+      (prisma.userLockout.upsert as jest.Mock).mockResolvedValue({
+        userId: 'user-1',
+        failedAttempts: 1,
+        lockCount: 0,
+        lockedUntil: null,
+        lastFailedAt: at,
+      });
+
+      const lockout = await repository.recordFailure('user-1', at);
+
+      expect(prisma.userLockout.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-1',
+          lastFailedAt: { lt: new Date(at.getTime() - LOCKOUT_FAILURE_WINDOW_SECONDS * 1000) },
+        },
+        data: { failedAttempts: 0 },
+      });
+      // The reset comes first, so the new failure is counted on top of it
+      expect((prisma.userLockout.updateMany as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+        (prisma.userLockout.upsert as jest.Mock).mock.invocationCallOrder[0]
+      );
+      expect(lockout.failedAttempts).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { IApiKeyRepository, CreateApiKeyData } from '../../domain/repositories/iapi-key-repository';
+import { ICacheRepository } from '../../domain/repositories/icache-repository';
+import { ApiKeyEntity } from '../../domain/entities/api-key.entity';
+import { prisma } from '../config/database';
+
+export class ApiKeyRepository implements IApiKeyRepository {
+  // Revocation and usage recording invalidate the entry, so the TTL only bounds staleness of other changes
+  private readonly API_KEY_CACHE_TTL = parseInt(process.env.REDIS_TTL_API_KEY || '300', 10); // 5 minutes default
+
+  constructor(private cache?: ICacheRepository) {}
+
+  private getCacheKey(keyHash: string): string {
+    return `api-key:${keyHash}`;
+  }
+
+  async create(data: CreateApiKeyData): Promise<ApiKeyEntity> {
+    const apiKey = await prisma.apiKey.create({
+      data,
+    });
+
+    return this.toEntity(apiKey);
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyEntity | null> {
+    const cacheKey = this.getCacheKey(keyHash);
+
+    if (this.cache) {
+      const cached = await this.cache.get<any>(cacheKey);
+      if (cached) {
+        return this.toEntity(cached);
+      }
+    }
+
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash },
+    });
+
+    if (!apiKey) return null;
+
+    const entity = this.toEntity(apiKey);
+
+    if (this.cache) {
+      await this.cache.set(cacheKey, entity, this.API_KEY_CACHE_TTL);
+    }
+
+    return entity;
+  }
+
+  async findById(id: string, tenantId: string): Promise<ApiKeyEntity | null> {
+    const apiKey = await prisma.apiKey.findFirst({
+      where: { id, tenantId },
+    });
+
+    return apiKey ? this.toEntity(apiKey) : null;
+  }
+
+  async findByTenantId(tenantId: string): Promise<ApiKeyEntity[]> {
+    const apiKeys = await prisma.apiKey.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return apiKeys.map((apiKey) => this.toEntity(apiKey));
+  }
+
+  async revoke(apiKey: ApiKeyEntity): Promise<void> {
+    await prisma.apiKey.updateMany({
+      where: { id: apiKey.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (this.cache) {
+      await this.cache.delete(this.getCacheKey(apiKey.keyHash));
+    }
+  }
+
+  async recordUsage(apiKey: ApiKeyEntity, usedAt: Date): Promise<void> {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: usedAt },
+    });
+
+    if (this.cache) {
+      await this.cache.delete(this.getCacheKey(apiKey.keyHash));
+    }
+  }
+
+  private toEntity(apiKey: any): ApiKeyEntity {
+    return new ApiKeyEntity(
+      apiKey.id,
+      apiKey.tenantId,
+      apiKey.name,
+      apiKey.prefix,
+      apiKey.keyHash,
+      apiKey.scopes,
+      apiKey.expiresAt ? new Date(apiKey.expiresAt) : null,
+      apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt) : null,
+      apiKey.revokedAt ? new Date(apiKey.revokedAt) : null,
+      new Date(apiKey.createdAt)
+    );
+  }
+}
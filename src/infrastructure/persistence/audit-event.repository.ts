@@ -0,0 +1,80 @@
+import { Prisma } from '@prisma/client';
+import {
+  IAuditEventRepository,
+  CreateAuditEventData,
+  AuditEventFilter,
+} from '../../domain/repositories/iaudit-event-repository';
+import { AuditEventEntity } from '../../domain/entities/audit-event.entity';
+import { PaginationParams, PaginatedResult } from '../../shared/types/pagination';
+import { prisma } from '../config/database';
+
+export class AuditEventRepository implements IAuditEventRepository {
+  async create(data: CreateAuditEventData): Promise<AuditEventEntity> {
+    const event = await prisma.auditEvent.create({
+      data: {
+        ...data,
+        changes: data.changes ? (data.changes as unknown as Prisma.InputJsonValue) : undefined,
+        metadata: data.metadata ? (data.metadata as Prisma.InputJsonValue) : undefined,
+      },
+    });
+
+    return this.toEntity(event);
+  }
+
+  async findAll(filter: AuditEventFilter, pagination: PaginationParams): Promise<PaginatedResult<AuditEventEntity>> {
+    const page = pagination.page;
+    const limit = pagination.limit;
+
+    const where: Prisma.AuditEventWhereInput = {
+      ...(filter.tenantId && { tenantId: filter.tenantId }),
+      ...(filter.actorId && { actorId: filter.actorId }),
+      ...(filter.action && {
+        action: filter.action.endsWith('.') ? { startsWith: filter.action } : filter.action,
+      }),
+      ...(filter.outcome && { outcome: filter.outcome }),
+      ...((filter.from || filter.to) && {
+        createdAt: {
+          ...(filter.from && { gte: filter.from }),
+          ...(filter.to && { lte: filter.to }),
+        },
+      }),
+    };
+
+    const [events, total] = await Promise.all([
+      prisma.auditEvent.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.auditEvent.count({ where }),
+    ]);
+
+    return {
+      data: events.map((event) => this.toEntity(event)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  private toEntity(event: any): AuditEventEntity {
+    return new AuditEventEntity(
+      event.id,
+      event.tenantId,
+      event.actorId,
+      event.actorType,
+      event.action,
+      event.targetType,
+      event.targetId,
+      event.changes ?? null,
+      event.ipAddress,
+      event.userAgent,
+      event.outcome,
+      event.reason,
+      event.metadata ?? null,
+      event.createdAt
+    );
+  }
+}
@@ -14,5 +14,6 @@ export interface UserCacheDto {
   isSuperAdmin: boolean;
   createdAt: Date;
   updatedAt: Date;
+  emailVerifiedAt: Date | null;
 }
 
@@ -0,0 +1,76 @@
+import { IEmailOutboxRepository, OutboxEmail } from '../../domain/repositories/iemail-outbox-repository';
+import { MailMessage } from '../../domain/services/imail-transport';
+import { prisma } from '../config/database';
+
+export class EmailOutboxRepository implements IEmailOutboxRepository {
+  async enqueue(message: MailMessage, error: string, nextAttemptAt: Date): Promise<void> {
+    await prisma.emailOutbox.create({
+      data: {
+        to: message.to,
+        subject: message.subject,
+        textBody: message.text,
+        htmlBody: message.html ?? null,
+        nextAttemptAt,
+        lastError: error,
+      },
+    });
+  }
+
+  async findDue(now: Date, limit: number): Promise<OutboxEmail[]> {
+    const emails = await prisma.emailOutbox.findMany({
+      where: {
+        sentAt: null,
+        failedAt: null,
+        nextAttemptAt: { lte: now },
+      },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+    });
+
+    return emails.map((email) => ({
+      id: email.id,
+      attempts: email.attempts,
+      message: {
+        to: email.to,
+        subject: email.subject,
+        text: email.textBody,
+        html: email.htmlBody,
+      },
+    }));
+  }
+
+  async claim(id: string, now: Date, leaseUntil: Date): Promise<boolean> {
+    const { count } = await prisma.emailOutbox.updateMany({
+      where: {
+        id,
+        sentAt: null,
+        failedAt: null,
+        nextAttemptAt: { lte: now },
+      },
+      data: { nextAttemptAt: leaseUntil },
+    });
+
+    return count === 1;
+  }
+
+  async markSent(id: string): Promise<void> {
+    await prisma.emailOutbox.update({
+      where: { id },
+      data: { sentAt: new Date() },
+    });
+  }
+
+  async reschedule(id: string, attempts: number, nextAttemptAt: Date, error: string): Promise<void> {
+    await prisma.emailOutbox.update({
+      where: { id },
+      data: { attempts, nextAttemptAt, lastError: error },
+    });
+  }
+
+  async markFailed(id: string, attempts: number, error: string): Promise<void> {
+    await prisma.emailOutbox.update({
+      where: { id },
+      data: { attempts, failedAt: new Date(), lastError: error },
+    });
+  }
+}
@@ -0,0 +1,94 @@
+import {
+  IEmailTemplateRepository,
+  SaveEmailTemplateData,
+} from '../../domain/repositories/iemail-template-repository';
+import { ICacheRepository } from '../../domain/repositories/icache-repository';
+import { EmailTemplateEntity } from '../../domain/entities/email-template.entity';
+import { EmailTemplateType } from '../../domain/constants/email-templates';
+import { DEFAULT_EMAIL_TEMPLATES } from '../email/default-email-templates';
+import { prisma } from '../config/database';
+
+export class EmailTemplateRepository implements IEmailTemplateRepository {
+  private readonly TEMPLATE_CACHE_TTL = parseInt(process.env.REDIS_TTL_EMAIL_TEMPLATE || '3600', 10); // 1 hour default
+
+  constructor(private cache?: ICacheRepository) {}
+
+  private getCacheKey(tenantId: string, type: EmailTemplateType): string {
+    return `email-template:${tenantId}:${type}`;
+  }
+
+  async findEffective(tenantId: string | null, type: EmailTemplateType): Promise<EmailTemplateEntity> {
+    if (!tenantId) {
+      return DEFAULT_EMAIL_TEMPLATES[type];
+    }
+
+    const cacheKey = this.getCacheKey(tenantId, type);
+
+    if (this.cache) {
+      const cached = await this.cache.get<any>(cacheKey);
+      if (cached) {
+        return this.toEntity(cached);
+      }
+    }
+
+    const template = await prisma.emailTemplate.findUnique({
+      where: { tenantId_type: { tenantId, type } },
+    });
+
+    const entity = template ? this.toEntity(template) : DEFAULT_EMAIL_TEMPLATES[type];
+
+    if (this.cache) {
+      await this.cache.set(cacheKey, entity, this.TEMPLATE_CACHE_TTL);
+    }
+
+    return entity;
+  }
+
+  async save(
+    tenantId: string,
+    type: EmailTemplateType,
+    data: SaveEmailTemplateData,
+    updatedBy?: string
+  ): Promise<EmailTemplateEntity> {
+    const template = await prisma.emailTemplate.upsert({
+      where: { tenantId_type: { tenantId, type } },
+      create: {
+        tenantId,
+        type,
+        ...data,
+        updatedBy,
+      },
+      update: {
+        ...data,
+        updatedBy,
+      },
+    });
+
+    if (this.cache) {
+      await this.cache.delete(this.getCacheKey(tenantId, type));
+    }
+
+    return this.toEntity(template);
+  }
+
+  async delete(tenantId: string, type: EmailTemplateType): Promise<void> {
+    await prisma.emailTemplate.deleteMany({
+      where: { tenantId, type },
+    });
+
+    if (this.cache) {
+      await this.cache.delete(this.getCacheKey(tenantId, type));
+    }
+  }
+
+  private toEntity(template: any): EmailTemplateEntity {
+    return new EmailTemplateEntity(
+      template.tenantId,
+      template.type,
+      template.subject,
+      template.textBody,
+      template.htmlBody,
+      template.updatedAt ? new Date(template.updatedAt) : null
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { IInvitationRepository, CreateInvitationData } from '../../domain/repositories/iinvitation-repository';
+import { InvitationEntity } from '../../domain/entities/invitation.entity';
+import { prisma } from '../config/database';
+
+export class InvitationRepository implements IInvitationRepository {
+  async create(data: CreateInvitationData): Promise<InvitationEntity> {
+    const invitation = await prisma.invitation.create({
+      data,
+    });
+
+    return this.toEntity(invitation);
+  }
+
+  async findById(id: string, tenantId: string): Promise<InvitationEntity | null> {
+    const invitation = await prisma.invitation.findFirst({
+      where: { id, tenantId },
+    });
+
+    return invitation ? this.toEntity(invitation) : null;
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<InvitationEntity | null> {
+    const invitation = await prisma.invitation.findUnique({
+      where: { tokenHash },
+    });
+
+    return invitation ? this.toEntity(invitation) : null;
+  }
+
+  async findByTenantId(tenantId: string): Promise<InvitationEntity[]> {
+    const invitations = await prisma.invitation.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invitations.map((invitation) => this.toEntity(invitation));
+  }
+
+  async findPendingByEmail(tenantId: string, email: string, now: Date): Promise<InvitationEntity[]> {
+    const invitations = await prisma.invitation.findMany({
+      where: {
+        tenantId,
+        email,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: now },
+      },
+    });
+
+    return invitations.map((invitation) => this.toEntity(invitation));
+  }
+
+  async renew(id: string, tokenHash: string, expiresAt: Date): Promise<InvitationEntity> {
+    const invitation = await prisma.invitation.update({
+      where: { id },
+      data: {
+        tokenHash,
+        expiresAt,
+        lastSentAt: new Date(),
+      },
+    });
+
+    return this.toEntity(invitation);
+  }
+
+  async revoke(id: string): Promise<void> {
+    await prisma.invitation.updateMany({
+      where: { id, acceptedAt: null, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  private toEntity(invitation: any): InvitationEntity {
+    return new InvitationEntity(
+      invitation.id,
+      invitation.tenantId,
+      invitation.email,
+      invitation.roleIds,
+      invitation.expiresAt,
+      invitation.acceptedAt,
+      invitation.acceptedUserId,
+      invitation.revokedAt,
+      invitation.invitedBy,
+      invitation.lastSentAt,
+      invitation.createdAt
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { IMfaRecoveryCodeRepository } from '../../domain/repositories/imfa-recovery-code-repository';
+import { prisma } from '../config/database';
+
+export class MfaRecoveryCodeRepository implements IMfaRecoveryCodeRepository {
+  async replaceAll(userId: string, codeHashes: string[]): Promise<void> {
+    await prisma.$transaction([
+      prisma.mfaRecoveryCode.deleteMany({
+        where: { userId },
+      }),
+      prisma.mfaRecoveryCode.createMany({
+        data: codeHashes.map((codeHash) => ({ userId, codeHash })),
+      }),
+    ]);
+  }
+
+  async consume(userId: string, codeHash: string): Promise<boolean> {
+    // Conditional update so two concurrent requests cannot both spend the same code
+    const result = await prisma.mfaRecoveryCode.updateMany({
+      where: { userId, codeHash, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    return result.count === 1;
+  }
+
+  async countUnused(userId: string): Promise<number> {
+    return prisma.mfaRecoveryCode.count({
+      where: { userId, usedAt: null },
+    });
+  }
+
+  async deleteByUserId(userId: string): Promise<void> {
+    await prisma.mfaRecoveryCode.deleteMany({
+      where: { userId },
+    });
+  }
+}
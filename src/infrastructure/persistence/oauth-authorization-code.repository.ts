@@ -0,0 +1,56 @@
+import {
+  IOAuthAuthorizationCodeRepository,
+  CreateAuthorizationCodeData,
+} from '../../domain/repositories/ioauth-authorization-code-repository';
+import { OAuthAuthorizationCodeEntity } from '../../domain/entities/oauth-authorization-code.entity';
+import { prisma } from '../config/database';
+
+export class OAuthAuthorizationCodeRepository implements IOAuthAuthorizationCodeRepository {
+  async create(data: CreateAuthorizationCodeData): Promise<void> {
+    await prisma.oAuthAuthorizationCode.create({
+      data,
+    });
+  }
+
+  async consume(codeHash: string): Promise<OAuthAuthorizationCodeEntity | null> {
+    // Conditional update so a code cannot be redeemed twice by concurrent requests
+    const { count } = await prisma.oAuthAuthorizationCode.updateMany({
+      where: { codeHash, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (count !== 1) {
+      return null;
+    }
+
+    const code = await prisma.oAuthAuthorizationCode.findUnique({
+      where: { codeHash },
+    });
+
+    return code ? this.toEntity(code) : null;
+  }
+
+  async deleteExpired(): Promise<void> {
+    await prisma.oAuthAuthorizationCode.deleteMany({
+      where: {
+        expiresAt: {
+          lt: new Date(),
+        },
+      },
+    });
+  }
+
+  private toEntity(code: any): OAuthAuthorizationCodeEntity {
+    return new OAuthAuthorizationCodeEntity(
+      code.id,
+      code.clientId,
+      code.userId,
+      code.redirectUri,
+      code.scope,
+      code.codeChallenge,
+      code.codeChallengeMethod,
+      code.nonce,
+      code.expiresAt,
+      code.createdAt
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { IOAuthClientRepository, CreateOAuthClientData } from '../../domain/repositories/ioauth-client-repository';
+import { OAuthClientEntity } from '../../domain/entities/oauth-client.entity';
+import { RoleWithPermissions } from '../../shared/types/role-with-permissions';
+import { prisma } from '../config/database';
+
+export class OAuthClientRepository implements IOAuthClientRepository {
+  async create(data: CreateOAuthClientData): Promise<OAuthClientEntity> {
+    const client = await prisma.oAuthClient.create({
+      data,
+    });
+
+    return this.toEntity(client);
+  }
+
+  async findByClientId(clientId: string): Promise<OAuthClientEntity | null> {
+    const client = await prisma.oAuthClient.findUnique({
+      where: { clientId },
+    });
+
+    return client ? this.toEntity(client) : null;
+  }
+
+  async findById(id: string, tenantId?: string | null): Promise<OAuthClientEntity | null> {
+    const client = await prisma.oAuthClient.findFirst({
+      where: tenantId ? { id, tenantId } : { id },
+    });
+
+    return client ? this.toEntity(client) : null;
+  }
+
+  async findByTenantId(tenantId: string): Promise<OAuthClientEntity[]> {
+    const clients = await prisma.oAuthClient.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return clients.map((client) => this.toEntity(client));
+  }
+
+  async delete(id: string): Promise<void> {
+    await prisma.oAuthClient.deleteMany({
+      where: { id },
+    });
+  }
+
+  async getRoles(id: string): Promise<RoleWithPermissions[]> {
+    const clientRoles = await prisma.oAuthClientRole.findMany({
+      where: { clientId: id },
+      include: {
+        role: {
+          include: {
+            rolePermissions: {
+              include: {
+                permission: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    return clientRoles.map(({ role }) => ({
+      id: role.id,
+      name: role.name,
+      description: role.description,
+      tenantId: role.tenantId,
+      permissions: role.rolePermissions.map((rp) => ({
+        id: rp.permission.id,
+        name: rp.permission.name,
+        resource: rp.permission.resource,
+        action: rp.permission.action,
+      })),
+      createdAt: role.createdAt,
+      updatedAt: role.updatedAt,
+    }));
+  }
+
+  async setRoles(id: string, roleIds: string[]): Promise<void> {
+    await prisma.$transaction([
+      prisma.oAuthClientRole.deleteMany({
+        where: { clientId: id },
+      }),
+      prisma.oAuthClientRole.createMany({
+        data: roleIds.map((roleId) => ({
+          clientId: id,
+          roleId,
+        })),
+        skipDuplicates: true,
+      }),
+    ]);
+  }
+
+  private toEntity(client: any): OAuthClientEntity {
+    return new OAuthClientEntity(
+      client.id,
+      client.tenantId,
+      client.clientId,
+      client.clientSecretHash,
+      client.name,
+      client.redirectUris,
+      client.allowedScopes,
+      client.grantTypes,
+      client.createdAt,
+      client.updatedAt
+    );
+  }
+}
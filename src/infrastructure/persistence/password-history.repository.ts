@@ -0,0 +1,38 @@
+import { IPasswordHistoryRepository } from '../../domain/repositories/ipassword-history-repository';
+import { prisma } from '../config/database';
+
+export class PasswordHistoryRepository implements IPasswordHistoryRepository {
+  async findRecentHashes(userId: string, limit: number): Promise<string[]> {
+    if (limit <= 0) {
+      return [];
+    }
+
+    const entries = await prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: { passwordHash: true },
+    });
+
+    return entries.map((entry) => entry.passwordHash);
+  }
+
+  async add(userId: string, passwordHash: string, keep: number): Promise<void> {
+    await prisma.passwordHistory.create({
+      data: { userId, passwordHash },
+    });
+
+    const stale = await prisma.passwordHistory.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      skip: keep,
+      select: { id: true },
+    });
+
+    if (stale.length > 0) {
+      await prisma.passwordHistory.deleteMany({
+        where: { id: { in: stale.map((entry) => entry.id) } },
+      });
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { IScimGroupRepository, ScimGroupRecord } from '../../domain/repositories/iscim-group-repository';
+import { ScimPage } from '../../domain/repositories/iscim-user-repository';
+import { ScimFilter } from '../../domain/value-objects/scim-filter';
+import { prisma } from '../config/database';
+import { buildScimWhere, readStringEquality, ScimAttributeMapping } from './scim-query';
+
+const MEMBERS_INCLUDE = {
+  userRoles: { include: { user: { select: { id: true, email: true } } } },
+};
+
+const MEMBERS: ScimAttributeMapping = {
+  kind: 'custom',
+  build: (node) => ({ userRoles: { some: { userId: readStringEquality(node) } } }),
+};
+
+// Filterable attributes by lower-case name
+const GROUP_ATTRIBUTES: Record<string, ScimAttributeMapping> = {
+  id: { kind: 'string', column: 'id', caseExact: true },
+  externalid: { kind: 'string', column: 'externalId', caseExact: true, nullable: true },
+  displayname: { kind: 'string', column: 'name' },
+  members: MEMBERS,
+  'members.value': MEMBERS,
+  'meta.created': { kind: 'date', column: 'createdAt' },
+  'meta.lastmodified': { kind: 'date', column: 'updatedAt' },
+};
+
+/**
+ * Tenant roles for the SCIM endpoints (SCIM groups)
+ * Roles are created, renamed and deleted through IRoleRepository, which keeps the role caches in step
+ */
+export class ScimGroupRepository implements IScimGroupRepository {
+  async findById(id: string, tenantId: string, includeMembers: boolean = true): Promise<ScimGroupRecord | null> {
+    const role = await prisma.role.findFirst({
+      where: { id, tenantId },
+      include: includeMembers ? MEMBERS_INCLUDE : undefined,
+    });
+
+    return role ? this.toRecord(role) : null;
+  }
+
+  async findAll(
+    tenantId: string,
+    filter: ScimFilter | null,
+    startIndex: number,
+    count: number,
+    includeMembers: boolean
+  ): Promise<ScimPage<ScimGroupRecord>> {
+    const where = filter ? { AND: [{ tenantId }, buildScimWhere(filter.root, GROUP_ATTRIBUTES)] } : { tenantId };
+
+    const [roles, total] = await Promise.all([
+      count > 0
+        ? prisma.role.findMany({
+            where,
+            include: includeMembers ? MEMBERS_INCLUDE : undefined,
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+            skip: startIndex - 1,
+            take: count,
+          })
+        : Promise.resolve([]),
+      prisma.role.count({ where }),
+    ]);
+
+    return {
+      resources: roles.map((role) => this.toRecord(role)),
+      total,
+    };
+  }
+
+  async findByExternalId(externalId: string, tenantId: string): Promise<ScimGroupRecord | null> {
+    const role = await prisma.role.findFirst({
+      where: { externalId, tenantId },
+    });
+
+    return role ? this.toRecord(role) : null;
+  }
+
+  async setExternalId(id: string, tenantId: string, externalId: string | null): Promise<void> {
+    await prisma.role.updateMany({
+      where: { id, tenantId },
+      data: { externalId },
+    });
+  }
+
+  async findTenantUserIds(userIds: string[], tenantId: string): Promise<string[]> {
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds }, tenantId },
+      select: { id: true },
+    });
+
+    return users.map((user) => user.id);
+  }
+
+  private toRecord(role: any): ScimGroupRecord {
+    return {
+      id: role.id,
+      tenantId: role.tenantId,
+      externalId: role.externalId ?? null,
+      name: role.name,
+      members: (role.userRoles ?? []).map((userRole: any) => ({ id: userRole.user.id, email: userRole.user.email })),
+      createdAt: role.createdAt,
+      updatedAt: role.updatedAt,
+    };
+  }
+}
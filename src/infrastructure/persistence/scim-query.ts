@@ -0,0 +1,111 @@
+import { ScimFilterNode, ScimCompareOperator } from '../../domain/value-objects/scim-filter';
+import { ScimException } from '../../domain/exceptions/domain-exceptions';
+import { SCIM_ERROR_TYPES } from '../../domain/constants/scim';
+
+type AttributeNode = Extract<ScimFilterNode, { type: 'compare' | 'present' }>;
+
+/**
+ * How a filterable SCIM attribute maps to the database
+ * "custom" builds the condition itself (e.g. for booleans stored as a nullable column)
+ */
+export type ScimAttributeMapping =
+  | { kind: 'string'; column: string; caseExact?: boolean; nullable?: boolean }
+  | { kind: 'date'; column: string }
+  | { kind: 'custom'; build: (node: AttributeNode) => Record<string, unknown> };
+
+const invalidFilter = (detail: string) => new ScimException(SCIM_ERROR_TYPES.INVALID_FILTER, detail);
+
+const PRISMA_OPERATORS: Record<ScimCompareOperator, string> = {
+  eq: 'equals',
+  ne: 'not',
+  co: 'contains',
+  sw: 'startsWith',
+  ew: 'endsWith',
+  gt: 'gt',
+  ge: 'gte',
+  lt: 'lt',
+  le: 'lte',
+};
+
+function stringCondition(node: AttributeNode, mapping: { column: string; caseExact?: boolean; nullable?: boolean }) {
+  if (node.type === 'present') {
+    return mapping.nullable ? { [mapping.column]: { not: null } } : {};
+  }
+  if (typeof node.value !== 'string') {
+    throw invalidFilter(`${node.attribute} must be compared with a string`);
+  }
+  return {
+    [mapping.column]: {
+      [PRISMA_OPERATORS[node.operator]]: node.value,
+      ...(!mapping.caseExact && { mode: 'insensitive' }),
+    },
+  };
+}
+
+function dateCondition(node: AttributeNode, column: string) {
+  if (node.type === 'present') {
+    return {};
+  }
+  const date = typeof node.value === 'string' ? new Date(node.value) : null;
+  if (!date || isNaN(date.getTime()) || ['co', 'sw', 'ew'].includes(node.operator)) {
+    throw invalidFilter(`${node.attribute} must be compared with a date`);
+  }
+  return { [column]: { [PRISMA_OPERATORS[node.operator]]: date } };
+}
+
+/**
+ * Read a boolean comparison ("active eq true") for custom mappings
+ * @returns The value the attribute must have
+ */
+export function readBooleanComparison(node: AttributeNode): boolean {
+  if (node.type !== 'compare' || !['eq', 'ne'].includes(node.operator) || typeof node.value !== 'boolean') {
+    throw invalidFilter(`${node.attribute} only supports eq and ne with true or false`);
+  }
+  return node.operator === 'eq' ? node.value : !node.value;
+}
+
+/**
+ * Read an equality comparison with a string for custom mappings
+ */
+export function readStringEquality(node: AttributeNode): string {
+  if (node.type !== 'compare' || node.operator !== 'eq' || typeof node.value !== 'string') {
+    throw invalidFilter(`${node.attribute} only supports eq with a string`);
+  }
+  return node.value;
+}
+
+/**
+ * Translate a SCIM filter into a Prisma where clause
+ * @param attributes - Filterable attributes by lower-case name ("name.givenname")
+ * @throws ScimException (invalidFilter) for attributes that are not mapped
+ */
+export function buildScimWhere(
+  node: ScimFilterNode,
+  attributes: Record<string, ScimAttributeMapping>,
+  prefix: string = ''
+): Record<string, unknown> {
+  switch (node.type) {
+    case 'and':
+      return { AND: [buildScimWhere(node.left, attributes, prefix), buildScimWhere(node.right, attributes, prefix)] };
+    case 'or':
+      return { OR: [buildScimWhere(node.left, attributes, prefix), buildScimWhere(node.right, attributes, prefix)] };
+    case 'not':
+      return { NOT: buildScimWhere(node.expression, attributes, prefix) };
+    case 'valuePath':
+      // emails[value eq "x"] is filtered like emails.value eq "x"
+      return buildScimWhere(node.filter, attributes, `${prefix}${node.attribute}.`);
+    default: {
+      const name = `${prefix}${node.attribute}`.toLowerCase();
+      const mapping = attributes[name];
+      if (!mapping) {
+        throw invalidFilter(`Filtering on ${prefix}${node.attribute} is not supported`);
+      }
+      if (node.type === 'compare' && node.value === null) {
+        throw invalidFilter(`${node.attribute} cannot be compared with null; use "pr"`);
+      }
+      if (mapping.kind === 'string') return stringCondition(node, mapping);
+      if (mapping.kind === 'date') return dateCondition(node, mapping.column);
+      return mapping.build(node);
+    }
+  }
+}
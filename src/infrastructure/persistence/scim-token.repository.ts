@@ -0,0 +1,111 @@
+import { IScimTokenRepository, CreateScimTokenData } from '../../domain/repositories/iscim-token-repository';
+import { ICacheRepository } from '../../domain/repositories/icache-repository';
+import { ScimTokenEntity } from '../../domain/entities/scim-token.entity';
+import { prisma } from '../config/database';
+
+export class ScimTokenRepository implements IScimTokenRepository {
+  // Revocation and usage recording invalidate the entry, so the TTL only bounds staleness of other changes
+  private readonly SCIM_TOKEN_CACHE_TTL = parseInt(process.env.REDIS_TTL_SCIM_TOKEN || '300', 10); // 5 minutes default
+
+  constructor(private cache?: ICacheRepository) {}
+
+  private getCacheKey(tokenHash: string): string {
+    return `scim-token:${tokenHash}`;
+  }
+
+  async create(data: CreateScimTokenData): Promise<ScimTokenEntity> {
+    const token = await prisma.scimToken.create({
+      data,
+    });
+
+    return this.toEntity(token);
+  }
+
+  async findByHash(tokenHash: string): Promise<ScimTokenEntity | null> {
+    const cacheKey = this.getCacheKey(tokenHash);
+
+    if (this.cache) {
+      const cached = await this.cache.get<any>(cacheKey);
+      if (cached) {
+        return this.toEntity(cached);
+      }
+    }
+
+    const token = await prisma.scimToken.findUnique({
+      where: { tokenHash },
+    });
+
+    if (!token) return null;
+
+    const entity = this.toEntity(token);
+
+    if (this.cache) {
+      await this.cache.set(cacheKey, entity, this.SCIM_TOKEN_CACHE_TTL);
+    }
+
+    return entity;
+  }
+
+  async findById(id: string, tenantId: string): Promise<ScimTokenEntity | null> {
+    const token = await prisma.scimToken.findFirst({
+      where: { id, tenantId },
+    });
+
+    return token ? this.toEntity(token) : null;
+  }
+
+  async findByTenantId(tenantId: string): Promise<ScimTokenEntity[]> {
+    const tokens = await prisma.scimToken.findMany({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return tokens.map((token) => this.toEntity(token));
+  }
+
+  async countActiveByTenantId(tenantId: string, now: Date): Promise<number> {
+    return prisma.scimToken.count({
+      where: {
+        tenantId,
+        revokedAt: null,
+        OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      },
+    });
+  }
+
+  async revoke(token: ScimTokenEntity): Promise<void> {
+    await prisma.scimToken.updateMany({
+      where: { id: token.id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (this.cache) {
+      await this.cache.delete(this.getCacheKey(token.tokenHash));
+    }
+  }
+
+  async recordUsage(token: ScimTokenEntity, usedAt: Date): Promise<void> {
+    await prisma.scimToken.update({
+      where: { id: token.id },
+      data: { lastUsedAt: usedAt },
+    });
+
+    if (this.cache) {
+      await this.cache.delete(this.getCacheKey(token.tokenHash));
+    }
+  }
+
+  private toEntity(token: any): ScimTokenEntity {
+    return new ScimTokenEntity(
+      token.id,
+      token.tenantId,
+      token.name,
+      token.prefix,
+      token.tokenHash,
+      token.expiresAt ? new Date(token.expiresAt) : null,
+      token.lastUsedAt ? new Date(token.lastUsedAt) : null,
+      token.revokedAt ? new Date(token.revokedAt) : null,
+      new Date(token.createdAt)
+    );
+  }
+}
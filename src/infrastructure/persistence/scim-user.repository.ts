@@ -0,0 +1,197 @@
+import {
+  IScimUserRepository,
+  ScimUserRecord,
+  SaveScimUser,
+  ScimPage,
+} from '../../domain/repositories/iscim-user-repository';
+import { ICacheRepository } from '../../domain/repositories/icache-repository';
+import { UserEntity } from '../../domain/entities/user.entity';
+import { Email } from '../../domain/value-objects/email';
+import { Password } from '../../domain/value-objects/password';
+import { ScimFilter } from '../../domain/value-objects/scim-filter';
+import { prisma } from '../config/database';
+import { buildScimWhere, readBooleanComparison, ScimAttributeMapping } from './scim-query';
+
+const USER_INCLUDE = {
+  profile: true,
+  userRoles: { include: { role: { select: { id: true, name: true } } } },
+};
+
+const EMAIL: ScimAttributeMapping = { kind: 'string', column: 'email' };
+
+// Filterable attributes by lower-case name
+const USER_ATTRIBUTES: Record<string, ScimAttributeMapping> = {
+  id: { kind: 'string', column: 'id', caseExact: true },
+  externalid: { kind: 'string', column: 'externalId', caseExact: true, nullable: true },
+  username: EMAIL,
+  emails: EMAIL,
+  'emails.value': EMAIL,
+  'name.givenname': { kind: 'string', column: 'firstName' },
+  'name.familyname': { kind: 'string', column: 'lastName' },
+  active: {
+    kind: 'custom',
+    build: (node) => ({ deletedAt: readBooleanComparison(node) ? null : { not: null } }),
+  },
+  'meta.created': { kind: 'date', column: 'createdAt' },
+  'meta.lastmodified': { kind: 'date', column: 'updatedAt' },
+};
+
+/**
+ * Tenant users for the SCIM endpoints
+ * Unlike UserRepository, deprovisioned users (deletedAt set) are returned: SCIM clients reactivate them
+ */
+export class ScimUserRepository implements IScimUserRepository {
+  constructor(private cache?: ICacheRepository) {}
+
+  async findById(id: string, tenantId: string): Promise<ScimUserRecord | null> {
+    const user = await prisma.user.findFirst({
+      where: { id, tenantId },
+      include: USER_INCLUDE,
+    });
+
+    return user ? this.toRecord(user) : null;
+  }
+
+  async findAll(
+    tenantId: string,
+    filter: ScimFilter | null,
+    startIndex: number,
+    count: number
+  ): Promise<ScimPage<ScimUserRecord>> {
+    const where = filter ? { AND: [{ tenantId }, buildScimWhere(filter.root, USER_ATTRIBUTES)] } : { tenantId };
+
+    const [users, total] = await Promise.all([
+      count > 0
+        ? prisma.user.findMany({
+            where,
+            include: USER_INCLUDE,
+            orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+            skip: startIndex - 1,
+            take: count,
+          })
+        : Promise.resolve([]),
+      prisma.user.count({ where }),
+    ]);
+
+    return {
+      resources: users.map((user) => this.toRecord(user)),
+      total,
+    };
+  }
+
+  async findByExternalId(externalId: string, tenantId: string): Promise<ScimUserRecord | null> {
+    const user = await prisma.user.findFirst({
+      where: { externalId, tenantId },
+      include: USER_INCLUDE,
+    });
+
+    return user ? this.toRecord(user) : null;
+  }
+
+  async findAccount(id: string, tenantId: string): Promise<UserEntity | null> {
+    const user = await prisma.user.findFirst({ where: { id, tenantId } });
+
+    return user
+      ? new UserEntity(
+          user.id,
+          new Email(user.email),
+          new Password(user.password, true),
+          user.firstName,
+          user.lastName,
+          user.tenantId,
+          user.isSuperAdmin,
+          user.createdAt,
+          user.updatedAt,
+          user.emailVerifiedAt,
+          user.passwordChangedAt
+        )
+      : null;
+  }
+
+  async create(
+    tenantId: string,
+    user: SaveScimUser,
+    hashedPassword: string,
+    emailVerifiedAt: Date
+  ): Promise<ScimUserRecord> {
+    const created = await prisma.user.create({
+      data: {
+        email: user.email,
+        password: hashedPassword,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        tenantId,
+        isSuperAdmin: false,
+        externalId: user.externalId,
+        deletedAt: user.deletedAt,
+        emailVerifiedAt,
+        profile: { create: user.profile },
+      },
+      include: USER_INCLUDE,
+    });
+
+    return this.toRecord(created);
+  }
+
+  async update(id: string, tenantId: string, user: SaveScimUser, hashedPassword?: string): Promise<ScimUserRecord> {
+    const current = await prisma.user.findFirstOrThrow({
+      where: { id, tenantId },
+      select: { email: true },
+    });
+
+    const updated = await prisma.user.update({
+      where: { id },
+      data: {
+        externalId: user.externalId,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        deletedAt: user.deletedAt,
+        // The address comes from the tenant's directory, so a changed one counts as verified too
+        ...(user.email !== current.email && { emailVerifiedAt: new Date() }),
+        ...(hashedPassword && { password: hashedPassword, passwordChangedAt: new Date() }),
+        profile: { upsert: { create: user.profile, update: user.profile } },
+      },
+      include: USER_INCLUDE,
+    });
+
+    await this.invalidateUserCache(id, tenantId, [current.email, updated.email]);
+
+    return this.toRecord(updated);
+  }
+
+  /**
+   * Drop the entries UserRepository caches for the user, so a deprovisioning takes effect at once
+   */
+  private async invalidateUserCache(id: string, tenantId: string, emails: string[]): Promise<void> {
+    if (!this.cache) return;
+
+    await this.cache.delete(`user:${id}:${tenantId}`);
+    await this.cache.delete(`user:${id}`);
+    for (const email of new Set(emails)) {
+      await this.cache.delete(`user:email:${email}:${tenantId}`);
+    }
+  }
+
+  private toRecord(user: any): ScimUserRecord {
+    return {
+      id: user.id,
+      tenantId: user.tenantId,
+      externalId: user.externalId ?? null,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      deletedAt: user.deletedAt ?? null,
+      profile: {
+        companyName: user.profile?.companyName ?? null,
+        mobileNo: user.profile?.mobileNo ?? null,
+        phoneNo: user.profile?.phoneNo ?? null,
+        city: user.profile?.city ?? null,
+        address: user.profile?.address ?? null,
+      },
+      groups: (user.userRoles ?? []).map((userRole: any) => ({ id: userRole.role.id, name: userRole.role.name })),
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { ISessionRepository } from '../../domain/repositories/isession-repository';
+import { SessionEntity } from '../../domain/entities/session.entity';
+import { ClientContext } from '../../shared/types/client-context';
+import { prisma } from '../config/database';
+
+export class SessionRepository implements ISessionRepository {
+  async create(userId: string, context?: ClientContext): Promise<SessionEntity> {
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        userAgent: context?.userAgent,
+        ipAddress: context?.ipAddress,
+      },
+    });
+
+    return this.toEntity(session);
+  }
+
+  async findById(id: string): Promise<SessionEntity | null> {
+    const session = await prisma.session.findUnique({
+      where: { id },
+    });
+
+    return session ? this.toEntity(session) : null;
+  }
+
+  async findActiveByUserId(userId: string): Promise<SessionEntity[]> {
+    const sessions = await prisma.session.findMany({
+      where: {
+        userId,
+        refreshTokens: {
+          some: {
+            rotatedAt: null,
+            expiresAt: { gt: new Date() },
+          },
+        },
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((session) => this.toEntity(session));
+  }
+
+  async touch(id: string, context?: ClientContext): Promise<void> {
+    await prisma.session.updateMany({
+      where: { id },
+      data: {
+        lastUsedAt: new Date(),
+        // Keep the last known client details; IPs change as devices move between networks
+        ...(context?.userAgent && { userAgent: context.userAgent }),
+        ...(context?.ipAddress && { ipAddress: context.ipAddress }),
+      },
+    });
+  }
+
+  private toEntity(session: any): SessionEntity {
+    return new SessionEntity(
+      session.id,
+      session.userId,
+      session.userAgent,
+      session.ipAddress,
+      session.createdAt,
+      session.lastUsedAt
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { ISsoLoginRequestRepository, SsoLoginRequest } from '../../domain/repositories/isso-login-request-repository';
+import { SsoProtocol } from '../../domain/constants/sso';
+import { prisma } from '../config/database';
+
+export class SsoLoginRequestRepository implements ISsoLoginRequestRepository {
+  async save(request: SsoLoginRequest, expiresAt: Date): Promise<void> {
+    // Logins abandoned at the identity provider are cleaned up whenever a new one starts
+    await prisma.ssoLoginRequest.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    await prisma.ssoLoginRequest.create({
+      data: { ...request, expiresAt },
+    });
+  }
+
+  async consume(state: string, protocol: SsoProtocol): Promise<SsoLoginRequest | undefined> {
+    const stored = await prisma.ssoLoginRequest.findUnique({
+      where: { state },
+    });
+    if (!stored || stored.protocol !== protocol) {
+      return undefined;
+    }
+
+    // Conditional delete so a replayed response cannot use the request a second time
+    const { count } = await prisma.ssoLoginRequest.deleteMany({
+      where: { id: stored.id, expiresAt: { gt: new Date() } },
+    });
+
+    return count === 1
+      ? {
+          state: stored.state,
+          protocol: stored.protocol as SsoProtocol,
+          tenantId: stored.tenantId,
+          connectionId: stored.connectionId,
+          nonce: stored.nonce,
+          codeVerifier: stored.codeVerifier,
+        }
+      : undefined;
+  }
+}
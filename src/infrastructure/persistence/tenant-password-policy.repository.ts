@@ -0,0 +1,102 @@
+import { ITenantPasswordPolicyRepository } from '../../domain/repositories/itenant-password-policy-repository';
+import { ICacheRepository } from '../../domain/repositories/icache-repository';
+import { TenantPasswordPolicyEntity } from '../../domain/entities/tenant-password-policy.entity';
+import { prisma } from '../config/database';
+
+export class TenantPasswordPolicyRepository implements ITenantPasswordPolicyRepository {
+  private readonly POLICY_CACHE_TTL = parseInt(process.env.REDIS_TTL_TENANT_SETTINGS || '300', 10); // 5 minutes default
+
+  constructor(private cache?: ICacheRepository) {}
+
+  private getCacheKey(tenantId: string): string {
+    return `tenant-password-policy:${tenantId}`;
+  }
+
+  async findByTenantId(tenantId: string): Promise<TenantPasswordPolicyEntity | null> {
+    const cacheKey = this.getCacheKey(tenantId);
+
+    // Read on every password change and login; tenants without overrides are cached as an empty entity
+    if (this.cache) {
+      const cached = await this.cache.get<any>(cacheKey);
+      if (cached) {
+        return cached.updatedAt
+          ? new TenantPasswordPolicyEntity(cached.tenantId, cached.overrides, new Date(cached.updatedAt))
+          : null;
+      }
+    }
+
+    const policy = await prisma.tenantPasswordPolicy.findUnique({
+      where: { tenantId },
+    });
+
+    const entity = policy ? this.toEntity(policy) : null;
+
+    if (this.cache) {
+      await this.cache.set(cacheKey, entity ?? new TenantPasswordPolicyEntity(tenantId, {}, null), this.POLICY_CACHE_TTL);
+    }
+
+    return entity;
+  }
+
+  async save(policy: TenantPasswordPolicyEntity, updatedBy?: string): Promise<TenantPasswordPolicyEntity> {
+    const data = {
+      minLength: policy.overrides.minLength ?? null,
+      requireUppercase: policy.overrides.requireUppercase ?? null,
+      requireLowercase: policy.overrides.requireLowercase ?? null,
+      requireNumber: policy.overrides.requireNumber ?? null,
+      requireSpecialChar: policy.overrides.requireSpecialChar ?? null,
+      maxHistory: policy.overrides.maxHistory ?? null,
+      expiryDays: policy.overrides.expiryDays ?? null,
+      bannedWords: policy.overrides.bannedWords ?? [],
+      updatedBy,
+    };
+
+    const saved = await prisma.tenantPasswordPolicy.upsert({
+      where: { tenantId: policy.tenantId },
+      create: {
+        tenantId: policy.tenantId,
+        ...data,
+      },
+      update: data,
+    });
+
+    if (this.cache) {
+      await this.cache.delete(this.getCacheKey(policy.tenantId));
+    }
+
+    return this.toEntity(saved);
+  }
+
+  async delete(tenantId: string): Promise<void> {
+    await prisma.tenantPasswordPolicy.deleteMany({
+      where: { tenantId },
+    });
+
+    if (this.cache) {
+      await this.cache.delete(this.getCacheKey(tenantId));
+    }
+  }
+
+  private toEntity(policy: any): TenantPasswordPolicyEntity {
+    // Null columns are left out so they inherit the global policy
+    const overrides = Object.fromEntries(
+      [
+        'minLength',
+        'requireUppercase',
+        'requireLowercase',
+        'requireNumber',
+        'requireSpecialChar',
+        'maxHistory',
+        'expiryDays',
+      ]
+        .filter((key) => policy[key] !== null && policy[key] !== undefined)
+        .map((key) => [key, policy[key]])
+    );
+
+    return new TenantPasswordPolicyEntity(
+      policy.tenantId,
+      { ...overrides, bannedWords: policy.bannedWords ?? [] },
+      policy.updatedAt ? new Date(policy.updatedAt) : null
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  ITenantSamlConfigRepository,
+  SaveTenantSamlConfig,
+} from '../../domain/repositories/itenant-saml-config-repository';
+import { ICacheRepository } from '../../domain/repositories/icache-repository';
+import { TenantSamlConfigEntity } from '../../domain/entities/tenant-saml-config.entity';
+import { DEFAULT_SAML_ATTRIBUTE_MAPPING } from '../../domain/constants/sso';
+import { prisma } from '../config/database';
+
+export class TenantSamlConfigRepository implements ITenantSamlConfigRepository {
+  private readonly CONFIG_CACHE_TTL = parseInt(process.env.REDIS_TTL_TENANT_SETTINGS || '300', 10); // 5 minutes default
+
+  constructor(private cache?: ICacheRepository) {}
+
+  private getCacheKey(tenantId: string): string {
+    return `tenant-saml-config:${tenantId}`;
+  }
+
+  async findByTenantId(tenantId: string): Promise<TenantSamlConfigEntity | null> {
+    const cacheKey = this.getCacheKey(tenantId);
+
+    // Read on every password login; tenants without SSO are cached as a marker
+    if (this.cache) {
+      const cached = await this.cache.get<any>(cacheKey);
+      if (cached) {
+        return cached.id ? this.toEntity(cached) : null;
+      }
+    }
+
+    const config = await prisma.tenantSamlConfig.findUnique({
+      where: { tenantId },
+    });
+
+    if (this.cache) {
+      await this.cache.set(cacheKey, config ?? { tenantId }, this.CONFIG_CACHE_TTL);
+    }
+
+    return config ? this.toEntity(config) : null;
+  }
+
+  async save(tenantId: string, config: SaveTenantSamlConfig, updatedBy?: string): Promise<TenantSamlConfigEntity> {
+    const data = {
+      ...config,
+      attributeMapping: { ...config.attributeMapping },
+      updatedBy,
+    };
+
+    const saved = await prisma.tenantSamlConfig.upsert({
+      where: { tenantId },
+      create: { tenantId, ...data },
+      update: data,
+    });
+
+    if (this.cache) {
+      await this.cache.delete(this.getCacheKey(tenantId));
+    }
+
+    return this.toEntity(saved);
+  }
+
+  async delete(tenantId: string): Promise<void> {
+    await prisma.tenantSamlConfig.deleteMany({
+      where: { tenantId },
+    });
+
+    if (this.cache) {
+      await this.cache.delete(this.getCacheKey(tenantId));
+    }
+  }
+
+  private toEntity(config: any): TenantSamlConfigEntity {
+    return new TenantSamlConfigEntity(
+      config.id,
+      config.tenantId,
+      config.enabled,
+      config.idpEntityId,
+      config.idpSsoUrl,
+      config.idpCertificates ?? [],
+      config.idpMetadataXml ?? null,
+      { ...DEFAULT_SAML_ATTRIBUTE_MAPPING, ...(config.attributeMapping ?? {}) },
+      config.jitProvisioning,
+      config.defaultRoleId ?? null,
+      config.disablePasswordLogin,
+      new Date(config.updatedAt)
+    );
+  }
+}
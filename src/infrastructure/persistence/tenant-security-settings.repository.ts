@@ -0,0 +1,82 @@
+import { ITenantSecuritySettingsRepository } from '../../domain/repositories/itenant-security-settings-repository';
+import { ICacheRepository } from '../../domain/repositories/icache-repository';
+import { TenantSecuritySettingsEntity } from '../../domain/entities/tenant-security-settings.entity';
+import { DEFAULT_LOCKOUT_POLICY } from '../../domain/constants/account-lockout';
+import { prisma } from '../config/database';
+
+export class TenantSecuritySettingsRepository implements ITenantSecuritySettingsRepository {
+  private readonly SETTINGS_CACHE_TTL = parseInt(process.env.REDIS_TTL_TENANT_SETTINGS || '300', 10); // 5 minutes default
+
+  constructor(private cache?: ICacheRepository) {}
+
+  private getCacheKey(tenantId: string): string {
+    return `tenant-security-settings:${tenantId}`;
+  }
+
+  async findByTenantId(tenantId: string): Promise<TenantSecuritySettingsEntity> {
+    const cacheKey = this.getCacheKey(tenantId);
+
+    // Settings are read on every login and refresh, so try cache first
+    if (this.cache) {
+      const cached = await this.cache.get<any>(cacheKey);
+      if (cached) {
+        return this.toEntity(cached);
+      }
+    }
+
+    const settings = await prisma.tenantSecuritySettings.findUnique({
+      where: { tenantId },
+    });
+
+    const entity = settings ? this.toEntity(settings) : TenantSecuritySettingsEntity.defaults(tenantId);
+
+    if (this.cache) {
+      await this.cache.set(cacheKey, entity, this.SETTINGS_CACHE_TTL);
+    }
+
+    return entity;
+  }
+
+  async save(settings: TenantSecuritySettingsEntity, updatedBy?: string): Promise<TenantSecuritySettingsEntity> {
+    const data = {
+      mfaPolicy: settings.mfaPolicy,
+      requireEmailVerification: settings.requireEmailVerification,
+      lockoutThreshold: settings.lockoutPolicy.threshold,
+      lockoutDurationSeconds: settings.lockoutPolicy.durationSeconds,
+      lockoutMaxDurationSeconds: settings.lockoutPolicy.maxDurationSeconds,
+      magicLinkEnabled: settings.magicLinkEnabled,
+      updatedBy,
+    };
+
+    const saved = await prisma.tenantSecuritySettings.upsert({
+      where: { tenantId: settings.tenantId },
+      create: {
+        tenantId: settings.tenantId,
+        ...data,
+      },
+      update: data,
+    });
+
+    if (this.cache) {
+      await this.cache.delete(this.getCacheKey(settings.tenantId));
+    }
+
+    return this.toEntity(saved);
+  }
+
+  private toEntity(settings: any): TenantSecuritySettingsEntity {
+    return new TenantSecuritySettingsEntity(
+      settings.tenantId,
+      settings.mfaPolicy,
+      settings.requireEmailVerification ?? false,
+      // Cached entries hold the entity shape, rows the flat columns
+      settings.lockoutPolicy ?? {
+        threshold: settings.lockoutThreshold ?? DEFAULT_LOCKOUT_POLICY.threshold,
+        durationSeconds: settings.lockoutDurationSeconds ?? DEFAULT_LOCKOUT_POLICY.durationSeconds,
+        maxDurationSeconds: settings.lockoutMaxDurationSeconds ?? DEFAULT_LOCKOUT_POLICY.maxDurationSeconds,
+      },
+      settings.magicLinkEnabled ?? false,
+      settings.updatedAt ? new Date(settings.updatedAt) : null
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { ITokenVersionRepository } from '../../domain/repositories/itoken-version-repository';
+import { ICacheRepository } from '../../domain/repositories/icache-repository';
+import { prisma } from '../config/database';
+import { Logger } from '../logging/logger';
+
+export class TokenVersionRepository implements ITokenVersionRepository {
+  // Checked on every authenticated request; the cache is written through on increment, so it can live long
+  private readonly VERSION_CACHE_TTL = parseInt(process.env.REDIS_TTL_TOKEN_VERSION || '86400', 10); // 1 day default
+
+  constructor(private cache?: ICacheRepository) {}
+
+  private getCacheKey(userId: string): string {
+    return `token-version:${userId}`;
+  }
+
+  async getVersion(userId: string): Promise<number | null> {
+    const cacheKey = this.getCacheKey(userId);
+
+    if (this.cache) {
+      const cached = await this.cache.get<number>(cacheKey);
+      if (cached !== null && cached !== undefined) {
+        return cached;
+      }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { tokenVersion: true, deletedAt: true },
+    });
+
+    // Deprovisioned users keep their row, but their tokens are rejected like those of deleted users
+    if (!user || user.deletedAt) return null;
+
+    if (this.cache) {
+      await this.cache.set(cacheKey, user.tokenVersion, this.VERSION_CACHE_TTL);
+    }
+
+    return user.tokenVersion;
+  }
+
+  async increment(userId: string): Promise<void> {
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { tokenVersion: { increment: 1 } },
+      select: { tokenVersion: true },
+    });
+
+    if (this.cache) {
+      await this.cache.set(this.getCacheKey(userId), user.tokenVersion, this.VERSION_CACHE_TTL);
+    }
+
+    Logger.info('Access tokens revoked', { userId, tokenVersion: user.tokenVersion });
+  }
+
+  private getServiceClientCacheKey(id: string): string {
+    return `token-version:client:${id}`;
+  }
+
+  async getServiceClientVersion(id: string): Promise<number | null> {
+    const cacheKey = this.getServiceClientCacheKey(id);
+
+    if (this.cache) {
+      const cached = await this.cache.get<number>(cacheKey);
+      if (cached !== null && cached !== undefined) {
+        return cached;
+      }
+    }
+
+    const client = await prisma.oAuthClient.findUnique({
+      where: { id },
+      select: { tokenVersion: true },
+    });
+
+    if (!client) return null;
+
+    if (this.cache) {
+      await this.cache.set(cacheKey, client.tokenVersion, this.VERSION_CACHE_TTL);
+    }
+
+    return client.tokenVersion;
+  }
+
+  async incrementServiceClient(id: string): Promise<void> {
+    const client = await prisma.oAuthClient.update({
+      where: { id },
+      data: { tokenVersion: { increment: 1 } },
+      select: { tokenVersion: true },
+    });
+
+    if (this.cache) {
+      await this.cache.set(this.getServiceClientCacheKey(id), client.tokenVersion, this.VERSION_CACHE_TTL);
+    }
+
+    Logger.info('Service client access tokens revoked', { clientId: id, tokenVersion: client.tokenVersion });
+  }
+}
@@ -1,41 +1,70 @@
-import { ITokenRepository } from '../../domain/repositories/itoken-repository';
+import { EmailVerificationTokenRecord, ITokenRepository, RefreshTokenRecord } from '../../domain/repositories/itoken-repository';
 import { ICacheRepository } from '../../domain/repositories/icache-repository';
 import { prisma } from '../config/database';
 import { jwtConfig } from '../config/jwt.config';
 import { Logger } from '../logging/logger';
 import crypto from 'crypto';
 
+// Password reset, magic link and SSO login tokens share a table; each is only accepted for its own purpose
+const TOKEN_PURPOSES = {
+  PASSWORD_RESET: 'password_reset',
+  MAGIC_LINK: 'magic_link',
+  SSO_LOGIN: 'sso_login',
+} as const;
+
+type LoginTokenPurpose = typeof TOKEN_PURPOSES.MAGIC_LINK | typeof TOKEN_PURPOSES.SSO_LOGIN;
+
+// HMAC domain of each signed login token, so one kind can never be accepted as another
+const LOGIN_TOKEN_SIGNATURE_PREFIXES: Record<LoginTokenPurpose, string> = {
+  [TOKEN_PURPOSES.MAGIC_LINK]: 'magic-link',
+  [TOKEN_PURPOSES.SSO_LOGIN]: 'sso-login',
+};
+
 export class TokenRepository implements ITokenRepository {
   private readonly TOKEN_CACHE_TTL = parseInt(process.env.REDIS_TTL_TOKEN || '60', 10); // 1 minute default
+  // Looked up for every request made with a session's access token; revokeFamily overwrites the entry
+  private readonly FAMILY_CACHE_TTL = parseInt(process.env.REDIS_TTL_TOKEN_FAMILY || '86400', 10); // 1 day default
 
   constructor(private cache?: ICacheRepository) {}
 
   private getCacheKey(token: string): string {
     return `token:${token}`;
   }
-  async save(token: string, userId: string, expiresAt: Date): Promise<void> {
+
+  private getFamilyCacheKey(familyId: string): string {
+    return `token-family:${familyId}`;
+  }
+  async save(token: string, userId: string, expiresAt: Date, familyId: string): Promise<void> {
     Logger.debug('Saving refresh token', { userId });
+    const record: RefreshTokenRecord = {
+      userId,
+      familyId,
+      expiresAt,
+      rotatedAt: null,
+    };
+
     await prisma.refreshToken.create({
       data: {
         token,
-        userId,
-        expiresAt,
+        userId: record.userId,
+        familyId: record.familyId,
+        expiresAt: record.expiresAt,
       },
     });
     
     // Cache the token
     if (this.cache) {
       const cacheKey = this.getCacheKey(token);
-      await this.cache.set(cacheKey, { userId, expiresAt }, this.TOKEN_CACHE_TTL);
+      await this.cache.set(cacheKey, record, this.TOKEN_CACHE_TTL);
     }
   }
 
-  async findByToken(token: string): Promise<{ userId: string; expiresAt: Date } | null> {
+  async findByToken(token: string): Promise<RefreshTokenRecord | null> {
     const cacheKey = this.getCacheKey(token);
     
     // Try cache first
     if (this.cache) {
-      const cached = await this.cache.get<{ userId: string; expiresAt: Date }>(cacheKey);
+      const cached = await this.cache.get<RefreshTokenRecord>(cacheKey);
       if (cached) {
         // Check if expired
         if (cached.expiresAt < new Date()) {
@@ -57,9 +86,11 @@ export class TokenRepository implements ITokenRepository {
       return null;
     }
 
-    const result = {
+    const result: RefreshTokenRecord = {
       userId: refreshToken.userId,
+      familyId: refreshToken.familyId,
       expiresAt: refreshToken.expiresAt,
+      rotatedAt: refreshToken.rotatedAt,
     };
     
     // Cache the result
@@ -70,6 +101,81 @@ export class TokenRepository implements ITokenRepository {
     return result;
   }
 
+  async rotate(token: string, newToken: string, expiresAt: Date): Promise<boolean> {
+    const rotated = await prisma.$transaction(async (tx) => {
+      const current = await tx.refreshToken.findUnique({ where: { token } });
+      if (!current) {
+        return false;
+      }
+
+      // Conditional update so two concurrent refreshes cannot both succeed
+      const { count } = await tx.refreshToken.updateMany({
+        where: { token, rotatedAt: null },
+        data: { rotatedAt: new Date() },
+      });
+      if (count !== 1) {
+        return false;
+      }
+
+      await tx.refreshToken.create({
+        data: {
+          token: newToken,
+          userId: current.userId,
+          familyId: current.familyId,
+          expiresAt,
+        },
+      });
+      return true;
+    });
+
+    // The cached entry no longer reflects the rotation
+    if (this.cache) {
+      await this.cache.delete(this.getCacheKey(token));
+    }
+
+    return rotated;
+  }
+
+  async revokeFamily(familyId: string): Promise<void> {
+    const tokens = await prisma.refreshToken.findMany({
+      where: { familyId },
+      select: { token: true },
+    });
+
+    // Tokens are removed by the cascade
+    await prisma.session.deleteMany({
+      where: { id: familyId },
+    });
+
+    if (this.cache) {
+      await Promise.all(tokens.map((t) => this.cache!.delete(this.getCacheKey(t.token))));
+      await this.cache.set(this.getFamilyCacheKey(familyId), false, this.FAMILY_CACHE_TTL);
+    }
+  }
+
+  async isFamilyActive(familyId: string): Promise<boolean> {
+    const cacheKey = this.getFamilyCacheKey(familyId);
+
+    if (this.cache) {
+      const cached = await this.cache.get<boolean>(cacheKey);
+      if (cached !== null && cached !== undefined) {
+        return cached;
+      }
+    }
+
+    const session = await prisma.session.findUnique({
+      where: { id: familyId },
+      select: { id: true },
+    });
+    const active = session !== null;
+
+    if (this.cache) {
+      await this.cache.set(cacheKey, active, this.FAMILY_CACHE_TTL);
+    }
+
+    return active;
+  }
+
   async delete(token: string): Promise<void> {
     await prisma.refreshToken.deleteMany({
       where: { token },
@@ -82,9 +188,24 @@ export class TokenRepository implements ITokenRepository {
   }
 
   async deleteByUserId(userId: string): Promise<void> {
-    await prisma.refreshToken.deleteMany({
+    const sessions = await prisma.session.findMany({
+      where: { userId },
+      select: { id: true, refreshTokens: { select: { token: true } } },
+    });
+
+    await prisma.session.deleteMany({
       where: { userId },
     });
+
+    // Access tokens of the deleted sessions must stop working before the cached state expires
+    if (this.cache) {
+      await Promise.all(
+        sessions.flatMap((session) => [
+          this.cache!.set(this.getFamilyCacheKey(session.id), false, this.FAMILY_CACHE_TTL),
+          ...session.refreshTokens.map((t) => this.cache!.delete(this.getCacheKey(t.token))),
+        ])
+      );
+    }
   }
 
   async deleteExpired(): Promise<void> {
@@ -95,6 +216,13 @@ export class TokenRepository implements ITokenRepository {
         },
       },
     });
+
+    // Sessions whose last token expired are over
+    await prisma.session.deleteMany({
+      where: {
+        refreshTokens: { none: {} },
+      },
+    });
   }
 
   async generatePasswordResetToken(userId: string, expiresInSeconds: number): Promise<string> {
@@ -133,7 +261,12 @@ export class TokenRepository implements ITokenRepository {
       where: { token },
     });
 
-    if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+    if (
+      !resetToken ||
+      resetToken.purpose !== TOKEN_PURPOSES.PASSWORD_RESET ||
+      resetToken.usedAt ||
+      resetToken.expiresAt < new Date()
+    ) {
       return null;
     }
 
@@ -164,5 +297,154 @@ export class TokenRepository implements ITokenRepository {
       data: { usedAt: new Date() },
     });
   }
-}
 
+  async generateMagicLinkToken(userId: string, expiresInSeconds: number): Promise<string> {
+    return this.generateLoginToken(TOKEN_PURPOSES.MAGIC_LINK, userId, expiresInSeconds);
+  }
+
+  async consumeMagicLinkToken(token: string): Promise<string | null> {
+    return this.consumeLoginToken(TOKEN_PURPOSES.MAGIC_LINK, token);
+  }
+
+  async generateSsoLoginCode(userId: string, expiresInSeconds: number): Promise<string> {
+    return this.generateLoginToken(TOKEN_PURPOSES.SSO_LOGIN, userId, expiresInSeconds);
+  }
+
+  async consumeSsoLoginCode(code: string): Promise<string | null> {
+    return this.consumeLoginToken(TOKEN_PURPOSES.SSO_LOGIN, code);
+  }
+
+  async countMagicLinkTokensSince(userId: string, since: Date): Promise<number> {
+    return prisma.passwordResetToken.count({
+      where: { userId, purpose: TOKEN_PURPOSES.MAGIC_LINK, createdAt: { gte: since } },
+    });
+  }
+
+  async generateEmailVerificationToken(userId: string, email: string, expiresInSeconds: number): Promise<string> {
+    if (!jwtConfig.secret) {
+      throw new Error('JWT_SECRET is not defined in environment variables');
+    }
+    const hashToken = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
+    const token = `${hashToken}.${this.signEmailVerificationToken(userId, email, hashToken, expiresAt)}`;
+
+    await prisma.emailVerificationToken.create({
+      data: {
+        userId,
+        email,
+        token,
+        expiresAt,
+      },
+    });
+
+    return token;
+  }
+
+  async validateEmailVerificationToken(token: string): Promise<EmailVerificationTokenRecord | null> {
+    const [hashToken, signature] = token.split('.');
+    if (!hashToken || !signature) {
+      return null;
+    }
+
+    const verificationToken = await prisma.emailVerificationToken.findUnique({
+      where: { token },
+    });
+
+    if (!verificationToken || verificationToken.usedAt || verificationToken.expiresAt < new Date()) {
+      return null;
+    }
+
+    // Verify HMAC signature (binds the token to the user and the address)
+    const expectedSignature = this.signEmailVerificationToken(
+      verificationToken.userId,
+      verificationToken.email,
+      hashToken,
+      verificationToken.expiresAt
+    );
+    if (
+      signature.length !== expectedSignature.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature))
+    ) {
+      return null;
+    }
+
+    return { userId: verificationToken.userId, email: verificationToken.email };
+  }
+
+  async invalidateEmailVerificationTokens(userId: string): Promise<void> {
+    await prisma.emailVerificationToken.updateMany({
+      where: { userId, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+  }
+
+  async countEmailVerificationTokensSince(userId: string, since: Date): Promise<number> {
+    return prisma.emailVerificationToken.count({
+      where: { userId, createdAt: { gte: since } },
+    });
+  }
+
+  private async generateLoginToken(purpose: LoginTokenPurpose, userId: string, expiresInSeconds: number): Promise<string> {
+    if (!jwtConfig.secret) {
+      throw new Error('JWT_SECRET is not defined in environment variables');
+    }
+    const hashToken = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + expiresInSeconds * 1000);
+    const token = `${hashToken}.${this.signLoginToken(purpose, userId, hashToken, expiresAt)}`;
+
+    await prisma.passwordResetToken.create({
+      data: {
+        userId,
+        token,
+        expiresAt,
+        purpose,
+      },
+    });
+
+    return token;
+  }
+
+  private async consumeLoginToken(purpose: LoginTokenPurpose, token: string): Promise<string | null> {
+    const [hashToken, signature] = token.split('.');
+    if (!hashToken || !signature) {
+      return null;
+    }
+
+    const loginToken = await prisma.passwordResetToken.findUnique({
+      where: { token },
+    });
+
+    if (!loginToken || loginToken.purpose !== purpose) {
+      return null;
+    }
+
+    const expectedSignature = this.signLoginToken(purpose, loginToken.userId, hashToken, loginToken.expiresAt);
+    if (
+      signature.length !== expectedSignature.length ||
+      !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature))
+    ) {
+      return null;
+    }
+
+    // Conditional update so two concurrent requests cannot both use the token
+    const now = new Date();
+    const { count } = await prisma.passwordResetToken.updateMany({
+      where: { id: loginToken.id, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now },
+    });
+
+    return count === 1 ? loginToken.userId : null;
+  }
+
+  private signLoginToken(purpose: LoginTokenPurpose, userId: string, hashToken: string, expiresAt: Date): string {
+    return crypto.createHmac('sha256', jwtConfig.secret)
+      .update(`${LOGIN_TOKEN_SIGNATURE_PREFIXES[purpose]}:${userId}:${hashToken}:${expiresAt.getTime()}`)
+      .digest('hex');
+  }
+
+  private signEmailVerificationToken(userId: string, email: string, hashToken: string, expiresAt: Date): string {
+    return crypto.createHmac('sha256', jwtConfig.secret)
+      .update(`email-verification:${userId}:${email}:${hashToken}:${expiresAt.getTime()}`)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,56 @@
+import { IUserIdentityRepository, NewUserIdentity } from '../../domain/repositories/iuser-identity-repository';
+import { UserIdentityEntity } from '../../domain/entities/user-identity.entity';
+import { prisma } from '../config/database';
+
+export class UserIdentityRepository implements IUserIdentityRepository {
+  async findBySubject(connectionId: string, subject: string): Promise<UserIdentityEntity | null> {
+    const identity = await prisma.userIdentity.findUnique({
+      where: { connectionId_subject: { connectionId, subject } },
+    });
+
+    return identity ? this.toEntity(identity) : null;
+  }
+
+  async findByUserId(userId: string): Promise<UserIdentityEntity[]> {
+    const identities = await prisma.userIdentity.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return identities.map((identity) => this.toEntity(identity));
+  }
+
+  async create(identity: NewUserIdentity): Promise<UserIdentityEntity> {
+    const created = await prisma.userIdentity.create({
+      data: { ...identity, lastLoginAt: new Date() },
+    });
+
+    return this.toEntity(created);
+  }
+
+  async recordLogin(id: string, email: string | null): Promise<void> {
+    await prisma.userIdentity.update({
+      where: { id },
+      data: { email, lastLoginAt: new Date() },
+    });
+  }
+
+  async deleteByConnectionId(connectionId: string): Promise<void> {
+    await prisma.userIdentity.deleteMany({
+      where: { connectionId },
+    });
+  }
+
+  private toEntity(identity: any): UserIdentityEntity {
+    return new UserIdentityEntity(
+      identity.id,
+      identity.userId,
+      identity.protocol,
+      identity.connectionId,
+      identity.subject,
+      identity.email,
+      identity.createdAt,
+      identity.lastLoginAt
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { IUserLockoutRepository } from '../../domain/repositories/iuser-lockout-repository';
+import { UserLockoutEntity } from '../../domain/entities/user-lockout.entity';
+import { prisma } from '../config/database';
+
+export class UserLockoutRepository implements IUserLockoutRepository {
+  async findByUserId(userId: string): Promise<UserLockoutEntity | null> {
+    const lockout = await prisma.userLockout.findUnique({
+      where: { userId },
+    });
+
+    if (!lockout) return null;
+
+    return this.toEntity(lockout);
+  }
+
+  async recordFailure(userId: string, at: Date): Promise<UserLockoutEntity> {
+    await prisma.userLockout.updateMany({
+      where: { userId, lastFailedAt: { lt: UserLockoutEntity.failureWindowStart(at) } },
+      data: { failedAttempts: 0 },
+    });
+
+    // Increment in the database so concurrent attempts are all counted
+    const saved = await prisma.userLockout.upsert({
+      where: { userId },
+      create: {
+        userId,
+        failedAttempts: 1,
+        lastFailedAt: at,
+      },
+      update: {
+        failedAttempts: { increment: 1 },
+        lastFailedAt: at,
+      },
+    });
+
+    return this.toEntity(saved);
+  }
+
+  async lock(userId: string, lockedUntil: Date): Promise<UserLockoutEntity> {
+    const saved = await prisma.userLockout.update({
+      where: { userId },
+      data: {
+        failedAttempts: 0,
+        lockCount: { increment: 1 },
+        lockedUntil,
+      },
+    });
+
+    return this.toEntity(saved);
+  }
+
+  async reset(userId: string): Promise<void> {
+    await prisma.userLockout.deleteMany({
+      where: { userId },
+    });
+  }
+
+  private toEntity(lockout: any): UserLockoutEntity {
+    return new UserLockoutEntity(
+      lockout.userId,
+      lockout.failedAttempts,
+      lockout.lockCount,
+      lockout.lockedUntil,
+      lockout.lastFailedAt
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { IUserMfaRepository } from '../../domain/repositories/iuser-mfa-repository';
+import { UserMfaEntity } from '../../domain/entities/user-mfa.entity';
+import { prisma } from '../config/database';
+import { mfaConfig } from '../config/mfa.config';
+import { SecretCipher } from '../external/secret-cipher';
+
+export class UserMfaRepository implements IUserMfaRepository {
+  private readonly cipher = new SecretCipher(mfaConfig.encryptionKey, 'user-mfa');
+
+  async findByUserId(userId: string): Promise<UserMfaEntity | null> {
+    const mfa = await prisma.userMfa.findUnique({
+      where: { userId },
+    });
+
+    if (!mfa) return null;
+
+    return this.toEntity(mfa);
+  }
+
+  async savePending(userId: string, secret: string): Promise<UserMfaEntity> {
+    const encryptedSecret = this.cipher.encrypt(secret);
+    const saved = await prisma.userMfa.upsert({
+      where: { userId },
+      create: {
+        userId,
+        secret: encryptedSecret,
+      },
+      update: {
+        secret: encryptedSecret,
+        enabledAt: null,
+        lastUsedStep: null,
+      },
+    });
+
+    return this.toEntity(saved);
+  }
+
+  async enable(userId: string, step: number): Promise<void> {
+    await prisma.userMfa.update({
+      where: { userId },
+      data: {
+        enabledAt: new Date(),
+        lastUsedStep: step,
+      },
+    });
+  }
+
+  async recordUsedStep(userId: string, step: number): Promise<void> {
+    await prisma.userMfa.update({
+      where: { userId },
+      data: { lastUsedStep: step },
+    });
+  }
+
+  async delete(userId: string): Promise<void> {
+    await prisma.userMfa.deleteMany({
+      where: { userId },
+    });
+  }
+
+  private toEntity(mfa: any): UserMfaEntity {
+    return new UserMfaEntity(
+      mfa.id,
+      mfa.userId,
+      this.cipher.decrypt(mfa.secret),
+      mfa.enabledAt,
+      mfa.lastUsedStep,
+      mfa.createdAt,
+      mfa.updatedAt
+    );
+  }
+}
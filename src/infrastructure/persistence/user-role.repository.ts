@@ -68,7 +68,7 @@ export class UserRoleRepository implements IUserRoleRepository {
     const sortBy = pagination?.sortBy || 'createdAt';
     const sortOrder = pagination?.sortOrder || 'desc';
 
-    const whereClause = tenantId !== null ? { tenantId } : {};
+    const whereClause = tenantId !== null ? { tenantId, deletedAt: null } : { deletedAt: null };
 
     const [users, total] = await Promise.all([
       prisma.user.findMany({
@@ -112,6 +112,7 @@ export class UserRoleRepository implements IUserRoleRepository {
     const users = await prisma.user.findMany({
       where: {
         tenantId,
+        deletedAt: null,
         userRoles: {
           some: {
             roleId,
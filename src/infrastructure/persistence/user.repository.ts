@@ -36,6 +36,7 @@ export class UserRepository implements IUserRepository {
       isSuperAdmin: entity.isSuperAdmin,
       createdAt: entity.createdAt,
       updatedAt: entity.updatedAt,
+      emailVerifiedAt: entity.emailVerifiedAt,
     };
   }
 
@@ -47,7 +48,7 @@ export class UserRepository implements IUserRepository {
     // Fetch password from database (not cache) for security
     const user = await prisma.user.findUnique({
       where: { id: dto.id },
-      select: { password: true },
+      select: { password: true, passwordChangedAt: true },
     });
 
     if (!user) {
@@ -63,7 +64,9 @@ export class UserRepository implements IUserRepository {
       dto.tenantId,
       dto.isSuperAdmin,
       dto.createdAt,
-      dto.updatedAt
+      dto.updatedAt,
+      dto.emailVerifiedAt ? new Date(dto.emailVerifiedAt) : null,
+      user.passwordChangedAt
     );
   }
 
@@ -79,9 +82,10 @@ export class UserRepository implements IUserRepository {
     }
 
     // If tenantId is provided, search with tenantId, otherwise search by id only (for super admin)
+    // Deprovisioned users are treated as gone everywhere except the SCIM endpoints
     const whereClause = tenantId !== undefined && tenantId !== null
-      ? { id, tenantId }
-      : { id };
+      ? { id, tenantId, deletedAt: null }
+      : { id, deletedAt: null };
 
     const user = await prisma.user.findFirst({
       where: whereClause,
@@ -113,8 +117,8 @@ export class UserRepository implements IUserRepository {
 
     // Build where clause - handle null tenantId for super admin
     const whereClause = tenantId !== null && tenantId !== undefined
-      ? { email, tenantId }
-      : { email, tenantId: null };
+      ? { email, tenantId, deletedAt: null }
+      : { email, tenantId: null, deletedAt: null };
 
     const user = await prisma.user.findFirst({
       where: whereClause,
@@ -157,7 +161,7 @@ export class UserRepository implements IUserRepository {
 
     const [users, total] = await Promise.all([
       prisma.user.findMany({
-        where: { tenantId },
+        where: { tenantId, deletedAt: null },
         skip,
         take: limit,
         orderBy: {
@@ -165,7 +169,7 @@ export class UserRepository implements IUserRepository {
         },
       }),
       prisma.user.count({
-        where: { tenantId },
+        where: { tenantId, deletedAt: null },
       }),
     ]);
 
@@ -211,6 +215,7 @@ export class UserRepository implements IUserRepository {
       data: {
         email: user.email.getValue(),
         password: user.getPassword().getValue(),
+        passwordChangedAt: user.passwordChangedAt,
         firstName: user.firstName,
         lastName: user.lastName,
         isSuperAdmin: user.isSuperAdmin,
@@ -231,6 +236,25 @@ export class UserRepository implements IUserRepository {
     return entity;
   }
 
+  async markEmailVerified(id: string, email: string, verifiedAt: Date): Promise<boolean> {
+    // The email condition stops a token for a previous address from verifying the current one
+    const { count } = await prisma.user.updateMany({
+      where: { id, email },
+      data: { emailVerifiedAt: verifiedAt },
+    });
+
+    if (count > 0 && this.cache) {
+      const user = await prisma.user.findUnique({ where: { id } });
+      if (user) {
+        await this.cache.delete(this.getCacheKey(id, user.tenantId));
+        await this.cache.delete(this.getCacheKey(id));
+        await this.cache.delete(this.getEmailCacheKey(user.email, user.tenantId || ''));
+      }
+    }
+
+    return count > 0;
+  }
+
   async delete(id: string, tenantId: string): Promise<void> {
     // Get user first to invalidate cache
     const user = await prisma.user.findFirst({
@@ -250,10 +274,21 @@ export class UserRepository implements IUserRepository {
     }
   }
 
+  async invalidateCache(id: string, tenantId: string | null, emails: string[]): Promise<void> {
+    if (!this.cache) return;
+
+    await this.cache.delete(this.getCacheKey(id, tenantId));
+    await this.cache.delete(this.getCacheKey(id));
+    for (const email of new Set(emails)) {
+      await this.cache.delete(this.getEmailCacheKey(email, tenantId || ''));
+      await this.cache.delete(`user:email:${email}`);
+    }
+  }
+
   async countAdmins(tenantId: string): Promise<number> {
     const adminRole = await prisma.role.findFirst({
       where: { name: ROLE_NAMES.ADMIN, tenantId },
-      include: { userRoles: true },
+      include: { userRoles: { where: { user: { deletedAt: null } } } },
     });
 
     if (!adminRole) return 0;
@@ -265,6 +300,7 @@ export class UserRepository implements IUserRepository {
     const users = await prisma.user.findMany({
       where: {
         tenantId,
+        deletedAt: null,
         userRoles: {
           some: { roleId },
         },
@@ -284,7 +320,9 @@ export class UserRepository implements IUserRepository {
       user.tenantId,
       user.isSuperAdmin || false,
       user.createdAt,
-      user.updatedAt
+      user.updatedAt,
+      user.emailVerifiedAt ?? null,
+      user.passwordChangedAt ?? null
     );
   }
 }
@@ -0,0 +1,32 @@
+import { IWebAuthnChallengeRepository } from '../../domain/repositories/iwebauthn-challenge-repository';
+import { WebAuthnChallengeType } from '../../domain/constants/webauthn';
+import { prisma } from '../config/database';
+
+export class WebAuthnChallengeRepository implements IWebAuthnChallengeRepository {
+  async save(challenge: string, type: WebAuthnChallengeType, userId: string | null, expiresAt: Date): Promise<void> {
+    // Abandoned ceremonies are cleaned up whenever a new one starts
+    await prisma.webAuthnChallenge.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    await prisma.webAuthnChallenge.create({
+      data: { challenge, type, userId, expiresAt },
+    });
+  }
+
+  async consume(challenge: string, type: WebAuthnChallengeType): Promise<{ userId: string | null } | undefined> {
+    const stored = await prisma.webAuthnChallenge.findUnique({
+      where: { challenge },
+    });
+    if (!stored || stored.type !== type) {
+      return undefined;
+    }
+
+    // Conditional delete so two concurrent responses cannot both use the challenge
+    const { count } = await prisma.webAuthnChallenge.deleteMany({
+      where: { id: stored.id, expiresAt: { gt: new Date() } },
+    });
+
+    return count === 1 ? { userId: stored.userId } : undefined;
+  }
+}
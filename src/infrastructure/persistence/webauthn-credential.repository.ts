@@ -0,0 +1,91 @@
+import {
+  IWebAuthnCredentialRepository,
+  NewWebAuthnCredential,
+} from '../../domain/repositories/iwebauthn-credential-repository';
+import { WebAuthnCredentialEntity } from '../../domain/entities/webauthn-credential.entity';
+import { prisma } from '../config/database';
+
+export class WebAuthnCredentialRepository implements IWebAuthnCredentialRepository {
+  async findByCredentialId(credentialId: string): Promise<WebAuthnCredentialEntity | null> {
+    const credential = await prisma.webAuthnCredential.findUnique({
+      where: { credentialId },
+    });
+
+    return credential ? this.toEntity(credential) : null;
+  }
+
+  async findByUserId(userId: string): Promise<WebAuthnCredentialEntity[]> {
+    const credentials = await prisma.webAuthnCredential.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return credentials.map((credential) => this.toEntity(credential));
+  }
+
+  async countByUserId(userId: string): Promise<number> {
+    return prisma.webAuthnCredential.count({ where: { userId } });
+  }
+
+  async create(credential: NewWebAuthnCredential): Promise<WebAuthnCredentialEntity> {
+    const created = await prisma.webAuthnCredential.create({
+      data: {
+        userId: credential.userId,
+        credentialId: credential.credentialId,
+        publicKey: Buffer.from(credential.publicKey),
+        signCount: BigInt(credential.signCount),
+        transports: credential.transports,
+        deviceType: credential.deviceType,
+        backedUp: credential.backedUp,
+        aaguid: credential.aaguid,
+        name: credential.name,
+      },
+    });
+
+    return this.toEntity(created);
+  }
+
+  async rename(id: string, userId: string, name: string): Promise<WebAuthnCredentialEntity | null> {
+    const { count } = await prisma.webAuthnCredential.updateMany({
+      where: { id, userId },
+      data: { name },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const renamed = await prisma.webAuthnCredential.findUnique({ where: { id } });
+    return renamed ? this.toEntity(renamed) : null;
+  }
+
+  async recordUse(id: string, signCount: number, backedUp: boolean): Promise<void> {
+    await prisma.webAuthnCredential.update({
+      where: { id },
+      data: { signCount: BigInt(signCount), backedUp, lastUsedAt: new Date() },
+    });
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    const { count } = await prisma.webAuthnCredential.deleteMany({
+      where: { id, userId },
+    });
+    return count > 0;
+  }
+
+  private toEntity(credential: any): WebAuthnCredentialEntity {
+    return new WebAuthnCredentialEntity(
+      credential.id,
+      credential.userId,
+      credential.credentialId,
+      new Uint8Array(credential.publicKey),
+      Number(credential.signCount),
+      credential.transports ?? [],
+      credential.deviceType,
+      credential.backedUp,
+      credential.aaguid,
+      credential.name,
+      credential.lastUsedAt,
+      credential.createdAt
+    );
+  }
+}
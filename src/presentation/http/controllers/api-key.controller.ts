@@ -0,0 +1,142 @@
+import { Response, NextFunction } from 'express';
+import { RequestWithUser } from '../../../shared/types';
+import { container } from '../../../infrastructure/di/container';
+import { ResponseFormatter } from '../responses/response-formatter';
+import { getAuditActor } from '../../../shared/utils/audit-actor';
+import { CreateApiKeyUseCase } from '../../../application/use-cases/api-key/create-api-key.use-case';
+import { GetApiKeysUseCase } from '../../../application/use-cases/api-key/get-api-keys.use-case';
+import { RevokeApiKeyUseCase } from '../../../application/use-cases/api-key/revoke-api-key.use-case';
+
+export class ApiKeyController {
+  private createApiKeyUseCase: CreateApiKeyUseCase;
+  private getApiKeysUseCase: GetApiKeysUseCase;
+  private revokeApiKeyUseCase: RevokeApiKeyUseCase;
+
+  constructor() {
+    this.createApiKeyUseCase = container.get<CreateApiKeyUseCase>('CreateApiKeyUseCase');
+    this.getApiKeysUseCase = container.get<GetApiKeysUseCase>('GetApiKeysUseCase');
+    this.revokeApiKeyUseCase = container.get<RevokeApiKeyUseCase>('RevokeApiKeyUseCase');
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/api-keys:
+   *   get:
+   *     summary: List the API keys of a tenant (admin)
+   *     tags: [API Keys]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: API keys, including revoked and expired ones (keys themselves are never returned)
+   */
+  async getAll(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      const result = await this.getApiKeysUseCase.execute(req.params.id, requesterTenantId);
+      return ResponseFormatter.success(res, result, 'API keys retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/api-keys:
+   *   post:
+   *     summary: Create an API key for a tenant (admin)
+   *     description: Requests authenticate with the key in the X-API-Key header and get the listed permissions
+   *     tags: [API Keys]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name, scopes]
+   *             properties:
+   *               name:
+   *                 type: string
+   *               scopes:
+   *                 type: array
+   *                 description: Permission names of the tenant
+   *                 items:
+   *                   type: string
+   *               expiresAt:
+   *                 type: string
+   *                 format: date-time
+   *     responses:
+   *       201:
+   *         description: API key created; the key is only returned in this response
+   */
+  async create(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.createApiKeyUseCase.execute(
+        req.params.id,
+        req.body,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'API key created successfully', 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/api-keys/{keyId}:
+   *   delete:
+   *     summary: Revoke an API key (admin)
+   *     tags: [API Keys]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: keyId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: API key revoked
+   *       404:
+   *         description: API key not found
+   */
+  async revoke(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      await this.revokeApiKeyUseCase.execute(
+        req.params.id,
+        req.params.keyId,
+        requesterTenantId,
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, null, 'API key revoked successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { Response, NextFunction } from 'express';
+import { RequestWithUser } from '../../../shared/types';
+import { container } from '../../../infrastructure/di/container';
+import { ResponseFormatter } from '../responses/response-formatter';
+import { GetAuditLogsUseCase } from '../../../application/use-cases/audit-log/get-audit-logs.use-case';
+import { AuditLogQueryDto } from '../../../application/dto/audit-log.dto';
+
+export class AuditLogController {
+  private getAuditLogsUseCase: GetAuditLogsUseCase;
+
+  constructor() {
+    this.getAuditLogsUseCase = container.get<GetAuditLogsUseCase>('GetAuditLogsUseCase');
+  }
+
+  /**
+   * @swagger
+   * /api/v1/audit-logs:
+   *   get:
+   *     summary: Browse the audit log (admin)
+   *     description: Tenant admins see their own tenant's events; super admins see every tenant unless they pass tenantId
+   *     tags: [Audit Logs]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: tenantId
+   *         schema:
+   *           type: string
+   *         description: Super admin only
+   *       - in: query
+   *         name: actorId
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: action
+   *         schema:
+   *           type: string
+   *         description: Exact action (user.updated) or a prefix ending with a dot (user.)
+   *       - in: query
+   *         name: outcome
+   *         schema:
+   *           type: string
+   *           enum: [success, failure, challenged]
+   *       - in: query
+   *         name: from
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: to
+   *         schema:
+   *           type: string
+   *           format: date-time
+   *       - in: query
+   *         name: page
+   *         schema:
+   *           type: integer
+   *       - in: query
+   *         name: limit
+   *         schema:
+   *           type: integer
+   *     responses:
+   *       200:
+   *         description: Audit events, newest first
+   */
+  async getAll(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      const result = await this.getAuditLogsUseCase.execute(req.query as AuditLogQueryDto, requesterTenantId);
+      return ResponseFormatter.success(res, result, 'Audit logs retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
+import { RequestWithUser } from '../../../shared/types';
 import { container } from '../../../infrastructure/di/container';
 import { ResponseFormatter } from '../responses/response-formatter';
+import { getClientContext } from '../../../shared/utils/client-context';
 import { DomainException } from '../../../domain/exceptions/domain-exceptions';
 import { OnboardUseCase } from '../../../application/use-cases/auth/onboard.use-case';
 import { RegisterUseCase } from '../../../application/use-cases/auth/register.use-case';
@@ -10,6 +12,14 @@ import { LogoutUseCase } from '../../../application/use-cases/auth/logout.use-ca
 import { ValidateTokenUseCase } from '../../../application/use-cases/auth/validate-token.use-case';
 import { ForgotPasswordUseCase } from '../../../application/use-cases/auth/forgot-password.use-case';
 import { ResetPasswordUseCase } from '../../../application/use-cases/auth/reset-password.use-case';
+import { ChangeExpiredPasswordUseCase } from '../../../application/use-cases/auth/change-expired-password.use-case';
+import { ChangePasswordUseCase } from '../../../application/use-cases/auth/change-password.use-case';
+import { VerifyEmailUseCase } from '../../../application/use-cases/auth/verify-email.use-case';
+import { ResendVerificationEmailUseCase } from '../../../application/use-cases/auth/resend-verification-email.use-case';
+import { SendVerificationEmailUseCase } from '../../../application/use-cases/auth/send-verification-email.use-case';
+import { RequestMagicLinkUseCase } from '../../../application/use-cases/auth/request-magic-link.use-case';
+import { MagicLinkLoginUseCase } from '../../../application/use-cases/auth/magic-link-login.use-case';
+import { GetPasswordRequirementsUseCase } from '../../../application/use-cases/tenant/get-password-requirements.use-case';
 
 export class AuthController {
   private onboardUseCase: OnboardUseCase;
@@ -20,6 +30,14 @@ export class AuthController {
   private validateTokenUseCase: ValidateTokenUseCase;
   private forgotPasswordUseCase: ForgotPasswordUseCase;
   private resetPasswordUseCase: ResetPasswordUseCase;
+  private changeExpiredPasswordUseCase: ChangeExpiredPasswordUseCase;
+  private changePasswordUseCase: ChangePasswordUseCase;
+  private verifyEmailUseCase: VerifyEmailUseCase;
+  private resendVerificationEmailUseCase: ResendVerificationEmailUseCase;
+  private sendVerificationEmailUseCase: SendVerificationEmailUseCase;
+  private getPasswordRequirementsUseCase: GetPasswordRequirementsUseCase;
+  private requestMagicLinkUseCase: RequestMagicLinkUseCase;
+  private magicLinkLoginUseCase: MagicLinkLoginUseCase;
 
   constructor() {
     this.onboardUseCase = container.get<OnboardUseCase>('OnboardUseCase');
@@ -30,6 +48,14 @@ export class AuthController {
     this.validateTokenUseCase = container.get<ValidateTokenUseCase>('ValidateTokenUseCase');
     this.forgotPasswordUseCase = container.get<ForgotPasswordUseCase>('ForgotPasswordUseCase');
     this.resetPasswordUseCase = container.get<ResetPasswordUseCase>('ResetPasswordUseCase');
+    this.changeExpiredPasswordUseCase = container.get<ChangeExpiredPasswordUseCase>('ChangeExpiredPasswordUseCase');
+    this.changePasswordUseCase = container.get<ChangePasswordUseCase>('ChangePasswordUseCase');
+    this.verifyEmailUseCase = container.get<VerifyEmailUseCase>('VerifyEmailUseCase');
+    this.resendVerificationEmailUseCase = container.get<ResendVerificationEmailUseCase>('ResendVerificationEmailUseCase');
+    this.sendVerificationEmailUseCase = container.get<SendVerificationEmailUseCase>('SendVerificationEmailUseCase');
+    this.getPasswordRequirementsUseCase = container.get<GetPasswordRequirementsUseCase>('GetPasswordRequirementsUseCase');
+    this.requestMagicLinkUseCase = container.get<RequestMagicLinkUseCase>('RequestMagicLinkUseCase');
+    this.magicLinkLoginUseCase = container.get<MagicLinkLoginUseCase>('MagicLinkLoginUseCase');
   }
 
   /**
@@ -149,7 +175,7 @@ export class AuthController {
    *                 type: string
    *     responses:
    *       200:
-   *         description: Login successful
+   *         description: Login successful, an MFA challenge when the user has MFA enabled, an enrollment challenge when the tenant requires MFA and the user has not enrolled, or a password change challenge when the password has expired
    *         content:
    *           application/json:
    *             schema:
@@ -161,12 +187,103 @@ export class AuthController {
    *                   type: string
    *                 user:
    *                   type: object
+   *                 status:
+   *                   type: string
+   *                   enum: [mfa_required, mfa_enrollment_required, password_change_required]
+   *                 challengeToken:
+   *                   type: string
    *       401:
    *         description: Invalid credentials
+   *       423:
+   *         description: Account temporarily locked after too many failed attempts (code ACCOUNT_LOCKED, Retry-After header)
    */
   async login(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
     try {
-      const result = await this.loginUseCase.execute(req.body);
+      const result = await this.loginUseCase.execute(req.body, getClientContext(req));
+      if ('challengeToken' in result) {
+        const message = result.status === 'mfa_enrollment_required'
+          ? 'MFA enrollment required'
+          : 'MFA verification required';
+        return ResponseFormatter.success(res, result, message, 200);
+      }
+      return ResponseFormatter.success(res, result, 'Login successful', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/magic-link:
+   *   post:
+   *     summary: Email a passwordless login link
+   *     description: Only for tenants that enabled magic link login; the link is valid once for MAGIC_LINK_TTL seconds
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - email
+   *               - tenantSlug
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *               tenantSlug:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Login link sent (if email exists)
+   *       403:
+   *         description: Magic link login is not enabled for the tenant
+   */
+  async requestMagicLink(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.requestMagicLinkUseCase.execute(req.body);
+      return ResponseFormatter.success(res, null, result.message, 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/magic-link/verify:
+   *   post:
+   *     summary: Sign in with a login link token
+   *     description: Responds like the password login, including MFA challenges
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - token
+   *             properties:
+   *               token:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Login successful, or an MFA challenge
+   *       401:
+   *         description: Invalid, expired or already used link
+   *       423:
+   *         description: Account temporarily locked (code ACCOUNT_LOCKED, Retry-After header)
+   */
+  async magicLinkLogin(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.magicLinkLoginUseCase.execute(req.body, getClientContext(req));
+      if ('challengeToken' in result) {
+        const message = result.status === 'mfa_enrollment_required'
+          ? 'MFA enrollment required'
+          : 'MFA verification required';
+        return ResponseFormatter.success(res, result, message, 200);
+      }
       return ResponseFormatter.success(res, result, 'Login successful', 200);
     } catch (error) {
       next(error);
@@ -194,11 +311,11 @@ export class AuthController {
    *       200:
    *         description: Token refreshed successfully
    *       401:
-   *         description: Invalid refresh token
+   *         description: Invalid refresh token, or a reused (already rotated) token, which revokes the whole session
    */
   async refreshToken(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
     try {
-      const result = await this.refreshTokenUseCase.execute(req.body);
+      const result = await this.refreshTokenUseCase.execute(req.body, getClientContext(req));
       return ResponseFormatter.success(res, result, 'Token refreshed successfully', 200);
     } catch (error) {
       next(error);
@@ -360,5 +477,205 @@ export class AuthController {
       next(error);
     }
   }
-}
 
+  /**
+   * @swagger
+   * /api/v1/auth/password-policy:
+   *   get:
+   *     summary: Get the password requirements in effect
+   *     description: Returns the tenant's policy when tenantSlug is given, the global policy otherwise
+   *     tags: [Authentication]
+   *     parameters:
+   *       - in: query
+   *         name: tenantSlug
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Password requirements
+   *       404:
+   *         description: Tenant not found
+   */
+  async getPasswordPolicy(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const tenantSlug = typeof req.query.tenantSlug === 'string' ? req.query.tenantSlug : undefined;
+      const result = await this.getPasswordRequirementsUseCase.execute(tenantSlug);
+      return ResponseFormatter.success(res, result, 'Password requirements retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/change-password:
+   *   post:
+   *     summary: Change the current user's password
+   *     description: Revokes all other sessions of the user; the current session stays signed in
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - currentPassword
+   *               - newPassword
+   *             properties:
+   *               currentPassword:
+   *                 type: string
+   *               newPassword:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Password changed, returns a new token pair and the number of revoked sessions
+   *       400:
+   *         description: Current password is incorrect, or the new password does not meet the policy or was used recently
+   */
+  async changePassword(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.changePasswordUseCase.execute(
+        req.user!.userId,
+        req.user!.tenantId,
+        req.body,
+        req.user!.sessionId,
+        getClientContext(req)
+      );
+      return ResponseFormatter.success(res, result, 'Password changed successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/expired-password:
+   *   post:
+   *     summary: Replace an expired password and continue the login
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - challengeToken
+   *               - newPassword
+   *             properties:
+   *               challengeToken:
+   *                 type: string
+   *                 description: Challenge returned by login with status password_change_required
+   *               newPassword:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Password changed; tokens, or an MFA challenge when the user has to complete a second factor
+   *       400:
+   *         description: Password does not meet the policy or was used recently
+   *       401:
+   *         description: Invalid or expired challenge
+   */
+  async changeExpiredPassword(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.changeExpiredPasswordUseCase.execute(req.body, getClientContext(req));
+      return ResponseFormatter.success(res, result, 'Password changed successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/verify-email:
+   *   post:
+   *     summary: Verify an email address with the token from the verification link
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - token
+   *             properties:
+   *               token:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Email address verified
+   *       400:
+   *         description: Invalid or expired token
+   */
+  async verifyEmail(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.verifyEmailUseCase.execute(req.body);
+      return ResponseFormatter.success(res, null, result.message, 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/verify-email/resend:
+   *   post:
+   *     summary: Request a new verification link by email address
+   *     description: For users who cannot sign in until their address is verified. Throttled per user.
+   *     tags: [Authentication]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - email
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *               tenantSlug:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Verification email sent (if the email exists and is not verified)
+   */
+  async resendVerificationEmail(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.resendVerificationEmailUseCase.execute(req.body);
+      return ResponseFormatter.success(res, null, result.message, 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/verify-email/send:
+   *   post:
+   *     summary: Send a new verification link to the current user
+   *     tags: [Authentication]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Verification email sent
+   *       409:
+   *         description: Email address already verified
+   *       429:
+   *         description: A verification email was sent recently
+   */
+  async sendVerificationEmail(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.sendVerificationEmailUseCase.execute(req.user!.userId, req.user!.tenantId);
+      return ResponseFormatter.success(res, null, result.message, 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { Response, NextFunction } from 'express';
+import { RequestWithUser } from '../../../shared/types';
+import { container } from '../../../infrastructure/di/container';
+import { ResponseFormatter } from '../responses/response-formatter';
+import { getAuditActor } from '../../../shared/utils/audit-actor';
+import { EmailTemplateType } from '../../../domain/constants/email-templates';
+import { GetEmailTemplatesUseCase } from '../../../application/use-cases/email-template/get-email-templates.use-case';
+import { UpdateEmailTemplateUseCase } from '../../../application/use-cases/email-template/update-email-template.use-case';
+import { ResetEmailTemplateUseCase } from '../../../application/use-cases/email-template/reset-email-template.use-case';
+
+export class EmailTemplateController {
+  private getEmailTemplatesUseCase: GetEmailTemplatesUseCase;
+  private updateEmailTemplateUseCase: UpdateEmailTemplateUseCase;
+  private resetEmailTemplateUseCase: ResetEmailTemplateUseCase;
+
+  constructor() {
+    this.getEmailTemplatesUseCase = container.get<GetEmailTemplatesUseCase>('GetEmailTemplatesUseCase');
+    this.updateEmailTemplateUseCase = container.get<UpdateEmailTemplateUseCase>('UpdateEmailTemplateUseCase');
+    this.resetEmailTemplateUseCase = container.get<ResetEmailTemplateUseCase>('ResetEmailTemplateUseCase');
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/email-templates:
+   *   get:
+   *     summary: List the email templates of a tenant (admin)
+   *     description: One entry per email type; types the tenant has not customized show the built-in template
+   *     tags: [Email Templates]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Email templates
+   */
+  async getAll(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      const result = await this.getEmailTemplatesUseCase.execute(req.params.id, requesterTenantId);
+      return ResponseFormatter.success(res, result, 'Email templates retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/email-templates/{type}:
+   *   put:
+   *     summary: Customize an email template of a tenant (admin)
+   *     description: Subject and bodies may use {{variable}} placeholders, e.g. {{firstName}}, {{tenantName}}, {{resetUrl}}
+   *     tags: [Email Templates]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: type
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [password_reset, welcome, invitation, email_change, email_verification, magic_link]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [subject, textBody]
+   *             properties:
+   *               subject:
+   *                 type: string
+   *               textBody:
+   *                 type: string
+   *               htmlBody:
+   *                 type: string
+   *                 nullable: true
+   *     responses:
+   *       200:
+   *         description: Email template updated
+   */
+  async update(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.updateEmailTemplateUseCase.execute(
+        req.params.id,
+        req.params.type as EmailTemplateType,
+        req.body,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'Email template updated successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/email-templates/{type}:
+   *   delete:
+   *     summary: Reset an email template of a tenant to the built-in template (admin)
+   *     tags: [Email Templates]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: type
+   *         required: true
+   *         schema:
+   *           type: string
+   *           enum: [password_reset, welcome, invitation, email_change, email_verification, magic_link]
+   *     responses:
+   *       200:
+   *         description: Email template reset; returns the built-in template
+   */
+  async reset(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.resetEmailTemplateUseCase.execute(
+        req.params.id,
+        req.params.type as EmailTemplateType,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'Email template reset successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,274 @@
+import { Request, Response, NextFunction } from 'express';
+import { RequestWithUser } from '../../../shared/types';
+import { container } from '../../../infrastructure/di/container';
+import { ResponseFormatter } from '../responses/response-formatter';
+import { getAuditActor } from '../../../shared/utils/audit-actor';
+import { getClientContext } from '../../../shared/utils/client-context';
+import { InvitationStatus } from '../../../domain/constants/invitations';
+import { CreateInvitationUseCase } from '../../../application/use-cases/invitation/create-invitation.use-case';
+import { GetInvitationsUseCase } from '../../../application/use-cases/invitation/get-invitations.use-case';
+import { ResendInvitationUseCase } from '../../../application/use-cases/invitation/resend-invitation.use-case';
+import { RevokeInvitationUseCase } from '../../../application/use-cases/invitation/revoke-invitation.use-case';
+import { GetInvitationPreviewUseCase } from '../../../application/use-cases/invitation/get-invitation-preview.use-case';
+import { AcceptInvitationUseCase } from '../../../application/use-cases/invitation/accept-invitation.use-case';
+
+export class InvitationController {
+  private createInvitationUseCase: CreateInvitationUseCase;
+  private getInvitationsUseCase: GetInvitationsUseCase;
+  private resendInvitationUseCase: ResendInvitationUseCase;
+  private revokeInvitationUseCase: RevokeInvitationUseCase;
+  private getInvitationPreviewUseCase: GetInvitationPreviewUseCase;
+  private acceptInvitationUseCase: AcceptInvitationUseCase;
+
+  constructor() {
+    this.createInvitationUseCase = container.get<CreateInvitationUseCase>('CreateInvitationUseCase');
+    this.getInvitationsUseCase = container.get<GetInvitationsUseCase>('GetInvitationsUseCase');
+    this.resendInvitationUseCase = container.get<ResendInvitationUseCase>('ResendInvitationUseCase');
+    this.revokeInvitationUseCase = container.get<RevokeInvitationUseCase>('RevokeInvitationUseCase');
+    this.getInvitationPreviewUseCase = container.get<GetInvitationPreviewUseCase>('GetInvitationPreviewUseCase');
+    this.acceptInvitationUseCase = container.get<AcceptInvitationUseCase>('AcceptInvitationUseCase');
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/invitations:
+   *   get:
+   *     summary: List the invitations of a tenant (admin)
+   *     tags: [Invitations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: status
+   *         schema:
+   *           type: string
+   *           enum: [pending, accepted, expired, revoked]
+   *     responses:
+   *       200:
+   *         description: Invitations, newest first
+   */
+  async getAll(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      const result = await this.getInvitationsUseCase.execute(
+        req.params.id,
+        requesterTenantId,
+        req.query.status as InvitationStatus | undefined
+      );
+      return ResponseFormatter.success(res, result, 'Invitations retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/invitations:
+   *   post:
+   *     summary: Invite a user to a tenant (admin)
+   *     description: Emails an accept link; the invitee sets their own password and name
+   *     tags: [Invitations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [email, roleIds]
+   *             properties:
+   *               email:
+   *                 type: string
+   *                 format: email
+   *               roleIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                   format: uuid
+   *     responses:
+   *       201:
+   *         description: Invitation created and sent
+   *       409:
+   *         description: The email already belongs to a user or has a pending invitation
+   */
+  async create(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.createInvitationUseCase.execute(
+        req.params.id,
+        req.body,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'Invitation sent successfully', 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/invitations/{invitationId}/resend:
+   *   post:
+   *     summary: Resend an invitation with a new link and expiry (admin)
+   *     tags: [Invitations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: invitationId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Invitation resent; the previous link no longer works
+   *       422:
+   *         description: The invitation was accepted or revoked
+   *       429:
+   *         description: The invitation was sent recently
+   */
+  async resend(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.resendInvitationUseCase.execute(
+        req.params.id,
+        req.params.invitationId,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'Invitation resent successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/invitations/{invitationId}:
+   *   delete:
+   *     summary: Revoke an invitation (admin)
+   *     tags: [Invitations]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: invitationId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Invitation revoked
+   *       404:
+   *         description: Invitation not found
+   */
+  async revoke(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      await this.revokeInvitationUseCase.execute(
+        req.params.id,
+        req.params.invitationId,
+        requesterTenantId,
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, null, 'Invitation revoked successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/invitations/preview:
+   *   post:
+   *     summary: Show the invited email and tenant of an accept link
+   *     tags: [Invitations]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [token]
+   *             properties:
+   *               token:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Invitation details
+   *       400:
+   *         description: Invalid or expired invitation
+   */
+  async preview(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.getInvitationPreviewUseCase.execute(req.body.token);
+      return ResponseFormatter.success(res, result, 'Invitation retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/invitations/accept:
+   *   post:
+   *     summary: Accept an invitation and create the account
+   *     tags: [Invitations]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [token, password, firstName, lastName]
+   *             properties:
+   *               token:
+   *                 type: string
+   *               password:
+   *                 type: string
+   *               firstName:
+   *                 type: string
+   *               lastName:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Account created; sign in with the invited email and the chosen password
+   *       400:
+   *         description: Invalid or expired invitation
+   */
+  async accept(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.acceptInvitationUseCase.execute(req.body, getClientContext(req));
+      return ResponseFormatter.success(res, result, 'Invitation accepted successfully', 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
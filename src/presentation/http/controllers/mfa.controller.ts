@@ -0,0 +1,301 @@
+import { Request, Response, NextFunction } from 'express';
+import { RequestWithUser } from '../../../shared/types';
+import { container } from '../../../infrastructure/di/container';
+import { ResponseFormatter } from '../responses/response-formatter';
+import { getClientContext } from '../../../shared/utils/client-context';
+import { getAuditActor } from '../../../shared/utils/audit-actor';
+import { EnrollMfaUseCase } from '../../../application/use-cases/mfa/enroll-mfa.use-case';
+import { ActivateMfaUseCase } from '../../../application/use-cases/mfa/activate-mfa.use-case';
+import { DisableMfaUseCase } from '../../../application/use-cases/mfa/disable-mfa.use-case';
+import { VerifyMfaLoginUseCase } from '../../../application/use-cases/mfa/verify-mfa-login.use-case';
+import { RegenerateRecoveryCodesUseCase } from '../../../application/use-cases/mfa/regenerate-recovery-codes.use-case';
+import { GetRecoveryCodeStatusUseCase } from '../../../application/use-cases/mfa/get-recovery-code-status.use-case';
+import { StartRequiredMfaEnrollmentUseCase } from '../../../application/use-cases/mfa/start-required-mfa-enrollment.use-case';
+import { CompleteRequiredMfaEnrollmentUseCase } from '../../../application/use-cases/mfa/complete-required-mfa-enrollment.use-case';
+
+export class MfaController {
+  private enrollMfaUseCase: EnrollMfaUseCase;
+  private activateMfaUseCase: ActivateMfaUseCase;
+  private disableMfaUseCase: DisableMfaUseCase;
+  private verifyMfaLoginUseCase: VerifyMfaLoginUseCase;
+  private regenerateRecoveryCodesUseCase: RegenerateRecoveryCodesUseCase;
+  private getRecoveryCodeStatusUseCase: GetRecoveryCodeStatusUseCase;
+  private startRequiredMfaEnrollmentUseCase: StartRequiredMfaEnrollmentUseCase;
+  private completeRequiredMfaEnrollmentUseCase: CompleteRequiredMfaEnrollmentUseCase;
+
+  constructor() {
+    this.enrollMfaUseCase = container.get<EnrollMfaUseCase>('EnrollMfaUseCase');
+    this.activateMfaUseCase = container.get<ActivateMfaUseCase>('ActivateMfaUseCase');
+    this.disableMfaUseCase = container.get<DisableMfaUseCase>('DisableMfaUseCase');
+    this.verifyMfaLoginUseCase = container.get<VerifyMfaLoginUseCase>('VerifyMfaLoginUseCase');
+    this.regenerateRecoveryCodesUseCase = container.get<RegenerateRecoveryCodesUseCase>('RegenerateRecoveryCodesUseCase');
+    this.getRecoveryCodeStatusUseCase = container.get<GetRecoveryCodeStatusUseCase>('GetRecoveryCodeStatusUseCase');
+    this.startRequiredMfaEnrollmentUseCase = container.get<StartRequiredMfaEnrollmentUseCase>('StartRequiredMfaEnrollmentUseCase');
+    this.completeRequiredMfaEnrollmentUseCase = container.get<CompleteRequiredMfaEnrollmentUseCase>('CompleteRequiredMfaEnrollmentUseCase');
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/mfa/enroll:
+   *   post:
+   *     summary: Start TOTP enrollment
+   *     tags: [MFA]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Enrollment started, returns secret and otpauth provisioning URI
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 secret:
+   *                   type: string
+   *                 provisioningUri:
+   *                   type: string
+   *       409:
+   *         description: MFA already enabled
+   */
+  async enroll(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.enrollMfaUseCase.execute(req.user!.userId, req.user!.tenantId);
+      return ResponseFormatter.success(res, result, 'MFA enrollment started', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/mfa/verify:
+   *   post:
+   *     summary: Confirm TOTP enrollment and enable MFA
+   *     tags: [MFA]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - code
+   *             properties:
+   *               code:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: MFA enabled, returns the initial recovery codes (shown only once)
+   *       400:
+   *         description: Invalid code or no pending enrollment
+   */
+  async activate(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.activateMfaUseCase.execute(req.user!.userId, req.body);
+      return ResponseFormatter.success(res, result, 'MFA enabled successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/mfa/disable:
+   *   post:
+   *     summary: Disable MFA
+   *     tags: [MFA]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - code
+   *             properties:
+   *               code:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: MFA disabled
+   *       401:
+   *         description: Invalid code
+   *       422:
+   *         description: MFA is required by the tenant policy
+   */
+  async disable(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      await this.disableMfaUseCase.execute(req.user!.userId, req.user!.tenantId, req.body, getAuditActor(req));
+      return ResponseFormatter.success(res, null, 'MFA disabled successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/mfa/login:
+   *   post:
+   *     summary: Complete login with a TOTP code or a recovery code
+   *     tags: [MFA]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - challengeToken
+   *             properties:
+   *               challengeToken:
+   *                 type: string
+   *               code:
+   *                 type: string
+   *               recoveryCode:
+   *                 type: string
+   *                 description: Single-use recovery code, accepted in place of code
+   *     responses:
+   *       200:
+   *         description: Login successful
+   *       401:
+   *         description: Invalid code or expired challenge
+   */
+  async login(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.verifyMfaLoginUseCase.execute(req.body, getClientContext(req));
+      return ResponseFormatter.success(res, result, 'Login successful', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/mfa/recovery-codes:
+   *   get:
+   *     summary: Get the number of unused recovery codes
+   *     tags: [MFA]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Recovery code status
+   */
+  async getRecoveryCodeStatus(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.getRecoveryCodeStatusUseCase.execute(req.user!.userId);
+      return ResponseFormatter.success(res, result, 'Recovery code status retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/mfa/recovery-codes:
+   *   post:
+   *     summary: Regenerate recovery codes
+   *     description: Invalidates all previous recovery codes. Requires a current TOTP code.
+   *     tags: [MFA]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - code
+   *             properties:
+   *               code:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: New recovery codes (shown only once)
+   *       401:
+   *         description: Invalid code
+   */
+  async regenerateRecoveryCodes(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.regenerateRecoveryCodesUseCase.execute(req.user!.userId, req.body);
+      return ResponseFormatter.success(res, result, 'Recovery codes regenerated successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/mfa/enrollment/start:
+   *   post:
+   *     summary: Start the enrollment required by the tenant MFA policy
+   *     description: Uses the challenge token returned by login with status mfa_enrollment_required
+   *     tags: [MFA]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - challengeToken
+   *             properties:
+   *               challengeToken:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Enrollment started, returns secret and otpauth provisioning URI
+   *       401:
+   *         description: Invalid or expired challenge
+   */
+  async startRequiredEnrollment(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.startRequiredMfaEnrollmentUseCase.execute(req.body.challengeToken);
+      return ResponseFormatter.success(res, result, 'MFA enrollment started', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/mfa/enrollment/complete:
+   *   post:
+   *     summary: Complete the required enrollment and log in
+   *     tags: [MFA]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - challengeToken
+   *               - code
+   *             properties:
+   *               challengeToken:
+   *                 type: string
+   *               code:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: MFA enabled and login successful, returns tokens and the initial recovery codes
+   *       400:
+   *         description: Invalid code or no pending enrollment
+   *       401:
+   *         description: Invalid or expired challenge
+   */
+  async completeRequiredEnrollment(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.completeRequiredMfaEnrollmentUseCase.execute(req.body, getClientContext(req));
+      return ResponseFormatter.success(res, result, 'MFA enabled and login successful', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,291 @@
+import { Response, NextFunction } from 'express';
+import { RequestWithUser } from '../../../shared/types';
+import { container } from '../../../infrastructure/di/container';
+import { ResponseFormatter } from '../responses/response-formatter';
+import { getAuditActor } from '../../../shared/utils/audit-actor';
+import { CreateOAuthClientUseCase } from '../../../application/use-cases/oauth/create-oauth-client.use-case';
+import { GetOAuthClientsUseCase } from '../../../application/use-cases/oauth/get-oauth-clients.use-case';
+import { DeleteOAuthClientUseCase } from '../../../application/use-cases/oauth/delete-oauth-client.use-case';
+import { CreateServiceClientUseCase } from '../../../application/use-cases/oauth/create-service-client.use-case';
+import { GetServiceClientsUseCase } from '../../../application/use-cases/oauth/get-service-clients.use-case';
+import { UpdateServiceClientRolesUseCase } from '../../../application/use-cases/oauth/update-service-client-roles.use-case';
+
+export class OAuthClientController {
+  private createOAuthClientUseCase: CreateOAuthClientUseCase;
+  private getOAuthClientsUseCase: GetOAuthClientsUseCase;
+  private deleteOAuthClientUseCase: DeleteOAuthClientUseCase;
+  private createServiceClientUseCase: CreateServiceClientUseCase;
+  private getServiceClientsUseCase: GetServiceClientsUseCase;
+  private updateServiceClientRolesUseCase: UpdateServiceClientRolesUseCase;
+
+  constructor() {
+    this.createOAuthClientUseCase = container.get<CreateOAuthClientUseCase>('CreateOAuthClientUseCase');
+    this.getOAuthClientsUseCase = container.get<GetOAuthClientsUseCase>('GetOAuthClientsUseCase');
+    this.deleteOAuthClientUseCase = container.get<DeleteOAuthClientUseCase>('DeleteOAuthClientUseCase');
+    this.createServiceClientUseCase = container.get<CreateServiceClientUseCase>('CreateServiceClientUseCase');
+    this.getServiceClientsUseCase = container.get<GetServiceClientsUseCase>('GetServiceClientsUseCase');
+    this.updateServiceClientRolesUseCase = container.get<UpdateServiceClientRolesUseCase>(
+      'UpdateServiceClientRolesUseCase'
+    );
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/oauth-clients:
+   *   get:
+   *     summary: List the OAuth/OIDC clients of a tenant (admin)
+   *     tags: [OpenID Connect]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Registered clients (secrets are never returned)
+   */
+  async getAll(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      const result = await this.getOAuthClientsUseCase.execute(req.params.id, requesterTenantId);
+      return ResponseFormatter.success(res, result, 'OAuth clients retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/oauth-clients:
+   *   post:
+   *     summary: Register an OAuth/OIDC client for a tenant (admin)
+   *     tags: [OpenID Connect]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name, redirectUris]
+   *             properties:
+   *               name:
+   *                 type: string
+   *               redirectUris:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *               allowedScopes:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *               confidential:
+   *                 type: boolean
+   *                 description: Public clients (false) have no secret and rely on PKCE
+   *     responses:
+   *       201:
+   *         description: Client created; clientSecret is only returned in this response
+   */
+  async create(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.createOAuthClientUseCase.execute(
+        req.params.id,
+        req.body,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'OAuth client created successfully', 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/oauth-clients/{clientId}:
+   *   delete:
+   *     summary: Delete an OAuth/OIDC client (admin)
+   *     tags: [OpenID Connect]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: clientId
+   *         required: true
+   *         description: Client record ID
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Client deleted
+   *       404:
+   *         description: Client not found
+   */
+  async delete(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      await this.deleteOAuthClientUseCase.execute(
+        req.params.id,
+        req.params.clientId,
+        requesterTenantId,
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, null, 'OAuth client deleted successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/service-clients:
+   *   get:
+   *     summary: List the service clients (client_credentials) of a tenant (admin)
+   *     tags: [OpenID Connect]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Service clients with their roles
+   */
+  async getServiceClients(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      const result = await this.getServiceClientsUseCase.execute(req.params.id, requesterTenantId);
+      return ResponseFormatter.success(res, result, 'Service clients retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/service-clients:
+   *   post:
+   *     summary: Create a service client for machine-to-machine access (admin)
+   *     description: The client exchanges its credentials for an access token with grant_type=client_credentials at POST /auth/token
+   *     tags: [OpenID Connect]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name, roleIds]
+   *             properties:
+   *               name:
+   *                 type: string
+   *               roleIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                   format: uuid
+   *     responses:
+   *       201:
+   *         description: Client created; clientSecret is only returned in this response
+   */
+  async createServiceClient(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.createServiceClientUseCase.execute(
+        req.params.id,
+        req.body,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'Service client created successfully', 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/service-clients/{clientId}/roles:
+   *   put:
+   *     summary: Replace the roles of a service client (admin)
+   *     description: Tokens issued with the previous roles are revoked
+   *     tags: [OpenID Connect]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: clientId
+   *         required: true
+   *         description: Client record ID
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [roleIds]
+   *             properties:
+   *               roleIds:
+   *                 type: array
+   *                 items:
+   *                   type: string
+   *                   format: uuid
+   *     responses:
+   *       200:
+   *         description: Roles updated
+   *       404:
+   *         description: Service client not found
+   */
+  async updateServiceClientRoles(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      const result = await this.updateServiceClientRolesUseCase.execute(
+        req.params.id,
+        req.params.clientId,
+        req.body.roleIds,
+        requesterTenantId,
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'Service client roles updated successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,241 @@
+import { Request, Response, NextFunction } from 'express';
+import { RequestWithUser } from '../../../shared/types';
+import { container } from '../../../infrastructure/di/container';
+import { oidcConfig } from '../../../infrastructure/config/oidc.config';
+import { ResponseFormatter } from '../responses/response-formatter';
+import { getClientContext } from '../../../shared/utils/client-context';
+import { AuthorizationRequestDto, OAuthTokenRequestDto } from '../../../application/dto/oauth.dto';
+import { ValidateAuthorizationRequestUseCase } from '../../../application/use-cases/oauth/validate-authorization-request.use-case';
+import { AuthorizeUseCase } from '../../../application/use-cases/oauth/authorize.use-case';
+import { IssueOAuthTokenUseCase } from '../../../application/use-cases/oauth/issue-oauth-token.use-case';
+import { GetUserInfoUseCase } from '../../../application/use-cases/oauth/get-user-info.use-case';
+
+export class OAuthController {
+  private validateAuthorizationRequestUseCase: ValidateAuthorizationRequestUseCase;
+  private authorizeUseCase: AuthorizeUseCase;
+  private issueOAuthTokenUseCase: IssueOAuthTokenUseCase;
+  private getUserInfoUseCase: GetUserInfoUseCase;
+
+  constructor() {
+    this.validateAuthorizationRequestUseCase = container.get<ValidateAuthorizationRequestUseCase>(
+      'ValidateAuthorizationRequestUseCase'
+    );
+    this.authorizeUseCase = container.get<AuthorizeUseCase>('AuthorizeUseCase');
+    this.issueOAuthTokenUseCase = container.get<IssueOAuthTokenUseCase>('IssueOAuthTokenUseCase');
+    this.getUserInfoUseCase = container.get<GetUserInfoUseCase>('GetUserInfoUseCase');
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/authorize:
+   *   get:
+   *     summary: OpenID Connect authorization endpoint
+   *     description: Validates the request and redirects to the login page, which completes it with POST /auth/authorize
+   *     tags: [OpenID Connect]
+   *     parameters:
+   *       - { in: query, name: response_type, required: true, schema: { type: string, enum: [code] } }
+   *       - { in: query, name: client_id, required: true, schema: { type: string } }
+   *       - { in: query, name: redirect_uri, required: true, schema: { type: string } }
+   *       - { in: query, name: scope, required: true, schema: { type: string, example: openid profile email } }
+   *       - { in: query, name: state, schema: { type: string } }
+   *       - { in: query, name: nonce, schema: { type: string } }
+   *       - { in: query, name: code_challenge, required: true, schema: { type: string } }
+   *       - { in: query, name: code_challenge_method, required: true, schema: { type: string, enum: [S256] } }
+   *     responses:
+   *       302:
+   *         description: Redirect to the login page with the original parameters
+   *       400:
+   *         description: Invalid authorization request
+   */
+  async startAuthorization(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      await this.validateAuthorizationRequestUseCase.execute(this.toAuthorizationRequest(req.query));
+
+      const loginUrl = new URL(oidcConfig.loginUrl);
+      for (const [key, value] of Object.entries(req.query)) {
+        if (typeof value === 'string') {
+          loginUrl.searchParams.set(key, value);
+        }
+      }
+      return res.redirect(302, loginUrl.toString());
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/authorize:
+   *   post:
+   *     summary: Complete an authorization request for the signed-in user
+   *     description: Called by the login page with the parameters of the original request. Returns the client redirect carrying the authorization code.
+   *     tags: [OpenID Connect]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [response_type, client_id, redirect_uri, scope, code_challenge, code_challenge_method]
+   *             properties:
+   *               response_type: { type: string }
+   *               client_id: { type: string }
+   *               redirect_uri: { type: string }
+   *               scope: { type: string }
+   *               state: { type: string }
+   *               nonce: { type: string }
+   *               code_challenge: { type: string }
+   *               code_challenge_method: { type: string }
+   *     responses:
+   *       200:
+   *         description: Redirect URI for the client
+   *       403:
+   *         description: User is not a member of the client tenant
+   */
+  async authorize(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.authorizeUseCase.execute(
+        req.user!.userId,
+        req.user!.tenantId,
+        this.toAuthorizationRequest(req.body)
+      );
+      return ResponseFormatter.success(res, result, 'Authorization granted', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/token:
+   *   post:
+   *     summary: OAuth 2.0 token endpoint
+   *     description: Supports the authorization_code (with PKCE), refresh_token and client_credentials grants. Clients authenticate with HTTP Basic or client_secret in the body. client_credentials tokens identify the service client itself (principalType "service") and carry no refresh token.
+   *     tags: [OpenID Connect]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/x-www-form-urlencoded:
+   *           schema:
+   *             type: object
+   *             required: [grant_type]
+   *             properties:
+   *               grant_type: { type: string, enum: [authorization_code, refresh_token, client_credentials] }
+   *               code: { type: string }
+   *               redirect_uri: { type: string }
+   *               code_verifier: { type: string }
+   *               refresh_token: { type: string }
+   *               client_id: { type: string }
+   *               client_secret: { type: string }
+   *     responses:
+   *       200:
+   *         description: Token response (RFC 6749 section 5.1)
+   *       400:
+   *         description: OAuth error (invalid_request, invalid_grant, unsupported_grant_type, ...)
+   *       401:
+   *         description: Client authentication failed
+   */
+  async token(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const dto: OAuthTokenRequestDto = {
+        grantType: req.body.grant_type,
+        clientId: req.body.client_id,
+        clientSecret: req.body.client_secret,
+        code: req.body.code,
+        redirectUri: req.body.redirect_uri,
+        codeVerifier: req.body.code_verifier,
+        refreshToken: req.body.refresh_token,
+        scope: req.body.scope,
+      };
+
+      const basic = this.parseBasicCredentials(req.headers.authorization);
+      if (basic) {
+        dto.clientId = basic.clientId;
+        dto.clientSecret = basic.clientSecret;
+      }
+
+      const result = await this.issueOAuthTokenUseCase.execute(dto, getClientContext(req));
+
+      // Token responses are not wrapped in the API envelope and must not be cached
+      res.setHeader('Cache-Control', 'no-store');
+      res.setHeader('Pragma', 'no-cache');
+      return res.status(200).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/userinfo:
+   *   get:
+   *     summary: OpenID Connect userinfo endpoint
+   *     tags: [OpenID Connect]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Claims about the authenticated user
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 sub: { type: string }
+   *                 email: { type: string }
+   *                 name: { type: string }
+   *                 given_name: { type: string }
+   *                 family_name: { type: string }
+   *                 tenant_id: { type: string }
+   *                 roles: { type: array, items: { type: string } }
+   */
+  async userInfo(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const claims = await this.getUserInfoUseCase.execute(req.user!.userId);
+      return res.status(200).json(claims);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private toAuthorizationRequest(params: Record<string, any>): AuthorizationRequestDto {
+    const value = (key: string): string => (typeof params[key] === 'string' ? params[key] : '');
+
+    return {
+      responseType: value('response_type'),
+      clientId: value('client_id'),
+      redirectUri: value('redirect_uri'),
+      scope: value('scope'),
+      state: value('state') || undefined,
+      nonce: value('nonce') || undefined,
+      codeChallenge: value('code_challenge'),
+      codeChallengeMethod: value('code_challenge_method'),
+    };
+  }
+
+  /**
+   * client_secret_basic: both parts are form-encoded before base64 (RFC 6749 section 2.3.1)
+   */
+  private parseBasicCredentials(header?: string): { clientId: string; clientSecret: string } | null {
+    if (!header || !header.startsWith('Basic ')) {
+      return null;
+    }
+
+    const decoded = Buffer.from(header.slice(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator === -1) {
+      return null;
+    }
+
+    try {
+      return {
+        clientId: decodeURIComponent(decoded.slice(0, separator)),
+        clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+      };
+    } catch {
+      return null;
+    }
+  }
+}
@@ -3,6 +3,7 @@ import { RequestWithUser } from '../../../shared/types';
 import { container } from '../../../infrastructure/di/container';
 import { ResponseFormatter } from '../responses/response-formatter';
 import { parsePaginationParams } from '../../../shared/utils/pagination';
+import { getAuditActor } from '../../../shared/utils/audit-actor';
 import { CreateRoleUseCase } from '../../../application/use-cases/role/create-role.use-case';
 import { GetRolesUseCase } from '../../../application/use-cases/role/get-roles.use-case';
 import { GetRoleUseCase } from '../../../application/use-cases/role/get-role.use-case';
@@ -66,7 +67,7 @@ export class RoleController {
         return ResponseFormatter.error(res, 'Tenant ID is required', 400);
       }
       
-      const result = await this.createRoleUseCase.execute(req.body, tenantId);
+      const result = await this.createRoleUseCase.execute(req.body, tenantId, getAuditActor(req));
       return ResponseFormatter.success(res, result, 'Role created successfully', 201);
     } catch (error) {
       next(error);
@@ -152,7 +153,8 @@ export class RoleController {
       const result = await this.updateRoleUseCase.execute(
         req.params.id,
         req.body,
-        tenantId
+        tenantId,
+        getAuditActor(req)
       );
       return ResponseFormatter.success(res, result, 'Role updated successfully', 200);
     } catch (error) {
@@ -171,7 +173,7 @@ export class RoleController {
         return ResponseFormatter.error(res, 'Tenant ID is required', 400);
       }
       
-      await this.deleteRoleUseCase.execute(req.params.id, tenantId);
+      await this.deleteRoleUseCase.execute(req.params.id, tenantId, getAuditActor(req));
       return ResponseFormatter.success(res, null, 'Role deleted successfully', 200);
     } catch (error) {
       next(error);
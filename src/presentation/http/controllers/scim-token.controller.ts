@@ -0,0 +1,137 @@
+import { Response, NextFunction } from 'express';
+import { RequestWithUser } from '../../../shared/types';
+import { container } from '../../../infrastructure/di/container';
+import { ResponseFormatter } from '../responses/response-formatter';
+import { getAuditActor } from '../../../shared/utils/audit-actor';
+import { CreateScimTokenUseCase } from '../../../application/use-cases/scim/create-scim-token.use-case';
+import { GetScimTokensUseCase } from '../../../application/use-cases/scim/get-scim-tokens.use-case';
+import { RevokeScimTokenUseCase } from '../../../application/use-cases/scim/revoke-scim-token.use-case';
+
+export class ScimTokenController {
+  private createScimTokenUseCase: CreateScimTokenUseCase;
+  private getScimTokensUseCase: GetScimTokensUseCase;
+  private revokeScimTokenUseCase: RevokeScimTokenUseCase;
+
+  constructor() {
+    this.createScimTokenUseCase = container.get<CreateScimTokenUseCase>('CreateScimTokenUseCase');
+    this.getScimTokensUseCase = container.get<GetScimTokensUseCase>('GetScimTokensUseCase');
+    this.revokeScimTokenUseCase = container.get<RevokeScimTokenUseCase>('RevokeScimTokenUseCase');
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/scim-tokens:
+   *   get:
+   *     summary: List the SCIM tokens of a tenant (admin)
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: SCIM tokens, including revoked and expired ones (tokens themselves are never returned)
+   */
+  async getAll(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      const result = await this.getScimTokensUseCase.execute(req.params.id, requesterTenantId);
+      return ResponseFormatter.success(res, result, 'SCIM tokens retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/scim-tokens:
+   *   post:
+   *     summary: Create a SCIM token for a tenant (admin)
+   *     description: The identity provider sends the token as a bearer token to the returned SCIM base URL
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [name]
+   *             properties:
+   *               name:
+   *                 type: string
+   *               expiresAt:
+   *                 type: string
+   *                 format: date-time
+   *     responses:
+   *       201:
+   *         description: SCIM token created; the token is only returned in this response
+   */
+  async create(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.createScimTokenUseCase.execute(
+        req.params.id,
+        req.body,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'SCIM token created successfully', 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/tenants/{id}/scim-tokens/{tokenId}:
+   *   delete:
+   *     summary: Revoke a SCIM token (admin)
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: tokenId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: SCIM token revoked
+   *       404:
+   *         description: SCIM token not found
+   */
+  async revoke(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      await this.revokeScimTokenUseCase.execute(
+        req.params.id,
+        req.params.tokenId,
+        requesterTenantId,
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, null, 'SCIM token revoked successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
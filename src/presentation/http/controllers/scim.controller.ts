@@ -0,0 +1,479 @@
+import { Response, NextFunction } from 'express';
+import { RequestWithUser, AuditActor } from '../../../shared/types';
+import { container } from '../../../infrastructure/di/container';
+import { SCIM_CONTENT_TYPE } from '../../../domain/constants/scim';
+import { AUDIT_ACTOR_TYPES } from '../../../domain/constants/audit';
+import { getClientContext } from '../../../shared/utils/client-context';
+import { ScimListQuery } from '../../../application/dto/scim.dto';
+import { ScimResourceService } from '../../../application/services/scim-resource.service';
+import { GetScimUsersUseCase } from '../../../application/use-cases/scim/get-scim-users.use-case';
+import { GetScimUserUseCase } from '../../../application/use-cases/scim/get-scim-user.use-case';
+import { CreateScimUserUseCase } from '../../../application/use-cases/scim/create-scim-user.use-case';
+import { ReplaceScimUserUseCase } from '../../../application/use-cases/scim/replace-scim-user.use-case';
+import { PatchScimUserUseCase } from '../../../application/use-cases/scim/patch-scim-user.use-case';
+import { DeleteScimUserUseCase } from '../../../application/use-cases/scim/delete-scim-user.use-case';
+import { GetScimGroupsUseCase } from '../../../application/use-cases/scim/get-scim-groups.use-case';
+import { GetScimGroupUseCase } from '../../../application/use-cases/scim/get-scim-group.use-case';
+import { CreateScimGroupUseCase } from '../../../application/use-cases/scim/create-scim-group.use-case';
+import { ReplaceScimGroupUseCase } from '../../../application/use-cases/scim/replace-scim-group.use-case';
+import { PatchScimGroupUseCase } from '../../../application/use-cases/scim/patch-scim-group.use-case';
+import { DeleteScimGroupUseCase } from '../../../application/use-cases/scim/delete-scim-group.use-case';
+
+// SCIM requests are made by the tenant's identity provider, not by a user
+const scimActor = (req: RequestWithUser): AuditActor => ({
+  ...getClientContext(req),
+  actorId: null,
+  actorType: AUDIT_ACTOR_TYPES.SCIM,
+});
+
+/**
+ * SCIM 2.0 endpoints (RFC 7644) for the tenant of the authenticating SCIM token
+ * Responses are SCIM resources, not wrapped in the API response envelope
+ */
+export class ScimController {
+  private scimResourceService: ScimResourceService;
+  private getScimUsersUseCase: GetScimUsersUseCase;
+  private getScimUserUseCase: GetScimUserUseCase;
+  private createScimUserUseCase: CreateScimUserUseCase;
+  private replaceScimUserUseCase: ReplaceScimUserUseCase;
+  private patchScimUserUseCase: PatchScimUserUseCase;
+  private deleteScimUserUseCase: DeleteScimUserUseCase;
+  private getScimGroupsUseCase: GetScimGroupsUseCase;
+  private getScimGroupUseCase: GetScimGroupUseCase;
+  private createScimGroupUseCase: CreateScimGroupUseCase;
+  private replaceScimGroupUseCase: ReplaceScimGroupUseCase;
+  private patchScimGroupUseCase: PatchScimGroupUseCase;
+  private deleteScimGroupUseCase: DeleteScimGroupUseCase;
+
+  constructor() {
+    this.scimResourceService = container.get<ScimResourceService>('ScimResourceService');
+    this.getScimUsersUseCase = container.get<GetScimUsersUseCase>('GetScimUsersUseCase');
+    this.getScimUserUseCase = container.get<GetScimUserUseCase>('GetScimUserUseCase');
+    this.createScimUserUseCase = container.get<CreateScimUserUseCase>('CreateScimUserUseCase');
+    this.replaceScimUserUseCase = container.get<ReplaceScimUserUseCase>('ReplaceScimUserUseCase');
+    this.patchScimUserUseCase = container.get<PatchScimUserUseCase>('PatchScimUserUseCase');
+    this.deleteScimUserUseCase = container.get<DeleteScimUserUseCase>('DeleteScimUserUseCase');
+    this.getScimGroupsUseCase = container.get<GetScimGroupsUseCase>('GetScimGroupsUseCase');
+    this.getScimGroupUseCase = container.get<GetScimGroupUseCase>('GetScimGroupUseCase');
+    this.createScimGroupUseCase = container.get<CreateScimGroupUseCase>('CreateScimGroupUseCase');
+    this.replaceScimGroupUseCase = container.get<ReplaceScimGroupUseCase>('ReplaceScimGroupUseCase');
+    this.patchScimGroupUseCase = container.get<PatchScimGroupUseCase>('PatchScimGroupUseCase');
+    this.deleteScimGroupUseCase = container.get<DeleteScimGroupUseCase>('DeleteScimGroupUseCase');
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/ServiceProviderConfig:
+   *   get:
+   *     summary: SCIM features supported by this service
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: ServiceProviderConfig resource
+   */
+  async getServiceProviderConfig(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      return res.status(200).type(SCIM_CONTENT_TYPE).json(this.scimResourceService.getServiceProviderConfig());
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/Users:
+   *   get:
+   *     summary: List or filter the users of the tenant
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: filter
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: startIndex
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: count
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: ListResponse of User resources
+   *       400:
+   *         description: Invalid filter
+   */
+  async getUsers(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.getScimUsersUseCase.execute(req.tenantId!, req.query as ScimListQuery);
+      return res.status(200).type(SCIM_CONTENT_TYPE).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/Users/{id}:
+   *   get:
+   *     summary: Get a user
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: User resource; deprovisioned users have active=false
+   *       404:
+   *         description: User not found
+   */
+  async getUser(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.getScimUserUseCase.execute(req.tenantId!, req.params.id);
+      return res.status(200).type(SCIM_CONTENT_TYPE).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/Users:
+   *   post:
+   *     summary: Provision a user
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/scim+json:
+   *           schema:
+   *             type: object
+   *     responses:
+   *       201:
+   *         description: User created
+   *       409:
+   *         description: userName or externalId already in use
+   */
+  async createUser(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.createScimUserUseCase.execute(req.tenantId!, req.body, scimActor(req));
+      res.setHeader('Location', result.meta!.location);
+      return res.status(201).type(SCIM_CONTENT_TYPE).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/Users/{id}:
+   *   put:
+   *     summary: Replace a user; active=false deprovisions it
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/scim+json:
+   *           schema:
+   *             type: object
+   *     responses:
+   *       200:
+   *         description: User replaced
+   *       404:
+   *         description: User not found
+   */
+  async replaceUser(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.replaceScimUserUseCase.execute(req.tenantId!, req.params.id, req.body, scimActor(req));
+      return res.status(200).type(SCIM_CONTENT_TYPE).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/Users/{id}:
+   *   patch:
+   *     summary: Patch a user (PatchOp); replace active=false deprovisions it
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/scim+json:
+   *           schema:
+   *             type: object
+   *     responses:
+   *       200:
+   *         description: User patched
+   *       404:
+   *         description: User not found
+   */
+  async patchUser(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.patchScimUserUseCase.execute(req.tenantId!, req.params.id, req.body, scimActor(req));
+      return res.status(200).type(SCIM_CONTENT_TYPE).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/Users/{id}:
+   *   delete:
+   *     summary: Deprovision a user
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       204:
+   *         description: User deprovisioned; its sessions are revoked
+   *       404:
+   *         description: User not found
+   */
+  async deleteUser(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      await this.deleteScimUserUseCase.execute(req.tenantId!, req.params.id, scimActor(req));
+      return res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/Groups:
+   *   get:
+   *     summary: List or filter the roles of the tenant as groups
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: query
+   *         name: filter
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: startIndex
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: count
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: excludedAttributes
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: ListResponse of Group resources
+   *       400:
+   *         description: Invalid filter
+   */
+  async getGroups(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.getScimGroupsUseCase.execute(req.tenantId!, req.query as ScimListQuery);
+      return res.status(200).type(SCIM_CONTENT_TYPE).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/Groups/{id}:
+   *   get:
+   *     summary: Get a group
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: query
+   *         name: excludedAttributes
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Group resource
+   *       404:
+   *         description: Group not found
+   */
+  async getGroup(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.getScimGroupUseCase.execute(req.tenantId!, req.params.id, req.query as ScimListQuery);
+      return res.status(200).type(SCIM_CONTENT_TYPE).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/Groups:
+   *   post:
+   *     summary: Provision a group as a tenant role
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/scim+json:
+   *           schema:
+   *             type: object
+   *     responses:
+   *       201:
+   *         description: Group created
+   *       409:
+   *         description: displayName or externalId already in use
+   */
+  async createGroup(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.createScimGroupUseCase.execute(req.tenantId!, req.body, scimActor(req));
+      res.setHeader('Location', result.meta!.location);
+      return res.status(201).type(SCIM_CONTENT_TYPE).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/Groups/{id}:
+   *   put:
+   *     summary: Replace a group and its members
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/scim+json:
+   *           schema:
+   *             type: object
+   *     responses:
+   *       200:
+   *         description: Group replaced
+   *       404:
+   *         description: Group not found
+   */
+  async replaceGroup(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.replaceScimGroupUseCase.execute(req.tenantId!, req.params.id, req.body, scimActor(req));
+      return res.status(200).type(SCIM_CONTENT_TYPE).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/Groups/{id}:
+   *   patch:
+   *     summary: Patch a group (PatchOp), e.g. add or remove members
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/scim+json:
+   *           schema:
+   *             type: object
+   *     responses:
+   *       204:
+   *         description: Group patched
+   *       404:
+   *         description: Group not found
+   */
+  async patchGroup(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      await this.patchScimGroupUseCase.execute(req.tenantId!, req.params.id, req.body, scimActor(req));
+      return res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /scim/v2/Groups/{id}:
+   *   delete:
+   *     summary: Delete a group and its role
+   *     tags: [SCIM]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       204:
+   *         description: Group deleted
+   *       404:
+   *         description: Group not found
+   */
+  async deleteGroup(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      await this.deleteScimGroupUseCase.execute(req.tenantId!, req.params.id, scimActor(req));
+      return res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { Response, NextFunction } from 'express';
+import { RequestWithUser } from '../../../shared/types';
+import { container } from '../../../infrastructure/di/container';
+import { ResponseFormatter } from '../responses/response-formatter';
+import { getAuditActor } from '../../../shared/utils/audit-actor';
+import { BadRequestException } from '../../../domain/exceptions/domain-exceptions';
+import { GetSessionsUseCase } from '../../../application/use-cases/session/get-sessions.use-case';
+import { RevokeSessionUseCase } from '../../../application/use-cases/session/revoke-session.use-case';
+import { RevokeSessionsUseCase } from '../../../application/use-cases/session/revoke-sessions.use-case';
+
+export class SessionController {
+  private getSessionsUseCase: GetSessionsUseCase;
+  private revokeSessionUseCase: RevokeSessionUseCase;
+  private revokeSessionsUseCase: RevokeSessionsUseCase;
+
+  constructor() {
+    this.getSessionsUseCase = container.get<GetSessionsUseCase>('GetSessionsUseCase');
+    this.revokeSessionUseCase = container.get<RevokeSessionUseCase>('RevokeSessionUseCase');
+    this.revokeSessionsUseCase = container.get<RevokeSessionsUseCase>('RevokeSessionsUseCase');
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/sessions:
+   *   get:
+   *     summary: List the active sessions of the current user
+   *     tags: [Sessions]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Active sessions, the caller's own flagged with current=true
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: array
+   *               items:
+   *                 type: object
+   *                 properties:
+   *                   id:
+   *                     type: string
+   *                   userAgent:
+   *                     type: string
+   *                   ipAddress:
+   *                     type: string
+   *                   createdAt:
+   *                     type: string
+   *                     format: date-time
+   *                   lastUsedAt:
+   *                     type: string
+   *                     format: date-time
+   *                   current:
+   *                     type: boolean
+   */
+  async getMySessions(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.getSessionsUseCase.execute(
+        req.user!.userId,
+        req.user!.tenantId,
+        req.user!.sessionId
+      );
+      return ResponseFormatter.success(res, result, 'Sessions retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/sessions/{id}:
+   *   delete:
+   *     summary: Revoke one of the current user's sessions
+   *     tags: [Sessions]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Session revoked
+   *       404:
+   *         description: Session not found
+   */
+  async revokeMySession(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      await this.revokeSessionUseCase.execute(req.user!.userId, req.params.id, req.user!.tenantId, getAuditActor(req));
+      return ResponseFormatter.success(res, null, 'Session revoked successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/sessions:
+   *   delete:
+   *     summary: Revoke all sessions of the current user except the current one
+   *     tags: [Sessions]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Other sessions revoked
+   *       400:
+   *         description: The access token does not identify a session (log in again)
+   */
+  async revokeMyOtherSessions(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      if (!req.user!.sessionId) {
+        throw new BadRequestException('Current session could not be determined. Please log in again.');
+      }
+
+      const revoked = await this.revokeSessionsUseCase.execute(
+        req.user!.userId,
+        req.user!.tenantId,
+        req.user!.sessionId,
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, { revoked }, 'Other sessions revoked successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/users/{id}/sessions:
+   *   get:
+   *     summary: List the active sessions of a user (admin)
+   *     tags: [Sessions]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Active sessions
+   *       404:
+   *         description: User not found in the admin's tenant
+   */
+  async getUserSessions(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.getSessionsUseCase.execute(req.params.id, req.tenantId, req.user!.sessionId);
+      return ResponseFormatter.success(res, result, 'Sessions retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/users/{id}/sessions/{sessionId}:
+   *   delete:
+   *     summary: Revoke a session of a user (admin)
+   *     tags: [Sessions]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *       - in: path
+   *         name: sessionId
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Session revoked
+   *       404:
+   *         description: User or session not found
+   */
+  async revokeUserSession(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      await this.revokeSessionUseCase.execute(req.params.id, req.params.sessionId, req.tenantId, getAuditActor(req));
+      return ResponseFormatter.success(res, null, 'Session revoked successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/users/{id}/sessions:
+   *   delete:
+   *     summary: Force logout a user (admin)
+   *     description: Revokes all sessions and every access token issued to the user
+   *     tags: [Sessions]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: All sessions revoked
+   *       404:
+   *         description: User not found in the admin's tenant
+   */
+  async revokeUserSessions(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const revoked = await this.revokeSessionsUseCase.execute(req.params.id, req.tenantId, undefined, getAuditActor(req));
+      return ResponseFormatter.success(res, { revoked }, 'Sessions revoked successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
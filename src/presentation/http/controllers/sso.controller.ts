@@ -0,0 +1,287 @@
+import { Request, Response, NextFunction, CookieOptions } from 'express';
+import { container } from '../../../infrastructure/di/container';
+import { ResponseFormatter } from '../responses/response-formatter';
+import { getClientContext } from '../../../shared/utils/client-context';
+import { GetSamlMetadataUseCase } from '../../../application/use-cases/sso/get-saml-metadata.use-case';
+import { StartSamlLoginUseCase } from '../../../application/use-cases/sso/start-saml-login.use-case';
+import { CompleteSamlLoginUseCase } from '../../../application/use-cases/sso/complete-saml-login.use-case';
+import { ExchangeSsoLoginCodeUseCase } from '../../../application/use-cases/sso/exchange-sso-login-code.use-case';
+import { StartOidcLoginUseCase } from '../../../application/use-cases/sso/start-oidc-login.use-case';
+import { CompleteOidcLoginUseCase } from '../../../application/use-cases/sso/complete-oidc-login.use-case';
+import { GetSsoLoginOptionsUseCase } from '../../../application/use-cases/sso/get-sso-login-options.use-case';
+import { ssoConfig } from '../../../infrastructure/config/sso.config';
+
+// Keep the state of a started login in the browser that started it; callbacks without it are refused
+const SSO_STATE_COOKIES = {
+  SAML: 'sso_saml_request',
+  OIDC: 'sso_oidc_state',
+} as const;
+
+/**
+ * The SAML response is a cross-site form post, which only carries SameSite=None cookies;
+ * the OIDC callback is a top-level redirect, for which Lax is enough
+ */
+function stateCookieOptions(sameSite: 'none' | 'lax'): CookieOptions {
+  return {
+    httpOnly: true,
+    secure: true,
+    sameSite,
+    path: '/api/v1/auth/sso',
+  };
+}
+
+export class SsoController {
+  private getSamlMetadataUseCase: GetSamlMetadataUseCase;
+  private startSamlLoginUseCase: StartSamlLoginUseCase;
+  private completeSamlLoginUseCase: CompleteSamlLoginUseCase;
+  private exchangeSsoLoginCodeUseCase: ExchangeSsoLoginCodeUseCase;
+  private startOidcLoginUseCase: StartOidcLoginUseCase;
+  private completeOidcLoginUseCase: CompleteOidcLoginUseCase;
+  private getSsoLoginOptionsUseCase: GetSsoLoginOptionsUseCase;
+
+  constructor() {
+    this.getSamlMetadataUseCase = container.get<GetSamlMetadataUseCase>('GetSamlMetadataUseCase');
+    this.startSamlLoginUseCase = container.get<StartSamlLoginUseCase>('StartSamlLoginUseCase');
+    this.completeSamlLoginUseCase = container.get<CompleteSamlLoginUseCase>('CompleteSamlLoginUseCase');
+    this.exchangeSsoLoginCodeUseCase = container.get<ExchangeSsoLoginCodeUseCase>('ExchangeSsoLoginCodeUseCase');
+    this.startOidcLoginUseCase = container.get<StartOidcLoginUseCase>('StartOidcLoginUseCase');
+    this.completeOidcLoginUseCase = container.get<CompleteOidcLoginUseCase>('CompleteOidcLoginUseCase');
+    this.getSsoLoginOptionsUseCase = container.get<GetSsoLoginOptionsUseCase>('GetSsoLoginOptionsUseCase');
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/sso/saml/{tenantId}/metadata:
+   *   get:
+   *     summary: SAML service provider metadata of a tenant
+   *     description: Registered at the tenant's identity provider
+   *     tags: [SSO]
+   *     parameters:
+   *       - { in: path, name: tenantId, required: true, schema: { type: string, format: uuid } }
+   *     responses:
+   *       200:
+   *         description: SP metadata XML
+   *         content:
+   *           application/xml: {}
+   *       404:
+   *         description: Tenant not found
+   */
+  async getSamlMetadata(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const metadata = await this.getSamlMetadataUseCase.execute(req.params.tenantId);
+      return res.type('application/xml').send(metadata);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/sso/saml/login:
+   *   get:
+   *     summary: Start a SAML login
+   *     description: Redirects the browser to the tenant's identity provider
+   *     tags: [SSO]
+   *     parameters:
+   *       - { in: query, name: tenantSlug, required: true, schema: { type: string } }
+   *     responses:
+   *       302:
+   *         description: Redirect to the identity provider; sets the sso_saml_request cookie the ACS checks
+   *       404:
+   *         description: Tenant not found or SSO not enabled
+   */
+  async startSamlLogin(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { redirectUrl, state } = await this.startSamlLoginUseCase.execute(req.query.tenantSlug as string);
+      res.cookie(SSO_STATE_COOKIES.SAML, state, {
+        ...stateCookieOptions('none'),
+        maxAge: ssoConfig.requestTtlSeconds * 1000,
+      });
+      return res.redirect(302, redirectUrl);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/sso/saml/{tenantId}/acs:
+   *   post:
+   *     summary: SAML assertion consumer service
+   *     description: Receives the IdP response (HTTP-POST binding) and redirects to the frontend with a single-use login code
+   *     tags: [SSO]
+   *     parameters:
+   *       - { in: path, name: tenantId, required: true, schema: { type: string, format: uuid } }
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/x-www-form-urlencoded:
+   *           schema:
+   *             type: object
+   *             required: [SAMLResponse]
+   *             properties:
+   *               SAMLResponse: { type: string }
+   *               RelayState: { type: string }
+   *     responses:
+   *       303:
+   *         description: Redirect to the frontend SSO callback with the login code
+   *       401:
+   *         description: Invalid, expired or replayed SAML response, or a browser that did not start the login
+   *       403:
+   *         description: The user cannot sign in to this tenant
+   */
+  async samlAcs(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const browserState = req.cookies?.[SSO_STATE_COOKIES.SAML];
+      res.clearCookie(SSO_STATE_COOKIES.SAML, stateCookieOptions('none'));
+
+      const redirectUrl = await this.completeSamlLoginUseCase.execute(
+        req.params.tenantId,
+        req.body.SAMLResponse,
+        browserState,
+        getClientContext(req)
+      );
+      return res.redirect(303, redirectUrl);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/sso/options:
+   *   get:
+   *     summary: SSO logins offered by a tenant
+   *     description: SAML and OIDC logins the login page can show a button for
+   *     tags: [SSO]
+   *     parameters:
+   *       - { in: query, name: tenantSlug, required: true, schema: { type: string } }
+   *     responses:
+   *       200:
+   *         description: Login URLs of the enabled SSO connections
+   *       404:
+   *         description: Tenant not found
+   */
+  async getLoginOptions(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.getSsoLoginOptionsUseCase.execute(req.query.tenantSlug as string);
+      return ResponseFormatter.success(res, result, 'SSO login options retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/sso/oidc/login:
+   *   get:
+   *     summary: Start a login with an OIDC connector
+   *     description: Redirects the browser to the connector's provider
+   *     tags: [SSO]
+   *     parameters:
+   *       - { in: query, name: tenantSlug, required: true, schema: { type: string } }
+   *       - { in: query, name: connectorId, required: true, schema: { type: string, format: uuid } }
+   *     responses:
+   *       302:
+   *         description: Redirect to the provider; sets the sso_oidc_state cookie the callback checks
+   *       404:
+   *         description: Tenant or connector not found
+   */
+  async startOidcLogin(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const { redirectUrl, state } = await this.startOidcLoginUseCase.execute(
+        req.query.tenantSlug as string,
+        req.query.connectorId as string
+      );
+      res.cookie(SSO_STATE_COOKIES.OIDC, state, {
+        ...stateCookieOptions('lax'),
+        maxAge: ssoConfig.requestTtlSeconds * 1000,
+      });
+      return res.redirect(302, redirectUrl);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/sso/oidc/callback:
+   *   get:
+   *     summary: OIDC redirect URI
+   *     description: Receives the authorization response and redirects to the frontend with a single-use login code
+   *     tags: [SSO]
+   *     parameters:
+   *       - { in: query, name: state, required: true, schema: { type: string } }
+   *       - { in: query, name: code, schema: { type: string } }
+   *       - { in: query, name: error, schema: { type: string } }
+   *     responses:
+   *       302:
+   *         description: Redirect to the frontend SSO callback with the login code
+   *       401:
+   *         description: Invalid, expired or replayed callback, or a browser that did not start the login
+   *       403:
+   *         description: The user cannot sign in to this tenant
+   */
+  async oidcCallback(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const callbackParams: Record<string, string> = {};
+      for (const [key, value] of Object.entries(req.query)) {
+        if (typeof value === 'string') {
+          callbackParams[key] = value;
+        }
+      }
+
+      const browserState = req.cookies?.[SSO_STATE_COOKIES.OIDC];
+      res.clearCookie(SSO_STATE_COOKIES.OIDC, stateCookieOptions('lax'));
+
+      const redirectUrl = await this.completeOidcLoginUseCase.execute(
+        callbackParams,
+        browserState,
+        getClientContext(req)
+      );
+      return res.redirect(302, redirectUrl);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/sso/exchange:
+   *   post:
+   *     summary: Exchange an SSO login code for tokens
+   *     tags: [SSO]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required: [code]
+   *             properties:
+   *               code: { type: string }
+   *     responses:
+   *       200:
+   *         description: Login successful, or an MFA challenge
+   *       401:
+   *         description: Invalid, expired or used code
+   *       403:
+   *         description: Email address is not verified
+   *       423:
+   *         description: Account temporarily locked (code ACCOUNT_LOCKED, Retry-After header)
+   */
+  async exchangeCode(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.exchangeSsoLoginCodeUseCase.execute(req.body, getClientContext(req));
+      if ('challengeToken' in result) {
+        const message = result.status === 'mfa_enrollment_required'
+          ? 'MFA enrollment required'
+          : 'MFA verification required';
+        return ResponseFormatter.success(res, result, message, 200);
+      }
+      return ResponseFormatter.success(res, result, 'Login successful', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
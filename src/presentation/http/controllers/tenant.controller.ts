@@ -3,22 +3,59 @@ import { RequestWithUser } from '../../../shared/types';
 import { container } from '../../../infrastructure/di/container';
 import { ResponseFormatter } from '../responses/response-formatter';
 import { parsePaginationParams } from '../../../shared/utils/pagination';
+import { getAuditActor } from '../../../shared/utils/audit-actor';
 import { CreateTenantUseCase } from '../../../application/use-cases/tenant/create-tenant.use-case';
 import { GetTenantsUseCase } from '../../../application/use-cases/tenant/get-tenants.use-case';
 import { UpdateTenantUseCase } from '../../../application/use-cases/tenant/update-tenant.use-case';
 import { DeleteTenantUseCase } from '../../../application/use-cases/tenant/delete-tenant.use-case';
+import { GetTenantSecuritySettingsUseCase } from '../../../application/use-cases/tenant/get-tenant-security-settings.use-case';
+import { UpdateTenantSecuritySettingsUseCase } from '../../../application/use-cases/tenant/update-tenant-security-settings.use-case';
+import { GetTenantPasswordPolicyUseCase } from '../../../application/use-cases/tenant/get-tenant-password-policy.use-case';
+import { UpdateTenantPasswordPolicyUseCase } from '../../../application/use-cases/tenant/update-tenant-password-policy.use-case';
+import { ResetTenantPasswordPolicyUseCase } from '../../../application/use-cases/tenant/reset-tenant-password-policy.use-case';
+import { GetTenantSamlConfigUseCase } from '../../../application/use-cases/tenant/get-tenant-saml-config.use-case';
+import { UpdateTenantSamlConfigUseCase } from '../../../application/use-cases/tenant/update-tenant-saml-config.use-case';
+import { DeleteTenantSamlConfigUseCase } from '../../../application/use-cases/tenant/delete-tenant-saml-config.use-case';
+import { GetTenantOidcConnectorsUseCase } from '../../../application/use-cases/tenant/get-tenant-oidc-connectors.use-case';
+import { CreateTenantOidcConnectorUseCase } from '../../../application/use-cases/tenant/create-tenant-oidc-connector.use-case';
+import { UpdateTenantOidcConnectorUseCase } from '../../../application/use-cases/tenant/update-tenant-oidc-connector.use-case';
+import { DeleteTenantOidcConnectorUseCase } from '../../../application/use-cases/tenant/delete-tenant-oidc-connector.use-case';
 
 export class TenantController {
   private createTenantUseCase: CreateTenantUseCase;
   private getTenantsUseCase: GetTenantsUseCase;
   private updateTenantUseCase: UpdateTenantUseCase;
   private deleteTenantUseCase: DeleteTenantUseCase;
+  private getTenantSecuritySettingsUseCase: GetTenantSecuritySettingsUseCase;
+  private updateTenantSecuritySettingsUseCase: UpdateTenantSecuritySettingsUseCase;
+  private getTenantPasswordPolicyUseCase: GetTenantPasswordPolicyUseCase;
+  private updateTenantPasswordPolicyUseCase: UpdateTenantPasswordPolicyUseCase;
+  private resetTenantPasswordPolicyUseCase: ResetTenantPasswordPolicyUseCase;
+  private getTenantSamlConfigUseCase: GetTenantSamlConfigUseCase;
+  private updateTenantSamlConfigUseCase: UpdateTenantSamlConfigUseCase;
+  private deleteTenantSamlConfigUseCase: DeleteTenantSamlConfigUseCase;
+  private getTenantOidcConnectorsUseCase: GetTenantOidcConnectorsUseCase;
+  private createTenantOidcConnectorUseCase: CreateTenantOidcConnectorUseCase;
+  private updateTenantOidcConnectorUseCase: UpdateTenantOidcConnectorUseCase;
+  private deleteTenantOidcConnectorUseCase: DeleteTenantOidcConnectorUseCase;
 
   constructor() {
     this.createTenantUseCase = container.get<CreateTenantUseCase>('CreateTenantUseCase');
     this.getTenantsUseCase = container.get<GetTenantsUseCase>('GetTenantsUseCase');
     this.updateTenantUseCase = container.get<UpdateTenantUseCase>('UpdateTenantUseCase');
     this.deleteTenantUseCase = container.get<DeleteTenantUseCase>('DeleteTenantUseCase');
+    this.getTenantSecuritySettingsUseCase = container.get<GetTenantSecuritySettingsUseCase>('GetTenantSecuritySettingsUseCase');
+    this.updateTenantSecuritySettingsUseCase = container.get<UpdateTenantSecuritySettingsUseCase>('UpdateTenantSecuritySettingsUseCase');
+    this.getTenantPasswordPolicyUseCase = container.get<GetTenantPasswordPolicyUseCase>('GetTenantPasswordPolicyUseCase');
+    this.updateTenantPasswordPolicyUseCase = container.get<UpdateTenantPasswordPolicyUseCase>('UpdateTenantPasswordPolicyUseCase');
+    this.resetTenantPasswordPolicyUseCase = container.get<ResetTenantPasswordPolicyUseCase>('ResetTenantPasswordPolicyUseCase');
+    this.getTenantSamlConfigUseCase = container.get<GetTenantSamlConfigUseCase>('GetTenantSamlConfigUseCase');
+    this.updateTenantSamlConfigUseCase = container.get<UpdateTenantSamlConfigUseCase>('UpdateTenantSamlConfigUseCase');
+    this.deleteTenantSamlConfigUseCase = container.get<DeleteTenantSamlConfigUseCase>('DeleteTenantSamlConfigUseCase');
+    this.getTenantOidcConnectorsUseCase = container.get<GetTenantOidcConnectorsUseCase>('GetTenantOidcConnectorsUseCase');
+    this.createTenantOidcConnectorUseCase = container.get<CreateTenantOidcConnectorUseCase>('CreateTenantOidcConnectorUseCase');
+    this.updateTenantOidcConnectorUseCase = container.get<UpdateTenantOidcConnectorUseCase>('UpdateTenantOidcConnectorUseCase');
+    this.deleteTenantOidcConnectorUseCase = container.get<DeleteTenantOidcConnectorUseCase>('DeleteTenantOidcConnectorUseCase');
   }
 
   async create(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
@@ -42,7 +79,7 @@ export class TenantController {
 
   async update(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
     try {
-      const result = await this.updateTenantUseCase.execute(req.params.id, req.body);
+      const result = await this.updateTenantUseCase.execute(req.params.id, req.body, getAuditActor(req));
       return ResponseFormatter.success(res, result, 'Tenant updated successfully', 200);
     } catch (error) {
       next(error);
@@ -51,11 +88,185 @@ export class TenantController {
 
   async delete(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
     try {
-      await this.deleteTenantUseCase.execute(req.params.id);
+      await this.deleteTenantUseCase.execute(req.params.id, getAuditActor(req));
       return ResponseFormatter.success(res, null, 'Tenant deleted successfully', 200);
     } catch (error) {
       next(error);
     }
   }
-}
 
+  async getSecuritySettings(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      const result = await this.getTenantSecuritySettingsUseCase.execute(req.params.id, requesterTenantId);
+      return ResponseFormatter.success(res, result, 'Tenant security settings retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateSecuritySettings(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.updateTenantSecuritySettingsUseCase.execute(
+        req.params.id,
+        req.body,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'Tenant security settings updated successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getPasswordPolicy(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      const result = await this.getTenantPasswordPolicyUseCase.execute(req.params.id, requesterTenantId);
+      return ResponseFormatter.success(res, result, 'Tenant password policy retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updatePasswordPolicy(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.updateTenantPasswordPolicyUseCase.execute(
+        req.params.id,
+        req.body,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'Tenant password policy updated successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async resetPasswordPolicy(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.resetTenantPasswordPolicyUseCase.execute(
+        req.params.id,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'Tenant password policy reset successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getSamlConfig(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      const result = await this.getTenantSamlConfigUseCase.execute(req.params.id, requesterTenantId);
+      return ResponseFormatter.success(res, result, 'Tenant SAML configuration retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateSamlConfig(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.updateTenantSamlConfigUseCase.execute(
+        req.params.id,
+        req.body,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'Tenant SAML configuration updated successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteSamlConfig(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      await this.deleteTenantSamlConfigUseCase.execute(
+        req.params.id,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, null, 'Tenant SAML configuration deleted successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async getOidcConnectors(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const requesterTenantId = req.user!.isSuperAdmin ? null : req.user!.tenantId;
+      const result = await this.getTenantOidcConnectorsUseCase.execute(req.params.id, requesterTenantId);
+      return ResponseFormatter.success(res, result, 'Tenant OIDC connectors retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async createOidcConnector(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.createTenantOidcConnectorUseCase.execute(
+        req.params.id,
+        req.body,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'Tenant OIDC connector created successfully', 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async updateOidcConnector(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.updateTenantOidcConnectorUseCase.execute(
+        req.params.id,
+        req.params.connectorId,
+        req.body,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, result, 'Tenant OIDC connector updated successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  async deleteOidcConnector(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      await this.deleteTenantOidcConnectorUseCase.execute(
+        req.params.id,
+        req.params.connectorId,
+        {
+          userId: req.user!.userId,
+          tenantId: req.user!.isSuperAdmin ? null : req.user!.tenantId,
+        },
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, null, 'Tenant OIDC connector deleted successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
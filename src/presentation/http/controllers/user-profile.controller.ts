@@ -5,16 +5,19 @@ import { ResponseFormatter } from '../responses/response-formatter';
 import { CreateUserProfileUseCase } from '../../../application/use-cases/user-profile/create-user-profile.use-case';
 import { UpdateUserProfileUseCase } from '../../../application/use-cases/user-profile/update-user-profile.use-case';
 import { GetUserProfileUseCase } from '../../../application/use-cases/user-profile/get-user-profile.use-case';
+import { GetUserIdentitiesUseCase } from '../../../application/use-cases/user-profile/get-user-identities.use-case';
 
 export class UserProfileController {
   private createUserProfileUseCase: CreateUserProfileUseCase;
   private updateUserProfileUseCase: UpdateUserProfileUseCase;
   private getUserProfileUseCase: GetUserProfileUseCase;
+  private getUserIdentitiesUseCase: GetUserIdentitiesUseCase;
 
   constructor() {
     this.createUserProfileUseCase = container.get<CreateUserProfileUseCase>('CreateUserProfileUseCase');
     this.updateUserProfileUseCase = container.get<UpdateUserProfileUseCase>('UpdateUserProfileUseCase');
     this.getUserProfileUseCase = container.get<GetUserProfileUseCase>('GetUserProfileUseCase');
+    this.getUserIdentitiesUseCase = container.get<GetUserIdentitiesUseCase>('GetUserIdentitiesUseCase');
   }
 
   async create(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
@@ -44,6 +47,19 @@ export class UserProfileController {
     }
   }
 
+  async getIdentities(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const tenantId = req.user?.isSuperAdmin && req.query.tenantId 
+        ? req.query.tenantId as string
+        : req.tenantId;
+      
+      const result = await this.getUserIdentitiesUseCase.execute(req.params.userId, tenantId!);
+      return ResponseFormatter.success(res, result, 'Linked identities retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async update(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
     try {
       const tenantId = req.user?.isSuperAdmin && req.body.tenantId 
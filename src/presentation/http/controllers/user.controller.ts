@@ -3,11 +3,13 @@ import { RequestWithUser } from '../../../shared/types';
 import { container } from '../../../infrastructure/di/container';
 import { ResponseFormatter } from '../responses/response-formatter';
 import { parsePaginationParams } from '../../../shared/utils/pagination';
+import { getAuditActor } from '../../../shared/utils/audit-actor';
 import { CreateUserUseCase } from '../../../application/use-cases/user/create-user.use-case';
 import { GetUsersUseCase } from '../../../application/use-cases/user/get-users.use-case';
 import { GetUserUseCase } from '../../../application/use-cases/user/get-user.use-case';
 import { UpdateUserUseCase } from '../../../application/use-cases/user/update-user.use-case';
 import { DeleteUserUseCase } from '../../../application/use-cases/user/delete-user.use-case';
+import { UnlockUserUseCase } from '../../../application/use-cases/user/unlock-user.use-case';
 
 export class UserController {
   private createUserUseCase: CreateUserUseCase;
@@ -15,6 +17,7 @@ export class UserController {
   private getUserUseCase: GetUserUseCase;
   private updateUserUseCase: UpdateUserUseCase;
   private deleteUserUseCase: DeleteUserUseCase;
+  private unlockUserUseCase: UnlockUserUseCase;
 
   constructor() {
     this.createUserUseCase = container.get<CreateUserUseCase>('CreateUserUseCase');
@@ -22,6 +25,7 @@ export class UserController {
     this.getUserUseCase = container.get<GetUserUseCase>('GetUserUseCase');
     this.updateUserUseCase = container.get<UpdateUserUseCase>('UpdateUserUseCase');
     this.deleteUserUseCase = container.get<DeleteUserUseCase>('DeleteUserUseCase');
+    this.unlockUserUseCase = container.get<UnlockUserUseCase>('UnlockUserUseCase');
   }
 
   /**
@@ -72,7 +76,7 @@ export class UserController {
         ? req.body.tenantId 
         : req.tenantId;
       
-      const result = await this.createUserUseCase.execute(req.body, tenantId);
+      const result = await this.createUserUseCase.execute(req.body, tenantId, getAuditActor(req));
       return ResponseFormatter.success(res, result, 'User created successfully', 201);
     } catch (error) {
       next(error);
@@ -155,7 +159,8 @@ export class UserController {
       const result = await this.updateUserUseCase.execute(
         req.params.id,
         req.body,
-        tenantId!
+        tenantId!,
+        getAuditActor(req)
       );
       return ResponseFormatter.success(res, result, 'User updated successfully', 200);
     } catch (error) {
@@ -170,11 +175,45 @@ export class UserController {
         ? req.query.tenantId as string
         : req.tenantId;
       
-      await this.deleteUserUseCase.execute(req.params.id, tenantId!);
+      await this.deleteUserUseCase.execute(req.params.id, tenantId!, getAuditActor(req));
       return ResponseFormatter.success(res, null, 'User deleted successfully', 200);
     } catch (error) {
       next(error);
     }
   }
-}
 
+  /**
+   * @swagger
+   * /api/v1/users/{id}/unlock:
+   *   post:
+   *     summary: Unlock an account locked after failed logins (admin)
+   *     description: Also clears the failed attempts and resets the lockout backoff
+   *     tags: [Users]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Lockout cleared; wasLocked tells whether the account was locked
+   *       404:
+   *         description: User not found in the admin's tenant
+   */
+  async unlock(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const wasLocked = await this.unlockUserUseCase.execute(
+        req.params.id,
+        req.tenantId,
+        req.user!.userId,
+        getAuditActor(req)
+      );
+      return ResponseFormatter.success(res, { wasLocked }, 'User unlocked successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,321 @@
+import { Request, Response, NextFunction } from 'express';
+import { RequestWithUser } from '../../../shared/types';
+import { container } from '../../../infrastructure/di/container';
+import { ResponseFormatter } from '../responses/response-formatter';
+import { getClientContext } from '../../../shared/utils/client-context';
+import { StartWebAuthnRegistrationUseCase } from '../../../application/use-cases/webauthn/start-webauthn-registration.use-case';
+import { FinishWebAuthnRegistrationUseCase } from '../../../application/use-cases/webauthn/finish-webauthn-registration.use-case';
+import { StartWebAuthnLoginUseCase } from '../../../application/use-cases/webauthn/start-webauthn-login.use-case';
+import { FinishWebAuthnLoginUseCase } from '../../../application/use-cases/webauthn/finish-webauthn-login.use-case';
+import { StartWebAuthnMfaUseCase } from '../../../application/use-cases/webauthn/start-webauthn-mfa.use-case';
+import { FinishWebAuthnMfaUseCase } from '../../../application/use-cases/webauthn/finish-webauthn-mfa.use-case';
+import { GetWebAuthnCredentialsUseCase } from '../../../application/use-cases/webauthn/get-webauthn-credentials.use-case';
+import { RenameWebAuthnCredentialUseCase } from '../../../application/use-cases/webauthn/rename-webauthn-credential.use-case';
+import { DeleteWebAuthnCredentialUseCase } from '../../../application/use-cases/webauthn/delete-webauthn-credential.use-case';
+
+export class WebAuthnController {
+  private startRegistrationUseCase: StartWebAuthnRegistrationUseCase;
+  private finishRegistrationUseCase: FinishWebAuthnRegistrationUseCase;
+  private startLoginUseCase: StartWebAuthnLoginUseCase;
+  private finishLoginUseCase: FinishWebAuthnLoginUseCase;
+  private startMfaUseCase: StartWebAuthnMfaUseCase;
+  private finishMfaUseCase: FinishWebAuthnMfaUseCase;
+  private getCredentialsUseCase: GetWebAuthnCredentialsUseCase;
+  private renameCredentialUseCase: RenameWebAuthnCredentialUseCase;
+  private deleteCredentialUseCase: DeleteWebAuthnCredentialUseCase;
+
+  constructor() {
+    this.startRegistrationUseCase = container.get<StartWebAuthnRegistrationUseCase>('StartWebAuthnRegistrationUseCase');
+    this.finishRegistrationUseCase = container.get<FinishWebAuthnRegistrationUseCase>('FinishWebAuthnRegistrationUseCase');
+    this.startLoginUseCase = container.get<StartWebAuthnLoginUseCase>('StartWebAuthnLoginUseCase');
+    this.finishLoginUseCase = container.get<FinishWebAuthnLoginUseCase>('FinishWebAuthnLoginUseCase');
+    this.startMfaUseCase = container.get<StartWebAuthnMfaUseCase>('StartWebAuthnMfaUseCase');
+    this.finishMfaUseCase = container.get<FinishWebAuthnMfaUseCase>('FinishWebAuthnMfaUseCase');
+    this.getCredentialsUseCase = container.get<GetWebAuthnCredentialsUseCase>('GetWebAuthnCredentialsUseCase');
+    this.renameCredentialUseCase = container.get<RenameWebAuthnCredentialUseCase>('RenameWebAuthnCredentialUseCase');
+    this.deleteCredentialUseCase = container.get<DeleteWebAuthnCredentialUseCase>('DeleteWebAuthnCredentialUseCase');
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/webauthn/register/options:
+   *   post:
+   *     summary: Start registering a passkey
+   *     tags: [WebAuthn]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Options to pass to navigator.credentials.create()
+   *       422:
+   *         description: The user already has the maximum number of passkeys
+   */
+  async startRegistration(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.startRegistrationUseCase.execute(req.user!.userId, req.user!.tenantId);
+      return ResponseFormatter.success(res, result, 'Passkey registration started', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/webauthn/register/verify:
+   *   post:
+   *     summary: Finish registering a passkey
+   *     tags: [WebAuthn]
+   *     security:
+   *       - bearerAuth: []
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - response
+   *             properties:
+   *               response:
+   *                 type: object
+   *                 description: Result of navigator.credentials.create(), serialized as JSON
+   *               name:
+   *                 type: string
+   *     responses:
+   *       201:
+   *         description: Passkey registered
+   *       400:
+   *         description: Invalid response or expired challenge
+   *       409:
+   *         description: Passkey already registered
+   */
+  async finishRegistration(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.finishRegistrationUseCase.execute(req.user!.userId, req.user!.tenantId, req.body);
+      return ResponseFormatter.success(res, result, 'Passkey registered successfully', 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/webauthn/login/options:
+   *   post:
+   *     summary: Start a passwordless login with a passkey
+   *     tags: [WebAuthn]
+   *     responses:
+   *       200:
+   *         description: Options to pass to navigator.credentials.get()
+   */
+  async startLogin(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.startLoginUseCase.execute();
+      return ResponseFormatter.success(res, result, 'Passkey login started', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/webauthn/login/verify:
+   *   post:
+   *     summary: Finish a passwordless login with a passkey
+   *     description: The passkey must verify the user (PIN or biometric) and satisfies the tenant MFA policy
+   *     tags: [WebAuthn]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - response
+   *             properties:
+   *               response:
+   *                 type: object
+   *                 description: Result of navigator.credentials.get(), serialized as JSON
+   *     responses:
+   *       200:
+   *         description: Login successful
+   *       401:
+   *         description: Invalid assertion or expired challenge
+   *       403:
+   *         description: Email address is not verified
+   */
+  async finishLogin(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.finishLoginUseCase.execute(req.body, getClientContext(req));
+      return ResponseFormatter.success(res, result, 'Login successful', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/webauthn/mfa/options:
+   *   post:
+   *     summary: Start answering an MFA challenge with a passkey
+   *     tags: [WebAuthn]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - challengeToken
+   *             properties:
+   *               challengeToken:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Options to pass to navigator.credentials.get()
+   *       400:
+   *         description: The user has no passkey
+   *       401:
+   *         description: Expired challenge
+   */
+  async startMfa(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.startMfaUseCase.execute(req.body);
+      return ResponseFormatter.success(res, result, 'Passkey verification started', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/webauthn/mfa/verify:
+   *   post:
+   *     summary: Complete an MFA login with a passkey
+   *     tags: [WebAuthn]
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - challengeToken
+   *               - response
+   *             properties:
+   *               challengeToken:
+   *                 type: string
+   *               response:
+   *                 type: object
+   *     responses:
+   *       200:
+   *         description: Login successful
+   *       401:
+   *         description: Invalid assertion or expired challenge
+   */
+  async finishMfa(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.finishMfaUseCase.execute(req.body, getClientContext(req));
+      return ResponseFormatter.success(res, result, 'Login successful', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/webauthn/credentials:
+   *   get:
+   *     summary: List the current user's passkeys
+   *     tags: [WebAuthn]
+   *     security:
+   *       - bearerAuth: []
+   *     responses:
+   *       200:
+   *         description: Passkeys retrieved
+   */
+  async getCredentials(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.getCredentialsUseCase.execute(req.user!.userId, req.user!.tenantId);
+      return ResponseFormatter.success(res, result, 'Passkeys retrieved successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/webauthn/credentials/{id}:
+   *   patch:
+   *     summary: Rename a passkey
+   *     tags: [WebAuthn]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     requestBody:
+   *       required: true
+   *       content:
+   *         application/json:
+   *           schema:
+   *             type: object
+   *             required:
+   *               - name
+   *             properties:
+   *               name:
+   *                 type: string
+   *     responses:
+   *       200:
+   *         description: Passkey renamed
+   *       404:
+   *         description: Passkey not found
+   */
+  async renameCredential(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const result = await this.renameCredentialUseCase.execute(
+        req.user!.userId,
+        req.user!.tenantId,
+        req.params.id,
+        req.body
+      );
+      return ResponseFormatter.success(res, result, 'Passkey renamed successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /api/v1/auth/webauthn/credentials/{id}:
+   *   delete:
+   *     summary: Remove a passkey
+   *     tags: [WebAuthn]
+   *     security:
+   *       - bearerAuth: []
+   *     parameters:
+   *       - in: path
+   *         name: id
+   *         required: true
+   *         schema:
+   *           type: string
+   *     responses:
+   *       200:
+   *         description: Passkey removed
+   *       404:
+   *         description: Passkey not found
+   *       422:
+   *         description: Last second factor while MFA is required by the tenant policy
+   */
+  async deleteCredential(req: RequestWithUser, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      await this.deleteCredentialUseCase.execute(req.user!.userId, req.user!.tenantId, req.params.id);
+      return ResponseFormatter.success(res, null, 'Passkey removed successfully', 200);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
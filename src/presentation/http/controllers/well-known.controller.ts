@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from 'express';
+import { JwtService } from '../../../infrastructure/external/jwt.service';
+import { oidcConfig } from '../../../infrastructure/config/oidc.config';
+import { OAUTH_GRANT_TYPES, PKCE_METHOD_S256, SUPPORTED_OIDC_SCOPES } from '../../../domain/constants/oauth';
+
+export class WellKnownController {
+  /**
+   * @swagger
+   * /.well-known/jwks.json:
+   *   get:
+   *     summary: Public keys for verifying access tokens
+   *     description: JSON Web Key Set (RFC 7517). Tokens name their key in the kid header. Empty when tokens are signed with HS256.
+   *     tags: [Well-Known]
+   *     responses:
+   *       200:
+   *         description: JWKS document
+   *         content:
+   *           application/json:
+   *             schema:
+   *               type: object
+   *               properties:
+   *                 keys:
+   *                   type: array
+   *                   items:
+   *                     type: object
+   */
+  async jwks(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      // Standard JWKS format, not wrapped in the API response envelope
+      res.setHeader('Cache-Control', 'public, max-age=300');
+      return res.status(200).json(JwtService.getJwks());
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * @swagger
+   * /.well-known/openid-configuration:
+   *   get:
+   *     summary: OpenID Connect discovery document
+   *     tags: [Well-Known]
+   *     responses:
+   *       200:
+   *         description: Provider metadata (OpenID Connect Discovery 1.0)
+   */
+  async openidConfiguration(req: Request, res: Response, next: NextFunction): Promise<Response | void> {
+    try {
+      const authBaseUrl = `${oidcConfig.issuer}/api/v1/auth`;
+
+      res.setHeader('Cache-Control', 'public, max-age=300');
+      return res.status(200).json({
+        issuer: oidcConfig.issuer,
+        authorization_endpoint: `${authBaseUrl}/authorize`,
+        token_endpoint: `${authBaseUrl}/token`,
+        userinfo_endpoint: `${authBaseUrl}/userinfo`,
+        jwks_uri: `${oidcConfig.issuer}/.well-known/jwks.json`,
+        response_types_supported: ['code'],
+        grant_types_supported: Object.values(OAUTH_GRANT_TYPES),
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: [JwtService.getSigningAlgorithm()],
+        scopes_supported: SUPPORTED_OIDC_SCOPES,
+        claims_supported: ['sub', 'email', 'name', 'given_name', 'family_name', 'tenant_id', 'roles'],
+        code_challenge_methods_supported: [PKCE_METHOD_S256],
+        token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,126 @@
+import { Response } from 'express';
+import { AuthMiddleware } from '../auth.middleware';
+import { JwtService } from '../../../../infrastructure/external/jwt.service';
+import { container } from '../../../../infrastructure/di/container';
+import { UnauthorizedException } from '../../../../domain/exceptions/domain-exceptions';
+import { JwtPayload, RequestWithUser } from '../../../../shared/types';
+
+jest.mock('../../../../infrastructure/di/container', () => ({
+  container: { get: jest.fn() },
+}));
+
+describe('AuthMiddleware', () => {
+  const payload: JwtPayload = {
+    userId: 'user-1',
+    tenantId: 'tenant-1',
+    email: 'john@example.com',
+    roles: ['editor'],
+    permissions: ['users:read'],
+    isSuperAdmin: false,
+    sessionId: 'session-1',
+  };
+
+  const tokenVersionRepository = {
+    getVersion: jest.fn(),
+    getServiceClientVersion: jest.fn(),
+  };
+  const tokenRepository = { isFamilyActive: jest.fn() };
+
+  const authenticate = async (token: string) => {
+    const req = { headers: { authorization: `Bearer ${token}` } } as unknown as RequestWithUser;
+    const next = jest.fn();
+    await AuthMiddleware.authenticate(req, {} as Response, next);
+    return { req, error: next.mock.calls[0][0] };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    tokenVersionRepository.getVersion.mockResolvedValue(1);
+    tokenRepository.isFamilyActive.mockResolvedValue(true);
+    (container.get as jest.Mock).mockImplementation((key: string) =>
+      key === 'ITokenVersionRepository' ? tokenVersionRepository : tokenRepository
+    );
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should accept a token of the current version and an active session', async () => {
+    const { req, error } = await authenticate(JwtService.generateAccessToken(payload, 1));
+
+    expect(error).toBeUndefined();
+    expect(req.user).toMatchObject({ userId: 'user-1', sessionId: 'session-1' });
+    expect(tokenRepository.isFamilyActive).toHaveBeenCalledWith('session-1');
+  });
+
+  it('should reject a token of a revoked session', async () => {
+    tokenRepository.isFamilyActive.mockResolvedValue(false);
+
+    const { req, error } = await authenticate(JwtService.generateAccessToken(payload, 1));
+
+    expect(error).toBeInstanceOf(UnauthorizedException);
+    expect(req.user).toBeUndefined();
+  });
+
+  describe('token version', () => {
+    it('should reject a token issued before the version was bumped', async () => {
+      tokenVersionRepository.getVersion.mockResolvedValue(2);
+
+      const { req, error } = await authenticate(JwtService.generateAccessToken(payload, 1));
+
+      expect(error).toBeInstanceOf(UnauthorizedException);
+      expect(req.user).toBeUndefined();
+    });
+
+    it('should reject the tokens of a deleted or deprovisioned user', async () => {
+      tokenVersionRepository.getVersion.mockResolvedValue(null);
+
+      const { error } = await authenticate(JwtService.generateAccessToken(payload, 1));
+
+      expect(error).toBeInstanceOf(UnauthorizedException);
+      expect(tokenRepository.isFamilyActive).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('service principals', () => {
+    const servicePayload: JwtPayload = {
+      userId: 'oauth-client-1',
+      tenantId: 'tenant-1',
+      email: '',
+      roles: ['reporting'],
+      permissions: ['users:read'],
+      isSuperAdmin: false,
+      principalType: 'service',
+      clientId: 'reporting-service',
+    };
+
+    it("should check the client's version, not a user's", async () => {
+      tokenVersionRepository.getServiceClientVersion.mockResolvedValue(3);
+
+      const { req, error } = await authenticate(JwtService.generateAccessToken(servicePayload, 3));
+
+      expect(error).toBeUndefined();
+      expect(req.user).toMatchObject({ principalType: 'service', clientId: 'reporting-service' });
+      expect(tokenVersionRepository.getServiceClientVersion).toHaveBeenCalledWith('oauth-client-1');
+      expect(tokenVersionRepository.getVersion).not.toHaveBeenCalled();
+      // Service tokens belong to no session
+      expect(tokenRepository.isFamilyActive).not.toHaveBeenCalled();
+    });
+
+    it('should reject a token issued before the client was rotated or disabled', async () => {
+      tokenVersionRepository.getServiceClientVersion.mockResolvedValue(4);
+
+      const { error } = await authenticate(JwtService.generateAccessToken(servicePayload, 3));
+
+      expect(error).toBeInstanceOf(UnauthorizedException);
+    });
+
+    it('should reject the token of a deleted client', async () => {
+      tokenVersionRepository.getServiceClientVersion.mockResolvedValue(null);
+
+      const { error } = await authenticate(JwtService.generateAccessToken(servicePayload, 1));
+
+      expect(error).toBeInstanceOf(UnauthorizedException);
+    });
+  });
+});
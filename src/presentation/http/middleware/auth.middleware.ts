@@ -1,12 +1,26 @@
 import { Request, Response, NextFunction } from 'express';
 import { JwtService } from '../../../infrastructure/external/jwt.service';
+import { container } from '../../../infrastructure/di/container';
+import { ITokenVersionRepository } from '../../../domain/repositories/itoken-version-repository';
+import { ITokenRepository } from '../../../domain/repositories/itoken-repository';
+import { AuthenticateApiKeyUseCase } from '../../../application/use-cases/api-key/authenticate-api-key.use-case';
 import { RequestWithUser } from '../../../shared/types';
 import { UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
 
 export class AuthMiddleware {
-  static authenticate(req: RequestWithUser, res: Response, next: NextFunction): void {
+  static async authenticate(req: RequestWithUser, res: Response, next: NextFunction): Promise<void> {
     try {
       const authHeader = req.headers.authorization;
+
+      // Tenant API keys are accepted as an alternative to Bearer JWTs
+      const apiKey = req.headers['x-api-key'];
+      if (typeof apiKey === 'string' && !authHeader?.startsWith('Bearer ')) {
+        const authenticateApiKeyUseCase = container.get<AuthenticateApiKeyUseCase>('AuthenticateApiKeyUseCase');
+        req.user = await authenticateApiKeyUseCase.execute(apiKey);
+        req.tenantId = req.user.tenantId || undefined;
+        return next();
+      }
+
       if (!authHeader || !authHeader.startsWith('Bearer ')) {
         console.log('[AUTH] No token provided. Headers:', req.headers);
         throw new UnauthorizedException('No token provided');
@@ -17,6 +31,26 @@ export class AuthMiddleware {
       const payload = JwtService.verifyToken(token);
       console.log('[AUTH] Token verified successfully for user:', payload.userId);
 
+      // Reject tokens issued before the principal's token version was bumped (cache-backed lookup)
+      const tokenVersionRepository = container.get<ITokenVersionRepository>('ITokenVersionRepository');
+      const currentVersion =
+        payload.principalType === 'service'
+          ? await tokenVersionRepository.getServiceClientVersion(payload.userId)
+          : await tokenVersionRepository.getVersion(payload.userId);
+      if (currentVersion === null || (payload.version ?? 1) !== currentVersion) {
+        console.log('[AUTH] Token has been revoked for user:', payload.userId);
+        throw new UnauthorizedException('Token has been revoked');
+      }
+
+      // Tokens of a revoked session are rejected as well, not only its refresh tokens (cache-backed lookup)
+      if (payload.sessionId) {
+        const tokenRepository = container.get<ITokenRepository>('ITokenRepository');
+        if (!(await tokenRepository.isFamilyActive(payload.sessionId))) {
+          console.log('[AUTH] Session has been revoked for user:', payload.userId);
+          throw new UnauthorizedException('Token has been revoked');
+        }
+      }
+
       req.user = payload;
       req.tenantId = payload.tenantId || undefined;
 
@@ -27,4 +61,3 @@ export class AuthMiddleware {
     }
   }
 }
-
@@ -10,6 +10,8 @@ import {
   BusinessRuleException,
   BadRequestException,
   InternalServerException,
+  OAuthException,
+  AccountLockedException,
 } from '../../../domain/exceptions/domain-exceptions';
 import { Prisma } from '@prisma/client';
 
@@ -53,6 +55,19 @@ export class ErrorHandler {
       return ErrorHandler.handlePrismaValidationError(err, res);
     }
 
+    // OAuth clients expect the RFC 6749 error format
+    if (err instanceof OAuthException) {
+      res.setHeader('Cache-Control', 'no-store');
+      return res.status(err.statusCode).json({
+        error: err.error,
+        error_description: err.message,
+      });
+    }
+
+    if (err instanceof AccountLockedException) {
+      res.setHeader('Retry-After', String(err.getRetryAfterSeconds()));
+    }
+
     // Handle Domain Exceptions
     if (err instanceof DomainException) {
       return ResponseFormatter.error(
@@ -60,7 +75,8 @@ export class ErrorHandler {
         err.message,
         err.statusCode,
         err.errors || [err.message],
-        process.env.NODE_ENV === 'development' ? err.stack?.split('\n') : undefined
+        process.env.NODE_ENV === 'development' ? err.stack?.split('\n') : undefined,
+        err.code
       );
     }
 
@@ -1,5 +1,6 @@
 import rateLimit, { MemoryStore, Options } from 'express-rate-limit';
 import { RedisRateLimitStore, getAuthRateLimitStore, getGeneralRateLimitStore, getStrictRateLimitStore } from '../../../infrastructure/rate-limit/redis-rate-limit-store';
+import { SCIM_CONTENT_TYPE, SCIM_SCHEMAS } from '../../../domain/constants/scim';
 
 // Rate limit configuration from environment variables with defaults
 const RATE_LIMIT_WINDOW_MS = parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10); // 15 minutes
@@ -238,6 +239,30 @@ export const docsRateLimiter = DISABLE_RATE_LIMITING
       }),
     });
 
+/**
+ * Rate limiter for the SCIM provisioning endpoints
+ * Default: 600 requests per minute; identity providers sync whole directories in bursts
+ * Responds with a SCIM error, which is what SCIM clients parse
+ */
+export const scimRateLimiter = DISABLE_RATE_LIMITING
+  ? (req: any, res: any, next: any) => next()
+  : rateLimit({
+      windowMs: 60000, // 1 minute
+      max: parseInt(process.env.RATE_LIMIT_SCIM_MAX_REQUESTS || '600', 10),
+      standardHeaders: true,
+      legacyHeaders: false,
+      handler: (req, res) => {
+        res.status(429).type(SCIM_CONTENT_TYPE).json({
+          schemas: [SCIM_SCHEMAS.ERROR],
+          status: '429',
+          detail: 'Too many requests, please try again later',
+        });
+      },
+      ...(USE_REDIS_STORE && {
+        store: createStoreAdapter(getGeneralRateLimitStore()),
+      }),
+    });
+
 /**
  * Get rate limit statistics
  * Useful for monitoring and debugging
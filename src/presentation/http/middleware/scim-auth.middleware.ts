@@ -0,0 +1,27 @@
+import { Response, NextFunction } from 'express';
+import { container } from '../../../infrastructure/di/container';
+import { AuthenticateScimTokenUseCase } from '../../../application/use-cases/scim/authenticate-scim-token.use-case';
+import { RequestWithUser } from '../../../shared/types';
+import { UnauthorizedException } from '../../../domain/exceptions/domain-exceptions';
+
+export class ScimAuthMiddleware {
+  /**
+   * Authenticate a SCIM client by its tenant SCIM token
+   * SCIM requests have no user; only req.tenantId is set
+   */
+  static async authenticate(req: RequestWithUser, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const authHeader = req.headers.authorization;
+      if (!authHeader || !authHeader.startsWith('Bearer ')) {
+        throw new UnauthorizedException('No SCIM token provided');
+      }
+
+      const authenticateScimTokenUseCase = container.get<AuthenticateScimTokenUseCase>('AuthenticateScimTokenUseCase');
+      req.tenantId = await authenticateScimTokenUseCase.execute(authHeader.substring(7).trim());
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  }
+}
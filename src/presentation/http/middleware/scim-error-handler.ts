@@ -0,0 +1,59 @@
+import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import {
+  DomainException,
+  ScimException,
+  ValidationException,
+} from '../../../domain/exceptions/domain-exceptions';
+import { SCIM_CONTENT_TYPE, SCIM_SCHEMAS, SCIM_ERROR_TYPES, ScimErrorType } from '../../../domain/constants/scim';
+import { Logger } from '../../../infrastructure/logging/logger';
+
+/**
+ * Renders errors of the SCIM endpoints as SCIM error responses (RFC 7644 section 3.12)
+ * SCIM clients do not understand the API response envelope, so this handler ends the SCIM router
+ */
+export class ScimErrorHandler {
+  static handle(err: Error, req: Request, res: Response, next: NextFunction): Response {
+    let status = 500;
+    let scimType: ScimErrorType | null = null;
+    let detail = 'An internal server error occurred';
+
+    if (err instanceof ScimException) {
+      status = err.statusCode;
+      scimType = err.scimType;
+      detail = err.message;
+    } else if (err instanceof ValidationException) {
+      status = 400;
+      scimType = SCIM_ERROR_TYPES.INVALID_VALUE;
+      detail = err.errors?.join('; ') || err.message;
+    } else if (err instanceof DomainException) {
+      status = err.statusCode;
+      detail = err.message;
+    } else if (err instanceof Prisma.PrismaClientKnownRequestError && err.code === 'P2002') {
+      // A concurrent request created the same userName, externalId or displayName
+      status = 409;
+      scimType = SCIM_ERROR_TYPES.UNIQUENESS;
+      detail = 'A resource with the same unique attribute already exists';
+    } else if ((err as any).type === 'entity.parse.failed') {
+      status = 400;
+      scimType = SCIM_ERROR_TYPES.INVALID_SYNTAX;
+      detail = 'Request body is not valid JSON';
+    }
+
+    if (status >= 500) {
+      Logger.error('SCIM request failed', err, { url: req.url, method: req.method });
+    } else {
+      Logger.warn('SCIM request rejected', { url: req.url, method: req.method, status, scimType, detail });
+    }
+
+    return res
+      .status(status)
+      .type(SCIM_CONTENT_TYPE)
+      .json({
+        schemas: [SCIM_SCHEMAS.ERROR],
+        status: String(status),
+        ...(scimType && { scimType }),
+        detail,
+      });
+  }
+}
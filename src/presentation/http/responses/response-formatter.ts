@@ -30,12 +30,14 @@ export class ResponseFormatter {
     message: string,
     statusCode: number = 500,
     errors?: string[],
-    stackTrace?: string[]
+    stackTrace?: string[],
+    code?: string
   ): Response {
     const response: ApiResponse = {
       success: false,
       message,
       statusCode,
+      code,
       errors,
       stackTrace: process.env.NODE_ENV === 'development' ? stackTrace : undefined,
     };
@@ -0,0 +1,53 @@
+/**
+ * SCIM Routes
+ *
+ * SCIM 2.0 provisioning endpoints, mounted at /scim/v2 where identity providers expect them.
+ * Requests authenticate with a tenant SCIM token and get SCIM error responses.
+ */
+
+import express, { Router } from 'express';
+import { ScimController } from '../controllers/scim.controller';
+import { ScimAuthMiddleware } from '../middleware/scim-auth.middleware';
+import { ScimErrorHandler } from '../middleware/scim-error-handler';
+import { scimRateLimiter } from '../middleware/rate-limit.middleware';
+import { SCIM_CONTENT_TYPE } from '../../../domain/constants/scim';
+
+export function createScimRoutes(): Router {
+  const router = Router();
+  const scimController = new ScimController();
+
+  // SCIM clients send application/scim+json, which the global JSON parser skips
+  router.use(express.json({ type: SCIM_CONTENT_TYPE, limit: '1mb' }));
+  router.use(scimRateLimiter);
+  router.use(ScimAuthMiddleware.authenticate);
+
+  router.get('/ServiceProviderConfig', scimController.getServiceProviderConfig.bind(scimController));
+
+  /**
+   * @route   /scim/v2/Users
+   * @desc    Tenant users; DELETE and active=false deprovision
+   * @access  SCIM token
+   */
+  router.get('/Users', scimController.getUsers.bind(scimController));
+  router.post('/Users', scimController.createUser.bind(scimController));
+  router.get('/Users/:id', scimController.getUser.bind(scimController));
+  router.put('/Users/:id', scimController.replaceUser.bind(scimController));
+  router.patch('/Users/:id', scimController.patchUser.bind(scimController));
+  router.delete('/Users/:id', scimController.deleteUser.bind(scimController));
+
+  /**
+   * @route   /scim/v2/Groups
+   * @desc    Tenant roles and the users holding them
+   * @access  SCIM token
+   */
+  router.get('/Groups', scimController.getGroups.bind(scimController));
+  router.post('/Groups', scimController.createGroup.bind(scimController));
+  router.get('/Groups/:id', scimController.getGroup.bind(scimController));
+  router.put('/Groups/:id', scimController.replaceGroup.bind(scimController));
+  router.patch('/Groups/:id', scimController.patchGroup.bind(scimController));
+  router.delete('/Groups/:id', scimController.deleteGroup.bind(scimController));
+
+  router.use(ScimErrorHandler.handle);
+
+  return router;
+}
@@ -12,6 +12,7 @@ export function createUserProfileRoutes(): Router {
   router.use(TenantMiddleware.extractTenant);
 
   router.get('/:userId', generalRateLimiter, userProfileController.getByUserId.bind(userProfileController));
+  router.get('/:userId/identities', generalRateLimiter, userProfileController.getIdentities.bind(userProfileController));
   router.post('/:userId', generalRateLimiter, userProfileController.create.bind(userProfileController));
   router.put('/:userId', generalRateLimiter, userProfileController.update.bind(userProfileController));
 
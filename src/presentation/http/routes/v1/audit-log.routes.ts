@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { AuditLogController } from '../../controllers/audit-log.controller';
+import { AuthMiddleware } from '../../middleware/auth.middleware';
+import { AdminMiddleware } from '../../middleware/admin.middleware';
+import { ValidationMiddleware } from '../../middleware/validation.middleware';
+import { generalRateLimiter } from '../../middleware/rate-limit.middleware';
+import { listAuditLogsValidator } from '../../validators/audit-log.validator';
+
+/**
+ * Audit log routes
+ * One endpoint serves both views: the use case scopes tenant admins to their tenant
+ */
+export function createAuditLogRoutes(): Router {
+  const router = Router();
+  const auditLogController = new AuditLogController();
+
+  router.use(AuthMiddleware.authenticate);
+
+  router.get(
+    '/',
+    generalRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(listAuditLogsValidator),
+    auditLogController.getAll.bind(auditLogController)
+  );
+
+  return router;
+}
@@ -1,7 +1,8 @@
 import { Router } from 'express';
 import { AuthController } from '../../controllers/auth.controller';
 import { ValidationMiddleware } from '../../middleware/validation.middleware';
-import { authRateLimiter } from '../../middleware/rate-limit.middleware';
+import { authRateLimiter, generalRateLimiter, strictRateLimiter } from '../../middleware/rate-limit.middleware';
+import { AuthMiddleware } from '../../middleware/auth.middleware';
 import {
   onboardValidator,
   registerValidator,
@@ -9,6 +10,13 @@ import {
   refreshTokenValidator,
   forgotPasswordValidator,
   resetPasswordValidator,
+  changeExpiredPasswordValidator,
+  changePasswordValidator,
+  verifyEmailValidator,
+  resendVerificationEmailValidator,
+  passwordPolicyValidator,
+  magicLinkRequestValidator,
+  magicLinkLoginValidator,
 } from '../../validators/auth.validator';
 
 export function createAuthRoutes(): Router {
@@ -36,6 +44,20 @@ export function createAuthRoutes(): Router {
     authController.login.bind(authController)
   );
 
+  router.post(
+    '/magic-link',
+    authRateLimiter,
+    ValidationMiddleware.validate(magicLinkRequestValidator),
+    authController.requestMagicLink.bind(authController)
+  );
+
+  router.post(
+    '/magic-link/verify',
+    authRateLimiter,
+    ValidationMiddleware.validate(magicLinkLoginValidator),
+    authController.magicLinkLogin.bind(authController)
+  );
+
   router.post(
     '/refresh',
     authRateLimiter,
@@ -66,6 +88,49 @@ export function createAuthRoutes(): Router {
     authController.resetPassword.bind(authController)
   );
 
+  router.post(
+    '/change-password',
+    strictRateLimiter,
+    AuthMiddleware.authenticate,
+    ValidationMiddleware.validate(changePasswordValidator),
+    authController.changePassword.bind(authController)
+  );
+
+  router.get(
+    '/password-policy',
+    generalRateLimiter,
+    ValidationMiddleware.validate(passwordPolicyValidator),
+    authController.getPasswordPolicy.bind(authController)
+  );
+
+  router.post(
+    '/expired-password',
+    authRateLimiter,
+    ValidationMiddleware.validate(changeExpiredPasswordValidator),
+    authController.changeExpiredPassword.bind(authController)
+  );
+
+  router.post(
+    '/verify-email',
+    authRateLimiter,
+    ValidationMiddleware.validate(verifyEmailValidator),
+    authController.verifyEmail.bind(authController)
+  );
+
+  router.post(
+    '/verify-email/resend',
+    authRateLimiter,
+    ValidationMiddleware.validate(resendVerificationEmailValidator),
+    authController.resendVerificationEmail.bind(authController)
+  );
+
+  router.post(
+    '/verify-email/send',
+    strictRateLimiter,
+    AuthMiddleware.authenticate,
+    authController.sendVerificationEmail.bind(authController)
+  );
+
   return router;
 }
 
@@ -1,13 +1,21 @@
 import { Router } from 'express';
 import { createAuthRoutes } from './auth.routes';
+import { createMfaRoutes } from './mfa.routes';
+import { createWebAuthnRoutes } from './webauthn.routes';
+import { createSsoRoutes } from './sso.routes';
+import { createSessionRoutes } from './session.routes';
+import { createOAuthRoutes } from './oauth.routes';
 import { createUserRoutes } from './user.routes';
 import { createUserProfileRoutes } from '../user-profile.routes';
 import { createRoleRoutes } from './role.routes';
 import { createPermissionRoutes } from './permission.routes';
 import { createTenantRoutes } from './tenant.routes';
+import { createInvitationRoutes } from './invitation.routes';
+import { createAuditLogRoutes } from './audit-log.routes';
 import { createRoleSuperAdminRoutes } from './role-super-admin.routes';
 import { createUserPermissionsRoutes } from './user-permissions.routes';
 import { createHealthRoutes } from './health.routes';
+import { oidcConfig } from '../../../../infrastructure/config/oidc.config';
 import healthCheckRoutes from './health-check.routes';
 
 export function createV1Routes(): Router {
@@ -17,6 +25,14 @@ export function createV1Routes(): Router {
   router.use('/health', createHealthRoutes());
   router.use(healthCheckRoutes); // New health check routes
   router.use('/auth', createAuthRoutes());
+  router.use('/auth/mfa', createMfaRoutes());
+  router.use('/auth/webauthn', createWebAuthnRoutes());
+  router.use('/auth/sso', createSsoRoutes());
+  router.use('/auth/sessions', createSessionRoutes());
+  // The OpenID Connect provider is only served when ID tokens can be signed with the keyset
+  if (oidcConfig.enabled) {
+    router.use('/auth', createOAuthRoutes());
+  }
   router.use('/users', createUserRoutes());
   router.use('/user-profiles', createUserProfileRoutes());
   router.use('/user/permissions', createUserPermissionsRoutes());
@@ -24,6 +40,8 @@ export function createV1Routes(): Router {
   router.use('/roles', createRoleSuperAdminRoutes());
   router.use('/permissions', createPermissionRoutes());
   router.use('/tenants', createTenantRoutes());
+  router.use('/invitations', createInvitationRoutes());
+  router.use('/audit-logs', createAuditLogRoutes());
 
   return router;
 }
@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import { InvitationController } from '../../controllers/invitation.controller';
+import { ValidationMiddleware } from '../../middleware/validation.middleware';
+import { authRateLimiter } from '../../middleware/rate-limit.middleware';
+import { acceptInvitationValidator, invitationTokenValidator } from '../../validators/invitation.validator';
+
+/**
+ * Public invitation routes (the invitee has no account yet)
+ * Admin routes live under /tenants/:id/invitations
+ */
+export function createInvitationRoutes(): Router {
+  const router = Router();
+  const invitationController = new InvitationController();
+
+  router.post(
+    '/preview',
+    authRateLimiter,
+    ValidationMiddleware.validate(invitationTokenValidator),
+    invitationController.preview.bind(invitationController)
+  );
+
+  router.post(
+    '/accept',
+    authRateLimiter,
+    ValidationMiddleware.validate(acceptInvitationValidator),
+    invitationController.accept.bind(invitationController)
+  );
+
+  return router;
+}
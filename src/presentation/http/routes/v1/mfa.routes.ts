@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { MfaController } from '../../controllers/mfa.controller';
+import { AuthMiddleware } from '../../middleware/auth.middleware';
+import { ValidationMiddleware } from '../../middleware/validation.middleware';
+import { authRateLimiter, generalRateLimiter, strictRateLimiter } from '../../middleware/rate-limit.middleware';
+import {
+  mfaCodeValidator,
+  mfaLoginValidator,
+  mfaEnrollmentStartValidator,
+  mfaEnrollmentCompleteValidator,
+} from '../../validators/auth.validator';
+
+export function createMfaRoutes(): Router {
+  const router = Router();
+  const mfaController = new MfaController();
+
+  // Second login step (authenticated by the challenge token, not a bearer token)
+  router.post(
+    '/login',
+    authRateLimiter,
+    ValidationMiddleware.validate(mfaLoginValidator),
+    mfaController.login.bind(mfaController)
+  );
+
+  // Forced enrollment when the tenant policy requires MFA (authenticated by the enrollment challenge token)
+  router.post(
+    '/enrollment/start',
+    authRateLimiter,
+    ValidationMiddleware.validate(mfaEnrollmentStartValidator),
+    mfaController.startRequiredEnrollment.bind(mfaController)
+  );
+
+  router.post(
+    '/enrollment/complete',
+    authRateLimiter,
+    ValidationMiddleware.validate(mfaEnrollmentCompleteValidator),
+    mfaController.completeRequiredEnrollment.bind(mfaController)
+  );
+
+  router.post(
+    '/enroll',
+    AuthMiddleware.authenticate,
+    strictRateLimiter,
+    mfaController.enroll.bind(mfaController)
+  );
+
+  router.post(
+    '/verify',
+    AuthMiddleware.authenticate,
+    strictRateLimiter,
+    ValidationMiddleware.validate(mfaCodeValidator),
+    mfaController.activate.bind(mfaController)
+  );
+
+  router.post(
+    '/disable',
+    AuthMiddleware.authenticate,
+    strictRateLimiter,
+    ValidationMiddleware.validate(mfaCodeValidator),
+    mfaController.disable.bind(mfaController)
+  );
+
+  router.get(
+    '/recovery-codes',
+    AuthMiddleware.authenticate,
+    generalRateLimiter,
+    mfaController.getRecoveryCodeStatus.bind(mfaController)
+  );
+
+  router.post(
+    '/recovery-codes',
+    AuthMiddleware.authenticate,
+    strictRateLimiter,
+    ValidationMiddleware.validate(mfaCodeValidator),
+    mfaController.regenerateRecoveryCodes.bind(mfaController)
+  );
+
+  return router;
+}
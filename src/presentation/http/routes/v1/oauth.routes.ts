@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { OAuthController } from '../../controllers/oauth.controller';
+import { AuthMiddleware } from '../../middleware/auth.middleware';
+import { authRateLimiter, generalRateLimiter, strictRateLimiter } from '../../middleware/rate-limit.middleware';
+
+export function createOAuthRoutes(): Router {
+  const router = Router();
+  const oauthController = new OAuthController();
+
+  router.get('/authorize', generalRateLimiter, oauthController.startAuthorization.bind(oauthController));
+  router.post(
+    '/authorize',
+    strictRateLimiter,
+    AuthMiddleware.authenticate,
+    oauthController.authorize.bind(oauthController)
+  );
+  router.post('/token', authRateLimiter, oauthController.token.bind(oauthController));
+  router.get(
+    '/userinfo',
+    generalRateLimiter,
+    AuthMiddleware.authenticate,
+    oauthController.userInfo.bind(oauthController)
+  );
+
+  return router;
+}
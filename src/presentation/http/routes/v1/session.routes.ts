@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { SessionController } from '../../controllers/session.controller';
+import { AuthMiddleware } from '../../middleware/auth.middleware';
+import { generalRateLimiter, strictRateLimiter } from '../../middleware/rate-limit.middleware';
+
+export function createSessionRoutes(): Router {
+  const router = Router();
+  const sessionController = new SessionController();
+
+  router.use(AuthMiddleware.authenticate);
+
+  router.get('/', generalRateLimiter, sessionController.getMySessions.bind(sessionController));
+  router.delete('/', strictRateLimiter, sessionController.revokeMyOtherSessions.bind(sessionController));
+  router.delete('/:id', strictRateLimiter, sessionController.revokeMySession.bind(sessionController));
+
+  return router;
+}
@@ -0,0 +1,76 @@
+import { Router } from 'express';
+import cookieParser from 'cookie-parser';
+import { SsoController } from '../../controllers/sso.controller';
+import { ValidationMiddleware } from '../../middleware/validation.middleware';
+import { authRateLimiter, generalRateLimiter } from '../../middleware/rate-limit.middleware';
+import {
+  samlLoginValidator,
+  samlTenantValidator,
+  samlAcsValidator,
+  ssoLoginCodeValidator,
+  ssoLoginOptionsValidator,
+  oidcLoginValidator,
+  oidcCallbackValidator,
+} from '../../validators/auth.validator';
+
+export function createSsoRoutes(): Router {
+  const router = Router();
+  const ssoController = new SsoController();
+
+  // Callbacks read the cookie that binds a login to the browser that started it
+  router.use(cookieParser());
+
+  // Registered before the /saml/:tenantId routes
+  router.get(
+    '/saml/login',
+    authRateLimiter,
+    ValidationMiddleware.validate(samlLoginValidator),
+    ssoController.startSamlLogin.bind(ssoController)
+  );
+
+  router.get(
+    '/saml/:tenantId/metadata',
+    generalRateLimiter,
+    ValidationMiddleware.validate(samlTenantValidator),
+    ssoController.getSamlMetadata.bind(ssoController)
+  );
+
+  // Posted by the browser from the IdP (HTTP-POST binding, form encoded)
+  router.post(
+    '/saml/:tenantId/acs',
+    authRateLimiter,
+    ValidationMiddleware.validate(samlAcsValidator),
+    ssoController.samlAcs.bind(ssoController)
+  );
+
+  router.get(
+    '/options',
+    generalRateLimiter,
+    ValidationMiddleware.validate(ssoLoginOptionsValidator),
+    ssoController.getLoginOptions.bind(ssoController)
+  );
+
+  router.get(
+    '/oidc/login',
+    authRateLimiter,
+    ValidationMiddleware.validate(oidcLoginValidator),
+    ssoController.startOidcLogin.bind(ssoController)
+  );
+
+  // Redirect URI for every OIDC connector; the state identifies the login
+  router.get(
+    '/oidc/callback',
+    authRateLimiter,
+    ValidationMiddleware.validate(oidcCallbackValidator),
+    ssoController.oidcCallback.bind(ssoController)
+  );
+
+  router.post(
+    '/exchange',
+    authRateLimiter,
+    ValidationMiddleware.validate(ssoLoginCodeValidator),
+    ssoController.exchangeCode.bind(ssoController)
+  );
+
+  return router;
+}
@@ -1,16 +1,373 @@
 import { Router } from 'express';
 import { TenantController } from '../../controllers/tenant.controller';
+import { OAuthClientController } from '../../controllers/oauth-client.controller';
+import { ApiKeyController } from '../../controllers/api-key.controller';
+import { ScimTokenController } from '../../controllers/scim-token.controller';
+import { EmailTemplateController } from '../../controllers/email-template.controller';
+import { InvitationController } from '../../controllers/invitation.controller';
 import { AuthMiddleware } from '../../middleware/auth.middleware';
 import { SuperAdminMiddleware } from '../../middleware/super-admin.middleware';
+import { AdminMiddleware } from '../../middleware/admin.middleware';
 import { ValidationMiddleware } from '../../middleware/validation.middleware';
 import { generalRateLimiter, strictRateLimiter } from '../../middleware/rate-limit.middleware';
 import { body } from 'express-validator';
+import { MFA_POLICY_VALUES } from '../../../../domain/constants/mfa-policies';
+import { passwordPolicy } from '../../../../config/password-policy.config';
+import {
+  createOAuthClientValidator,
+  createServiceClientValidator,
+  updateServiceClientRolesValidator,
+} from '../../validators/oauth.validator';
+import { createApiKeyValidator } from '../../validators/api-key.validator';
+import { createScimTokenValidator } from '../../validators/scim.validator';
+import {
+  createOidcConnectorValidator,
+  updateOidcConnectorValidator,
+  oidcConnectorIdValidator,
+} from '../../validators/sso.validator';
+import {
+  emailTemplateTypeValidator,
+  updateEmailTemplateValidator,
+} from '../../validators/email-template.validator';
+import { createInvitationValidator, listInvitationsValidator } from '../../validators/invitation.validator';
 
 export function createTenantRoutes(): Router {
   const router = Router();
   const tenantController = new TenantController();
+  const oauthClientController = new OAuthClientController();
+  const apiKeyController = new ApiKeyController();
+  const scimTokenController = new ScimTokenController();
+  const emailTemplateController = new EmailTemplateController();
+  const invitationController = new InvitationController();
 
   router.use(AuthMiddleware.authenticate);
+
+  // Security settings are also managed by the tenant's own admins
+  router.get(
+    '/:id/security-settings',
+    generalRateLimiter,
+    AdminMiddleware.requireAdmin,
+    tenantController.getSecuritySettings.bind(tenantController)
+  );
+  router.put(
+    '/:id/security-settings',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate([
+      body('mfaPolicy')
+        .optional()
+        .isIn(MFA_POLICY_VALUES)
+        .withMessage(`MFA policy must be one of: ${MFA_POLICY_VALUES.join(', ')}`),
+      body('requireEmailVerification')
+        .optional()
+        .isBoolean({ strict: true })
+        .withMessage('requireEmailVerification must be a boolean'),
+      body('lockoutThreshold')
+        .optional()
+        .isInt({ min: 0, max: 100 })
+        .withMessage('lockoutThreshold must be an integer between 0 (disabled) and 100')
+        .toInt(),
+      body('lockoutDurationSeconds')
+        .optional()
+        .isInt({ min: 60, max: 86400 })
+        .withMessage('lockoutDurationSeconds must be an integer between 60 and 86400')
+        .toInt(),
+      body('lockoutMaxDurationSeconds')
+        .optional()
+        .isInt({ min: 60, max: 2592000 })
+        .withMessage('lockoutMaxDurationSeconds must be an integer between 60 and 2592000')
+        .toInt(),
+      body('magicLinkEnabled')
+        .optional()
+        .isBoolean({ strict: true })
+        .withMessage('magicLinkEnabled must be a boolean'),
+    ]),
+    tenantController.updateSecuritySettings.bind(tenantController)
+  );
+
+  // Password policy overrides; unset fields follow the global policy
+  router.get(
+    '/:id/password-policy',
+    generalRateLimiter,
+    AdminMiddleware.requireAdmin,
+    tenantController.getPasswordPolicy.bind(tenantController)
+  );
+  router.put(
+    '/:id/password-policy',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate([
+      body('minLength')
+        .optional({ nullable: true })
+        .isInt({ min: 6, max: passwordPolicy.maxLength })
+        .withMessage(`minLength must be an integer between 6 and ${passwordPolicy.maxLength}`)
+        .toInt(),
+      body(['requireUppercase', 'requireLowercase', 'requireNumber', 'requireSpecialChar'])
+        .optional({ nullable: true })
+        .isBoolean({ strict: true })
+        .withMessage('Character requirements must be booleans'),
+      body('maxHistory')
+        .optional({ nullable: true })
+        .isInt({ min: 0, max: 24 })
+        .withMessage('maxHistory must be an integer between 0 (disabled) and 24')
+        .toInt(),
+      body('expiryDays')
+        .optional({ nullable: true })
+        .isInt({ min: 0, max: 3650 })
+        .withMessage('expiryDays must be an integer between 0 (never) and 3650')
+        .toInt(),
+      body('bannedWords')
+        .optional({ nullable: true })
+        .isArray({ max: 100 })
+        .withMessage('bannedWords must be an array of at most 100 words'),
+      body('bannedWords.*')
+        .isString()
+        .trim()
+        .isLength({ min: 3, max: 64 })
+        .withMessage('Banned words must be 3-64 characters'),
+    ]),
+    tenantController.updatePasswordPolicy.bind(tenantController)
+  );
+  router.delete(
+    '/:id/password-policy',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    tenantController.resetPasswordPolicy.bind(tenantController)
+  );
+
+  // SAML identity provider of the tenant
+  router.get(
+    '/:id/sso/saml',
+    generalRateLimiter,
+    AdminMiddleware.requireAdmin,
+    tenantController.getSamlConfig.bind(tenantController)
+  );
+  router.put(
+    '/:id/sso/saml',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate([
+      body(['enabled', 'jitProvisioning', 'disablePasswordLogin'])
+        .optional()
+        .isBoolean({ strict: true })
+        .withMessage('enabled, jitProvisioning and disablePasswordLogin must be booleans'),
+      body('idpMetadataXml')
+        .optional()
+        .isString()
+        .isLength({ min: 1, max: 100000 })
+        .withMessage('idpMetadataXml must be an XML document of at most 100000 characters'),
+      body('idpEntityId')
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 1024 })
+        .withMessage('idpEntityId must be between 1 and 1024 characters'),
+      body('idpSsoUrl')
+        .optional()
+        .isURL({ protocols: ['https', 'http'], require_tld: false })
+        .withMessage('idpSsoUrl must be a valid URL'),
+      body('idpCertificates')
+        .optional()
+        .isArray({ min: 1, max: 5 })
+        .withMessage('idpCertificates must be an array of 1 to 5 certificates'),
+      body('idpCertificates.*')
+        .isString()
+        .isLength({ max: 10000 })
+        .withMessage('Certificates must be PEM or base64 encoded'),
+      body('attributeMapping')
+        .optional()
+        .isObject()
+        .withMessage('attributeMapping must be an object'),
+      body(['attributeMapping.email', 'attributeMapping.firstName', 'attributeMapping.lastName'])
+        .optional()
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: 255 })
+        .withMessage('Attribute names must be between 1 and 255 characters'),
+      body('defaultRoleId')
+        .optional({ nullable: true })
+        .isUUID()
+        .withMessage('defaultRoleId must be a role ID'),
+    ]),
+    tenantController.updateSamlConfig.bind(tenantController)
+  );
+  router.delete(
+    '/:id/sso/saml',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    tenantController.deleteSamlConfig.bind(tenantController)
+  );
+
+  // OpenID Connect providers (Google, Microsoft, any OIDC issuer) of the tenant
+  router.get(
+    '/:id/sso/oidc',
+    generalRateLimiter,
+    AdminMiddleware.requireAdmin,
+    tenantController.getOidcConnectors.bind(tenantController)
+  );
+  router.post(
+    '/:id/sso/oidc',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(createOidcConnectorValidator),
+    tenantController.createOidcConnector.bind(tenantController)
+  );
+  router.put(
+    '/:id/sso/oidc/:connectorId',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(updateOidcConnectorValidator),
+    tenantController.updateOidcConnector.bind(tenantController)
+  );
+  router.delete(
+    '/:id/sso/oidc/:connectorId',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(oidcConnectorIdValidator),
+    tenantController.deleteOidcConnector.bind(tenantController)
+  );
+
+  // OAuth/OIDC clients (relying parties) of the tenant
+  router.get(
+    '/:id/oauth-clients',
+    generalRateLimiter,
+    AdminMiddleware.requireAdmin,
+    oauthClientController.getAll.bind(oauthClientController)
+  );
+  router.post(
+    '/:id/oauth-clients',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(createOAuthClientValidator),
+    oauthClientController.create.bind(oauthClientController)
+  );
+  router.delete(
+    '/:id/oauth-clients/:clientId',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    oauthClientController.delete.bind(oauthClientController)
+  );
+
+  // Service clients (client_credentials grant) are OAuth clients acting on their own behalf
+  router.get(
+    '/:id/service-clients',
+    generalRateLimiter,
+    AdminMiddleware.requireAdmin,
+    oauthClientController.getServiceClients.bind(oauthClientController)
+  );
+  router.post(
+    '/:id/service-clients',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(createServiceClientValidator),
+    oauthClientController.createServiceClient.bind(oauthClientController)
+  );
+  router.put(
+    '/:id/service-clients/:clientId/roles',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(updateServiceClientRolesValidator),
+    oauthClientController.updateServiceClientRoles.bind(oauthClientController)
+  );
+  router.delete(
+    '/:id/service-clients/:clientId',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    oauthClientController.delete.bind(oauthClientController)
+  );
+
+  // API keys (X-API-Key header)
+  router.get(
+    '/:id/api-keys',
+    generalRateLimiter,
+    AdminMiddleware.requireAdmin,
+    apiKeyController.getAll.bind(apiKeyController)
+  );
+  router.post(
+    '/:id/api-keys',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(createApiKeyValidator),
+    apiKeyController.create.bind(apiKeyController)
+  );
+  router.delete(
+    '/:id/api-keys/:keyId',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    apiKeyController.revoke.bind(apiKeyController)
+  );
+
+  // SCIM tokens (bearer tokens of the tenant's identity provider for /scim/v2)
+  router.get(
+    '/:id/scim-tokens',
+    generalRateLimiter,
+    AdminMiddleware.requireAdmin,
+    scimTokenController.getAll.bind(scimTokenController)
+  );
+  router.post(
+    '/:id/scim-tokens',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(createScimTokenValidator),
+    scimTokenController.create.bind(scimTokenController)
+  );
+  router.delete(
+    '/:id/scim-tokens/:tokenId',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    scimTokenController.revoke.bind(scimTokenController)
+  );
+
+  // Email templates (per-tenant overrides of the built-in messages)
+  router.get(
+    '/:id/email-templates',
+    generalRateLimiter,
+    AdminMiddleware.requireAdmin,
+    emailTemplateController.getAll.bind(emailTemplateController)
+  );
+  router.put(
+    '/:id/email-templates/:type',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(updateEmailTemplateValidator),
+    emailTemplateController.update.bind(emailTemplateController)
+  );
+  router.delete(
+    '/:id/email-templates/:type',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(emailTemplateTypeValidator),
+    emailTemplateController.reset.bind(emailTemplateController)
+  );
+
+  // Invitations (the invitee chooses their own password)
+  router.get(
+    '/:id/invitations',
+    generalRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(listInvitationsValidator),
+    invitationController.getAll.bind(invitationController)
+  );
+  router.post(
+    '/:id/invitations',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    ValidationMiddleware.validate(createInvitationValidator),
+    invitationController.create.bind(invitationController)
+  );
+  router.post(
+    '/:id/invitations/:invitationId/resend',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    invitationController.resend.bind(invitationController)
+  );
+  router.delete(
+    '/:id/invitations/:invitationId',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    invitationController.revoke.bind(invitationController)
+  );
+
   router.use(SuperAdminMiddleware.requireSuperAdmin);
 
   router.get('/', generalRateLimiter, tenantController.getAll.bind(tenantController));
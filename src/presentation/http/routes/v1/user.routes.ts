@@ -1,7 +1,9 @@
 import { Router } from 'express';
 import { UserController } from '../../controllers/user.controller';
+import { SessionController } from '../../controllers/session.controller';
 import { AuthMiddleware } from '../../middleware/auth.middleware';
 import { TenantMiddleware } from '../../middleware/tenant.middleware';
+import { AdminMiddleware } from '../../middleware/admin.middleware';
 import { ValidationMiddleware } from '../../middleware/validation.middleware';
 import { generalRateLimiter, strictRateLimiter } from '../../middleware/rate-limit.middleware';
 import { createUserValidator, updateUserValidator } from '../../validators/user.validator';
@@ -9,6 +11,7 @@ import { createUserValidator, updateUserValidator } from '../../validators/user.
 export function createUserRoutes(): Router {
   const router = Router();
   const userController = new UserController();
+  const sessionController = new SessionController();
 
   router.use(AuthMiddleware.authenticate);
   // Tenant middleware allows super admin to bypass
@@ -30,6 +33,32 @@ export function createUserRoutes(): Router {
     userController.update.bind(userController)
   );
   router.delete('/:id', strictRateLimiter, userController.delete.bind(userController));
+  router.post(
+    '/:id/unlock',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    userController.unlock.bind(userController)
+  );
+
+  // Session management for users of the admin's tenant
+  router.get(
+    '/:id/sessions',
+    generalRateLimiter,
+    AdminMiddleware.requireAdmin,
+    sessionController.getUserSessions.bind(sessionController)
+  );
+  router.delete(
+    '/:id/sessions',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    sessionController.revokeUserSessions.bind(sessionController)
+  );
+  router.delete(
+    '/:id/sessions/:sessionId',
+    strictRateLimiter,
+    AdminMiddleware.requireAdmin,
+    sessionController.revokeUserSession.bind(sessionController)
+  );
 
   return router;
 }
@@ -0,0 +1,87 @@
+import { Router } from 'express';
+import { WebAuthnController } from '../../controllers/webauthn.controller';
+import { AuthMiddleware } from '../../middleware/auth.middleware';
+import { ValidationMiddleware } from '../../middleware/validation.middleware';
+import { authRateLimiter, generalRateLimiter, strictRateLimiter } from '../../middleware/rate-limit.middleware';
+import {
+  webAuthnRegistrationValidator,
+  webAuthnLoginValidator,
+  webAuthnMfaOptionsValidator,
+  webAuthnMfaLoginValidator,
+  renameWebAuthnCredentialValidator,
+  webAuthnCredentialIdValidator,
+} from '../../validators/auth.validator';
+
+export function createWebAuthnRoutes(): Router {
+  const router = Router();
+  const webAuthnController = new WebAuthnController();
+
+  // Passwordless login (discoverable credentials, no bearer token)
+  router.post(
+    '/login/options',
+    authRateLimiter,
+    webAuthnController.startLogin.bind(webAuthnController)
+  );
+
+  router.post(
+    '/login/verify',
+    authRateLimiter,
+    ValidationMiddleware.validate(webAuthnLoginValidator),
+    webAuthnController.finishLogin.bind(webAuthnController)
+  );
+
+  // Second login step (authenticated by the MFA challenge token)
+  router.post(
+    '/mfa/options',
+    authRateLimiter,
+    ValidationMiddleware.validate(webAuthnMfaOptionsValidator),
+    webAuthnController.startMfa.bind(webAuthnController)
+  );
+
+  router.post(
+    '/mfa/verify',
+    authRateLimiter,
+    ValidationMiddleware.validate(webAuthnMfaLoginValidator),
+    webAuthnController.finishMfa.bind(webAuthnController)
+  );
+
+  router.post(
+    '/register/options',
+    AuthMiddleware.authenticate,
+    strictRateLimiter,
+    webAuthnController.startRegistration.bind(webAuthnController)
+  );
+
+  router.post(
+    '/register/verify',
+    AuthMiddleware.authenticate,
+    strictRateLimiter,
+    ValidationMiddleware.validate(webAuthnRegistrationValidator),
+    webAuthnController.finishRegistration.bind(webAuthnController)
+  );
+
+  router.get(
+    '/credentials',
+    AuthMiddleware.authenticate,
+    generalRateLimiter,
+    webAuthnController.getCredentials.bind(webAuthnController)
+  );
+
+  router.patch(
+    '/credentials/:id',
+    AuthMiddleware.authenticate,
+    generalRateLimiter,
+    ValidationMiddleware.validate(renameWebAuthnCredentialValidator),
+    webAuthnController.renameCredential.bind(webAuthnController)
+  );
+
+  router.delete(
+    '/credentials/:id',
+    AuthMiddleware.authenticate,
+    strictRateLimiter,
+    ValidationMiddleware.validate(webAuthnCredentialIdValidator),
+    webAuthnController.deleteCredential.bind(webAuthnController)
+  );
+
+  return router;
+}
@@ -0,0 +1,37 @@
+/**
+ * Well-Known Routes
+ *
+ * Public discovery documents served from the root of the service.
+ */
+
+import { Router } from 'express';
+import { WellKnownController } from '../controllers/well-known.controller';
+import { generalRateLimiter } from '../middleware/rate-limit.middleware';
+import { oidcConfig } from '../../../infrastructure/config/oidc.config';
+
+export function createWellKnownRoutes(): Router {
+  const router = Router();
+  const wellKnownController = new WellKnownController();
+
+  /**
+   * @route   GET /.well-known/jwks.json
+   * @desc    Public keys for offline access token verification
+   * @access  Public
+   */
+  router.get('/.well-known/jwks.json', generalRateLimiter, wellKnownController.jwks.bind(wellKnownController));
+
+  /**
+   * @route   GET /.well-known/openid-configuration
+   * @desc    OpenID Connect provider metadata (only when the provider is enabled)
+   * @access  Public
+   */
+  if (oidcConfig.enabled) {
+    router.get(
+      '/.well-known/openid-configuration',
+      generalRateLimiter,
+      wellKnownController.openidConfiguration.bind(wellKnownController)
+    );
+  }
+
+  return router;
+}
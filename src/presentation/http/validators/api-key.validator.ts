@@ -0,0 +1,8 @@
+import { body, ValidationChain } from 'express-validator';
+
+export const createApiKeyValidator: ValidationChain[] = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('API key name is required (1-100 chars)'),
+  body('scopes').isArray({ min: 1 }).withMessage('At least one permission scope is required'),
+  body('scopes.*').isString().notEmpty().withMessage('Each scope must be a permission name'),
+  body('expiresAt').optional().isISO8601().withMessage('Expiry must be an ISO 8601 date'),
+];
@@ -0,0 +1,23 @@
+import { query, ValidationChain } from 'express-validator';
+import { AUDIT_OUTCOME_VALUES, MAX_AUDIT_LOG_PAGE_SIZE } from '../../../domain/constants/audit';
+
+export const listAuditLogsValidator: ValidationChain[] = [
+  query('tenantId').optional().isUUID().withMessage('Tenant ID must be a valid UUID'),
+  query('actorId').optional().isString().isLength({ min: 1, max: 100 }).withMessage('Actor ID must be 1-100 chars'),
+  query('action')
+    .optional()
+    .matches(/^[a-z_]+(\.[a-z_]*)?$/)
+    .withMessage('Action must look like "user.updated", or "user." for every user action'),
+  query('outcome')
+    .optional()
+    .isIn(AUDIT_OUTCOME_VALUES)
+    .withMessage(`Outcome must be one of: ${AUDIT_OUTCOME_VALUES.join(', ')}`),
+  query('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+  query('to').optional().isISO8601().withMessage('to must be an ISO 8601 date'),
+  query('page').optional().isInt({ min: 1 }).withMessage('page must be a positive integer').toInt(),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: MAX_AUDIT_LOG_PAGE_SIZE })
+    .withMessage(`limit must be between 1 and ${MAX_AUDIT_LOG_PAGE_SIZE}`)
+    .toInt(),
+];
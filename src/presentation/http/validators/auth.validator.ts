@@ -1,4 +1,4 @@
-import { body, ValidationChain } from 'express-validator';
+import { body, param, query, ValidationChain } from 'express-validator';
 import { passwordPolicy, getPasswordRequirements, validatePasswordPolicy } from '../../../config/password-policy.config';
 
 export const onboardValidator: ValidationChain[] = [
@@ -70,17 +70,184 @@ export const forgotPasswordValidator: ValidationChain[] = [
   }),
 ];
 
+export const magicLinkRequestValidator: ValidationChain[] = [
+  body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
+  body('tenantSlug')
+    .isString()
+    .trim()
+    .matches(/^[a-z0-9-]+$/)
+    .withMessage('Valid tenant slug is required'),
+];
+
+export const magicLinkLoginValidator: ValidationChain[] = [
+  body('token')
+    .isString()
+    .matches(/^[a-f0-9]{64}\.[a-f0-9]{64}$/)
+    .withMessage('Valid login link token is required'),
+];
+
+export const verifyEmailValidator: ValidationChain[] = [
+  body('token')
+    .isString()
+    .matches(/^[a-f0-9]{64}\.[a-f0-9]{64}$/)
+    .withMessage('Valid verification token is required'),
+];
+
+export const resendVerificationEmailValidator: ValidationChain[] = forgotPasswordValidator;
+
 export const resetPasswordValidator: ValidationChain[] = [
   body('token').isJWT().withMessage('Valid reset token is required'),
+  // The tenant's password policy is enforced by the use case
   body('password')
-    .isLength({ min: passwordPolicy.minLength, max: passwordPolicy.maxLength })
-    .withMessage(`Password must be between ${passwordPolicy.minLength} and ${passwordPolicy.maxLength} characters`)
-    .custom((value: string) => {
-      const validation = validatePasswordPolicy(value);
-      if (!validation.isValid) {
-        throw new Error(validation.errors.join('. '));
-      }
-      return true;
-    })
-    .withMessage(`Password must contain: ${getPasswordRequirements()}`),
-];
\ No newline at end of file
+    .isString()
+    .isLength({ min: 1, max: passwordPolicy.maxLength })
+    .withMessage(`Password is required (at most ${passwordPolicy.maxLength} characters)`),
+];
+export const changePasswordValidator: ValidationChain[] = [
+  body('currentPassword').isString().notEmpty().withMessage('Current password is required'),
+  // The tenant's password policy is enforced by the use case
+  body('newPassword')
+    .isString()
+    .isLength({ min: 1, max: passwordPolicy.maxLength })
+    .withMessage(`Password is required (at most ${passwordPolicy.maxLength} characters)`),
+];
+
+export const changeExpiredPasswordValidator: ValidationChain[] = [
+  body('challengeToken').isJWT().withMessage('Valid password change challenge token is required'),
+  // The tenant's password policy is enforced by the use case
+  body('newPassword')
+    .isString()
+    .isLength({ min: 1, max: passwordPolicy.maxLength })
+    .withMessage(`Password is required (at most ${passwordPolicy.maxLength} characters)`),
+];
+
+export const mfaCodeValidator: ValidationChain[] = [
+  body('code')
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('MFA code must be a 6-digit number'),
+];
+
+export const mfaLoginValidator: ValidationChain[] = [
+  body('challengeToken').isJWT().withMessage('Valid MFA challenge token is required'),
+  body('code')
+    .optional()
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('MFA code must be a 6-digit number'),
+  body('recoveryCode')
+    .optional()
+    .trim()
+    .isLength({ min: 10, max: 20 })
+    .withMessage('Recovery code is invalid'),
+  body().custom((value) => {
+    if (!value?.code === !value?.recoveryCode) {
+      throw new Error('Provide either code or recoveryCode');
+    }
+    return true;
+  }),
+];
+
+export const mfaEnrollmentStartValidator: ValidationChain[] = [
+  body('challengeToken').isJWT().withMessage('Valid MFA enrollment challenge token is required'),
+];
+
+export const mfaEnrollmentCompleteValidator: ValidationChain[] = [
+  ...mfaEnrollmentStartValidator,
+  ...mfaCodeValidator,
+];
+
+export const passwordPolicyValidator: ValidationChain[] = [
+  query('tenantSlug')
+    .optional()
+    .isString()
+    .trim()
+    .matches(/^[a-z0-9-]+$/)
+    .withMessage('Invalid tenant slug format'),
+];
+
+// Only the shape of the PublicKeyCredential JSON is checked here; the WebAuthn library verifies its content
+const webAuthnResponseValidator: ValidationChain[] = [
+  body('response').isObject().withMessage('WebAuthn response is required'),
+  body(['response.id', 'response.rawId', 'response.response.clientDataJSON'])
+    .isString()
+    .withMessage('WebAuthn response is malformed'),
+  body('response.type').equals('public-key').withMessage('WebAuthn response is malformed'),
+];
+
+const webAuthnAssertionValidator: ValidationChain[] = [
+  ...webAuthnResponseValidator,
+  body(['response.response.authenticatorData', 'response.response.signature'])
+    .isString()
+    .withMessage('WebAuthn response is malformed'),
+];
+
+export const webAuthnRegistrationValidator: ValidationChain[] = [
+  ...webAuthnResponseValidator,
+  body('response.response.attestationObject').isString().withMessage('WebAuthn response is malformed'),
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Passkey name must be between 1 and 100 characters'),
+];
+
+export const webAuthnLoginValidator: ValidationChain[] = webAuthnAssertionValidator;
+
+export const webAuthnMfaOptionsValidator: ValidationChain[] = [
+  body('challengeToken').isJWT().withMessage('Valid MFA challenge token is required'),
+];
+
+export const webAuthnMfaLoginValidator: ValidationChain[] = [
+  ...webAuthnMfaOptionsValidator,
+  ...webAuthnAssertionValidator,
+];
+
+export const renameWebAuthnCredentialValidator: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid passkey ID'),
+  body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Passkey name must be between 1 and 100 characters'),
+];
+
+export const webAuthnCredentialIdValidator: ValidationChain[] = [
+  param('id').isUUID().withMessage('Invalid passkey ID'),
+];
+
+export const ssoLoginOptionsValidator: ValidationChain[] = [
+  query('tenantSlug')
+    .isString()
+    .trim()
+    .matches(/^[a-z0-9-]+$/)
+    .withMessage('Valid tenant slug is required'),
+];
+
+export const samlLoginValidator: ValidationChain[] = [...ssoLoginOptionsValidator];
+
+export const samlTenantValidator: ValidationChain[] = [
+  param('tenantId').isUUID().withMessage('Invalid tenant ID'),
+];
+
+export const samlAcsValidator: ValidationChain[] = [
+  ...samlTenantValidator,
+  body('SAMLResponse').isString().notEmpty().withMessage('SAMLResponse is required'),
+];
+
+export const oidcLoginValidator: ValidationChain[] = [
+  ...ssoLoginOptionsValidator,
+  query('connectorId').isUUID().withMessage('Valid connector ID is required'),
+];
+
+export const oidcCallbackValidator: ValidationChain[] = [
+  query('state').isString().notEmpty().withMessage('state is required'),
+];
+
+export const ssoLoginCodeValidator: ValidationChain[] = [
+  body('code')
+    .isString()
+    .matches(/^[a-f0-9]{64}\.[a-f0-9]{64}$/)
+    .withMessage('Valid SSO login code is required'),
+];
@@ -0,0 +1,19 @@
+import { body, param, ValidationChain } from 'express-validator';
+import { EMAIL_TEMPLATE_TYPE_VALUES } from '../../../domain/constants/email-templates';
+
+export const emailTemplateTypeValidator: ValidationChain[] = [
+  param('type')
+    .isIn(EMAIL_TEMPLATE_TYPE_VALUES)
+    .withMessage(`Template type must be one of: ${EMAIL_TEMPLATE_TYPE_VALUES.join(', ')}`),
+];
+
+export const updateEmailTemplateValidator: ValidationChain[] = [
+  ...emailTemplateTypeValidator,
+  body('subject').isString().trim().isLength({ min: 1, max: 200 }).withMessage('Subject is required (1-200 chars)'),
+  body('textBody').isString().isLength({ min: 1, max: 20000 }).withMessage('Text body is required (max 20000 chars)'),
+  body('htmlBody')
+    .optional({ nullable: true })
+    .isString()
+    .isLength({ max: 50000 })
+    .withMessage('HTML body must be at most 50000 chars'),
+];
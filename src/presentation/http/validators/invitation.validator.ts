@@ -0,0 +1,31 @@
+import { body, query, ValidationChain } from 'express-validator';
+import { passwordPolicy } from '../../../config/password-policy.config';
+import { INVITATION_STATUS_VALUES } from '../../../domain/constants/invitations';
+
+export const createInvitationValidator: ValidationChain[] = [
+  body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
+  body('roleIds').isArray().withMessage('Role IDs must be an array'),
+  body('roleIds.*').isUUID().withMessage('Each role ID must be a valid UUID'),
+];
+
+export const listInvitationsValidator: ValidationChain[] = [
+  query('status')
+    .optional()
+    .isIn(INVITATION_STATUS_VALUES)
+    .withMessage(`Status must be one of: ${INVITATION_STATUS_VALUES.join(', ')}`),
+];
+
+export const invitationTokenValidator: ValidationChain[] = [
+  body('token').isString().notEmpty().withMessage('Invitation token is required'),
+];
+
+export const acceptInvitationValidator: ValidationChain[] = [
+  ...invitationTokenValidator,
+  // The tenant's password policy is enforced by the use case
+  body('password')
+    .isString()
+    .isLength({ min: 1, max: passwordPolicy.maxLength })
+    .withMessage(`Password is required (at most ${passwordPolicy.maxLength} characters)`),
+  body('firstName').trim().isLength({ min: 1, max: 50 }).withMessage('First name is required (1-50 chars)'),
+  body('lastName').trim().isLength({ min: 1, max: 50 }).withMessage('Last name is required (1-50 chars)'),
+];
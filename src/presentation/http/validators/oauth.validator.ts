@@ -0,0 +1,26 @@
+import { body, ValidationChain } from 'express-validator';
+import { SUPPORTED_OIDC_SCOPES } from '../../../domain/constants/oauth';
+
+export const createOAuthClientValidator: ValidationChain[] = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Client name is required (1-100 chars)'),
+  body('redirectUris').isArray({ min: 1 }).withMessage('At least one redirect URI is required'),
+  body('redirectUris.*')
+    .isURL({ require_tld: false, require_protocol: true, protocols: ['http', 'https'] })
+    .withMessage('Each redirect URI must be an absolute http(s) URL'),
+  body('allowedScopes').optional().isArray().withMessage('Allowed scopes must be an array'),
+  body('allowedScopes.*')
+    .isIn(SUPPORTED_OIDC_SCOPES)
+    .withMessage(`Each scope must be one of: ${SUPPORTED_OIDC_SCOPES.join(', ')}`),
+  body('confidential').optional().isBoolean().withMessage('Confidential must be a boolean'),
+];
+
+export const createServiceClientValidator: ValidationChain[] = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Client name is required (1-100 chars)'),
+  body('roleIds').isArray().withMessage('Role IDs must be an array'),
+  body('roleIds.*').isUUID().withMessage('Each role ID must be a valid UUID'),
+];
+
+export const updateServiceClientRolesValidator: ValidationChain[] = [
+  body('roleIds').isArray().withMessage('Role IDs must be an array'),
+  body('roleIds.*').isUUID().withMessage('Each role ID must be a valid UUID'),
+];
@@ -0,0 +1,6 @@
+import { body, ValidationChain } from 'express-validator';
+
+export const createScimTokenValidator: ValidationChain[] = [
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('SCIM token name is required (1-100 chars)'),
+  body('expiresAt').optional().isISO8601().withMessage('Expiry must be an ISO 8601 date'),
+];
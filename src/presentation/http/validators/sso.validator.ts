@@ -0,0 +1,61 @@
+import { body, param, ValidationChain } from 'express-validator';
+
+// Settings that may be left out on both create and update
+const oidcConnectorOptionalValidator: ValidationChain[] = [
+  body('scopes').optional().isArray({ max: 20 }).withMessage('Scopes must be an array of at most 20 scopes'),
+  body('scopes.*')
+    .isString()
+    .matches(/^[\x21\x23-\x5B\x5D-\x7E]+$/)
+    .withMessage('Scopes must not contain spaces or quotes'),
+  body('claimMapping').optional().isObject().withMessage('Claim mapping must be an object'),
+  body(['claimMapping.email', 'claimMapping.emailVerified', 'claimMapping.firstName', 'claimMapping.lastName'])
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Claim names are required (1-255 chars)'),
+  body(['enabled', 'jitProvisioning'])
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('enabled and jitProvisioning must be booleans'),
+  body('defaultRoleId').optional({ nullable: true }).isUUID().withMessage('Default role ID must be a valid UUID'),
+];
+
+export const createOidcConnectorValidator: ValidationChain[] = [
+  body('name').isString().trim().isLength({ min: 1, max: 100 }).withMessage('Connector name is required (1-100 chars)'),
+  // Discovery is fetched from the issuer, so only https is accepted
+  body('issuer').isURL({ require_protocol: true, protocols: ['https'] }).withMessage('Issuer must be an https URL'),
+  body('clientId').isString().trim().isLength({ min: 1, max: 255 }).withMessage('Client ID is required (1-255 chars)'),
+  body('clientSecret').isString().isLength({ min: 1, max: 1024 }).withMessage('Client secret is required (1-1024 chars)'),
+  ...oidcConnectorOptionalValidator,
+];
+
+export const oidcConnectorIdValidator: ValidationChain[] = [
+  param('connectorId').isUUID().withMessage('Invalid connector ID'),
+];
+
+export const updateOidcConnectorValidator: ValidationChain[] = [
+  ...oidcConnectorIdValidator,
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Connector name is required (1-100 chars)'),
+  body('issuer')
+    .optional()
+    .isURL({ require_protocol: true, protocols: ['https'] })
+    .withMessage('Issuer must be an https URL'),
+  body('clientId')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 255 })
+    .withMessage('Client ID is required (1-255 chars)'),
+  body('clientSecret')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 1024 })
+    .withMessage('Client secret is required (1-1024 chars)'),
+  ...oidcConnectorOptionalValidator,
+];
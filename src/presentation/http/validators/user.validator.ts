@@ -1,11 +1,13 @@
 import { body, param, ValidationChain } from 'express-validator';
+import { passwordPolicy } from '../../../config/password-policy.config';
 
 export const createUserValidator: ValidationChain[] = [
   body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
+  // The tenant's password policy is enforced by the use case
   body('password')
-    .isLength({ min: 8 })
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])/)
-    .withMessage('Password must be at least 8 characters with uppercase, lowercase, number and special character'),
+    .isString()
+    .isLength({ min: 1, max: passwordPolicy.maxLength })
+    .withMessage(`Password is required (at most ${passwordPolicy.maxLength} characters)`),
   body('firstName').trim().isLength({ min: 1, max: 50 }).withMessage('First name is required (1-50 chars)'),
   body('lastName').trim().isLength({ min: 1, max: 50 }).withMessage('Last name is required (1-50 chars)'),
   body('roleIds').isArray().withMessage('Role IDs must be an array'),
@@ -14,11 +16,12 @@ export const createUserValidator: ValidationChain[] = [
 
 export const updateUserValidator: ValidationChain[] = [
   body('email').optional().isEmail().normalizeEmail().withMessage('Valid email is required'),
+  // The tenant's password policy is enforced by the use case
   body('password')
     .optional()
-    .isLength({ min: 8 })
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])/)
-    .withMessage('Password must be at least 8 characters with uppercase, lowercase, number and special character'),
+    .isString()
+    .isLength({ min: 1, max: passwordPolicy.maxLength })
+    .withMessage(`Password is required (at most ${passwordPolicy.maxLength} characters)`),
   body('firstName').optional().trim().isLength({ min: 1, max: 50 }).withMessage('First name cannot be empty (1-50 chars)'),
   body('lastName').optional().trim().isLength({ min: 1, max: 50 }).withMessage('Last name cannot be empty (1-50 chars)'),
   body('roleIds').optional().isArray().withMessage('Role IDs must be an array'),
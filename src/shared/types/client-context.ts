@@ -0,0 +1,5 @@
+// Information about the client a session was created from
+export interface ClientContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
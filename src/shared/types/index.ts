@@ -1,14 +1,28 @@
 import { Request } from 'express';
+import { ClientContext } from './client-context';
 
 export interface ApiResponse<T = any> {
   success: boolean;
   message: string;
   statusCode: number;
+  code?: string;
   errors?: string[];
   stackTrace?: string[];
   results?: T;
 }
 
+// Non-human principals put their own record ID in userId:
+// 'service' is an OAuth client using the client_credentials grant, 'api_key' a tenant API key
+export type PrincipalType = 'user' | 'service' | 'api_key';
+
+// Who performed an audited action: an access token principal, a tenant's SCIM client or the service itself
+export type AuditActorType = PrincipalType | 'scim' | 'system';
+
+export interface AuditActor extends ClientContext {
+  actorId: string | null; // null for SCIM clients and the service itself
+  actorType: AuditActorType;
+}
+
 export interface JwtPayload {
   userId: string;
   tenantId: string | null;
@@ -16,6 +30,9 @@ export interface JwtPayload {
   roles: string[];
   permissions: string[];
   isSuperAdmin: boolean;
+  sessionId?: string;
+  principalType?: PrincipalType; // Absent on user tokens issued before service principals existed
+  clientId?: string;
 }
 
 export interface RequestWithUser extends Request {
@@ -24,6 +41,7 @@ export interface RequestWithUser extends Request {
 }
 
 export * from './pagination';
+export * from './client-context';
 export * from './user-with-roles';
 export * from './role-with-permissions';
 
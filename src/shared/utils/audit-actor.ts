@@ -0,0 +1,13 @@
+import { RequestWithUser, AuditActor } from '../types';
+import { getClientContext } from './client-context';
+
+/**
+ * The authenticated principal of a request, for the audit log
+ */
+export function getAuditActor(req: RequestWithUser): AuditActor {
+  return {
+    ...getClientContext(req),
+    actorId: req.user?.userId ?? null,
+    actorType: req.user ? req.user.principalType ?? 'user' : 'system',
+  };
+}
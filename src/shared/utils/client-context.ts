@@ -0,0 +1,9 @@
+import { Request } from 'express';
+import { ClientContext } from '../types/client-context';
+
+export function getClientContext(req: Pick<Request, 'get' | 'ip' | 'socket'>): ClientContext {
+  return {
+    userAgent: req.get('user-agent')?.substring(0, 512),
+    ipAddress: req.ip || req.socket?.remoteAddress,
+  };
+}